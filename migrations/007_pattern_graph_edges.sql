@@ -0,0 +1,34 @@
+-- Migration: Persisted kNN Graph
+-- Stores the graph built by setup-relationships so GraphVectorService can load it
+-- at startup instead of recomputing every neighbourhood
+-- Created: 2026-10-19
+
+-- UP
+
+-- One row per directed edge; type follows EdgeWeight.type
+CREATE TABLE IF NOT EXISTS pattern_graph_edges (
+  source_pattern_id TEXT NOT NULL,
+  target_pattern_id TEXT NOT NULL,
+  weight REAL NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('vector', 'metadata', 'temporal')),
+  PRIMARY KEY (source_pattern_id, target_pattern_id),
+  FOREIGN KEY (source_pattern_id) REFERENCES patterns(id) ON DELETE CASCADE,
+  FOREIGN KEY (target_pattern_id) REFERENCES patterns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pattern_graph_edges_target
+  ON pattern_graph_edges(target_pattern_id);
+
+-- Embedding version (pattern_embeddings.created_at) each node was built from,
+-- used to rebuild only the neighbourhoods of changed embeddings
+CREATE TABLE IF NOT EXISTS pattern_graph_nodes (
+  pattern_id TEXT PRIMARY KEY,
+  embedding_version TEXT NOT NULL,
+  built_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (pattern_id) REFERENCES patterns(id) ON DELETE CASCADE
+);
+
+-- DOWN
+
+DROP TABLE IF EXISTS pattern_graph_edges;
+DROP TABLE IF EXISTS pattern_graph_nodes;
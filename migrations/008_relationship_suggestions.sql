@@ -0,0 +1,30 @@
+-- Migration: Relationship Suggestions
+-- Stores relationships proposed by RelationshipInferenceService until a curator
+-- accepts them into pattern_relationships or rejects them
+-- Created: 2026-10-19
+
+-- UP
+
+CREATE TABLE IF NOT EXISTS relationship_suggestions (
+  id TEXT PRIMARY KEY,
+  source_pattern_id TEXT NOT NULL,
+  target_pattern_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  confidence REAL NOT NULL,
+  signals TEXT NOT NULL,
+  evidence TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  relationship_id TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  reviewed_at TEXT,
+  UNIQUE (source_pattern_id, target_pattern_id),
+  FOREIGN KEY (source_pattern_id) REFERENCES patterns(id) ON DELETE CASCADE,
+  FOREIGN KEY (target_pattern_id) REFERENCES patterns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_suggestions_status
+  ON relationship_suggestions(status, confidence);
+
+-- DOWN
+
+DROP TABLE IF EXISTS relationship_suggestions;
@@ -0,0 +1,49 @@
+-- Migration: Embeddings Per Model
+-- Keys pattern_embeddings by (pattern_id, model) so several registry models can keep
+-- embeddings side by side; search reads the rows of the active model
+-- Created: 2026-10-19
+
+-- UP
+
+CREATE TABLE IF NOT EXISTS pattern_embeddings_per_model (
+  pattern_id TEXT NOT NULL,
+  embedding TEXT NOT NULL,
+  model TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (pattern_id, model)
+);
+
+INSERT OR REPLACE INTO pattern_embeddings_per_model
+  (pattern_id, embedding, model, strategy, dimensions, created_at)
+SELECT pattern_id, embedding, model, strategy, dimensions, created_at FROM pattern_embeddings;
+
+DROP TABLE pattern_embeddings;
+
+ALTER TABLE pattern_embeddings_per_model RENAME TO pattern_embeddings;
+
+CREATE INDEX IF NOT EXISTS idx_pattern_embeddings_model ON pattern_embeddings(model);
+
+-- DOWN
+
+CREATE TABLE IF NOT EXISTS pattern_embeddings_single_model (
+  pattern_id TEXT PRIMARY KEY,
+  embedding TEXT NOT NULL,
+  model TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Keeps the most recent embedding of each pattern
+INSERT OR REPLACE INTO pattern_embeddings_single_model
+  (pattern_id, embedding, model, strategy, dimensions, created_at)
+SELECT pattern_id, embedding, model, strategy, dimensions, created_at
+FROM pattern_embeddings ORDER BY created_at;
+
+DROP TABLE pattern_embeddings;
+
+ALTER TABLE pattern_embeddings_single_model RENAME TO pattern_embeddings;
+
+CREATE INDEX IF NOT EXISTS idx_pattern_embeddings_model ON pattern_embeddings(model);
@@ -0,0 +1,12 @@
+-- Migration: Embedding Content Hash
+-- Stores a hash of the model and the text each embedding was generated from, so
+-- generate-embeddings only re-embeds patterns whose text or model changed
+-- Created: 2026-10-19
+
+-- UP
+
+ALTER TABLE pattern_embeddings ADD COLUMN content_hash TEXT;
+
+-- DOWN
+
+ALTER TABLE pattern_embeddings DROP COLUMN content_hash;
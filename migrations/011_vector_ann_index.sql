@@ -0,0 +1,24 @@
+-- Migration: Vector ANN Index
+-- Persists the IVF index of VectorOperationsService: k-means centroids per model and the
+-- inverted list each embedding belongs to, so the index is loaded at startup instead of retrained
+-- Created: 2026-10-19
+
+-- UP
+
+CREATE TABLE IF NOT EXISTS vector_indexes (
+  model TEXT PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'ivf',
+  dimensions INTEGER NOT NULL,
+  -- JSON array of centroids (one per inverted list)
+  centroids TEXT NOT NULL,
+  -- Embeddings the centroids were trained on
+  vector_count INTEGER NOT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE pattern_embeddings ADD COLUMN ivf_list INTEGER;
+
+-- DOWN
+
+ALTER TABLE pattern_embeddings DROP COLUMN ivf_list;
+DROP TABLE IF EXISTS vector_indexes;
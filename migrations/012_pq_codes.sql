@@ -0,0 +1,26 @@
+-- Migration: Product Quantization Codes
+-- Persists PQ codebooks per model and the codes of each embedding, so compressed vector
+-- search can rank patterns without loading their float vectors
+-- Created: 2026-10-19
+
+-- UP
+
+CREATE TABLE IF NOT EXISTS pq_codebooks (
+  model TEXT PRIMARY KEY,
+  dimensions INTEGER NOT NULL,
+  subvectors INTEGER NOT NULL,
+  clusters INTEGER NOT NULL,
+  -- JSON array [subvector][centroid][dimension]
+  codebooks TEXT NOT NULL,
+  -- Embeddings the codebooks were trained on
+  vector_count INTEGER NOT NULL,
+  trained_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One byte per subvector
+ALTER TABLE pattern_embeddings ADD COLUMN pq_codes BLOB;
+
+-- DOWN
+
+ALTER TABLE pattern_embeddings DROP COLUMN pq_codes;
+DROP TABLE IF EXISTS pq_codebooks;
@@ -0,0 +1,17 @@
+-- Migration: Pattern Sources
+-- Records which catalog (built-in or an overlay namespace) defined each pattern and which
+-- overlay overrode each of its fields, for provenance and source filters
+-- Created: 2026-10-19
+
+-- UP
+
+ALTER TABLE patterns ADD COLUMN source TEXT NOT NULL DEFAULT 'builtin';
+-- JSON object: overridden field -> overlay namespace
+ALTER TABLE patterns ADD COLUMN provenance TEXT;
+CREATE INDEX IF NOT EXISTS idx_patterns_source ON patterns(source);
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_patterns_source;
+ALTER TABLE patterns DROP COLUMN provenance;
+ALTER TABLE patterns DROP COLUMN source;
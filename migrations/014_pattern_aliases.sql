@@ -0,0 +1,21 @@
+-- Migration: Pattern Aliases
+-- Alternative names and former IDs (a pattern's alsoKnownAs) that resolve to one canonical
+-- pattern, so lookups and search treat near-duplicate entries as the same pattern
+-- Created: 2026-10-19
+
+-- UP
+
+CREATE TABLE IF NOT EXISTS pattern_aliases (
+  -- Lowercase slug of the alias: "Backends for Frontends" -> backends-for-frontends
+  alias_key TEXT PRIMARY KEY,
+  alias TEXT NOT NULL,
+  pattern_id TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (pattern_id) REFERENCES patterns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pattern_aliases_pattern ON pattern_aliases(pattern_id);
+
+-- DOWN
+
+DROP TABLE IF EXISTS pattern_aliases;
@@ -33,6 +33,7 @@ const fixedPaths = [
   'dist/cli/generate-embeddings.js',
   'dist/cli/setup-relationships.js',
   'dist/cli/integrity-check.js',
+  'dist/cli/analyze-repository.js',
 ];
 for (const entry of fixedPaths) {
   requiredPaths.add(entry);
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * Repository Analysis CLI
+ * Detects design patterns and anti-patterns across a directory or file list
+ */
+import { DatabaseManager } from '../services/database-manager.js';
+import { RepositoryAnalyzer } from '../services/repository-analyzer.js';
+import { linkRepositoryAnalysis, type CatalogPatternRef } from '../mcp/code-analysis.js';
+import { formatRepositoryAnalysisResult } from '../mcp/tool-formatters.js';
+import type { RepositoryAnalysisResult } from '../services/repository-analyzer.js';
+import fs from 'fs';
+
+interface CLIOptions {
+  root: string;
+  files?: string[];
+  maxFiles?: number;
+  jsonOutput: boolean;
+}
+
+async function main(): Promise<void> {
+  const options = parseArguments();
+
+  try {
+    const result = await new RepositoryAnalyzer().analyzeRepository({
+      root: options.root,
+      files: options.files,
+      maxFiles: options.maxFiles,
+    });
+
+    if (options.jsonOutput) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const links = await loadCatalogLinks(result);
+    console.log(formatRepositoryAnalysisResult(result, links, Number.MAX_SAFE_INTEGER));
+  } catch (error) {
+    console.error('Repository analysis failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function parseArguments(): CLIOptions {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const files = valueOf('--files');
+  const maxFiles = valueOf('--max-files');
+  const flagValues = new Set([files, maxFiles]);
+  const root = args.find(arg => !arg.startsWith('-') && !flagValues.has(arg));
+
+  return {
+    root: root ?? '.',
+    files: files ? files.split(',').map(file => file.trim()) : undefined,
+    maxFiles: maxFiles ? parseInt(maxFiles, 10) : undefined,
+    jsonOutput: args.includes('--json'),
+  };
+}
+
+/**
+ * Link pattern names to catalog IDs when the pattern database is available
+ */
+async function loadCatalogLinks(
+  result: RepositoryAnalysisResult
+): Promise<Map<string, CatalogPatternRef> | undefined> {
+  const dbPath = process.env.DATABASE_PATH ?? './data/design-patterns.db';
+  if (!fs.existsSync(dbPath)) {
+    return undefined;
+  }
+
+  const db = new DatabaseManager({ filename: dbPath, options: { readonly: true } });
+  try {
+    await db.initialize();
+    return linkRepositoryAnalysis(db, result);
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(console.error);
@@ -1,14 +1,34 @@
 /**
  * Generate Embeddings Command - Generates embeddings for patterns
  * Implements Command Pattern for standardized CLI execution
+ * Embeddings are stored under the active registry model (EMBEDDING_MODEL); pass
+ * `--model <name>` to generate them for another registered model without touching the others.
+ * Only patterns whose text or model changed are re-embedded (tracked by a content hash);
+ * `--full` re-embeds everything and `--check` fails without writing when embeddings are stale.
  */
 
 import { BaseCLICommand } from './base-cli-command.js';
 import { getDatabaseManager } from '../../services/database-manager.js';
-import { createVectorOperationsService } from '../../services/vector-operations.js';
+import {
+  createVectorOperationsService,
+  type EmbeddingUpdateReport,
+} from '../../services/vector-operations.js';
 import { EmbeddingStrategyFactory } from '../../factories/embedding-factory.js';
+import { embeddingModelOptions } from '../../factories/embedding-model-registry.js';
+import { MCPServerConfigBuilder } from '../../core/config-builder.js';
 import { logger } from '../../services/logger.js';
 
+function formatUpdateReport(report: EmbeddingUpdateReport, checkOnly: boolean): string {
+  const list = (ids: string[]) => (ids.length > 0 ? `: ${ids.join(', ')}` : '');
+  return [
+    `${report.model} embeddings${checkOnly ? ' (check only)' : ''}`,
+    `  skipped (up to date): ${report.skipped.length}`,
+    `  created: ${report.created.length}${list(report.created)}`,
+    `  updated: ${report.updated.length}${list(report.updated)}`,
+    `  orphaned${checkOnly ? '' : ' (deleted)'}: ${report.orphaned.length}${list(report.orphaned)}`,
+  ].join('\n');
+}
+
 export class GenerateEmbeddingsCommand extends BaseCLICommand {
   readonly name = 'generate-embeddings';
   readonly description = 'Generates embeddings for all patterns in the database';
@@ -25,25 +45,58 @@ export class GenerateEmbeddingsCommand extends BaseCLICommand {
     };
   }
 
-  protected async run(_args?: string[]): Promise<void> {
+  protected async run(args: string[] = []): Promise<void> {
     const dbManager = getDatabaseManager();
-    const vectorOps = createVectorOperationsService(dbManager);
 
-    // Initialize embedding factory
+    // Initialize embedding factory with the configured model registry
     const embeddingFactory = EmbeddingStrategyFactory.getInstance();
-    const embeddingService = await embeddingFactory.createStrategy();
+    const activeModel = embeddingFactory.configureModels(
+      embeddingModelOptions(MCPServerConfigBuilder.fromEnvironment().build())
+    );
+
+    // An explicitly requested model must be available; the active one may fall back
+    const modelIndex = args.indexOf('--model');
+    const requested = modelIndex >= 0 ? args[modelIndex + 1] : undefined;
+    const model = requested ? embeddingFactory.getModelRegistry().get(requested) : activeModel;
+
+    const vectorOps = createVectorOperationsService(dbManager, {
+      model: model.name,
+      dimensions: model.dimensions,
+    });
+
+    if (args.includes('--check')) {
+      const report = vectorOps.checkEmbeddings();
+      console.log(formatUpdateReport(report, true));
+      const stale = report.created.length + report.updated.length + report.orphaned.length;
+      if (stale > 0) {
+        throw new Error(`${stale} ${model.name} embeddings are stale`);
+      }
+      return;
+    }
 
-    logger.info('embeddings', 'Generating embeddings for all patterns...');
+    const embeddingService = requested
+      ? embeddingFactory.getModelRegistry().createStrategy(requested)
+      : await embeddingFactory.createStrategy();
+    if (requested && !(await embeddingService.isAvailable())) {
+      throw new Error(`Embedding model ${requested} is not available`);
+    }
 
-    // Generate embeddings using the vector operations service
-    await vectorOps.rebuildEmbeddings(async (text: string) => {
+    const generateEmbedding = async (text: string) => {
       const embedding = await embeddingService.generateEmbedding(text);
       return embedding.values; // Extract the number array from EmbeddingVector
-    });
+    };
+
+    if (args.includes('--full')) {
+      logger.info('embeddings', `Generating ${model.name} embeddings for all patterns...`);
+      await vectorOps.rebuildEmbeddings(generateEmbedding);
+    } else {
+      logger.info('embeddings', `Updating stale ${model.name} embeddings...`);
+      console.log(formatUpdateReport(await vectorOps.updateEmbeddings(generateEmbedding), false));
+    }
 
     // Get embedding statistics
     const stats = vectorOps.getStats();
-    logger.info('embeddings', `Embedding generation completed: ${stats.totalVectors} embeddings created`);
+    logger.info('embeddings', `Embedding generation completed: ${stats.totalVectors} embeddings stored`);
 
     // Validate embeddings
     if (stats.totalVectors > 0) {
@@ -7,6 +7,7 @@ import { BaseCLICommand } from './base-cli-command.js';
 import { getDatabaseManager } from '../../services/database-manager.js';
 import { getPatternStorageService } from '../../services/pattern-storage.js';
 import { PatternSeeder } from '../../services/pattern-seeder.js';
+import { MCPServerConfigBuilder } from '../../core/config-builder.js';
 import { logger } from '../../services/logger.js';
 
 export class SeedCommand extends BaseCLICommand {
@@ -22,6 +23,8 @@ export class SeedCommand extends BaseCLICommand {
       patternsPath: './data/patterns',
       batchSize: 50,
       skipExisting: true,
+      // Overlay catalogs from PATTERN_OVERLAYS, as the server seeds them
+      overlays: MCPServerConfigBuilder.fromEnvironment().build().overlayCatalogs,
     };
 
     const patternSeeder = new PatternSeeder(dbManager, seederConfig);
@@ -0,0 +1,80 @@
+/**
+ * Dedup Catalog Command - Reports near-duplicate patterns in a catalog directory
+ * Compares IDs, names, stored embeddings and descriptions, and prints merge proposals with
+ * field-level conflicts. --aliases writes an overlay document that adds the duplicates' names
+ * and IDs to each canonical pattern's alsoKnownAs, so lookups and search resolve them to it.
+ *
+ * Usage:
+ *   dedup-catalog [--patterns ./data/patterns] [--min-confidence 0.8] [--limit 50]
+ *   dedup-catalog --json                       print the full report as JSON
+ *   dedup-catalog --aliases <file>             write the alias overlay document
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BaseCLICommand } from './commands/base-cli-command.js';
+import { getDatabaseManager } from '../services/database-manager.js';
+import { CatalogDeduplicator } from '../services/catalog-deduplicator.js';
+import { formatDeduplicationReport } from '../mcp/tool-formatters.js';
+import { logger } from '../services/logger.js';
+
+function optionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+class DedupCatalogCommand extends BaseCLICommand {
+  readonly name = 'dedup-catalog';
+  readonly description = 'Reports near-duplicate patterns and proposes merges and aliases';
+
+  protected getDbConfig() {
+    return {
+      filename: './data/design-patterns.db',
+      options: {
+        readonly: true,
+        fileMustExist: true,
+        timeout: 5000,
+        verbose: (message: string) => logger.debug('dedup-catalog', message),
+      },
+    };
+  }
+
+  protected run(args: string[] = []): Promise<void> {
+    const rawConfidence = optionValue(args, '--min-confidence');
+    const minConfidence = rawConfidence === undefined ? undefined : Number(rawConfidence);
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      throw new Error('--min-confidence must be a number between 0 and 1');
+    }
+
+    const report = new CatalogDeduplicator(getDatabaseManager()).analyze(
+      optionValue(args, '--patterns') ?? './data/patterns',
+      { minConfidence }
+    );
+
+    const aliasFile = optionValue(args, '--aliases');
+    if (aliasFile) {
+      const overlay = CatalogDeduplicator.aliasOverlay(report);
+      fs.mkdirSync(path.dirname(aliasFile), { recursive: true });
+      fs.writeFileSync(aliasFile, `${JSON.stringify(overlay, null, 2)}\n`);
+      console.log(
+        `Wrote aliases for ${overlay.patterns.length} patterns to ${aliasFile}; ` +
+          'add its directory to PATTERN_OVERLAYS and reseed to apply them'
+      );
+      return Promise.resolve();
+    }
+
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const limit = Number(optionValue(args, '--limit') ?? 50);
+      console.log(formatDeduplicationReport(report, limit));
+    }
+    return Promise.resolve();
+  }
+}
+
+const command = new DedupCatalogCommand();
+command.execute(process.argv.slice(2)).catch(error => {
+  console.error('Catalog deduplication failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Embedding Models Command - Lists registry models and compares them (A/B)
+ * Models come from the built-ins plus EMBEDDING_MODELS; EMBEDDING_MODEL selects the active one.
+ *
+ * Usage:
+ *   embedding-models [list]                                    models and stored embeddings
+ *   embedding-models compare "<query>" --models a,b [--limit 5]  top results per model
+ */
+
+import { BaseCLICommand } from './commands/base-cli-command.js';
+import { getDatabaseManager } from '../services/database-manager.js';
+import { EmbeddingStrategyFactory } from '../factories/embedding-factory.js';
+import { embeddingModelOptions } from '../factories/embedding-model-registry.js';
+import { MCPServerConfigBuilder } from '../core/config-builder.js';
+import {
+  EmbeddingModelComparator,
+  type EmbeddingModelStatus,
+  type ModelComparison,
+} from '../services/embedding-model-comparison.js';
+import { logger } from '../services/logger.js';
+
+function optionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatModels(models: EmbeddingModelStatus[]): string {
+  const lines = models.map(
+    model =>
+      `${model.active ? '*' : ' '} ${model.name} (${model.provider}, ${model.dimensions} dims` +
+      `${model.modelPath ? `, ${model.modelPath}` : ''}): ` +
+      `${model.storedEmbeddings} stored embeddings`
+  );
+  return `Embedding models (* = active)\n\n${lines.join('\n')}`;
+}
+
+function formatComparison(comparison: ModelComparison): string {
+  const sections = comparison.runs.map(run => {
+    const results = run.results.map(
+      (result, index) => `  ${index + 1}. ${result.patternId} (${result.score.toFixed(3)})`
+    );
+    return (
+      `${run.model} — ${run.storedEmbeddings} stored embeddings, ${run.durationMs} ms\n` +
+      (results.length > 0 ? results.join('\n') : '  (no results)')
+    );
+  });
+
+  return [
+    `Query: "${comparison.query}" (top ${comparison.limit})`,
+    ...sections,
+    `Overlap: ${(comparison.overlap * 100).toFixed(0)}% ` +
+      `(shared: ${comparison.shared.join(', ') || 'none'})`,
+  ].join('\n\n');
+}
+
+class EmbeddingModelsCommand extends BaseCLICommand {
+  readonly name = 'embedding-models';
+  readonly description = 'Lists embedding models and compares their search results';
+
+  protected getDbConfig() {
+    return {
+      filename: './data/design-patterns.db',
+      options: {
+        readonly: true,
+        fileMustExist: true,
+        timeout: 5000,
+        verbose: (message: string) => logger.debug('embedding-models', message),
+      },
+    };
+  }
+
+  protected async run(args: string[] = []): Promise<void> {
+    const factory = EmbeddingStrategyFactory.getInstance();
+    factory.configureModels(
+      embeddingModelOptions(MCPServerConfigBuilder.fromEnvironment().build())
+    );
+    const comparator = new EmbeddingModelComparator(
+      getDatabaseManager(),
+      factory.getModelRegistry()
+    );
+
+    if (args[0] !== 'compare') {
+      console.log(formatModels(comparator.listModels()));
+      return;
+    }
+
+    const query = args[1];
+    const models = optionValue(args, '--models')?.split(',').map(model => model.trim());
+    if (!query || query.startsWith('--') || !models) {
+      throw new Error('Usage: embedding-models compare "<query>" --models a,b [--limit 5]');
+    }
+    const limit = Number.parseInt(optionValue(args, '--limit') ?? '5', 10);
+
+    const comparison = await comparator.compare(query, models, limit > 0 ? limit : 5);
+    console.log(formatComparison(comparison));
+  }
+}
+
+const command = new EmbeddingModelsCommand();
+command.execute(process.argv.slice(2)).catch((error) => {
+  console.error('Embedding model command failed:', error);
+  process.exit(1);
+});
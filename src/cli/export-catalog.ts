@@ -0,0 +1,75 @@
+/**
+ * Export Catalog Command - Writes the seeded catalog as Markdown, JSON-LD and a static site
+ *
+ * Usage:
+ *   export-catalog [--out ./catalog-export] [--format markdown,jsonld,html] [--title "..."]
+ */
+
+import { BaseCLICommand } from './commands/base-cli-command.js';
+import { getDatabaseManager } from '../services/database-manager.js';
+import {
+  CatalogExporter,
+  CATALOG_EXPORT_FORMATS,
+  type CatalogExportFormat,
+} from '../services/catalog-exporter.js';
+import { logger } from '../services/logger.js';
+
+function optionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseFormats(value: string | undefined): CatalogExportFormat[] | undefined {
+  if (value === undefined) return undefined;
+
+  const formats = value.split(',').map(format => format.trim());
+  const unknown = formats.filter(
+    format => !CATALOG_EXPORT_FORMATS.includes(format as CatalogExportFormat)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown export format: ${unknown.join(', ')} (use ${CATALOG_EXPORT_FORMATS.join(', ')})`
+    );
+  }
+  return formats as CatalogExportFormat[];
+}
+
+class ExportCatalogCommand extends BaseCLICommand {
+  readonly name = 'export-catalog';
+  readonly description = 'Exports the catalog as Markdown, JSON-LD and a static HTML site';
+
+  protected getDbConfig() {
+    return {
+      filename: './data/design-patterns.db',
+      options: {
+        readonly: true,
+        fileMustExist: true,
+        timeout: 5000,
+        verbose: (message: string) => logger.debug('export-catalog', message),
+      },
+    };
+  }
+
+  protected run(args: string[] = []): Promise<void> {
+    const exporter = new CatalogExporter(getDatabaseManager());
+    const result = exporter.export({
+      outDir: optionValue(args, '--out') ?? './catalog-export',
+      formats: parseFormats(optionValue(args, '--format')),
+      title: optionValue(args, '--title'),
+    });
+
+    console.log(
+      `Exported ${result.patterns} patterns in ${result.categories} categories to ${result.outDir}`
+    );
+    for (const [format, files] of Object.entries(result.files)) {
+      console.log(`  - ${format}: ${files.length} files`);
+    }
+    return Promise.resolve();
+  }
+}
+
+const command = new ExportCatalogCommand();
+command.execute(process.argv.slice(2)).catch(error => {
+  console.error('Catalog export failed:', error);
+  process.exit(1);
+});
@@ -6,7 +6,7 @@
 import { GenerateEmbeddingsCommand } from './commands/generate-embeddings-command.js';
 
 const command = new GenerateEmbeddingsCommand();
-command.execute().catch((error) => {
+command.execute(process.argv.slice(2)).catch((error) => {
   console.error('Embedding generation failed:', error);
   process.exit(1);
 });
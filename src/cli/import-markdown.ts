@@ -0,0 +1,84 @@
+/**
+ * Import Markdown Command - Seeds patterns authored as Markdown documents
+ * Each document is parsed into the Pattern model, validated against the pattern schema and
+ * seeded through PatternSeeder; any invalid document aborts the import.
+ *
+ * Usage:
+ *   import-markdown <file-or-directory>... [--dry-run] [--replace]
+ *     --dry-run   only parse and validate
+ *     --replace   overwrite patterns that already exist
+ */
+
+import path from 'path';
+import { BaseCLICommand } from './commands/base-cli-command.js';
+import { getDatabaseManager } from '../services/database-manager.js';
+import { PatternSeeder } from '../services/pattern-seeder.js';
+import { importMarkdownPatterns } from '../services/markdown-pattern-importer.js';
+import { formatValidationResult } from '../utils/pattern-schema-validation.js';
+import { logger } from '../services/logger.js';
+
+class ImportMarkdownCommand extends BaseCLICommand {
+  readonly name = 'import-markdown';
+  readonly description = 'Imports Markdown pattern documents into the catalog';
+
+  protected getDbConfig() {
+    return {
+      filename: './data/design-patterns.db',
+      options: {
+        readonly: false,
+        fileMustExist: true,
+        timeout: 5000,
+        verbose: (message: string) => logger.debug('import-markdown', message),
+      },
+    };
+  }
+
+  protected async run(args: string[] = []): Promise<void> {
+    const paths = args.filter(arg => !arg.startsWith('--'));
+    if (paths.length === 0) {
+      throw new Error('Usage: import-markdown <file-or-directory>... [--dry-run] [--replace]');
+    }
+
+    const results = importMarkdownPatterns(paths);
+    for (const result of results) {
+      console.log(formatValidationResult(result.validation, path.basename(result.file)));
+    }
+    const invalid = results.filter(result => !result.validation.valid);
+    if (invalid.length > 0) {
+      throw new Error(`${invalid.length} of ${results.length} Markdown patterns are invalid`);
+    }
+    if (args.includes('--dry-run')) {
+      console.log(`\n${results.length} Markdown patterns are valid (dry run, nothing imported)`);
+      return;
+    }
+
+    const seeder = new PatternSeeder(getDatabaseManager(), {
+      patternsPath: './data/patterns',
+      batchSize: 50,
+      skipExisting: !args.includes('--replace'),
+    });
+    let patterns = 0;
+    let implementations = 0;
+    let relationships = 0;
+    for (const { file } of results) {
+      const seeded = await seeder.seedFromFile(file);
+      if (!seeded.success) {
+        throw seeded.error ?? new Error(seeded.message);
+      }
+      patterns += seeded.patternsInserted ?? 0;
+      implementations += seeded.implementationsInserted ?? 0;
+      relationships += seeded.relationshipsInserted ?? 0;
+    }
+
+    console.log(
+      `\nImported ${patterns} of ${results.length} patterns ` +
+        `(${implementations} implementations, ${relationships} relationships)`
+    );
+  }
+}
+
+const command = new ImportMarkdownCommand();
+command.execute(process.argv.slice(2)).catch(error => {
+  console.error('Markdown import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+/**
+ * Infer Relationships Command - Proposes pattern relationships for curator review
+ * Scores pattern pairs by embedding similarity, tag overlap and text cues and stores the
+ * strongest as pending suggestions in relationship_suggestions.
+ *
+ * Usage:
+ *   infer-relationships [--min-confidence 0.6]   infer and store suggestions
+ *   infer-relationships --list                  print pending suggestions
+ *   infer-relationships --accept <id>           save a suggestion as a relationship
+ *   infer-relationships --reject <id>           dismiss a suggestion
+ */
+
+import { BaseCLICommand } from './commands/base-cli-command.js';
+import { getDatabaseManager } from '../services/database-manager.js';
+import { RelationshipInferenceService } from '../services/relationship-inference.js';
+import { formatRelationshipSuggestions } from '../mcp/tool-formatters.js';
+import { logger } from '../services/logger.js';
+
+function optionValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+class InferRelationshipsCommand extends BaseCLICommand {
+  readonly name = 'infer-relationships';
+  readonly description = 'Proposes pattern relationships from embeddings, tags and text cues';
+
+  protected getDbConfig() {
+    return {
+      filename: './data/design-patterns.db',
+      options: {
+        readonly: false,
+        fileMustExist: true,
+        timeout: 5000,
+        verbose: (message: string) => logger.debug('infer-relationships', message),
+      },
+    };
+  }
+
+  protected async run(args: string[] = []): Promise<void> {
+    const service = new RelationshipInferenceService(getDatabaseManager());
+
+    const acceptId = optionValue(args, '--accept');
+    if (acceptId) {
+      const relationship = await service.accept(acceptId);
+      console.log(
+        `Accepted: ${relationship.sourcePatternId} —${relationship.type}→ ` +
+          `${relationship.targetPatternId} (relationship ${relationship.id})`
+      );
+      return;
+    }
+
+    const rejectId = optionValue(args, '--reject');
+    if (rejectId) {
+      const suggestion = service.reject(rejectId);
+      console.log(
+        `Rejected: ${suggestion.sourcePatternId} —${suggestion.type}→ ` +
+          suggestion.targetPatternId
+      );
+      return;
+    }
+
+    if (!args.includes('--list')) {
+      const rawConfidence = optionValue(args, '--min-confidence');
+      const minConfidence = rawConfidence === undefined ? undefined : Number(rawConfidence);
+      if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+        throw new Error('--min-confidence must be a number between 0 and 1');
+      }
+
+      const result = service.suggest({ minConfidence });
+      logger.info('infer-relationships', `  - Proposals: ${result.inferred}`);
+      logger.info('infer-relationships', `  - New suggestions: ${result.created}`);
+      logger.info('infer-relationships', `  - Refreshed suggestions: ${result.updated}`);
+      logger.info('infer-relationships', `  - Skipped known pairs: ${result.skipped}`);
+    }
+
+    const filters = { status: 'pending' as const, limit: 50 };
+    console.log(formatRelationshipSuggestions(service.listSuggestions(filters), filters));
+  }
+}
+
+const command = new InferRelationshipsCommand();
+command.execute(process.argv.slice(2)).catch((error) => {
+  console.error('Relationship inference failed:', error);
+  process.exit(1);
+});
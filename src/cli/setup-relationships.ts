@@ -1,12 +1,17 @@
 /**
  * Setup Relationships Command - Builds pattern relationship graph
- * Creates kNN graph from embeddings and adds metadata edges
+ * Creates kNN graph from embeddings, adds metadata edges and persists the result to
+ * pattern_graph_edges so the server can load it at startup.
+ * Pass --incremental to only rebuild neighbourhoods of changed embeddings.
  */
 
 import { BaseCLICommand } from './commands/base-cli-command.js';
 import { getDatabaseManager } from '../services/database-manager.js';
 import { createVectorOperationsService } from '../services/vector-operations.js';
 import { GraphVectorService } from '../services/graph-vector-service.js';
+import { EmbeddingStrategyFactory } from '../factories/embedding-factory.js';
+import { embeddingModelOptions } from '../factories/embedding-model-registry.js';
+import { MCPServerConfigBuilder } from '../core/config-builder.js';
 import { logger } from '../services/logger.js';
 
 class SetupRelationshipsCommand extends BaseCLICommand {
@@ -25,9 +30,17 @@ class SetupRelationshipsCommand extends BaseCLICommand {
     };
   }
 
-  protected async run(_args?: string[]): Promise<void> {
+  protected async run(args: string[] = []): Promise<void> {
+    const incremental = args.includes('--incremental');
     const dbManager = getDatabaseManager();
-    const vectorOps = createVectorOperationsService(dbManager);
+    // The graph connects embeddings of the active model
+    const embeddingModel = EmbeddingStrategyFactory.getInstance().configureModels(
+      embeddingModelOptions(MCPServerConfigBuilder.fromEnvironment().build())
+    );
+    const vectorOps = createVectorOperationsService(dbManager, {
+      model: embeddingModel.name,
+      dimensions: embeddingModel.dimensions,
+    });
 
     // Initialize graph vector service
     const graphService = new GraphVectorService(vectorOps, dbManager, {
@@ -38,10 +51,15 @@ class SetupRelationshipsCommand extends BaseCLICommand {
       rebuildInterval: 3600000,
     });
 
-    logger.info('setup-relationships', 'Building pattern relationship graph...');
+    logger.info(
+      'setup-relationships',
+      incremental
+        ? 'Updating persisted pattern relationship graph...'
+        : 'Building pattern relationship graph...'
+    );
 
-    // Build kNN graph from embeddings
-    const graph = await graphService.buildKNNGraph();
+    // Build kNN graph from embeddings (incremental runs persist their own changes)
+    const graph = await graphService.buildKNNGraph({ fromScratch: !incremental });
 
     // Log results
     const nodeCount = graph.size;
@@ -56,12 +74,17 @@ class SetupRelationshipsCommand extends BaseCLICommand {
       throw new Error('No patterns found in graph. Please seed the database first.');
     }
 
+    if (!incremental) {
+      const savedEdges = graphService.saveGraph();
+      logger.info('setup-relationships', `  - Persisted edges: ${savedEdges}`);
+    }
+
     logger.info('setup-relationships', 'Relationship setup completed successfully');
   }
 }
 
 const command = new SetupRelationshipsCommand();
-command.execute().catch((error) => {
+command.execute(process.argv.slice(2)).catch((error) => {
   console.error('Relationship setup failed:', error);
   process.exit(1);
 });
@@ -3,19 +3,56 @@
  * Provides fluent interface with validation and sensible defaults
  */
 
+import path from 'path';
 import { resolveDatabasePath } from './path-resolver.js';
+import type { EmbeddingModelSpec } from '../models/vector.js';
+import type { PatternCatalogSource } from '../models/pattern.js';
+import { validateCatalogSource } from '../services/catalog-sources.js';
+import {
+  BUILTIN_EMBEDDING_MODELS,
+  DEFAULT_EMBEDDING_MODEL,
+  validateEmbeddingModelSpec,
+} from '../factories/embedding-model-registry.js';
+
+const LLM_PROVIDERS = ['openai', 'anthropic', 'ollama', 'local'] as const;
 
 export interface MCPServerConfig {
   databasePath: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   enableLLM: boolean;
+  llmConfig?: {
+    provider?: (typeof LLM_PROVIDERS)[number];
+    model?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    timeout?: number;
+    temperature?: number;
+    maxTokens?: number;
+  };
   maxConcurrentRequests: number;
+  /** Allow tools that modify the catalog (relationship create/update/delete) */
+  enableWriteTools?: boolean;
+  /** Directories analyze_repository may read; the tool is disabled when empty */
+  analysisRoots?: string[];
   enableFuzzyLogic?: boolean;
+  /** Pattern directories seeded over the built-in catalog (namespace and priority per overlay) */
+  overlayCatalogs?: PatternCatalogSource[];
+  // Embedding model registry
+  /** Models registered in addition to the built-ins (all-MiniLM-L6-v2, simplified-hash) */
+  embeddingModels?: EmbeddingModelSpec[];
+  /** Registry model whose stored embeddings are searched and used to embed queries */
+  activeEmbeddingModel?: string;
+  /** Local model cache directory for transformers models */
+  embeddingModelCacheDir?: string;
+  /** Allow downloading models that are not in the local cache */
+  allowRemoteModels?: boolean;
   // New Blended RAG features
   enableTelemetry?: boolean;
   enableHybridSearch?: boolean;
   enableGraphAugmentation?: boolean;
   embeddingCompression?: boolean;
+  /** Search product-quantized codes (with float re-ranking) instead of float vectors */
+  compressedVectorSearch?: boolean;
   // Multi-Level Cache (Phase 2.2)
   enableMultiLevelCache?: boolean;
   cacheConfig?: {
@@ -38,12 +75,21 @@ interface ConfigBuilderState {
   databasePath?: string;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
   enableLLM?: boolean;
+  llmConfig?: MCPServerConfig['llmConfig'];
   maxConcurrentRequests?: number;
+  enableWriteTools?: boolean;
+  analysisRoots?: string[];
   enableFuzzyLogic?: boolean;
+  overlayCatalogs?: PatternCatalogSource[];
+  embeddingModels?: EmbeddingModelSpec[];
+  activeEmbeddingModel?: string;
+  embeddingModelCacheDir?: string;
+  allowRemoteModels?: boolean;
   enableTelemetry?: boolean;
   enableHybridSearch?: boolean;
   enableGraphAugmentation?: boolean;
   embeddingCompression?: boolean;
+  compressedVectorSearch?: boolean;
   enableMultiLevelCache?: boolean;
   cacheConfig?: MCPServerConfig['cacheConfig'];
   // HTTP Transport (Docker deployment)
@@ -86,6 +132,20 @@ export class MCPServerConfigBuilder {
     return this;
   }
 
+  /**
+   * Configure the LLM provider (endpoint, credentials, model and timeout)
+   */
+  withLLMConfig(config: NonNullable<MCPServerConfig['llmConfig']>): this {
+    if (config.provider !== undefined && !LLM_PROVIDERS.includes(config.provider)) {
+      throw new Error(`LLM provider must be one of: ${LLM_PROVIDERS.join(', ')}`);
+    }
+    if (config.timeout !== undefined && (!Number.isFinite(config.timeout) || config.timeout <= 0)) {
+      throw new Error('LLM timeout must be a positive finite number');
+    }
+    this.state.llmConfig = { ...this.state.llmConfig, ...config };
+    return this;
+  }
+
   /**
    * Set maximum concurrent requests
    */
@@ -97,6 +157,25 @@ export class MCPServerConfigBuilder {
     return this;
   }
 
+  /**
+   * Enable/disable tools that write to the catalog
+   */
+  withWriteTools(enabled: boolean = true): this {
+    this.state.enableWriteTools = enabled;
+    return this;
+  }
+
+  /**
+   * Directories (and their subdirectories) that analyze_repository may read
+   */
+  withAnalysisRoots(roots: string[]): this {
+    if (roots.some(root => typeof root !== 'string' || root.trim() === '')) {
+      throw new Error('Analysis roots must be non-empty strings');
+    }
+    this.state.analysisRoots = roots.map(root => path.resolve(root));
+    return this;
+  }
+
   /**
    * Enable/disable fuzzy logic
    */
@@ -105,6 +184,62 @@ export class MCPServerConfigBuilder {
     return this;
   }
 
+  /**
+   * Add an overlay pattern catalog (replaces an overlay with the same namespace)
+   */
+  withOverlayCatalog(source: PatternCatalogSource): this {
+    validateCatalogSource(source);
+    this.state.overlayCatalogs = [
+      ...(this.state.overlayCatalogs ?? []).filter(
+        overlay => overlay.namespace !== source.namespace
+      ),
+      source,
+    ];
+    return this;
+  }
+
+  /**
+   * Register an embedding model (replaces a registered model with the same name)
+   */
+  withEmbeddingModel(spec: EmbeddingModelSpec): this {
+    validateEmbeddingModelSpec(spec);
+    this.state.embeddingModels = [
+      ...(this.state.embeddingModels ?? []).filter(model => model.name !== spec.name),
+      spec,
+    ];
+    return this;
+  }
+
+  /**
+   * Set the embedding model used for search (must be built in or registered)
+   */
+  withActiveEmbeddingModel(name: string): this {
+    if (!name || typeof name !== 'string') {
+      throw new Error('Active embedding model must be a non-empty string');
+    }
+    this.state.activeEmbeddingModel = name;
+    return this;
+  }
+
+  /**
+   * Set the local model cache directory for transformers models
+   */
+  withEmbeddingModelCache(cacheDir: string): this {
+    if (!cacheDir || typeof cacheDir !== 'string') {
+      throw new Error('Embedding model cache directory must be a non-empty string');
+    }
+    this.state.embeddingModelCacheDir = cacheDir;
+    return this;
+  }
+
+  /**
+   * Allow/forbid downloading models missing from the local cache
+   */
+  withRemoteModels(enabled: boolean = true): this {
+    this.state.allowRemoteModels = enabled;
+    return this;
+  }
+
   /**
    * Enable/disable telemetry
    */
@@ -137,6 +272,14 @@ export class MCPServerConfigBuilder {
     return this;
   }
 
+  /**
+   * Enable/disable vector search over product quantization codes
+   */
+  withCompressedVectorSearch(enabled: boolean = true): this {
+    this.state.compressedVectorSearch = enabled;
+    return this;
+  }
+
   /**
    * Enable/disable multi-level cache (Phase 2.2)
    */
@@ -248,13 +391,22 @@ export class MCPServerConfigBuilder {
       databasePath: this.state.databasePath ?? defaultDbPath,
       logLevel: this.state.logLevel ?? 'info',
       enableLLM: this.state.enableLLM ?? false,
+      llmConfig: this.state.llmConfig,
       maxConcurrentRequests: this.state.maxConcurrentRequests ?? 10,
+      enableWriteTools: this.state.enableWriteTools ?? false,
+      analysisRoots: this.state.analysisRoots ?? [],
       enableFuzzyLogic: this.state.enableFuzzyLogic ?? true,
+      overlayCatalogs: this.state.overlayCatalogs ?? [],
+      embeddingModels: this.state.embeddingModels ?? [],
+      activeEmbeddingModel: this.state.activeEmbeddingModel ?? DEFAULT_EMBEDDING_MODEL,
+      embeddingModelCacheDir: this.state.embeddingModelCacheDir,
+      allowRemoteModels: this.state.allowRemoteModels ?? true,
       // New Blended RAG features - default to enabled for optimal performance
       enableTelemetry: this.state.enableTelemetry ?? true,
       enableHybridSearch: this.state.enableHybridSearch ?? true,
       enableGraphAugmentation: this.state.enableGraphAugmentation ?? true,
       embeddingCompression: this.state.embeddingCompression ?? true,
+      compressedVectorSearch: this.state.compressedVectorSearch ?? false,
       // Multi-Level Cache (Phase 2.2)
       enableMultiLevelCache: this.state.enableMultiLevelCache ?? true,
       cacheConfig: this.state.cacheConfig,
@@ -297,17 +449,104 @@ export class MCPServerConfigBuilder {
       builder.withLLM(true);
     }
 
+    // LLM provider settings
+    const llmConfig: NonNullable<MCPServerConfig['llmConfig']> = {};
+    const llmProvider = process.env.LLM_PROVIDER;
+    if (llmProvider) {
+      const provider = LLM_PROVIDERS.find(name => name === llmProvider);
+      if (provider) {
+        llmConfig.provider = provider;
+      } else {
+        // Only LLM features depend on the provider; keep the other commands working
+        console.warn(
+          `Ignoring LLM_PROVIDER "${llmProvider}" (expected one of: ${LLM_PROVIDERS.join(', ')}); ` +
+            'LLM features are disabled'
+        );
+        builder.withLLM(false);
+      }
+    }
+    if (process.env.LLM_MODEL) {
+      llmConfig.model = process.env.LLM_MODEL;
+    }
+    if (process.env.LLM_BASE_URL) {
+      llmConfig.baseUrl = process.env.LLM_BASE_URL;
+    }
+    if (process.env.LLM_API_KEY) {
+      llmConfig.apiKey = process.env.LLM_API_KEY;
+    }
+    const llmTimeout = Number.parseInt(process.env.LLM_TIMEOUT_MS ?? '', 10);
+    if (Number.isFinite(llmTimeout) && llmTimeout > 0) {
+      llmConfig.timeout = llmTimeout;
+    }
+    if (Object.keys(llmConfig).length > 0) {
+      builder.withLLMConfig(llmConfig);
+    }
+
     // Max concurrent requests
     const maxConcurrent = parseInt(process.env.MAX_CONCURRENT_REQUESTS ?? '10');
     if (!isNaN(maxConcurrent)) {
       builder.withMaxConcurrentRequests(maxConcurrent);
     }
 
+    // Catalog write tools
+    if (process.env.ENABLE_WRITE_TOOLS === 'true') {
+      builder.withWriteTools(true);
+    }
+
+    // Directories analyze_repository may read (path-delimiter separated)
+    const analysisRoots = (process.env.ANALYSIS_ROOTS ?? '')
+      .split(path.delimiter)
+      .filter(root => root.trim() !== '');
+    if (analysisRoots.length > 0) {
+      builder.withAnalysisRoots(analysisRoots);
+    }
+
     // Fuzzy logic
     if (process.env.ENABLE_FUZZY_LOGIC === 'false') {
       builder.withFuzzyLogic(false);
     }
 
+    // Overlay pattern catalogs
+    if (process.env.PATTERN_OVERLAYS) {
+      let overlays: unknown;
+      try {
+        overlays = JSON.parse(process.env.PATTERN_OVERLAYS);
+      } catch {
+        overlays = null;
+      }
+      if (!Array.isArray(overlays)) {
+        throw new Error('PATTERN_OVERLAYS must be a JSON array of {path, namespace, priority}');
+      }
+      for (const overlay of overlays as PatternCatalogSource[]) {
+        builder.withOverlayCatalog(overlay);
+      }
+    }
+
+    // Embedding model registry
+    if (process.env.EMBEDDING_MODELS) {
+      let specs: unknown;
+      try {
+        specs = JSON.parse(process.env.EMBEDDING_MODELS);
+      } catch {
+        specs = null;
+      }
+      if (!Array.isArray(specs)) {
+        throw new Error('EMBEDDING_MODELS must be a JSON array of embedding model specs');
+      }
+      for (const spec of specs as EmbeddingModelSpec[]) {
+        builder.withEmbeddingModel(spec);
+      }
+    }
+    if (process.env.EMBEDDING_MODEL) {
+      builder.withActiveEmbeddingModel(process.env.EMBEDDING_MODEL);
+    }
+    if (process.env.EMBEDDING_MODEL_CACHE) {
+      builder.withEmbeddingModelCache(process.env.EMBEDDING_MODEL_CACHE);
+    }
+    if (process.env.EMBEDDING_OFFLINE === 'true') {
+      builder.withRemoteModels(false);
+    }
+
     // Telemetry
     if (process.env.ENABLE_TELEMETRY === 'false') {
       builder.withTelemetry(false);
@@ -328,6 +567,11 @@ export class MCPServerConfigBuilder {
       builder.withEmbeddingCompression(false);
     }
 
+    // Vector search over PQ codes
+    if (process.env.COMPRESSED_VECTOR_SEARCH === 'true') {
+      builder.withCompressedVectorSearch(true);
+    }
+
     // Multi-level cache
     if (process.env.ENABLE_MULTI_LEVEL_CACHE === 'false') {
       builder.withMultiLevelCache(false);
@@ -436,5 +680,16 @@ export class MCPServerConfigBuilder {
     if (config.maxConcurrentRequests < 1 || config.maxConcurrentRequests > 1000) {
       throw new Error('Max concurrent requests must be between 1 and 1000');
     }
+
+    // Active embedding model must be registered
+    const modelNames = [...BUILTIN_EMBEDDING_MODELS, ...(config.embeddingModels ?? [])].map(
+      model => model.name
+    );
+    if (config.activeEmbeddingModel && !modelNames.includes(config.activeEmbeddingModel)) {
+      throw new Error(
+        `Unknown active embedding model: ${config.activeEmbeddingModel} ` +
+          `(registered: ${modelNames.join(', ')})`
+      );
+    }
   }
 }
@@ -8,7 +8,7 @@ import { DatabaseManager } from '../services/database-manager.js';
 import { VectorOperationsService } from '../services/vector-operations.js';
 import { SemanticSearchService } from '../services/semantic-search.js';
 import { PatternMatcher } from '../services/pattern-matcher.js';
-import { LLMBridgeService } from '../services/llm-bridge.js';
+import { LLMBridgeService, resolveLLMConfig } from '../services/llm-bridge.js';
 import { MigrationManager } from '../services/migrations.js';
 import { PatternSeeder } from '../services/pattern-seeder.js';
 import { MCPRateLimiter } from '../utils/rate-limiter.js';
@@ -21,6 +21,8 @@ import { EmbeddingCoverageHealthCheck } from '../health/embedding-coverage-healt
 import { LLMBridgeHealthCheck } from '../health/llm-bridge-health-check.js';
 import { HealthStatus, type HealthCheck, type HealthCheckResult } from '../health/types.js';
 import { CacheService } from '../services/cache.js';
+import { EmbeddingStrategyFactory } from '../factories/embedding-factory.js';
+import { embeddingModelOptions } from '../factories/embedding-model-registry.js';
 import type { MCPServerConfig } from '../mcp-server.js';
 
 // New services for Blended RAG
@@ -222,6 +224,11 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
     });
   });
 
+  // Embeddings are stored and queried for the active registry model
+  const embeddingModel = EmbeddingStrategyFactory.getInstance().configureModels(
+    embeddingModelOptions(config)
+  );
+
   // Register vector operations service
   container.registerSingleton(TOKENS.VECTOR_OPERATIONS, () => {
     const db = container.getService<DatabaseManager>(TOKENS.DATABASE_MANAGER);
@@ -231,8 +238,8 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
     return new VectorOperationsService(
       db,
       {
-        model: 'all-MiniLM-L6-v2',
-        dimensions: 384,
+        model: embeddingModel.name,
+        dimensions: embeddingModel.dimensions,
         similarityThreshold: 0.3,
         maxResults: 10,
         cacheEnabled: true,
@@ -243,6 +250,7 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
           quantizationBits: 8,
           minAccuracyDrop: 0.05,
         },
+        productQuantization: { enabled: config.compressedVectorSearch },
       },
       compressor
     );
@@ -253,7 +261,7 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
     const db = container.getService<DatabaseManager>(TOKENS.DATABASE_MANAGER);
     const vectorOps = container.getService<VectorOperationsService>(TOKENS.VECTOR_OPERATIONS);
     return new SemanticSearchService(db, vectorOps, {
-      modelName: 'all-MiniLM-L6-v2',
+      modelName: embeddingModel.name,
       maxResults: 10,
       similarityThreshold: 0.3,
       contextWindow: 512,
@@ -282,13 +290,7 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
   if (config.enableLLM) {
     container.registerSingleton(TOKENS.LLM_BRIDGE, () => {
       const db = container.getService<DatabaseManager>(TOKENS.DATABASE_MANAGER);
-      return new LLMBridgeService(db, {
-        provider: 'ollama',
-        model: 'llama3.2',
-        maxTokens: 2000,
-        temperature: 0.3,
-        timeout: 30000,
-      });
+      return new LLMBridgeService(db, resolveLLMConfig(config.llmConfig));
     });
   }
 
@@ -308,6 +310,7 @@ export function configureContainer(config: MCPServerConfig): SimpleContainer {
       patternsPath,
       batchSize: 100,
       skipExisting: true,
+      overlays: config.overlayCatalogs,
     });
   });
 
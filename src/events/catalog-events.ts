@@ -0,0 +1,48 @@
+/**
+ * Catalog Events
+ * Published when catalog content changes at runtime, so listeners such as MCP resource
+ * subscriptions can tell clients which patterns to re-read
+ */
+
+import { EventBus, createEventBus, EventMap } from './event-bus.js';
+
+/**
+ * Event: A pattern's fields were changed (update_pattern)
+ */
+export interface PatternUpdatedEvent {
+  patternId: string;
+  /** Categories the pattern belonged to before and after the change */
+  categories: string[];
+}
+
+/**
+ * Event: Relationships from or to these patterns were created, changed or deleted
+ */
+export interface RelationshipsChangedEvent {
+  patternIds: string[];
+}
+
+/**
+ * Event: The catalog was reseeded from its pattern files
+ */
+export interface CatalogReloadedEvent {
+  /** Patterns (re)inserted by the reload */
+  patternIds: string[];
+}
+
+/**
+ * Catalog event types - extends EventMap for type safety
+ */
+export interface CatalogEvents extends EventMap {
+  'catalog:pattern:updated': PatternUpdatedEvent;
+  'catalog:relationships:changed': RelationshipsChangedEvent;
+  'catalog:reloaded': CatalogReloadedEvent;
+  [key: string]: PatternUpdatedEvent | RelationshipsChangedEvent | CatalogReloadedEvent;
+}
+
+/**
+ * Process-wide bus for catalog changes
+ */
+export const catalogEventBus: EventBus<CatalogEvents> = createEventBus<CatalogEvents>({
+  enableLogging: false,
+});
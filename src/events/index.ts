@@ -25,3 +25,11 @@ export {
   type HealthUnhealthyEvent,
   type HealthRecoveredEvent,
 } from './health-events.js';
+
+export {
+  catalogEventBus,
+  type CatalogEvents,
+  type PatternUpdatedEvent,
+  type RelationshipsChangedEvent,
+  type CatalogReloadedEvent,
+} from './catalog-events.js';
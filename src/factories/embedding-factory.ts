@@ -9,6 +9,11 @@ import {
   TransformersEmbeddingStrategy,
   OllamaEmbeddingStrategy,
 } from '../strategies/embedding-strategy.js';
+import type { EmbeddingModelSpec } from '../models/vector.js';
+import {
+  EmbeddingModelRegistry,
+  type EmbeddingModelRegistryOptions,
+} from './embedding-model-registry.js';
 
 interface EmbeddingFactoryConfig {
   preferredStrategy?: 'transformers' | 'ollama' | 'simple-hash';
@@ -21,6 +26,9 @@ export class EmbeddingStrategyFactory {
   private static instance: EmbeddingStrategyFactory;
   private strategies: Map<string, EmbeddingStrategy> = new Map();
   private config: EmbeddingFactoryConfig;
+  private registry = new EmbeddingModelRegistry();
+  /** Set once a model registry was configured; createStrategy then serves the active model */
+  private useRegistry = false;
 
   private constructor(config: EmbeddingFactoryConfig = {}) {
     this.config = {
@@ -45,7 +53,9 @@ export class EmbeddingStrategyFactory {
    * Create and return the best available embedding strategy
    */
   async createStrategy(): Promise<EmbeddingStrategy> {
-    const cacheKey = `${this.config.preferredStrategy}_${this.config.ollamaBaseUrl}`;
+    const cacheKey = this.useRegistry
+      ? `model_${this.registry.getActiveModel().name}`
+      : `${this.config.preferredStrategy}_${this.config.ollamaBaseUrl}`;
 
     // Return cached strategy if available
     const cachedStrategy = this.strategies.get(cacheKey);
@@ -56,8 +66,10 @@ export class EmbeddingStrategyFactory {
       this.strategies.delete(cacheKey);
     }
 
-    // Try preferred strategy first
-    let strategy = this.tryCreatePreferredStrategy();
+    // Try the active registry model, then the preferred strategy
+    let strategy = this.useRegistry
+      ? this.registry.createStrategy()
+      : this.tryCreatePreferredStrategy();
 
     if (strategy && (await strategy.isAvailable())) {
       this.strategies.set(cacheKey, strategy);
@@ -131,6 +143,25 @@ export class EmbeddingStrategyFactory {
     return results;
   }
 
+  /**
+   * Configure the embedding model registry; createStrategy then returns the active model's
+   * strategy (falling back as usual when it is unavailable)
+   */
+  configureModels(options: EmbeddingModelRegistryOptions): EmbeddingModelSpec {
+    this.registry = new EmbeddingModelRegistry({
+      ollamaBaseUrl: this.config.ollamaBaseUrl,
+      ...options,
+    });
+    this.useRegistry = true;
+    this.clearCache();
+    this.log(`Active embedding model: ${this.registry.getActiveModel().name}`);
+    return this.registry.getActiveModel();
+  }
+
+  getModelRegistry(): EmbeddingModelRegistry {
+    return this.registry;
+  }
+
   /**
    * Clear strategy cache (useful for testing or configuration changes)
    */
@@ -0,0 +1,151 @@
+/**
+ * Registry of embedding models that can keep embeddings side by side.
+ * Each model is stored under its own name in pattern_embeddings.model; the active model is
+ * the one search queries are embedded with. Transformers models load from a local model cache
+ * and can be restricted to it for offline use.
+ */
+
+import type { EmbeddingModelSpec } from '../models/vector.js';
+import type { MCPServerConfig } from '../core/config-builder.js';
+import {
+  EmbeddingStrategy,
+  SimpleHashEmbeddingStrategy,
+  TransformersEmbeddingStrategy,
+  OllamaEmbeddingStrategy,
+} from '../strategies/embedding-strategy.js';
+
+export const DEFAULT_EMBEDDING_MODEL = 'all-MiniLM-L6-v2';
+
+export const BUILTIN_EMBEDDING_MODELS: readonly EmbeddingModelSpec[] = [
+  {
+    name: DEFAULT_EMBEDDING_MODEL,
+    provider: 'transformers',
+    dimensions: 384,
+    modelPath: 'Xenova/all-MiniLM-L6-v2',
+    pooling: 'mean',
+    normalize: true,
+  },
+  { name: 'simplified-hash', provider: 'simple-hash', dimensions: 384, normalize: true },
+];
+
+export interface EmbeddingModelRegistryOptions {
+  /** Models added to (or replacing) the built-ins */
+  models?: EmbeddingModelSpec[];
+  activeModel?: string;
+  /** Local model cache directory for transformers models */
+  cacheDir?: string;
+  /** Set to false to never download models (offline) */
+  allowRemoteModels?: boolean;
+  ollamaBaseUrl?: string;
+}
+
+/**
+ * Registry options from the embedding settings of the server configuration
+ */
+export function embeddingModelOptions(
+  config: Pick<
+    MCPServerConfig,
+    'embeddingModels' | 'activeEmbeddingModel' | 'embeddingModelCacheDir' | 'allowRemoteModels'
+  >
+): EmbeddingModelRegistryOptions {
+  return {
+    models: config.embeddingModels,
+    activeModel: config.activeEmbeddingModel,
+    cacheDir: config.embeddingModelCacheDir,
+    allowRemoteModels: config.allowRemoteModels,
+  };
+}
+
+/**
+ * Throw when a model specification cannot be used
+ */
+export function validateEmbeddingModelSpec(spec: EmbeddingModelSpec): void {
+  if (!spec.name || typeof spec.name !== 'string') {
+    throw new Error('Embedding model name must be a non-empty string');
+  }
+  if (!['transformers', 'ollama', 'simple-hash'].includes(spec.provider)) {
+    throw new Error(
+      `Embedding model ${spec.name}: provider must be one of transformers, ollama, simple-hash`
+    );
+  }
+  if (!Number.isInteger(spec.dimensions) || spec.dimensions < 1) {
+    throw new Error(`Embedding model ${spec.name}: dimensions must be a positive integer`);
+  }
+  if (spec.pooling !== undefined && !['mean', 'cls'].includes(spec.pooling)) {
+    throw new Error(`Embedding model ${spec.name}: pooling must be "mean" or "cls"`);
+  }
+}
+
+export class EmbeddingModelRegistry {
+  private models = new Map<string, EmbeddingModelSpec>();
+  private activeModel: string;
+
+  constructor(private readonly options: EmbeddingModelRegistryOptions = {}) {
+    for (const spec of [...BUILTIN_EMBEDDING_MODELS, ...(options.models ?? [])]) {
+      this.register(spec);
+    }
+    this.activeModel = DEFAULT_EMBEDDING_MODEL;
+    if (options.activeModel) {
+      this.setActiveModel(options.activeModel);
+    }
+  }
+
+  register(spec: EmbeddingModelSpec): this {
+    validateEmbeddingModelSpec(spec);
+    this.models.set(spec.name, { ...spec });
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  get(name: string): EmbeddingModelSpec {
+    const spec = this.models.get(name);
+    if (!spec) {
+      throw new Error(
+        `Unknown embedding model: ${name} (registered: ${[...this.models.keys()].join(', ')})`
+      );
+    }
+    return spec;
+  }
+
+  list(): EmbeddingModelSpec[] {
+    return [...this.models.values()];
+  }
+
+  getActiveModel(): EmbeddingModelSpec {
+    return this.get(this.activeModel);
+  }
+
+  setActiveModel(name: string): void {
+    this.activeModel = this.get(name).name;
+  }
+
+  /**
+   * Create the strategy that produces embeddings for a model (the active one by default)
+   */
+  createStrategy(name: string = this.activeModel): EmbeddingStrategy {
+    const spec = this.get(name);
+    switch (spec.provider) {
+      case 'transformers':
+        return new TransformersEmbeddingStrategy({
+          model: spec.name,
+          modelPath: spec.modelPath ?? spec.name,
+          dimensions: spec.dimensions,
+          pooling: spec.pooling,
+          normalize: spec.normalize,
+          cacheDir: this.options.cacheDir,
+          allowRemoteModels: this.options.allowRemoteModels,
+        });
+      case 'ollama':
+        return new OllamaEmbeddingStrategy(
+          this.options.ollamaBaseUrl,
+          spec.modelPath ?? spec.name,
+          spec.dimensions
+        );
+      case 'simple-hash':
+        return new SimpleHashEmbeddingStrategy(spec.dimensions, spec.name);
+    }
+  }
+}
@@ -8,6 +8,8 @@
 
 import { DatabaseManager } from '../services/database-manager.js';
 import { BM25Scorer } from '../services/bm25-scorer.js';
+import { patternIdsFromSources } from '../services/catalog-sources.js';
+import { loadPatternAliases } from '../services/pattern-aliases.js';
 import type { BM25Document } from '../services/bm25-scorer.js';
 import { structuredLogger } from '../utils/logger.js';
 import { parseTags } from '../utils/parse-tags.js';
@@ -53,6 +55,7 @@ export class KeywordSearchHandler implements SearchHandler {
       tags: string;
     }>('SELECT id, name, category, description, complexity, tags FROM patterns');
 
+    const aliases = loadPatternAliases(this.db).byPattern;
     const documents: BM25Document[] = [];
 
     for (const pattern of patterns) {
@@ -68,9 +71,10 @@ export class KeywordSearchHandler implements SearchHandler {
 
       this.patternMap.set(pattern.id, patternSummary);
 
-      // Build document text: name + description + tags + category
+      // Build document text: name + aliases + description + tags + category
       const text = [
         pattern.name,
+        (aliases.get(pattern.id) ?? []).join(' '),
         pattern.description,
         parsedTags.join(' '),
         pattern.category,
@@ -87,6 +91,15 @@ export class KeywordSearchHandler implements SearchHandler {
     });
   }
 
+  /**
+   * Pattern IDs allowed by the request's source filter (null when unfiltered)
+   */
+  private resolveSourceFilter(request: PatternRequest): Set<string> | null {
+    return request.sources && request.sources.length > 0
+      ? patternIdsFromSources(this.db, request.sources)
+      : null;
+  }
+
   /**
    * Perform keyword-based search
    */
@@ -112,11 +125,14 @@ export class KeywordSearchHandler implements SearchHandler {
       // BM25 scoring
       const bm25Results = this.bm25Scorer!.scoreQuery(request.query);
       const normalized = this.bm25Scorer!.normalizeScores(bm25Results);
+      const fromSources = this.resolveSourceFilter(request);
 
       // Build matches with normalized scores
       const matches: MatchResult[] = [];
 
       for (const result of normalized) {
+        if (fromSources && !fromSources.has(result.id)) continue;
+
         // Apply category filter if specified
         if (request.categories && request.categories.length > 0) {
           const pattern = this.patternMap.get(result.id);
@@ -180,13 +196,16 @@ export class KeywordSearchHandler implements SearchHandler {
 
       this.ensureBM25();
 
-      // BM25 scoring (no category filter for broad search)
+      // BM25 scoring (no category filter for broad search; the source filter still applies)
       const bm25Results = this.bm25Scorer!.scoreQuery(request.query);
       const normalized = this.bm25Scorer!.normalizeScores(bm25Results);
+      const fromSources = this.resolveSourceFilter(request);
 
       const matches: MatchResult[] = [];
 
       for (const result of normalized) {
+        if (fromSources && !fromSources.has(result.id)) continue;
+
         const pattern = this.patternMap.get(result.id);
         if (!pattern) continue;
 
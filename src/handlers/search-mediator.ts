@@ -13,10 +13,17 @@ import { HybridSearchCombiner } from './hybrid-search-combiner.js';
 import { RecommendationBuilder } from './recommendation-builder.js';
 import { FuzzyInferenceEngine } from '../services/fuzzy-inference.js';
 import { FuzzyDefuzzificationEngine } from '../services/fuzzy-defuzzification.js';
+import { aliasKey, loadPatternAliases } from '../services/pattern-aliases.js';
 import { PatternRecommendation } from '../models/recommendation.js';
 import { structuredLogger } from '../utils/logger.js';
+import { parseTags } from '../utils/parse-tags.js';
 import { Result, ok, err, isOk } from '../types/result.js';
-import type { PatternRequest, MatchResult, DetailedPattern } from '../types/search-types.js';
+import type {
+  PatternRequest,
+  MatchResult,
+  DetailedPattern,
+  PatternSummary,
+} from '../types/search-types.js';
 
 /**
  * Search mediator configuration
@@ -69,6 +76,9 @@ export class SearchMediator {
   private fuzzyDefuzzificationEngine: FuzzyDefuzzificationEngine;
   private cache: CacheService;
   private readonly config: SearchMediatorConfig;
+  private readonly db: DatabaseManager;
+  /** Canonical pattern ID by alias key, loaded on first search */
+  private aliasTargets: Map<string, string> | null = null;
 
   constructor(
     db: DatabaseManager,
@@ -78,6 +88,7 @@ export class SearchMediator {
   ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.cache = cache ?? new CacheService();
+    this.db = db;
 
     // Initialize handlers
     this.semanticHandler = new SemanticSearchHandler(vectorOps, this.cache, {
@@ -230,7 +241,9 @@ export class SearchMediator {
       }
 
       // Perform matching
-      const matches = await this.performMatching(request, effectiveConfig);
+      const matches = this.canonicalizeMatches(
+        await this.performMatching(request, effectiveConfig)
+      );
 
       if (matches.length === 0) {
         structuredLogger.warn('search-mediator', 'No matches found', {
@@ -365,6 +378,43 @@ export class SearchMediator {
     return allMatches;
   }
 
+  /**
+   * Report matches on near-duplicate entries as their canonical pattern: a match whose ID is
+   * an alias of another pattern resolves to that pattern, keeping the best match per pattern
+   */
+  private canonicalizeMatches(matches: MatchResult[]): MatchResult[] {
+    this.aliasTargets ??= loadPatternAliases(this.db).byKey;
+    if (this.aliasTargets.size === 0) return matches;
+
+    const best = new Map<string, MatchResult>();
+    for (const match of matches) {
+      const canonicalId = this.aliasTargets.get(aliasKey(match.pattern.id));
+      const canonical =
+        canonicalId && canonicalId !== match.pattern.id ? this.findSummary(canonicalId) : null;
+      const resolved = canonical
+        ? {
+            ...match,
+            pattern: canonical,
+            reasons: [...match.reasons, `Canonical pattern for ${match.pattern.name}`],
+          }
+        : match;
+
+      const previous = best.get(resolved.pattern.id);
+      if (!previous || resolved.confidence > previous.confidence) {
+        best.set(resolved.pattern.id, resolved);
+      }
+    }
+    return [...best.values()];
+  }
+
+  private findSummary(patternId: string): PatternSummary | null {
+    const row = this.db.queryOne<Omit<PatternSummary, 'tags'> & { tags: string | null }>(
+      'SELECT id, name, category, description, complexity, tags FROM patterns WHERE id = ?',
+      [patternId]
+    );
+    return row ? { ...row, tags: parseTags(row.tags) } : null;
+  }
+
   /**
    * Apply fuzzy refinement to recommendations
    */
@@ -579,6 +629,7 @@ export class SearchMediator {
   private buildCacheKey(request: PatternRequest, effectiveConfig: SearchMediatorConfig): string {
     return `search:${request.query}:${JSON.stringify({
       categories: request.categories?.sort(),
+      sources: request.sources?.sort(),
       maxResults: request.maxResults,
       programmingLanguage: request.programmingLanguage,
       useSemantic: effectiveConfig.useSemanticSearch,
@@ -67,6 +67,7 @@ export class SemanticSearchHandler implements SearchHandler {
       // Search for similar patterns
       const searchResults = this.vectorOps.searchSimilar(queryEmbedding, {
         categories: request.categories,
+        sources: request.sources,
         minUsageCount: 0,
       });
 
@@ -11,7 +11,13 @@ import {
   CallToolRequestSchema,
   ReadResourceRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
   CallToolResult,
   ErrorCode,
   McpError,
@@ -20,9 +26,13 @@ import { DatabaseManager } from './services/database-manager.js';
 import { VectorOperationsService } from './services/vector-operations.js';
 import { PatternMatcher } from './services/pattern-matcher.js';
 import { SemanticSearchService } from './services/semantic-search.js';
-import { LLMBridgeService } from './services/llm-bridge.js';
+import { LLMBridgeService, resolveLLMConfig } from './services/llm-bridge.js';
+import { GraphVectorService } from './services/graph-vector-service.js';
+import { EmbeddingStrategyFactory } from './factories/embedding-factory.js';
+import { embeddingModelOptions } from './factories/embedding-model-registry.js';
 import { MigrationManager } from './services/migrations.js';
 import { PatternSeeder } from './services/pattern-seeder.js';
+import { PatternIdResolver } from './services/pattern-id-resolver.js';
 import { logger } from './services/logger.js';
 import { MCPRateLimiter } from './utils/rate-limiter.js';
 import { SearchMediator, type SearchStrategy } from './handlers/search-mediator.js';
@@ -33,13 +43,44 @@ import { MCPServerConfigBuilder, type MCPServerConfig } from './core/config-buil
 import { CANONICAL_TOOL_DEFINITIONS } from './mcp/canonical-tools.js';
 import {
   buildPatternRequest,
+  formatAnalyzeCodeResult,
   formatFindPatternsResult,
+  formatPatternCompositionReport,
+  formatPatternPathResult,
+  formatRefactoringPlan,
+  formatRepositoryAnalysisResult,
   formatSearchResultsFromRecommendations,
 } from './mcp/tool-formatters.js';
-import { formatPatternDetailsText } from './mcp/pattern-details-formatter.js';
+import {
+  codeAnalysisOutput,
+  compositionReportOutput,
+  healthReportOutput,
+  patternCountOutput,
+  patternDetailsOutput,
+  patternNotFoundOutput,
+  patternPathOutput,
+  recommendationsOutput,
+  refactoringPlanOutput,
+  repositoryAnalysisOutput,
+  searchResultsOutput,
+} from './mcp/structured-output.js';
+import { linkAnalysisToCatalog, linkRepositoryAnalysis } from './mcp/code-analysis.js';
+import { analyzePatternComposition } from './mcp/pattern-composition.js';
+import { createRelationshipToolHandlers } from './mcp/relationship-tools.js';
+import { createPromptHandlers } from './mcp/prompts.js';
+import { createCompletionHandlers } from './mcp/completions.js';
+import { createPatternToolHandlers } from './mcp/pattern-tools.js';
+import { createResourceHandlers } from './mcp/resources.js';
+import { RepositoryAnalyzer } from './services/repository-analyzer.js';
+import { RefactoringPlanner } from './services/refactoring-planner.js';
+import { PatternPathFinder } from './services/pattern-path-finder.js';
+import {
+  formatPatternCandidatesText,
+  formatPatternDetailsText,
+} from './mcp/pattern-details-formatter.js';
 import { formatHealthReportText } from './mcp/health-formatter.js';
 import { startHttpServer } from './mcp/http-transport.js';
-import type { PatternRow, PatternImplementation, CountResult } from './mcp/types.js';
+import type { PatternRow, PatternImplementation } from './mcp/types.js';
 import { resolvePatternsPath } from './core/path-resolver.js';
 import { HealthCheckService } from './health/health-check-service.js';
 import { HealthStatus } from './health/types.js';
@@ -60,6 +101,7 @@ class DesignPatternsMCPServer {
   private searchMediator: SearchMediator;
   private semanticSearch!: SemanticSearchService;
   private llmBridge: LLMBridgeService | null = null;
+  private graphService: GraphVectorService;
   private migrationManager: MigrationManager;
   private patternSeeder: PatternSeeder;
   private config: MCPServerConfig;
@@ -67,6 +109,12 @@ class DesignPatternsMCPServer {
   private container?: SimpleContainer;
   private logger: Logger;
   private healthCheckService?: HealthCheckService;
+  private relationshipTools: ReturnType<typeof createRelationshipToolHandlers>;
+  private patternTools: ReturnType<typeof createPatternToolHandlers>;
+  private prompts: ReturnType<typeof createPromptHandlers>;
+  private completions: ReturnType<typeof createCompletionHandlers>;
+  private resources: ReturnType<typeof createResourceHandlers>;
+  private patternResolver: PatternIdResolver;
 
   constructor(
     configBuilder: MCPServerConfigBuilder | MCPServerConfig,
@@ -94,6 +142,7 @@ class DesignPatternsMCPServer {
       this.migrationManager = container.getService<MigrationManager>(TOKENS.MIGRATION_MANAGER);
       this.patternSeeder = container.getService<PatternSeeder>(TOKENS.PATTERN_SEEDER);
       this.rateLimiter = container.getService<MCPRateLimiter>(TOKENS.RATE_LIMITER);
+      this.graphService = container.getService<GraphVectorService>(TOKENS.GRAPH_VECTOR_SERVICE);
 
       // Get health check service from container
       this.healthCheckService = container.getService<HealthCheckService>(
@@ -117,18 +166,22 @@ class DesignPatternsMCPServer {
         },
       });
 
-      // Initialize services
+      // Initialize services (embeddings of the active registry model)
+      const embeddingModel = EmbeddingStrategyFactory.getInstance().configureModels(
+        embeddingModelOptions(this.config)
+      );
       this.vectorOps = new VectorOperationsService(this.db, {
-        model: 'all-MiniLM-L6-v2',
-        dimensions: 384,
+        model: embeddingModel.name,
+        dimensions: embeddingModel.dimensions,
         similarityThreshold: 0.3,
         maxResults: 10,
         cacheEnabled: true,
+        productQuantization: { enabled: this.config.compressedVectorSearch },
       });
 
       // Initialize semantic search service
       this.semanticSearch = new SemanticSearchService(this.db, this.vectorOps, {
-        modelName: 'all-MiniLM-L6-v2',
+        modelName: embeddingModel.name,
         maxResults: 10,
         similarityThreshold: 0.3,
         contextWindow: 512,
@@ -157,14 +210,10 @@ class DesignPatternsMCPServer {
         cacheResultsTTL: 1800000,
       });
 
+      this.graphService = new GraphVectorService(this.vectorOps, this.db);
+
       if (this.config.enableLLM) {
-        this.llmBridge = new LLMBridgeService(this.db, {
-          provider: 'ollama',
-          model: 'llama3.2',
-          maxTokens: 2000,
-          temperature: 0.3,
-          timeout: 30000, // 30 seconds
-        });
+        this.llmBridge = new LLMBridgeService(this.db, resolveLLMConfig(this.config.llmConfig));
       }
 
       // Register health checks (fallback mode)
@@ -196,6 +245,7 @@ class DesignPatternsMCPServer {
         patternsPath,
         batchSize: 100,
         skipExisting: true,
+        overlays: this.config.overlayCatalogs,
       });
 
       // Initialize rate limiter
@@ -207,6 +257,24 @@ class DesignPatternsMCPServer {
       });
     }
 
+    this.patternResolver = new PatternIdResolver(this.db, this.semanticSearch);
+    this.relationshipTools = createRelationshipToolHandlers(this.db, {
+      enableWriteTools: this.config.enableWriteTools ?? false,
+      resolver: this.patternResolver,
+    });
+    this.patternTools = createPatternToolHandlers(this.db, {
+      enableWriteTools: this.config.enableWriteTools ?? false,
+    });
+    this.prompts = createPromptHandlers(this.db, this.searchMediator, {
+      resolver: this.patternResolver,
+    });
+    this.completions = createCompletionHandlers(this.db);
+    this.resources = createResourceHandlers(this.db, {
+      config: this.config,
+      notify: uri => this.sendResourceUpdated(uri),
+      resolver: this.patternResolver,
+    });
+
     // Initialize MCP server
     this.server = new Server(
       {
@@ -215,7 +283,9 @@ class DesignPatternsMCPServer {
       },
       {
         capabilities: {
-          resources: {},
+          completions: {},
+          prompts: {},
+          resources: { subscribe: true },
           tools: {},
         },
       }
@@ -248,6 +318,30 @@ class DesignPatternsMCPServer {
               return this.handleCountPatterns(toolArgs);
             case 'get_health_status':
               return await this.handleGetHealthStatus(toolArgs);
+            case 'analyze_code':
+              return this.handleAnalyzeCode(toolArgs);
+            case 'analyze_repository':
+              return await this.handleAnalyzeRepository(toolArgs);
+            case 'plan_refactoring':
+              return await this.handlePlanRefactoring(toolArgs);
+            case 'analyze_pattern_composition':
+              return await this.handleAnalyzePatternComposition(toolArgs);
+            case 'find_pattern_path':
+              return await this.handleFindPatternPath(toolArgs);
+            case 'get_relationships':
+              return await this.relationshipTools.handleGetRelationships(toolArgs);
+            case 'create_relationship':
+              return await this.relationshipTools.handleCreateRelationship(toolArgs);
+            case 'update_relationship':
+              return await this.relationshipTools.handleUpdateRelationship(toolArgs);
+            case 'delete_relationship':
+              return await this.relationshipTools.handleDeleteRelationship(toolArgs);
+            case 'list_relationship_suggestions':
+              return this.relationshipTools.handleListRelationshipSuggestions(toolArgs);
+            case 'review_relationship_suggestion':
+              return await this.relationshipTools.handleReviewRelationshipSuggestion(toolArgs);
+            case 'update_pattern':
+              return this.patternTools.handleUpdatePattern(toolArgs);
             default:
               throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
           }
@@ -258,47 +352,33 @@ class DesignPatternsMCPServer {
       return await rateLimitedHandler(name, args);
     });
 
-    // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, () => {
-      return {
-        resources: [
-          {
-            uri: 'patterns',
-            name: 'Design Patterns',
-            description: 'Complete catalog of design patterns',
-            mimeType: 'application/json',
-          },
-          {
-            uri: 'categories',
-            name: 'Pattern Categories',
-            description: 'All available pattern categories',
-            mimeType: 'application/json',
-          },
-          {
-            uri: 'server_info',
-            name: 'Server Information',
-            description: 'Server status and configuration',
-            mimeType: 'application/json',
-          },
-        ],
-      };
-    });
+    // Catalog resources, templates and subscriptions
+    this.server.setRequestHandler(ListResourcesRequestSchema, request =>
+      this.resources.listResources(request.params?.cursor)
+    );
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, () =>
+      this.resources.listResourceTemplates()
+    );
+    this.server.setRequestHandler(ReadResourceRequestSchema, request =>
+      this.resources.readResource(request.params.uri)
+    );
+    this.server.setRequestHandler(SubscribeRequestSchema, request =>
+      this.resources.subscribe(request.params.uri)
+    );
+    this.server.setRequestHandler(UnsubscribeRequestSchema, request =>
+      this.resources.unsubscribe(request.params.uri)
+    );
 
-    // Handle resource reads
-    this.server.setRequestHandler(ReadResourceRequestSchema, request => {
-      const { uri } = request.params;
-
-      switch (uri) {
-        case 'patterns':
-          return this.handleReadPatterns();
-        case 'categories':
-          return this.handleReadCategories();
-        case 'server_info':
-          return this.handleReadServerInfo();
-        default:
-          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
-      }
-    });
+    // Design-review prompt templates filled from the catalog
+    this.server.setRequestHandler(ListPromptsRequestSchema, () => this.prompts.listPrompts());
+    this.server.setRequestHandler(GetPromptRequestSchema, request =>
+      this.prompts.getPrompt(request.params.name, request.params.arguments)
+    );
+
+    // Argument completion for prompts and resource templates
+    this.server.setRequestHandler(CompleteRequestSchema, request =>
+      this.completions.complete(request.params)
+    );
 
     // Error handling
     this.server.onerror = error => {
@@ -315,6 +395,7 @@ class DesignPatternsMCPServer {
     const validatedArgs = InputValidator.validateFindPatternsArgs(args);
     const request = buildPatternRequest(validatedArgs.query, {
       categories: validatedArgs.categories,
+      sources: validatedArgs.sources,
       maxResults: validatedArgs.maxResults,
       programmingLanguage: validatedArgs.programmingLanguage,
     });
@@ -328,6 +409,7 @@ class DesignPatternsMCPServer {
           text: formatFindPatternsResult(recommendations),
         },
       ],
+      structuredContent: recommendationsOutput(recommendations),
     };
   }
 
@@ -353,74 +435,64 @@ class DesignPatternsMCPServer {
           ),
         },
       ],
+      structuredContent: searchResultsOutput(
+        validatedArgs.query,
+        searchResult.searchTypeUsed,
+        searchResult.degraded,
+        searchResult.recommendations
+      ),
     };
   }
 
   private async handleGetPatternDetails(args: unknown): Promise<CallToolResult> {
     const validatedArgs = InputValidator.validateGetPatternDetailsArgs(args);
-    const pattern = this.db.queryOne<PatternRow>(
-      `
+    // ID, slug, name, alias or closest ID; otherwise ranked did-you-mean candidates
+    const resolution = await this.patternResolver.resolve(validatedArgs.patternId);
+    const pattern =
+      resolution.status === 'resolved'
+        ? this.db.queryOne<PatternRow>(
+            `
       SELECT id, name, category, description, when_to_use, benefits,
-             drawbacks, use_cases, complexity, tags, examples, created_at
+             drawbacks, use_cases, complexity, tags, examples, created_at, source, provenance
       FROM patterns WHERE id = ?
     `,
-      [validatedArgs.patternId]
-    );
-
-    if (!pattern) {
-      // Try to find similar patterns using semantic search
-      const similarPatterns = await this.semanticSearch.search({
-        text: validatedArgs.patternId,
-        options: {
-          limit: 3,
-          includeMetadata: true,
-        },
-      });
+            [resolution.pattern.id]
+          )
+        : null;
 
-      if (similarPatterns.length > 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Pattern "${validatedArgs.patternId}" not found. Here are similar patterns:\n\n${similarPatterns
-                .map(
-                  (p, i) =>
-                    `${i + 1}. **${p.pattern.name}** (${p.pattern.category})\n   ${p.pattern.description}\n   Score: ${(p.score * 100).toFixed(1)}%`
-                )
-                .join('\n\n')}`,
-            },
-          ],
-        };
-      } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Pattern "${validatedArgs.patternId}" not found and no similar patterns were found.`,
-            },
-          ],
-        };
-      }
+    if (resolution.status === 'unresolved' || !pattern) {
+      const candidates = resolution.status === 'unresolved' ? resolution.candidates : [];
+      return {
+        content: [
+          { type: 'text', text: formatPatternCandidatesText(validatedArgs.patternId, candidates) },
+        ],
+        structuredContent: patternNotFoundOutput(validatedArgs.patternId, candidates),
+      };
     }
 
-    // At this point pattern is guaranteed to exist
-    const patternData: PatternRow = pattern;
-
     const implementations = this.db.query<PatternImplementation>(
       `
       SELECT language, code, explanation FROM pattern_implementations
       WHERE pattern_id = ? LIMIT 3
     `,
-      [validatedArgs.patternId]
+      [pattern.id]
     );
 
     return {
       content: [
         {
           type: 'text',
-          text: formatPatternDetailsText(patternData, implementations),
+          text:
+            (resolution.note ? `> ${resolution.note}\n\n` : '') +
+            formatPatternDetailsText(pattern, implementations),
         },
       ],
+      structuredContent: patternDetailsOutput(
+        validatedArgs.patternId,
+        pattern,
+        implementations,
+        resolution
+      ),
     };
   }
 
@@ -451,6 +523,7 @@ class DesignPatternsMCPServer {
                 `*Total patterns from all sources: ${total}*`,
             },
           ],
+          structuredContent: patternCountOutput(total, breakdown),
         };
       } else {
         return {
@@ -460,6 +533,7 @@ class DesignPatternsMCPServer {
               text: `Total design patterns in database: **${total}**`,
             },
           ],
+          structuredContent: patternCountOutput(total),
         };
       }
     } catch (error) {
@@ -480,6 +554,7 @@ class DesignPatternsMCPServer {
               text: 'Health check service is not available. Health checks require DI container initialization.',
             },
           ],
+          structuredContent: healthReportOutput(),
         };
       }
 
@@ -517,6 +592,7 @@ class DesignPatternsMCPServer {
             text: formatHealthReportText(report),
           },
         ],
+        structuredContent: healthReportOutput(report),
       };
     } catch (error) {
       throw new McpError(
@@ -526,81 +602,100 @@ class DesignPatternsMCPServer {
     }
   }
 
-  // Resource handlers
-  private handleReadPatterns(): {
-    contents: Array<{ uri: string; mimeType: string; text: string }>;
-  } {
-    // OPTIMIZATION: Add pagination with LIMIT to prevent loading all 574+ patterns
-    const patterns = this.db.query(
-      'SELECT id, name, category, description, complexity, tags FROM patterns ORDER BY name LIMIT 100'
+  private handleAnalyzeCode(args: unknown): CallToolResult {
+    const validatedArgs = InputValidator.validateAnalyzeCodeArgs(args);
+    const analysis = linkAnalysisToCatalog(
+      this.db,
+      this.patternMatcher.analyzeCode(validatedArgs.code, validatedArgs.language),
+      validatedArgs.language
     );
 
     return {
-      contents: [
+      content: [
         {
-          uri: 'patterns',
-          mimeType: 'application/json',
-          text: JSON.stringify(patterns, null, 2),
+          type: 'text',
+          text: formatAnalyzeCodeResult(analysis),
         },
       ],
+      structuredContent: codeAnalysisOutput(analysis),
     };
   }
 
-  private handleReadCategories(): {
-    contents: Array<{ uri: string; mimeType: string; text: string }>;
-  } {
-    const categories = this.db.query(`
-      SELECT category, COUNT(*) as count 
-      FROM patterns 
-      GROUP BY category 
-      ORDER BY category
-    `);
+  private async handleAnalyzeRepository(args: unknown): Promise<CallToolResult> {
+    const validatedArgs = InputValidator.validateAnalyzeRepositoryArgs(args);
+    const result = await new RepositoryAnalyzer().analyzeRepository({
+      root: validatedArgs.path,
+      files: validatedArgs.files,
+      maxFiles: validatedArgs.maxFiles,
+      allowedRoots: this.config.analysisRoots ?? [],
+    });
+
+    const links = linkRepositoryAnalysis(this.db, result);
+
+    return {
+      content: [{ type: 'text', text: formatRepositoryAnalysisResult(result, links) }],
+      structuredContent: repositoryAnalysisOutput(result, links),
+    };
+  }
+
+  private async handlePlanRefactoring(args: unknown): Promise<CallToolResult> {
+    const validatedArgs = InputValidator.validatePlanRefactoringArgs(args);
+    const plan = await new RefactoringPlanner(this.db, this.llmBridge).plan(validatedArgs);
 
     return {
-      contents: [
+      content: [
         {
-          uri: 'categories',
-          mimeType: 'application/json',
-          text: JSON.stringify(categories, null, 2),
+          type: 'text',
+          text: plan
+            ? formatRefactoringPlan(plan)
+            : `Pattern "${validatedArgs.targetPatternId}" not found.`,
         },
       ],
+      structuredContent: refactoringPlanOutput(validatedArgs.targetPatternId, plan),
     };
   }
 
-  private handleReadServerInfo(): {
-    contents: Array<{ uri: string; mimeType: string; text: string }>;
-  } {
-    const info = {
-      name: 'Design Patterns MCP Server',
-      version: '0.6.0',
-      status: 'running',
-      database: {
-        path: this.config.databasePath,
-        patternCount:
-          this.db.queryOne<CountResult>('SELECT COUNT(*) as count FROM patterns')?.count ?? 0,
-      },
-      features: {
-        semanticSearch: true,
-        llmBridge: this.config.enableLLM,
-        caching: true,
-      },
-      config: {
-        logLevel: this.config.logLevel,
-        maxConcurrentRequests: this.config.maxConcurrentRequests,
-      },
+  private async handleAnalyzePatternComposition(args: unknown): Promise<CallToolResult> {
+    const validatedArgs = InputValidator.validateAnalyzePatternCompositionArgs(args);
+    const report = await analyzePatternComposition(this.db, validatedArgs.patternIds);
+
+    return {
+      content: [{ type: 'text', text: formatPatternCompositionReport(report) }],
+      structuredContent: compositionReportOutput(report),
     };
+  }
+
+  private async handleFindPatternPath(args: unknown): Promise<CallToolResult> {
+    const validatedArgs = InputValidator.validateFindPatternPathArgs(args);
+    const finder = new PatternPathFinder(this.db, this.graphService, this.llmBridge);
+    const result = await finder.findPaths(validatedArgs);
 
     return {
-      contents: [
-        {
-          uri: 'server_info',
-          mimeType: 'application/json',
-          text: JSON.stringify(info, null, 2),
-        },
-      ],
+      content: [{ type: 'text', text: formatPatternPathResult(result) }],
+      structuredContent: patternPathOutput(result),
     };
   }
 
+  private async sendResourceUpdated(uri: string): Promise<void> {
+    try {
+      await this.server.sendResourceUpdated({ uri });
+    } catch (error) {
+      // No client is connected yet, or the transport closed
+      this.logger.debug('mcp-server', 'Resource update notification not sent', {
+        uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Reseed the catalog from its pattern files; subscribers are notified of the reload
+   */
+  async reloadCatalog(): Promise<void> {
+    const result = await this.patternSeeder.seedAll();
+    this.logger.info('mcp-server', 'Catalog reloaded', { message: result.message });
+  }
+
   async initialize(): Promise<void> {
     try {
       this.logger.info('mcp-server', 'Initializing Design Patterns MCP Server', {
@@ -612,6 +707,11 @@ class DesignPatternsMCPServer {
       this.migrationManager.initialize();
       await this.migrationManager.migrate();
       await this.patternSeeder.seedAll();
+      // Start from the kNN graph persisted by setup-relationships instead of rebuilding it
+      this.graphService.loadPersistedGraph();
+      // Search through persisted PQ codes or, for large catalogs, the IVF index
+      this.vectorOps.loadProductQuantizer();
+      this.vectorOps.loadAnnIndex();
 
       // LLMBridge doesn't require initialization
       if (this.llmBridge) {
@@ -647,6 +747,7 @@ class DesignPatternsMCPServer {
 
   async stop(): Promise<void> {
     try {
+      this.resources.dispose();
       await this.db.close();
       await this.server.close();
       this.logger.info('mcp-server', 'Server stopped');
@@ -715,6 +816,16 @@ async function main(): Promise<void> {
     }
   };
 
+  // SIGHUP reloads the catalog without restarting, e.g. after editing overlay files
+  process.on('SIGHUP', () => {
+    server.reloadCatalog().catch((error: unknown) => {
+      logger.error(
+        'main',
+        'Catalog reload failed',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    });
+  });
   process.on('SIGINT', () => {
     shutdown('SIGINT').catch((error: unknown) => {
       logger.error(
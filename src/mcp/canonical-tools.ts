@@ -2,16 +2,42 @@
  * Canonical MCP tool definitions exposed by the production server.
  */
 
+import { RELATIONSHIP_TYPES } from '../models/relationship.js';
+import { TOOL_OUTPUT_SCHEMAS } from './output-schemas.js';
+
 export const CANONICAL_TOOL_NAMES = [
   'find_patterns',
   'search_patterns',
   'get_pattern_details',
   'count_patterns',
   'get_health_status',
+  'analyze_code',
+  'analyze_repository',
+  'plan_refactoring',
+  'analyze_pattern_composition',
+  'find_pattern_path',
+  'get_relationships',
+  'create_relationship',
+  'update_relationship',
+  'delete_relationship',
+  'list_relationship_suggestions',
+  'review_relationship_suggestion',
+  'update_pattern',
 ] as const;
 
 export type CanonicalToolName = (typeof CANONICAL_TOOL_NAMES)[number];
 
+const STRING_LIST_SCHEMA = {
+  type: 'array',
+  items: { type: 'string', maxLength: 500 },
+  maxItems: 50,
+};
+
+const RELATIONSHIP_TYPE_SCHEMA = {
+  type: 'string',
+  enum: [...RELATIONSHIP_TYPES],
+};
+
 export const CANONICAL_TOOL_DEFINITIONS = [
   {
     name: 'find_patterns' as const,
@@ -28,6 +54,12 @@ export const CANONICAL_TOOL_DEFINITIONS = [
           items: { type: 'string' },
           description: 'Optional: Pattern categories to search in',
         },
+        sources: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: Catalog sources to search in ("builtin" or overlay catalog namespaces)',
+        },
         maxResults: {
           type: 'number',
           description: 'Maximum number of recommendations to return',
@@ -40,6 +72,7 @@ export const CANONICAL_TOOL_DEFINITIONS = [
       },
       required: ['query'],
     },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.find_patterns,
   },
   {
     name: 'search_patterns' as const,
@@ -57,6 +90,7 @@ export const CANONICAL_TOOL_DEFINITIONS = [
       },
       required: ['query'],
     },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.search_patterns,
   },
   {
     name: 'get_pattern_details' as const,
@@ -64,10 +98,15 @@ export const CANONICAL_TOOL_DEFINITIONS = [
     inputSchema: {
       type: 'object',
       properties: {
-        patternId: { type: 'string', description: 'Pattern ID to get details for' },
+        patternId: {
+          type: 'string',
+          description:
+            'Pattern ID to get details for; a name, alias or near-miss ID (e.g. "Factory Method") is resolved, unknown IDs return did-you-mean candidates',
+        },
       },
       required: ['patternId'],
     },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.get_pattern_details,
   },
   {
     name: 'count_patterns' as const,
@@ -82,6 +121,7 @@ export const CANONICAL_TOOL_DEFINITIONS = [
         },
       },
     },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.count_patterns,
   },
   {
     name: 'get_health_status' as const,
@@ -100,5 +140,312 @@ export const CANONICAL_TOOL_DEFINITIONS = [
         },
       },
     },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.get_health_status,
+  },
+  {
+    name: 'analyze_code' as const,
+    description:
+      'Analyze source code to identify design patterns (with line locations), suggest catalog patterns and flag anti-patterns',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Source code to analyze',
+        },
+        language: {
+          type: 'string',
+          description: 'Programming language of the code (e.g. typescript, python, java)',
+        },
+      },
+      required: ['code', 'language'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.analyze_code,
+  },
+  {
+    name: 'analyze_repository' as const,
+    description:
+      'Analyze a directory or list of source files: detects cross-file design patterns with file paths, aggregates anti-pattern counts and suggests patterns per module',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description:
+            'Directory to scan recursively, inside the configured analysis roots (relative paths resolve against the first root)',
+        },
+        files: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: Explicit files to analyze (relative to path when given)',
+        },
+        maxFiles: {
+          type: 'number',
+          description: 'Maximum number of files to analyze',
+          default: 500,
+        },
+      },
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.analyze_repository,
+  },
+  {
+    name: 'plan_refactoring' as const,
+    description:
+      'Plan a refactoring of source code towards a catalog pattern: ordered steps, affected symbols, risk notes and test scenarios, using the pattern\'s catalog examples (refined by the LLM when one is configured)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Source code to refactor',
+        },
+        language: {
+          type: 'string',
+          description: 'Programming language of the code (e.g. typescript, python, java)',
+        },
+        targetPatternId: {
+          type: 'string',
+          description: 'Catalog ID of the pattern to refactor towards (e.g. strategy, facade)',
+        },
+        useLLM: {
+          type: 'boolean',
+          description: 'Refine the plan with the configured LLM provider when available',
+          default: true,
+        },
+      },
+      required: ['code', 'language', 'targetPatternId'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.plan_refactoring,
+  },
+  {
+    name: 'analyze_pattern_composition' as const,
+    description:
+      'Check whether a set of catalog patterns works together: conflicts, missing prerequisites, complementary additions, redundancy and pairwise compatibility, all derived from catalog relationships',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        patternIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Catalog IDs of the patterns to combine, in intended implementation order (e.g. ["abstract-factory", "factory-method"])',
+        },
+      },
+      required: ['patternIds'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.analyze_pattern_composition,
+  },
+  {
+    name: 'find_pattern_path' as const,
+    description:
+      'Explain how two patterns relate: shortest and strongest paths through catalog relationships and embedding similarity, with each hop labelled by relationship type or similarity score',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourcePatternId: {
+          type: 'string',
+          description: 'Catalog ID of the pattern to start from (e.g. "adapter")',
+        },
+        targetPatternId: {
+          type: 'string',
+          description: 'Catalog ID of the pattern to reach (e.g. "facade")',
+        },
+        maxHops: {
+          type: 'number',
+          minimum: 1,
+          maximum: 6,
+          description: 'Longest path to consider (default 4)',
+        },
+        includeSimilarity: {
+          type: 'boolean',
+          description: 'Also walk embedding-similarity edges, not only relationships (default true)',
+        },
+        useLLM: {
+          type: 'boolean',
+          description: 'Add an explanation from the configured LLM provider (default true)',
+        },
+      },
+      required: ['sourcePatternId', 'targetPatternId'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.find_pattern_path,
+  },
+  {
+    name: 'get_relationships' as const,
+    description: 'List catalog relationships between patterns, strongest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        patternId: {
+          type: 'string',
+          description: 'Only relationships from or to this pattern (all patterns when omitted)',
+        },
+        type: { ...RELATIONSHIP_TYPE_SCHEMA, description: 'Filter by relationship type' },
+        minStrength: {
+          type: 'number',
+          description: 'Minimum relationship strength (0.0 to 1.0)',
+          minimum: 0,
+          maximum: 1,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of relationships to return',
+          minimum: 1,
+          maximum: 100,
+          default: 50,
+        },
+      },
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.get_relationships,
+  },
+  {
+    name: 'create_relationship' as const,
+    description:
+      'Create a relationship between two catalog patterns (requires write tools to be enabled)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourcePatternId: {
+          type: 'string',
+          description: 'ID, name or alias of the source pattern',
+        },
+        targetPatternId: {
+          type: 'string',
+          description: 'ID, name or alias of the target pattern',
+        },
+        type: { ...RELATIONSHIP_TYPE_SCHEMA, description: 'Type of relationship' },
+        strength: {
+          type: 'number',
+          description: 'Strength of the relationship (0.0 to 1.0)',
+          minimum: 0,
+          maximum: 1,
+          default: 1,
+        },
+        description: {
+          type: 'string',
+          description: 'Human-readable description of the relationship',
+          minLength: 10,
+          maxLength: 500,
+        },
+      },
+      required: ['sourcePatternId', 'targetPatternId', 'type', 'description'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.create_relationship,
+  },
+  {
+    name: 'update_relationship' as const,
+    description:
+      'Change the type, strength or description of a relationship (requires write tools to be enabled)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        relationshipId: { type: 'string', description: 'ID of the relationship to update' },
+        type: { ...RELATIONSHIP_TYPE_SCHEMA, description: 'New relationship type' },
+        strength: {
+          type: 'number',
+          description: 'New relationship strength (0.0 to 1.0)',
+          minimum: 0,
+          maximum: 1,
+        },
+        description: {
+          type: 'string',
+          description: 'New relationship description',
+          minLength: 10,
+          maxLength: 500,
+        },
+      },
+      required: ['relationshipId'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.update_relationship,
+  },
+  {
+    name: 'delete_relationship' as const,
+    description:
+      'Delete a relationship by ID or by its source/target pair (requires write tools to be enabled)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        relationshipId: { type: 'string', description: 'ID of the relationship to delete' },
+        sourcePatternId: {
+          type: 'string',
+          description: 'ID, name or alias of the source pattern',
+        },
+        targetPatternId: {
+          type: 'string',
+          description: 'ID, name or alias of the target pattern',
+        },
+      },
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.delete_relationship,
+  },
+  {
+    name: 'list_relationship_suggestions' as const,
+    description:
+      'List relationships inferred from embedding similarity, tag overlap and text cues, with confidence and evidence, strongest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['pending', 'accepted', 'rejected'],
+          description: 'Review status to list (default pending)',
+        },
+        patternId: {
+          type: 'string',
+          description: 'Only suggestions from or to this pattern',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of suggestions (default 20)',
+        },
+      },
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.list_relationship_suggestions,
+  },
+  {
+    name: 'review_relationship_suggestion' as const,
+    description:
+      'Accept an inferred relationship into the catalog or reject it (requires write tools to be enabled)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        suggestionId: { type: 'string', description: 'ID from list_relationship_suggestions' },
+        decision: { type: 'string', enum: ['accept', 'reject'] },
+        type: { ...RELATIONSHIP_TYPE_SCHEMA, description: 'Override the inferred type' },
+        strength: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: 'Override the strength (defaults to the confidence)',
+        },
+        description: {
+          type: 'string',
+          description: 'Override the generated description (10-500 characters)',
+        },
+      },
+      required: ['suggestionId', 'decision'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.review_relationship_suggestion,
+  },
+  {
+    name: 'update_pattern' as const,
+    description:
+      'Change fields of a catalog pattern and notify subscribers of its resources (requires write tools to be enabled)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        patternId: { type: 'string', description: 'ID of the pattern to update' },
+        name: { type: 'string', minLength: 2, maxLength: 100 },
+        category: { type: 'string', minLength: 2, maxLength: 50 },
+        description: { type: 'string', minLength: 10, maxLength: 2000 },
+        complexity: { type: 'string', enum: ['Low', 'Medium', 'High', 'Very High'] },
+        tags: { ...STRING_LIST_SCHEMA, description: 'Replaces the tags' },
+        whenToUse: { ...STRING_LIST_SCHEMA, description: 'Replaces the when-to-use list' },
+        benefits: { ...STRING_LIST_SCHEMA, description: 'Replaces the benefits' },
+        drawbacks: { ...STRING_LIST_SCHEMA, description: 'Replaces the drawbacks' },
+        useCases: { ...STRING_LIST_SCHEMA, description: 'Replaces the use cases' },
+      },
+      required: ['patternId'],
+    },
+    outputSchema: TOOL_OUTPUT_SCHEMAS.update_pattern,
   },
 ];
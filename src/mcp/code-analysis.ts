@@ -0,0 +1,201 @@
+/**
+ * Links PatternAnalyzer output to catalog entries so tool responses carry real pattern IDs.
+ */
+
+import type { DatabaseManager } from '../services/database-manager.js';
+import type { CodeAnalysisResult, DetectedPattern } from '../services/pattern-analyzer.js';
+import type { RepositoryAnalysisResult } from '../services/repository-analyzer.js';
+
+export interface CatalogPatternRef {
+  id: string;
+  name: string;
+  category: string;
+  /** For anti-patterns: catalog patterns that refactor it away, strongest first */
+  refactorings?: RefactoringRef[];
+}
+
+export interface RefactoringRef {
+  id: string;
+  name: string;
+  category: string;
+  type: string;
+  strength: number;
+  description: string;
+}
+
+export interface LinkedCodeAnalysis {
+  language: string;
+  identifiedPatterns: Array<DetectedPattern & { catalog?: CatalogPatternRef }>;
+  suggestedPatterns: Array<
+    CodeAnalysisResult['suggestedPatterns'][number] & { catalog?: CatalogPatternRef }
+  >;
+  antiPatterns: Array<
+    NonNullable<CodeAnalysisResult['antiPatterns']>[number] & { catalog?: CatalogPatternRef }
+  >;
+  improvements: string[];
+}
+
+/**
+ * Convert a pattern name to the slug convention used for catalog IDs
+ * ("Factory Method" -> "factory-method").
+ */
+export function toPatternSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Resolve pattern names to catalog rows in a single query.
+ * Exact slug IDs win over name matches because the catalog contains
+ * several variants that share a display name.
+ */
+export function lookupCatalogPatterns(
+  db: DatabaseManager,
+  names: string[]
+): Map<string, CatalogPatternRef> {
+  const links = new Map<string, CatalogPatternRef>();
+  const uniqueNames = [...new Set(names)];
+  if (uniqueNames.length === 0) {
+    return links;
+  }
+
+  const slugs = uniqueNames.map(toPatternSlug);
+  const lowered = uniqueNames.map(name => name.toLowerCase());
+  const placeholders = uniqueNames.map(() => '?').join(', ');
+
+  let rows: CatalogPatternRef[] = [];
+  try {
+    rows = db.query<CatalogPatternRef>(
+      `SELECT id, name, category FROM patterns
+       WHERE id IN (${placeholders}) OR LOWER(name) IN (${placeholders})
+       ORDER BY LENGTH(id)`,
+      [...slugs, ...lowered]
+    );
+  } catch {
+    return links;
+  }
+
+  for (const name of uniqueNames) {
+    const slug = toPatternSlug(name);
+    const match =
+      rows.find(row => row.id === slug) ??
+      rows.find(row => row.name.toLowerCase() === name.toLowerCase());
+    if (match) {
+      links.set(name, match);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Refactoring targets for anti-patterns, taken from their catalog relationships
+ */
+export function lookupRefactorings(
+  db: DatabaseManager,
+  antiPatternIds: string[]
+): Map<string, RefactoringRef[]> {
+  const refactorings = new Map<string, RefactoringRef[]>();
+  const uniqueIds = [...new Set(antiPatternIds)];
+  if (uniqueIds.length === 0) {
+    return refactorings;
+  }
+
+  let rows: Array<RefactoringRef & { source_id?: string }> = [];
+  try {
+    rows = db.query<RefactoringRef & { source_id?: string }>(
+      `SELECT r.source_pattern_id AS source_id, p.id, p.name, p.category,
+              r.type, r.strength, r.description
+       FROM pattern_relationships r
+       JOIN patterns p ON p.id = r.target_pattern_id
+       WHERE r.source_pattern_id IN (${uniqueIds.map(() => '?').join(', ')})
+         AND p.category != 'Anti-Pattern'
+       ORDER BY r.strength DESC`,
+      uniqueIds
+    );
+  } catch {
+    return refactorings;
+  }
+
+  for (const { source_id: sourceId, ...ref } of rows) {
+    if (!sourceId) continue;
+    refactorings.set(sourceId, [...(refactorings.get(sourceId) ?? []), ref]);
+  }
+
+  return refactorings;
+}
+
+/**
+ * Attach refactoring targets to resolved anti-pattern links
+ */
+function withRefactorings(
+  db: DatabaseManager,
+  links: Map<string, CatalogPatternRef>,
+  keys: string[]
+): void {
+  const resolved = keys.flatMap(key => {
+    const ref = links.get(key);
+    return ref ? [[key, ref] as const] : [];
+  });
+  const refactorings = lookupRefactorings(db, resolved.map(([, ref]) => ref.id));
+
+  for (const [key, ref] of resolved) {
+    const targets = refactorings.get(ref.id);
+    if (targets) links.set(key, { ...ref, refactorings: targets });
+  }
+}
+
+export function linkAnalysisToCatalog(
+  db: DatabaseManager,
+  analysis: CodeAnalysisResult,
+  language: string
+): LinkedCodeAnalysis {
+  const antiPatterns = analysis.antiPatterns ?? [];
+  const links = lookupCatalogPatterns(db, [
+    ...analysis.identifiedPatterns.map(p => p.pattern),
+    ...analysis.suggestedPatterns.map(p => p.pattern),
+    ...antiPatterns.flatMap(p => [p.catalogId, p.pattern]),
+  ]);
+  withRefactorings(
+    db,
+    links,
+    antiPatterns.map(p => (links.has(p.catalogId) ? p.catalogId : p.pattern))
+  );
+
+  return {
+    language,
+    identifiedPatterns: analysis.identifiedPatterns.map(p => ({
+      ...p,
+      catalog: links.get(p.pattern),
+    })),
+    suggestedPatterns: analysis.suggestedPatterns.map(p => ({
+      ...p,
+      catalog: links.get(p.pattern),
+    })),
+    antiPatterns: antiPatterns.map(p => ({
+      ...p,
+      catalog: links.get(p.catalogId) ?? links.get(p.pattern),
+    })),
+    improvements: analysis.improvements,
+  };
+}
+
+/**
+ * Catalog links for every pattern name mentioned in a repository analysis.
+ * Anti-patterns are keyed by their catalog ID and carry refactoring targets.
+ */
+export function linkRepositoryAnalysis(
+  db: DatabaseManager,
+  result: RepositoryAnalysisResult
+): Map<string, CatalogPatternRef> {
+  const links = lookupCatalogPatterns(db, [
+    ...result.patterns.map(p => p.pattern),
+    ...result.antiPatterns.flatMap(a => [a.catalogId, a.pattern]),
+    ...result.modules.flatMap(m => m.suggestions.map(s => s.pattern)),
+  ]);
+  withRefactorings(db, links, result.antiPatterns.map(a => a.catalogId));
+  return links;
+}
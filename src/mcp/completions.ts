@@ -0,0 +1,186 @@
+/**
+ * Argument completion (completion/complete) for prompts and resource templates.
+ * Pattern IDs, categories and programming languages are completed from the database and
+ * ranked by prefix match, then alias (alsoKnownAs) match, then fuzzy name similarity, so
+ * "factory" offers "factory-method" and "obsrver" still offers "observer".
+ */
+
+import {
+  McpError,
+  ErrorCode,
+  type CompleteRequest,
+  type CompleteResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseManager } from '../services/database-manager.js';
+import { aliasKey, loadPatternAliases, resolvePatternAlias } from '../services/pattern-aliases.js';
+import { loadPatternLanguages } from '../services/pattern-languages.js';
+import { prefixSimilarity, stringSimilarity } from '../utils/string-similarity.js';
+import { PROMPT_DEFINITIONS } from './prompts.js';
+import { RESOURCE_TEMPLATES } from './resources.js';
+
+type CompletionKind = 'patternId' | 'category' | 'language';
+
+/** Prompt arguments that can be completed, by argument name */
+const ARGUMENT_KINDS: Record<string, CompletionKind> = {
+  patternId: 'patternId',
+  firstPatternId: 'patternId',
+  secondPatternId: 'patternId',
+  programmingLanguage: 'language',
+  language: 'language',
+};
+
+/** Resource template variables that can be completed, by variable name */
+const TEMPLATE_VARIABLE_KINDS: Record<string, CompletionKind> = {
+  id: 'patternId',
+  name: 'category',
+  language: 'language',
+};
+
+/** The protocol caps a completion response at 100 values */
+const MAX_VALUES = 100;
+
+/** Shortest typed value that is compared by similarity (shorter ones match too much) */
+const MIN_FUZZY_LENGTH = 4;
+
+/** Lowest similarity for a fuzzy match */
+const MIN_SIMILARITY = 0.6;
+
+/** Worst tier that counts as a prefix or alias match; worse tiers are only a fallback */
+const LAST_PREFIX_TIER = 2;
+
+interface CompletionCandidate {
+  /** Value returned to the client */
+  value: string;
+  /** Display name, matched by word prefix and similarity */
+  name?: string;
+  /** Alternative names (pattern aliases) */
+  aliases?: string[];
+}
+
+interface RankedCandidate {
+  value: string;
+  /** 0 value prefix, 1 name prefix, 2 alias prefix, 3 substring, 4 fuzzy */
+  tier: number;
+  similarity: number;
+}
+
+function rankCandidate(candidate: CompletionCandidate, typed: string): RankedCandidate | null {
+  const text = typed.trim().toLowerCase();
+  const slug = aliasKey(typed);
+  const value = candidate.value.toLowerCase();
+  const name = candidate.name?.toLowerCase() ?? '';
+  const aliasKeys = (candidate.aliases ?? []).map(aliasKey);
+  const ranked = (tier: number, similarity = 1) => ({ value: candidate.value, tier, similarity });
+
+  if (!text || value.startsWith(text) || (slug && aliasKey(value).startsWith(slug))) {
+    return ranked(0);
+  }
+  if (name && (name.startsWith(text) || name.split(/\s+/).some(word => word.startsWith(text)))) {
+    return ranked(1);
+  }
+  if (slug && aliasKeys.some(key => key.startsWith(slug))) {
+    return ranked(2);
+  }
+  if (value.includes(text) || (name && name.includes(text))) {
+    return ranked(3);
+  }
+  if (slug.length < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+
+  const similarity = Math.max(
+    ...[aliasKey(value), ...(name ? [aliasKey(name)] : []), ...aliasKeys].map(key =>
+      Math.max(stringSimilarity(slug, key), prefixSimilarity(slug, key))
+    )
+  );
+  return similarity >= MIN_SIMILARITY ? ranked(4, similarity) : null;
+}
+
+/**
+ * Rank candidates for a typed value; at most MAX_VALUES are returned. Substring and fuzzy
+ * matches are only offered when no candidate matches by prefix or alias.
+ */
+function rankCompletions(
+  candidates: CompletionCandidate[],
+  typed: string
+): CompleteResult['completion'] {
+  const matches = candidates
+    .map(candidate => rankCandidate(candidate, typed))
+    .filter((candidate): candidate is RankedCandidate => candidate !== null);
+  const hasPrefixMatch = matches.some(candidate => candidate.tier <= LAST_PREFIX_TIER);
+  const ranked = matches
+    .filter(candidate => !hasPrefixMatch || candidate.tier <= LAST_PREFIX_TIER)
+    .sort(
+      (a, b) =>
+        a.tier - b.tier ||
+        b.similarity - a.similarity ||
+        a.value.length - b.value.length ||
+        a.value.localeCompare(b.value)
+    );
+
+  return {
+    values: ranked.slice(0, MAX_VALUES).map(candidate => candidate.value),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_VALUES,
+  };
+}
+
+export function createCompletionHandlers(db: DatabaseManager) {
+  const patternCandidates = (): CompletionCandidate[] => {
+    const { byPattern } = loadPatternAliases(db);
+    return db
+      .query<{ id: string; name: string }>('SELECT id, name FROM patterns ORDER BY id')
+      .map(({ id, name }) => ({ value: id, name, aliases: byPattern.get(id) }));
+  };
+
+  const categoryCandidates = (): CompletionCandidate[] =>
+    db
+      .query<{ category: string }>('SELECT DISTINCT category FROM patterns ORDER BY category')
+      .map(({ category }) => ({ value: category }));
+
+  /** Languages with implementations or code examples, only those of one pattern when known */
+  const languageCandidates = (patternId?: string): CompletionCandidate[] => {
+    const canonicalId = patternId ? (resolvePatternAlias(db, patternId) ?? patternId) : undefined;
+    return loadPatternLanguages(db, canonicalId).map(({ language }) => ({ value: language }));
+  };
+
+  const kindOf = (ref: CompleteRequest['params']['ref'], argument: string) => {
+    if (ref.type === 'ref/prompt') {
+      const prompt = PROMPT_DEFINITIONS.find(definition => definition.name === ref.name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+      }
+      const declared = prompt.arguments?.some(arg => arg.name === argument) ?? false;
+      return declared ? ARGUMENT_KINDS[argument] : undefined;
+    }
+
+    const template = RESOURCE_TEMPLATES.find(definition => definition.uriTemplate === ref.uri);
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+    }
+    return template.uriTemplate.includes(`{${argument}}`)
+      ? TEMPLATE_VARIABLE_KINDS[argument]
+      : undefined;
+  };
+
+  return {
+    complete(params: CompleteRequest['params']): CompleteResult {
+      const { ref, argument, context } = params;
+      const kind = kindOf(ref, argument.name);
+
+      let candidates: CompletionCandidate[] = [];
+      if (kind === 'patternId') {
+        candidates = patternCandidates();
+      } else if (kind === 'category') {
+        candidates = categoryCandidates();
+      } else if (kind === 'language') {
+        // Implementation templates already name the pattern in the id variable
+        candidates = languageCandidates(
+          ref.type === 'ref/resource' ? context?.arguments?.id : context?.arguments?.patternId
+        );
+      }
+
+      return { completion: rankCompletions(candidates, argument.value) };
+    },
+  };
+}
@@ -6,24 +6,55 @@ import { DatabaseManager } from '../services/database-manager.js';
 import { MCPRateLimiter } from '../utils/rate-limiter.js';
 import { SearchMediator, type SearchStrategy } from '../handlers/search-mediator.js';
 import { InputValidator } from '../utils/input-validation.js';
+import { PatternAnalyzer } from '../services/pattern-analyzer.js';
+import { RepositoryAnalyzer } from '../services/repository-analyzer.js';
+import { RefactoringPlanner } from '../services/refactoring-planner.js';
+import { PatternPathFinder } from '../services/pattern-path-finder.js';
 import { CANONICAL_TOOL_DEFINITIONS } from './canonical-tools.js';
+import { linkAnalysisToCatalog, linkRepositoryAnalysis } from './code-analysis.js';
+import { analyzePatternComposition } from './pattern-composition.js';
+import { createRelationshipToolHandlers } from './relationship-tools.js';
+import { createPatternToolHandlers } from './pattern-tools.js';
 import {
   buildPatternRequest,
+  formatAnalyzeCodeResult,
   formatFindPatternsResult,
+  formatPatternCompositionReport,
+  formatPatternPathResult,
+  formatRefactoringPlan,
+  formatRepositoryAnalysisResult,
   formatSearchResultsFromRecommendations,
 } from './tool-formatters.js';
+import {
+  codeAnalysisOutput,
+  compositionReportOutput,
+  patternCountOutput,
+  patternPathOutput,
+  recommendationsOutput,
+  refactoringPlanOutput,
+  repositoryAnalysisOutput,
+  searchResultsOutput,
+} from './structured-output.js';
 
 export function createHttpToolHandlers(
   db: DatabaseManager,
   searchMediator: SearchMediator,
-  _rateLimiter: MCPRateLimiter
+  _rateLimiter: MCPRateLimiter,
+  options: { enableWriteTools?: boolean; analysisRoots?: string[] } = {}
 ) {
+  const patternAnalyzer = new PatternAnalyzer();
+
   return {
     tools: CANONICAL_TOOL_DEFINITIONS,
+    ...createRelationshipToolHandlers(db, {
+      enableWriteTools: options.enableWriteTools ?? false,
+    }),
+    ...createPatternToolHandlers(db, { enableWriteTools: options.enableWriteTools ?? false }),
     handleFindPatterns: async (args: unknown) => {
       const validatedArgs = InputValidator.validateFindPatternsArgs(args);
       const request = buildPatternRequest(validatedArgs.query, {
         categories: validatedArgs.categories,
+        sources: validatedArgs.sources,
         maxResults: validatedArgs.maxResults,
         programmingLanguage: validatedArgs.programmingLanguage,
       });
@@ -35,6 +66,7 @@ export function createHttpToolHandlers(
             text: formatFindPatternsResult(recommendations),
           },
         ],
+        structuredContent: recommendationsOutput(recommendations),
       };
     },
     handleSearchPatterns: async (args: unknown) => {
@@ -58,6 +90,12 @@ export function createHttpToolHandlers(
             ),
           },
         ],
+        structuredContent: searchResultsOutput(
+          validatedArgs.query,
+          searchResult.searchTypeUsed,
+          searchResult.degraded,
+          searchResult.recommendations
+        ),
       };
     },
     handleCountPatterns: (args: unknown) => {
@@ -75,10 +113,70 @@ export function createHttpToolHandlers(
               text: `## Total Design Patterns: ${total}\n\n### Breakdown by Category:\n${breakdown.map(item => `- **${item.category}**: ${item.count} patterns`).join('\n')}\n\n*Total patterns from all sources: ${total}*`,
             },
           ],
+          structuredContent: patternCountOutput(total, breakdown),
         };
       }
       return {
         content: [{ type: 'text', text: `Total design patterns in database: **${total}**` }],
+        structuredContent: patternCountOutput(total),
+      };
+    },
+    handleAnalyzeCode: (args: unknown) => {
+      const validatedArgs = InputValidator.validateAnalyzeCodeArgs(args);
+      const analysis = linkAnalysisToCatalog(
+        db,
+        patternAnalyzer.analyzeCode(validatedArgs.code, validatedArgs.language),
+        validatedArgs.language
+      );
+      return {
+        content: [{ type: 'text', text: formatAnalyzeCodeResult(analysis) }],
+        structuredContent: codeAnalysisOutput(analysis),
+      };
+    },
+    handleAnalyzeRepository: async (args: unknown) => {
+      const validatedArgs = InputValidator.validateAnalyzeRepositoryArgs(args);
+      const result = await new RepositoryAnalyzer().analyzeRepository({
+        root: validatedArgs.path,
+        files: validatedArgs.files,
+        maxFiles: validatedArgs.maxFiles,
+        allowedRoots: options.analysisRoots ?? [],
+      });
+      const links = linkRepositoryAnalysis(db, result);
+      return {
+        content: [{ type: 'text', text: formatRepositoryAnalysisResult(result, links) }],
+        structuredContent: repositoryAnalysisOutput(result, links),
+      };
+    },
+    handlePlanRefactoring: async (args: unknown) => {
+      const validatedArgs = InputValidator.validatePlanRefactoringArgs(args);
+      const plan = await new RefactoringPlanner(db).plan(validatedArgs);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: plan
+              ? formatRefactoringPlan(plan)
+              : `Pattern "${validatedArgs.targetPatternId}" not found.`,
+          },
+        ],
+        structuredContent: refactoringPlanOutput(validatedArgs.targetPatternId, plan),
+      };
+    },
+    handleAnalyzePatternComposition: async (args: unknown) => {
+      const validatedArgs = InputValidator.validateAnalyzePatternCompositionArgs(args);
+      const report = await analyzePatternComposition(db, validatedArgs.patternIds);
+      return {
+        content: [{ type: 'text', text: formatPatternCompositionReport(report) }],
+        structuredContent: compositionReportOutput(report),
+      };
+    },
+    handleFindPatternPath: async (args: unknown) => {
+      const validatedArgs = InputValidator.validateFindPatternPathArgs(args);
+      // Stateless handlers have no vector service: paths follow catalog relationships only
+      const result = await new PatternPathFinder(db).findPaths(validatedArgs);
+      return {
+        content: [{ type: 'text', text: formatPatternPathResult(result) }],
+        structuredContent: patternPathOutput(result),
       };
     },
   };
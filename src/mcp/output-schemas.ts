@@ -0,0 +1,554 @@
+/**
+ * JSON Schemas for the structuredContent each canonical tool returns next to its text.
+ * The shapes mirror the domain results (PatternRecommendation, SearchPatternResult,
+ * RefactoringPlan, ...) so clients can read IDs and scores without parsing Markdown.
+ */
+
+import type { CanonicalToolName } from './canonical-tools.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+const STRING = { type: 'string' };
+const NUMBER = { type: 'number' };
+const BOOLEAN = { type: 'boolean' };
+const STRING_LIST = { type: 'array', items: STRING };
+const SEVERITY = { type: 'string', enum: ['low', 'medium', 'high'] };
+/** Seeded catalog files use relationship types beyond RELATIONSHIP_TYPES (e.g. requires) */
+const RELATIONSHIP_TYPE = STRING;
+/** Pattern ID -> display name */
+const NAMES = { type: 'object', additionalProperties: STRING };
+
+/**
+ * Object schema; every property is required unless `required` says otherwise
+ */
+function object(
+  properties: Record<string, JsonSchema>,
+  required: string[] = Object.keys(properties)
+): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+function array(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+const PATTERN_REF = object({ id: STRING, name: STRING, category: STRING });
+
+const CATALOG_REF = object(
+  {
+    id: STRING,
+    name: STRING,
+    category: STRING,
+    refactorings: array(
+      object({
+        id: STRING,
+        name: STRING,
+        category: STRING,
+        type: STRING,
+        strength: NUMBER,
+        description: STRING,
+      })
+    ),
+  },
+  ['id', 'name', 'category']
+);
+
+const LOCATION = object(
+  { line: NUMBER, column: NUMBER, endLine: NUMBER, endColumn: NUMBER, snippet: STRING },
+  []
+);
+
+const EVIDENCE = object({ metric: STRING, value: NUMBER, threshold: NUMBER, scope: STRING }, [
+  'metric',
+  'value',
+  'threshold',
+]);
+
+const DETECTED_PATTERN_PROPERTIES = {
+  pattern: STRING,
+  category: STRING,
+  confidence: NUMBER,
+  location: LOCATION,
+  indicators: STRING_LIST,
+  catalog: CATALOG_REF,
+};
+
+const SEARCH_RESULT = object({
+  pattern: object(
+    {
+      id: STRING,
+      name: STRING,
+      category: STRING,
+      description: STRING,
+      complexity: STRING,
+      tags: STRING_LIST,
+    },
+    ['id', 'name', 'category', 'description']
+  ),
+  score: NUMBER,
+});
+
+/** A did-you-mean candidate for an unknown pattern ID */
+const PATTERN_CANDIDATE = object(
+  {
+    pattern: object({ id: STRING, name: STRING, category: STRING, description: STRING }, [
+      'id',
+      'name',
+      'category',
+    ]),
+    score: NUMBER,
+    matchedBy: { type: 'string', enum: ['name', 'similarity', 'embedding'] },
+  },
+  ['pattern', 'score']
+);
+
+const RECOMMENDATION = object(
+  {
+    id: STRING,
+    rank: NUMBER,
+    confidence: NUMBER,
+    score: NUMBER,
+    semanticScore: NUMBER,
+    pattern: object(
+      {
+        id: STRING,
+        name: STRING,
+        category: STRING,
+        description: STRING,
+        complexity: STRING,
+        tags: STRING_LIST,
+      },
+      ['id', 'name', 'category', 'description']
+    ),
+    justification: object(
+      {
+        primaryReason: STRING,
+        supportingReasons: STRING_LIST,
+        problemFit: STRING,
+        benefits: STRING_LIST,
+        drawbacks: STRING_LIST,
+        fuzzyReasoning: STRING_LIST,
+        fuzzyConfidence: NUMBER,
+        originalConfidence: NUMBER,
+        fuzzyInputFingerprint: object({
+          semanticSimilarity: NUMBER,
+          keywordMatchStrength: NUMBER,
+          contextualFit: NUMBER,
+          patternComplexity: STRING,
+        }),
+      },
+      ['primaryReason', 'supportingReasons', 'benefits', 'drawbacks']
+    ),
+    alternatives: array(
+      object({ id: STRING, name: STRING, category: STRING, reason: STRING, score: NUMBER })
+    ),
+  },
+  ['id', 'rank', 'confidence', 'pattern', 'justification', 'alternatives']
+);
+
+const RELATIONSHIP_PROPERTIES = {
+  id: STRING,
+  sourcePatternId: STRING,
+  targetPatternId: STRING,
+  type: RELATIONSHIP_TYPE,
+  strength: NUMBER,
+  description: STRING,
+  createdAt: STRING,
+};
+
+const RELATIONSHIP = object(RELATIONSHIP_PROPERTIES);
+
+const INTEGRITY = object({
+  valid: BOOLEAN,
+  totalPatterns: NUMBER,
+  totalRelationships: NUMBER,
+  brokenReferences: array(
+    object(
+      {
+        sourcePatternId: STRING,
+        sourcePatternName: STRING,
+        targetPatternId: STRING,
+        relationshipType: STRING,
+        description: STRING,
+        fileName: STRING,
+      },
+      ['sourcePatternId', 'sourcePatternName', 'targetPatternId', 'relationshipType', 'fileName']
+    )
+  ),
+  orphanedPatterns: STRING_LIST,
+  duplicateRelationships: array(
+    object({ sourcePatternId: STRING, targetPatternId: STRING, type: STRING, count: NUMBER })
+  ),
+  duration: NUMBER,
+});
+
+const RELATIONSHIP_CHANGE = object({
+  action: { type: 'string', enum: ['Created', 'Updated', 'Deleted'] },
+  relationship: RELATIONSHIP,
+  integrity: INTEGRITY,
+});
+
+const SUGGESTION_STATUS = { type: 'string', enum: ['pending', 'accepted', 'rejected'] };
+
+const SUGGESTION = object(
+  {
+    id: STRING,
+    sourcePatternId: STRING,
+    sourceName: STRING,
+    targetPatternId: STRING,
+    targetName: STRING,
+    type: RELATIONSHIP_TYPE,
+    confidence: NUMBER,
+    signals: array({ type: 'string', enum: ['embedding', 'tags', 'text'] }),
+    evidence: STRING_LIST,
+    status: SUGGESTION_STATUS,
+    relationshipId: STRING,
+    createdAt: STRING,
+    reviewedAt: STRING,
+  },
+  [
+    'id',
+    'sourcePatternId',
+    'sourceName',
+    'targetPatternId',
+    'targetName',
+    'type',
+    'confidence',
+    'signals',
+    'evidence',
+    'status',
+    'createdAt',
+  ]
+);
+
+const REFACTORING_EXAMPLE = object({ language: STRING, code: STRING, description: STRING }, [
+  'language',
+  'code',
+]);
+
+const REFACTORING_PLAN = object(
+  {
+    targetPattern: object({ id: STRING, name: STRING, category: STRING, description: STRING }, [
+      'id',
+      'name',
+      'category',
+    ]),
+    language: STRING,
+    generatedBy: { type: 'string', enum: ['catalog', 'llm'] },
+    summary: STRING,
+    steps: array(object({ order: NUMBER, title: STRING, detail: STRING, symbols: STRING_LIST })),
+    affectedSymbols: array(
+      object(
+        {
+          name: STRING,
+          kind: { type: 'string', enum: ['class', 'function', 'method'] },
+          line: NUMBER,
+          reason: STRING,
+        },
+        ['name', 'kind', 'reason']
+      )
+    ),
+    risks: STRING_LIST,
+    testScenarios: STRING_LIST,
+    addressedAntiPatterns: array(
+      object({ pattern: STRING, catalogId: STRING, severity: SEVERITY })
+    ),
+    before: REFACTORING_EXAMPLE,
+    after: REFACTORING_EXAMPLE,
+  },
+  [
+    'targetPattern',
+    'language',
+    'generatedBy',
+    'summary',
+    'steps',
+    'affectedSymbols',
+    'risks',
+    'testScenarios',
+    'addressedAntiPatterns',
+  ]
+);
+
+const PATTERN_PATH = object({
+  patternIds: STRING_LIST,
+  hops: array({
+    anyOf: [
+      object({
+        kind: { const: 'relationship' },
+        from: STRING,
+        to: STRING,
+        relationshipType: RELATIONSHIP_TYPE,
+        strength: NUMBER,
+        direction: { type: 'string', enum: ['forward', 'reverse'] },
+        description: STRING,
+      }),
+      object({ kind: { const: 'similarity' }, from: STRING, to: STRING, score: NUMBER }),
+    ],
+  }),
+  score: NUMBER,
+});
+
+const HEALTH_STATUS = { type: 'string', enum: ['healthy', 'degraded', 'unhealthy', 'unknown'] };
+
+export const TOOL_OUTPUT_SCHEMAS: Record<CanonicalToolName, JsonSchema> = {
+  find_patterns: object({ recommendations: array(RECOMMENDATION) }),
+  search_patterns: object({
+    query: STRING,
+    searchType: STRING,
+    degraded: BOOLEAN,
+    results: array(SEARCH_RESULT),
+  }),
+  get_pattern_details: object(
+    {
+      requestedId: STRING,
+      found: BOOLEAN,
+      /** How requestedId was resolved when it is not the pattern's ID */
+      matchedBy: { type: 'string', enum: ['id', 'slug', 'name', 'alias', 'similarity'] },
+      note: STRING,
+      pattern: object(
+        {
+          id: STRING,
+          name: STRING,
+          category: STRING,
+          description: STRING,
+          complexity: STRING,
+          tags: STRING_LIST,
+          whenToUse: STRING_LIST,
+          benefits: STRING_LIST,
+          drawbacks: STRING_LIST,
+          useCases: STRING_LIST,
+          source: STRING,
+        },
+        ['id', 'name', 'category', 'tags', 'whenToUse', 'benefits', 'drawbacks', 'useCases']
+      ),
+      implementations: array(
+        object({ language: STRING, code: STRING, explanation: STRING }, ['language', 'code'])
+      ),
+      /** Ranked candidates when the requested pattern does not exist or is ambiguous */
+      similar: array(PATTERN_CANDIDATE),
+    },
+    ['requestedId', 'found']
+  ),
+  count_patterns: object(
+    { total: NUMBER, byCategory: array(object({ category: STRING, count: NUMBER })) },
+    ['total']
+  ),
+  get_health_status: object(
+    {
+      available: BOOLEAN,
+      report: object({
+        overall: HEALTH_STATUS,
+        timestamp: STRING,
+        duration: NUMBER,
+        checks: array(
+          object(
+            {
+              name: STRING,
+              status: HEALTH_STATUS,
+              message: STRING,
+              timestamp: STRING,
+              duration: NUMBER,
+              severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+              tags: STRING_LIST,
+              details: { type: 'object' },
+            },
+            ['name', 'status', 'message', 'timestamp', 'duration']
+          )
+        ),
+        summary: object({
+          total: NUMBER,
+          healthy: NUMBER,
+          degraded: NUMBER,
+          unhealthy: NUMBER,
+          unknown: NUMBER,
+        }),
+      }),
+    },
+    ['available']
+  ),
+  analyze_code: object({
+    language: STRING,
+    identifiedPatterns: array(
+      object(DETECTED_PATTERN_PROPERTIES, ['pattern', 'category', 'confidence', 'indicators'])
+    ),
+    suggestedPatterns: array(
+      object({ pattern: STRING, reason: STRING, confidence: NUMBER, catalog: CATALOG_REF }, [
+        'pattern',
+        'reason',
+        'confidence',
+      ])
+    ),
+    antiPatterns: array(
+      object(
+        {
+          pattern: STRING,
+          catalogId: STRING,
+          reason: STRING,
+          severity: SEVERITY,
+          evidence: array(EVIDENCE),
+          location: LOCATION,
+          catalog: CATALOG_REF,
+        },
+        ['pattern', 'catalogId', 'reason', 'severity', 'evidence']
+      )
+    ),
+    improvements: STRING_LIST,
+  }),
+  analyze_repository: object({
+    root: STRING,
+    filesAnalyzed: NUMBER,
+    filesSkipped: NUMBER,
+    languages: { type: 'object', additionalProperties: NUMBER },
+    symbolCount: NUMBER,
+    patterns: array(
+      object({ file: STRING, ...DETECTED_PATTERN_PROPERTIES }, [
+        'file',
+        'pattern',
+        'category',
+        'confidence',
+        'indicators',
+      ])
+    ),
+    antiPatterns: array(
+      object(
+        {
+          pattern: STRING,
+          catalogId: STRING,
+          count: NUMBER,
+          severity: { type: 'object', additionalProperties: NUMBER },
+          files: STRING_LIST,
+          evidence: array(EVIDENCE),
+          catalog: CATALOG_REF,
+        },
+        ['pattern', 'catalogId', 'count', 'severity', 'files']
+      )
+    ),
+    modules: array(
+      object({
+        module: STRING,
+        files: NUMBER,
+        patterns: STRING_LIST,
+        suggestions: array(
+          object(
+            {
+              pattern: STRING,
+              reason: STRING,
+              confidence: NUMBER,
+              files: STRING_LIST,
+              catalog: CATALOG_REF,
+            },
+            ['pattern', 'reason', 'confidence', 'files']
+          )
+        ),
+      })
+    ),
+  }),
+  plan_refactoring: object({ targetPatternId: STRING, found: BOOLEAN, plan: REFACTORING_PLAN }, [
+    'targetPatternId',
+    'found',
+  ]),
+  analyze_pattern_composition: object({
+    patterns: array(
+      object({ id: STRING, name: STRING, category: STRING, description: STRING }, [
+        'id',
+        'name',
+        'category',
+      ])
+    ),
+    unknownIds: STRING_LIST,
+    composition: object({
+      isValid: BOOLEAN,
+      score: NUMBER,
+      violations: array(
+        object({
+          rule: object({ id: STRING, name: STRING, patterns: STRING_LIST, reason: STRING }, [
+            'id',
+            'name',
+          ]),
+          severity: SEVERITY,
+          description: STRING,
+          suggestion: STRING,
+        })
+      ),
+      recommendations: array(
+        object({
+          type: { type: 'string', enum: ['add', 'remove', 'replace', 'reorder'] },
+          pattern: STRING,
+          reason: STRING,
+          confidence: NUMBER,
+          impact: SEVERITY,
+        })
+      ),
+      warnings: array(
+        object({ pattern: STRING, warning: STRING, severity: SEVERITY, mitigation: STRING })
+      ),
+      synergies: array(
+        object({
+          patterns: STRING_LIST,
+          benefit: STRING,
+          confidence: NUMBER,
+          examples: STRING_LIST,
+        })
+      ),
+      compatibility: array(object({ patterns: STRING_LIST, score: NUMBER })),
+    }),
+    antiPatterns: array(
+      object(
+        {
+          antiPattern: STRING,
+          severity: SEVERITY,
+          description: STRING,
+          location: STRING,
+          fix: STRING,
+          prevention: STRING,
+        },
+        ['antiPattern', 'severity', 'description', 'fix', 'prevention']
+      )
+    ),
+    sequence: object({ isValid: BOOLEAN, errors: STRING_LIST, suggestions: STRING_LIST }),
+    names: NAMES,
+  }),
+  find_pattern_path: object(
+    {
+      sourcePatternId: STRING,
+      targetPatternId: STRING,
+      unknownIds: STRING_LIST,
+      shortest: PATTERN_PATH,
+      strongest: PATTERN_PATH,
+      names: NAMES,
+      explanation: STRING,
+    },
+    ['sourcePatternId', 'targetPatternId', 'unknownIds', 'names']
+  ),
+  get_relationships: object(
+    {
+      patternId: STRING,
+      total: NUMBER,
+      relationships: array(
+        object({
+          ...RELATIONSHIP_PROPERTIES,
+          sourcePattern: PATTERN_REF,
+          targetPattern: PATTERN_REF,
+        })
+      ),
+    },
+    ['total', 'relationships']
+  ),
+  create_relationship: RELATIONSHIP_CHANGE,
+  update_relationship: RELATIONSHIP_CHANGE,
+  delete_relationship: RELATIONSHIP_CHANGE,
+  list_relationship_suggestions: object(
+    { status: SUGGESTION_STATUS, patternId: STRING, suggestions: array(SUGGESTION) },
+    ['suggestions']
+  ),
+  review_relationship_suggestion: object(
+    {
+      decision: { type: 'string', enum: ['accept', 'reject'] },
+      suggestion: SUGGESTION,
+      relationship: RELATIONSHIP,
+      integrity: INTEGRITY,
+    },
+    ['decision']
+  ),
+  update_pattern: object({ pattern: PATTERN_REF, changedFields: STRING_LIST }),
+};
@@ -0,0 +1,74 @@
+/**
+ * Runs PatternCompositionEngine over catalog patterns, with rules derived from
+ * pattern_relationships instead of the engine's built-in GoF tables.
+ */
+
+import type { DatabaseManager } from '../services/database-manager.js';
+import type { RelationshipWithPatterns } from '../models/relationship.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import {
+  buildCompositionKnowledge,
+  PatternCompositionEngine,
+  type AntiPatternDetection,
+  type ComposablePattern,
+  type CompositionResult,
+} from '../services/pattern-composition-engine.js';
+
+export interface PatternCompositionReport {
+  /** Known patterns in the order they were requested */
+  patterns: ComposablePattern[];
+  unknownIds: string[];
+  composition: CompositionResult;
+  antiPatterns: AntiPatternDetection[];
+  sequence: { isValid: boolean; errors: string[]; suggestions: string[] };
+  /** Display names for every pattern ID mentioned in the report */
+  names: Map<string, string>;
+}
+
+/**
+ * Load the requested patterns and every relationship touching them, then analyze the
+ * composition. The given order is treated as the implementation order.
+ */
+export async function analyzePatternComposition(
+  db: DatabaseManager,
+  patternIds: string[]
+): Promise<PatternCompositionReport> {
+  const uniqueIds = [...new Set(patternIds)];
+  const rows = db.query<ComposablePattern>(
+    `SELECT id, name, category, description FROM patterns
+     WHERE id IN (${uniqueIds.map(() => '?').join(', ')})`,
+    uniqueIds
+  );
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const patterns = uniqueIds.flatMap(id => {
+    const pattern = byId.get(id);
+    return pattern ? [pattern] : [];
+  });
+
+  const repository = new SqliteRelationshipRepository(db);
+  const relationships = new Map<string, RelationshipWithPatterns>();
+  for (const { id } of patterns) {
+    const touching = [
+      ...(await repository.findWithPatterns({ sourcePatternId: id })),
+      ...(await repository.findWithPatterns({ targetPatternId: id })),
+    ];
+    for (const relationship of touching) {
+      relationships.set(relationship.id, relationship);
+    }
+  }
+
+  const knowledge = buildCompositionKnowledge([...relationships.values()]);
+  for (const pattern of patterns) {
+    knowledge.names.set(pattern.id, pattern.name);
+  }
+  const engine = new PatternCompositionEngine(knowledge);
+
+  return {
+    patterns,
+    unknownIds: uniqueIds.filter(id => !byId.has(id)),
+    composition: engine.analyzeComposition(patterns),
+    antiPatterns: engine.detectAntiPatterns(patterns),
+    sequence: engine.validatePatternSequence(patterns),
+    names: knowledge.names,
+  };
+}
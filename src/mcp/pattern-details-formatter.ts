@@ -3,8 +3,16 @@
  */
 
 import { parseTags, parseArrayProperty } from '../utils/parse-tags.js';
+import { describeProvenance, parseProvenance } from '../services/catalog-sources.js';
+import type { PatternCandidate } from '../services/pattern-id-resolver.js';
 import type { PatternExample, PatternImplementation, PatternRow } from './types.js';
 
+const CANDIDATE_MATCH_LABELS: Record<PatternCandidate['matchedBy'], string> = {
+  name: 'same name',
+  similarity: 'similar ID',
+  embedding: 'semantic match',
+};
+
 export function formatPatternDetailsText(
   pattern: PatternRow,
   implementations: PatternImplementation[]
@@ -40,6 +48,9 @@ export function formatPatternDetailsText(
     `**Use Cases:** ${parseArrayProperty(pattern.use_cases).join(', ')}\n\n` +
     `**Complexity:** ${pattern.complexity ?? 'Unknown'}\n\n` +
     `**Tags:** ${parseTags(pattern.tags).join(', ')}\n` +
+    (pattern.source
+      ? `\n**Source:** ${describeProvenance(pattern.source, parseProvenance(pattern.provenance))}\n`
+      : '') +
     examplesText +
     (implementations.length > 0
       ? `\n\n**Implementations:**\n` +
@@ -52,3 +63,27 @@ export function formatPatternDetailsText(
       : '')
   );
 }
+
+/**
+ * Did-you-mean list for a pattern ID that did not resolve to a single pattern
+ */
+export function formatPatternCandidatesText(
+  requestedId: string,
+  candidates: PatternCandidate[]
+): string {
+  if (candidates.length === 0) {
+    return `Pattern "${requestedId}" not found and no similar patterns were found.`;
+  }
+
+  return (
+    `Pattern "${requestedId}" not found. Did you mean one of these?\n\n` +
+    candidates
+      .map(
+        (candidate, i) =>
+          `${i + 1}. **${candidate.name}** (\`${candidate.id}\`, ${candidate.category})\n` +
+          `   ${candidate.description}\n` +
+          `   ${CANDIDATE_MATCH_LABELS[candidate.matchedBy]}: ${(candidate.score * 100).toFixed(1)}%`
+      )
+      .join('\n\n')
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Pattern curation tool (update_pattern).
+ * Edits the stored pattern row only when the server runs with write tools enabled, and
+ * publishes the change on the catalog event bus so subscribed resources are refreshed.
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseManager } from '../services/database-manager.js';
+import { catalogEventBus } from '../events/catalog-events.js';
+import { InputValidator } from '../utils/input-validation.js';
+import { formatPatternUpdate } from './tool-formatters.js';
+import { patternUpdateOutput } from './structured-output.js';
+
+export interface PatternToolOptions {
+  enableWriteTools: boolean;
+}
+
+/** List-shaped columns, stored as JSON-encoded string arrays */
+const LIST_COLUMNS = new Set(['tags', 'when_to_use', 'benefits', 'drawbacks', 'use_cases']);
+
+export function createPatternToolHandlers(db: DatabaseManager, options: PatternToolOptions) {
+  return {
+    handleUpdatePattern: (args: unknown) => {
+      if (!options.enableWriteTools) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'update_pattern is disabled: the server is read-only (set ENABLE_WRITE_TOOLS=true to allow it)'
+        );
+      }
+      const { patternId, changes } = InputValidator.validateUpdatePatternArgs(args);
+
+      const existing = db.queryOne<{ id: string; category: string }>(
+        'SELECT id, category FROM patterns WHERE id = ?',
+        [patternId]
+      );
+      if (!existing) {
+        throw new McpError(ErrorCode.InvalidRequest, `Pattern not found: ${patternId}`);
+      }
+
+      const columns = Object.entries(changes).filter(([, value]) => value !== undefined);
+      db.execute(
+        `UPDATE patterns SET ${columns.map(([column]) => `${column} = ?`).join(', ')},
+                updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          ...columns.map(([column, value]) =>
+            LIST_COLUMNS.has(column) ? JSON.stringify(value) : (value as string)
+          ),
+          patternId,
+        ]
+      );
+
+      const updated = db.queryOne<{ id: string; name: string; category: string }>(
+        'SELECT id, name, category FROM patterns WHERE id = ?',
+        [patternId]
+      ) ?? { ...existing, name: patternId };
+      catalogEventBus.emit('catalog:pattern:updated', {
+        patternId,
+        categories: [...new Set([existing.category, updated.category])],
+      });
+
+      const changedFields = columns.map(([column]) => column);
+      return {
+        content: [{ type: 'text', text: formatPatternUpdate(updated, changedFields) }],
+        structuredContent: patternUpdateOutput(updated, changedFields),
+      };
+    },
+  };
+}
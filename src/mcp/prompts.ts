@@ -0,0 +1,385 @@
+/**
+ * Design-review prompt templates (prompts/list and prompts/get).
+ * Every template is filled from the live catalog (candidate patterns for a problem, the
+ * details and relationships of a pattern, anti-pattern findings for a piece of code) so any
+ * MCP client runs the same design-review workflow.
+ */
+
+import {
+  McpError,
+  ErrorCode,
+  type GetPromptResult,
+  type ListPromptsResult,
+  type Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseManager } from '../services/database-manager.js';
+import type { SearchMediator } from '../handlers/search-mediator.js';
+import { AntiPatternDetector, type AntiPatternFinding } from '../services/anti-pattern-detector.js';
+import { PatternIdResolver, patternNotFoundMessage } from '../services/pattern-id-resolver.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import type { RelationshipWithPatterns } from '../models/relationship.js';
+import { InputValidator } from '../utils/input-validation.js';
+import { parseArrayProperty } from '../utils/parse-tags.js';
+import { buildPatternRequest } from './tool-formatters.js';
+import type { PatternImplementation, PatternRow } from './types.js';
+
+export const PROMPT_NAMES = [
+  'choose_pattern',
+  'review_anti_patterns',
+  'explain_pattern',
+  'compare_patterns',
+] as const;
+
+export type PromptName = (typeof PROMPT_NAMES)[number];
+
+export const PROMPT_DEFINITIONS: Prompt[] = [
+  {
+    name: 'choose_pattern',
+    title: 'Choose a pattern for this problem',
+    description:
+      'Weigh the catalog patterns that best match a design problem and recommend one, ' +
+      'with their intent, trade-offs and related patterns filled in',
+    arguments: [
+      { name: 'problem', description: 'The design problem to solve', required: true },
+      {
+        name: 'programmingLanguage',
+        description: 'Language the solution is written in',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'review_anti_patterns',
+    title: 'Review this code for anti-patterns',
+    description:
+      'Review a class or module for anti-patterns, starting from the static detector findings ' +
+      'and their catalog entries, and propose refactorings',
+    arguments: [
+      { name: 'code', description: 'Source code of the class or module', required: true },
+      { name: 'language', description: 'Programming language of the code', required: true },
+    ],
+  },
+  {
+    name: 'explain_pattern',
+    title: 'Explain a pattern to a beginner',
+    description:
+      'Explain a catalog pattern in plain language, using its catalog entry, an implementation ' +
+      'and its related patterns',
+    arguments: [
+      { name: 'patternId', description: 'ID of the pattern to explain', required: true },
+      {
+        name: 'programmingLanguage',
+        description: 'Preferred language for the example implementation',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'compare_patterns',
+    title: 'Compare two patterns',
+    description:
+      'Contrast two catalog patterns side by side, including how the catalog relates them, ' +
+      'and give a rule for choosing between them',
+    arguments: [
+      { name: 'firstPatternId', description: 'ID of the first pattern', required: true },
+      { name: 'secondPatternId', description: 'ID of the second pattern', required: true },
+    ],
+  },
+];
+
+const MAX_CANDIDATES = 4;
+const MAX_RELATED = 6;
+
+export interface PromptHandlerOptions {
+  /** Resolves pattern ID arguments; defaults to one without semantic search */
+  resolver?: PatternIdResolver;
+}
+
+export function createPromptHandlers(
+  db: DatabaseManager,
+  searchMediator: Pick<SearchMediator, 'search'>,
+  options: PromptHandlerOptions = {}
+) {
+  const repository = new SqliteRelationshipRepository(db);
+  const resolver = options.resolver ?? new PatternIdResolver(db);
+  const detector = new AntiPatternDetector();
+
+  const selectPattern = (id: string) =>
+    db.queryOne<PatternRow>(
+      `SELECT id, name, category, description, when_to_use, benefits, drawbacks, use_cases,
+              complexity, tags
+       FROM patterns WHERE id = ?`,
+      [id]
+    );
+
+  /**
+   * Pattern by ID, name, alias or closest ID, as the tools resolve them; unknown patterns are
+   * invalid prompt arguments with did-you-mean candidates
+   */
+  const requirePattern = async (value: unknown, field: string): Promise<PatternRow> => {
+    const result = InputValidator.validatePatternReference(value, field);
+    InputValidator.throwIfInvalid(result, ErrorCode.InvalidParams);
+
+    const id = result.sanitized as string;
+    const resolution = await resolver.resolve(id);
+    const pattern = resolution.status === 'resolved' ? selectPattern(resolution.pattern.id) : null;
+    if (!pattern) {
+      const candidates = resolution.status === 'unresolved' ? resolution.candidates : [];
+      throw new McpError(ErrorCode.InvalidParams, patternNotFoundMessage(id, candidates));
+    }
+    return pattern;
+  };
+
+  const relationshipsOf = async (patternId: string): Promise<RelationshipWithPatterns[]> => [
+    ...(await repository.findWithPatterns({ sourcePatternId: patternId })),
+    ...(await repository.findWithPatterns({ targetPatternId: patternId })),
+  ];
+
+  const relatedLines = (patternId: string, relationships: RelationshipWithPatterns[]) =>
+    relationships.slice(0, MAX_RELATED).map(rel => {
+      const outgoing = rel.sourcePatternId === patternId;
+      const other = outgoing ? rel.targetPattern : rel.sourcePattern;
+      return (
+        `- ${outgoing ? '' : '(incoming) '}${rel.type}: ${other.name} [ID: ${other.id}]` +
+        (rel.description ? ` — ${rel.description}` : '')
+      );
+    });
+
+  const choosePattern = async (args: Record<string, string>): Promise<GetPromptResult> => {
+    const problemResult = InputValidator.validateString(args.problem, 'problem', {
+      required: true,
+      minLength: 1,
+      maxLength: 2000,
+    });
+    InputValidator.throwIfInvalid(problemResult, ErrorCode.InvalidParams);
+    const languageResult = InputValidator.validateProgrammingLanguage(args.programmingLanguage);
+    InputValidator.throwIfInvalid(languageResult, ErrorCode.InvalidParams);
+    const problem = args.problem.trim();
+    const language = languageResult.sanitized as string | undefined;
+
+    const recommendations = await searchMediator.search(
+      buildPatternRequest(problem, { maxResults: MAX_CANDIDATES, programmingLanguage: language })
+    );
+    const candidates = await Promise.all(
+      recommendations.map(async (recommendation, index) => {
+        const pattern = selectPattern(recommendation.pattern.id);
+        const related = relatedLines(
+          recommendation.pattern.id,
+          await relationshipsOf(recommendation.pattern.id)
+        );
+        return (
+          `### ${index + 1}. ${recommendation.pattern.name} [ID: ${recommendation.pattern.id}] ` +
+          `(${recommendation.pattern.category}, ` +
+          `confidence ${(recommendation.confidence * 100).toFixed(0)}%)\n\n` +
+          (pattern ? describePattern(pattern) : recommendation.pattern.description) +
+          (related.length > 0 ? `\n\nRelated patterns:\n${related.join('\n')}` : '')
+        );
+      })
+    );
+
+    return userPrompt(
+      `Choose a design pattern for: ${truncate(problem, 80)}`,
+      `Choose a design pattern for the following problem.\n\n## Problem\n\n${problem}\n\n` +
+        `## Candidate patterns from the catalog\n\n` +
+        (candidates.length > 0
+          ? candidates.join('\n\n')
+          : 'The catalog search returned no candidates. Use `find_patterns` with other ' +
+            'wording before falling back to patterns outside the catalog.') +
+        `\n\n## Instructions\n\n` +
+        `1. Restate the forces in the problem (what varies, what must stay stable, scale and ` +
+        `team constraints).\n` +
+        `2. Weigh each candidate against those forces, including its drawbacks.\n` +
+        `3. Recommend one pattern, or none if nothing fits, and explain the trade-off against ` +
+        `the runner-up.\n` +
+        `4. Sketch how the recommendation applies${language ? ` in ${language}` : ''}; ` +
+        '`get_pattern_details` returns the catalog implementations.'
+    );
+  };
+
+  const reviewAntiPatterns = (args: Record<string, string>): GetPromptResult => {
+    const { code, language } = InputValidator.validateAnalyzeCodeArgs(args);
+    const findings = detector.detect(code, language);
+
+    return userPrompt(
+      `Anti-pattern review (${findings.length} detector findings)`,
+      `Review this ${language} code for anti-patterns and propose refactorings.\n\n` +
+        `\`\`\`${language}\n${code}\n\`\`\`\n\n## Detector findings\n\n` +
+        (findings.length > 0
+          ? findings.map(finding => describeFinding(finding, selectPattern)).join('\n\n')
+          : 'The static detector found no anti-patterns; review the code by reading it.') +
+        `\n\n## Instructions\n\n` +
+        `1. Confirm or dismiss each finding with a reference to the code.\n` +
+        `2. Look for anti-patterns the metrics cannot see (leaky abstractions, hidden ` +
+        `temporal coupling, misuse of inheritance).\n` +
+        `3. For each confirmed problem, name the catalog pattern to refactor toward and the ` +
+        'first small, safe step; `plan_refactoring` produces a step-by-step plan.'
+    );
+  };
+
+  const explainPattern = async (args: Record<string, string>): Promise<GetPromptResult> => {
+    const pattern = await requirePattern(args.patternId, 'patternId');
+    const languageResult = InputValidator.validateProgrammingLanguage(args.programmingLanguage);
+    InputValidator.throwIfInvalid(languageResult, ErrorCode.InvalidParams);
+    const language = languageResult.sanitized as string | undefined;
+
+    const implementation =
+      (language
+        ? db.queryOne<PatternImplementation>(
+            `SELECT language, code, explanation FROM pattern_implementations
+             WHERE pattern_id = ? AND LOWER(language) = LOWER(?) LIMIT 1`,
+            [pattern.id, language]
+          )
+        : null) ??
+      db.queryOne<PatternImplementation>(
+        'SELECT language, code, explanation FROM pattern_implementations WHERE pattern_id = ? LIMIT 1',
+        [pattern.id]
+      );
+    const related = relatedLines(pattern.id, await relationshipsOf(pattern.id));
+
+    return userPrompt(
+      `Explain ${pattern.name} to a beginner`,
+      `Explain the ${pattern.name} pattern to a developer who is new to design patterns.\n\n` +
+        `## Catalog entry: ${pattern.name} [ID: ${pattern.id}] (${pattern.category})\n\n` +
+        describePattern(pattern) +
+        (implementation
+          ? `\n\n## Example implementation (${implementation.language})\n\n` +
+            `\`\`\`${implementation.language.toLowerCase()}\n${implementation.code}\n\`\`\`` +
+            (implementation.explanation ? `\n\n${implementation.explanation}` : '')
+          : '') +
+        (related.length > 0 ? `\n\n## Related patterns\n\n${related.join('\n')}` : '') +
+        `\n\n## Instructions\n\n` +
+        `Use plain language and define any jargon. Cover the problem it solves with an ` +
+        `everyday analogy, how it works step by step, a small example` +
+        `${language ? ` in ${language}` : ''}, when not to use it (the drawbacks above), and ` +
+        `how it relates to the related patterns.`
+    );
+  };
+
+  const comparePatterns = async (args: Record<string, string>): Promise<GetPromptResult> => {
+    const first = await requirePattern(args.firstPatternId, 'firstPatternId');
+    const second = await requirePattern(args.secondPatternId, 'secondPatternId');
+    if (first.id === second.id) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Validation failed: firstPatternId and secondPatternId must differ'
+      );
+    }
+
+    const firstRelationships = await relationshipsOf(first.id);
+    const secondRelationships = await relationshipsOf(second.id);
+    const direct = firstRelationships.filter(
+      rel => rel.sourcePatternId === second.id || rel.targetPatternId === second.id
+    );
+    const neighbours = (patternId: string, relationships: RelationshipWithPatterns[]) =>
+      new Map(
+        relationships.map(rel =>
+          rel.sourcePatternId === patternId
+            ? [rel.targetPattern.id, rel.targetPattern.name]
+            : [rel.sourcePattern.id, rel.sourcePattern.name]
+        )
+      );
+    const secondNeighbours = neighbours(second.id, secondRelationships);
+    const shared = [...neighbours(first.id, firstRelationships)]
+      .filter(([id]) => secondNeighbours.has(id))
+      .map(([id, name]) => `${name} [ID: ${id}]`);
+
+    const catalogRelation = [
+      ...direct.map(
+        rel =>
+          `- ${rel.sourcePattern.name} —${rel.type}→ ${rel.targetPattern.name}` +
+          (rel.description ? `: ${rel.description}` : '')
+      ),
+      ...(shared.length > 0 ? [`- Both relate to: ${shared.join(', ')}`] : []),
+    ];
+
+    return userPrompt(
+      `Compare ${first.name} and ${second.name}`,
+      `Compare the ${first.name} and ${second.name} patterns.\n\n` +
+        [first, second]
+          .map(
+            pattern =>
+              `## ${pattern.name} [ID: ${pattern.id}] (${pattern.category})\n\n` +
+              describePattern(pattern)
+          )
+          .join('\n\n') +
+        `\n\n## How the catalog relates them\n\n` +
+        (catalogRelation.length > 0
+          ? catalogRelation.join('\n')
+          : 'The catalog records no relationship between them.') +
+        `\n\n## Instructions\n\n` +
+        `Contrast their intent, structure and trade-offs, say whether they can be combined, ` +
+        `and finish with a short rule of thumb for choosing between them.`
+    );
+  };
+
+  return {
+    listPrompts(): ListPromptsResult {
+      return { prompts: PROMPT_DEFINITIONS };
+    },
+
+    async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+      switch (name as PromptName) {
+        case 'choose_pattern':
+          return choosePattern(args);
+        case 'review_anti_patterns':
+          return reviewAntiPatterns(args);
+        case 'explain_pattern':
+          return explainPattern(args);
+        case 'compare_patterns':
+          return comparePatterns(args);
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+    },
+  };
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/**
+ * Catalog fields a prompt quotes for a pattern
+ */
+function describePattern(pattern: PatternRow): string {
+  return (
+    `${pattern.description ?? 'No description available'}\n` +
+    `\n- Complexity: ${pattern.complexity ?? 'Unknown'}` +
+    listLine('- When to use', pattern.when_to_use) +
+    listLine('- Benefits', pattern.benefits) +
+    listLine('- Drawbacks', pattern.drawbacks) +
+    listLine('- Use cases', pattern.use_cases)
+  );
+}
+
+function describeFinding(
+  finding: AntiPatternFinding,
+  selectPattern: (id: string) => PatternRow | null
+): string {
+  const evidence = finding.evidence
+    .map(
+      item =>
+        `${item.metric} ${item.value} (threshold ${item.threshold})` +
+        (item.scope ? ` in ${item.scope}` : '')
+    )
+    .join(', ');
+  const entry = selectPattern(finding.catalogId);
+  return (
+    `- **${finding.pattern}** (${finding.severity}): ${finding.reason}` +
+    (evidence ? `\n  Evidence: ${evidence}` : '') +
+    (entry
+      ? `\n  Catalog [ID: ${entry.id}]: ${entry.description ?? ''}` +
+        listLine('  Consequences', entry.drawbacks)
+      : '')
+  );
+}
+
+/** "\n<label>: a; b" for a JSON list column, empty when the list is */
+function listLine(label: string, value: string | undefined): string {
+  const items = parseArrayProperty(value);
+  return items.length > 0 ? `\n${label}: ${items.join('; ')}` : '';
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
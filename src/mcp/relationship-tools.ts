@@ -0,0 +1,286 @@
+/**
+ * Relationship curation tools (create/get/update/delete_relationship and the review of
+ * inferred relationship suggestions).
+ * Writes are only allowed when the server runs with write tools enabled, and every mutation
+ * is followed by an integrity check that rolls it back if it left a broken reference.
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseManager } from '../services/database-manager.js';
+import type { Relationship, RelationshipWithPatterns } from '../models/relationship.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import {
+  RelationshipIntegrityChecker,
+  type IntegrityCheckResult,
+} from '../services/relationship-integrity-checker.js';
+import { RelationshipInferenceService } from '../services/relationship-inference.js';
+import { PatternIdResolver, patternNotFoundMessage } from '../services/pattern-id-resolver.js';
+import { InputValidator } from '../utils/input-validation.js';
+import { catalogEventBus } from '../events/catalog-events.js';
+import {
+  formatRelationshipChange,
+  formatRelationshipList,
+  formatRelationshipSuggestions,
+  formatSuggestionReview,
+} from './tool-formatters.js';
+import {
+  relationshipChangeOutput,
+  relationshipListOutput,
+  relationshipSuggestionsOutput,
+  suggestionReviewOutput,
+} from './structured-output.js';
+
+export interface RelationshipToolOptions {
+  enableWriteTools: boolean;
+  /** Resolves the pattern IDs of new relationships; defaults to one without semantic search */
+  resolver?: PatternIdResolver;
+}
+
+export function createRelationshipToolHandlers(
+  db: DatabaseManager,
+  options: RelationshipToolOptions
+) {
+  const repository = new SqliteRelationshipRepository(db);
+  const integrityChecker = new RelationshipIntegrityChecker(db);
+  const inference = new RelationshipInferenceService(db, repository);
+  const resolver = options.resolver ?? new PatternIdResolver(db);
+
+  const requireWriteAccess = (tool: string) => {
+    if (!options.enableWriteTools) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${tool} is disabled: the server is read-only (set ENABLE_WRITE_TOOLS=true to allow it)`
+      );
+    }
+  };
+
+  /**
+   * Run the integrity checker after a mutation; undo it when it broke or duplicated the pair
+   */
+  const verifyIntegrity = async (
+    relationship: Relationship,
+    undo: () => Promise<unknown>
+  ): Promise<IntegrityCheckResult> => {
+    const result = await integrityChecker.checkIntegrity();
+    const samePair = (ref: { sourcePatternId: string; targetPatternId: string }) =>
+      ref.sourcePatternId === relationship.sourcePatternId &&
+      ref.targetPatternId === relationship.targetPatternId;
+
+    const problems = [
+      ...result.brokenReferences.filter(samePair).map(() => 'broken target reference'),
+      ...result.duplicateRelationships
+        .filter(samePair)
+        .map(dup => `${dup.count} duplicate '${dup.type}' relationships`),
+    ];
+    if (problems.length > 0) {
+      await undo();
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Integrity check failed for ${relationship.sourcePatternId} -> ` +
+          `${relationship.targetPatternId} (${problems.join(', ')}); the change was rolled back`
+      );
+    }
+
+    return result;
+  };
+
+  const publishChange = (relationship: Relationship) =>
+    catalogEventBus.emit('catalog:relationships:changed', {
+      patternIds: [relationship.sourcePatternId, relationship.targetPatternId],
+    });
+
+  /**
+   * Canonical ID of a pattern named by ID, name or alias. Near misses are not applied to a
+   * write; they fail with did-you-mean candidates instead.
+   */
+  const requirePatternId = async (patternId: string): Promise<string> => {
+    const resolution = await resolver.resolve(patternId, { allowSimilar: false });
+    if (resolution.status === 'unresolved') {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        patternNotFoundMessage(patternId, resolution.candidates)
+      );
+    }
+    return resolution.pattern.id;
+  };
+
+  const asRequestError = (error: unknown): McpError =>
+    error instanceof McpError
+      ? error
+      : new McpError(
+          ErrorCode.InvalidRequest,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+
+  return {
+    handleGetRelationships: async (args: unknown) => {
+      const { patternId, type, minStrength, limit } =
+        InputValidator.validateGetRelationshipsArgs(args);
+
+      let relationships: RelationshipWithPatterns[];
+      if (patternId) {
+        const outgoing = await repository.findWithPatterns({
+          sourcePatternId: patternId,
+          type,
+          minStrength,
+        });
+        const incoming = await repository.findWithPatterns({
+          targetPatternId: patternId,
+          type,
+          minStrength,
+        });
+        relationships = [...outgoing, ...incoming].sort((a, b) => b.strength - a.strength);
+      } else {
+        relationships = await repository.findWithPatterns({ type, minStrength });
+      }
+
+      const shown = relationships.slice(0, limit);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatRelationshipList(shown, relationships.length, patternId),
+          },
+        ],
+        structuredContent: relationshipListOutput(shown, relationships.length, patternId),
+      };
+    },
+
+    handleCreateRelationship: async (args: unknown) => {
+      requireWriteAccess('create_relationship');
+      const validated = InputValidator.validateCreateRelationshipArgs(args);
+      const input = {
+        ...validated,
+        sourcePatternId: await requirePatternId(validated.sourcePatternId),
+        targetPatternId: await requirePatternId(validated.targetPatternId),
+      };
+      if (input.sourcePatternId === input.targetPatternId) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Validation failed: ${validated.sourcePatternId} and ${validated.targetPatternId} ` +
+            `are the same pattern (${input.sourcePatternId})`
+        );
+      }
+
+      let created: Relationship;
+      try {
+        created = await repository.save(input);
+      } catch (error) {
+        throw asRequestError(error);
+      }
+      const integrity = await verifyIntegrity(created, () => repository.deleteById(created.id));
+      publishChange(created);
+
+      return {
+        content: [{ type: 'text', text: formatRelationshipChange('Created', created, integrity) }],
+        structuredContent: relationshipChangeOutput('Created', created, integrity),
+      };
+    },
+
+    handleUpdateRelationship: async (args: unknown) => {
+      requireWriteAccess('update_relationship');
+      const { relationshipId, ...changes } = InputValidator.validateUpdateRelationshipArgs(args);
+
+      const previous = await repository.findById(relationshipId);
+      if (!previous) {
+        throw new McpError(ErrorCode.InvalidRequest, `Relationship not found: ${relationshipId}`);
+      }
+      const updated = await repository.update(relationshipId, { id: relationshipId, ...changes });
+      if (!updated) {
+        throw new McpError(ErrorCode.InvalidRequest, `Relationship not found: ${relationshipId}`);
+      }
+      const integrity = await verifyIntegrity(updated, () =>
+        repository.update(relationshipId, {
+          id: relationshipId,
+          type: previous.type,
+          strength: previous.strength,
+          description: previous.description,
+        })
+      );
+      publishChange(updated);
+
+      return {
+        content: [{ type: 'text', text: formatRelationshipChange('Updated', updated, integrity) }],
+        structuredContent: relationshipChangeOutput('Updated', updated, integrity),
+      };
+    },
+
+    handleDeleteRelationship: async (args: unknown) => {
+      requireWriteAccess('delete_relationship');
+      const target = InputValidator.validateDeleteRelationshipArgs(args);
+
+      const existing =
+        'relationshipId' in target
+          ? await repository.findById(target.relationshipId)
+          : (await repository.findBySourceId(target.sourcePatternId)).find(
+              rel => rel.targetPatternId === target.targetPatternId
+            );
+      if (!existing) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Relationship not found');
+      }
+
+      await repository.deleteById(existing.id);
+      // Deleting cannot introduce broken references; the check reports the catalog state
+      const integrity = await integrityChecker.checkIntegrity();
+      publishChange(existing);
+
+      return {
+        content: [{ type: 'text', text: formatRelationshipChange('Deleted', existing, integrity) }],
+        structuredContent: relationshipChangeOutput('Deleted', existing, integrity),
+      };
+    },
+
+    handleListRelationshipSuggestions: (args: unknown) => {
+      const filters = InputValidator.validateListRelationshipSuggestionsArgs(args);
+      const suggestions = inference.listSuggestions(filters);
+
+      return {
+        content: [{ type: 'text', text: formatRelationshipSuggestions(suggestions, filters) }],
+        structuredContent: relationshipSuggestionsOutput(suggestions, filters),
+      };
+    },
+
+    handleReviewRelationshipSuggestion: async (args: unknown) => {
+      requireWriteAccess('review_relationship_suggestion');
+      const { suggestionId, decision, ...overrides } =
+        InputValidator.validateReviewRelationshipSuggestionArgs(args);
+
+      if (decision === 'reject') {
+        try {
+          const rejected = inference.reject(suggestionId);
+          return {
+            content: [{ type: 'text', text: formatSuggestionReview(rejected) }],
+            structuredContent: suggestionReviewOutput('reject', rejected),
+          };
+        } catch (error) {
+          throw asRequestError(error);
+        }
+      }
+
+      let accepted: Relationship;
+      try {
+        accepted = await inference.accept(suggestionId, overrides);
+      } catch (error) {
+        throw asRequestError(error);
+      }
+      const integrity = await verifyIntegrity(accepted, async () => {
+        await repository.deleteById(accepted.id);
+        inference.reopen(suggestionId);
+      });
+      publishChange(accepted);
+      const suggestion = inference.findSuggestion(suggestionId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: suggestion
+              ? formatSuggestionReview(suggestion, accepted, integrity)
+              : formatRelationshipChange('Created', accepted, integrity),
+          },
+        ],
+        structuredContent: suggestionReviewOutput('accept', suggestion, accepted, integrity),
+      };
+    },
+  };
+}
@@ -0,0 +1,442 @@
+/**
+ * MCP resources: the catalog listing (cursor-paginated), resource templates for single
+ * patterns, categories, implementations and relationships, and subscriptions that send
+ * notifications/resources/updated when the catalog event bus reports a change.
+ */
+
+import {
+  McpError,
+  ErrorCode,
+  type ListResourcesResult,
+  type ListResourceTemplatesResult,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseManager } from '../services/database-manager.js';
+import type { MCPServerConfig } from '../core/config-builder.js';
+import type { EventBus, Subscription } from '../events/event-bus.js';
+import { catalogEventBus, type CatalogEvents } from '../events/catalog-events.js';
+import { hasPatternAliases } from '../services/pattern-aliases.js';
+import { loadPatternExamples, loadPatternLanguages } from '../services/pattern-languages.js';
+import { PatternIdResolver, patternNotFoundMessage } from '../services/pattern-id-resolver.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import { parseArrayProperty, parseTags } from '../utils/parse-tags.js';
+import type { CountResult, PatternRow } from './types.js';
+
+export const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: 'patterns',
+    name: 'Design Patterns',
+    description: 'Summary of the first 100 catalog patterns by name',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'categories',
+    name: 'Pattern Categories',
+    description: 'All available pattern categories',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'languages',
+    name: 'Programming Languages',
+    description: 'Languages with pattern implementations or code examples',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'server_info',
+    name: 'Server Information',
+    description: 'Server status and configuration',
+    mimeType: 'application/json',
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'pattern/{id}',
+    name: 'Pattern',
+    description: 'A catalog pattern with its fields, implementation languages and aliases',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'category/{name}',
+    name: 'Patterns in a category',
+    description: 'Summaries of the patterns in one category (URI-encode names with slashes)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'pattern/{id}/implementations/{language}',
+    name: 'Pattern implementations',
+    description:
+      'Code implementations of a pattern in one programming language, or its catalog code examples',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'pattern/{id}/relationships',
+    name: 'Pattern relationships',
+    description: 'Catalog relationships from and to a pattern',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * A resource URI resolved to the resource it addresses
+ */
+export type ResourceAddress =
+  | { kind: 'patterns' | 'categories' | 'languages' | 'server_info' }
+  | { kind: 'pattern'; patternId: string }
+  | { kind: 'category'; category: string }
+  | { kind: 'implementations'; patternId: string; language: string }
+  | { kind: 'relationships'; patternId: string };
+
+/**
+ * Parse a resource URI; null when it matches no resource or template
+ */
+export function parseResourceUri(uri: string): ResourceAddress | null {
+  if (uri === 'patterns' || uri === 'categories' || uri === 'languages' || uri === 'server_info') {
+    return { kind: uri };
+  }
+
+  let segments: string[];
+  try {
+    segments = uri.split('/').map(segment => decodeURIComponent(segment));
+  } catch {
+    return null;
+  }
+  if (segments.some(segment => segment.length === 0)) {
+    return null;
+  }
+
+  const [root, id, child, language] = segments;
+  if (root === 'category' && segments.length === 2) {
+    return { kind: 'category', category: id };
+  }
+  if (root !== 'pattern') {
+    return null;
+  }
+  if (segments.length === 2) {
+    return { kind: 'pattern', patternId: id };
+  }
+  if (segments.length === 3 && child === 'relationships') {
+    return { kind: 'relationships', patternId: id };
+  }
+  if (segments.length === 4 && child === 'implementations') {
+    return { kind: 'implementations', patternId: id, language };
+  }
+  return null;
+}
+
+export interface ResourceHandlerOptions {
+  config: Pick<
+    MCPServerConfig,
+    'databasePath' | 'enableLLM' | 'logLevel' | 'maxConcurrentRequests'
+  >;
+  /** Sends notifications/resources/updated for a subscribed URI */
+  notify: (uri: string) => Promise<void>;
+  events?: EventBus<CatalogEvents>;
+  /** Patterns per resources/list page */
+  pageSize?: number;
+  /** Resolves pattern IDs in URIs; defaults to one without semantic search */
+  resolver?: PatternIdResolver;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+export function createResourceHandlers(db: DatabaseManager, options: ResourceHandlerOptions) {
+  const repository = new SqliteRelationshipRepository(db);
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const resolver = options.resolver ?? new PatternIdResolver(db);
+  const subscriptions = new Set<string>();
+
+  const json = (uri: string, value: unknown): ReadResourceResult => ({
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  });
+
+  const notFound = (message: string) => new McpError(ErrorCode.InvalidRequest, message);
+
+  /**
+   * Pattern by ID, name, alias or closest ID; unknown IDs fail with did-you-mean candidates
+   */
+  const requirePattern = async (
+    patternId: string
+  ): Promise<{ pattern: PatternRow; note?: string }> => {
+    const resolution = await resolver.resolve(patternId);
+    const pattern =
+      resolution.status === 'resolved'
+        ? db.queryOne<PatternRow>(
+            `SELECT id, name, category, description, when_to_use, benefits, drawbacks, use_cases,
+                    complexity, tags, created_at
+             FROM patterns WHERE id = ?`,
+            [resolution.pattern.id]
+          )
+        : null;
+    if (!pattern) {
+      const candidates = resolution.status === 'unresolved' ? resolution.candidates : [];
+      throw notFound(patternNotFoundMessage(patternId, candidates));
+    }
+    return { pattern, note: resolution.status === 'resolved' ? resolution.note : undefined };
+  };
+
+  const readPattern = async (uri: string, patternId: string) => {
+    const { pattern, note } = await requirePattern(patternId);
+    const languages = loadPatternLanguages(db, pattern.id).map(row => ({
+      ...row,
+      uri: `pattern/${pattern.id}/implementations/${encodeURIComponent(row.language)}`,
+    }));
+    const aliases = hasPatternAliases(db)
+      ? db
+          .query<{ alias: string }>(
+            'SELECT alias FROM pattern_aliases WHERE pattern_id = ? ORDER BY alias',
+            [pattern.id]
+          )
+          .map(row => row.alias)
+      : [];
+
+    return json(uri, {
+      id: pattern.id,
+      name: pattern.name,
+      category: pattern.category,
+      description: pattern.description,
+      complexity: pattern.complexity,
+      tags: parseTags(pattern.tags),
+      when_to_use: parseArrayProperty(pattern.when_to_use),
+      benefits: parseArrayProperty(pattern.benefits),
+      drawbacks: parseArrayProperty(pattern.drawbacks),
+      use_cases: parseArrayProperty(pattern.use_cases),
+      aliases,
+      implementations: languages,
+      relationships: `pattern/${pattern.id}/relationships`,
+      // Set when the URI named the pattern by anything but its ID
+      ...(note ? { resolvedFrom: patternId, note } : {}),
+    });
+  };
+
+  const readCategory = (uri: string, category: string) => {
+    const patterns = db.query<PatternRow>(
+      `SELECT id, name, category, description, complexity FROM patterns
+       WHERE category = ? COLLATE NOCASE ORDER BY name`,
+      [category]
+    );
+    if (patterns.length === 0) {
+      throw notFound(`Category not found: ${category}`);
+    }
+    return json(uri, { category: patterns[0].category, count: patterns.length, patterns });
+  };
+
+  /**
+   * Stored implementations in the language, else the catalog's code examples in it
+   */
+  const readImplementations = async (uri: string, patternId: string, language: string) => {
+    const { pattern } = await requirePattern(patternId);
+    const implementations = db.query<{
+      id: string;
+      language: string;
+      approach: string;
+      code: string;
+      explanation: string;
+      dependencies: string | null;
+    }>(
+      `SELECT id, language, approach, code, explanation, dependencies
+       FROM pattern_implementations
+       WHERE pattern_id = ? AND LOWER(language) = LOWER(?) ORDER BY id`,
+      [pattern.id, language]
+    );
+    if (implementations.length === 0) {
+      const examples = loadPatternExamples(db, pattern.id, language);
+      if (examples.length === 0) {
+        throw notFound(`No ${language} implementations of ${pattern.id}`);
+      }
+      return json(
+        uri,
+        examples.map(example => ({
+          language: example.language,
+          approach: 'example',
+          code: example.code,
+          explanation: example.description ?? '',
+          dependencies: [],
+        }))
+      );
+    }
+    return json(
+      uri,
+      implementations.map(impl => ({
+        ...impl,
+        dependencies: parseArrayProperty(impl.dependencies ?? undefined),
+      }))
+    );
+  };
+
+  const readRelationships = async (uri: string, patternId: string) => {
+    const { pattern } = await requirePattern(patternId);
+    const relationships = [
+      ...(await repository.findWithPatterns({ sourcePatternId: pattern.id })),
+      ...(await repository.findWithPatterns({ targetPatternId: pattern.id })),
+    ].sort((a, b) => b.strength - a.strength);
+
+    return json(
+      uri,
+      relationships.map(rel => {
+        const outgoing = rel.sourcePatternId === pattern.id;
+        return {
+          id: rel.id,
+          direction: outgoing ? 'outgoing' : 'incoming',
+          type: rel.type,
+          strength: rel.strength,
+          description: rel.description,
+          pattern: outgoing ? rel.targetPattern : rel.sourcePattern,
+        };
+      })
+    );
+  };
+
+  const readServerInfo = () =>
+    json('server_info', {
+      name: 'Design Patterns MCP Server',
+      version: '0.6.0',
+      status: 'running',
+      database: {
+        path: options.config.databasePath,
+        patternCount:
+          db.queryOne<CountResult>('SELECT COUNT(*) as count FROM patterns')?.count ?? 0,
+      },
+      features: {
+        semanticSearch: true,
+        llmBridge: options.config.enableLLM,
+        caching: true,
+        subscriptions: true,
+      },
+      config: {
+        logLevel: options.config.logLevel,
+        maxConcurrentRequests: options.config.maxConcurrentRequests,
+      },
+    });
+
+  /**
+   * Send notifications/resources/updated for every subscription the change affects
+   */
+  const notifyWhere = async (affects: (address: ResourceAddress) => boolean) => {
+    const affected = [...subscriptions].filter(uri => {
+      const address = parseResourceUri(uri);
+      return address !== null && affects(address);
+    });
+    await Promise.all(affected.map(uri => options.notify(uri)));
+  };
+
+  const concernsPattern = (address: ResourceAddress, patternIds: Set<string>) =>
+    'patternId' in address && patternIds.has(address.patternId);
+
+  const events = options.events ?? catalogEventBus;
+  const eventSubscriptions: Subscription[] = [
+    events.subscribe('catalog:pattern:updated', ({ patternId, categories }) => {
+      const lowerCategories = new Set(categories.map(category => category.toLowerCase()));
+      return notifyWhere(
+        address =>
+          address.kind === 'patterns' ||
+          address.kind === 'categories' ||
+          address.kind === 'languages' ||
+          (address.kind === 'category' && lowerCategories.has(address.category.toLowerCase())) ||
+          (address.kind !== 'relationships' && concernsPattern(address, new Set([patternId])))
+      );
+    }),
+    events.subscribe('catalog:relationships:changed', ({ patternIds }) =>
+      notifyWhere(
+        address => address.kind === 'relationships' && concernsPattern(address, new Set(patternIds))
+      )
+    ),
+    // A reload can add, drop or rewrite any pattern
+    events.subscribe('catalog:reloaded', () => notifyWhere(() => true)),
+  ];
+
+  return {
+    /**
+     * Static resources, then one pattern/{id} resource per pattern, paginated by ID
+     */
+    listResources(cursor?: string): ListResourcesResult {
+      let afterId = '';
+      if (cursor !== undefined) {
+        afterId = Buffer.from(cursor, 'base64url').toString('utf-8');
+        if (!/^[a-zA-Z0-9_-]+$/.test(afterId)) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+        }
+      }
+
+      const rows = db.query<{ id: string; name: string; category: string }>(
+        'SELECT id, name, category FROM patterns WHERE id > ? ORDER BY id LIMIT ?',
+        [afterId, pageSize + 1]
+      );
+      const page = rows.slice(0, pageSize);
+      const resources: Resource[] = page.map(row => ({
+        uri: `pattern/${row.id}`,
+        name: row.name,
+        description: `${row.name} (${row.category})`,
+        mimeType: 'application/json',
+      }));
+
+      return {
+        resources: cursor === undefined ? [...STATIC_RESOURCES, ...resources] : resources,
+        ...(rows.length > pageSize
+          ? { nextCursor: Buffer.from(page[page.length - 1].id).toString('base64url') }
+          : {}),
+      };
+    },
+
+    listResourceTemplates(): ListResourceTemplatesResult {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    },
+
+    async readResource(uri: string): Promise<ReadResourceResult> {
+      const address = parseResourceUri(uri);
+      switch (address?.kind) {
+        case 'patterns':
+          return json(
+            uri,
+            db.query(
+              'SELECT id, name, category, description, complexity, tags FROM patterns ORDER BY name LIMIT 100'
+            )
+          );
+        case 'categories':
+          return json(
+            uri,
+            db.query(
+              'SELECT category, COUNT(*) as count FROM patterns GROUP BY category ORDER BY category'
+            )
+          );
+        case 'languages':
+          return json(uri, loadPatternLanguages(db));
+        case 'server_info':
+          return readServerInfo();
+        case 'pattern':
+          return readPattern(uri, address.patternId);
+        case 'category':
+          return readCategory(uri, address.category);
+        case 'implementations':
+          return readImplementations(uri, address.patternId, address.language);
+        case 'relationships':
+          return readRelationships(uri, address.patternId);
+        default:
+          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+      }
+    },
+
+    subscribe(uri: string): Record<string, never> {
+      if (!parseResourceUri(uri)) {
+        throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+      }
+      subscriptions.add(uri);
+      return {};
+    },
+
+    unsubscribe(uri: string): Record<string, never> {
+      subscriptions.delete(uri);
+      return {};
+    },
+
+    /**
+     * Stop listening to catalog events
+     */
+    dispose(): void {
+      subscriptions.clear();
+      eventSubscriptions.forEach(subscription => subscription.unsubscribe());
+    },
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Builders for the structuredContent of canonical tool results.
+ * Each builder matches the tool's schema in output-schemas.ts: Maps become plain objects,
+ * Dates become ISO strings and list-shaped catalog columns become string arrays.
+ */
+
+import { coerceToStringArray, parseArrayProperty, parseTags } from '../utils/parse-tags.js';
+import type { PatternRecommendation } from '../models/recommendation.js';
+import type { Relationship, RelationshipWithPatterns } from '../models/relationship.js';
+import type { HealthReport } from '../health/types.js';
+import type { RepositoryAnalysisResult } from '../services/repository-analyzer.js';
+import type { RefactoringPlan } from '../services/refactoring-planner.js';
+import type { PatternPathResult } from '../services/pattern-path-finder.js';
+import type { IntegrityCheckResult } from '../services/relationship-integrity-checker.js';
+import type {
+  RelationshipSuggestion,
+  SuggestionFilters,
+} from '../services/relationship-inference.js';
+import type { PatternCandidate, PatternMatch } from '../services/pattern-id-resolver.js';
+import type { CatalogPatternRef, LinkedCodeAnalysis } from './code-analysis.js';
+import type { PatternCompositionReport } from './pattern-composition.js';
+import type { PatternImplementation, PatternRow, SearchPatternResult } from './types.js';
+
+export function toSearchPatternResults(
+  recommendations: PatternRecommendation[]
+): SearchPatternResult[] {
+  return recommendations.map(rec => ({
+    pattern: {
+      id: rec.pattern.id,
+      name: rec.pattern.name,
+      category: rec.pattern.category,
+      description: rec.pattern.description,
+      complexity: rec.pattern.complexity,
+      tags: rec.pattern.tags,
+    },
+    score: rec.confidence,
+  }));
+}
+
+export function recommendationsOutput(recommendations: PatternRecommendation[]) {
+  return {
+    recommendations: recommendations.map(rec => {
+      const { justification } = rec;
+      return {
+        id: rec.id,
+        rank: rec.rank,
+        confidence: rec.confidence,
+        score: rec.score,
+        semanticScore: rec.semanticScore,
+        pattern: rec.pattern,
+        justification: {
+          primaryReason: justification.primaryReason,
+          supportingReasons: coerceToStringArray(
+            justification.supportingReasons,
+            'supportingReasons'
+          ),
+          problemFit: justification.problemFit,
+          benefits: coerceToStringArray(justification.benefits, 'benefits'),
+          drawbacks: coerceToStringArray(justification.drawbacks, 'drawbacks'),
+          fuzzyReasoning: justification.fuzzyReasoning,
+          fuzzyConfidence: justification.fuzzyConfidence,
+          originalConfidence: justification.originalConfidence,
+          fuzzyInputFingerprint: justification.fuzzyInputFingerprint,
+        },
+        alternatives: rec.alternatives,
+      };
+    }),
+  };
+}
+
+export function searchResultsOutput(
+  query: string,
+  searchType: string,
+  degraded: boolean,
+  recommendations: PatternRecommendation[]
+) {
+  return { query, searchType, degraded, results: toSearchPatternResults(recommendations) };
+}
+
+export function patternDetailsOutput(
+  requestedId: string,
+  pattern: PatternRow,
+  implementations: PatternImplementation[],
+  resolution?: { matchedBy: PatternMatch; note?: string }
+) {
+  return {
+    requestedId,
+    found: true,
+    matchedBy: resolution?.matchedBy,
+    note: resolution?.note,
+    pattern: {
+      id: pattern.id,
+      name: pattern.name,
+      category: pattern.category,
+      description: pattern.description,
+      complexity: pattern.complexity,
+      tags: parseTags(pattern.tags),
+      whenToUse: parseArrayProperty(pattern.when_to_use),
+      benefits: parseArrayProperty(pattern.benefits),
+      drawbacks: parseArrayProperty(pattern.drawbacks),
+      useCases: parseArrayProperty(pattern.use_cases),
+      source: pattern.source,
+    },
+    implementations,
+  };
+}
+
+export function patternNotFoundOutput(requestedId: string, candidates: PatternCandidate[]) {
+  return {
+    requestedId,
+    found: false,
+    similar: candidates.map(({ id, name, category, description, score, matchedBy }) => ({
+      pattern: { id, name, category, description },
+      score,
+      matchedBy,
+    })),
+  };
+}
+
+export function patternCountOutput(
+  total: number,
+  breakdown?: Array<{ category: string; count: number }>
+) {
+  return { total, byCategory: breakdown };
+}
+
+export function healthReportOutput(report?: HealthReport) {
+  if (!report) {
+    return { available: false };
+  }
+  return {
+    available: true,
+    report: {
+      overall: report.overall,
+      timestamp: report.timestamp,
+      duration: report.duration,
+      // Error objects do not serialize; the message already describes the failure
+      checks: report.checks.map(({ error: _error, ...check }) => check),
+      summary: report.summary,
+    },
+  };
+}
+
+export function codeAnalysisOutput(analysis: LinkedCodeAnalysis) {
+  return { ...analysis };
+}
+
+export function repositoryAnalysisOutput(
+  result: RepositoryAnalysisResult,
+  links: Map<string, CatalogPatternRef>
+) {
+  return {
+    root: result.root,
+    filesAnalyzed: result.filesAnalyzed,
+    filesSkipped: result.filesSkipped,
+    languages: result.languages,
+    symbolCount: result.symbols.length,
+    patterns: result.patterns.map(p => ({ ...p, catalog: links.get(p.pattern) })),
+    antiPatterns: result.antiPatterns.map(a => ({
+      ...a,
+      catalog: links.get(a.catalogId) ?? links.get(a.pattern),
+    })),
+    modules: result.modules.map(m => ({
+      ...m,
+      suggestions: m.suggestions.map(s => ({ ...s, catalog: links.get(s.pattern) })),
+    })),
+  };
+}
+
+export function refactoringPlanOutput(targetPatternId: string, plan?: RefactoringPlan) {
+  return plan ? { targetPatternId, found: true, plan } : { targetPatternId, found: false };
+}
+
+export function compositionReportOutput(report: PatternCompositionReport) {
+  return {
+    patterns: report.patterns,
+    unknownIds: report.unknownIds,
+    composition: report.composition,
+    antiPatterns: report.antiPatterns,
+    sequence: report.sequence,
+    names: Object.fromEntries(report.names),
+  };
+}
+
+export function patternPathOutput(result: PatternPathResult) {
+  return { ...result, names: Object.fromEntries(result.names) };
+}
+
+function relationshipData(relationship: Relationship) {
+  return {
+    id: relationship.id,
+    sourcePatternId: relationship.sourcePatternId,
+    targetPatternId: relationship.targetPatternId,
+    type: relationship.type,
+    strength: relationship.strength,
+    description: relationship.description,
+    createdAt: relationship.createdAt.toISOString(),
+  };
+}
+
+function suggestionData(suggestion: RelationshipSuggestion) {
+  return {
+    ...suggestion,
+    createdAt: suggestion.createdAt.toISOString(),
+    reviewedAt: suggestion.reviewedAt?.toISOString(),
+  };
+}
+
+export function relationshipListOutput(
+  relationships: RelationshipWithPatterns[],
+  total: number,
+  patternId?: string
+) {
+  return {
+    patternId,
+    total,
+    relationships: relationships.map(rel => ({
+      ...relationshipData(rel),
+      sourcePattern: rel.sourcePattern,
+      targetPattern: rel.targetPattern,
+    })),
+  };
+}
+
+export function relationshipChangeOutput(
+  action: 'Created' | 'Updated' | 'Deleted',
+  relationship: Relationship,
+  integrity: IntegrityCheckResult
+) {
+  return { action, relationship: relationshipData(relationship), integrity };
+}
+
+export function relationshipSuggestionsOutput(
+  suggestions: RelationshipSuggestion[],
+  filters: SuggestionFilters
+) {
+  return {
+    status: filters.status,
+    patternId: filters.patternId,
+    suggestions: suggestions.map(suggestionData),
+  };
+}
+
+export function suggestionReviewOutput(
+  decision: 'accept' | 'reject',
+  suggestion?: RelationshipSuggestion | null,
+  relationship?: Relationship,
+  integrity?: IntegrityCheckResult
+) {
+  return {
+    decision,
+    suggestion: suggestion ? suggestionData(suggestion) : undefined,
+    relationship: relationship ? relationshipData(relationship) : undefined,
+    integrity,
+  };
+}
+
+export function patternUpdateOutput(
+  pattern: { id: string; name: string; category: string },
+  changedFields: string[]
+) {
+  return { pattern, changedFields };
+}
@@ -6,11 +6,31 @@ import { coerceToStringArray } from '../utils/parse-tags.js';
 import type { PatternRecommendation } from '../models/recommendation.js';
 import type { PatternRequest } from '../types/search-types.js';
 import type { SearchPatternResult } from './types.js';
+import type { CatalogPatternRef, LinkedCodeAnalysis } from './code-analysis.js';
+import type { PatternLocation } from '../services/pattern-analyzer.js';
+import type { RepositoryAnalysisResult } from '../services/repository-analyzer.js';
+import type { AntiPatternEvidence } from '../services/anti-pattern-detector.js';
+import type { RefactoringPlan } from '../services/refactoring-planner.js';
+import type { PatternCompositionReport } from './pattern-composition.js';
+import { toSearchPatternResults } from './structured-output.js';
+import type { Relationship, RelationshipWithPatterns } from '../models/relationship.js';
+import type { IntegrityCheckResult } from '../services/relationship-integrity-checker.js';
+import type {
+  RelationshipSuggestion,
+  SuggestionFilters,
+} from '../services/relationship-inference.js';
+import type { DeduplicationReport } from '../services/catalog-deduplicator.js';
+import {
+  describeHop,
+  type PatternPath,
+  type PatternPathResult,
+} from '../services/pattern-path-finder.js';
 
 export function buildPatternRequest(
   query: string,
   options?: {
     categories?: string[];
+    sources?: string[];
     maxResults?: number;
     programmingLanguage?: string;
   }
@@ -19,6 +39,7 @@ export function buildPatternRequest(
     id: crypto.randomUUID(),
     query,
     categories: options?.categories,
+    sources: options?.sources,
     maxResults: options?.maxResults,
     programmingLanguage: options?.programmingLanguage,
   };
@@ -85,17 +106,452 @@ export function formatSearchResultsFromRecommendations(
   degraded: boolean,
   recommendations: PatternRecommendation[]
 ): string {
-  const results: SearchPatternResult[] = recommendations.map(rec => ({
-    pattern: {
-      id: rec.pattern.id,
-      name: rec.pattern.name,
-      category: rec.pattern.category,
-      description: rec.pattern.description,
-      complexity: rec.pattern.complexity,
-      tags: rec.pattern.tags,
-    },
-    score: rec.confidence,
-  }));
-
-  return formatSearchResults(query, searchTypeUsed, degraded, results);
+  return formatSearchResults(
+    query,
+    searchTypeUsed,
+    degraded,
+    toSearchPatternResults(recommendations)
+  );
+}
+
+function formatLocation(location: PatternLocation): string {
+  const column = location.column !== undefined ? `:${location.column}` : '';
+  const endColumn = location.endColumn !== undefined ? `:${location.endColumn}` : '';
+  const end = location.endLine !== undefined ? `-${location.endLine}${endColumn}` : '';
+  const snippet = location.snippet ? ` — \`${location.snippet}\`` : '';
+  return `line ${location.line}${column}${end}${snippet}`;
+}
+
+function formatEvidence(evidence: AntiPatternEvidence[]): string {
+  return evidence
+    .map(e => `${e.metric} ${e.value} (threshold ${e.threshold}${e.scope ? `, ${e.scope}` : ''})`)
+    .join('; ');
+}
+
+function formatRefactorings(catalog?: CatalogPatternRef): string[] {
+  return (catalog?.refactorings ?? []).map(
+    r => `   Refactor with: **${r.name}** [ID: ${r.id}] — ${r.description}`
+  );
+}
+
+export function formatAnalyzeCodeResult(analysis: LinkedCodeAnalysis): string {
+  const catalogRef = (catalog?: { id: string }) =>
+    catalog ? ` [ID: ${catalog.id}]` : ' [not in catalog]';
+
+  const identified = analysis.identifiedPatterns.map((p, index) => {
+    const lines = [
+      `${index + 1}. **${p.pattern}** (${p.category})${catalogRef(p.catalog)}`,
+      `   Confidence: ${(p.confidence * 100).toFixed(1)}%`,
+    ];
+    if (p.location?.line !== undefined) {
+      lines.push(`   Location: ${formatLocation(p.location)}`);
+    }
+    if (p.indicators.length > 0) {
+      lines.push(`   Indicators: ${p.indicators.join('; ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  const suggested = analysis.suggestedPatterns.map(
+    (s, index) =>
+      `${index + 1}. **${s.pattern}**${catalogRef(s.catalog)} — ${s.reason} (${(s.confidence * 100).toFixed(0)}%)`
+  );
+
+  const antiPatterns = analysis.antiPatterns.map((a, index) => {
+    const id = a.catalog ? ` [ID: ${a.catalog.id}]` : '';
+    const lines = [`${index + 1}. **${a.pattern}** [severity: ${a.severity}]${id} — ${a.reason}`];
+    if (a.location?.line !== undefined) {
+      lines.push(`   Location: ${formatLocation(a.location)}`);
+    }
+    if (a.evidence.length > 0) {
+      lines.push(`   Evidence: ${formatEvidence(a.evidence)}`);
+    }
+    return [...lines, ...formatRefactorings(a.catalog)].join('\n');
+  });
+
+  const sections = [
+    `## Code Analysis (${analysis.language})`,
+    `### Identified Patterns (${identified.length})\n` +
+      (identified.length > 0 ? identified.join('\n\n') : 'No design patterns detected.'),
+    `### Suggested Patterns (${suggested.length})\n` +
+      (suggested.length > 0 ? suggested.join('\n') : 'No suggestions.'),
+    `### Anti-Patterns (${antiPatterns.length})\n` +
+      (antiPatterns.length > 0 ? antiPatterns.join('\n') : 'No anti-patterns detected.'),
+  ];
+
+  if (analysis.improvements.length > 0) {
+    sections.push(`### Improvements\n${analysis.improvements.map(i => `- ${i}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Render a repository analysis. Catalog IDs are shown when `links` is given
+ * (the CLI runs without a database).
+ */
+export function formatRepositoryAnalysisResult(
+  result: RepositoryAnalysisResult,
+  links?: Map<string, CatalogPatternRef>,
+  maxPatterns = 50
+): string {
+  const catalogRef = (name: string) => {
+    if (!links) return '';
+    const catalog = links.get(name);
+    return catalog ? ` [ID: ${catalog.id}]` : ' [not in catalog]';
+  };
+
+  const languages = Object.entries(result.languages)
+    .map(([language, count]) => `${language}: ${count}`)
+    .join(', ');
+
+  const patterns = result.patterns.slice(0, maxPatterns).map((p, index) => {
+    const location = p.location?.line !== undefined ? `:${formatLocation(p.location)}` : '';
+    return (
+      `${index + 1}. **${p.pattern}** (${p.category})${catalogRef(p.pattern)} — ` +
+      `${(p.confidence * 100).toFixed(0)}%\n   ${p.file}${location}`
+    );
+  });
+  if (result.patterns.length > maxPatterns) {
+    patterns.push(`... and ${result.patterns.length - maxPatterns} more`);
+  }
+
+  const antiPatterns = result.antiPatterns.map(a => {
+    const key = links?.has(a.catalogId) ? a.catalogId : a.pattern;
+    const lines = [
+      `- **${a.pattern}**${catalogRef(key)}: ${a.count} file(s) ` +
+        `(high: ${a.severity.high}, medium: ${a.severity.medium}, low: ${a.severity.low}) — ` +
+        a.files.slice(0, 5).join(', ') +
+        (a.files.length > 5 ? ', ...' : ''),
+    ];
+    if (a.evidence) {
+      lines.push(`   Evidence: ${formatEvidence(a.evidence)}`);
+    }
+    return [...lines, ...formatRefactorings(links?.get(key))].join('\n');
+  });
+
+  const modules = result.modules
+    .filter(m => m.suggestions.length > 0 || m.patterns.length > 0)
+    .map(m => {
+      const lines = [`#### ${m.module} (${m.files} file(s))`];
+      if (m.patterns.length > 0) {
+        lines.push(`Uses: ${m.patterns.join(', ')}`);
+      }
+      for (const suggestion of m.suggestions) {
+        lines.push(
+          `- Consider **${suggestion.pattern}**${catalogRef(suggestion.pattern)} — ` +
+            `${suggestion.reason} (${suggestion.files.length} file(s))`
+        );
+      }
+      return lines.join('\n');
+    });
+
+  return [
+    `## Repository Analysis`,
+    `Root: ${result.root}\n` +
+      `Files analyzed: ${result.filesAnalyzed} (skipped: ${result.filesSkipped})\n` +
+      `Languages: ${languages || 'none'}\n` +
+      `Symbols indexed: ${result.symbols.length}`,
+    `### Detected Patterns (${result.patterns.length})\n` +
+      (patterns.length > 0 ? patterns.join('\n') : 'No design patterns detected.'),
+    `### Anti-Patterns (${antiPatterns.length})\n` +
+      (antiPatterns.length > 0 ? antiPatterns.join('\n') : 'No anti-patterns detected.'),
+    `### Module Suggestions\n` + (modules.length > 0 ? modules.join('\n\n') : 'No suggestions.'),
+  ].join('\n\n');
+}
+
+export function formatRefactoringPlan(plan: RefactoringPlan): string {
+  const { targetPattern } = plan;
+  const source = plan.generatedBy === 'llm' ? 'catalog + LLM' : 'catalog';
+
+  const steps = plan.steps.map(step => {
+    const symbols = step.symbols.length > 0 ? `\n   Symbols: ${step.symbols.join(', ')}` : '';
+    return `${step.order}. **${step.title}** — ${step.detail}${symbols}`;
+  });
+
+  const symbols = plan.affectedSymbols.map(symbol => {
+    const line = symbol.line !== undefined ? `, line ${symbol.line}` : '';
+    return `- \`${symbol.name}\` (${symbol.kind}${line}) — ${symbol.reason}`;
+  });
+
+  const sections = [
+    `## Refactoring Plan: ${targetPattern.name} [ID: ${targetPattern.id}]`,
+    `${plan.summary}\n` +
+      `Language: ${plan.language} | Category: ${targetPattern.category} | Source: ${source}`,
+  ];
+
+  if (plan.addressedAntiPatterns.length > 0) {
+    sections.push(
+      `### Addresses\n` +
+        plan.addressedAntiPatterns
+          .map(a => `- **${a.pattern}** [ID: ${a.catalogId}] (severity: ${a.severity})`)
+          .join('\n')
+    );
+  }
+
+  sections.push(
+    `### Steps\n${steps.join('\n')}`,
+    `### Affected Symbols (${symbols.length})\n` +
+      (symbols.length > 0 ? symbols.join('\n') : 'No symbols identified.'),
+    `### Risks\n` +
+      (plan.risks.length > 0 ? plan.risks.map(r => `- ${r}`).join('\n') : 'None noted.'),
+    `### Test Scenarios\n${plan.testScenarios.map(t => `- ${t}`).join('\n')}`
+  );
+
+  for (const [label, example] of [
+    ['Before', plan.before],
+    ['After', plan.after],
+  ] as const) {
+    if (example) {
+      sections.push(
+        `### ${label} (${example.language})\n` +
+          (example.description ? `${example.description}\n\n` : '') +
+          `\`\`\`${example.language}\n${example.code}\n\`\`\``
+      );
+    }
+  }
+
+  return sections.join('\n\n');
+}
+
+export function formatPatternCompositionReport(report: PatternCompositionReport): string {
+  const { composition, sequence } = report;
+  const ref = (id: string) => `**${report.names.get(id) ?? id}** [ID: ${id}]`;
+
+  const sections = [
+    `## Pattern Composition: ${report.patterns.map(p => p.name).join(' + ') || 'none'}`,
+    `Score: ${Math.round(composition.score)}/100 | Valid: ${composition.isValid ? 'yes' : 'no'}` +
+      ` | Sequence: ${sequence.isValid ? 'ok' : 'missing prerequisites'}`,
+  ];
+
+  if (report.unknownIds.length > 0) {
+    sections.push(`Unknown pattern IDs: ${report.unknownIds.join(', ')}`);
+  }
+
+  if (composition.violations.length > 0) {
+    sections.push(
+      `### Conflicts\n` +
+        composition.violations
+          .map(v => `- [${v.severity}] ${v.description}\n   ${v.suggestion}`)
+          .join('\n')
+    );
+  }
+
+  if (sequence.errors.length > 0 || sequence.suggestions.length > 0) {
+    sections.push(
+      `### Sequence\n` + [...sequence.errors, ...sequence.suggestions].map(l => `- ${l}`).join('\n')
+    );
+  }
+
+  if (composition.synergies.length > 0) {
+    sections.push(
+      `### Synergies\n` +
+        composition.synergies
+          .map(s => `- ${s.patterns.map(ref).join(' + ')} — ${s.benefit}`)
+          .join('\n')
+    );
+  }
+
+  if (composition.compatibility.length > 0) {
+    sections.push(
+      `### Compatibility\n` +
+        composition.compatibility
+          .map(c => `- ${c.patterns.map(ref).join(' ↔ ')}: ${(c.score * 100).toFixed(0)}%`)
+          .join('\n')
+    );
+  }
+
+  if (composition.recommendations.length > 0) {
+    sections.push(
+      `### Consider Adding\n` +
+        composition.recommendations
+          .map(r => `- ${ref(r.pattern)} — ${r.reason} (confidence: ${r.confidence.toFixed(2)})`)
+          .join('\n')
+    );
+  }
+
+  const notes = [
+    ...report.antiPatterns.map(
+      a => `- [${a.severity}] ${a.antiPattern}: ${a.description}. ${a.fix}`
+    ),
+    ...composition.warnings.map(
+      w => `- [${w.severity}] ${w.pattern}: ${w.warning}. ${w.mitigation}`
+    ),
+  ];
+  if (notes.length > 0) {
+    sections.push(`### Warnings\n${notes.join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function formatRelationshipList(
+  relationships: RelationshipWithPatterns[],
+  total: number,
+  patternId?: string
+): string {
+  const heading = `## Relationships${patternId ? ` of ${patternId}` : ''}`;
+  if (relationships.length === 0) {
+    return `${heading}\n\nNo relationships found.`;
+  }
+
+  const lines = relationships.map(
+    rel =>
+      `- **${rel.sourcePattern.name}** [ID: ${rel.sourcePattern.id}] ` +
+      `—${rel.type} (${rel.strength.toFixed(2)})→ ` +
+      `**${rel.targetPattern.name}** [ID: ${rel.targetPattern.id}]` +
+      (rel.description ? `\n   ${rel.description}` : '') +
+      `\n   Relationship ID: ${rel.id}`
+  );
+
+  return `${heading}\n\nShowing ${relationships.length} of ${total}\n\n${lines.join('\n')}`;
+}
+
+export function formatRelationshipChange(
+  action: 'Created' | 'Updated' | 'Deleted',
+  relationship: Relationship,
+  integrity: IntegrityCheckResult
+): string {
+  return [
+    `## ${action} relationship ${relationship.id}`,
+    `${relationship.sourcePatternId} —${relationship.type} ` +
+      `(${relationship.strength.toFixed(2)})→ ${relationship.targetPatternId}`,
+    relationship.description,
+    `Integrity check: ${integrity.totalRelationships} relationships, ` +
+      `${integrity.brokenReferences.length} broken references, ` +
+      `${integrity.duplicateRelationships.length} duplicates`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export function formatPatternPathResult(result: PatternPathResult): string {
+  const name = (id: string) => `**${result.names.get(id) ?? id}** [ID: ${id}]`;
+  const { sourcePatternId, targetPatternId } = result;
+  const heading = `## Path: ${result.names.get(sourcePatternId) ?? sourcePatternId} → ${
+    result.names.get(targetPatternId) ?? targetPatternId
+  }`;
+
+  if (result.unknownIds.length > 0) {
+    return `${heading}\n\nUnknown pattern IDs: ${result.unknownIds.join(', ')}`;
+  }
+
+  const formatPath = (title: string, path: PatternPath) => {
+    const hops = path.hops.map((hop, index) => {
+      const label = describeHop(hop);
+      const edge =
+        hop.kind === 'relationship' && hop.direction === 'reverse'
+          ? `←${label}—`
+          : hop.kind === 'relationship'
+            ? `—${label}→`
+            : `~${label}~`;
+      const description =
+        hop.kind === 'relationship' && hop.description ? `\n   ${hop.description}` : '';
+      return `${index + 1}. ${name(hop.from)} ${edge} ${name(hop.to)}${description}`;
+    });
+    const count = `${path.hops.length} hop${path.hops.length === 1 ? '' : 's'}`;
+    return `### ${title} (${count}, score ${path.score.toFixed(2)})\n${hops.join('\n')}`;
+  };
+
+  const sections = [heading];
+  if (!result.shortest || !result.strongest) {
+    sections.push('No path found between these patterns within the hop limit.');
+  } else if (result.shortest.patternIds.join() === result.strongest.patternIds.join()) {
+    sections.push(formatPath('Shortest and strongest path', result.shortest));
+  } else {
+    sections.push(formatPath('Shortest path', result.shortest));
+    sections.push(formatPath('Strongest path', result.strongest));
+  }
+  sections.push(
+    'Legend: —type→ catalog relationship, ←type— relationship walked in reverse, ' +
+      '~similarity~ embedding/metadata neighbour'
+  );
+  if (result.explanation) {
+    sections.push(`### Explanation\n${result.explanation.trim()}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function formatRelationshipSuggestions(
+  suggestions: RelationshipSuggestion[],
+  filters: SuggestionFilters
+): string {
+  const heading =
+    `## ${filters.status ? `${filters.status[0].toUpperCase()}${filters.status.slice(1)} ` : ''}` +
+    `relationship suggestions${filters.patternId ? ` for ${filters.patternId}` : ''}`;
+  if (suggestions.length === 0) {
+    return `${heading}\n\nNo suggestions found. Run \`infer-relationships\` to generate them.`;
+  }
+
+  const lines = suggestions.map(
+    suggestion =>
+      `- **${suggestion.sourceName}** [ID: ${suggestion.sourcePatternId}] ` +
+      `—${suggestion.type}→ **${suggestion.targetName}** [ID: ${suggestion.targetPatternId}] ` +
+      `(confidence ${suggestion.confidence.toFixed(2)}, ` +
+      `signals: ${suggestion.signals.join(', ')})` +
+      suggestion.evidence.map(evidence => `\n   - ${evidence}`).join('') +
+      `\n   Suggestion ID: ${suggestion.id}`
+  );
+
+  return `${heading}\n\n${lines.join('\n')}`;
+}
+
+export function formatSuggestionReview(
+  suggestion: RelationshipSuggestion,
+  relationship?: Relationship,
+  integrity?: IntegrityCheckResult
+): string {
+  const heading =
+    `## Suggestion ${suggestion.id} ${suggestion.status}\n\n` +
+    `${suggestion.sourcePatternId} —${suggestion.type}→ ${suggestion.targetPatternId} ` +
+    `(confidence ${suggestion.confidence.toFixed(2)})`;
+
+  return relationship && integrity
+    ? `${heading}\n\n${formatRelationshipChange('Created', relationship, integrity)}`
+    : heading;
+}
+
+export function formatPatternUpdate(
+  pattern: { id: string; name: string },
+  changedFields: string[]
+): string {
+  return (
+    `## Updated pattern ${pattern.name} [ID: ${pattern.id}]\n\n` +
+    `Changed fields: ${changedFields.join(', ')}\n\n` +
+    'Catalog files are not modified: reseeding from them restores their values.'
+  );
+}
+
+export function formatDeduplicationReport(report: DeduplicationReport, limit = 50): string {
+  const heading =
+    `## Catalog duplicates\n\n${report.definitions} definitions of ${report.patterns} ` +
+    `patterns in ${report.files} files: ${report.proposals.length} merge proposals`;
+  if (report.proposals.length === 0) {
+    return `${heading}\n\nNo duplicates found.`;
+  }
+
+  const lines = report.proposals.slice(0, limit).map(proposal => {
+    const duplicates = proposal.duplicates.map(
+      duplicate =>
+        `\n   - ${duplicate.id} in ${duplicate.file} (confidence ` +
+        `${duplicate.confidence.toFixed(2)}, signals: ${duplicate.signals.join(', ')}): ` +
+        duplicate.evidence.join('; ')
+    );
+    const conflicts = proposal.conflicts.map(
+      conflict => `${conflict.field} (${conflict.resolution})`
+    );
+    return (
+      `- **${proposal.canonical.name}** [ID: ${proposal.canonical.id}] ` +
+      `in ${proposal.canonical.file}${duplicates.join('')}` +
+      (conflicts.length > 0 ? `\n   Conflicts: ${conflicts.join(', ')}` : '') +
+      (proposal.aliases.length > 0 ? `\n   Aliases: ${proposal.aliases.join(', ')}` : '')
+    );
+  });
+  const more =
+    report.proposals.length > limit
+      ? `\n\n…and ${report.proposals.length - limit} more proposals`
+      : '';
+
+  return `${heading}\n\n${lines.join('\n')}${more}`;
 }
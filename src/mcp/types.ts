@@ -21,6 +21,10 @@ export interface PatternRow {
   tags?: string;
   examples?: string;
   created_at?: string;
+  /** Catalog that defined the pattern ("builtin" or an overlay namespace) */
+  source?: string;
+  /** JSON object mapping overridden fields to the overlay that supplied them */
+  provenance?: string | null;
 }
 
 export interface PatternExample {
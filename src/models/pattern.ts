@@ -85,4 +85,15 @@ export interface Pattern {
    metadata?: Record<string, unknown>;
 }
 
-
+/**
+ * Pattern directory layered over the built-in catalog; `namespace` is recorded as the
+ * source of the patterns and fields it contributes
+ */
+export interface PatternCatalogSource {
+  /** Directory with JSON and Markdown pattern files */
+  path: string;
+  /** Lowercase slug such as "acme" ("builtin" names the built-in catalog) */
+  namespace: string;
+  /** Higher priorities override lower ones; the built-in catalog has priority 0 (default 100) */
+  priority?: number;
+}
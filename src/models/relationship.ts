@@ -15,6 +15,19 @@ export type RelationshipType =
   | 'prerequisite'
   | 'successor';
 
+export const RELATIONSHIP_TYPES: readonly RelationshipType[] = [
+  'related',
+  'extends',
+  'implements',
+  'uses',
+  'similar',
+  'alternative',
+  'complements',
+  'conflicts',
+  'prerequisite',
+  'successor',
+];
+
 export interface Relationship {
   /** Unique relationship identifier */
   id: string;
@@ -5,6 +5,20 @@
 
 export type EmbeddingModel = 'all-MiniLM-L6-v2' | 'all-MiniLM-L12-v2' | 'all-mpnet-base-v2' | 'text-embedding-ada-002' | 'custom';
 
+/**
+ * Embedding model known to the model registry; `name` is the key stored in
+ * pattern_embeddings.model, so several models can keep embeddings side by side
+ */
+export interface EmbeddingModelSpec {
+  name: string;
+  provider: 'transformers' | 'ollama' | 'simple-hash';
+  dimensions: number;
+  /** Hugging Face model ID or a directory below the local model cache (Ollama: model tag) */
+  modelPath?: string;
+  pooling?: 'mean' | 'cls';
+  normalize?: boolean;
+}
+
 export type VectorSearchStrategy = 'cosine' | 'euclidean' | 'dot_product';
 
 export interface VectorSearchFilters {
@@ -13,6 +27,8 @@ export interface VectorSearchFilters {
   categories?: string[];
   complexity?: string;
   tags?: string[];
+  /** Catalog sources (namespaces) that defined or overrode the pattern */
+  sources?: string[];
   minScore?: number;
   maxResults?: number;
   minUsageCount?: number;
@@ -130,8 +130,10 @@ class KnowledgeDistillationTrainer {
 
 /**
  * Product Quantization (PQ) for extreme compression
+ * Codes can be scored directly against a query through per-query lookup tables
+ * (asymmetric distance computation) without decompressing them.
  */
-class ProductQuantizer {
+export class ProductQuantizer {
   private numClusters: number;
   private numSubvectors: number;
 
@@ -213,6 +215,45 @@ class ProductQuantizer {
     return { codes, reconstructed };
   }
 
+  /**
+   * Codes of the nearest centroid in each subspace (at most 256 centroids per codebook)
+   */
+  encode(embedding: number[], codebooks: number[][][]): Uint8Array {
+    return Uint8Array.from(this.quantize(embedding, codebooks).codes);
+  }
+
+  /**
+   * Asymmetric distance lookup table: the inner product of each query subvector with every
+   * centroid of its subspace, so the score of a code is a sum of one entry per subspace
+   */
+  createLookupTable(query: number[], codebooks: number[][][]): Float32Array[] {
+    const subvectorDim = Math.floor(query.length / this.numSubvectors);
+
+    return codebooks.map((codebook, s) => {
+      const start = s * subvectorDim;
+      const table = new Float32Array(codebook.length);
+      codebook.forEach((centroid, c) => {
+        let dot = 0;
+        for (let i = 0; i < centroid.length; i++) {
+          dot += centroid[i] * query[start + i];
+        }
+        table[c] = dot;
+      });
+      return table;
+    });
+  }
+
+  /**
+   * Approximate inner product of the query (through its lookup table) and an encoded vector
+   */
+  scoreCodes(codes: Uint8Array, table: Float32Array[]): number {
+    let score = 0;
+    for (let s = 0; s < codes.length; s++) {
+      score += table[s][codes[s]];
+    }
+    return score;
+  }
+
   /**
    * Simple k-means clustering
    */
@@ -0,0 +1,683 @@
+/**
+ * Anti-Pattern Detector
+ * Measures source code (method/field counts, fan-out, cyclomatic complexity,
+ * nesting, duplication, exception handling) and reports findings keyed by the
+ * catalog's Anti-Pattern IDs, each with the evidence that triggered it.
+ */
+
+import type { PatternLocation } from './pattern-analyzer.js';
+import {
+  C_STYLE_SYNTAX,
+  PYTHON_SYNTAX,
+  indentedBlockEnd,
+  locate,
+  maskSource,
+  splitTopLevel,
+} from './pattern-detectors/source-scanner.js';
+
+export type AntiPatternSeverity = 'low' | 'medium' | 'high';
+
+export interface AntiPatternEvidence {
+  metric: string;
+  value: number;
+  threshold: number;
+  /** Symbol the metric was measured on (class, function or module) */
+  scope?: string;
+}
+
+export interface AntiPatternFinding {
+  pattern: string;
+  /** ID of the matching entry in the catalog's Anti-Pattern category */
+  catalogId: string;
+  reason: string;
+  severity: AntiPatternSeverity;
+  evidence: AntiPatternEvidence[];
+  location?: PatternLocation;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  /** Enclosing class, struct or impl (Go receivers and Rust impls included) */
+  owner?: string;
+  parameters: string[];
+  complexity: number;
+  /** Member accesses per parameter (`param.x`) */
+  parameterAccesses: Record<string, number>;
+  /** `this.x` / `self.x` accesses */
+  ownAccesses: number;
+  start: number;
+  end: number;
+}
+
+export interface ClassMetrics {
+  name: string;
+  methods: number;
+  fields: number;
+  lines: number;
+  start: number;
+  end: number;
+}
+
+export interface CodeMetrics {
+  functions: FunctionMetrics[];
+  classes: ClassMetrics[];
+  /** Distinct imported modules/packages */
+  dependencies: string[];
+  maxNesting: number;
+  duplicateBlocks: string[];
+  tryBlocks: number;
+  emptyCatches: number;
+  commentedOutLines: number;
+}
+
+export const ANTI_PATTERN_THRESHOLDS = {
+  methods: 20,
+  fields: 15,
+  fanOut: 15,
+  complexity: 10,
+  nesting: 5,
+  foreignAccesses: 6,
+  commentedOutLines: 5,
+} as const;
+
+const PYTHON_LANGUAGES = new Set(['python', 'py']);
+const GO_LANGUAGES = new Set(['go', 'golang']);
+
+/** Words that precede `(` in control flow rather than function declarations */
+const NON_FUNCTION_WORDS = new Set([
+  'if',
+  'for',
+  'foreach',
+  'while',
+  'switch',
+  'catch',
+  'with',
+  'using',
+  'lock',
+  'synchronized',
+  'return',
+  'function',
+  'fixed',
+  'when',
+  'base',
+  'this',
+  'super',
+  'new',
+  'typeof',
+  'sizeof',
+]);
+
+const FUNCTION_HEAD =
+  /(\w+)\s*(?:<[^<>]*>)?\s*\(([^()]*(?:\([^()]*\)[^()]*)*)\)\s*(?::\s*[^{}=;]+|->\s*[^{};]+|throws\s+[^{};]+)?$/;
+const ARROW_HEAD = /(\w+)\s*=\s*(?:async\s*)?(?:\(([^()]*)\)|(\w+))\s*(?::\s*[^=]+)?=>\s*$/;
+const GO_FUNC_HEAD = /\bfunc\s*(?:\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*)?(\w+)\s*\(([^)]*)\)[^{]*$/;
+const CLASS_HEAD =
+  /\b(?:class|struct|record|object|impl(?:\s*<[^>]*>)?(?:\s+[\w:<>]+\s+for)?)\s+(\w+)[^{;]*$/;
+const GO_STRUCT_HEAD = /\btype\s+(\w+)\s+struct\s*$/;
+const DECISION_POINTS = /\b(?:if|elif|for|foreach|while|case|catch|except)\b|&&|\|\||\?(?![.?:])/g;
+const PYTHON_BOOLEAN_OPERATORS = /\b(?:and|or)\b/g;
+const PYTHON_DEF = /^([ \t]*)(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)[^:\n]*:/gm;
+
+/** Comment bodies that read like statements rather than prose */
+const CODE_LIKE_COMMENTS = [
+  /[;{}]\s*$/,
+  /^(?:if|for|while|return|const|let|var|def|import|from|print)\b/,
+  /^[\w.[\]]+\(.*\)\s*;?$/,
+  /^[\w.[\]]+\s*=[^=]/,
+];
+
+const DEPENDENCY_PATTERNS = [
+  /^\s*import\b[^'"\n]*?\bfrom\s+['"]([^'"]+)['"]/gm,
+  /^\s*import\s+['"]([^'"]+)['"]/gm,
+  /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /^\s*from\s+([\w.]+)\s+import\b/gm,
+  /^\s*import\s+(?:static\s+)?([\w.]+)\s*;?\s*$/gm,
+  /^\s*using\s+(?:static\s+)?([\w.]+)\s*;/gm,
+  /^\s*use\s+([\w:]+)/gm,
+  /^\s*#include\s*[<"]([^>"]+)[>"]/gm,
+];
+
+interface Frame {
+  kind: 'class' | 'function' | 'block';
+  name: string;
+  owner?: string;
+  parameters: string[];
+  start: number;
+  open: number;
+}
+
+export class AntiPatternDetector {
+  /**
+   * Detect anti-patterns in a snippet or file
+   */
+  detect(code: string, language: string): AntiPatternFinding[] {
+    const metrics = this.measure(code, language);
+
+    return [
+      ...this.detectGodObjects(code, metrics),
+      ...this.detectSpaghettiCode(code, metrics),
+      ...this.detectCopyPaste(metrics),
+      ...this.detectFeatureEnvy(code, metrics),
+      ...this.detectProgrammingByException(metrics),
+      ...this.detectLavaFlow(metrics),
+    ];
+  }
+
+  /**
+   * Compute the structural metrics the findings are based on
+   */
+  measure(code: string, language: string): CodeMetrics {
+    const lang = language.toLowerCase();
+    const python = PYTHON_LANGUAGES.has(lang);
+    const masked = maskSource(code, python ? PYTHON_SYNTAX : C_STYLE_SYNTAX);
+    const structure = python
+      ? this.measurePythonStructure(masked)
+      : this.measureBraceStructure(masked, GO_LANGUAGES.has(lang));
+
+    return {
+      ...structure,
+      dependencies: this.findDependencies(code),
+      duplicateBlocks: this.findDuplicateBlocks(code),
+      tryBlocks: (masked.match(/\btry\s*[{:]/g) ?? []).length,
+      emptyCatches: python
+        ? (masked.match(/\bexcept\b[^:\n]*:\s*\n\s*pass\b/g) ?? []).length
+        : (masked.match(/\bcatch\s*(?:\([^)]*\))?\s*\{\s*\}/g) ?? []).length,
+      commentedOutLines: this.countCommentedOutLines(code, python),
+    };
+  }
+
+  /**
+   * God Object: classes (or modules) with too many methods or fields; fan-out is
+   * reported alongside as coupling evidence
+   */
+  private detectGodObjects(code: string, metrics: CodeMetrics): AntiPatternFinding[] {
+    const findings: AntiPatternFinding[] = [];
+    const { methods, fields, fanOut } = ANTI_PATTERN_THRESHOLDS;
+    const fanOutEvidence: AntiPatternEvidence[] =
+      metrics.dependencies.length > fanOut
+        ? [{ metric: 'fanOut', value: metrics.dependencies.length, threshold: fanOut }]
+        : [];
+
+    for (const cls of metrics.classes) {
+      const tooManyMethods = cls.methods > methods;
+      const tooManyFields = cls.fields > fields;
+      const coupled = fanOutEvidence.length > 0 && cls.methods > methods / 2;
+      if (!tooManyMethods && !tooManyFields && !coupled) continue;
+
+      findings.push({
+        pattern: 'God Object',
+        catalogId: 'god-object',
+        reason:
+          `${cls.name} has ${cls.methods} methods and ${cls.fields} fields` +
+          (fanOutEvidence.length > 0 ? ` with ${metrics.dependencies.length} dependencies` : '') +
+          ' - consider splitting responsibilities',
+        severity: tooManyMethods || cls.fields > fields * 2 ? 'high' : 'medium',
+        evidence: [
+          { metric: 'methods', value: cls.methods, threshold: methods, scope: cls.name },
+          { metric: 'fields', value: cls.fields, threshold: fields, scope: cls.name },
+          ...fanOutEvidence,
+        ],
+        location: locate(code, cls.start, cls.end),
+      });
+    }
+
+    // Modules without classes can still accumulate unrelated responsibilities
+    const free = metrics.functions.filter(fn => !fn.owner);
+    if (metrics.classes.length === 0 && free.length > methods) {
+      findings.push({
+        pattern: 'God Object',
+        catalogId: 'god-object',
+        reason: `Module defines ${free.length} functions - consider splitting responsibilities`,
+        severity: 'medium',
+        evidence: [
+          { metric: 'functions', value: free.length, threshold: methods, scope: 'module' },
+          ...fanOutEvidence,
+        ],
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Spaghetti Code: deeply nested control flow or functions with high cyclomatic complexity
+   */
+  private detectSpaghettiCode(code: string, metrics: CodeMetrics): AntiPatternFinding[] {
+    const { complexity, nesting } = ANTI_PATTERN_THRESHOLDS;
+    const complex = metrics.functions
+      .filter(fn => fn.complexity > complexity)
+      .sort((a, b) => b.complexity - a.complexity);
+    if (metrics.maxNesting <= nesting && complex.length === 0) return [];
+
+    const evidence: AntiPatternEvidence[] = [];
+    const reasons: string[] = [];
+    if (metrics.maxNesting > nesting) {
+      evidence.push({ metric: 'maxNesting', value: metrics.maxNesting, threshold: nesting });
+      reasons.push(`nesting level of ${metrics.maxNesting}`);
+    }
+    for (const fn of complex.slice(0, 3)) {
+      evidence.push({
+        metric: 'cyclomaticComplexity',
+        value: fn.complexity,
+        threshold: complexity,
+        scope: fn.owner ? `${fn.owner}.${fn.name}` : fn.name,
+      });
+    }
+    if (complex.length > 0) {
+      reasons.push(`cyclomatic complexity ${complex[0].complexity} in ${complex[0].name}()`);
+    }
+
+    const severe =
+      metrics.maxNesting > nesting + 2 || (complex[0]?.complexity ?? 0) > complexity * 2;
+    return [
+      {
+        pattern: 'Spaghetti Code',
+        catalogId: 'spaghetti-code',
+        reason: `Code has ${reasons.join(' and ')} - consider refactoring to reduce complexity`,
+        severity: severe ? 'high' : 'medium',
+        evidence,
+        location: complex[0] ? locate(code, complex[0].start, complex[0].end) : undefined,
+      },
+    ];
+  }
+
+  /**
+   * Copy-Paste Programming: repeated blocks of consecutive lines
+   */
+  private detectCopyPaste(metrics: CodeMetrics): AntiPatternFinding[] {
+    const duplicates = metrics.duplicateBlocks.length;
+    if (duplicates === 0) return [];
+
+    return [
+      {
+        pattern: 'Copy-Paste Programming',
+        catalogId: 'copy-paste-programming',
+        reason:
+          `Found ${duplicates} duplicate code blocks - ` +
+          'consider extracting common functionality',
+        severity: duplicates > 3 ? 'high' : 'medium',
+        evidence: [{ metric: 'duplicateBlocks', value: duplicates, threshold: 0 }],
+      },
+    ];
+  }
+
+  /**
+   * Feature Envy: methods that use a parameter's members far more than their own
+   */
+  private detectFeatureEnvy(code: string, metrics: CodeMetrics): AntiPatternFinding[] {
+    const findings: AntiPatternFinding[] = [];
+    const threshold = ANTI_PATTERN_THRESHOLDS.foreignAccesses;
+
+    for (const fn of metrics.functions.filter(f => f.owner)) {
+      const [envied, accesses] = Object.entries(fn.parameterAccesses).sort(
+        (a, b) => b[1] - a[1]
+      )[0] ?? ['', 0];
+      if (accesses < threshold || accesses <= fn.ownAccesses * 2) continue;
+
+      const scope = `${fn.owner}.${fn.name}`;
+      findings.push({
+        pattern: 'Feature Envy',
+        catalogId: 'feature-envy',
+        reason:
+          `${scope}() accesses ${envied} ${accesses} times but its own state ` +
+          `${fn.ownAccesses} times - consider moving the behaviour`,
+        severity: 'medium',
+        evidence: [
+          { metric: 'foreignAccesses', value: accesses, threshold, scope },
+          { metric: 'ownAccesses', value: fn.ownAccesses, threshold: accesses / 2, scope },
+        ],
+        location: locate(code, fn.start, fn.end),
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Programming by Exception: swallowed exceptions used as control flow
+   */
+  private detectProgrammingByException(metrics: CodeMetrics): AntiPatternFinding[] {
+    if (metrics.emptyCatches === 0) return [];
+
+    return [
+      {
+        pattern: 'Programming by Exception',
+        catalogId: 'programming-by-exception',
+        reason: `${metrics.emptyCatches} exception handler(s) silently swallow errors`,
+        severity: metrics.emptyCatches > 2 ? 'medium' : 'low',
+        evidence: [
+          { metric: 'emptyCatches', value: metrics.emptyCatches, threshold: 0 },
+          { metric: 'tryBlocks', value: metrics.tryBlocks, threshold: 0 },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Lava Flow: commented-out code left behind
+   */
+  private detectLavaFlow(metrics: CodeMetrics): AntiPatternFinding[] {
+    const threshold = ANTI_PATTERN_THRESHOLDS.commentedOutLines;
+    if (metrics.commentedOutLines < threshold) return [];
+
+    return [
+      {
+        pattern: 'Lava Flow',
+        catalogId: 'lava-flow',
+        reason:
+          `${metrics.commentedOutLines} lines of commented-out code - ` +
+          'delete dead code instead of keeping it around',
+        severity: metrics.commentedOutLines >= threshold * 3 ? 'medium' : 'low',
+        evidence: [{ metric: 'commentedOutLines', value: metrics.commentedOutLines, threshold }],
+      },
+    ];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Measurement
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Single pass over brace-delimited source tracking class/function frames
+   */
+  private measureBraceStructure(
+    masked: string,
+    go: boolean
+  ): Pick<CodeMetrics, 'functions' | 'classes' | 'maxNesting'> {
+    const functions: FunctionMetrics[] = [];
+    const classes = new Map<string, ClassMetrics>();
+    const stack: Frame[] = [];
+    let boundary = 0;
+    let maxNesting = 0;
+
+    for (let i = 0; i < masked.length; i++) {
+      const char = masked[i];
+      if (char === ';') {
+        boundary = i + 1;
+      } else if (char === '{') {
+        const head = masked.slice(boundary, i).trim();
+        const parent = stack[stack.length - 1];
+        stack.push(this.classifyFrame(head, masked, boundary, i, parent, go));
+        maxNesting = Math.max(maxNesting, stack.length);
+        boundary = i + 1;
+      } else if (char === '}') {
+        const frame = stack.pop();
+        boundary = i + 1;
+        if (!frame) continue;
+
+        const body = masked.slice(frame.open + 1, i);
+        if (frame.kind === 'function') {
+          functions.push(this.functionMetrics(frame, body, i + 1, false));
+        } else if (frame.kind === 'class') {
+          this.mergeClass(classes, {
+            name: frame.name,
+            methods: 0,
+            fields: this.countFields(body, false),
+            lines: body.split('\n').length,
+            start: frame.start,
+            end: i + 1,
+          });
+        }
+      }
+    }
+
+    return { functions, classes: this.withMethodCounts(classes, functions), maxNesting };
+  }
+
+  private classifyFrame(
+    head: string,
+    masked: string,
+    headStart: number,
+    open: number,
+    parent: Frame | undefined,
+    go: boolean
+  ): Frame {
+    const text = masked.slice(headStart, open);
+    const start = headStart + (text.length - text.trimStart().length);
+    const frame = (
+      kind: Frame['kind'],
+      name: string,
+      parameters: string[] = [],
+      owner?: string
+    ): Frame => ({ kind, name, owner, parameters, start, open });
+    const enclosingClass = parent?.kind === 'class' ? parent.name : undefined;
+
+    const classHead = CLASS_HEAD.exec(head) ?? GO_STRUCT_HEAD.exec(head);
+    if (classHead) return frame('class', classHead[1]);
+
+    if (go) {
+      const goFunc = GO_FUNC_HEAD.exec(head);
+      if (goFunc) {
+        return frame('function', goFunc[2], this.parameterNames(goFunc[3], true), goFunc[1]);
+      }
+    }
+
+    const arrow = ARROW_HEAD.exec(head);
+    if (arrow) {
+      const parameters = arrow[2] !== undefined ? this.parameterNames(arrow[2], false) : [arrow[3]];
+      return frame('function', arrow[1], parameters, enclosingClass);
+    }
+
+    const fn = FUNCTION_HEAD.exec(head);
+    if (fn && !NON_FUNCTION_WORDS.has(fn[1])) {
+      return frame('function', fn[1], this.parameterNames(fn[2], false), enclosingClass);
+    }
+
+    return frame('block', '');
+  }
+
+  private measurePythonStructure(
+    masked: string
+  ): Pick<CodeMetrics, 'functions' | 'classes' | 'maxNesting'> {
+    const classes = new Map<string, ClassMetrics>();
+    const classRanges: Array<{ name: string; start: number; end: number; indent: number }> = [];
+
+    for (const header of masked.matchAll(/^([ \t]*)class\s+(\w+)[^:\n]*:/gm)) {
+      const start = (header.index ?? 0) + header[1].length;
+      const end = indentedBlockEnd(masked, header.index ?? 0);
+      const body = masked.slice(start, end);
+      classRanges.push({ name: header[2], start, end, indent: header[1].length });
+      this.mergeClass(classes, {
+        name: header[2],
+        methods: 0,
+        fields: this.countFields(body, true),
+        lines: body.split('\n').length,
+        start,
+        end,
+      });
+    }
+
+    const functions: FunctionMetrics[] = [];
+    for (const header of masked.matchAll(PYTHON_DEF)) {
+      const indent = header[1].length;
+      const start = (header.index ?? 0) + indent;
+      const end = indentedBlockEnd(masked, header.index ?? 0);
+      const owner = classRanges
+        .filter(cls => start > cls.start && start < cls.end && indent > cls.indent)
+        .sort((a, b) => b.indent - a.indent)[0];
+      const directMethod =
+        owner !== undefined &&
+        !functions.some(fn => fn.owner === owner.name && start > fn.start && start < fn.end);
+
+      functions.push(
+        this.functionMetrics(
+          {
+            kind: 'function',
+            name: header[2],
+            owner: directMethod ? owner.name : undefined,
+            parameters: this.parameterNames(header[3], false).filter(
+              p => p !== 'self' && p !== 'cls'
+            ),
+            start,
+            open: start + header[0].length - indent,
+          },
+          masked.slice(start + header[0].length - indent, end),
+          end,
+          true
+        )
+      );
+    }
+
+    // Nesting in indentation units of the smallest indent used
+    const indents = [...masked.matchAll(/^([ \t]+)\S/gm)].map(match => match[1].length);
+    const unit = indents.length > 0 ? Math.min(...indents) : 0;
+    const maxNesting = unit > 0 ? Math.max(...indents.map(indent => Math.floor(indent / unit))) : 0;
+
+    return { functions, classes: this.withMethodCounts(classes, functions), maxNesting };
+  }
+
+  private functionMetrics(
+    frame: Frame,
+    body: string,
+    end: number,
+    python: boolean
+  ): FunctionMetrics {
+    const decisions =
+      (body.match(DECISION_POINTS) ?? []).length +
+      (python ? (body.match(PYTHON_BOOLEAN_OPERATORS) ?? []).length : 0);
+
+    const parameterAccesses: Record<string, number> = {};
+    for (const param of frame.parameters) {
+      const accesses = (body.match(new RegExp(`(?<![\\w.])${param}\\.\\w+`, 'g')) ?? []).length;
+      if (accesses > 0) parameterAccesses[param] = accesses;
+    }
+
+    return {
+      name: frame.name,
+      owner: frame.owner,
+      parameters: frame.parameters,
+      complexity: 1 + decisions,
+      parameterAccesses,
+      ownAccesses: (body.match(/\b(?:this|self)\.\w+/g) ?? []).length,
+      start: frame.start,
+      end,
+    };
+  }
+
+  /**
+   * Distinct fields: class-level declarations plus names assigned through this/self
+   */
+  private countFields(body: string, python: boolean): number {
+    const names = new Set<string>();
+
+    for (const match of body.matchAll(/\b(?:this|self)\.(\w+)\s*=(?!=)/g)) {
+      names.add(match[1]);
+    }
+
+    if (python) {
+      const indent = /^([ \t]+)\S/m.exec(body)?.[1] ?? '';
+      const classAttribute = new RegExp(`^${indent}(\\w+)\\s*(?::[^=\\n]+)?=(?!=)`, 'gm');
+      for (const match of body.matchAll(classAttribute)) {
+        names.add(match[1]);
+      }
+      return names.size;
+    }
+
+    // Drop nested blocks so only class-level declarations remain
+    let topLevel = '';
+    let depth = 0;
+    for (const char of body) {
+      if (char === '{') depth++;
+      if (depth === 0) topLevel += char;
+      if (char === '}') depth--;
+    }
+
+    for (const segment of topLevel.split(/[;\n]/)) {
+      const statement = segment.trim();
+      const declaration = statement.split('=')[0];
+      if (statement === '' || /^[@#[]/.test(statement) || /[()]/.test(declaration)) continue;
+      const name = /(\w+)\s*(?:[:?!][^:]*)?$/.exec(declaration.trim())?.[1];
+      if (name && !/^(return|break|continue|case|default|else)$/.test(name)) names.add(name);
+    }
+
+    return names.size;
+  }
+
+  private mergeClass(classes: Map<string, ClassMetrics>, metrics: ClassMetrics): void {
+    const existing = classes.get(metrics.name);
+    if (!existing) {
+      classes.set(metrics.name, metrics);
+      return;
+    }
+    // Rust impl blocks and Go receivers spread one type over several declarations
+    existing.fields += metrics.fields;
+    existing.lines += metrics.lines;
+  }
+
+  private withMethodCounts(
+    classes: Map<string, ClassMetrics>,
+    functions: FunctionMetrics[]
+  ): ClassMetrics[] {
+    for (const fn of functions) {
+      const cls = fn.owner ? classes.get(fn.owner) : undefined;
+      if (cls) cls.methods++;
+    }
+    return [...classes.values()];
+  }
+
+  /**
+   * Parameter names from a parameter list in TS/Python (`name: T`), Go (`name T`)
+   * or Java/C-style (`T name`) syntax
+   */
+  private parameterNames(list: string, go: boolean): string[] {
+    return splitTopLevel(list)
+      .map(param => param.replace(/=.*$/, '').replace(/[*&.]|\bmut\b|\bref\b|\bout\b/g, ' ').trim())
+      .map(param => {
+        if (param.includes(':')) return /(\w+)\s*\??\s*:/.exec(param)?.[1] ?? '';
+        const tokens = param.split(/\s+/).filter(token => /^\w+$/.test(token));
+        return (go ? tokens[0] : tokens[tokens.length - 1]) ?? '';
+      })
+      .filter(name => name !== '' && name !== 'self' && name !== 'this');
+  }
+
+  private findDependencies(code: string): string[] {
+    const dependencies = new Set<string>();
+    for (const pattern of DEPENDENCY_PATTERNS) {
+      for (const match of code.matchAll(pattern)) {
+        dependencies.add(match[1]);
+      }
+    }
+    // Go import blocks
+    for (const block of code.matchAll(/^import\s*\(([^)]*)\)/gm)) {
+      for (const match of block[1].matchAll(/"([^"]+)"/g)) {
+        dependencies.add(match[1]);
+      }
+    }
+    return [...dependencies];
+  }
+
+  /**
+   * Line comments whose content reads like code rather than prose
+   */
+  private countCommentedOutLines(code: string, python: boolean): number {
+    const marker = python ? /^\s*#(?![!])\s?(.*)$/ : /^\s*\/\/(?!\/)\s?(.*)$/;
+
+    return code.split('\n').filter(line => {
+      const comment = marker.exec(line)?.[1].trim();
+      return comment !== undefined && CODE_LIKE_COMMENTS.some(pattern => pattern.test(comment));
+    }).length;
+  }
+
+  /**
+   * Repeated windows of three consecutive non-trivial lines
+   */
+  private findDuplicateBlocks(code: string): string[] {
+    const lines = code
+      .split('\n')
+      .map(l => l.trim())
+      .filter(l => l.length > 10);
+    const duplicates: string[] = [];
+    const seen = new Map<string, number>();
+
+    for (let i = 0; i < lines.length - 3; i++) {
+      const block = lines.slice(i, i + 3).join('\n');
+      if (seen.has(block)) {
+        duplicates.push(block);
+      } else {
+        seen.set(block, i);
+      }
+    }
+
+    return [...new Set(duplicates)];
+  }
+}
@@ -0,0 +1,582 @@
+/**
+ * Catalog Deduplicator
+ * Finds near-duplicate pattern definitions in a catalog directory from four signals: an
+ * equivalent ID (backend-for-frontend / backends-for-frontends, or the same ID in two files),
+ * an equivalent name once qualifiers are dropped ("Adapter Pattern (Cloud Native)" / "Adapter"),
+ * embedding similarity and description overlap. Each group of duplicates becomes a merge
+ * proposal: a canonical pattern, field-level conflicts and the alsoKnownAs aliases that make
+ * lookups and search resolve the duplicates to the canonical pattern.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DatabaseManager } from './database-manager.js';
+import { logger } from './logger.js';
+import { parseMarkdownPattern } from './markdown-pattern-importer.js';
+import { aliasKey } from './pattern-aliases.js';
+import { isObject } from '../utils/type-guards.js';
+
+export type DuplicateSignal = 'id' | 'name' | 'embedding' | 'text';
+export type ConflictResolution = 'keep-canonical' | 'fill' | 'union';
+
+export interface DeduplicationOptions {
+  /** Minimum combined confidence for two patterns to be proposed as duplicates (default 0.8) */
+  minConfidence?: number;
+  /** Minimum cosine similarity for the embedding signal (default 0.9) */
+  similarityThreshold?: number;
+  /** Minimum description word overlap (Jaccard) for the text signal (default 0.5) */
+  textOverlapThreshold?: number;
+  /** Model whose embeddings are compared (default: the model with the most embeddings) */
+  embeddingModel?: string;
+}
+
+/**
+ * One pattern object as written in a catalog file
+ */
+export interface PatternDefinition {
+  id: string;
+  name: string;
+  file: string;
+  fields: Record<string, unknown>;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  name: string;
+  file: string;
+  confidence: number;
+  signals: DuplicateSignal[];
+  evidence: string[];
+}
+
+export interface FieldConflict {
+  field: string;
+  /** Non-empty values of the field, canonical definition first */
+  values: Array<{ id: string; file: string; value: unknown }>;
+  resolution: ConflictResolution;
+  /** Value the merged pattern takes */
+  merged: unknown;
+}
+
+export interface MergeProposal {
+  canonical: { id: string; name: string; file: string; alsoKnownAs: string[] };
+  duplicates: DuplicateMatch[];
+  conflicts: FieldConflict[];
+  /** Names and IDs to add to the canonical pattern's alsoKnownAs */
+  aliases: string[];
+}
+
+export interface DeduplicationReport {
+  files: number;
+  definitions: number;
+  /** Distinct pattern IDs */
+  patterns: number;
+  proposals: MergeProposal[];
+}
+
+/**
+ * Overlay catalog document adding the proposed aliases to each canonical pattern
+ */
+export interface AliasOverlay {
+  patterns: Array<{ id: string; alsoKnownAs: string[] }>;
+}
+
+interface PairCandidate {
+  a: string;
+  b: string;
+  scores: Map<DuplicateSignal, number>;
+  evidence: string[];
+}
+
+interface ScoredPair {
+  a: string;
+  b: string;
+  confidence: number;
+  signals: DuplicateSignal[];
+  evidence: string[];
+}
+
+const SIGNAL_WEIGHTS = {
+  id: 0.9,
+  name: 0.85,
+  maxEmbedding: 0.7,
+  maxText: 0.7,
+};
+
+/** Fields compared across the definitions of a merge proposal */
+const MERGED_FIELDS = [
+  'name',
+  'category',
+  'description',
+  'complexity',
+  'when_to_use',
+  'benefits',
+  'drawbacks',
+  'use_cases',
+  'tags',
+];
+
+/** Words that do not tell patterns apart in IDs and names */
+const QUALIFIER_WORDS = new Set(['pattern', 'patterns']);
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'that',
+  'this',
+  'from',
+  'into',
+  'their',
+  'its',
+  'are',
+  'can',
+  'each',
+  'when',
+  'which',
+  'without',
+]);
+
+export class CatalogDeduplicator {
+  /**
+   * @param db Database with pattern embeddings; without it the embedding signal is skipped
+   */
+  constructor(private readonly db?: DatabaseManager) {}
+
+  /**
+   * Analyze the catalog in a directory and propose merges, largest groups first
+   */
+  analyze(directory: string, options: DeduplicationOptions = {}): DeduplicationReport {
+    const { files, definitions } = loadCatalogDefinitions(directory);
+    const byId = new Map<string, PatternDefinition[]>();
+    for (const definition of definitions) {
+      byId.set(definition.id, [...(byId.get(definition.id) ?? []), definition]);
+    }
+    // The seeder keeps the first definition of an ID, so that one stands for the pattern
+    const primaries = [...byId.values()].map(group => group[0]);
+
+    const candidates = new Map<string, PairCandidate>();
+    const candidateFor = (a: string, b: string): PairCandidate => {
+      const key = pairKey(a, b);
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = { a: a < b ? a : b, b: a < b ? b : a, scores: new Map(), evidence: [] };
+        candidates.set(key, candidate);
+      }
+      return candidate;
+    };
+
+    this.addKeySignal(primaries, 'id', candidateFor);
+    this.addKeySignal(primaries, 'name', candidateFor);
+    this.addEmbeddingSignal(
+      new Set(byId.keys()),
+      candidateFor,
+      options.similarityThreshold ?? 0.9,
+      options.embeddingModel
+    );
+    this.addTextSignal(primaries, candidateFor, options.textOverlapThreshold ?? 0.5);
+
+    const minConfidence = options.minConfidence ?? 0.8;
+    const pairs = [...candidates.values()]
+      .map(toScoredPair)
+      .filter(pair => pair.confidence >= minConfidence);
+
+    // Group IDs connected by a proposed pair
+    const parent = new Map<string, string>([...byId.keys()].map(id => [id, id]));
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root) ?? root;
+      parent.set(id, root);
+      return root;
+    };
+    for (const pair of pairs) {
+      parent.set(find(pair.a), find(pair.b));
+    }
+    const groups = new Map<string, string[]>();
+    for (const id of byId.keys()) {
+      const root = find(id);
+      groups.set(root, [...(groups.get(root) ?? []), id]);
+    }
+
+    const proposals = [...groups.values()]
+      .filter(ids => ids.length > 1 || (byId.get(ids[0])?.length ?? 0) > 1)
+      .map(ids => buildProposal(ids, byId, pairs))
+      .sort(
+        (a, b) =>
+          b.duplicates.length - a.duplicates.length || a.canonical.id.localeCompare(b.canonical.id)
+      );
+
+    logger.info('catalog-deduplicator', 'Catalog analyzed', {
+      files,
+      definitions: definitions.length,
+      proposals: proposals.length,
+    });
+    return { files, definitions: definitions.length, patterns: byId.size, proposals };
+  }
+
+  /**
+   * Overlay document that adds each proposal's aliases to its canonical pattern; seeded as an
+   * overlay catalog, the aliases are stored in pattern_aliases
+   */
+  static aliasOverlay(report: DeduplicationReport): AliasOverlay {
+    return {
+      patterns: report.proposals
+        .filter(proposal => proposal.aliases.length > 0)
+        .map(proposal => ({
+          id: proposal.canonical.id,
+          alsoKnownAs: [...proposal.canonical.alsoKnownAs, ...proposal.aliases],
+        })),
+    };
+  }
+
+  /**
+   * IDs (or names) that normalize to the same words are proposed as duplicates
+   */
+  private addKeySignal(
+    primaries: PatternDefinition[],
+    signal: 'id' | 'name',
+    candidateFor: (a: string, b: string) => PairCandidate
+  ): void {
+    const byKey = new Map<string, PatternDefinition[]>();
+    for (const definition of primaries) {
+      const key = normalizeWords(definition[signal]).join(' ');
+      if (!key) continue;
+      byKey.set(key, [...(byKey.get(key) ?? []), definition]);
+    }
+
+    for (const [key, group] of byKey) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const candidate = candidateFor(group[i].id, group[j].id);
+          candidate.scores.set(signal, SIGNAL_WEIGHTS[signal]);
+          candidate.evidence.push(
+            `${signal === 'id' ? 'IDs' : 'Names'} "${group[i][signal]}" and ` +
+              `"${group[j][signal]}" both normalize to "${key}"`
+          );
+        }
+      }
+    }
+  }
+
+  private addEmbeddingSignal(
+    ids: Set<string>,
+    candidateFor: (a: string, b: string) => PairCandidate,
+    threshold: number,
+    embeddingModel?: string
+  ): void {
+    if (!this.db) return;
+
+    const model =
+      embeddingModel ??
+      this.db.queryOne<{ model: string }>(
+        `SELECT model FROM pattern_embeddings
+         GROUP BY model ORDER BY COUNT(*) DESC, model LIMIT 1`
+      )?.model;
+    const vectors = this.db
+      .query<{ pattern_id: string; embedding: string }>(
+        'SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?',
+        [model ?? '']
+      )
+      .flatMap(row => {
+        if (!ids.has(row.pattern_id)) return [];
+        const parsed: unknown = JSON.parse(row.embedding);
+        if (!Array.isArray(parsed) || !parsed.every(value => typeof value === 'number')) {
+          return [];
+        }
+        const norm = Math.sqrt(parsed.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? [{ id: row.pattern_id, vector: parsed, norm }] : [];
+      });
+
+    for (let i = 0; i < vectors.length; i++) {
+      for (let j = i + 1; j < vectors.length; j++) {
+        const a = vectors[i];
+        const b = vectors[j];
+        if (a.vector.length !== b.vector.length) continue;
+
+        let dot = 0;
+        for (let d = 0; d < a.vector.length; d++) {
+          dot += a.vector[d] * b.vector[d];
+        }
+        const similarity = dot / (a.norm * b.norm);
+        if (similarity < threshold) continue;
+
+        const candidate = candidateFor(a.id, b.id);
+        candidate.scores.set('embedding', similarity * SIGNAL_WEIGHTS.maxEmbedding);
+        candidate.evidence.push(`Embedding similarity ${similarity.toFixed(2)}`);
+      }
+    }
+  }
+
+  private addTextSignal(
+    primaries: PatternDefinition[],
+    candidateFor: (a: string, b: string) => PairCandidate,
+    threshold: number
+  ): void {
+    const words = primaries.map(definition => ({
+      id: definition.id,
+      words: descriptionWords(definition.fields.description),
+    }));
+
+    for (let i = 0; i < words.length; i++) {
+      for (let j = i + 1; j < words.length; j++) {
+        const a = words[i].words;
+        const b = words[j].words;
+        if (a.size === 0 || b.size === 0) continue;
+
+        let shared = 0;
+        for (const word of a) {
+          if (b.has(word)) shared++;
+        }
+        const jaccard = shared / (a.size + b.size - shared);
+        if (jaccard < threshold) continue;
+
+        const candidate = candidateFor(words[i].id, words[j].id);
+        candidate.scores.set('text', jaccard * SIGNAL_WEIGHTS.maxText);
+        candidate.evidence.push(`Description overlap ${jaccard.toFixed(2)} (Jaccard)`);
+      }
+    }
+  }
+}
+
+/**
+ * Every pattern object in the catalog's JSON and Markdown files, in seeding order
+ */
+export function loadCatalogDefinitions(directory: string): {
+  files: number;
+  definitions: PatternDefinition[];
+} {
+  const files = fs
+    .readdirSync(directory)
+    .filter(file => file.endsWith('.json') || file.endsWith('.md'))
+    .sort();
+  const definitions: PatternDefinition[] = [];
+
+  for (const file of files) {
+    let documents: unknown[];
+    try {
+      const content = fs.readFileSync(path.join(directory, file), 'utf8');
+      if (file.endsWith('.md')) {
+        documents = [parseMarkdownPattern(content)];
+      } else {
+        const data: unknown = JSON.parse(content);
+        documents = isObject(data) && Array.isArray(data.patterns) ? data.patterns : [data];
+      }
+    } catch (error) {
+      logger.warn('catalog-deduplicator', `Skipping unreadable pattern file ${file}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    for (const document of documents) {
+      if (isObject(document) && typeof document.id === 'string') {
+        definitions.push({
+          id: document.id,
+          name: typeof document.name === 'string' ? document.name : document.id,
+          file,
+          fields: document,
+        });
+      }
+    }
+  }
+  return { files: files.length, definitions };
+}
+
+function buildProposal(
+  ids: string[],
+  byId: Map<string, PatternDefinition[]>,
+  pairs: ScoredPair[]
+): MergeProposal {
+  const canonicalId = [...ids].sort(
+    (a, b) =>
+      completeness(byId.get(b)) - completeness(byId.get(a)) ||
+      normalizeWords(a).length - normalizeWords(b).length ||
+      a.length - b.length ||
+      a.localeCompare(b)
+  )[0];
+  const definitions = [canonicalId, ...ids.filter(id => id !== canonicalId)].flatMap(
+    id => byId.get(id) ?? []
+  );
+  const [canonical, ...others] = definitions;
+
+  const duplicates = others.map(definition => {
+    if (definition.id === canonical.id) {
+      return {
+        id: definition.id,
+        name: definition.name,
+        file: definition.file,
+        confidence: 1,
+        signals: ['id'] as DuplicateSignal[],
+        evidence: [`Same ID as the definition in ${canonical.file}`],
+      };
+    }
+    // Prefer the pair with the canonical pattern, else the strongest pair within the group
+    const linked = pairs
+      .filter(
+        pair =>
+          (pair.a === definition.id || pair.b === definition.id) &&
+          ids.includes(pair.a === definition.id ? pair.b : pair.a)
+      )
+      .sort(
+        (a, b) =>
+          Number(b.a === canonical.id || b.b === canonical.id) -
+            Number(a.a === canonical.id || a.b === canonical.id) || b.confidence - a.confidence
+      )[0];
+    return {
+      id: definition.id,
+      name: definition.name,
+      file: definition.file,
+      confidence: linked.confidence,
+      signals: linked.signals,
+      evidence: linked.evidence,
+    };
+  });
+
+  const existingAliases = stringList(canonical.fields.alsoKnownAs);
+  const taken = new Set(
+    [canonical.id, canonical.name, ...existingAliases].map(alias => aliasKey(alias))
+  );
+  const aliases: string[] = [];
+  for (const alias of others.flatMap(definition => [definition.name, definition.id])) {
+    const key = aliasKey(alias);
+    if (!key || taken.has(key)) continue;
+    taken.add(key);
+    aliases.push(alias);
+  }
+
+  return {
+    canonical: {
+      id: canonical.id,
+      name: canonical.name,
+      file: canonical.file,
+      alsoKnownAs: existingAliases,
+    },
+    duplicates,
+    conflicts: MERGED_FIELDS.flatMap(field => {
+      const conflict = compareField(field, canonical, others);
+      return conflict ? [conflict] : [];
+    }),
+    aliases,
+  };
+}
+
+/**
+ * Conflict when the definitions disagree on a field, or when only duplicates set it
+ */
+function compareField(
+  field: string,
+  canonical: PatternDefinition,
+  others: PatternDefinition[]
+): FieldConflict | null {
+  const values = [canonical, ...others]
+    .filter(definition => !isEmpty(definition.fields[field]))
+    .map(definition => ({
+      id: definition.id,
+      file: definition.file,
+      value: definition.fields[field],
+    }));
+  if (values.length === 0) return null;
+
+  const canonicalValue = canonical.fields[field];
+  const distinct = new Set(values.map(entry => comparable(entry.value)));
+  if (isEmpty(canonicalValue)) {
+    return { field, values, resolution: 'fill', merged: values[0].value };
+  }
+  if (distinct.size === 1) return null;
+
+  if (values.every(entry => Array.isArray(entry.value))) {
+    const seen = new Set<string>();
+    const merged = values
+      .flatMap(entry => entry.value as unknown[])
+      .filter(item => {
+        const key = comparable(item);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return { field, values, resolution: 'union', merged };
+  }
+  return { field, values, resolution: 'keep-canonical', merged: canonicalValue };
+}
+
+/**
+ * Number of merged fields, implementations and relationships the best definition of a
+ * pattern provides
+ */
+function completeness(definitions: PatternDefinition[] | undefined): number {
+  return Math.max(
+    0,
+    ...(definitions ?? []).map(
+      definition =>
+        [...MERGED_FIELDS, 'implementations', 'relationships'].filter(
+          field => !isEmpty(definition.fields[field])
+        ).length
+    )
+  );
+}
+
+function toScoredPair(candidate: PairCandidate): ScoredPair {
+  // Independent signals combine like probabilities: 1 - Π(1 - score)
+  const confidence =
+    1 - [...candidate.scores.values()].reduce((rest, score) => rest * (1 - score), 1);
+  return {
+    a: candidate.a,
+    b: candidate.b,
+    confidence: Math.round(confidence * 1000) / 1000,
+    signals: [...candidate.scores.keys()].sort(),
+    evidence: candidate.evidence,
+  };
+}
+
+/**
+ * Lowercase, singular words without parenthesized qualifiers or the word "pattern":
+ * "Backends for Frontends (BFF)" -> backend, for, frontend
+ */
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !QUALIFIER_WORDS.has(word))
+    .map(word =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+    );
+}
+
+function descriptionWords(description: unknown): Set<string> {
+  if (typeof description !== 'string') return new Set();
+  return new Set(
+    description
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/** Comparison key: trimmed strings, arrays independent of order */
+function comparable(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return JSON.stringify(value.map(item => comparable(item)).sort());
+  return JSON.stringify(value);
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/** Key for an unordered pattern pair */
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
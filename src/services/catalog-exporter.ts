@@ -0,0 +1,395 @@
+/**
+ * Catalog Exporter
+ * Writes the seeded catalog out of the database in publishable forms:
+ *
+ *   markdown/<id>.md + index.md     the get_pattern_details text plus related pattern links
+ *   catalog.jsonld                  schema.org DefinedTermSet/DefinedTerm dataset
+ *   html/                           static site: index, one page per category and pattern
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DatabaseManager } from './database-manager.js';
+import { formatPatternDetailsText } from '../mcp/pattern-details-formatter.js';
+import { toPatternSlug } from '../mcp/code-analysis.js';
+import type { PatternExample, PatternImplementation, PatternRow } from '../mcp/types.js';
+import { parseArrayProperty, parseTags } from '../utils/parse-tags.js';
+
+export type CatalogExportFormat = 'markdown' | 'jsonld' | 'html';
+
+export const CATALOG_EXPORT_FORMATS: readonly CatalogExportFormat[] = [
+  'markdown',
+  'jsonld',
+  'html',
+];
+
+export interface CatalogExportOptions {
+  outDir: string;
+  /** Formats to write (default: all) */
+  formats?: CatalogExportFormat[];
+  /** Catalog title used by the indexes and the JSON-LD term set */
+  title?: string;
+}
+
+export interface CatalogExportResult {
+  outDir: string;
+  patterns: number;
+  categories: number;
+  /** Written files per format, relative to outDir */
+  files: Partial<Record<CatalogExportFormat, string[]>>;
+}
+
+export interface ExportedRelationship {
+  patternId: string;
+  patternName: string;
+  type: string;
+  description: string;
+  /** outgoing: this pattern is the source; incoming: the related pattern is */
+  direction: 'outgoing' | 'incoming';
+}
+
+export interface ExportedPattern {
+  pattern: PatternRow;
+  implementations: PatternImplementation[];
+  relationships: ExportedRelationship[];
+}
+
+interface RelationshipRow {
+  source_id: string;
+  source_name: string;
+  target_id: string;
+  target_name: string;
+  type: string;
+  description: string;
+}
+
+const DEFAULT_TITLE = 'Design Patterns Catalog';
+
+const STYLE = `body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto;
+  padding: 0 1rem; line-height: 1.5; color: #1f2328; }
+nav { font-size: 0.9rem; margin-bottom: 1rem; }
+pre { background: #f6f8fa; padding: 1rem; overflow-x: auto; border-radius: 6px; }
+.meta { color: #59636e; }
+.tag { background: #ddf4ff; border-radius: 1rem; padding: 0 0.5rem; margin-right: 0.25rem; }`;
+
+export class CatalogExporter {
+  constructor(private readonly db: DatabaseManager) {}
+
+  /**
+   * Patterns ordered by category and name, with all implementations and relationships
+   */
+  loadCatalog(): ExportedPattern[] {
+    const patterns = this.db.query<PatternRow>(
+      `SELECT id, name, category, description, when_to_use, benefits, drawbacks, use_cases,
+              complexity, tags, examples
+       FROM patterns ORDER BY category, name`
+    );
+
+    const implementations = new Map<string, PatternImplementation[]>();
+    for (const row of this.db.query<PatternImplementation & { pattern_id: string }>(
+      `SELECT pattern_id, language, code, explanation FROM pattern_implementations
+       ORDER BY pattern_id, language, id`
+    )) {
+      const { pattern_id: patternId, ...implementation } = row;
+      implementations.set(patternId, [...(implementations.get(patternId) ?? []), implementation]);
+    }
+
+    const relationships = new Map<string, ExportedRelationship[]>();
+    const addRelationship = (patternId: string, relationship: ExportedRelationship) =>
+      relationships.set(patternId, [...(relationships.get(patternId) ?? []), relationship]);
+    for (const row of this.db.query<RelationshipRow>(
+      `SELECT r.source_pattern_id as source_id, s.name as source_name,
+              r.target_pattern_id as target_id, t.name as target_name, r.type, r.description
+       FROM pattern_relationships r
+       JOIN patterns s ON s.id = r.source_pattern_id
+       JOIN patterns t ON t.id = r.target_pattern_id
+       ORDER BY r.strength DESC, t.name`
+    )) {
+      const { type, description } = row;
+      addRelationship(row.source_id, {
+        patternId: row.target_id,
+        patternName: row.target_name,
+        type,
+        description,
+        direction: 'outgoing',
+      });
+      addRelationship(row.target_id, {
+        patternId: row.source_id,
+        patternName: row.source_name,
+        type,
+        description,
+        direction: 'incoming',
+      });
+    }
+
+    return patterns.map(pattern => ({
+      pattern,
+      implementations: implementations.get(pattern.id) ?? [],
+      relationships: relationships.get(pattern.id) ?? [],
+    }));
+  }
+
+  /**
+   * Write the requested formats below outDir, replacing earlier exports of the same files
+   */
+  export(options: CatalogExportOptions): CatalogExportResult {
+    const formats = options.formats ?? [...CATALOG_EXPORT_FORMATS];
+    const title = options.title ?? DEFAULT_TITLE;
+    const catalog = this.loadCatalog();
+    const categories = groupByCategory(catalog);
+
+    const files: CatalogExportResult['files'] = {};
+    const write = (format: CatalogExportFormat, file: string, content: string) => {
+      const target = path.join(options.outDir, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+      (files[format] ??= []).push(file);
+    };
+
+    if (formats.includes('markdown')) {
+      write('markdown', 'markdown/index.md', renderMarkdownIndex(title, categories));
+      for (const entry of catalog) {
+        write('markdown', `markdown/${entry.pattern.id}.md`, renderMarkdownPattern(entry));
+      }
+    }
+
+    if (formats.includes('jsonld')) {
+      const dataset = renderJsonLd(title, catalog, formats.includes('html'));
+      write('jsonld', 'catalog.jsonld', `${JSON.stringify(dataset, null, 2)}\n`);
+    }
+
+    if (formats.includes('html')) {
+      write('html', 'html/index.html', renderHtmlIndex(title, categories));
+      for (const [category, entries] of categories) {
+        write(
+          'html',
+          `html/categories/${toPatternSlug(category)}.html`,
+          renderHtmlCategory(title, category, entries)
+        );
+      }
+      for (const entry of catalog) {
+        write('html', `html/patterns/${entry.pattern.id}.html`, renderHtmlPattern(title, entry));
+      }
+    }
+
+    return { outDir: options.outDir, patterns: catalog.length, categories: categories.size, files };
+  }
+}
+
+function groupByCategory(catalog: ExportedPattern[]): Map<string, ExportedPattern[]> {
+  const categories = new Map<string, ExportedPattern[]>();
+  for (const entry of catalog) {
+    const category = entry.pattern.category;
+    categories.set(category, [...(categories.get(category) ?? []), entry]);
+  }
+  return categories;
+}
+
+function parseExamples(pattern: PatternRow): Array<[string, PatternExample]> {
+  if (!pattern.examples) return [];
+  try {
+    return Object.entries(JSON.parse(pattern.examples) as Record<string, PatternExample>);
+  } catch {
+    // Skip malformed examples JSON, as get_pattern_details does
+    return [];
+  }
+}
+
+function relationshipLabel(relationship: ExportedRelationship): string {
+  return relationship.direction === 'outgoing' ? relationship.type : `${relationship.type} (from)`;
+}
+
+function renderMarkdownIndex(title: string, categories: Map<string, ExportedPattern[]>): string {
+  const sections = [...categories].map(
+    ([category, entries]) =>
+      `## ${category}\n\n` +
+      entries
+        .map(
+          ({ pattern }) => `- [${pattern.name}](${pattern.id}.md) — ${pattern.description ?? ''}`
+        )
+        .join('\n')
+  );
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+}
+
+function renderMarkdownPattern(entry: ExportedPattern): string {
+  const related =
+    entry.relationships.length > 0
+      ? '\n\n**Related Patterns:**\n' +
+        entry.relationships
+          .map(
+            relationship =>
+              `- [${relationship.patternName}](${relationship.patternId}.md) — ` +
+              `${relationshipLabel(relationship)}: ${relationship.description}`
+          )
+          .join('\n')
+      : '';
+  return `${formatPatternDetailsText(entry.pattern, entry.implementations)}${related}\n`;
+}
+
+function renderJsonLd(
+  title: string,
+  catalog: ExportedPattern[],
+  withPages: boolean
+): Record<string, unknown> {
+  const categoryIds = new Map<string, string>();
+  for (const { pattern } of catalog) {
+    categoryIds.set(pattern.category, `#category/${toPatternSlug(pattern.category)}`);
+  }
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      { '@type': 'DefinedTermSet', '@id': '#catalog', name: title },
+      ...[...categoryIds].map(([category, id]) => ({
+        '@type': 'DefinedTermSet',
+        '@id': id,
+        name: category,
+        isPartOf: { '@id': '#catalog' },
+      })),
+      ...catalog.map(({ pattern }) => ({
+        '@type': 'DefinedTerm',
+        '@id': `#pattern/${pattern.id}`,
+        termCode: pattern.id,
+        name: pattern.name,
+        description: pattern.description ?? '',
+        keywords: parseTags(pattern.tags),
+        inDefinedTermSet: [{ '@id': '#catalog' }, { '@id': categoryIds.get(pattern.category) }],
+        ...(withPages ? { url: `html/patterns/${pattern.id}.html` } : {}),
+      })),
+    ],
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlPage(title: string, heading: string, nav: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(heading)} — ${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<nav>${nav}</nav>
+<h1>${escapeHtml(heading)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+function htmlList(items: string[]): string {
+  return `<ul>\n${items.map(item => `<li>${item}</li>`).join('\n')}\n</ul>`;
+}
+
+function htmlCode(language: string, code: string): string {
+  const lang = escapeHtml(language.toLowerCase());
+  return `<pre><code class="language-${lang}">${escapeHtml(code)}</code></pre>`;
+}
+
+function patternLink(prefix: string, id: string, name: string): string {
+  return `<a href="${prefix}${encodeURIComponent(id)}.html">${escapeHtml(name)}</a>`;
+}
+
+function renderHtmlIndex(title: string, categories: Map<string, ExportedPattern[]>): string {
+  const items = [...categories].map(
+    ([category, entries]) =>
+      `<a href="categories/${toPatternSlug(category)}.html">${escapeHtml(category)}</a> ` +
+      `<span class="meta">(${entries.length})</span>`
+  );
+  return htmlPage(title, title, '', `<h2>Categories</h2>\n${htmlList(items)}`);
+}
+
+function renderHtmlCategory(title: string, category: string, entries: ExportedPattern[]): string {
+  const items = entries.map(
+    ({ pattern }) =>
+      `${patternLink('../patterns/', pattern.id, pattern.name)} — ` +
+      escapeHtml(pattern.description ?? '')
+  );
+  return htmlPage(
+    title,
+    category,
+    `<a href="../index.html">${escapeHtml(title)}</a>`,
+    htmlList(items)
+  );
+}
+
+function renderHtmlPattern(title: string, entry: ExportedPattern): string {
+  const { pattern } = entry;
+  const categoryHref = `../categories/${toPatternSlug(pattern.category)}.html`;
+  const nav =
+    `<a href="../index.html">${escapeHtml(title)}</a> › ` +
+    `<a href="${categoryHref}">${escapeHtml(pattern.category)}</a>`;
+
+  const sections = [
+    `<p class="meta">Complexity: ${escapeHtml(pattern.complexity ?? 'Unknown')} · ` +
+      parseTags(pattern.tags)
+        .map(tag => `<span class="tag">${escapeHtml(tag)}</span>`)
+        .join('') +
+      '</p>',
+    `<p>${escapeHtml(pattern.description ?? 'No description available')}</p>`,
+  ];
+
+  const lists: Array<[string, string | undefined]> = [
+    ['When to Use', pattern.when_to_use],
+    ['Benefits', pattern.benefits],
+    ['Drawbacks', pattern.drawbacks],
+    ['Use Cases', pattern.use_cases],
+  ];
+  for (const [heading, value] of lists) {
+    const items = parseArrayProperty(value);
+    if (items.length > 0) {
+      sections.push(`<h2>${heading}</h2>\n${htmlList(items.map(escapeHtml))}`);
+    }
+  }
+
+  const examples = parseExamples(pattern);
+  if (examples.length > 0) {
+    sections.push(
+      '<h2>Code Examples</h2>\n' +
+        examples
+          .map(
+            ([key, example]) =>
+              `<h3>${escapeHtml(key.charAt(0).toUpperCase() + key.slice(1))}</h3>\n` +
+              (example.description ? `<p>${escapeHtml(example.description)}</p>\n` : '') +
+              htmlCode(example.language ?? key, example.code)
+          )
+          .join('\n')
+    );
+  }
+
+  if (entry.implementations.length > 0) {
+    sections.push(
+      '<h2>Implementations</h2>\n' +
+        entry.implementations
+          .map(
+            impl =>
+              `<h3>${escapeHtml(impl.language)}</h3>\n${htmlCode(impl.language, impl.code)}` +
+              (impl.explanation ? `\n<p>${escapeHtml(impl.explanation)}</p>` : '')
+          )
+          .join('\n')
+    );
+  }
+
+  if (entry.relationships.length > 0) {
+    const items = entry.relationships.map(
+      relationship =>
+        `${patternLink('', relationship.patternId, relationship.patternName)} ` +
+        `<span class="meta">${escapeHtml(relationshipLabel(relationship))}</span> — ` +
+        escapeHtml(relationship.description)
+    );
+    sections.push(`<h2>Related Patterns</h2>\n${htmlList(items)}`);
+  }
+
+  return htmlPage(title, pattern.name, nav, sections.join('\n'));
+}
@@ -0,0 +1,96 @@
+/**
+ * Catalog Sources
+ * The built-in catalog plus overlay directories (company-specific patterns). Each seeded
+ * pattern records the source that defined it in patterns.source and, in patterns.provenance,
+ * the overlay that supplied each overridden field ({"description": "acme"}).
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import type { PatternCatalogSource } from '../models/pattern.js';
+
+export const BUILTIN_SOURCE = 'builtin';
+export const DEFAULT_OVERLAY_PRIORITY = 100;
+
+export type FieldProvenance = Record<string, string>;
+
+/**
+ * Validate an overlay catalog configuration; throws on invalid entries
+ */
+export function validateCatalogSource(source: PatternCatalogSource): void {
+  if (!source.path || typeof source.path !== 'string') {
+    throw new Error('Overlay catalog path must be a non-empty string');
+  }
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(source.namespace)) {
+    throw new Error(
+      `Overlay catalog namespace must be a lowercase slug: ${String(source.namespace)}`
+    );
+  }
+  if (source.namespace === BUILTIN_SOURCE) {
+    throw new Error(`Overlay catalog namespace "${BUILTIN_SOURCE}" is reserved`);
+  }
+  if (source.priority !== undefined && !Number.isFinite(source.priority)) {
+    throw new Error(`Overlay catalog ${source.namespace}: priority must be a finite number`);
+  }
+}
+
+/**
+ * Built-in catalog and overlays in application order (lowest priority first; on equal
+ * priority the built-in catalog comes first, then overlays in configuration order)
+ */
+export function orderCatalogSources(
+  builtinPath: string,
+  overlays: PatternCatalogSource[] = []
+): Array<Required<PatternCatalogSource>> {
+  const sources = [
+    { path: builtinPath, namespace: BUILTIN_SOURCE, priority: 0 },
+    ...overlays.map(overlay => ({
+      ...overlay,
+      priority: overlay.priority ?? DEFAULT_OVERLAY_PRIORITY,
+    })),
+  ];
+  // Array.prototype.sort is stable, so ties keep the order above
+  return sources.sort((a, b) => a.priority - b.priority);
+}
+
+export function parseProvenance(value: string | null | undefined): FieldProvenance {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return typeof parsed === 'object' && parsed !== null ? (parsed as FieldProvenance) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * "builtin" or "builtin; overridden by acme (description, tags)"
+ */
+export function describeProvenance(source: string, provenance: FieldProvenance): string {
+  const fieldsBySource = new Map<string, string[]>();
+  for (const [field, namespace] of Object.entries(provenance)) {
+    fieldsBySource.set(namespace, [...(fieldsBySource.get(namespace) ?? []), field]);
+  }
+  const overrides = [...fieldsBySource].map(
+    ([namespace, fields]) => `${namespace} (${fields.join(', ')})`
+  );
+  return overrides.length > 0 ? `${source}; overridden by ${overrides.join(', ')}` : source;
+}
+
+/**
+ * IDs of patterns defined by, or with fields overridden by, one of the given sources
+ */
+export function patternIdsFromSources(db: DatabaseManager, sources: string[]): Set<string> {
+  const wanted = new Set(sources);
+  const rows = db.query<{ id: string; source: string | null; provenance: string | null }>(
+    'SELECT id, source, provenance FROM patterns'
+  );
+  return new Set(
+    rows
+      .filter(
+        row =>
+          wanted.has(row.source ?? BUILTIN_SOURCE) ||
+          Object.values(parseProvenance(row.provenance)).some(source => wanted.has(source))
+      )
+      .map(row => row.id)
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Embedding Model Comparison
+ * Runs one query against the stored embeddings of several registry models (A/B) and reports
+ * how far their top results agree, so a new model can be evaluated before it is activated.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import { VectorOperationsService } from './vector-operations.js';
+import type { EmbeddingModelRegistry } from '../factories/embedding-model-registry.js';
+import type { EmbeddingModelSpec, VectorSearchResult } from '../models/vector.js';
+
+export interface EmbeddingModelStatus extends EmbeddingModelSpec {
+  active: boolean;
+  storedEmbeddings: number;
+}
+
+export interface ModelSearchRun {
+  model: string;
+  storedEmbeddings: number;
+  results: VectorSearchResult[];
+  /** Query embedding plus search time */
+  durationMs: number;
+}
+
+export interface ModelComparison {
+  query: string;
+  limit: number;
+  runs: ModelSearchRun[];
+  /** Patterns in the top results of every model */
+  shared: string[];
+  /** Shared patterns divided by all patterns returned (1 = identical top results) */
+  overlap: number;
+}
+
+export class EmbeddingModelComparator {
+  constructor(
+    private readonly db: DatabaseManager,
+    private readonly registry: EmbeddingModelRegistry
+  ) {}
+
+  /**
+   * Registered models with the number of pattern embeddings stored for each
+   */
+  listModels(): EmbeddingModelStatus[] {
+    const counts = new Map(
+      this.db
+        .query<{ model: string; count: number }>(
+          'SELECT model, COUNT(*) as count FROM pattern_embeddings GROUP BY model'
+        )
+        .map(row => [row.model, row.count])
+    );
+    const active = this.registry.getActiveModel().name;
+
+    return this.registry.list().map(spec => ({
+      ...spec,
+      active: spec.name === active,
+      storedEmbeddings: counts.get(spec.name) ?? 0,
+    }));
+  }
+
+  /**
+   * Embed the query with each model and search that model's stored embeddings
+   */
+  async compare(query: string, models: string[], limit: number = 5): Promise<ModelComparison> {
+    const names = [...new Set(models)];
+    if (names.length < 2) {
+      throw new Error('Compare at least two different embedding models');
+    }
+
+    const runs: ModelSearchRun[] = [];
+    for (const name of names) {
+      runs.push(await this.search(query, this.registry.get(name), limit));
+    }
+
+    const sets = runs.map(run => new Set(run.results.map(result => result.patternId)));
+    const union = new Set(sets.flatMap(set => [...set]));
+    const shared = [...union].filter(id => sets.every(set => set.has(id)));
+
+    return {
+      query,
+      limit,
+      runs,
+      shared,
+      overlap: union.size > 0 ? shared.length / union.size : 0,
+    };
+  }
+
+  private async search(
+    query: string,
+    spec: EmbeddingModelSpec,
+    limit: number
+  ): Promise<ModelSearchRun> {
+    const strategy = this.registry.createStrategy(spec.name);
+    if (!(await strategy.isAvailable())) {
+      throw new Error(
+        `Embedding model ${spec.name} is not available (is it in the local model cache?)`
+      );
+    }
+
+    const vectorOps = new VectorOperationsService(this.db, {
+      model: spec.name,
+      dimensions: spec.dimensions,
+      similarityThreshold: 0,
+      maxResults: limit,
+      cacheEnabled: false,
+    });
+
+    const startTime = Date.now();
+    const embedding = await strategy.generateEmbedding(query);
+    const results = vectorOps.searchSimilar(embedding.values, { minScore: -1 }, limit);
+
+    return {
+      model: spec.name,
+      storedEmbeddings: vectorOps.getStats().totalVectors,
+      results,
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
@@ -51,6 +51,8 @@ export class GraphVectorService {
   private db: DatabaseManager;
   private config: GraphConstructionConfig;
   private graphCache: Map<string, GraphNode> = new Map();
+  /** pattern_embeddings.created_at each cached node was built from */
+  private embeddingVersions: Map<string, string> = new Map();
   private lastBuildTime: number = 0;
   private telemetryService: TelemetryService | null;
 
@@ -73,17 +75,34 @@ export class GraphVectorService {
   }
 
   /**
-   * Build kNN graph from embeddings
+   * Build kNN graph from embeddings.
+   * Starts from the graph persisted by setup-relationships when there is one; after that
+   * (and whenever the cache expires) only neighbourhoods of changed embeddings are rebuilt.
+   * `fromScratch` ignores both and recomputes every neighbourhood.
    */
-  buildKNNGraph(): Promise<Map<string, GraphNode>> {
+  buildKNNGraph(options: { fromScratch?: boolean } = {}): Promise<Map<string, GraphNode>> {
     const now = Date.now();
+    const incremental = !options.fromScratch;
 
     // Check if cache is still valid
-    if (this.graphCache.size > 0 && now - this.lastBuildTime < this.config.rebuildInterval) {
+    if (
+      incremental &&
+      this.graphCache.size > 0 &&
+      now - this.lastBuildTime < this.config.rebuildInterval
+    ) {
       logger.debug('graph-vector-service', 'Using cached graph');
       return Promise.resolve(this.graphCache);
     }
 
+    if (incremental && this.graphCache.size === 0) {
+      this.loadPersistedGraph();
+    }
+    if (incremental && this.graphCache.size > 0) {
+      this.refreshChangedEmbeddings();
+      this.lastBuildTime = now;
+      return Promise.resolve(this.graphCache);
+    }
+
     logger.info('graph-vector-service', 'Building kNN graph', {
       k: this.config.k,
     });
@@ -103,10 +122,12 @@ export class GraphVectorService {
 
     const startTime = Date.now();
     const graph = new Map<string, GraphNode>();
+    this.embeddingVersions.clear();
 
     // Get all pattern embeddings
-    const embeddings = this.db.query<{ pattern_id: string; embedding: string }>(
-      'SELECT pattern_id, embedding FROM pattern_embeddings'
+    const embeddings = this.db.query<{ pattern_id: string; embedding: string; created_at: string }>(
+      'SELECT pattern_id, embedding, created_at FROM pattern_embeddings WHERE model = ?',
+      [this.vectorOps.getModelName()]
     );
 
     if (embeddings.length === 0) {
@@ -115,37 +136,12 @@ export class GraphVectorService {
     }
 
     // For each pattern, find k nearest neighbors
-    for (const { pattern_id, embedding } of embeddings) {
-      const parsedEmbedding: unknown = JSON.parse(embedding);
-      if (
-        !Array.isArray(parsedEmbedding) ||
-        !parsedEmbedding.every(value => typeof value === 'number')
-      ) {
-        continue;
+    for (const { pattern_id, embedding, created_at } of embeddings) {
+      const graphNode = this.buildNode(pattern_id, embedding);
+      if (graphNode) {
+        graph.set(pattern_id, graphNode);
+        this.embeddingVersions.set(pattern_id, String(created_at));
       }
-      const embeddingVector = parsedEmbedding;
-
-      // Find neighbors using vector operations
-      const neighbors = this.vectorOps.searchSimilar(
-        embeddingVector,
-        { excludePatterns: [pattern_id] },
-        this.config.k
-      );
-
-      const graphNode: GraphNode = {
-        id: pattern_id,
-        embedding: embeddingVector,
-        neighbors: neighbors
-          .filter(n => n.score >= this.config.edgeWeightThreshold)
-          .map(n => ({
-            id: n.patternId,
-            distance: n.distance ?? 1 - n.score,
-            weight: n.score,
-          })),
-        metadata: this.getPatternMetadata(pattern_id),
-      };
-
-      graph.set(pattern_id, graphNode);
     }
 
     // Add metadata edges if enabled
@@ -184,9 +180,244 @@ export class GraphVectorService {
   }
 
   /**
-   * Add metadata-based edges (category, tags)
+   * Build one node with its k nearest neighbours (vector edges only)
+   */
+  private buildNode(patternId: string, embedding: string): GraphNode | null {
+    const parsedEmbedding: unknown = JSON.parse(embedding);
+    if (
+      !Array.isArray(parsedEmbedding) ||
+      !parsedEmbedding.every(value => typeof value === 'number')
+    ) {
+      return null;
+    }
+    const embeddingVector = parsedEmbedding;
+
+    // Find neighbors using vector operations
+    const neighbors = this.vectorOps.searchSimilar(
+      embeddingVector,
+      { excludePatterns: [patternId] },
+      this.config.k
+    );
+
+    return {
+      id: patternId,
+      embedding: embeddingVector,
+      neighbors: neighbors
+        .filter(n => n.score >= this.config.edgeWeightThreshold)
+        .map(n => ({
+          id: n.patternId,
+          distance: n.distance ?? 1 - n.score,
+          weight: n.score,
+          type: 'vector' as const,
+        })),
+      metadata: this.getPatternMetadata(patternId),
+    };
+  }
+
+  /**
+   * Rebuild the neighbourhoods touched by embeddings that were added, regenerated or
+   * removed since the graph was built. Besides the changed patterns this covers every
+   * pattern that listed one of them as a neighbour and the new neighbours of the changed
+   * patterns (kNN is close to symmetric), then persists the rebuilt nodes.
+   */
+  private refreshChangedEmbeddings(): { updated: number; removed: number } {
+    const graph = this.graphCache;
+    const versions = new Map(
+      this.db
+        .query<{ pattern_id: string; created_at: string }>(
+          'SELECT pattern_id, created_at FROM pattern_embeddings WHERE model = ?',
+          [this.vectorOps.getModelName()]
+        )
+        .map(row => [row.pattern_id, String(row.created_at)])
+    );
+    const changed = [...versions]
+      .filter(([id, version]) => this.embeddingVersions.get(id) !== version)
+      .map(([id]) => id);
+    const removed = [...this.embeddingVersions.keys()].filter(id => !versions.has(id));
+
+    if (changed.length === 0 && removed.length === 0) {
+      return { updated: 0, removed: 0 };
+    }
+
+    for (const id of removed) {
+      graph.delete(id);
+      this.embeddingVersions.delete(id);
+    }
+
+    const stale = new Set([...changed, ...removed]);
+    const affected = new Set(changed);
+    for (const [id, node] of graph) {
+      if (node.neighbors.some(neighbor => stale.has(neighbor.id))) {
+        affected.add(id);
+      }
+    }
+
+    const rebuild = (id: string) => {
+      const row = this.db.queryOne<{ embedding: string }>(
+        'SELECT embedding FROM pattern_embeddings WHERE pattern_id = ? AND model = ?',
+        [id, this.vectorOps.getModelName()]
+      );
+      const node = row ? this.buildNode(id, row.embedding) : null;
+      if (node) {
+        graph.set(id, node);
+        this.embeddingVersions.set(id, versions.get(id) ?? '');
+      } else {
+        graph.delete(id);
+        this.embeddingVersions.delete(id);
+      }
+      return node;
+    };
+
+    for (const id of changed) {
+      for (const neighbor of rebuild(id)?.neighbors ?? []) {
+        affected.add(neighbor.id);
+      }
+    }
+    for (const id of affected) {
+      if (!stale.has(id)) {
+        rebuild(id);
+      }
+    }
+
+    if (this.config.useMetadataEdges) {
+      this.addMetadataEdges(graph, affected);
+    }
+
+    logger.info('graph-vector-service', 'Graph updated for changed embeddings', {
+      changed: changed.length,
+      removed: removed.length,
+      rebuiltNodes: affected.size,
+    });
+
+    if (this.hasPersistedGraphTables()) {
+      try {
+        this.persistNodes([...affected], removed);
+      } catch (error) {
+        logger.warn('graph-vector-service', 'Could not persist graph update', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { updated: affected.size, removed: removed.length };
+  }
+
+  /**
+   * Load the graph written by saveGraph() into the cache.
+   * Returns false when nothing has been persisted yet.
+   */
+  loadPersistedGraph(): boolean {
+    if (!this.hasPersistedGraphTables()) {
+      return false;
+    }
+
+    const nodes = this.db.query<{ pattern_id: string; embedding_version: string }>(
+      'SELECT pattern_id, embedding_version FROM pattern_graph_nodes'
+    );
+    if (nodes.length === 0) {
+      return false;
+    }
+
+    const graph = new Map<string, GraphNode>();
+    this.embeddingVersions.clear();
+    for (const { pattern_id, embedding_version } of nodes) {
+      graph.set(pattern_id, {
+        id: pattern_id,
+        embedding: this.vectorOps.getEmbedding(pattern_id) ?? [],
+        neighbors: [],
+        metadata: this.getPatternMetadata(pattern_id),
+      });
+      this.embeddingVersions.set(pattern_id, embedding_version);
+    }
+
+    const edges = this.db.query<{
+      source_pattern_id: string;
+      target_pattern_id: string;
+      weight: number;
+      type: EdgeWeight['type'];
+    }>('SELECT source_pattern_id, target_pattern_id, weight, type FROM pattern_graph_edges');
+    for (const edge of edges) {
+      graph.get(edge.source_pattern_id)?.neighbors.push({
+        id: edge.target_pattern_id,
+        distance: 1 - edge.weight,
+        weight: edge.weight,
+        type: edge.type,
+      });
+    }
+
+    this.graphCache = graph;
+    logger.info('graph-vector-service', 'Loaded persisted graph', {
+      nodes: graph.size,
+      edges: edges.length,
+    });
+    return true;
+  }
+
+  /**
+   * Replace the persisted graph with the cached one. Returns the number of edges written.
+   */
+  saveGraph(): number {
+    if (!this.hasPersistedGraphTables()) {
+      throw new Error('pattern_graph_edges table not found. Please run migrations first.');
+    }
+    this.db.transaction(() => {
+      this.db.execute('DELETE FROM pattern_graph_edges');
+      this.db.execute('DELETE FROM pattern_graph_nodes');
+    });
+    return this.persistNodes([...this.graphCache.keys()], []);
+  }
+
+  /**
+   * Rewrite the persisted rows of the given nodes and drop removed ones
+   */
+  private persistNodes(patternIds: string[], removedIds: string[]): number {
+    let edgeCount = 0;
+
+    this.db.transaction(() => {
+      for (const id of [...patternIds, ...removedIds]) {
+        this.db.execute('DELETE FROM pattern_graph_edges WHERE source_pattern_id = ?', [id]);
+        this.db.execute('DELETE FROM pattern_graph_nodes WHERE pattern_id = ?', [id]);
+      }
+      for (const id of removedIds) {
+        this.db.execute('DELETE FROM pattern_graph_edges WHERE target_pattern_id = ?', [id]);
+      }
+
+      for (const id of patternIds) {
+        const node = this.graphCache.get(id);
+        const version = this.embeddingVersions.get(id);
+        if (!node || version === undefined) continue;
+
+        this.db.execute(
+          'INSERT INTO pattern_graph_nodes (pattern_id, embedding_version) VALUES (?, ?)',
+          [id, version]
+        );
+        for (const neighbor of node.neighbors) {
+          this.db.execute(
+            `INSERT OR REPLACE INTO pattern_graph_edges
+               (source_pattern_id, target_pattern_id, weight, type)
+             VALUES (?, ?, ?, ?)`,
+            [id, neighbor.id, neighbor.weight, neighbor.type ?? 'vector']
+          );
+          edgeCount++;
+        }
+      }
+    });
+
+    return edgeCount;
+  }
+
+  private hasPersistedGraphTables(): boolean {
+    const row = this.db.queryOne<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sqlite_master
+       WHERE type = 'table' AND name IN ('pattern_graph_edges', 'pattern_graph_nodes')`
+    );
+    return (row?.count ?? 0) === 2;
+  }
+
+  /**
+   * Add metadata-based edges (category, tags), optionally only on the given source nodes
    */
-  private addMetadataEdges(graph: Map<string, GraphNode>): void {
+  private addMetadataEdges(graph: Map<string, GraphNode>, sourceIds?: Set<string>): void {
     const patterns = this.db.query<{ id: string; category: string; tags: string }>(
       'SELECT id, category, tags FROM patterns'
     );
@@ -227,7 +458,7 @@ export class GraphVectorService {
           const id1 = patternIds[i];
           const id2 = patternIds[j];
 
-          const sourceNode = graph.get(id1);
+          const sourceNode = sourceIds && !sourceIds.has(id1) ? undefined : graph.get(id1);
           if (sourceNode) {
             const existing = sourceNode.neighbors.find(n => n.id === id2);
             if (existing) {
@@ -237,6 +468,7 @@ export class GraphVectorService {
                 id: id2,
                 distance: 1 - weight,
                 weight,
+                type: 'metadata',
               });
             }
           }
@@ -252,7 +484,7 @@ export class GraphVectorService {
           const id1 = patternIds[i];
           const id2 = patternIds[j];
 
-          const sourceNode = graph.get(id1);
+          const sourceNode = sourceIds && !sourceIds.has(id1) ? undefined : graph.get(id1);
           if (sourceNode) {
             const existing = sourceNode.neighbors.find(n => n.id === id2);
             if (existing) {
@@ -262,6 +494,7 @@ export class GraphVectorService {
                 id: id2,
                 distance: 1 - weight,
                 weight,
+                type: 'metadata',
               });
             }
           }
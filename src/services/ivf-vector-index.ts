@@ -0,0 +1,126 @@
+/**
+ * IVF (inverted file) Vector Index
+ * Partitions normalised embeddings into the cells of k-means centroids. A query scores only the
+ * members of its nearest cells and widens the probe when filters leave too few candidates.
+ */
+
+export interface IndexCandidate {
+  id: string;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  return norm === 0 ? [...vector] : vector.map(value => value / norm);
+}
+
+export class IvfVectorIndex {
+  private readonly lists: Array<Map<string, Float32Array>>;
+  private readonly assignments = new Map<string, number>();
+
+  /**
+   * @param centroids k-means centroids of normalised embeddings, one per inverted list
+   * @param probes number of nearest lists scanned per query
+   */
+  constructor(
+    readonly centroids: number[][],
+    private readonly probes: number
+  ) {
+    if (centroids.length === 0) {
+      throw new Error('An IVF index needs at least one centroid');
+    }
+    this.lists = centroids.map(() => new Map<string, Float32Array>());
+  }
+
+  get size(): number {
+    return this.assignments.size;
+  }
+
+  /**
+   * Add or move a vector; a stored list assignment is reused when it is still valid.
+   * Returns the list the vector was placed in.
+   */
+  add(id: string, vector: number[], list?: number | null): number {
+    const normalized = normalizeVector(vector);
+    const target =
+      list !== undefined && list !== null && list >= 0 && list < this.lists.length
+        ? list
+        : this.rankLists(normalized)[0];
+
+    this.remove(id);
+    this.lists[target].set(id, Float32Array.from(normalized));
+    this.assignments.set(id, target);
+    return target;
+  }
+
+  remove(id: string): boolean {
+    const list = this.assignments.get(id);
+    if (list === undefined) {
+      return false;
+    }
+    this.lists[list].delete(id);
+    this.assignments.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.lists.forEach(list => list.clear());
+    this.assignments.clear();
+  }
+
+  /**
+   * Top `limit` vectors by cosine similarity among the probed lists
+   */
+  search(
+    query: number[],
+    limit: number,
+    accept: (id: string) => boolean = () => true
+  ): IndexCandidate[] {
+    const normalized = normalizeVector(query);
+    const candidates: IndexCandidate[] = [];
+    let probed = 0;
+
+    for (const list of this.rankLists(normalized)) {
+      if (probed >= this.probes && candidates.length >= limit) {
+        break;
+      }
+      probed++;
+
+      for (const [id, vector] of this.lists[list]) {
+        if (!accept(id)) {
+          continue;
+        }
+        let score = 0;
+        for (let i = 0; i < vector.length; i++) {
+          score += vector[i] * normalized[i];
+        }
+        candidates.push({ id, score });
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * List indexes ordered by distance from their centroid to the vector
+   */
+  private rankLists(vector: number[]): number[] {
+    const distances = this.centroids.map((centroid, index) => {
+      let sum = 0;
+      for (let i = 0; i < centroid.length; i++) {
+        const diff = centroid[i] - vector[i];
+        sum += diff * diff;
+      }
+      return { index, sum };
+    });
+    return distances.sort((a, b) => a.sum - b.sum).map(entry => entry.index);
+  }
+}
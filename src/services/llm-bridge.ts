@@ -5,8 +5,9 @@
 import { DatabaseManager } from './database-manager.js';
 import { logger } from './logger.js';
 import { parseTags, parseArrayProperty } from '../utils/parse-tags.js';
-import { isObject, isTypedArray, isString, isNumber } from '../utils/type-guards.js';
+import { isObject, isArray, isTypedArray, isString, isNumber } from '../utils/type-guards.js';
 import type { Pattern } from '../models/pattern.js';
+import type { RefactoringPlan } from './refactoring-planner.js';
 
 export interface LLMConfig {
   provider: 'openai' | 'anthropic' | 'ollama' | 'local';
@@ -119,6 +120,51 @@ interface PatternRow {
   updated_at?: string;
 }
 
+/**
+ * API roots the endpoint paths are appended to: versioned APIs include their version segment
+ * (`/v1`), Ollama's unversioned API is served from the server root
+ */
+const DEFAULT_BASE_URLS: Record<LLMConfig['provider'], string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+  ollama: 'http://localhost:11434',
+  local: 'http://localhost:8080/v1',
+};
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'ollama',
+  model: 'llama3.2',
+  maxTokens: 2000,
+  temperature: 0.3,
+  timeout: 30000,
+};
+
+/**
+ * Raised when a provider endpoint is unreachable, times out or returns an error status
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMConfig['provider'],
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/**
+ * Merge partial server-level LLM settings over the defaults
+ */
+export function resolveLLMConfig(overrides: Partial<LLMConfig> = {}): LLMConfig {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<LLMConfig>;
+  return { ...DEFAULT_LLM_CONFIG, ...defined };
+}
+
 function isPatternAnalysisResponse(data: unknown): data is PatternAnalysisResponse {
   if (!isObject(data)) return false;
 
@@ -151,6 +197,31 @@ function isPatternAnalysisResponse(data: unknown): data is PatternAnalysisRespon
   );
 }
 
+interface RefactoringPlanRefinement {
+  summary: string;
+  steps: Array<{ title: string; detail: string; symbols?: string[] }>;
+  risks: string[];
+  testScenarios: string[];
+}
+
+function isRefactoringPlanRefinement(data: unknown): data is RefactoringPlanRefinement {
+  return (
+    isObject(data) &&
+    isString(data.summary) &&
+    isTypedArray(
+      data.steps,
+      (step): step is RefactoringPlanRefinement['steps'][0] =>
+        isObject(step) &&
+        isString(step.title) &&
+        isString(step.detail) &&
+        (step.symbols === undefined || isTypedArray(step.symbols, isString))
+    ) &&
+    data.steps.length > 0 &&
+    isTypedArray(data.risks, isString) &&
+    isTypedArray(data.testScenarios, isString)
+  );
+}
+
 function isLLMEnhancementArray(data: unknown): data is LLMEnhancement[] {
   return isTypedArray(
     data,
@@ -184,7 +255,7 @@ export class LLMBridgeService {
         format: 'json',
       };
 
-      const response = await Promise.resolve(this.callLLM(llmRequest));
+      const response = await this.callLLM(llmRequest);
       return this.parseAnalysisResponse(response.content);
     } catch (error) {
       logger.error('llm-bridge', 'Pattern analysis failed', error instanceof Error ? error : new Error(String(error)));
@@ -204,7 +275,7 @@ export class LLMBridgeService {
       const pattern = this.getPatternInfo(patternName);
       const prompt = this.buildImplementationPrompt(pattern, language, context);
 
-      const response = await Promise.resolve(this.callLLM({ prompt, format: 'markdown' }));
+      const response = await this.callLLM({ prompt, format: 'markdown' });
       return response.content;
     } catch (error) {
       logger.error('llm-bridge', 'Implementation guidance generation failed', error instanceof Error ? error : new Error(String(error)));
@@ -225,7 +296,7 @@ export class LLMBridgeService {
       const patternInfo2 = this.getPatternInfo(pattern2);
 
       const prompt = this.buildRelationshipPrompt(patternInfo1, patternInfo2, context);
-      const response = await Promise.resolve(this.callLLM({ prompt, format: 'markdown' }));
+      const response = await this.callLLM({ prompt, format: 'markdown' });
 
       return response.content;
     } catch (error) {
@@ -246,7 +317,7 @@ export class LLMBridgeService {
       const pattern = this.getPatternInfo(patternName);
       const prompt = this.buildCodeExamplePrompt(pattern, language, scenario);
 
-      const response = await Promise.resolve(this.callLLM({ prompt, format: 'markdown' }));
+      const response = await this.callLLM({ prompt, format: 'markdown' });
 
       return this.parseCodeExampleResponse(response.content);
     } catch (error) {
@@ -264,7 +335,7 @@ export class LLMBridgeService {
   ): Promise<PatternRecommendation[]> {
     try {
       const prompt = this.buildEnhancementPrompt(baseRecommendations, userContext);
-      const response = await Promise.resolve(this.callLLM({ prompt, format: 'json' }));
+      const response = await this.callLLM({ prompt, format: 'json' });
 
       const parsed: unknown = JSON.parse(response.content);
 
@@ -280,6 +351,42 @@ export class LLMBridgeService {
     }
   }
 
+  /**
+   * Refine a catalog-based refactoring plan for the given code.
+   * Affected symbols and examples are kept; steps, risks and test scenarios
+   * come from the LLM when its response is well-formed.
+   */
+  async refineRefactoringPlan(plan: RefactoringPlan, code: string): Promise<RefactoringPlan> {
+    try {
+      const prompt = this.buildRefactoringPrompt(plan, code);
+      const response = await this.callLLM({ prompt, format: 'json' });
+
+      const parsed: unknown = JSON.parse(response.content);
+
+      if (isRefactoringPlanRefinement(parsed)) {
+        return {
+          ...plan,
+          generatedBy: 'llm',
+          summary: parsed.summary,
+          steps: parsed.steps.map((step, index) => ({
+            order: index + 1,
+            title: step.title,
+            detail: step.detail,
+            symbols: step.symbols ?? [],
+          })),
+          risks: parsed.risks,
+          testScenarios: parsed.testScenarios,
+        };
+      }
+
+      logger.warn('llm-bridge', 'Invalid refactoring plan format received from LLM');
+      return plan;
+    } catch (error) {
+      logger.error('llm-bridge', 'Refactoring plan refinement failed', error instanceof Error ? error : new Error(String(error)));
+      return plan;
+    }
+  }
+
   /**
    * Build analysis prompt for LLM
    */
@@ -446,10 +553,51 @@ Please enhance these recommendations by:
 Respond with enhanced recommendations in the same JSON format, maintaining all existing data while adding value through better explanations and additional insights.`;
   }
 
+  /**
+   * Build refactoring plan refinement prompt
+   */
+  protected buildRefactoringPrompt(plan: RefactoringPlan, code: string): string {
+    return `
+You are an expert software engineer planning a refactoring towards the ${plan.targetPattern.name} pattern.
+
+PATTERN: ${plan.targetPattern.name} (${plan.targetPattern.category})
+DESCRIPTION: ${plan.targetPattern.description ?? 'n/a'}
+LANGUAGE: ${plan.language}
+
+CODE:
+\`\`\`${plan.language}
+${code}
+\`\`\`
+
+DRAFT PLAN (derived from code metrics and the pattern catalog):
+${JSON.stringify(
+  {
+    steps: plan.steps,
+    affectedSymbols: plan.affectedSymbols,
+    risks: plan.risks,
+    testScenarios: plan.testScenarios,
+    addressedAntiPatterns: plan.addressedAntiPatterns,
+    after: plan.after,
+  },
+  null,
+  2
+)}
+
+Rewrite the plan for this specific code: name the concrete classes, functions and branches involved, keep the steps ordered and small enough to keep tests green between them, and keep behaviour unchanged.
+
+Respond with JSON only:
+{
+  "summary": "one sentence",
+  "steps": [{ "title": "...", "detail": "...", "symbols": ["..."] }],
+  "risks": ["..."],
+  "testScenarios": ["..."]
+}`;
+  }
+
   /**
    * Call LLM with request
    */
-  protected callLLM(request: LLMRequest): LLMResponse {
+  protected async callLLM(request: LLMRequest): Promise<LLMResponse> {
     const startTime = Date.now();
 
     try {
@@ -457,16 +605,16 @@ Respond with enhanced recommendations in the same JSON format, maintaining all e
 
       switch (this.config.provider) {
         case 'openai':
-          response = this.callOpenAI(request);
+          response = await this.callOpenAI(request);
           break;
         case 'anthropic':
-          response = this.callAnthropic(request);
+          response = await this.callAnthropic(request);
           break;
         case 'ollama':
-          response = this.callOllama(request);
+          response = await this.callOllama(request);
           break;
         default:
-          response = this.callLocal(request);
+          response = await this.callLocal(request);
       }
 
       response.metadata.processingTime = Date.now() - startTime;
@@ -480,83 +628,214 @@ Respond with enhanced recommendations in the same JSON format, maintaining all e
   }
 
   /**
-   * Call OpenAI API
+   * Call OpenAI API (chat completions)
    */
-  protected callOpenAI(_request: LLMRequest): LLMResponse {
-    // Placeholder implementation
-    return {
-      content: 'OpenAI response placeholder',
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
-      },
-      metadata: {
-        model: this.config.model,
-        provider: 'openai',
-        processingTime: 0,
-        timestamp: new Date(),
-      },
-    };
+  protected async callOpenAI(request: LLMRequest): Promise<LLMResponse> {
+    return this.callChatCompletions('openai', request);
   }
 
   /**
-   * Call Anthropic API
+   * Call Anthropic API (messages)
    */
-  protected callAnthropic(_request: LLMRequest): LLMResponse {
-    // Placeholder implementation
-    return {
-      content: 'Anthropic response placeholder',
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
-      },
-      metadata: {
-        model: this.config.model,
-        provider: 'anthropic',
-        processingTime: 0,
-        timestamp: new Date(),
-      },
-    };
+  protected async callAnthropic(request: LLMRequest): Promise<LLMResponse> {
+    const { system, user } = this.buildMessages(request);
+    const headers: Record<string, string> = { 'anthropic-version': ANTHROPIC_API_VERSION };
+    if (this.config.apiKey) {
+      headers['x-api-key'] = this.config.apiKey;
+    }
+
+    const data = await this.postJson('anthropic', `${this.resolveBaseUrl()}/messages`, headers, {
+      model: this.config.model,
+      system,
+      messages: [{ role: 'user', content: user }],
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+    });
+
+    if (!isObject(data) || !isArray(data.content)) {
+      throw new LLMProviderError('anthropic response is missing content blocks', 'anthropic');
+    }
+
+    const content = data.content
+      .filter(block => isObject(block) && block.type === 'text' && isString(block.text))
+      .map(block => (block as { text: string }).text)
+      .join('');
+    const usage = isObject(data.usage) ? data.usage : undefined;
+
+    return this.createResponse(
+      'anthropic',
+      content,
+      usage ? this.toUsage(usage.input_tokens, usage.output_tokens) : undefined
+    );
   }
 
   /**
-   * Call Ollama API
+   * Call Ollama API (/api/chat)
    */
-  protected callOllama(_request: LLMRequest): LLMResponse {
-    // Placeholder implementation
-    return {
-      content: 'Ollama response placeholder',
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
-      },
-      metadata: {
-        model: this.config.model,
-        provider: 'ollama',
-        processingTime: 0,
-        timestamp: new Date(),
+  protected async callOllama(request: LLMRequest): Promise<LLMResponse> {
+    const { system, user } = this.buildMessages(request);
+
+    const data = await this.postJson('ollama', `${this.resolveBaseUrl()}/api/chat`, {}, {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      stream: false,
+      format: request.format === 'json' ? 'json' : undefined,
+      options: {
+        temperature: this.config.temperature,
+        num_predict: this.config.maxTokens,
       },
-    };
+    });
+
+    if (!isObject(data) || !isObject(data.message) || !isString(data.message.content)) {
+      throw new LLMProviderError('ollama response is missing message content', 'ollama');
+    }
+
+    return this.createResponse(
+      'ollama',
+      data.message.content,
+      this.toUsage(data.prompt_eval_count, data.eval_count)
+    );
+  }
+
+  /**
+   * Call local model through an OpenAI-compatible server (llama.cpp, LM Studio, vLLM)
+   */
+  protected async callLocal(request: LLMRequest): Promise<LLMResponse> {
+    return this.callChatCompletions('local', request);
+  }
+
+  /**
+   * Shared client for OpenAI-compatible `/chat/completions` endpoints
+   */
+  private async callChatCompletions(
+    provider: 'openai' | 'local',
+    request: LLMRequest
+  ): Promise<LLMResponse> {
+    const { system, user } = this.buildMessages(request);
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const data = await this.postJson(provider, `${this.resolveBaseUrl()}/chat/completions`, headers, {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      response_format:
+        provider === 'openai' && request.format === 'json' ? { type: 'json_object' } : undefined,
+    });
+
+    const choice = isObject(data) && isArray(data.choices) ? data.choices[0] : undefined;
+    if (!isObject(choice) || !isObject(choice.message) || !isString(choice.message.content)) {
+      throw new LLMProviderError(`${provider} response is missing choices[0].message`, provider);
+    }
+    const usage = isObject(data) && isObject(data.usage) ? data.usage : undefined;
+
+    return this.createResponse(
+      provider,
+      choice.message.content,
+      usage ? this.toUsage(usage.prompt_tokens, usage.completion_tokens) : undefined
+    );
   }
 
   /**
-   * Call local model
+   * Split a request into system instructions and the user message
    */
-  protected callLocal(_request: LLMRequest): LLMResponse {
-    // Placeholder implementation
+  protected buildMessages(request: LLMRequest): { system: string; user: string } {
+    const system = [
+      'You are an expert software architect specialised in design patterns.',
+      request.format === 'json'
+        ? 'Respond with valid JSON only, without markdown fences or commentary.'
+        : request.format === 'markdown'
+          ? 'Respond in well-structured markdown.'
+          : 'Respond in plain text.',
+    ].join(' ');
+
+    const sections = [request.prompt.trim()];
+    if (request.context) {
+      sections.push(`USER CONTEXT:\n${JSON.stringify(request.context, null, 2)}`);
+    }
+    if (request.constraints && request.constraints.length > 0) {
+      sections.push(`CONSTRAINTS:\n${request.constraints.map(c => `- ${c}`).join('\n')}`);
+    }
+    if (request.examples && request.examples.length > 0) {
+      sections.push(`EXAMPLES:\n${request.examples.join('\n\n')}`);
+    }
+
+    return { system, user: sections.join('\n\n') };
+  }
+
+  /**
+   * POST a JSON body to a provider endpoint, honouring the configured timeout
+   */
+  private async postJson(
+    provider: LLMConfig['provider'],
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>
+  ): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.config.timeout),
+      });
+    } catch (error) {
+      throw new LLMProviderError(
+        `${provider} request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+        provider
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `${provider} API error ${response.status}: ${detail || response.statusText}`,
+        provider,
+        response.status
+      );
+    }
+
+    return (await response.json()) as unknown;
+  }
+
+  private resolveBaseUrl(): string {
+    return (this.config.baseUrl ?? DEFAULT_BASE_URLS[this.config.provider]).replace(/\/+$/, '');
+  }
+
+  private toUsage(promptTokens: unknown, completionTokens: unknown): LLMResponse['usage'] {
+    if (!isNumber(promptTokens) && !isNumber(completionTokens)) {
+      return undefined;
+    }
+    const prompt = isNumber(promptTokens) ? promptTokens : 0;
+    const completion = isNumber(completionTokens) ? completionTokens : 0;
     return {
-      content: 'Local model response placeholder',
-      usage: {
-        promptTokens: 100,
-        completionTokens: 50,
-        totalTokens: 150,
-      },
+      promptTokens: prompt,
+      completionTokens: completion,
+      totalTokens: prompt + completion,
+    };
+  }
+
+  private createResponse(
+    provider: LLMConfig['provider'],
+    content: string,
+    usage: LLMResponse['usage']
+  ): LLMResponse {
+    return {
+      content,
+      usage,
       metadata: {
         model: this.config.model,
-        provider: 'local',
+        provider,
         processingTime: 0,
         timestamp: new Date(),
       },
@@ -756,21 +1035,18 @@ class ${patternName}Example {
     error?: string;
   }> {
     try {
-      const response = await Promise.resolve(
-        this.callLLM({
-          prompt: 'Hello, this is a test.',
-          format: 'text',
-        })
-      );
+      const response = await this.callLLM({
+        prompt: 'Reply with the single word: ok',
+        format: 'text',
+      });
 
-      if (response.content.includes('placeholder')) {
+      if (response.content.trim().length === 0) {
         return {
           healthy: false,
           provider: this.config.provider,
           model: this.config.model,
           lastTest: new Date(),
-          error:
-            'LLM provider returns placeholder responses — enable ENABLE_LLM only with a real integration',
+          error: 'LLM provider returned an empty response',
         };
       }
 
@@ -0,0 +1,470 @@
+/**
+ * Markdown Pattern Importer
+ * Parses pattern documents written in Markdown into the Pattern model. Front-matter holds
+ * id/name/category/complexity/tags/aliases/related; headings hold the pattern content:
+ *
+ *   # Name                 first paragraphs become the description
+ *   ## Problem / ## Solution / ## Structure
+ *   ## When to use / ## Benefits / ## Drawbacks / ## Use cases / ## Participants
+ *   ## Consequences        bullets, optionally split into ### Benefits and ### Drawbacks
+ *   ## Implementation      one implementation per code fence (### Language subsections)
+ *   ## Examples            ### Before / ### After fences; other fences are complete examples
+ *   ## Related patterns    bullets of pattern IDs or [Name](id) links
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Pattern } from '../models/pattern.js';
+import { validatePattern, type ValidationResult } from '../utils/pattern-schema-validation.js';
+
+export interface MarkdownImportResult {
+  file: string;
+  /** Undefined when the document could not be parsed */
+  pattern?: Pattern;
+  validation: ValidationResult;
+}
+
+type FrontMatter = Record<string, string | string[]>;
+type PatternExamples = Exclude<NonNullable<Pattern['examples']>, string>;
+type CodeExample = NonNullable<PatternExamples['before']>;
+
+interface Section {
+  title: string;
+  lines: string[];
+  subsections: Array<{ title: string; lines: string[] }>;
+}
+
+interface CodeFence {
+  language: string;
+  code: string;
+  /** Prose between the previous fence (or the heading) and this one */
+  description: string;
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  cs: 'csharp',
+  'c#': 'csharp',
+  kt: 'kotlin',
+  rs: 'rust',
+  golang: 'go',
+  sh: 'bash',
+};
+
+/** Pattern fields filled from a section of paragraphs */
+type TextField = 'problem' | 'solution' | 'structure';
+
+/** Pattern fields filled from a section of list items */
+type ListField =
+  'when_to_use' | 'benefits' | 'drawbacks' | 'use_cases' | 'participants' | 'collaborations';
+
+const LIST_SECTIONS: Record<string, ListField> = {
+  'when to use': 'when_to_use',
+  applicability: 'when_to_use',
+  benefits: 'benefits',
+  advantages: 'benefits',
+  drawbacks: 'drawbacks',
+  liabilities: 'drawbacks',
+  disadvantages: 'drawbacks',
+  'use cases': 'use_cases',
+  'known uses': 'use_cases',
+  participants: 'participants',
+  collaborations: 'collaborations',
+};
+
+/** Front-matter keys mapped to Pattern fields; any other key is kept in metadata */
+const MAPPED_FRONT_MATTER = new Set([
+  'id',
+  'name',
+  'category',
+  'description',
+  'complexity',
+  'tags',
+  'alsoKnownAs',
+  'aliases',
+  'related',
+  'related_patterns',
+]);
+
+const TEXT_SECTIONS: Record<string, TextField> = {
+  problem: 'problem',
+  solution: 'solution',
+  structure: 'structure',
+};
+
+/**
+ * Parse one Markdown pattern document. Throws when the front-matter has no id.
+ */
+export function parseMarkdownPattern(content: string): Pattern {
+  const { frontMatter, body } = splitFrontMatter(content);
+  const id = scalar(frontMatter.id);
+  if (!id) {
+    throw new Error('Markdown pattern needs an id in its front-matter');
+  }
+
+  const { title, intro, sections } = splitSections(body);
+  const now = new Date();
+  const pattern: Pattern = {
+    id,
+    name: scalar(frontMatter.name) ?? title ?? id,
+    category: scalar(frontMatter.category) ?? '',
+    description: scalar(frontMatter.description) ?? paragraphs(intro).join('\n\n'),
+    problem: '',
+    solution: '',
+    when_to_use: [],
+    benefits: [],
+    drawbacks: [],
+    use_cases: [],
+    implementations: [],
+    complexity: scalar(frontMatter.complexity) ?? 'Medium',
+    tags: list(frontMatter.tags),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const aliases = list(frontMatter.alsoKnownAs ?? frontMatter.aliases);
+  if (aliases.length > 0) {
+    pattern.alsoKnownAs = aliases;
+  }
+  const related = list(frontMatter.related ?? frontMatter.related_patterns);
+
+  for (const section of sections) {
+    const key = normalizeHeading(section.title);
+    const allLines = [...section.lines, ...section.subsections.flatMap(sub => sub.lines)];
+
+    if (key in TEXT_SECTIONS) {
+      pattern[TEXT_SECTIONS[key]] = paragraphs(allLines).join('\n\n');
+    } else if (key in LIST_SECTIONS) {
+      pattern[LIST_SECTIONS[key]] = listItems(allLines);
+    } else if (key === 'consequences') {
+      applyConsequences(pattern, section);
+    } else if (key === 'implementation' || key === 'implementations') {
+      applyImplementations(pattern, section);
+    } else if (key === 'example' || key === 'examples') {
+      applyExamples(pattern, section);
+    } else if (key === 'related patterns' || key === 'related') {
+      related.push(...listItems(allLines).map(linkTarget));
+    }
+  }
+
+  if (related.length > 0) {
+    pattern.related_patterns = [...new Set(related)];
+  }
+
+  const metadata = Object.fromEntries(
+    Object.entries(frontMatter).filter(([field]) => !MAPPED_FRONT_MATTER.has(field))
+  );
+  if (Object.keys(metadata).length > 0) {
+    pattern.metadata = metadata;
+  }
+
+  return pattern;
+}
+
+/**
+ * Parse and validate Markdown pattern files; directories contribute their *.md files
+ */
+export function importMarkdownPatterns(paths: string[]): MarkdownImportResult[] {
+  return listMarkdownFiles(paths).map(file => {
+    try {
+      const pattern = parseMarkdownPattern(fs.readFileSync(file, 'utf8'));
+      return { file, pattern, validation: validatePattern(pattern) };
+    } catch (error) {
+      return {
+        file,
+        validation: {
+          valid: false,
+          errors: [
+            { field: 'root', message: error instanceof Error ? error.message : String(error) },
+          ],
+          warnings: [],
+        },
+      };
+    }
+  });
+}
+
+function listMarkdownFiles(paths: string[]): string[] {
+  return paths.flatMap(target =>
+    fs.statSync(target).isDirectory()
+      ? fs
+          .readdirSync(target)
+          .filter(file => file.endsWith('.md'))
+          .sort()
+          .map(file => path.join(target, file))
+      : [target]
+  );
+}
+
+function splitFrontMatter(content: string): { frontMatter: FrontMatter; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(content);
+  if (!match) {
+    return { frontMatter: {}, body: content };
+  }
+  return { frontMatter: parseFrontMatter(match[1]), body: content.slice(match[0].length) };
+}
+
+/**
+ * The YAML subset used by pattern documents: `key: value`, `key: [a, b]` and `- item` lists
+ */
+function parseFrontMatter(source: string): FrontMatter {
+  const result: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (const line of source.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (result[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line);
+    if (!entry) {
+      throw new Error(`Unsupported front-matter line: ${line}`);
+    }
+    const [, key, value] = entry;
+    listKey = null;
+    if (value === '') {
+      result[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      result[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      result[key] = unquote(value);
+    }
+  }
+  return result;
+}
+
+function splitSections(body: string): { title?: string; intro: string[]; sections: Section[] } {
+  let title: string | undefined;
+  const intro: string[] = [];
+  const sections: Section[] = [];
+  let fence: string | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const current = sections.at(-1);
+    const target = current?.subsections.at(-1)?.lines ?? current?.lines ?? intro;
+
+    const fenceMarker = /^\s*(```|~~~)/.exec(line)?.[1];
+    if (fence) {
+      target.push(line);
+      if (fenceMarker === fence) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMarker) {
+      fence = fenceMarker;
+      target.push(line);
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading?.[1] === '#' && !title && sections.length === 0) {
+      title = heading[2];
+    } else if (heading?.[1] === '##') {
+      sections.push({ title: heading[2], lines: [], subsections: [] });
+    } else if (heading?.[1] === '###' && current) {
+      current.subsections.push({ title: heading[2], lines: [] });
+    } else {
+      target.push(line);
+    }
+  }
+
+  return { title, intro, sections };
+}
+
+/**
+ * Code fences of a block with the prose preceding each one
+ */
+function codeFences(lines: string[], defaultLanguage?: string): CodeFence[] {
+  const fences: CodeFence[] = [];
+  let prose: string[] = [];
+  let open: { marker: string; language: string; code: string[] } | null = null;
+
+  for (const line of lines) {
+    const marker = /^\s*(```|~~~)\s*([\w#+-]*)/.exec(line);
+    if (open) {
+      if (marker?.[1] === open.marker && !marker[2]) {
+        fences.push({
+          language: open.language,
+          code: open.code.join('\n'),
+          description: paragraphs(prose).join('\n\n'),
+        });
+        open = null;
+        prose = [];
+      } else {
+        open.code.push(line);
+      }
+    } else if (marker) {
+      const language = normalizeLanguage(marker[2] ? marker[2] : (defaultLanguage ?? 'text'));
+      open = { marker: marker[1], language, code: [] };
+    } else {
+      prose.push(line);
+    }
+  }
+
+  return fences;
+}
+
+function applyConsequences(pattern: Pattern, section: Section): void {
+  pattern.consequences = listItems(section.lines);
+  for (const subsection of section.subsections) {
+    const field = LIST_SECTIONS[normalizeHeading(subsection.title)];
+    if (field === 'benefits' || field === 'drawbacks') {
+      pattern[field].push(...listItems(subsection.lines));
+    } else {
+      pattern.consequences.push(...listItems(subsection.lines));
+    }
+  }
+}
+
+function applyImplementations(pattern: Pattern, section: Section): void {
+  const blocks = [
+    { title: undefined as string | undefined, lines: section.lines },
+    ...section.subsections,
+  ];
+  const fences = blocks.flatMap(block => codeFences(block.lines, block.title));
+
+  if (fences.length === 0) {
+    pattern.implementation = paragraphs(section.lines).join('\n\n');
+    return;
+  }
+
+  fences.forEach((fence, index) => {
+    pattern.implementations.push({
+      id: `${pattern.id}-${fence.language}-${index + 1}`,
+      patternId: pattern.id,
+      language: fence.language,
+      code: fence.code,
+      explanation: fence.description,
+      approach: 'default',
+      createdAt: pattern.createdAt,
+      updatedAt: pattern.updatedAt,
+    });
+  });
+}
+
+function applyExamples(pattern: Pattern, section: Section): void {
+  const examples: PatternExamples = {};
+  const complete: CodeExample[] = codeFences(section.lines).map(toExample);
+
+  for (const subsection of section.subsections) {
+    const fences = codeFences(subsection.lines).map(toExample);
+    const key = normalizeHeading(subsection.title);
+    if ((key === 'before' || key === 'after') && fences.length > 0) {
+      examples[key] = fences[0];
+      complete.push(...fences.slice(1));
+    } else {
+      complete.push(...fences);
+    }
+  }
+
+  if (complete.length > 0) {
+    examples.complete = complete;
+  }
+  if (Object.keys(examples).length > 0) {
+    pattern.examples = examples;
+  }
+}
+
+function toExample(fence: CodeFence): CodeExample {
+  return {
+    language: fence.language,
+    code: fence.code,
+    ...(fence.description ? { description: fence.description } : {}),
+  };
+}
+
+/**
+ * Bullet or numbered items; paragraphs when the block has no list
+ */
+function listItems(lines: string[]): string[] {
+  const items: string[] = [];
+  let inList = false;
+
+  for (const line of withoutFences(lines)) {
+    const bullet = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (bullet) {
+      items.push(bullet[1].trim());
+      inList = true;
+    } else if (inList && /^\s{2,}\S/.test(line)) {
+      // Continuation of the previous item
+      items[items.length - 1] += ` ${line.trim()}`;
+    } else {
+      inList = false;
+    }
+  }
+
+  return items.length > 0 ? items : paragraphs(lines);
+}
+
+function paragraphs(lines: string[]): string[] {
+  return withoutFences(lines)
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function withoutFences(lines: string[]): string[] {
+  const result: string[] = [];
+  let fence: string | null = null;
+  for (const line of lines) {
+    const marker = /^\s*(```|~~~)/.exec(line)?.[1];
+    if (fence) {
+      if (marker === fence) fence = null;
+    } else if (marker) {
+      fence = marker;
+    } else {
+      result.push(line);
+    }
+  }
+  return result;
+}
+
+/** `[Name](target)` links resolve to their target without a .md/.json extension */
+function linkTarget(item: string): string {
+  const link = /\[[^\]]*\]\(([^)]+)\)/.exec(item);
+  return (link ? path.basename(link[1]) : item).replace(/\.(md|json)$/, '').trim();
+}
+
+function normalizeHeading(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+function scalar(value: string | string[] | undefined): string | undefined {
+  const result = Array.isArray(value) ? value.join(', ') : value;
+  return result ? result : undefined;
+}
+
+function list(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value)
+    ? [...value]
+    : value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
@@ -0,0 +1,87 @@
+/**
+ * Pattern Aliases
+ * Alternative names and former IDs of a pattern (its alsoKnownAs), stored in pattern_aliases
+ * by slug so "Backends for Frontends", "backends-for-frontends" and "BACKENDS FOR FRONTENDS"
+ * all resolve to the same canonical pattern.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+
+/**
+ * Lookup key of an alias: lowercase slug
+ */
+export function aliasKey(alias: string): string {
+  return alias
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Whether the database has the pattern_aliases table (migration 014)
+ */
+export function hasPatternAliases(db: DatabaseManager): boolean {
+  return (
+    db.queryOne<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'pattern_aliases'"
+    ) !== null
+  );
+}
+
+/**
+ * Replace the aliases of a pattern. An alias already claimed by another pattern moves to this
+ * one; aliases that only restate the pattern's own ID are skipped.
+ */
+export function replacePatternAliases(
+  db: DatabaseManager,
+  patternId: string,
+  aliases: string[]
+): number {
+  db.execute('DELETE FROM pattern_aliases WHERE pattern_id = ?', [patternId]);
+
+  let stored = 0;
+  for (const alias of aliases) {
+    const key = aliasKey(alias);
+    if (!key || key === patternId) continue;
+    db.execute(
+      'INSERT OR REPLACE INTO pattern_aliases (alias_key, alias, pattern_id) VALUES (?, ?, ?)',
+      [key, alias.trim(), patternId]
+    );
+    stored++;
+  }
+  return stored;
+}
+
+/**
+ * Canonical pattern ID an alias (name or former ID) points to, or null
+ */
+export function resolvePatternAlias(db: DatabaseManager, alias: string): string | null {
+  if (!hasPatternAliases(db)) return null;
+  return (
+    db.queryOne<{ pattern_id: string }>(
+      'SELECT pattern_id FROM pattern_aliases WHERE alias_key = ?',
+      [aliasKey(alias)]
+    )?.pattern_id ?? null
+  );
+}
+
+/**
+ * Aliases grouped by pattern ID, and canonical pattern IDs by alias key
+ */
+export function loadPatternAliases(db: DatabaseManager): {
+  byPattern: Map<string, string[]>;
+  byKey: Map<string, string>;
+} {
+  const byPattern = new Map<string, string[]>();
+  const byKey = new Map<string, string>();
+  if (!hasPatternAliases(db)) return { byPattern, byKey };
+
+  for (const row of db.query<{ alias_key: string; alias: string; pattern_id: string }>(
+    'SELECT alias_key, alias, pattern_id FROM pattern_aliases ORDER BY alias'
+  )) {
+    byPattern.set(row.pattern_id, [...(byPattern.get(row.pattern_id) ?? []), row.alias]);
+    byKey.set(row.alias_key, row.pattern_id);
+  }
+  return { byPattern, byKey };
+}
@@ -3,19 +3,33 @@
  * Analyzes code snippets to detect design patterns and suggest improvements
  */
 
-interface DetectedPattern {
+import { AntiPatternDetector, type AntiPatternFinding } from './anti-pattern-detector.js';
+import {
+  createDefaultDetectorRegistry,
+  type PatternDetectorRegistry,
+} from './pattern-detectors/index.js';
+
+/**
+ * 1-based source range of a detected pattern. End positions are only set by
+ * structural (plugin) detection.
+ */
+export interface PatternLocation {
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: string;
+}
+
+export interface DetectedPattern {
   pattern: string;
   category: string;
   confidence: number;
-  location?: {
-    line?: number;
-    column?: number;
-    snippet?: string;
-  };
+  location?: PatternLocation;
   indicators: string[];
 }
 
-interface CodeAnalysisResult {
+export interface CodeAnalysisResult {
   identifiedPatterns: DetectedPattern[];
   suggestedPatterns: {
     pattern: string;
@@ -23,14 +37,15 @@ interface CodeAnalysisResult {
     confidence: number;
   }[];
   improvements: string[];
-  antiPatterns?: {
-    pattern: string;
-    reason: string;
-    severity: 'low' | 'medium' | 'high';
-  }[];
+  antiPatterns?: AntiPatternFinding[];
 }
 
 export class PatternAnalyzer {
+  constructor(
+    private readonly detectors: PatternDetectorRegistry = createDefaultDetectorRegistry(),
+    private readonly antiPatternDetector: AntiPatternDetector = new AntiPatternDetector()
+  ) {}
+
   // Pattern detection rules for various languages
   private readonly patternIndicators = {
     // Creational Patterns
@@ -141,22 +156,6 @@ export class PatternAnalyzer {
     },
   };
 
-  // Anti-patterns to detect
-  private readonly antiPatternIndicators = {
-    'God Object': {
-      indicators: ['too many methods', 'too many properties', 'high complexity'],
-      threshold: { methods: 20, properties: 30 },
-    },
-    'Spaghetti Code': {
-      indicators: ['deeply nested', 'goto', 'no structure'],
-      threshold: { nestingLevel: 5 },
-    },
-    'Copy-Paste Programming': {
-      indicators: ['duplicate code', 'similar blocks'],
-      threshold: { duplicateLines: 10 },
-    },
-  };
-
   /**
    * Analyze code to detect patterns
    */
@@ -164,7 +163,7 @@ export class PatternAnalyzer {
     const identifiedPatterns = this.detectPatterns(code, language);
     const suggestedPatterns = this.suggestPatterns(code, language, identifiedPatterns);
     const improvements = this.generateImprovements(code, language, identifiedPatterns);
-    const antiPatterns = this.detectAntiPatterns(code, language);
+    const antiPatterns = this.antiPatternDetector.detect(code, language);
 
     return {
       identifiedPatterns,
@@ -175,9 +174,26 @@ export class PatternAnalyzer {
   }
 
   /**
-   * Detect existing patterns in code
+   * Detect existing patterns in code.
+   * Languages with a registered detector plugin are analysed structurally;
+   * the others fall back to regex indicators.
+   */
+  private detectPatterns(code: string, language: string): DetectedPattern[] {
+    const detector = this.detectors.get(language);
+    if (detector) {
+      return detector.detect(code, language).map(match => ({
+        ...match,
+        category: this.getPatternCategory(match.pattern),
+      }));
+    }
+
+    return this.detectPatternsByIndicators(code);
+  }
+
+  /**
+   * Keyword/regex detection used for languages without a structural detector
    */
-  private detectPatterns(code: string, _language: string): DetectedPattern[] {
+  private detectPatternsByIndicators(code: string): DetectedPattern[] {
     const detected: DetectedPattern[] = [];
     const codeLines = code.split('\n');
 
@@ -345,61 +361,30 @@ export class PatternAnalyzer {
     return improvements;
   }
 
-  /**
-   * Detect anti-patterns in code
-   */
-  private detectAntiPatterns(
-    code: string,
-    _language: string
-  ): Array<{ pattern: string; reason: string; severity: 'low' | 'medium' | 'high' }> {
-    const antiPatterns: Array<{
-      pattern: string;
-      reason: string;
-      severity: 'low' | 'medium' | 'high';
-    }> = [];
-
-    // Check for God Object
-    const methodCount = (code.match(/function\s+\w+|[\w]+\s*\([^)]*\)\s*{/g) ?? []).length;
-    const propertyCount = (code.match(/this\.\w+\s*=/g) ?? []).length;
-
-    if (methodCount > 20 || propertyCount > 30) {
-      antiPatterns.push({
-        pattern: 'God Object',
-        reason: `Class has ${methodCount} methods and ${propertyCount} properties - consider splitting responsibilities`,
-        severity: 'high' as const,
-      });
-    }
-
-    // Check for deeply nested code (Spaghetti Code indicator)
-    const maxNesting = this.calculateMaxNesting(code);
-    if (maxNesting > 5) {
-      antiPatterns.push({
-        pattern: 'Spaghetti Code',
-        reason: `Code has nesting level of ${maxNesting} - consider refactoring to reduce complexity`,
-        severity: maxNesting > 7 ? 'high' : ('medium' as const),
-      });
-    }
-
-    // Check for duplicate code blocks
-    const duplicates = this.findDuplicateBlocks(code);
-    if (duplicates.length > 0) {
-      antiPatterns.push({
-        pattern: 'Copy-Paste Programming',
-        reason: `Found ${duplicates.length} duplicate code blocks - consider extracting common functionality`,
-        severity: duplicates.length > 3 ? 'high' : 'medium',
-      });
-    }
-
-    return antiPatterns;
-  }
-
   /**
    * Helper: Get pattern category
    */
-  private getPatternCategory(patternName: string): string {
+  getPatternCategory(patternName: string): string {
     const categories: Record<string, string[]> = {
-      Creational: ['Singleton', 'Factory Method', 'Abstract Factory', 'Builder', 'Prototype'],
-      Structural: ['Adapter', 'Bridge', 'Composite', 'Decorator', 'Facade', 'Flyweight', 'Proxy'],
+      Creational: [
+        'Singleton',
+        'Factory Method',
+        'Abstract Factory',
+        'Builder',
+        'Prototype',
+        'Functional Options',
+      ],
+      Structural: [
+        'Adapter',
+        'Bridge',
+        'Composite',
+        'Decorator',
+        'Facade',
+        'Flyweight',
+        'Proxy',
+        'Newtype',
+        'Opaque Pointer',
+      ],
       Behavioral: [
         'Chain of Responsibility',
         'Command',
@@ -411,6 +396,7 @@ export class PatternAnalyzer {
         'Strategy',
         'Template Method',
         'Visitor',
+        'Typestate',
       ],
     };
 
@@ -429,47 +415,4 @@ export class PatternAnalyzer {
     const lines = code.substring(0, index).split('\n');
     return lines.length;
   }
-
-  /**
-   * Helper: Calculate maximum nesting level
-   */
-  private calculateMaxNesting(code: string): number {
-    let maxNesting = 0;
-    let currentNesting = 0;
-
-    for (const char of code) {
-      if (char === '{') {
-        currentNesting++;
-        maxNesting = Math.max(maxNesting, currentNesting);
-      } else if (char === '}') {
-        currentNesting = Math.max(0, currentNesting - 1);
-      }
-    }
-
-    return maxNesting;
-  }
-
-  /**
-   * Helper: Find duplicate code blocks
-   */
-  private findDuplicateBlocks(code: string): string[] {
-    const lines = code
-      .split('\n')
-      .map(l => l.trim())
-      .filter(l => l.length > 10);
-    const duplicates: string[] = [];
-    const seen = new Map<string, number>();
-
-    // Simple duplicate detection - could be improved with more sophisticated algorithms
-    for (let i = 0; i < lines.length - 3; i++) {
-      const block = lines.slice(i, i + 3).join('\n');
-      if (seen.has(block)) {
-        duplicates.push(block);
-      } else {
-        seen.set(block, i);
-      }
-    }
-
-    return [...new Set(duplicates)];
-  }
 }
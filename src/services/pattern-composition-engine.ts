@@ -4,8 +4,9 @@
  * Provides intelligent pattern combination recommendations
  */
 
-import { Pattern } from '../models/pattern';
-import { PatternAnalyzer } from './pattern-analyzer';
+import type { Pattern } from '../models/pattern.js';
+import type { RelationshipWithPatterns } from '../models/relationship.js';
+import { PatternAnalyzer } from './pattern-analyzer.js';
 
 export interface CompositionRule {
   id: string;
@@ -25,6 +26,7 @@ export interface CompositionResult {
   recommendations: CompositionRecommendation[];
   warnings: CompositionWarning[];
   synergies: PatternSynergy[];
+  compatibility: PatternCompatibility[];
 }
 
 export interface RuleViolation {
@@ -56,6 +58,14 @@ export interface PatternSynergy {
   examples: string[];
 }
 
+/**
+ * Pairwise compatibility (0 = conflicting, 1 = made for each other)
+ */
+export interface PatternCompatibility {
+  patterns: [string, string];
+  score: number;
+}
+
 export interface AntiPatternDetection {
   antiPattern: string;
   severity: 'low' | 'medium' | 'high';
@@ -65,26 +75,96 @@ export interface AntiPatternDetection {
   prevention: string;
 }
 
+/**
+ * The pattern fields composition analysis reads
+ */
+export type ComposablePattern = Pick<Pattern, 'id' | 'name' | 'category' | 'description'>;
+
+/**
+ * Rule tables evaluated by the engine. Keys are pattern names for the built-in
+ * knowledge and catalog IDs for knowledge derived from pattern_relationships.
+ */
+export interface CompositionKnowledge {
+  keyedBy: 'name' | 'id';
+  rules: CompositionRule[];
+  compatibility: Map<string, Map<string, number>>;
+  complements: Map<string, string[]>;
+  prerequisites: Map<string, string[]>;
+  /** Pairs that solve the same problem, second entry is the likely redundant one */
+  redundancies: Array<[string, string]>;
+  synergies: PatternSynergy[];
+  /** Display names for keys */
+  names: Map<string, string>;
+}
+
+type RelationshipRole = 'conflicts' | 'complements' | 'prerequisite' | 'alternative';
+
+/**
+ * How free-form relationship types map onto composition semantics
+ */
+const RELATIONSHIP_ROLES: Record<string, RelationshipRole> = {
+  conflicts: 'conflicts',
+  'conflicts-with': 'conflicts',
+  complements: 'complements',
+  enhances: 'complements',
+  enables: 'complements',
+  uses: 'complements',
+  prerequisite: 'prerequisite',
+  requires: 'prerequisite',
+  'depends-on': 'prerequisite',
+  alternative: 'alternative',
+  similar: 'alternative',
+  'similar-to': 'alternative',
+};
+
+/** Conflicts at or above this strength make a composition invalid */
+const INCOMPATIBLE_STRENGTH = 0.7;
+
+const GOF_ORDER = [
+  'Singleton',
+  'Factory Method',
+  'Abstract Factory',
+  'Builder',
+  'Prototype',
+  'Adapter',
+  'Bridge',
+  'Composite',
+  'Decorator',
+  'Facade',
+  'Flyweight',
+  'Proxy',
+  'Chain of Responsibility',
+  'Command',
+  'Iterator',
+  'Mediator',
+  'Memento',
+  'Observer',
+  'State',
+  'Strategy',
+  'Template Method',
+  'Visitor',
+];
+
 export class PatternCompositionEngine {
   private readonly patternAnalyzer: PatternAnalyzer;
   private readonly compositionRules: CompositionRule[];
   private readonly compatibilityMatrix: Map<string, Map<string, number>>;
 
-  constructor() {
+  constructor(private readonly knowledge: CompositionKnowledge = defaultCompositionKnowledge()) {
     this.patternAnalyzer = new PatternAnalyzer();
-    this.compositionRules = this.initializeCompositionRules();
-    this.compatibilityMatrix = this.initializeCompatibilityMatrix();
+    this.compositionRules = knowledge.rules;
+    this.compatibilityMatrix = knowledge.compatibility;
   }
 
   /**
    * Analyze pattern composition for validity and recommendations
    */
-  analyzeComposition(patterns: Pattern[]): CompositionResult {
-    const patternNames = patterns.map(p => p.name);
-    const violations = this.detectViolations(patternNames);
+  analyzeComposition(patterns: ComposablePattern[]): CompositionResult {
+    const keys = patterns.map(p => this.keyOf(p));
+    const violations = this.detectViolations(keys);
     const recommendations = this.generateRecommendations(patterns);
     const warnings = this.detectWarnings(patterns);
-    const synergies = this.identifySynergies(patternNames);
+    const synergies = this.identifySynergies(keys);
     const score = this.calculateCompositionScore(patterns, violations, synergies);
 
     return {
@@ -94,15 +174,16 @@ export class PatternCompositionEngine {
       recommendations,
       warnings,
       synergies,
+      compatibility: this.pairwiseCompatibility(keys),
     };
   }
 
   /**
    * Detect anti-patterns in pattern composition
    */
-  detectAntiPatterns(patterns: Pattern[]): AntiPatternDetection[] {
+  detectAntiPatterns(patterns: ComposablePattern[]): AntiPatternDetection[] {
     const antiPatterns: AntiPatternDetection[] = [];
-    const patternNames = patterns.map(p => p.name);
+    const keys = patterns.map(p => this.keyOf(p));
 
     // Check for pattern overload
     if (patterns.length > 8) {
@@ -117,7 +198,7 @@ export class PatternCompositionEngine {
     }
 
     // Check for conflicting patterns
-    const conflictingPairs = this.findConflictingPatterns(patternNames);
+    const conflictingPairs = this.findConflictingPatterns(keys);
     for (const [pattern1, pattern2] of conflictingPairs) {
       antiPatterns.push({
         antiPattern: 'Pattern Conflict',
@@ -130,7 +211,7 @@ export class PatternCompositionEngine {
     }
 
     // Check for redundant patterns
-    const redundantPatterns = this.findRedundantPatterns(patterns);
+    const redundantPatterns = this.findRedundantPatterns(keys);
     for (const pattern of redundantPatterns) {
       antiPatterns.push({
         antiPattern: 'Pattern Redundancy',
@@ -238,32 +319,31 @@ export class PatternCompositionEngine {
   /**
    * Validate pattern sequence and dependencies
    */
-  validatePatternSequence(patterns: Pattern[]): {
+  validatePatternSequence(patterns: ComposablePattern[]): {
     isValid: boolean;
     errors: string[];
     suggestions: string[];
   } {
     const errors: string[] = [];
     const suggestions: string[] = [];
-    const patternNames = patterns.map(p => p.name);
+    const keys = patterns.map(p => this.keyOf(p));
 
     // Check for prerequisite patterns
-    const prerequisites = this.getPatternPrerequisites();
     for (let i = 0; i < patterns.length; i++) {
       const pattern = patterns[i];
-      const required = prerequisites.get(pattern.name) ?? [];
-      
+      const required = this.knowledge.prerequisites.get(keys[i]) ?? [];
+
       for (const req of required) {
-        if (!patternNames.slice(0, i).includes(req)) {
-          errors.push(`${pattern.name} requires ${req} to be implemented first`);
+        if (!keys.slice(0, i).includes(req)) {
+          errors.push(`${pattern.name} requires ${this.label(req)} to be implemented first`);
         }
       }
     }
 
     // Check for optimal ordering
-    const optimalOrder = this.getOptimalPatternOrder(patternNames);
-    if (!this.arraysEqual(patternNames, optimalOrder)) {
-      suggestions.push(`Consider reordering: ${optimalOrder.join(' → ')}`);
+    const optimalOrder = this.getOptimalPatternOrder(patterns);
+    if (!this.arraysEqual(keys, optimalOrder.map(p => this.keyOf(p)))) {
+      suggestions.push(`Consider reordering: ${optimalOrder.map(p => p.name).join(' → ')}`);
     }
 
     return {
@@ -276,11 +356,19 @@ export class PatternCompositionEngine {
   /**
    * Private helper methods
    */
-  private detectViolations(patternNames: string[]): RuleViolation[] {
+  private keyOf(pattern: ComposablePattern): string {
+    return this.knowledge.keyedBy === 'id' ? pattern.id : pattern.name;
+  }
+
+  private label(key: string): string {
+    return this.knowledge.names.get(key) ?? key;
+  }
+
+  private detectViolations(keys: string[]): RuleViolation[] {
     const violations: RuleViolation[] = [];
 
     for (const rule of this.compositionRules) {
-      if (this.ruleApplies(rule, patternNames)) {
+      if (this.ruleApplies(rule, keys)) {
         violations.push({
           rule,
           severity: rule.severity,
@@ -293,20 +381,20 @@ export class PatternCompositionEngine {
     return violations;
   }
 
-  private generateRecommendations(patterns: Pattern[]): CompositionRecommendation[] {
+  private generateRecommendations(patterns: ComposablePattern[]): CompositionRecommendation[] {
     const recommendations: CompositionRecommendation[] = [];
-    const patternNames = patterns.map(p => p.name);
+    const keys = patterns.map(p => this.keyOf(p));
 
     // Check for missing complementary patterns
     for (const pattern of patterns) {
-      const complementary = this.getComplementaryPatterns(pattern.name);
+      const complementary = this.knowledge.complements.get(this.keyOf(pattern)) ?? [];
       for (const comp of complementary) {
-        if (!patternNames.includes(comp)) {
+        if (!keys.includes(comp) && !recommendations.some(r => r.pattern === comp)) {
           recommendations.push({
             type: 'add',
             pattern: comp,
-            reason: `${comp} complements ${pattern.name} for better design`,
-            confidence: 0.7,
+            reason: `${this.label(comp)} complements ${pattern.name} for better design`,
+            confidence: this.compatibilityMatrix.get(this.keyOf(pattern))?.get(comp) ?? 0.7,
             impact: 'medium',
           });
         }
@@ -316,8 +404,9 @@ export class PatternCompositionEngine {
     return recommendations;
   }
 
-  private detectWarnings(patterns: Pattern[]): CompositionWarning[] {
+  private detectWarnings(patterns: ComposablePattern[]): CompositionWarning[] {
     const warnings: CompositionWarning[] = [];
+    const keys = patterns.map(p => this.keyOf(p));
 
     // Complexity warnings
     if (patterns.length > 5) {
@@ -329,6 +418,18 @@ export class PatternCompositionEngine {
       });
     }
 
+    // Cautionary rules do not invalidate a composition but still deserve attention
+    for (const rule of this.compositionRules) {
+      if (rule.relationship === 'cautionary' && rule.patterns.every(p => keys.includes(p))) {
+        warnings.push({
+          pattern: rule.patterns.map(p => this.label(p)).join(' + '),
+          warning: rule.description,
+          severity: rule.severity,
+          mitigation: rule.reason,
+        });
+      }
+    }
+
     // Category imbalance warnings
     const categories = this.countPatternCategories(patterns);
     const maxCategory = Math.max(...Object.values(categories));
@@ -344,42 +445,31 @@ export class PatternCompositionEngine {
     return warnings;
   }
 
-  private identifySynergies(patternNames: string[]): PatternSynergy[] {
-    const synergies: PatternSynergy[] = [];
+  private identifySynergies(keys: string[]): PatternSynergy[] {
+    return this.knowledge.synergies.filter(synergy =>
+      synergy.patterns.every(p => keys.includes(p))
+    );
+  }
 
-    // Known synergistic combinations
-    const knownSynergies = [
-      {
-        patterns: ['Factory Method', 'Abstract Factory'],
-        benefit: 'Hierarchical object creation with family support',
-        confidence: 0.9,
-        examples: ['UI frameworks', 'Database access layers'],
-      },
-      {
-        patterns: ['Observer', 'Mediator'],
-        benefit: 'Decoupled communication with central coordination',
-        confidence: 0.85,
-        examples: ['Chat systems', 'Event brokers'],
-      },
-      {
-        patterns: ['Adapter', 'Decorator'],
-        benefit: 'Interface adaptation with dynamic feature addition',
-        confidence: 0.8,
-        examples: ['Plugin systems', 'Legacy modernization'],
-      },
-    ];
+  private pairwiseCompatibility(keys: string[]): PatternCompatibility[] {
+    const pairs: PatternCompatibility[] = [];
 
-    for (const synergy of knownSynergies) {
-      if (synergy.patterns.every(p => patternNames.includes(p))) {
-        synergies.push(synergy);
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        const score =
+          this.compatibilityMatrix.get(keys[i])?.get(keys[j]) ??
+          this.compatibilityMatrix.get(keys[j])?.get(keys[i]);
+        if (score !== undefined) {
+          pairs.push({ patterns: [keys[i], keys[j]], score });
+        }
       }
     }
 
-    return synergies;
+    return pairs;
   }
 
   private calculateCompositionScore(
-    patterns: Pattern[],
+    patterns: ComposablePattern[],
     violations: RuleViolation[],
     synergies: PatternSynergy[]
   ): number {
@@ -411,37 +501,29 @@ export class PatternCompositionEngine {
     return Math.max(0, Math.min(100, score));
   }
 
-  private ruleApplies(rule: CompositionRule, patternNames: string[]): boolean {
+  private ruleApplies(rule: CompositionRule, keys: string[]): boolean {
     if (rule.relationship === 'incompatible') {
-      return rule.patterns.every(p => patternNames.includes(p));
+      return rule.patterns.every(p => keys.includes(p));
     }
     return false;
   }
 
   private generateSuggestion(rule: CompositionRule): string {
+    const [first, second] = rule.patterns.map(p => this.label(p));
     switch (rule.relationship) {
       case 'incompatible':
-        return `Avoid combining ${rule.patterns.join(' and ')}. Consider using ${rule.patterns[0]} or ${rule.patterns[1]} instead.`;
+        return (
+          `Avoid combining ${first} and ${second}. ` +
+          `Consider using ${first} or ${second} instead.`
+        );
       default:
         return rule.reason;
     }
   }
 
-  private getComplementaryPatterns(patternName: string): string[] {
-    const complementary: Record<string, string[]> = {
-      'Factory Method': ['Abstract Factory', 'Prototype'],
-      'Observer': ['Mediator', 'Command'],
-      'Adapter': ['Decorator', 'Facade'],
-      'Strategy': ['State', 'Template Method'],
-      'Builder': ['Prototype', 'Flyweight'],
-    };
-
-    return complementary[patternName] || [];
-  }
-
-  private countPatternCategories(patterns: Pattern[]): Record<string, number> {
+  private countPatternCategories(patterns: ComposablePattern[]): Record<string, number> {
     const categories: Record<string, number> = {};
-    
+
     for (const pattern of patterns) {
       const category = pattern.category || 'other';
       categories[category] = (categories[category] || 0) + 1;
@@ -450,46 +532,34 @@ export class PatternCompositionEngine {
     return categories;
   }
 
-  private findConflictingPatterns(patternNames: string[]): [string, string][] {
+  private findConflictingPatterns(keys: string[]): [string, string][] {
     const conflicts: [string, string][] = [];
-    
-    // Known conflicting pattern pairs
-    const conflictingPairs = [
-      ['Singleton', 'Prototype'],
-      ['Flyweight', 'Singleton'],
-    ];
 
-    for (const [pattern1, pattern2] of conflictingPairs) {
-      if (patternNames.includes(pattern1) && patternNames.includes(pattern2)) {
-        conflicts.push([pattern1, pattern2]);
+    for (const rule of this.compositionRules) {
+      const conflicting =
+        rule.relationship === 'incompatible' || rule.relationship === 'cautionary';
+      if (conflicting && rule.patterns.every(p => keys.includes(p))) {
+        conflicts.push([this.label(rule.patterns[0]), this.label(rule.patterns[1])]);
       }
     }
 
     return conflicts;
   }
 
-  private findRedundantPatterns(patterns: Pattern[]): string[] {
+  private findRedundantPatterns(keys: string[]): string[] {
     const redundant: string[] = [];
-    
-    // Check for patterns with similar purposes
-    const similarPatterns = [
-      ['Factory Method', 'Abstract Factory'],
-      ['Adapter', 'Decorator'],
-    ];
-
-    for (const [pattern1, pattern2] of similarPatterns) {
-      const hasPattern1 = patterns.some(p => p.name === pattern1);
-      const hasPattern2 = patterns.some(p => p.name === pattern2);
-      
-      if (hasPattern1 && hasPattern2) {
-        redundant.push(pattern2); // Mark second as potentially redundant
+
+    for (const [pattern1, pattern2] of this.knowledge.redundancies) {
+      const label = this.label(pattern2);
+      if (keys.includes(pattern1) && keys.includes(pattern2) && !redundant.includes(label)) {
+        redundant.push(label); // Mark second as potentially redundant
       }
     }
 
     return redundant;
   }
 
-  private detectPatternMisuse(pattern: Pattern): AntiPatternDetection | null {
+  private detectPatternMisuse(pattern: ComposablePattern): AntiPatternDetection | null {
     // Check for common pattern misuses
     if (pattern.name === 'Singleton' && pattern.description.includes('testing')) {
       return {
@@ -516,41 +586,32 @@ export class PatternCompositionEngine {
     return null;
   }
 
-  private getPatternPrerequisites(): Map<string, string[]> {
-    const prerequisites = new Map<string, string[]>();
-    
-    // Define pattern prerequisites
-    prerequisites.set('Abstract Factory', ['Factory Method']);
-    prerequisites.set('Decorator', ['Component']);
-    prerequisites.set('Composite', ['Component']);
-
-    return prerequisites;
-  }
-
-  private getOptimalPatternOrder(patternNames: string[]): string[] {
-    // Define optimal ordering for common pattern combinations
-    const orderings: Record<string, string[]> = {
-      'creational': ['Singleton', 'Factory Method', 'Abstract Factory', 'Builder', 'Prototype'],
-      'structural': ['Adapter', 'Bridge', 'Composite', 'Decorator', 'Facade', 'Flyweight', 'Proxy'],
-      'behavioral': ['Chain of Responsibility', 'Command', 'Iterator', 'Mediator', 'Memento', 'Observer', 'State', 'Strategy', 'Template Method', 'Visitor'],
+  /**
+   * Classic GoF order first, then every prerequisite moved ahead of the patterns needing it
+   */
+  private getOptimalPatternOrder(patterns: ComposablePattern[]): ComposablePattern[] {
+    const rank = (p: ComposablePattern) => {
+      const index = GOF_ORDER.indexOf(p.name);
+      return index === -1 ? GOF_ORDER.length : index;
     };
-
-    // Simple ordering by category
-    const ordered: string[] = [];
-    for (const category of ['creational', 'structural', 'behavioral']) {
-      const categoryPatterns = orderings[category] || [];
-      for (const pattern of categoryPatterns) {
-        if (patternNames.includes(pattern)) {
-          ordered.push(pattern);
-        }
+    const pending = [...patterns].sort((a, b) => rank(a) - rank(b));
+    const ordered: ComposablePattern[] = [];
+    const placed = new Set<string>();
+
+    const place = (pattern: ComposablePattern, visiting: Set<string>) => {
+      const key = this.keyOf(pattern);
+      if (placed.has(key) || visiting.has(key)) return;
+      visiting.add(key);
+      for (const req of this.knowledge.prerequisites.get(key) ?? []) {
+        const prerequisite = pending.find(p => this.keyOf(p) === req);
+        if (prerequisite) place(prerequisite, visiting);
       }
-    }
+      placed.add(key);
+      ordered.push(pattern);
+    };
 
-    // Add any remaining patterns
-    for (const pattern of patternNames) {
-      if (!ordered.includes(pattern)) {
-        ordered.push(pattern);
-      }
+    for (const pattern of pending) {
+      place(pattern, new Set());
     }
 
     return ordered;
@@ -559,79 +620,198 @@ export class PatternCompositionEngine {
   private arraysEqual(a: string[], b: string[]): boolean {
     return a.length === b.length && a.every((val, index) => val === b[index]);
   }
+}
 
-  private initializeCompositionRules(): CompositionRule[] {
-    return [
-      {
-        id: 'singleton-prototype-conflict',
-        name: 'Singleton-Prototype Conflict',
-        description: 'Singleton and Prototype patterns have conflicting object management approaches',
-        patterns: ['Singleton', 'Prototype'],
-        relationship: 'incompatible',
-        reason: 'Singleton ensures single instance while Prototype creates multiple instances through cloning',
-        severity: 'high',
-        category: 'creational',
-      },
-      {
-        id: 'flyweight-singleton-caution',
-        name: 'Flyweight-Singleton Caution',
-        description: 'Flyweight and Singleton may conflict in object sharing strategy',
-        patterns: ['Flyweight', 'Singleton'],
-        relationship: 'cautionary',
-        reason: 'Both patterns manage object instances differently - ensure clear separation of concerns',
-        severity: 'medium',
-        category: 'structural',
-      },
-      {
-        id: 'factory-abstract-factory-recommended',
-        name: 'Factory-Abstract Factory Recommendation',
-        description: 'Factory Method and Abstract Factory work well together',
-        patterns: ['Factory Method', 'Abstract Factory'],
-        relationship: 'recommended',
-        reason: 'Factory Method creates individual objects while Abstract Factory creates families of related objects',
-        severity: 'low',
-        category: 'creational',
-      },
-    ];
+/**
+ * Composition knowledge derived from catalog relationships, keyed by pattern ID.
+ * conflicts become rules, complements become synergies and recommendations,
+ * prerequisites drive sequence validation and similar/alternative pairs redundancy.
+ */
+export function buildCompositionKnowledge(
+  relationships: RelationshipWithPatterns[]
+): CompositionKnowledge {
+  const knowledge: CompositionKnowledge = {
+    keyedBy: 'id',
+    rules: [],
+    compatibility: new Map(),
+    complements: new Map(),
+    prerequisites: new Map(),
+    redundancies: [],
+    synergies: [],
+    names: new Map(),
+  };
+  const append = (map: Map<string, string[]>, key: string, value: string) => {
+    const values = map.get(key) ?? [];
+    if (!values.includes(value)) map.set(key, [...values, value]);
+  };
+  const score = (a: string, b: string, value: number) => {
+    const row = knowledge.compatibility.get(a) ?? new Map<string, number>();
+    row.set(b, Math.min(row.get(b) ?? 1, value));
+    knowledge.compatibility.set(a, row);
+  };
+
+  for (const rel of relationships) {
+    const { sourcePattern: source, targetPattern: target } = rel;
+    knowledge.names.set(source.id, source.name);
+    knowledge.names.set(target.id, target.name);
+
+    const strength = rel.strength;
+    switch (RELATIONSHIP_ROLES[String(rel.type).toLowerCase()]) {
+      case 'conflicts':
+        knowledge.rules.push({
+          id: `${source.id}-${target.id}-conflict`,
+          name: `${source.name}-${target.name} Conflict`,
+          description:
+            rel.description || `${source.name} and ${target.name} have conflicting approaches`,
+          patterns: [source.id, target.id],
+          relationship: strength >= INCOMPATIBLE_STRENGTH ? 'incompatible' : 'cautionary',
+          reason: rel.description,
+          severity:
+            strength >= INCOMPATIBLE_STRENGTH ? 'high' : strength >= 0.4 ? 'medium' : 'low',
+          category: ruleCategory(source.category),
+        });
+        score(source.id, target.id, 1 - strength);
+        break;
+      case 'complements':
+        append(knowledge.complements, source.id, target.id);
+        if (rel.type === 'complements') append(knowledge.complements, target.id, source.id);
+        knowledge.synergies.push({
+          patterns: [source.id, target.id],
+          benefit: rel.description || `${source.name} works well with ${target.name}`,
+          confidence: strength,
+          examples: [],
+        });
+        score(source.id, target.id, strength);
+        break;
+      case 'prerequisite':
+        append(knowledge.prerequisites, source.id, target.id);
+        score(source.id, target.id, strength);
+        break;
+      case 'alternative':
+        knowledge.redundancies.push([source.id, target.id]);
+        break;
+    }
   }
 
-  private initializeCompatibilityMatrix(): Map<string, Map<string, number>> {
-    const matrix = new Map<string, Map<string, number>>();
+  return knowledge;
+}
 
-    // Initialize compatibility scores between patterns
-    const compatibilityScores: Record<string, Record<string, number>> = {
-      'Factory Method': {
-        'Abstract Factory': 0.9,
-        'Builder': 0.7,
-        'Prototype': 0.8,
-        'Singleton': 0.6,
-      },
-      'Abstract Factory': {
-        'Factory Method': 0.9,
-        'Builder': 0.8,
-        'Prototype': 0.7,
+function ruleCategory(category: string): CompositionRule['category'] {
+  const normalized = category.toLowerCase();
+  return ['creational', 'structural', 'behavioral'].includes(normalized)
+    ? (normalized as CompositionRule['category'])
+    : 'architectural';
+}
+
+/**
+ * Built-in knowledge for the classic GoF patterns, keyed by pattern name
+ */
+function defaultCompositionKnowledge(): CompositionKnowledge {
+  const rules: CompositionRule[] = [
+    {
+      id: 'singleton-prototype-conflict',
+      name: 'Singleton-Prototype Conflict',
+      description: 'Singleton and Prototype patterns have conflicting object management approaches',
+      patterns: ['Singleton', 'Prototype'],
+      relationship: 'incompatible',
+      reason: 'Singleton ensures single instance while Prototype creates multiple instances through cloning',
+      severity: 'high',
+      category: 'creational',
+    },
+    {
+      id: 'flyweight-singleton-caution',
+      name: 'Flyweight-Singleton Caution',
+      description: 'Flyweight and Singleton may conflict in object sharing strategy',
+      patterns: ['Flyweight', 'Singleton'],
+      relationship: 'cautionary',
+      reason: 'Both patterns manage object instances differently - ensure clear separation of concerns',
+      severity: 'medium',
+      category: 'structural',
+    },
+    {
+      id: 'factory-abstract-factory-recommended',
+      name: 'Factory-Abstract Factory Recommendation',
+      description: 'Factory Method and Abstract Factory work well together',
+      patterns: ['Factory Method', 'Abstract Factory'],
+      relationship: 'recommended',
+      reason: 'Factory Method creates individual objects while Abstract Factory creates families of related objects',
+      severity: 'low',
+      category: 'creational',
+    },
+  ];
+
+  // Compatibility scores between patterns
+  const compatibilityScores: Record<string, Record<string, number>> = {
+    'Factory Method': {
+      'Abstract Factory': 0.9,
+      'Builder': 0.7,
+      'Prototype': 0.8,
+      'Singleton': 0.6,
+    },
+    'Abstract Factory': {
+      'Factory Method': 0.9,
+      'Builder': 0.8,
+      'Prototype': 0.7,
+    },
+    'Observer': {
+      'Mediator': 0.85,
+      'Command': 0.9,
+      'Strategy': 0.7,
+    },
+    'Adapter': {
+      'Decorator': 0.8,
+      'Facade': 0.85,
+      'Proxy': 0.7,
+    },
+  };
+
+  const complementary: Record<string, string[]> = {
+    'Factory Method': ['Abstract Factory', 'Prototype'],
+    'Observer': ['Mediator', 'Command'],
+    'Adapter': ['Decorator', 'Facade'],
+    'Strategy': ['State', 'Template Method'],
+    'Builder': ['Prototype', 'Flyweight'],
+  };
+
+  return {
+    keyedBy: 'name',
+    rules,
+    compatibility: new Map(
+      Object.entries(compatibilityScores).map(([pattern, scores]) => [
+        pattern,
+        new Map(Object.entries(scores)),
+      ])
+    ),
+    complements: new Map(Object.entries(complementary)),
+    prerequisites: new Map([
+      ['Abstract Factory', ['Factory Method']],
+      ['Decorator', ['Component']],
+      ['Composite', ['Component']],
+    ]),
+    redundancies: [
+      ['Factory Method', 'Abstract Factory'],
+      ['Adapter', 'Decorator'],
+    ],
+    synergies: [
+      {
+        patterns: ['Factory Method', 'Abstract Factory'],
+        benefit: 'Hierarchical object creation with family support',
+        confidence: 0.9,
+        examples: ['UI frameworks', 'Database access layers'],
       },
-      'Observer': {
-        'Mediator': 0.85,
-        'Command': 0.9,
-        'Strategy': 0.7,
+      {
+        patterns: ['Observer', 'Mediator'],
+        benefit: 'Decoupled communication with central coordination',
+        confidence: 0.85,
+        examples: ['Chat systems', 'Event brokers'],
       },
-      'Adapter': {
-        'Decorator': 0.8,
-        'Facade': 0.85,
-        'Proxy': 0.7,
+      {
+        patterns: ['Adapter', 'Decorator'],
+        benefit: 'Interface adaptation with dynamic feature addition',
+        confidence: 0.8,
+        examples: ['Plugin systems', 'Legacy modernization'],
       },
-    };
-
-    // Convert to Map structure
-    for (const [pattern1, scores] of Object.entries(compatibilityScores)) {
-      const patternMap = new Map<string, number>();
-      for (const [pattern2, score] of Object.entries(scores)) {
-        patternMap.set(pattern2, score);
-      }
-      matrix.set(pattern1, patternMap);
-    }
-
-    return matrix;
-  }
-}
\ No newline at end of file
+    ],
+    names: new Map(),
+  };
+}
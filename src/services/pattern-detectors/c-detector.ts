@@ -0,0 +1,199 @@
+/**
+ * C Pattern Detector
+ * C has no classes, so patterns show up as conventions: static instances behind
+ * accessors, structs of function pointers, callback tables and opaque handles.
+ */
+
+import {
+  C_STYLE_SYNTAX,
+  escapeRegExp,
+  maskSource,
+  matchingBrace,
+  structuralMatch,
+} from './source-scanner.js';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+interface CFunction {
+  name: string;
+  returns: string;
+  parameters: string;
+  body?: string;
+  start: number;
+  end: number;
+}
+
+interface CModel {
+  code: string;
+  masked: string;
+  functions: CFunction[];
+}
+
+const FUNCTION_DECL = /^[ \t]*((?:\w+[ \t]+|\w+[ \t]*\*+[ \t]*)+)(\w+)\s*\(([^;{)]*)\)\s*(\{|;)/gm;
+const FUNCTION_POINTER_FIELD = /\(\s*\*\s*(\w+)\s*\)\s*\(/g;
+const STATIC_POINTER = /^static\s+[\w\s]+\*\s*(\w+)\s*(=\s*NULL\s*)?;/gm;
+const CALLBACK_ARRAY =
+  /\(\s*\*\s*(\w+)\s*\[[^\]]*\]\s*\)\s*\(|\b\w+_(?:cb|callback|fn|handler)_?t?\s+(\w+)\s*\[/g;
+const INCOMPLETE_STRUCT = /^[ \t]*(?:typedef\s+)?struct\s+(\w+)\s*(\w+)?\s*;/gm;
+
+export class CPatternDetector implements LanguagePatternDetector {
+  readonly languages = ['c'];
+
+  detect(code: string, _language: string): StructuralMatch[] {
+    const masked = maskSource(code, C_STYLE_SYNTAX);
+    const model: CModel = { code, masked, functions: this.parseFunctions(masked) };
+
+    return [
+      ...this.detectSingletons(model),
+      ...this.detectFunctionTables(model),
+      ...this.detectObservers(model),
+      ...this.detectOpaquePointers(model),
+    ];
+  }
+
+  private parseFunctions(masked: string): CFunction[] {
+    return [...masked.matchAll(FUNCTION_DECL)]
+      .filter(decl => !/^(if|for|while|switch|return|sizeof)$/.test(decl[2]))
+      .filter(decl => !/^(return|else|case|goto|do)\b/.test(decl[1].trim()))
+      .map(decl => {
+        const start = decl.index ?? 0;
+        const open = start + decl[0].length - 1;
+        const close = decl[4] === '{' ? matchingBrace(masked, open) : open;
+        return {
+          name: decl[2],
+          returns: decl[1].replace(/\s+/g, ' ').trim(),
+          parameters: decl[3].replace(/\s+/g, ' ').trim(),
+          body: decl[4] === '{' ? masked.slice(open + 1, close) : undefined,
+          start: start + (decl[0].length - decl[0].trimStart().length),
+          end: close + 1,
+        };
+      });
+  }
+
+  /**
+   * Singleton: accessor returning a static instance it creates on first call
+   */
+  private detectSingletons(model: CModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+    const globals = [...model.masked.matchAll(STATIC_POINTER)].map(match => match[1]);
+
+    for (const fn of model.functions.filter(f => f.body && f.returns.includes('*'))) {
+      const body = fn.body ?? '';
+      const locals = [...body.matchAll(/\bstatic\s+[\w\s]+\*\s*(\w+)/g)].map(match => match[1]);
+      const instance = [...locals, ...globals].find(name => {
+        const ref = escapeRegExp(name);
+        const guard = `(!\\s*${ref}|${ref}\\s*==\\s*NULL|NULL\\s*==\\s*${ref})`;
+        return (
+          new RegExp(`if\\s*\\(\\s*${guard}\\s*\\)`).test(body) &&
+          new RegExp(`\\breturn\\s+&?${ref}\\s*;`).test(body)
+        );
+      });
+      if (!instance) continue;
+
+      const once = /\b(pthread_once|call_once)\s*\(/.test(body);
+      matches.push(
+        structuralMatch(model.code, 'Singleton', fn, once ? 0.9 : 0.85, [
+          `${fn.name}() lazily creates and returns static ${instance}`,
+          ...(once ? ['initialisation guarded by a once-flag'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: struct of function pointers with several concrete tables
+   */
+  private detectFunctionTables(model: CModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of model.masked.matchAll(/\bstruct\s+(\w+)\s*\{/g)) {
+      const start = decl.index ?? 0;
+      const close = matchingBrace(model.masked, start + decl[0].length - 1);
+      const fields = [
+        ...model.masked.slice(start, close).matchAll(FUNCTION_POINTER_FIELD),
+      ].map(match => match[1]);
+      if (fields.length === 0) continue;
+
+      const name = escapeRegExp(decl[1]);
+      const field = escapeRegExp(fields[0]);
+      const initializer = new RegExp(
+        `\\bstruct\\s+${name}\\s+(\\w+)\\s*=\\s*\\{[^}]*\\.${field}\\s*=`,
+        'g'
+      );
+      const tables = [...model.masked.matchAll(initializer)].map(match => match[1]);
+      if (tables.length < 2) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Strategy', { start, end: close + 1 }, 0.8, [
+          `struct ${decl[1]} exposes function pointers ${fields.join(', ')}`,
+          `${tables.length} interchangeable implementations (${tables.join(', ')})`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: array of callbacks filled by a register function and invoked in a loop
+   */
+  private detectObservers(model: CModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+    const arrays = [...model.masked.matchAll(CALLBACK_ARRAY)].map(match => match[1] ?? match[2]);
+
+    for (const array of arrays) {
+      const ref = escapeRegExp(array);
+      const register = model.functions.find(fn =>
+        new RegExp(`\\b${ref}\\s*\\[[^\\]]*\\]\\s*=\\s*\\w+`).test(fn.body ?? '')
+      );
+      const invoke = new RegExp(`\\b${ref}\\s*\\[[^\\]]*\\]\\s*\\(`);
+      const notify = model.functions.find(
+        fn => /\bfor\s*\(/.test(fn.body ?? '') && invoke.test(fn.body ?? '')
+      );
+      if (!register || !notify) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Observer', notify, 0.8, [
+          `callback table '${array}'`,
+          `${register.name}() registers callbacks`,
+          `${notify.name}() invokes each callback`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Opaque Pointer: incomplete struct type manipulated only through functions
+   */
+  private detectOpaquePointers(model: CModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of model.masked.matchAll(INCOMPLETE_STRUCT)) {
+      const tag = decl[1];
+      const alias = decl[2];
+      if (new RegExp(`\\bstruct\\s+${escapeRegExp(tag)}\\s*\\{`).test(model.masked)) continue;
+
+      const handle = new RegExp(
+        `\\b(struct\\s+${escapeRegExp(tag)}|${escapeRegExp(alias ?? tag)})\\s*\\*`
+      );
+      const api = model.functions.filter(
+        fn => handle.test(fn.parameters) || handle.test(`${fn.returns} `)
+      );
+      if (api.length < 2) continue;
+
+      const start = (decl.index ?? 0) + (decl[0].length - decl[0].trimStart().length);
+      const range = { start, end: start + decl[0].trim().length };
+      matches.push(
+        structuralMatch(model.code, 'Opaque Pointer', range, 0.8, [
+          `incomplete type struct ${tag}`,
+          `${api.length} functions operate on the handle (${api.map(fn => fn.name).join(', ')})`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,630 @@
+/**
+ * C-Family Pattern Detector
+ * Shared class-shape rules for Java and C#. Language subclasses contribute
+ * their idioms (enum singletons, events, ...) through detectIdioms.
+ */
+
+import {
+  baseTypeName,
+  parseCFamilyTypes,
+  typeArguments,
+  type CFamilyMember,
+  type CFamilyType,
+} from './c-family-model.js';
+import {
+  C_STYLE_SYNTAX,
+  escapeRegExp,
+  maskSource,
+  structuralMatch,
+} from './source-scanner.js';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+export interface CFamilyModel {
+  code: string;
+  types: CFamilyType[];
+}
+
+const COLLECTION_TYPES = new Set([
+  'List',
+  'ArrayList',
+  'LinkedList',
+  'Set',
+  'HashSet',
+  'LinkedHashSet',
+  'Collection',
+  'CopyOnWriteArrayList',
+  'Vector',
+  'Queue',
+  'IList',
+  'ICollection',
+  'ISet',
+  'ConcurrentBag',
+]);
+
+/** Return types that say nothing about a created product */
+const NON_PRODUCT_TYPES = new Set([
+  ...COLLECTION_TYPES,
+  'void',
+  'Task',
+  'ValueTask',
+  'Optional',
+  'Future',
+  'CompletableFuture',
+  'Map',
+  'Dictionary',
+  'IEnumerable',
+  'Iterable',
+  'Object',
+  'object',
+  'String',
+  'string',
+  'int',
+  'long',
+  'boolean',
+  'bool',
+  'double',
+]);
+
+const ITERATOR_TYPES = new Set([
+  'Iterator',
+  'Iterable',
+  'IEnumerator',
+  'IEnumerable',
+  'Enumeration',
+]);
+const BUILD_METHOD = /^(build|create|make|get(Result|Product)|toObject)$/i;
+
+export abstract class CFamilyPatternDetector implements LanguagePatternDetector {
+  abstract readonly languages: readonly string[];
+
+  detect(code: string, _language: string): StructuralMatch[] {
+    const model: CFamilyModel = {
+      code,
+      types: parseCFamilyTypes(maskSource(code, C_STYLE_SYNTAX)),
+    };
+
+    return [
+      ...this.detectSingletons(model),
+      ...this.detectFactoryMethods(model),
+      ...this.detectAbstractFactories(model),
+      ...this.detectBuilders(model),
+      ...this.detectWrappers(model),
+      ...this.detectAdapters(model),
+      ...this.detectObservers(model),
+      ...this.detectStrategies(model),
+      ...this.detectCommands(model),
+      ...this.detectIterators(model),
+      ...this.detectTemplateMethods(model),
+      ...this.detectIdioms(model),
+    ];
+  }
+
+  /**
+   * Language-specific rules layered on top of the shared ones
+   */
+  protected abstract detectIdioms(model: CFamilyModel): StructuralMatch[];
+
+  /**
+   * Singleton: static instance holder exposed through a static accessor and/or
+   * guarded by a non-public constructor (eager, lazy, Lazy<T> and holder-class forms)
+   */
+  private detectSingletons(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'class')) {
+      // Initialization-on-demand holder: nested class keeps the outer instance
+      const holderClass = type.outer !== undefined && this.isStatic(type);
+      const owner = holderClass
+        ? model.types.find(t => t.name === type.outer)
+        : type;
+      if (!owner) continue;
+
+      const holder = type.members.find(
+        member =>
+          (member.kind === 'field' || member.kind === 'property') &&
+          this.isStatic(member) &&
+          (this.holdsType(member.type, owner.name) ||
+            (!holderClass && /^_?instance$/i.test(member.name)))
+      );
+      if (!holder) continue;
+
+      const holderName = holderClass ? `${type.name}.${holder.name}` : holder.name;
+      const holderRef = `\\b${escapeRegExp(holderName)}\\b`;
+      const returned = new RegExp(`(return|=>)\\s+[^;]*${holderRef}`);
+      const accessor = owner.members.find(
+        member =>
+          member !== holder &&
+          member.kind !== 'constructor' &&
+          this.isStatic(member) &&
+          (returned.test(member.body ?? '') ||
+            new RegExp(holderRef).test(member.initializer ?? ''))
+      );
+      const hiddenConstructor = owner.members.find(
+        member =>
+          member.kind === 'constructor' &&
+          (member.modifiers.includes('private') || member.modifiers.includes('protected'))
+      );
+      if (!accessor && !hiddenConstructor) continue;
+
+      const indicators = [
+        holderClass
+          ? `holder class ${type.name} keeps the ${owner.name} instance`
+          : `static instance ${this.describe(holder)}`,
+      ];
+      if (accessor) indicators.push(`static accessor ${accessor.name} returns the instance`);
+      if (hiddenConstructor) indicators.push('non-public constructor');
+
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Singleton',
+          owner,
+          0.6 + (accessor ? 0.2 : 0) + (hiddenConstructor ? 0.2 : 0),
+          indicators
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Factory Method: abstract creator method overridden by subclasses that
+   * return concrete products
+   */
+  private detectFactoryMethods(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const creator of model.types.filter(t => t.kind === 'class' && this.isAbstract(t))) {
+      for (const method of this.abstractMethods(creator)) {
+        const productType = baseTypeName(method.type);
+        if (productType === '' || NON_PRODUCT_TYPES.has(productType)) continue;
+
+        const overrides = this.subclassesOf(model, creator.name).filter(sub =>
+          sub.members.some(
+            member =>
+              member.kind === 'method' &&
+              member.name === method.name &&
+              /\breturn\s+new\s+\w+/.test(member.body ?? `return ${member.initializer ?? ''}`)
+          )
+        );
+
+        matches.push(
+          structuralMatch(
+            model.code,
+            'Factory Method',
+            method,
+            overrides.length > 0 ? 0.9 : 0.7,
+            [
+              `abstract ${method.name}(): ${productType} in ${creator.name}`,
+              ...overrides.map(sub => `${sub.name}.${method.name}() returns a concrete product`),
+            ]
+          )
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Abstract Factory: factory abstraction declaring several product creation methods
+   */
+  private detectAbstractFactories(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const factory of model.types.filter(t => this.isAbstract(t))) {
+      const creators = this.abstractMethods(factory).filter(method =>
+        /^(create|make)\w+/i.test(method.name)
+      );
+      const products = new Set(creators.map(method => baseTypeName(method.type)));
+      if (creators.length < 2 || products.size < 2) continue;
+
+      const implementors = this.implementorsOf(model, factory.name);
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Abstract Factory',
+          factory,
+          implementors.length > 0 ? 0.85 : 0.7,
+          [
+            `${creators.length} creation methods for ${[...products].join(', ')}`,
+            ...implementors.map(impl => `concrete factory ${impl.name}`),
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Builder: fluent setters returning the builder plus a terminal build method
+   */
+  private detectBuilders(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'class' || t.kind === 'struct')) {
+      const methods = type.members.filter(member => member.kind === 'method');
+      const fluent = methods.filter(
+        method =>
+          baseTypeName(method.type) === type.name &&
+          /\breturn\s+this\s*;/.test(method.body ?? '')
+      );
+      const build = methods.find(
+        method => BUILD_METHOD.test(method.name) && baseTypeName(method.type) !== type.name
+      );
+
+      const namedBuilder = /Builder$/.test(type.name);
+      if (!build || (fluent.length < 2 && !(namedBuilder && fluent.length > 0))) continue;
+
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Builder',
+          type,
+          Math.min(0.5 + fluent.length * 0.1, 0.8) + (namedBuilder ? 0.15 : 0),
+          [
+            `${fluent.length} fluent methods returning this (${fluent
+              .map(m => m.name)
+              .join(', ')})`,
+            `terminal ${build.name}() method`,
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator and Proxy: implements a type while wrapping another instance of
+   * it. Injected wrappees are decorators, self-instantiated ones proxies.
+   */
+  private detectWrappers(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'class' || t.kind === 'struct')) {
+      for (const wrapped of this.wrappedMembers(type)) {
+        if (!type.supertypes.includes(wrapped.type)) continue;
+
+        const delegated = this.delegations(type, wrapped.name).filter(([outer, inner]) =>
+          this.sameName(outer, inner)
+        );
+        if (delegated.length === 0 && !/(Decorator|Proxy)$/.test(type.name)) continue;
+
+        const instantiated = type.members.some(
+          member =>
+            member.kind === 'method' &&
+            new RegExp(`\\b${escapeRegExp(wrapped.name)}\\s*(\\?\\?)?=\\s*new\\b`).test(
+              member.body ?? ''
+            )
+        );
+        const pattern = instantiated ? 'Proxy' : 'Decorator';
+
+        matches.push(
+          structuralMatch(model.code, pattern, type, delegated.length > 0 ? 0.85 : 0.6, [
+            `${type.name} is a ${wrapped.type} wrapping a ${wrapped.type} ('${wrapped.name}')`,
+            ...(delegated.length > 0
+              ? [`delegates ${delegated.map(([method]) => method).join(', ')}`]
+              : []),
+            ...(instantiated ? ['creates the wrapped subject lazily'] : []),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Adapter: implements a target type by translating calls to a differently typed adaptee
+   */
+  private detectAdapters(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'class' && t.supertypes.length > 0)) {
+      for (const wrapped of this.wrappedMembers(type)) {
+        if (type.supertypes.includes(wrapped.type)) continue;
+
+        const translated = this.delegations(type, wrapped.name).filter(
+          ([outer, inner]) => !this.sameName(outer, inner)
+        );
+        if (translated.length === 0) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Adapter', type, /Adapter$/.test(type.name) ? 0.9 : 0.75, [
+            `adapts ${wrapped.type} to ${type.supertypes.join(', ')}`,
+            ...translated.map(([outer, inner]) => `${outer}() -> ${wrapped.name}.${inner}()`),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: subject keeps a listener collection, registers and notifies listeners
+   */
+  private detectObservers(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types) {
+      for (const field of type.members.filter(m => this.isCollection(m))) {
+        const ref = `(?:this\\.)?${escapeRegExp(field.name)}`;
+        const methods = type.members.filter(member => member.kind === 'method');
+
+        const register = methods.find(method =>
+          method.parameters.some(param =>
+            new RegExp(`${ref}\\.(add|Add)\\(\\s*${escapeRegExp(param.name)}\\b`).test(
+              method.body ?? ''
+            )
+          )
+        );
+        const loop = new RegExp(
+          [
+            `for\\s*\\([^:;)]*:\\s*${ref}\\s*\\)`,
+            `foreach\\s*\\([^)]*\\bin\\s+${ref}\\s*\\)`,
+            `${ref}\\.(forEach|ForEach)\\(`,
+          ].join('|')
+        );
+        const notify = methods.find(method => loop.test(method.body ?? ''));
+        if (!register || !notify) continue;
+
+        const unregister = methods.find(method =>
+          new RegExp(`${ref}\\.(remove|Remove)\\(`).test(method.body ?? '')
+        );
+        matches.push(
+          structuralMatch(model.code, 'Observer', type, unregister ? 0.9 : 0.8, [
+            `listener collection '${field.name}'`,
+            `${register.name}() registers listeners`,
+            `${notify.name}() notifies each listener`,
+            ...(unregister ? [`${unregister.name}() removes listeners`] : []),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: abstraction with interchangeable implementations held by a context
+   */
+  private detectStrategies(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const strategy of model.types.filter(t => this.isAbstract(t))) {
+      if (this.abstractMethods(strategy).length === 0) continue;
+
+      const implementors = this.implementorsOf(model, strategy.name);
+      if (implementors.length < 2) continue;
+
+      const context = model.types.find(
+        type =>
+          type !== strategy &&
+          !type.supertypes.includes(strategy.name) &&
+          this.wrappedMembers(type).some(member => member.type === strategy.name)
+      );
+      if (!context) continue;
+
+      const setter = context.members.find(
+        member =>
+          (member.kind === 'method' &&
+            member.parameters.some(param => baseTypeName(param.type) === strategy.name)) ||
+          (member.kind === 'property' &&
+            baseTypeName(member.type) === strategy.name &&
+            /\bset\b/.test(member.body ?? ''))
+      );
+
+      matches.push(
+        structuralMatch(model.code, 'Strategy', strategy, setter ? 0.9 : 0.75, [
+          `${implementors.length} interchangeable ${strategy.name} implementations (${implementors
+            .map(impl => impl.name)
+            .join(', ')})`,
+          `context ${context.name} holds a ${strategy.name}`,
+          ...(setter ? [`${setter.name} swaps the strategy at runtime`] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Command: parameterless execute contract with several concrete commands
+   */
+  private detectCommands(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const command of model.types.filter(t => this.isAbstract(t))) {
+      const methods = this.abstractMethods(command);
+      const execute = methods.find(
+        method => /^(execute|run|invoke)$/i.test(method.name) && method.parameters.length === 0
+      );
+      if (!execute) continue;
+
+      const commands = this.implementorsOf(model, command.name);
+      if (commands.length < 2) continue;
+
+      const undo = methods.some(method => /^(undo|revert|rollback)$/i.test(method.name));
+      matches.push(
+        structuralMatch(model.code, 'Command', command, undo ? 0.9 : 0.75, [
+          `${command.name}.${execute.name}() implemented by ${commands.length} commands`,
+          ...(undo ? ['supports undo'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Iterator: iterator/enumerable contracts, hasNext()/next() pairs or `yield return`
+   */
+  private detectIterators(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind !== 'interface')) {
+      const contract = type.supertypes.find(supertype => ITERATOR_TYPES.has(supertype));
+      const names = type.members.map(member => member.name);
+      const generator = type.members.find(
+        member => member.kind === 'method' && /\byield\s+return\b/.test(member.body ?? '')
+      );
+
+      if (contract) {
+        matches.push(
+          structuralMatch(model.code, 'Iterator', type, 0.85, [`implements ${contract}`])
+        );
+      } else if (names.includes('hasNext') && names.includes('next')) {
+        matches.push(
+          structuralMatch(model.code, 'Iterator', type, 0.8, ['hasNext()/next() traversal'])
+        );
+      } else if (generator) {
+        matches.push(
+          structuralMatch(model.code, 'Iterator', generator, 0.75, [
+            `${generator.name}() yields elements lazily`,
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Template Method: concrete method of an abstract class calling abstract steps
+   */
+  private detectTemplateMethods(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'class' && this.isAbstract(t))) {
+      const steps = this.abstractMethods(type).map(method => method.name);
+      if (steps.length === 0) continue;
+
+      for (const method of type.members.filter(m => m.kind === 'method' && m.body)) {
+        const called = steps.filter(step =>
+          new RegExp(`(?<![\\w.])(?:this\\.)?${escapeRegExp(step)}\\s*\\(`).test(method.body ?? '')
+        );
+        if (called.length === 0) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Template Method', method, called.length > 1 ? 0.85 : 0.7, [
+            `${type.name}.${method.name}() calls abstract steps ${called.join(', ')}`,
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Model helpers
+  // ---------------------------------------------------------------------------
+
+  protected isStatic(node: CFamilyMember | CFamilyType): boolean {
+    return node.modifiers.includes('static') || node.modifiers.includes('const');
+  }
+
+  protected isAbstract(type: CFamilyType): boolean {
+    return type.kind === 'interface' || type.modifiers.includes('abstract');
+  }
+
+  /**
+   * Interface members without a default body and explicit abstract methods
+   */
+  protected abstractMethods(type: CFamilyType): CFamilyMember[] {
+    return type.members.filter(
+      member =>
+        member.kind === 'method' &&
+        (member.modifiers.includes('abstract') ||
+          (type.kind === 'interface' &&
+            member.body === undefined &&
+            member.initializer === undefined &&
+            !this.isStatic(member)))
+    );
+  }
+
+  protected subclassesOf(model: CFamilyModel, name: string): CFamilyType[] {
+    return model.types.filter(type => type.supertypes.includes(name));
+  }
+
+  protected implementorsOf(model: CFamilyModel, name: string): CFamilyType[] {
+    return this.subclassesOf(model, name).filter(type => !this.isAbstract(type));
+  }
+
+  /**
+   * Whether a declared type is (or lazily wraps) the named type
+   */
+  protected holdsType(declared: string, name: string): boolean {
+    const base = baseTypeName(declared);
+    if (base === name) return true;
+    return (
+      (base === 'Lazy' || base === 'AtomicReference') &&
+      typeArguments(declared).some(arg => baseTypeName(arg) === name)
+    );
+  }
+
+  /**
+   * Instance fields/properties and constructor parameters holding a single object
+   */
+  protected wrappedMembers(type: CFamilyType): Array<{ name: string; type: string }> {
+    const wrapped: Array<{ name: string; type: string }> = [];
+
+    for (const member of type.members) {
+      if (
+        (member.kind === 'field' || member.kind === 'property') &&
+        !this.isStatic(member) &&
+        !this.isCollection(member) &&
+        !/\[\]$/.test(member.type)
+      ) {
+        wrapped.push({ name: member.name, type: baseTypeName(member.type) });
+      }
+      if (member.kind === 'constructor') {
+        for (const param of member.parameters) {
+          if (!wrapped.some(w => w.name === param.name)) {
+            wrapped.push({ name: param.name, type: baseTypeName(param.type) });
+          }
+        }
+      }
+    }
+
+    return wrapped;
+  }
+
+  /**
+   * [method, called method] pairs for methods forwarding to `field`
+   */
+  protected delegations(type: CFamilyType, field: string): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    const call = new RegExp(`(?<![\\w.])(?:this\\.)?${escapeRegExp(field)}\\.(\\w+)\\s*\\(`);
+
+    for (const member of type.members.filter(m => m.kind === 'method')) {
+      const match = call.exec(member.body ?? member.initializer ?? '');
+      if (match) pairs.push([member.name, match[1]]);
+    }
+
+    return pairs;
+  }
+
+  protected isCollection(member: CFamilyMember): boolean {
+    return (
+      (member.kind === 'field' || member.kind === 'property') &&
+      COLLECTION_TYPES.has(baseTypeName(member.type)) &&
+      typeArguments(member.type).length > 0
+    );
+  }
+
+  protected sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+
+  private describe(member: CFamilyMember): string {
+    return `${member.type} ${member.name}`;
+  }
+}
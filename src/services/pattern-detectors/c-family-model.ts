@@ -0,0 +1,324 @@
+/**
+ * C-Family Type Model
+ * Lightweight declaration parser for Java and C#: types, supertypes, fields,
+ * properties, constructors and methods with body ranges. Operates on masked
+ * source (see maskSource) so offsets line up with the original code.
+ */
+
+import { matchingBrace, splitTopLevel } from './source-scanner.js';
+
+export type MemberKind = 'field' | 'property' | 'method' | 'constructor';
+
+export interface CFamilyParameter {
+  type: string;
+  name: string;
+}
+
+export interface CFamilyMember {
+  kind: MemberKind;
+  name: string;
+  /** Declared type (fields/properties) or return type (methods) */
+  type: string;
+  modifiers: string[];
+  parameters: CFamilyParameter[];
+  /** Field initializer or expression body */
+  initializer?: string;
+  /** Block body without the surrounding braces */
+  body?: string;
+  start: number;
+  end: number;
+}
+
+export interface CFamilyType {
+  kind: 'class' | 'interface' | 'enum' | 'record' | 'struct';
+  name: string;
+  modifiers: string[];
+  supertypes: string[];
+  /** Name of the enclosing type for nested declarations */
+  outer?: string;
+  enumConstants: string[];
+  members: CFamilyMember[];
+  start: number;
+  end: number;
+}
+
+const MODIFIERS = new Set([
+  'public',
+  'private',
+  'protected',
+  'internal',
+  'static',
+  'final',
+  'abstract',
+  'sealed',
+  'partial',
+  'readonly',
+  'virtual',
+  'override',
+  'async',
+  'synchronized',
+  'volatile',
+  'transient',
+  'native',
+  'default',
+  'const',
+  'extern',
+  'unsafe',
+  'new',
+  'event',
+  'strictfp',
+]);
+
+const TYPE_MODIFIERS =
+  'public|private|protected|internal|static|final|abstract|sealed|partial|readonly|strictfp';
+const TYPE_HEADER = new RegExp(
+  `((?:\\b(?:${TYPE_MODIFIERS})\\s+)*)\\b(class|interface|enum|record|struct)\\s+(\\w+)([^{;]*)\\{`,
+  'g'
+);
+const SUPERTYPE_CLAUSE =
+  /\b(extends|implements)\b([\s\S]*?)(?=\b(?:extends|implements|permits)\b|$)/g;
+
+/**
+ * Parse every (possibly nested) type declaration in masked source
+ */
+export function parseCFamilyTypes(masked: string): CFamilyType[] {
+  const types: CFamilyType[] = [];
+
+  for (const header of masked.matchAll(TYPE_HEADER)) {
+    const start = header.index ?? 0;
+    const open = start + header[0].length - 1;
+    const close = matchingBrace(masked, open);
+    const kind = header[2] as CFamilyType['kind'];
+
+    types.push({
+      kind,
+      name: header[3],
+      modifiers: header[1].trim().split(/\s+/).filter(Boolean),
+      supertypes: parseSupertypes(header[4]),
+      enumConstants: [],
+      members: [],
+      start,
+      end: close + 1,
+    });
+
+    const type = types[types.length - 1];
+    parseBody(masked, open + 1, close, type);
+  }
+
+  for (const type of types) {
+    const outer = types
+      .filter(
+        candidate =>
+          candidate !== type && candidate.start < type.start && candidate.end >= type.end
+      )
+      .sort((a, b) => b.start - a.start)[0];
+    type.outer = outer?.name;
+  }
+
+  return types;
+}
+
+/**
+ * Base name of a type reference: `List<Foo>[]` -> `List`, `Outer.Inner?` -> `Inner`
+ */
+export function baseTypeName(type: string): string {
+  const withoutGenerics = type.replace(/<.*>/, '').replace(/[[\]?*&\s]/g, '');
+  const parts = withoutGenerics.split('.');
+  return parts[parts.length - 1];
+}
+
+/**
+ * Generic arguments of a type reference: `Map<String, List<Foo>>` -> ['String', 'List<Foo>']
+ */
+export function typeArguments(type: string): string[] {
+  const open = type.indexOf('<');
+  const close = type.lastIndexOf('>');
+  if (open === -1 || close <= open) return [];
+  return splitTopLevel(type.slice(open + 1, close));
+}
+
+function parseSupertypes(headerRest: string): string[] {
+  // Drop record components, generic parameters of the declared type and C# constraints
+  let rest = headerRest.replace(/^\s*\([^)]*\)/, '').replace(/\bwhere\b[\s\S]*$/, '');
+  rest = rest.replace(/^\s*<[^>]*(?:<[^>]*>[^>]*)*>/, '');
+
+  const names: string[] = [];
+  const java = /\b(extends|implements|permits)\b/.test(rest);
+  if (java) {
+    for (const clause of rest.matchAll(SUPERTYPE_CLAUSE)) {
+      names.push(...splitTopLevel(clause[2]));
+    }
+  } else if (rest.includes(':')) {
+    names.push(...splitTopLevel(rest.slice(rest.indexOf(':') + 1)));
+  }
+
+  return names.map(name => baseTypeName(name)).filter(Boolean);
+}
+
+function parseBody(masked: string, from: number, to: number, type: CFamilyType): void {
+  let segmentStart = from;
+  let i = from;
+
+  if (type.kind === 'enum') {
+    // Enum constants run up to the first top-level ';' (Java) or the closing brace (C#)
+    let depth = 0;
+    let end = to;
+    for (let j = from; j < to; j++) {
+      const char = masked[j];
+      if ('({'.includes(char)) depth++;
+      else if (')}'.includes(char)) depth--;
+      else if (char === ';' && depth === 0) {
+        end = j;
+        break;
+      }
+    }
+    type.enumConstants = splitTopLevel(masked.slice(from, end))
+      .map(constant => /^(?:@\w+\s*)*(\w+)/.exec(constant)?.[1] ?? '')
+      .filter(Boolean);
+    segmentStart = i = end === to ? to : end + 1;
+  }
+
+  while (i < to) {
+    const char = masked[i];
+
+    if (char === ';') {
+      addMember(masked, segmentStart, i, undefined, type);
+      segmentStart = i + 1;
+    } else if (char === '{') {
+      const head = masked.slice(segmentStart, i);
+      const close = matchingBrace(masked, i);
+
+      if (/\b(class|interface|enum|record|struct)\s+\w+/.test(head)) {
+        // Nested types are parsed separately by parseCFamilyTypes
+        segmentStart = i = close + 1;
+        continue;
+      }
+
+      if (isFieldWithBlockInitializer(head)) {
+        // Anonymous classes / array initializers belong to the field; keep scanning to ';'
+        i = close + 1;
+        continue;
+      }
+
+      addMember(masked, segmentStart, close + 1, { open: i, close }, type);
+      segmentStart = i = close + 1;
+      // C# properties may carry an initializer after the accessor block: `{ get; } = new();`
+      const trailing = /^\s*=[^;{]*;/.exec(masked.slice(i, to));
+      if (trailing) segmentStart = i = i + trailing[0].length;
+      continue;
+    }
+
+    i++;
+  }
+}
+
+function isFieldWithBlockInitializer(head: string): boolean {
+  const equals = head.indexOf('=');
+  if (equals === -1 || head[equals + 1] === '>') return false;
+  const paren = head.indexOf('(');
+  return paren === -1 || equals < paren;
+}
+
+function addMember(
+  masked: string,
+  start: number,
+  end: number,
+  block: { open: number; close: number } | undefined,
+  type: CFamilyType
+): void {
+  const raw = masked.slice(start, block ? block.open : end);
+  const leading = raw.length - raw.trimStart().length;
+  // Strip annotations / attributes
+  const head = raw
+    .replace(/@\w+(?:\.\w+)*(?:\s*\([^)]*\))?/g, ' ')
+    .replace(/^\s*(?:\[[^\]]*\]\s*)+/, '')
+    .trim();
+  if (head === '') return;
+
+  const memberStart = start + leading;
+  const body = block ? masked.slice(block.open + 1, block.close) : undefined;
+
+  // Expression-bodied members: `int Count => items.Count;`
+  const arrow = head.indexOf('=>');
+  const signature = arrow >= 0 ? head.slice(0, arrow).trim() : head;
+  const expressionBody = arrow >= 0 ? head.slice(arrow + 2).trim() : undefined;
+
+  const paren = signature.indexOf('(');
+  const equals = signature.indexOf('=');
+  const isCallable = paren >= 0 && (equals === -1 || paren < equals);
+
+  if (isCallable) {
+    const close = matchingBrace(signature, paren, '(', ')');
+    const { modifiers, name, declaredType } = splitDeclaration(signature.slice(0, paren));
+    if (!name) return;
+    type.members.push({
+      kind: declaredType === '' && name === type.name ? 'constructor' : 'method',
+      name,
+      type: declaredType,
+      modifiers,
+      parameters: parseParameters(signature.slice(paren + 1, close)),
+      initializer: expressionBody,
+      body,
+      start: memberStart,
+      end,
+    });
+    return;
+  }
+
+  const declaration = equals >= 0 ? signature.slice(0, equals) : signature;
+  const { modifiers, name, declaredType } = splitDeclaration(declaration);
+  if (!name || declaredType === '') return;
+
+  type.members.push({
+    kind: block !== undefined || expressionBody !== undefined ? 'property' : 'field',
+    name,
+    type: declaredType,
+    modifiers,
+    parameters: [],
+    initializer: equals >= 0 ? signature.slice(equals + 1).trim() : expressionBody,
+    body,
+    start: memberStart,
+    end,
+  });
+}
+
+function splitDeclaration(text: string): {
+  modifiers: string[];
+  name: string;
+  declaredType: string;
+} {
+  // Keep generic arguments together: `Map<String, List<X>> cache`
+  const tokens = splitTopLevel(text.replace(/\s+/g, ' ').trim(), ' ');
+  const name = tokens.pop() ?? '';
+  const modifiers: string[] = [];
+  const typeTokens: string[] = [];
+
+  for (const token of tokens) {
+    if (typeTokens.length === 0 && MODIFIERS.has(token)) modifiers.push(token);
+    else if (!token.startsWith('<') || typeTokens.length > 0) typeTokens.push(token);
+  }
+
+  return {
+    modifiers,
+    name: /^[\w$]+$/.test(name) ? name : '',
+    declaredType: typeTokens.join(' '),
+  };
+}
+
+function parseParameters(text: string): CFamilyParameter[] {
+  return splitTopLevel(text)
+    .map(param =>
+      param
+        .replace(/@\w+(?:\s*\([^)]*\))?/g, ' ')
+        .replace(/\b(final|ref|out|in|params|this|readonly)\s+/g, '')
+        .replace(/\s*=.*$/, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .map(param => {
+      const tokens = splitTopLevel(param, ' ');
+      const name = tokens.pop() ?? '';
+      return { type: tokens.join(' ').replace(/\.\.\.$/, '[]'), name: name.replace(/^\.\.\./, '') };
+    })
+    .filter(param => param.name !== '' && param.type !== '');
+}
@@ -0,0 +1,45 @@
+/**
+ * C# Pattern Detector
+ * Shared C-family rules plus C# idioms such as event-based observers
+ */
+
+import { CFamilyPatternDetector, type CFamilyModel } from './c-family-detector.js';
+import { escapeRegExp, structuralMatch } from './source-scanner.js';
+import type { StructuralMatch } from './types.js';
+
+export class CSharpPatternDetector extends CFamilyPatternDetector {
+  readonly languages = ['csharp', 'c#', 'cs'];
+
+  protected detectIdioms(model: CFamilyModel): StructuralMatch[] {
+    return this.detectEventObservers(model);
+  }
+
+  /**
+   * Observer via `event` members raised from within the publishing class
+   */
+  private detectEventObservers(model: CFamilyModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types) {
+      const events = type.members.filter(member => member.modifiers.includes('event'));
+      if (events.length === 0) continue;
+
+      const raised = events.filter(event =>
+        type.members.some(member =>
+          new RegExp(`\\b${escapeRegExp(event.name)}\\s*(\\?\\.\\s*Invoke\\s*)?\\(`).test(
+            member.body ?? member.initializer ?? ''
+          )
+        )
+      );
+
+      matches.push(
+        structuralMatch(model.code, 'Observer', type, raised.length > 0 ? 0.9 : 0.7, [
+          `events ${events.map(event => event.name).join(', ')}`,
+          ...(raised.length > 0 ? [`raises ${raised.map(event => event.name).join(', ')}`] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * Go Pattern Detector
+ * Works on method sets: Go interfaces are satisfied implicitly, so
+ * implementors are found by comparing receiver methods to interface methods.
+ */
+
+import {
+  C_STYLE_SYNTAX,
+  escapeRegExp,
+  maskSource,
+  matchingBrace,
+  splitTopLevel,
+  structuralMatch,
+  type LexicalSyntax,
+} from './source-scanner.js';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+const GO_SYNTAX: LexicalSyntax = { ...C_STYLE_SYNTAX, quotes: ['"', "'", '`'] };
+
+interface GoField {
+  name: string;
+  type: string;
+}
+
+interface GoType {
+  kind: 'struct' | 'interface' | 'func' | 'other';
+  name: string;
+  /** Struct fields, interface method names (type '') or the func signature (single entry) */
+  fields: GoField[];
+  start: number;
+  end: number;
+}
+
+interface GoFunc {
+  name: string;
+  receiver?: { name: string; type: string };
+  parameters: GoField[];
+  results: string;
+  body: string;
+  start: number;
+  end: number;
+}
+
+interface GoModel {
+  code: string;
+  masked: string;
+  types: GoType[];
+  funcs: GoFunc[];
+}
+
+const TYPE_DECL =
+  /^type\s+(\w+)(?:\[[^\]]*\])?\s+(struct\s*\{|interface\s*\{|func\b[^\n]*|[^\n]*)/gm;
+const FUNC_DECL =
+  /^func\s+(?:\(\s*(\w+)?\s*\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)(?:\[[^\]]*\])?\s*\(/gm;
+
+export class GoPatternDetector implements LanguagePatternDetector {
+  readonly languages = ['go', 'golang'];
+
+  detect(code: string, _language: string): StructuralMatch[] {
+    const model = this.parse(code);
+
+    return [
+      ...this.detectFunctionalOptions(model),
+      ...this.detectSingletons(model),
+      ...this.detectBuilders(model),
+      ...this.detectFactories(model),
+      ...this.detectWrappers(model),
+      ...this.detectFuncAdapters(model),
+      ...this.detectObservers(model),
+      ...this.detectStrategies(model),
+      ...this.detectIterators(model),
+    ];
+  }
+
+  private parse(code: string): GoModel {
+    const masked = maskSource(code, GO_SYNTAX);
+
+    const types = [...masked.matchAll(TYPE_DECL)].map(decl => {
+      const start = decl.index ?? 0;
+      const body = decl[2];
+      if (body.startsWith('struct') || body.startsWith('interface')) {
+        const open = start + decl[0].length - 1;
+        const close = matchingBrace(masked, open);
+        const kind: GoType['kind'] = body.startsWith('struct') ? 'struct' : 'interface';
+        return {
+          kind,
+          name: decl[1],
+          fields: this.parseFields(masked.slice(open + 1, close), kind),
+          start,
+          end: close + 1,
+        };
+      }
+      const kind: GoType['kind'] = body.startsWith('func') ? 'func' : 'other';
+      return {
+        kind,
+        name: decl[1],
+        fields: [{ name: '', type: body.trim() }],
+        start,
+        end: start + decl[0].length,
+      };
+    });
+
+    const funcs = [...masked.matchAll(FUNC_DECL)].map(decl => {
+      const start = decl.index ?? 0;
+      const paramsOpen = start + decl[0].length - 1;
+      const paramsClose = matchingBrace(masked, paramsOpen, '(', ')');
+      const open = masked.indexOf('{', paramsClose);
+      const close = open === -1 ? paramsClose : matchingBrace(masked, open);
+
+      return {
+        name: decl[3],
+        receiver: decl[2] ? { name: decl[1] ?? '', type: decl[2] } : undefined,
+        parameters: this.parseParameters(masked.slice(paramsOpen + 1, paramsClose)),
+        results: masked.slice(paramsClose + 1, open === -1 ? paramsClose + 1 : open).trim(),
+        body: open === -1 ? '' : masked.slice(open + 1, close),
+        start,
+        end: close + 1,
+      };
+    });
+
+    return { code, masked, types, funcs };
+  }
+
+  private parseFields(text: string, kind: 'struct' | 'interface'): GoField[] {
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line !== '')
+      .map(line => {
+        if (kind === 'interface') {
+          return { name: /^(\w+)\s*\(/.exec(line)?.[1] ?? '', type: '' };
+        }
+        const [name, ...type] = line.split(/\s+/);
+        // Embedded fields are named after their type
+        return type.length === 0 || type[0].startsWith('`')
+          ? { name: name.replace(/^\*/, '').replace(/^.*\./, ''), type: name }
+          : { name, type: type.join(' ').replace(/\s*`.*$/, '') };
+      })
+      .filter(field => field.name !== '');
+  }
+
+  private parseParameters(text: string): GoField[] {
+    const params = splitTopLevel(text).map(param => {
+      const [name, ...type] = param.split(/\s+/);
+      return { name, type: type.join(' ') };
+    });
+    // `a, b int` shares the trailing type
+    for (let i = params.length - 2; i >= 0; i--) {
+      if (params[i].type === '') params[i].type = params[i + 1].type;
+    }
+    return params;
+  }
+
+  /**
+   * Functional Options: `type Option func(*T)`, WithX constructors and a variadic NewT
+   */
+  private detectFunctionalOptions(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const option of model.types.filter(type => type.kind === 'func')) {
+      const target = /^func\s*\(\s*\*(\w+)\s*\)/.exec(option.fields[0].type)?.[1];
+      if (!target) continue;
+
+      const withers = model.funcs.filter(
+        fn => !fn.receiver && /^With[A-Z]/.test(fn.name) && fn.results === option.name
+      );
+      const constructor = model.funcs.find(fn =>
+        fn.parameters.some(param => param.type === `...${option.name}`)
+      );
+      if (withers.length === 0) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Functional Options', option, constructor ? 0.9 : 0.75, [
+          `${option.name} configures *${target}`,
+          `${withers.length} option constructors (${withers.map(fn => fn.name).join(', ')})`,
+          ...(constructor ? [`${constructor.name}(...${option.name}) applies the options`] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Singleton: package-level instance initialised through sync.Once
+   */
+  private detectSingletons(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+    const onces = [...model.masked.matchAll(/^\s*(?:var\s+)?(\w+)\s+sync\.Once\b/gm)].map(
+      match => match[1]
+    );
+
+    for (const once of onces) {
+      const guarded = new RegExp(`\\b${escapeRegExp(once)}\\.Do\\(`);
+      const accessor = model.funcs.find(
+        fn => guarded.test(fn.body) && /\breturn\s+\w+/.test(fn.body)
+      );
+      if (!accessor) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Singleton', accessor, 0.9, [
+          `${accessor.name}() initialises the instance once via ${once}.Do`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Builder: chainable methods returning the receiver plus a Build method
+   */
+  private detectBuilders(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'struct')) {
+      const methods = this.methodsOf(model, type.name);
+      const fluent = methods.filter(
+        fn =>
+          fn.receiver?.name &&
+          fn.results.replace('*', '') === type.name &&
+          new RegExp(`\\breturn\\s+${escapeRegExp(fn.receiver.name)}\\s*$`, 'm').test(fn.body)
+      );
+      const build = methods.find(fn => /^(Build|Create|Make)$/.test(fn.name));
+      const namedBuilder = /Builder$/.test(type.name);
+      if (!build || (fluent.length < 2 && !(namedBuilder && fluent.length > 0))) continue;
+
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Builder',
+          type,
+          Math.min(0.5 + fluent.length * 0.1, 0.8) + (namedBuilder ? 0.15 : 0),
+          [
+            `${fluent.length} chainable methods returning the receiver`,
+            `terminal ${build.name}() method`,
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Factory: function returning an interface, choosing the concrete type in a switch
+   */
+  private detectFactories(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+    const interfaces = new Set(model.types.filter(t => t.kind === 'interface').map(t => t.name));
+
+    for (const fn of model.funcs.filter(f => !f.receiver)) {
+      const product = /^\(?\s*(\w+)/.exec(fn.results)?.[1];
+      if (!product || !interfaces.has(product) || !/\bswitch\b/.test(fn.body)) continue;
+
+      const concrete = new Set(
+        [...fn.body.matchAll(/\breturn\s+&?(\w+)\s*\{|\breturn\s+New(\w+)\s*\(/g)].map(
+          match => match[1] ?? match[2]
+        )
+      );
+      if (concrete.size < 2) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Factory Method', fn, 0.8, [
+          `${fn.name}() returns ${product}`,
+          `selects between ${[...concrete].join(', ')}`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator: struct satisfying an interface while wrapping another implementation,
+   * plus `func(http.Handler) http.Handler` style middleware
+   */
+  private detectWrappers(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const iface of model.types.filter(t => t.kind === 'interface')) {
+      for (const type of this.implementorsOf(model, iface)) {
+        const wrapped = type.fields.find(field => field.type === iface.name);
+        if (!wrapped) continue;
+
+        const delegated = this.methodsOf(model, type.name).filter(
+          fn =>
+            fn.receiver?.name &&
+            new RegExp(
+              `\\b${escapeRegExp(fn.receiver.name)}\\.${escapeRegExp(wrapped.name)}\\.${fn.name}\\(`
+            ).test(fn.body)
+        );
+        if (delegated.length === 0) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Decorator', type, 0.85, [
+            `${type.name} satisfies ${iface.name} and wraps a ${iface.name}`,
+            `delegates ${delegated.map(fn => fn.name).join(', ')}`,
+          ])
+        );
+      }
+    }
+
+    for (const fn of model.funcs.filter(f => !f.receiver && f.parameters.length === 1)) {
+      const handler = fn.parameters[0].type;
+      if (!/(^|\.)Handler$/.test(handler) || fn.results !== handler) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Decorator', fn, 0.85, [
+          `middleware ${fn.name}(${handler}) ${handler}`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Adapter: function type with methods so plain functions satisfy an interface (HandlerFunc)
+   */
+  private detectFuncAdapters(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'func')) {
+      const adapting = this.methodsOf(model, type.name).find(
+        fn => fn.receiver?.name && new RegExp(`\\b${fn.receiver.name}\\s*\\(`).test(fn.body)
+      );
+      if (!adapting) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Adapter', type, 0.85, [
+          `${type.name}.${adapting.name}() lets plain functions satisfy the interface`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: slice of subscribers, append-based registration and a range notification loop
+   */
+  private detectObservers(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'struct')) {
+      const methods = this.methodsOf(model, type.name);
+
+      for (const field of type.fields.filter(f => f.type.startsWith('[]'))) {
+        const ref = (fn: GoFunc) => `${escapeRegExp(fn.receiver?.name ?? '')}\\.${field.name}`;
+        const register = methods.find(fn =>
+          new RegExp(`${ref(fn)}\\s*=\\s*append\\(\\s*${ref(fn)}\\s*,`).test(fn.body)
+        );
+        const notify = methods.find(fn =>
+          new RegExp(`for\\s+\\w+\\s*,\\s*(\\w+)\\s*:=\\s*range\\s+${ref(fn)}\\b`).test(fn.body)
+        );
+        if (!register || !notify) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Observer', type, 0.85, [
+            `subscriber slice '${field.name}' (${field.type})`,
+            `${register.name}() appends subscribers`,
+            `${notify.name}() ranges over subscribers`,
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: interface implicitly satisfied by several types and held by a context struct
+   */
+  private detectStrategies(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const iface of model.types.filter(t => t.kind === 'interface' && t.fields.length > 0)) {
+      const implementors = this.implementorsOf(model, iface);
+      if (implementors.length < 2) continue;
+
+      const context = model.types.find(
+        type =>
+          type.kind === 'struct' &&
+          !implementors.includes(type) &&
+          type.fields.some(field => field.type === iface.name)
+      );
+      if (!context) continue;
+
+      const setter = this.methodsOf(model, context.name).find(fn =>
+        fn.parameters.some(param => param.type === iface.name)
+      );
+      matches.push(
+        structuralMatch(model.code, 'Strategy', iface, setter ? 0.9 : 0.75, [
+          `${implementors.length} types satisfy ${iface.name} (${implementors
+            .map(type => type.name)
+            .join(', ')})`,
+          `context ${context.name} holds a ${iface.name}`,
+          ...(setter ? [`${setter.name}() swaps the strategy at runtime`] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Iterator: Next() bool cursor with an accessor, or functions returning iter.Seq
+   */
+  private detectIterators(model: GoModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const type of model.types.filter(t => t.kind === 'struct')) {
+      const methods = this.methodsOf(model, type.name);
+      const next = methods.find(fn => fn.name === 'Next' && fn.results === 'bool');
+      const accessor = methods.find(fn => /^(Value|Item|Current|Scan|Entry)$/.test(fn.name));
+      if (!next || !accessor) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Iterator', type, 0.85, [
+          `Next() bool cursor with ${accessor.name}()`,
+        ])
+      );
+    }
+
+    for (const fn of model.funcs.filter(f => /^iter\.Seq2?\b/.test(f.results))) {
+      matches.push(
+        structuralMatch(model.code, 'Iterator', fn, 0.85, [`${fn.name}() returns ${fn.results}`])
+      );
+    }
+
+    return matches;
+  }
+
+  private methodsOf(model: GoModel, typeName: string): GoFunc[] {
+    return model.funcs.filter(fn => fn.receiver?.type === typeName);
+  }
+
+  /**
+   * Concrete types whose method set covers every method of the interface
+   */
+  private implementorsOf(model: GoModel, iface: GoType): GoType[] {
+    const required = iface.fields.map(field => field.name);
+    if (required.length === 0) return [];
+
+    return model.types.filter(type => {
+      if (type.kind === 'interface') return false;
+      const methods = new Set(this.methodsOf(model, type.name).map(fn => fn.name));
+      return required.every(name => methods.has(name));
+    });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Pattern Detector Registry
+ * Maps language identifiers to structural detector plugins
+ */
+
+import { CPatternDetector } from './c-detector.js';
+import { CSharpPatternDetector } from './csharp-detector.js';
+import { GoPatternDetector } from './go-detector.js';
+import { JavaPatternDetector } from './java-detector.js';
+import { PythonPatternDetector } from './python-detector.js';
+import { RustPatternDetector } from './rust-detector.js';
+import { TypeScriptPatternDetector } from './typescript-detector.js';
+import type { LanguagePatternDetector } from './types.js';
+
+export class PatternDetectorRegistry {
+  private readonly detectors = new Map<string, LanguagePatternDetector>();
+
+  /**
+   * Register a detector for all of its languages; later registrations win
+   */
+  register(detector: LanguagePatternDetector): this {
+    for (const language of detector.languages) {
+      this.detectors.set(language.toLowerCase(), detector);
+    }
+    return this;
+  }
+
+  get(language: string): LanguagePatternDetector | undefined {
+    return this.detectors.get(language.toLowerCase());
+  }
+
+  languages(): string[] {
+    return [...this.detectors.keys()];
+  }
+}
+
+/**
+ * Registry with the bundled TypeScript/JavaScript, Python, Java, C#, Go, Rust and C detectors
+ */
+export function createDefaultDetectorRegistry(): PatternDetectorRegistry {
+  return new PatternDetectorRegistry()
+    .register(new TypeScriptPatternDetector())
+    .register(new PythonPatternDetector())
+    .register(new JavaPatternDetector())
+    .register(new CSharpPatternDetector())
+    .register(new GoPatternDetector())
+    .register(new RustPatternDetector())
+    .register(new CPatternDetector());
+}
+
+export { CPatternDetector } from './c-detector.js';
+export { CSharpPatternDetector } from './csharp-detector.js';
+export { GoPatternDetector } from './go-detector.js';
+export { JavaPatternDetector } from './java-detector.js';
+export { PythonPatternDetector } from './python-detector.js';
+export { RustPatternDetector } from './rust-detector.js';
+export { TypeScriptPatternDetector } from './typescript-detector.js';
+export type { LanguagePatternDetector, StructuralMatch } from './types.js';
@@ -0,0 +1,37 @@
+/**
+ * Java Pattern Detector
+ * Shared C-family rules plus Java idioms such as enum singletons
+ */
+
+import { CFamilyPatternDetector, type CFamilyModel } from './c-family-detector.js';
+import { structuralMatch } from './source-scanner.js';
+import type { StructuralMatch } from './types.js';
+
+export class JavaPatternDetector extends CFamilyPatternDetector {
+  readonly languages = ['java'];
+
+  protected detectIdioms(model: CFamilyModel): StructuralMatch[] {
+    return this.detectEnumSingletons(model);
+  }
+
+  /**
+   * Enum singleton (Effective Java, Item 3): a single-constant enum carrying state or behaviour
+   */
+  private detectEnumSingletons(model: CFamilyModel): StructuralMatch[] {
+    return model.types
+      .filter(type => type.kind === 'enum' && type.enumConstants.length === 1)
+      .filter(type => type.members.length > 0 || type.enumConstants[0] === 'INSTANCE')
+      .map(type =>
+        structuralMatch(
+          model.code,
+          'Singleton',
+          type,
+          type.enumConstants[0] === 'INSTANCE' ? 0.95 : 0.8,
+          [
+            `single-constant enum ${type.name}.${type.enumConstants[0]}`,
+            ...(type.members.length > 0 ? [`${type.members.length} members on the instance`] : []),
+          ]
+        )
+      );
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Python Pattern Detector
+ * Indentation-aware scanner for Python idioms: __new__/metaclass/decorator
+ * singletons, function decorators, ABC-based hierarchies and dunder protocols.
+ */
+
+import {
+  escapeRegExp,
+  indentedBlockEnd,
+  maskSource,
+  PYTHON_SYNTAX,
+  splitTopLevel,
+  structuralMatch,
+} from './source-scanner.js';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+interface PythonFunction {
+  name: string;
+  indent: number;
+  parameters: string[];
+  /** Parameter annotations by name */
+  annotations: Map<string, string>;
+  returns?: string;
+  decorators: string[];
+  body: string;
+  start: number;
+  end: number;
+}
+
+interface PythonClass {
+  name: string;
+  bases: string[];
+  metaclass?: string;
+  methods: PythonFunction[];
+  body: string;
+  start: number;
+  end: number;
+}
+
+interface PythonModel {
+  code: string;
+  classes: PythonClass[];
+  /** Module-level functions */
+  functions: PythonFunction[];
+}
+
+const CLASS_HEADER = /^([ \t]*)class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/gm;
+const DEF_HEADER = /^([ \t]*)(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)\s*(?:->\s*([^:]+))?:/gm;
+const LIST_ATTRIBUTE = /self\.(\w+)\s*(?::[^=\n]+)?=\s*(\[\]|list\(\)|set\(\))/g;
+/** Typing constructs that say nothing about a created product; builtins are lowercase */
+const NON_PRODUCT_TYPES = new Set(['None', 'Any', 'Optional', 'List', 'Dict', 'Iterator', 'Iterable']);
+
+export class PythonPatternDetector implements LanguagePatternDetector {
+  readonly languages = ['python', 'py'];
+
+  detect(code: string, _language: string): StructuralMatch[] {
+    const model = this.parse(code);
+
+    return [
+      ...this.detectSingletons(model),
+      ...this.detectFactoryMethods(model),
+      ...this.detectBuilders(model),
+      ...this.detectFunctionDecorators(model),
+      ...this.detectWrappers(model),
+      ...this.detectObservers(model),
+      ...this.detectStrategies(model),
+      ...this.detectCommands(model),
+      ...this.detectIterators(model),
+      ...this.detectTemplateMethods(model),
+    ];
+  }
+
+  private parse(code: string): PythonModel {
+    const masked = maskSource(code, PYTHON_SYNTAX);
+    const functions = [...masked.matchAll(DEF_HEADER)].map(header =>
+      this.toFunction(masked, header)
+    );
+
+    const classes = [...masked.matchAll(CLASS_HEADER)].map(header => {
+      const start = (header.index ?? 0) + header[1].length;
+      const end = indentedBlockEnd(masked, header.index ?? 0);
+      const args = splitTopLevel(header[3] ?? '');
+      const inside = functions.filter(fn => fn.start > start && fn.end <= end);
+      const methodIndent = Math.min(...inside.map(fn => fn.indent));
+
+      return {
+        name: header[2],
+        bases: args.filter(arg => !arg.includes('=')).map(arg => arg.replace(/^.*\./, '')),
+        metaclass: args
+          .find(arg => arg.startsWith('metaclass'))
+          ?.split('=')[1]
+          .trim(),
+        methods: inside.filter(fn => fn.indent === methodIndent),
+        body: masked.slice(start, end),
+        start,
+        end,
+      };
+    });
+
+    return {
+      code,
+      classes,
+      functions: functions.filter(fn => fn.indent === 0),
+    };
+  }
+
+  private toFunction(masked: string, header: RegExpMatchArray): PythonFunction {
+    const headerStart = header.index ?? 0;
+    const parameters: string[] = [];
+    const annotations = new Map<string, string>();
+
+    for (const param of splitTopLevel(header[3])) {
+      const [declaration] = param.split('=');
+      const [name, annotation] = declaration.split(':').map(part => part.trim());
+      const bare = name.replace(/^\*+/, '');
+      if (bare === '') continue;
+      parameters.push(bare);
+      if (annotation) annotations.set(bare, annotation.replace(/["']/g, ''));
+    }
+
+    // Decorators are the '@' lines directly above the def
+    const decorators: string[] = [];
+    const lines = masked.slice(0, headerStart).split('\n');
+    lines.pop();
+    for (let i = lines.length - 1; i >= 0 && lines[i].trim().startsWith('@'); i--) {
+      decorators.unshift(lines[i].trim().slice(1));
+    }
+
+    const start = headerStart + header[1].length;
+    const end = indentedBlockEnd(masked, headerStart);
+    return {
+      name: header[2],
+      indent: header[1].length,
+      parameters,
+      annotations,
+      returns: header[4]?.trim().replace(/["']/g, ''),
+      decorators,
+      body: masked.slice(headerStart + header[0].length, end),
+      start,
+      end,
+    };
+  }
+
+  /**
+   * Singleton via __new__ caching, a metaclass registry or a class decorator
+   */
+  private detectSingletons(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const newMethod = this.method(cls, '__new__');
+      if (newMethod && /\bcls\.(_{1,2}\w*instance\w*)\b/.test(newMethod.body)) {
+        matches.push(
+          structuralMatch(model.code, 'Singleton', cls, 0.9, [
+            '__new__ returns a cached class-level instance',
+          ])
+        );
+      }
+
+      const call = this.method(cls, '__call__');
+      if (cls.bases.includes('type') && call && /\b_instances\b/.test(call.body)) {
+        matches.push(
+          structuralMatch(model.code, 'Singleton', cls, 0.9, [
+            `metaclass ${cls.name}.__call__ caches one instance per class`,
+          ])
+        );
+      }
+    }
+
+    for (const fn of model.functions.filter(f => /singleton/i.test(f.name))) {
+      if (!/\n\s+def\s+\w+/.test(fn.body) || !/\breturn\s+\w+/.test(fn.body)) continue;
+      matches.push(
+        structuralMatch(model.code, 'Singleton', fn, 0.85, [
+          `class decorator ${fn.name}() caches the decorated class instance`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Factory Method: abstract creator overridden by subclasses constructing products
+   */
+  private detectFactoryMethods(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const creator of model.classes) {
+      for (const method of this.abstractMethods(creator)) {
+        const product = method.returns;
+        const productType = product?.replace(/\[.*$/, '');
+        const createsProduct = productType
+          ? /^[A-Z]/.test(productType) && !NON_PRODUCT_TYPES.has(productType)
+          : /^(create|make|factory)/.test(method.name);
+        if (!createsProduct) continue;
+
+        const overrides = this.subclassesOf(model, creator.name).filter(sub => {
+          const override = this.method(sub, method.name);
+          return override !== undefined && /\breturn\s+[A-Z]\w*\(/.test(override.body);
+        });
+
+        matches.push(
+          structuralMatch(model.code, 'Factory Method', method, overrides.length > 0 ? 0.9 : 0.7, [
+            `abstract ${creator.name}.${method.name}()${product ? ` -> ${product}` : ''}`,
+            ...overrides.map(sub => `${sub.name}.${method.name}() returns a concrete product`),
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Builder: methods returning self plus a terminal build()
+   */
+  private detectBuilders(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const fluent = cls.methods.filter(method => /\breturn\s+self\s*$/m.test(method.body));
+      const build = cls.methods.find(method =>
+        /^(build|create|make|get_result)$/.test(method.name)
+      );
+      const namedBuilder = /Builder$/.test(cls.name);
+      if (!build || (fluent.length < 2 && !(namedBuilder && fluent.length > 0))) continue;
+
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Builder',
+          cls,
+          Math.min(0.5 + fluent.length * 0.1, 0.8) + (namedBuilder ? 0.15 : 0),
+          [
+            `${fluent.length} fluent methods returning self (${fluent
+              .map(m => m.name)
+              .join(', ')})`,
+            `terminal ${build.name}() method`,
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator (function form): higher-order function returning a wrapper that calls the original
+   */
+  private detectFunctionDecorators(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const fn of model.functions) {
+      if (fn.parameters.length !== 1 || /singleton/i.test(fn.name)) continue;
+
+      const target = fn.parameters[0];
+      const wrapper = /\n([ \t]+)def\s+(\w+)\s*\([^)]*\)[^:]*:/.exec(fn.body);
+      if (!wrapper) continue;
+
+      const returnsWrapper = new RegExp(`\\breturn\\s+${wrapper[2]}\\s*$`, 'm').test(fn.body);
+      const callsTarget = new RegExp(`\\b${escapeRegExp(target)}\\s*\\(`).test(fn.body);
+      if (!returnsWrapper || !callsTarget) continue;
+
+      const wraps = /@(functools\.)?wraps\s*\(/.test(fn.body);
+      matches.push(
+        structuralMatch(model.code, 'Decorator', fn, wraps ? 0.9 : 0.8, [
+          `${fn.name}(${target}) returns wrapper ${wrapper[2]}() calling ${target}`,
+          ...(wraps ? ['preserves metadata with functools.wraps'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator and Proxy (class form): delegation to a wrapped object, or __getattr__ forwarding
+   */
+  private detectWrappers(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const init = this.method(cls, '__init__');
+      if (!init) continue;
+
+      for (const param of init.parameters.slice(1)) {
+        const stored = new RegExp(`self\\.(_{0,2}\\w+)\\s*=\\s*${escapeRegExp(param)}\\s*$`, 'm')
+          .exec(init.body)?.[1];
+        if (!stored) continue;
+
+        const getattr = this.method(cls, '__getattr__');
+        if (getattr && new RegExp(`getattr\\(\\s*self\\.${stored}\\b`).test(getattr.body)) {
+          matches.push(
+            structuralMatch(model.code, 'Proxy', cls, 0.85, [
+              `__getattr__ forwards attribute access to self.${stored}`,
+            ])
+          );
+          break;
+        }
+
+        const delegated = cls.methods.filter(method =>
+          new RegExp(`self\\.${stored}\\.${escapeRegExp(method.name)}\\s*\\(`).test(method.body)
+        );
+        const sharesBase = cls.bases.some(base => init.annotations.get(param) === base);
+        if (delegated.length === 0 || (!sharesBase && !/Decorator$/.test(cls.name))) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Decorator', cls, sharesBase ? 0.85 : 0.7, [
+            `wraps self.${stored}`,
+            `delegates ${delegated.map(method => method.name).join(', ')}`,
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: subscriber list, subscribe method appending and a notify loop
+   */
+  private detectObservers(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      for (const list of cls.body.matchAll(LIST_ATTRIBUTE)) {
+        const field = escapeRegExp(list[1]);
+        const register = cls.methods.find(method =>
+          method.parameters.some(param =>
+            new RegExp(`self\\.${field}\\.(append|add)\\(\\s*${escapeRegExp(param)}\\s*\\)`).test(
+              method.body
+            )
+          )
+        );
+        const notify = cls.methods.find(method =>
+          new RegExp(`for\\s+\\w+\\s+in\\s+(list\\()?self\\.${field}\\b`).test(method.body)
+        );
+        if (!register || !notify) continue;
+
+        const unregister = cls.methods.find(method =>
+          new RegExp(`self\\.${field}\\.(remove|discard)\\(`).test(method.body)
+        );
+        matches.push(
+          structuralMatch(model.code, 'Observer', cls, unregister ? 0.9 : 0.8, [
+            `subscriber collection self.${list[1]}`,
+            `${register.name}() registers subscribers`,
+            `${notify.name}() notifies each subscriber`,
+            ...(unregister ? [`${unregister.name}() removes subscribers`] : []),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: abstract base with several implementations injected into a context
+   */
+  private detectStrategies(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const strategy of model.classes.filter(cls => this.abstractMethods(cls).length > 0)) {
+      const implementations = this.subclassesOf(model, strategy.name);
+      if (implementations.length < 2) continue;
+
+      const accepts = (fn: PythonFunction) =>
+        [...fn.annotations.values()].some(annotation => annotation === strategy.name);
+      const context = model.classes.find(cls => {
+        const init = this.method(cls, '__init__');
+        return !cls.bases.includes(strategy.name) && init !== undefined && accepts(init);
+      });
+      if (!context) continue;
+
+      const setter = context.methods.find(method => method.name !== '__init__' && accepts(method));
+      matches.push(
+        structuralMatch(model.code, 'Strategy', strategy, setter ? 0.9 : 0.75, [
+          `${implementations.length} interchangeable ${strategy.name} implementations`,
+          `context ${context.name} receives a ${strategy.name}`,
+          ...(setter ? [`${setter.name}() swaps the strategy at runtime`] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Command: abstract execute(self) with several concrete commands
+   */
+  private detectCommands(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const command of model.classes) {
+      const abstract = this.abstractMethods(command);
+      const execute = abstract.find(
+        method => /^(execute|run|__call__)$/.test(method.name) && method.parameters.length === 1
+      );
+      if (!execute) continue;
+
+      const commands = this.subclassesOf(model, command.name);
+      if (commands.length < 2) continue;
+
+      const undo = abstract.some(method => /^(undo|revert|rollback)$/.test(method.name));
+      matches.push(
+        structuralMatch(model.code, 'Command', command, undo ? 0.9 : 0.75, [
+          `${command.name}.${execute.name}() implemented by ${commands.length} commands`,
+          ...(undo ? ['supports undo'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Iterator: __iter__/__next__ protocol or generator-based __iter__
+   */
+  private detectIterators(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const iter = this.method(cls, '__iter__');
+      if (!iter) continue;
+
+      if (this.method(cls, '__next__')) {
+        matches.push(
+          structuralMatch(model.code, 'Iterator', cls, 0.9, ['implements __iter__ and __next__'])
+        );
+      } else if (/\byield\b/.test(iter.body)) {
+        matches.push(
+          structuralMatch(model.code, 'Iterator', cls, 0.8, ['generator-based __iter__'])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Template Method: concrete method calling abstract steps on self
+   */
+  private detectTemplateMethods(model: PythonModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const steps = this.abstractMethods(cls).map(method => method.name);
+      if (steps.length === 0) continue;
+
+      for (const method of cls.methods.filter(m => !steps.includes(m.name))) {
+        const called = steps.filter(step =>
+          new RegExp(`self\\.${escapeRegExp(step)}\\s*\\(`).test(method.body)
+        );
+        if (called.length === 0) continue;
+
+        matches.push(
+          structuralMatch(model.code, 'Template Method', method, called.length > 1 ? 0.85 : 0.7, [
+            `${cls.name}.${method.name}() calls abstract steps ${called.join(', ')}`,
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  private method(cls: PythonClass, name: string): PythonFunction | undefined {
+    return cls.methods.find(method => method.name === name);
+  }
+
+  /**
+   * @abstractmethod members, or NotImplementedError stubs
+   */
+  private abstractMethods(cls: PythonClass): PythonFunction[] {
+    return cls.methods.filter(
+      method =>
+        method.decorators.some(decorator => /\babstractmethod$/.test(decorator)) ||
+        /^\s*raise\s+NotImplementedError\b/.test(method.body.trim())
+    );
+  }
+
+  private subclassesOf(model: PythonModel, name: string): PythonClass[] {
+    return model.classes.filter(cls => cls.bases.includes(name));
+  }
+}
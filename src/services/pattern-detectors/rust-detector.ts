@@ -0,0 +1,417 @@
+/**
+ * Rust Pattern Detector
+ * Scans structs, traits and impl blocks for Rust idioms: builders, newtypes,
+ * typestate, trait-object strategies and lazily initialised statics.
+ */
+
+import {
+  escapeRegExp,
+  maskSource,
+  matchingBrace,
+  splitTopLevel,
+  structuralMatch,
+  type LexicalSyntax,
+} from './source-scanner.js';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+// Single quotes are lifetimes as often as char literals, so only '"' is masked
+const RUST_SYNTAX: LexicalSyntax = {
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"'],
+};
+
+interface RustStruct {
+  name: string;
+  generics: string;
+  shape: 'unit' | 'tuple' | 'named';
+  fields: Array<{ name: string; type: string }>;
+  start: number;
+  end: number;
+}
+
+interface RustFn {
+  name: string;
+  parameters: string;
+  returns: string;
+  body: string;
+  start: number;
+  end: number;
+}
+
+interface RustImpl {
+  trait?: string;
+  /** Implementing type including generic arguments, e.g. `Door<Open>` */
+  target: string;
+  targetName: string;
+  fns: RustFn[];
+  start: number;
+  end: number;
+}
+
+interface RustModel {
+  code: string;
+  masked: string;
+  structs: RustStruct[];
+  traits: Array<{ name: string; start: number; end: number }>;
+  impls: RustImpl[];
+}
+
+const STRUCT_DECL = /\bstruct\s+(\w+)\s*(<[^>{;(]*>)?\s*(;|\(|\{|where\b)/g;
+const TRAIT_DECL = /\btrait\s+(\w+)[^{;]*\{/g;
+const IMPL_DECL =
+  /\bimpl\s*(?:<[^{]*?>)?\s+(?:([\w:]+(?:<[^{]*?>)?)\s+for\s+)?([\w:]+(?:<[^{]*?>)?)\s*(?:where\b[^{]*)?\{/g;
+const FN_DECL = /\bfn\s+(\w+)\s*(?:<[^(]*>)?\s*\(/g;
+const LAZY_STATIC = /\bstatic\s+(\w+)\s*:\s*(OnceLock|OnceCell|Lazy|LazyLock|SyncLazy)\s*</g;
+
+export class RustPatternDetector implements LanguagePatternDetector {
+  readonly languages = ['rust', 'rs'];
+
+  detect(code: string, _language: string): StructuralMatch[] {
+    const model = this.parse(code);
+
+    return [
+      ...this.detectSingletons(model),
+      ...this.detectBuilders(model),
+      ...this.detectNewtypes(model),
+      ...this.detectTypestates(model),
+      ...this.detectStrategies(model),
+      ...this.detectDecorators(model),
+      ...this.detectObservers(model),
+      ...this.detectIterators(model),
+    ];
+  }
+
+  private parse(code: string): RustModel {
+    const masked = maskSource(code, RUST_SYNTAX);
+
+    const structs = [...masked.matchAll(STRUCT_DECL)].map(decl => {
+      const start = decl.index ?? 0;
+      const delimiter = decl[3];
+      const open = start + decl[0].length - 1;
+      let shape: RustStruct['shape'] = 'unit';
+      let end = open + 1;
+      let fields: RustStruct['fields'] = [];
+
+      if (delimiter === '(') {
+        shape = 'tuple';
+        const close = matchingBrace(masked, open, '(', ')');
+        fields = splitTopLevel(masked.slice(open + 1, close)).map((type, index) => ({
+          name: String(index),
+          type: type.replace(/^pub(\([^)]*\))?\s+/, ''),
+        }));
+        end = close + 1;
+      } else if (delimiter !== ';') {
+        shape = 'named';
+        const brace = masked.indexOf('{', start);
+        const close = matchingBrace(masked, brace);
+        fields = splitTopLevel(masked.slice(brace + 1, close))
+          .map(field => /^(?:pub(?:\([^)]*\))?\s+)?(\w+)\s*:\s*([\s\S]+)$/.exec(field))
+          .filter((field): field is RegExpExecArray => field !== null)
+          .map(field => ({ name: field[1], type: field[2].trim() }));
+        end = close + 1;
+      }
+
+      return { name: decl[1], generics: decl[2] ?? '', shape, fields, start, end };
+    });
+
+    const traits = [...masked.matchAll(TRAIT_DECL)].map(decl => {
+      const start = decl.index ?? 0;
+      return { name: decl[1], start, end: matchingBrace(masked, start + decl[0].length - 1) + 1 };
+    });
+
+    const impls = [...masked.matchAll(IMPL_DECL)].map(decl => {
+      const start = decl.index ?? 0;
+      const open = start + decl[0].length - 1;
+      const close = matchingBrace(masked, open);
+      const target = decl[2].replace(/\s+/g, '');
+
+      return {
+        trait: decl[1]?.replace(/<.*$/, '').replace(/^.*::/, ''),
+        target,
+        targetName: target.replace(/<.*$/, '').replace(/^.*::/, ''),
+        fns: this.parseFns(masked, open + 1, close),
+        start,
+        end: close + 1,
+      };
+    });
+
+    return { code, masked, structs, traits, impls };
+  }
+
+  private parseFns(masked: string, from: number, to: number): RustFn[] {
+    const fns: RustFn[] = [];
+    FN_DECL.lastIndex = from;
+
+    for (let decl = FN_DECL.exec(masked); decl && decl.index < to; decl = FN_DECL.exec(masked)) {
+      const paramsOpen = decl.index + decl[0].length - 1;
+      const paramsClose = matchingBrace(masked, paramsOpen, '(', ')');
+      const open = masked.indexOf('{', paramsClose);
+      const semicolon = masked.indexOf(';', paramsClose);
+      const declarationOnly = open === -1 || (semicolon !== -1 && semicolon < open);
+      const close = declarationOnly ? semicolon : matchingBrace(masked, open);
+
+      fns.push({
+        name: decl[1],
+        parameters: masked.slice(paramsOpen + 1, paramsClose).replace(/\s+/g, ' ').trim(),
+        returns: (/^\s*->\s*([^{;]*?)\s*(?:where\b[^{;]*)?$/.exec(
+          masked.slice(paramsClose + 1, declarationOnly ? semicolon : open)
+        )?.[1] ?? '').replace(/\s+/g, ''),
+        body: declarationOnly ? '' : masked.slice(open + 1, close),
+        start: decl.index,
+        end: close + 1,
+      });
+      FN_DECL.lastIndex = close + 1;
+    }
+
+    FN_DECL.lastIndex = 0;
+    return fns;
+  }
+
+  /**
+   * Singleton: lazily initialised statics (OnceLock, LazyLock, once_cell, lazy_static!)
+   */
+  private detectSingletons(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of model.masked.matchAll(LAZY_STATIC)) {
+      const start = decl.index ?? 0;
+      const accessor = model.impls
+        .flatMap(impl => impl.fns)
+        .concat(this.freeFns(model))
+        .find(fn => new RegExp(`\\b${decl[1]}\\.get_or_init\\(`).test(fn.body));
+
+      const range = { start, end: start + decl[0].length };
+      matches.push(
+        structuralMatch(model.code, 'Singleton', range, accessor ? 0.9 : 0.85, [
+          `static ${decl[1]}: ${decl[2]} initialised on first use`,
+          ...(accessor ? [`${accessor.name}() hands out the shared instance`] : []),
+        ])
+      );
+    }
+
+    for (const macro of model.masked.matchAll(/\blazy_static!\s*\{/g)) {
+      const start = macro.index ?? 0;
+      const end = matchingBrace(model.masked, start + macro[0].length - 1) + 1;
+      matches.push(
+        structuralMatch(model.code, 'Singleton', { start, end }, 0.85, [
+          'lazy_static! global initialised on first use',
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Builder: self-returning setters plus a build() method
+   */
+  private detectBuilders(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const impl of model.impls.filter(i => !i.trait)) {
+      const selfTypes = new Set(['Self', impl.target, `&mutSelf`, `&mut${impl.target}`]);
+      const fluent = impl.fns.filter(
+        fn => /\bself\b/.test(fn.parameters) && selfTypes.has(fn.returns)
+      );
+      const build = impl.fns.find(
+        fn => /^(build|finish|create)$/.test(fn.name) && !selfTypes.has(fn.returns)
+      );
+      const namedBuilder = /Builder$/.test(impl.targetName);
+      if (!build || (fluent.length < 2 && !(namedBuilder && fluent.length > 0))) continue;
+
+      matches.push(
+        structuralMatch(
+          model.code,
+          'Builder',
+          impl,
+          Math.min(0.5 + fluent.length * 0.1, 0.8) + (namedBuilder ? 0.15 : 0),
+          [
+            `${fluent.length} chainable methods returning Self`,
+            `terminal ${build.name}() -> ${build.returns}`,
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Newtype: single-field tuple struct, stronger when it gets its own trait impls
+   */
+  private detectNewtypes(model: RustModel): StructuralMatch[] {
+    return model.structs
+      .filter(struct => struct.shape === 'tuple' && struct.fields.length === 1)
+      .filter(struct => !/^PhantomData\b/.test(struct.fields[0].type))
+      .map(struct => {
+        const traits = model.impls
+          .filter(impl => impl.targetName === struct.name && impl.trait)
+          .map(impl => impl.trait ?? '');
+        return structuralMatch(model.code, 'Newtype', struct, traits.length > 0 ? 0.85 : 0.7, [
+          `${struct.name} wraps ${struct.fields[0].type}`,
+          ...(traits.length > 0 ? [`implements ${traits.join(', ')}`] : []),
+        ]);
+      });
+  }
+
+  /**
+   * Typestate: generic struct over unit state types whose transitions consume self
+   */
+  private detectTypestates(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+    const units = new Set(model.structs.filter(s => s.shape === 'unit').map(s => s.name));
+
+    for (const struct of model.structs.filter(s => s.generics !== '')) {
+      const stateImpls = model.impls.filter(impl => {
+        const args = /<(\w+)>$/.exec(impl.target);
+        return impl.targetName === struct.name && !impl.trait && args && units.has(args[1]);
+      });
+
+      const transitions = stateImpls.flatMap(impl =>
+        impl.fns
+          .filter(fn => /^(mut\s+)?self\b/.test(fn.parameters))
+          .filter(fn => new RegExp(`^${escapeRegExp(struct.name)}<(\\w+)>$`).test(fn.returns))
+          .filter(fn => fn.returns !== impl.target)
+          .map(fn => `${impl.target}::${fn.name}() -> ${fn.returns}`)
+      );
+      if (stateImpls.length < 2 || transitions.length === 0) continue;
+
+      const phantom = struct.fields.some(field => /PhantomData\s*</.test(field.type));
+      matches.push(
+        structuralMatch(model.code, 'Typestate', struct, phantom ? 0.9 : 0.8, [
+          `${stateImpls.length} state-specific impl blocks`,
+          ...transitions,
+          ...(phantom ? ['state carried as PhantomData'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: trait with several implementations held as `Box<dyn Trait>` or a generic field
+   */
+  private detectStrategies(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const trait of model.traits) {
+      const implementors = this.implementorsOf(model, trait.name);
+      if (implementors.length < 2) continue;
+
+      const context = model.structs.find(
+        struct =>
+          !implementors.includes(struct.name) &&
+          struct.fields.some(field => this.holdsTrait(struct, field.type, trait.name))
+      );
+      if (!context) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Strategy', trait, 0.8, [
+          `${implementors.length} implementations of ${trait.name} (${implementors.join(', ')})`,
+          `${context.name} holds a ${trait.name} strategy`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator: implements a trait by wrapping another implementation of it
+   */
+  private detectDecorators(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const impl of model.impls.filter(i => i.trait)) {
+      const trait = impl.trait ?? '';
+      const struct = model.structs.find(s => s.name === impl.targetName);
+      const inner = struct?.fields.find(field => this.holdsTrait(struct, field.type, trait));
+      if (!struct || !inner) continue;
+
+      const delegated = impl.fns.filter(fn =>
+        new RegExp(`\\bself\\.${inner.name}\\.${fn.name}\\s*\\(`).test(fn.body)
+      );
+      if (delegated.length === 0) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Decorator', impl, 0.85, [
+          `${struct.name} implements ${trait} around inner ${trait} '${inner.name}'`,
+          `delegates ${delegated.map(fn => fn.name).join(', ')}`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: Vec of boxed callbacks or trait objects, pushed to and iterated over
+   */
+  private detectObservers(model: RustModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const struct of model.structs) {
+      const listeners = struct.fields.find(field => /^Vec<\s*Box<\s*dyn\b/.test(field.type));
+      if (!listeners) continue;
+
+      const fns = model.impls
+        .filter(impl => impl.targetName === struct.name)
+        .flatMap(impl => impl.fns);
+      const field = `self\\.${listeners.name}`;
+      const register = fns.find(fn => new RegExp(`${field}\\.push\\(`).test(fn.body));
+      const loop = new RegExp(
+        `for\\s+\\w+\\s+in\\s+&?(mut\\s+)?${field}\\b|${field}\\.iter(_mut)?\\(\\)`
+      );
+      const notify = fns.find(fn => loop.test(fn.body));
+      if (!register || !notify) continue;
+
+      matches.push(
+        structuralMatch(model.code, 'Observer', struct, 0.85, [
+          `listener list ${listeners.name}: ${listeners.type}`,
+          `${register.name}() registers listeners`,
+          `${notify.name}() notifies each listener`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Iterator: `impl Iterator for T` with a next() method
+   */
+  private detectIterators(model: RustModel): StructuralMatch[] {
+    return model.impls
+      .filter(impl => impl.trait === 'Iterator' && impl.fns.some(fn => fn.name === 'next'))
+      .map(impl =>
+        structuralMatch(model.code, 'Iterator', impl, 0.9, [
+          `impl Iterator for ${impl.target}`,
+        ])
+      );
+  }
+
+  private implementorsOf(model: RustModel, trait: string): string[] {
+    return [
+      ...new Set(model.impls.filter(impl => impl.trait === trait).map(impl => impl.targetName)),
+    ];
+  }
+
+  /**
+   * Field typed as a trait object or as a generic parameter bounded by the trait
+   */
+  private holdsTrait(struct: RustStruct, fieldType: string, trait: string): boolean {
+    const name = escapeRegExp(trait);
+    if (new RegExp(`\\bdyn\\s+${name}\\b`).test(fieldType)) return true;
+    const generic = /^(\w+)$/.exec(fieldType)?.[1];
+    if (generic === undefined) return false;
+    return new RegExp(`\\b${generic}\\s*:\\s*[^,>]*\\b${name}\\b`).test(struct.generics);
+  }
+
+  private freeFns(model: RustModel): RustFn[] {
+    return this.parseFns(model.masked, 0, model.masked.length).filter(
+      fn => !model.impls.some(impl => fn.start > impl.start && fn.start < impl.end)
+    );
+  }
+}
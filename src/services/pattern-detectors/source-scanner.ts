@@ -0,0 +1,184 @@
+/**
+ * Source Scanner
+ * Lexical helpers for detectors of languages without a bundled parser.
+ * Masking keeps offsets stable so regex matches map back to the original code.
+ */
+
+import type { PatternLocation } from '../pattern-analyzer.js';
+import type { StructuralMatch } from './types.js';
+
+export interface LexicalSyntax {
+  lineComments: string[];
+  blockComment?: [string, string];
+  /** Quote characters; triple-quoted forms are handled when `tripleQuotes` is set */
+  quotes: string[];
+  tripleQuotes?: boolean;
+}
+
+export const C_STYLE_SYNTAX: LexicalSyntax = {
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'"],
+};
+
+export const PYTHON_SYNTAX: LexicalSyntax = {
+  lineComments: ['#'],
+  quotes: ['"', "'"],
+  tripleQuotes: true,
+};
+
+/**
+ * Replace comment bodies and string contents with spaces (newlines are kept),
+ * so braces and keywords inside them do not confuse the scanners
+ */
+export function maskSource(code: string, syntax: LexicalSyntax): string {
+  const out = code.split('');
+  const blank = (from: number, to: number): void => {
+    for (let i = from; i < to && i < out.length; i++) {
+      if (out[i] !== '\n') out[i] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const lineComment = syntax.lineComments.find(marker => code.startsWith(marker, i));
+    if (lineComment) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (syntax.blockComment && code.startsWith(syntax.blockComment[0], i)) {
+      const end = code.indexOf(syntax.blockComment[1], i + syntax.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + syntax.blockComment[1].length;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const quote = syntax.quotes.find(q => code[i] === q);
+    if (quote) {
+      const triple = syntax.tripleQuotes && code.startsWith(quote.repeat(3), i);
+      const delimiter = triple ? quote.repeat(3) : quote;
+      let j = i + delimiter.length;
+      while (j < code.length && !code.startsWith(delimiter, j)) {
+        if (code[j] === '\\') j++;
+        else if (!triple && code[j] === '\n') break;
+        j++;
+      }
+      blank(i + delimiter.length, j);
+      i = Math.min(j + delimiter.length, code.length);
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+/**
+ * Index of the brace closing the one at `openIndex` (end of input when unbalanced)
+ */
+export function matchingBrace(masked: string, openIndex: number, open = '{', close = '}'): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    if (masked[i] === open) depth++;
+    else if (masked[i] === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return masked.length - 1;
+}
+
+/**
+ * End offset of an indentation-delimited block whose header line starts at `headerStart`
+ */
+export function indentedBlockEnd(code: string, headerStart: number): number {
+  const headerIndent = indentOf(code, headerStart);
+  let lineStart = code.indexOf('\n', headerStart);
+  let end = lineStart === -1 ? code.length : lineStart;
+
+  while (lineStart !== -1) {
+    const next = lineStart + 1;
+    const lineEnd = code.indexOf('\n', next);
+    const line = code.slice(next, lineEnd === -1 ? code.length : lineEnd);
+    if (line.trim() !== '') {
+      if (indentOf(code, next) <= headerIndent) break;
+      end = lineEnd === -1 ? code.length : lineEnd;
+    }
+    lineStart = lineEnd;
+  }
+
+  return end;
+}
+
+function indentOf(code: string, lineStart: number): number {
+  let i = lineStart;
+  while (code[i] === ' ' || code[i] === '\t') i++;
+  return i - lineStart;
+}
+
+/**
+ * 1-based range for the code between two offsets; the snippet is the first line
+ */
+export function locate(code: string, start: number, end: number): PatternLocation {
+  const position = (offset: number) => {
+    const before = code.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+  };
+  const from = position(start);
+  const to = position(Math.max(start, end));
+
+  return {
+    line: from.line,
+    column: from.column,
+    endLine: to.line,
+    endColumn: to.column,
+    snippet: code.slice(start).split('\n')[0].trim(),
+  };
+}
+
+export function structuralMatch(
+  code: string,
+  pattern: string,
+  range: { start: number; end: number },
+  confidence: number,
+  indicators: string[]
+): StructuralMatch {
+  return {
+    pattern,
+    confidence: Math.min(confidence, 1.0),
+    location: locate(code, range.start, range.end),
+    indicators,
+  };
+}
+
+/**
+ * Split on commas that are not nested in (), <> or []
+ */
+export function splitTopLevel(text: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if ('(<['.includes(char)) depth++;
+    else if (')>]'.includes(char)) depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') parts.push(current);
+  return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,23 @@
+/**
+ * Pattern Detector Plugin Types
+ * Contract implemented by the per-language structural detectors
+ */
+
+import type { PatternLocation } from '../pattern-analyzer.js';
+
+export interface StructuralMatch {
+  pattern: string;
+  confidence: number;
+  location: PatternLocation;
+  indicators: string[];
+  /** Source path of the matched declaration (project detection only) */
+  file?: string;
+}
+
+export interface LanguagePatternDetector {
+  /** Lowercase language identifiers (including aliases) handled by the detector */
+  readonly languages: readonly string[];
+
+  /** Detect patterns in a single source snippet */
+  detect(code: string, language: string): StructuralMatch[];
+}
@@ -0,0 +1,927 @@
+/**
+ * TypeScript Pattern Detector
+ * Structural design pattern detection for TypeScript/JavaScript using the
+ * TypeScript compiler API. Patterns are recognised from class and interface
+ * shapes rather than keywords, so locations point at the declaring node.
+ */
+
+import ts from 'typescript';
+import type { LanguagePatternDetector, StructuralMatch } from './types.js';
+
+export interface SourceInput {
+  path: string;
+  code: string;
+  language: string;
+}
+
+export interface SymbolEntry {
+  name: string;
+  kind: 'class' | 'interface';
+  file: string;
+  line: number;
+}
+
+export interface ProjectDetection {
+  matches: StructuralMatch[];
+  symbols: SymbolEntry[];
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  typescript: ts.ScriptKind.TS,
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  javascript: ts.ScriptKind.JS,
+  js: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+const COLLECTION_TYPES = new Set(['Array', 'Set', 'Map', 'WeakSet', 'WeakMap', 'ReadonlyArray']);
+/** Generic containers that say nothing about a created product */
+const NON_PRODUCT_TYPES = new Set([
+  ...COLLECTION_TYPES,
+  'Promise',
+  'Record',
+  'Partial',
+  'Readonly',
+  'Iterable',
+  'AsyncIterable',
+  'Function',
+  'Object',
+]);
+const BUILD_METHOD = /^(build|create|make|get(Result|Product)|toObject)$/;
+
+type TypeDeclaration = ts.ClassDeclaration | ts.InterfaceDeclaration;
+
+/**
+ * Declarations visible to the rules. In project mode this spans every file,
+ * so heritage and type references resolve across module boundaries by name.
+ */
+interface SourceModel {
+  classes: ts.ClassDeclaration[];
+  interfaces: ts.InterfaceDeclaration[];
+  project: boolean;
+}
+
+export class TypeScriptPatternDetector implements LanguagePatternDetector {
+  readonly languages = Object.keys(SCRIPT_KINDS);
+
+  /**
+   * Whether the detector can parse the given language
+   */
+  static supports(language: string): boolean {
+    return language.toLowerCase() in SCRIPT_KINDS;
+  }
+
+  /**
+   * Parse code and run every structural rule against it
+   */
+  detect(code: string, language: string): StructuralMatch[] {
+    const sourceFile = this.parse('snippet.ts', code, language);
+    return this.runRules(this.collectDeclarations([sourceFile], false));
+  }
+
+  /**
+   * Parse several files into one symbol index and run the rules across them,
+   * so patterns whose participants live in different modules are found
+   */
+  detectProject(files: SourceInput[]): ProjectDetection {
+    const sourceFiles = files.map(file => this.parse(file.path, file.code, file.language));
+    const model = this.collectDeclarations(sourceFiles, true);
+
+    const symbols: SymbolEntry[] = [...model.classes, ...model.interfaces].map(decl => ({
+      name: this.nameOf(decl),
+      kind: ts.isClassDeclaration(decl) ? 'class' : 'interface',
+      file: decl.getSourceFile().fileName,
+      line: this.startLine(decl),
+    }));
+
+    return { matches: this.runRules(model), symbols };
+  }
+
+  private parse(fileName: string, code: string, language: string): ts.SourceFile {
+    const scriptKind = SCRIPT_KINDS[language.toLowerCase()] ?? ts.ScriptKind.TS;
+    return ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  }
+
+  private runRules(model: SourceModel): StructuralMatch[] {
+    return [
+      ...this.detectSingletons(model),
+      ...this.detectFactoryMethods(model),
+      ...this.detectAbstractFactories(model),
+      ...this.detectBuilders(model),
+      ...this.detectPrototypes(model),
+      ...this.detectWrappers(model),
+      ...this.detectAdapters(model),
+      ...this.detectObservers(model),
+      ...this.detectStrategies(model),
+      ...this.detectCommands(model),
+      ...this.detectIterators(model),
+      ...this.detectTemplateMethods(model),
+    ];
+  }
+
+  private collectDeclarations(sourceFiles: ts.SourceFile[], project: boolean): SourceModel {
+    const classes: ts.ClassDeclaration[] = [];
+    const interfaces: ts.InterfaceDeclaration[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isClassDeclaration(node) && node.name) {
+        classes.push(node);
+      } else if (ts.isInterfaceDeclaration(node)) {
+        interfaces.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    sourceFiles.forEach(visit);
+
+    return { classes, interfaces, project };
+  }
+
+  /**
+   * Singleton: static field holding the class instance, exposed through a
+   * static accessor and/or guarded by a private constructor
+   */
+  private detectSingletons(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const name = this.nameOf(cls);
+      const holder = cls.members.find(
+        (member): member is ts.PropertyDeclaration =>
+          ts.isPropertyDeclaration(member) &&
+          this.hasModifier(member, ts.SyntaxKind.StaticKeyword) &&
+          (this.typeNames(member.type).includes(name) ||
+            /^_?instance$/i.test(this.memberName(member)))
+      );
+      if (!holder) continue;
+
+      const holderName = this.memberName(holder);
+      const accessor = cls.members.find(
+        member =>
+          (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member)) &&
+          this.hasModifier(member, ts.SyntaxKind.StaticKeyword) &&
+          this.returnsStaticMember(member, holderName)
+      );
+      const privateConstructor = cls.members.find(
+        member =>
+          ts.isConstructorDeclaration(member) &&
+          (this.hasModifier(member, ts.SyntaxKind.PrivateKeyword) ||
+            this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword))
+      );
+      if (!accessor && !privateConstructor) continue;
+
+      const indicators = [`static instance field '${holderName}'`];
+      if (accessor) {
+        indicators.push(`static accessor ${this.memberName(accessor)}() returns the instance`);
+      }
+      if (privateConstructor) {
+        indicators.push('non-public constructor');
+      }
+
+      matches.push(
+        this.match(
+          model,
+          'Singleton',
+          cls,
+          0.6 + (accessor ? 0.2 : 0) + (privateConstructor ? 0.2 : 0),
+          indicators
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Factory Method: abstract creator method returning a product type,
+   * overridden by subclasses that instantiate concrete products
+   */
+  private detectFactoryMethods(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const creator of model.classes) {
+      if (!this.hasModifier(creator, ts.SyntaxKind.AbstractKeyword)) continue;
+      const creatorName = this.nameOf(creator);
+
+      for (const member of creator.members) {
+        if (
+          !ts.isMethodDeclaration(member) ||
+          !this.hasModifier(member, ts.SyntaxKind.AbstractKeyword) ||
+          !member.type ||
+          !ts.isTypeReferenceNode(member.type) ||
+          NON_PRODUCT_TYPES.has(member.type.typeName.getText())
+        ) {
+          continue;
+        }
+
+        const methodName = this.memberName(member);
+        const productType = member.type.typeName.getText();
+        const overrides = this.subclassesOf(model, creatorName).filter(sub =>
+          sub.members.some(
+            m =>
+              ts.isMethodDeclaration(m) &&
+              this.memberName(m) === methodName &&
+              this.containsNode(
+                m.body,
+                node =>
+                  ts.isReturnStatement(node) &&
+                  node.expression !== undefined &&
+                  ts.isNewExpression(node.expression)
+              )
+          )
+        );
+
+        const indicators = [`abstract ${methodName}(): ${productType} in ${creatorName}`];
+        for (const sub of overrides) {
+          indicators.push(`${this.nameOf(sub)}.${methodName}() instantiates a concrete product`);
+        }
+
+        matches.push(
+          this.match(model, 'Factory Method', member, overrides.length > 0 ? 0.9 : 0.7, indicators)
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Abstract Factory: a factory type declaring several product creation methods
+   */
+  private detectAbstractFactories(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of this.abstractTypes(model)) {
+      const creators = this.methodSignatures(decl).filter(
+        method => /^(create|make)\w+/.test(this.memberName(method)) && method.type !== undefined
+      );
+      const productTypes = new Set(creators.flatMap(method => this.typeNames(method.type)));
+      if (creators.length < 2 || productTypes.size < 2) continue;
+
+      const implementors = this.implementorsOf(model, this.nameOf(decl));
+      const indicators = [
+        `${creators.length} creation methods for ${[...productTypes].join(', ')}`,
+        ...implementors.map(impl => `concrete factory ${this.nameOf(impl)}`),
+      ];
+
+      matches.push(
+        this.match(
+          model,
+          'Abstract Factory',
+          decl,
+          implementors.length > 0 ? 0.85 : 0.7,
+          indicators
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Builder: fluent methods returning `this` plus a terminal build method
+   */
+  private detectBuilders(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const name = this.nameOf(cls);
+      const methods = cls.members.filter(ts.isMethodDeclaration);
+      const fluent = methods.filter(method => this.isFluent(method, name));
+      const build = methods.find(
+        method => BUILD_METHOD.test(this.memberName(method)) && !this.isFluent(method, name)
+      );
+
+      const namedBuilder = /Builder$/.test(name);
+      if (!build || (fluent.length < 2 && !(namedBuilder && fluent.length > 0))) continue;
+
+      matches.push(
+        this.match(
+          model,
+          'Builder',
+          cls,
+          Math.min(0.5 + fluent.length * 0.1, 0.8) + (namedBuilder ? 0.15 : 0),
+          [
+            `${fluent.length} fluent methods returning this (${fluent
+              .map(m => this.memberName(m))
+              .join(', ')})`,
+            `terminal ${this.memberName(build)}() method`,
+          ]
+        )
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Prototype: clone method producing a copy of the receiver
+   */
+  private detectPrototypes(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const name = this.nameOf(cls);
+      const clone = cls.members.find(
+        (member): member is ts.MethodDeclaration =>
+          ts.isMethodDeclaration(member) && /^(clone|copy)$/.test(this.memberName(member))
+      );
+      if (!clone?.body) continue;
+
+      const copies = this.containsNode(
+        clone.body,
+        node =>
+          (ts.isNewExpression(node) && node.expression.getText() === name) ||
+          (ts.isCallExpression(node) &&
+            /^(Object\.create|Object\.assign|structuredClone)$/.test(node.expression.getText()))
+      );
+      const returnsSelfType =
+        this.typeNames(clone.type).includes(name) || this.returnsThisType(clone);
+      if (!copies && !returnsSelfType) continue;
+
+      matches.push(
+        this.match(model, 'Prototype', clone, copies && returnsSelfType ? 0.85 : 0.65, [
+          `${name}.${this.memberName(clone)}() returns a copy of the receiver`,
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Decorator and Proxy: a class implementing a type while wrapping another
+   * instance of that same type. Injected wrappees are decorators, wrappees the
+   * class instantiates itself are proxies.
+   */
+  private detectWrappers(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const supertypes = this.supertypeNames(cls);
+      const wrapped = this.wrappedMembers(cls).filter(member =>
+        member.types.some(type => supertypes.includes(type))
+      );
+
+      for (const member of wrapped) {
+        const delegated = this.delegatedMethods(cls, member.name).filter(
+          ([outer, inner]) => outer === inner
+        );
+        const instantiated = this.containsNode(
+          cls,
+          node =>
+            ts.isBinaryExpression(node) &&
+            node.left.getText() === `this.${member.name}` &&
+            ts.isNewExpression(node.right) &&
+            !ts.isConstructorDeclaration(this.enclosingMember(node) ?? node)
+        );
+        if (delegated.length === 0 && !/(Decorator|Proxy)$/.test(this.nameOf(cls))) continue;
+
+        const pattern = instantiated ? 'Proxy' : 'Decorator';
+        const type = member.types.find(t => supertypes.includes(t)) ?? member.types[0];
+        matches.push(
+          this.match(model, pattern, cls, delegated.length > 0 ? 0.85 : 0.6, [
+            `${this.nameOf(cls)} is a ${type} wrapping a ${type} ('${member.name}')`,
+            ...(delegated.length > 0
+              ? [`delegates ${delegated.map(([method]) => method).join(', ')}`]
+              : []),
+            ...(instantiated ? ['creates the wrapped subject lazily'] : []),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Adapter: implements a target interface by delegating to a differently
+   * typed adaptee
+   */
+  private detectAdapters(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const targets = this.implementedNames(cls);
+      if (targets.length === 0) continue;
+
+      for (const member of this.wrappedMembers(cls)) {
+        if (member.types.some(type => targets.includes(type))) continue;
+
+        const translated = this.delegatedMethods(cls, member.name).filter(
+          ([outer, inner]) => outer !== inner
+        );
+        if (translated.length === 0) continue;
+
+        matches.push(
+          this.match(model, 'Adapter', cls, /Adapter$/.test(this.nameOf(cls)) ? 0.9 : 0.75, [
+            `adapts ${member.types.join(' | ')} to ${targets.join(', ')}`,
+            ...translated.map(([outer, inner]) => `${outer}() -> ${member.name}.${inner}()`),
+          ])
+        );
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Observer: a subject keeps a collection of listeners, registers them
+   * and notifies each one
+   */
+  private detectObservers(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      if (cls.heritageClauses?.some(clause => /\bEventEmitter\b/.test(clause.getText()))) {
+        matches.push(
+          this.match(model, 'Observer', cls, 0.7, [`${this.nameOf(cls)} extends EventEmitter`])
+        );
+        continue;
+      }
+
+      for (const field of cls.members.filter(ts.isPropertyDeclaration)) {
+        if (!this.isCollection(field)) continue;
+
+        const ref = `this.${this.memberName(field)}`;
+        const methods = cls.members.filter(ts.isMethodDeclaration);
+        const register = methods.find(method =>
+          this.callsOn(method, ref, ['push', 'add', 'set'], true)
+        );
+        const notify = methods.find(method => this.iteratesAndCalls(method, ref));
+        if (!register || !notify) continue;
+
+        const unregister = methods.find(method =>
+          this.callsOn(method, ref, ['splice', 'delete', 'filter'], false)
+        );
+        const indicators = [
+          `listener collection '${this.memberName(field)}'`,
+          `${this.memberName(register)}() registers listeners`,
+          `${this.memberName(notify)}() notifies each listener`,
+        ];
+        if (unregister) {
+          indicators.push(`${this.memberName(unregister)}() removes listeners`);
+        }
+
+        matches.push(this.match(model, 'Observer', cls, unregister ? 0.9 : 0.8, indicators));
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Strategy: an abstraction with interchangeable implementations held by a
+   * context class
+   */
+  private detectStrategies(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of this.abstractTypes(model)) {
+      const name = this.nameOf(decl);
+      if (this.methodSignatures(decl).length === 0) continue;
+
+      const implementors = this.implementorsOf(model, name);
+      if (implementors.length < 2) continue;
+
+      const context = model.classes.find(
+        cls =>
+          !implementors.includes(cls) &&
+          !this.supertypeNames(cls).includes(name) &&
+          this.wrappedMembers(cls).some(member => member.types.includes(name))
+      );
+      if (!context) continue;
+
+      const setter = context.members.find(
+        member =>
+          (ts.isMethodDeclaration(member) || ts.isSetAccessorDeclaration(member)) &&
+          member.parameters.some(param => this.typeNames(param.type).includes(name))
+      );
+      const indicators = [
+        `${implementors.length} interchangeable ${name} implementations (${implementors
+          .map(impl => this.nameOf(impl))
+          .join(', ')})`,
+        `context ${this.nameOf(context)} holds a ${name}`,
+      ];
+      if (setter) {
+        indicators.push(`${this.memberName(setter)}() swaps the strategy at runtime`);
+      }
+
+      matches.push(this.match(model, 'Strategy', decl, setter ? 0.9 : 0.75, indicators));
+    }
+
+    return matches;
+  }
+
+  /**
+   * Command: a parameterless execute contract with several concrete commands
+   */
+  private detectCommands(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const decl of this.abstractTypes(model)) {
+      const methods = this.methodSignatures(decl);
+      const execute = methods.find(
+        method =>
+          /^(execute|run|invoke)$/.test(this.memberName(method)) && method.parameters.length === 0
+      );
+      if (!execute) continue;
+
+      const commands = this.implementorsOf(model, this.nameOf(decl));
+      if (commands.length < 2) continue;
+
+      const undo = methods.some(method => /^(undo|revert|rollback)$/.test(this.memberName(method)));
+      matches.push(
+        this.match(model, 'Command', decl, undo ? 0.9 : 0.75, [
+          `${this.nameOf(decl)}.${this.memberName(execute)}() implemented by ` +
+            `${commands.length} commands`,
+          ...(undo ? ['supports undo'] : []),
+        ])
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * Iterator: Symbol.iterator, iterator-result next() or hasNext()/next() pairs
+   */
+  private detectIterators(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      const methods = cls.members.filter(ts.isMethodDeclaration);
+      const symbolIterator = methods.find(
+        method => this.memberName(method) === '[Symbol.iterator]'
+      );
+      const next = methods.find(method => this.memberName(method) === 'next');
+      const hasNext = methods.some(method => this.memberName(method) === 'hasNext');
+      const iteratorResult =
+        next !== undefined &&
+        this.containsNode(
+          next.body,
+          node =>
+            ts.isObjectLiteralExpression(node) &&
+            node.properties.some(prop => prop.name?.getText() === 'done')
+        );
+
+      if (symbolIterator) {
+        matches.push(
+          this.match(model, 'Iterator', symbolIterator, 0.85, ['implements [Symbol.iterator]'])
+        );
+      } else if (next && (hasNext || iteratorResult)) {
+        matches.push(
+          this.match(model, 'Iterator', cls, 0.8, [
+            hasNext ? 'hasNext()/next() traversal' : 'next() returns iterator results',
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Template Method: a concrete method in an abstract class calling abstract steps
+   */
+  private detectTemplateMethods(model: SourceModel): StructuralMatch[] {
+    const matches: StructuralMatch[] = [];
+
+    for (const cls of model.classes) {
+      if (!this.hasModifier(cls, ts.SyntaxKind.AbstractKeyword)) continue;
+
+      const abstractSteps = new Set(
+        cls.members
+          .filter(member => this.hasModifier(member, ts.SyntaxKind.AbstractKeyword))
+          .map(member => this.memberName(member))
+      );
+
+      for (const method of cls.members.filter(ts.isMethodDeclaration)) {
+        if (!method.body) continue;
+        const steps = this.thisCalls(method.body).filter(call => abstractSteps.has(call));
+        if (steps.length === 0) continue;
+
+        matches.push(
+          this.match(model, 'Template Method', method, steps.length > 1 ? 0.85 : 0.7, [
+            `${this.nameOf(cls)}.${this.memberName(method)}() calls abstract steps ${[
+              ...new Set(steps),
+            ].join(', ')}`,
+          ])
+        );
+      }
+    }
+
+    return matches;
+  }
+
+  // ---------------------------------------------------------------------------
+  // AST helpers
+  // ---------------------------------------------------------------------------
+
+  private match(
+    model: SourceModel,
+    pattern: string,
+    node: ts.Node,
+    confidence: number,
+    indicators: string[]
+  ): StructuralMatch {
+    const sourceFile = node.getSourceFile();
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+
+    return {
+      pattern,
+      confidence: Math.min(confidence, 1.0),
+      location: {
+        line: start.line + 1,
+        column: start.character + 1,
+        endLine: end.line + 1,
+        endColumn: end.character + 1,
+        snippet: node.getText(sourceFile).split('\n')[0].trim(),
+      },
+      indicators,
+      ...(model.project ? { file: sourceFile.fileName } : {}),
+    };
+  }
+
+  private startLine(node: ts.Node): number {
+    const sourceFile = node.getSourceFile();
+    return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  }
+
+  private nameOf(decl: TypeDeclaration): string {
+    return decl.name?.text ?? '';
+  }
+
+  private memberName(member: ts.ClassElement | ts.TypeElement): string {
+    return member.name?.getText() ?? '';
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return (
+      ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(mod => mod.kind === kind) ?? false)
+    );
+  }
+
+  /**
+   * Flatten a type annotation into referenced type names (arrays and
+   * generic collections resolve to their element types)
+   */
+  private typeNames(type: ts.TypeNode | undefined): string[] {
+    if (!type) return [];
+    if (ts.isArrayTypeNode(type)) return this.typeNames(type.elementType);
+    if (ts.isUnionTypeNode(type) || ts.isIntersectionTypeNode(type)) {
+      return type.types.flatMap(t => this.typeNames(t));
+    }
+    if (ts.isTypeReferenceNode(type)) {
+      const name = type.typeName.getText();
+      if (COLLECTION_TYPES.has(name) && type.typeArguments) {
+        return type.typeArguments.flatMap(t => this.typeNames(t));
+      }
+      return [name];
+    }
+    return [];
+  }
+
+  /**
+   * Type names of a non-collection annotation, i.e. a single wrapped instance
+   */
+  private singleTypeNames(type: ts.TypeNode | undefined): string[] {
+    if (!type || ts.isArrayTypeNode(type)) return [];
+    if (ts.isTypeReferenceNode(type) && COLLECTION_TYPES.has(type.typeName.getText())) return [];
+    return this.typeNames(type);
+  }
+
+  private heritageNames(cls: ts.ClassDeclaration, token: ts.SyntaxKind): string[] {
+    return (cls.heritageClauses ?? [])
+      .filter(clause => clause.token === token)
+      .flatMap(clause => clause.types.map(type => type.expression.getText()));
+  }
+
+  private implementedNames(cls: ts.ClassDeclaration): string[] {
+    return this.heritageNames(cls, ts.SyntaxKind.ImplementsKeyword);
+  }
+
+  private supertypeNames(cls: ts.ClassDeclaration): string[] {
+    return [
+      ...this.heritageNames(cls, ts.SyntaxKind.ExtendsKeyword),
+      ...this.implementedNames(cls),
+    ];
+  }
+
+  private subclassesOf(model: SourceModel, name: string): ts.ClassDeclaration[] {
+    return model.classes.filter(cls =>
+      this.heritageNames(cls, ts.SyntaxKind.ExtendsKeyword).includes(name)
+    );
+  }
+
+  private implementorsOf(model: SourceModel, name: string): ts.ClassDeclaration[] {
+    return model.classes.filter(
+      cls =>
+        this.supertypeNames(cls).includes(name) &&
+        !this.hasModifier(cls, ts.SyntaxKind.AbstractKeyword)
+    );
+  }
+
+  /**
+   * Interfaces and abstract classes, the abstractions most patterns pivot on
+   */
+  private abstractTypes(model: SourceModel): TypeDeclaration[] {
+    return [
+      ...model.interfaces,
+      ...model.classes.filter(cls => this.hasModifier(cls, ts.SyntaxKind.AbstractKeyword)),
+    ];
+  }
+
+  private methodSignatures(
+    decl: TypeDeclaration
+  ): Array<ts.MethodSignature | ts.MethodDeclaration> {
+    return ts.isInterfaceDeclaration(decl)
+      ? decl.members.filter(ts.isMethodSignature)
+      : decl.members.filter(
+          (member): member is ts.MethodDeclaration =>
+            ts.isMethodDeclaration(member) &&
+            this.hasModifier(member, ts.SyntaxKind.AbstractKeyword)
+        );
+  }
+
+  /**
+   * Fields and constructor parameter properties together with their declared types
+   */
+  private wrappedMembers(cls: ts.ClassDeclaration): Array<{ name: string; types: string[] }> {
+    const members: Array<{ name: string; types: string[] }> = [];
+
+    for (const member of cls.members) {
+      if (
+        ts.isPropertyDeclaration(member) &&
+        !this.hasModifier(member, ts.SyntaxKind.StaticKeyword)
+      ) {
+        const types = this.singleTypeNames(member.type);
+        if (types.length > 0) members.push({ name: this.memberName(member), types });
+      }
+      if (ts.isConstructorDeclaration(member)) {
+        for (const param of member.parameters) {
+          if (!ts.isIdentifier(param.name)) continue;
+          const types = this.singleTypeNames(param.type);
+          if (types.length > 0 && !members.some(m => m.name === param.name.getText())) {
+            members.push({ name: param.name.getText(), types });
+          }
+        }
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Pairs of [method, delegated call] for methods forwarding to this.<field>
+   */
+  private delegatedMethods(cls: ts.ClassDeclaration, field: string): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    const target = `this.${field}`;
+
+    for (const method of cls.members.filter(ts.isMethodDeclaration)) {
+      const call = this.findNode(
+        method.body,
+        (node): node is ts.CallExpression =>
+          ts.isCallExpression(node) &&
+          ts.isPropertyAccessExpression(node.expression) &&
+          node.expression.expression.getText() === target
+      );
+      if (call && ts.isPropertyAccessExpression(call.expression)) {
+        pairs.push([this.memberName(method), call.expression.name.text]);
+      }
+    }
+
+    return pairs;
+  }
+
+  private isCollection(field: ts.PropertyDeclaration): boolean {
+    if (field.type) {
+      if (ts.isArrayTypeNode(field.type)) return true;
+      if (ts.isTypeReferenceNode(field.type)) {
+        return COLLECTION_TYPES.has(field.type.typeName.getText());
+      }
+    }
+    const init = field.initializer;
+    return (
+      init !== undefined &&
+      (ts.isArrayLiteralExpression(init) ||
+        (ts.isNewExpression(init) && COLLECTION_TYPES.has(init.expression.getText())))
+    );
+  }
+
+  /**
+   * Whether the method calls one of `methods` on `ref`, optionally requiring
+   * one of the method parameters to be passed along
+   */
+  private callsOn(
+    method: ts.MethodDeclaration,
+    ref: string,
+    methods: string[],
+    passesParameter: boolean
+  ): boolean {
+    const params = method.parameters.map(param => param.name.getText());
+    return this.containsNode(
+      method.body,
+      node =>
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.getText() === ref &&
+        methods.includes(node.expression.name.text) &&
+        (!passesParameter || node.arguments.some(arg => params.includes(arg.getText())))
+    );
+  }
+
+  private iteratesAndCalls(method: ts.MethodDeclaration, ref: string): boolean {
+    return this.containsNode(method.body, node => {
+      if (ts.isForOfStatement(node) && node.expression.getText() === ref) {
+        return this.containsNode(node.statement, ts.isCallExpression);
+      }
+      return (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.expression.getText() === ref &&
+        node.expression.name.text === 'forEach'
+      );
+    });
+  }
+
+  private isFluent(method: ts.MethodDeclaration, className: string): boolean {
+    if (this.returnsThisType(method)) return true;
+    return (
+      (!method.type || this.typeNames(method.type).includes(className)) &&
+      this.containsNode(
+        method.body,
+        node => ts.isReturnStatement(node) && node.expression?.kind === ts.SyntaxKind.ThisKeyword
+      )
+    );
+  }
+
+  private returnsThisType(method: ts.MethodDeclaration): boolean {
+    return method.type?.kind === ts.SyntaxKind.ThisType;
+  }
+
+  private returnsStaticMember(member: ts.ClassElement, holderName: string): boolean {
+    const body =
+      ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member)
+        ? member.body
+        : undefined;
+    return this.containsNode(
+      body,
+      node =>
+        ts.isReturnStatement(node) &&
+        node.expression !== undefined &&
+        new RegExp(`\\.${holderName.replace(/[$]/g, '\\$')}\\b`).test(node.expression.getText())
+    );
+  }
+
+  private thisCalls(node: ts.Node): string[] {
+    const calls: string[] = [];
+    const visit = (child: ts.Node): void => {
+      if (
+        ts.isCallExpression(child) &&
+        ts.isPropertyAccessExpression(child.expression) &&
+        child.expression.expression.kind === ts.SyntaxKind.ThisKeyword
+      ) {
+        calls.push(child.expression.name.text);
+      }
+      ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return calls;
+  }
+
+  private enclosingMember(node: ts.Node): ts.ClassElement | undefined {
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isClassElement(current)) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  private containsNode(root: ts.Node | undefined, predicate: (node: ts.Node) => boolean): boolean {
+    return this.findNode(root, (node): node is ts.Node => predicate(node)) !== undefined;
+  }
+
+  private findNode<T extends ts.Node>(
+    root: ts.Node | undefined,
+    predicate: (node: ts.Node) => node is T
+  ): T | undefined {
+    if (!root) return undefined;
+    let found: T | undefined;
+    const visit = (node: ts.Node): void => {
+      if (found) return;
+      if (predicate(node)) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+    return found;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Pattern ID Resolver
+ * Turns whatever a client passed as a pattern ID into a catalog pattern: the exact ID, a
+ * normalised slug ("Factory Method" -> factory-method), a pattern name, an alias, or - as
+ * a did-you-mean - the ID closest by edit distance. When no single pattern stands out the
+ * caller gets ranked candidates, including embedding matches when semantic search is
+ * available.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import type { SemanticSearchService } from './semantic-search.js';
+import { aliasKey, loadPatternAliases } from './pattern-aliases.js';
+import { prefixSimilarity, stringSimilarity } from '../utils/string-similarity.js';
+
+export type PatternMatch = 'id' | 'slug' | 'name' | 'alias' | 'similarity';
+
+export interface ResolvedPattern {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+}
+
+export interface PatternCandidate extends ResolvedPattern {
+  /**
+   * Name matches score 1, similarity matches their edit-distance or word-prefix similarity,
+   * embedding matches their cosine similarity
+   */
+  score: number;
+  matchedBy: 'name' | 'similarity' | 'embedding';
+}
+
+export type PatternResolution =
+  | {
+      status: 'resolved';
+      pattern: ResolvedPattern;
+      matchedBy: PatternMatch;
+      /** Explains how the input was resolved; absent for exact IDs */
+      note?: string;
+    }
+  | { status: 'unresolved'; candidates: PatternCandidate[] };
+
+export interface ResolveOptions {
+  /**
+   * Resolve to the closest ID by edit distance (default true). Writes pass false so a typo
+   * is offered as a candidate instead of being applied to another pattern.
+   */
+  allowSimilar?: boolean;
+}
+
+/** Lowest edit-distance similarity that resolves on its own */
+const RESOLVE_SIMILARITY = 0.75;
+
+/** How far the best match must lead the runner-up to resolve on its own */
+const RESOLVE_MARGIN = 0.1;
+
+/** Lowest similarity that is still offered as a candidate */
+const CANDIDATE_SIMILARITY = 0.6;
+
+/** Shortest input compared to the start of each word (shorter ones match too much) */
+const MIN_PREFIX_LENGTH = 4;
+
+/**
+ * Weights of a prefix match: below an exact match, and a key that starts with the input
+ * ahead of one where a later word does
+ */
+const LEADING_PREFIX_WEIGHT = 0.95;
+const WORD_PREFIX_WEIGHT = 0.9;
+
+const MAX_CANDIDATES = 5;
+
+const MATCH_LABELS: Record<Exclude<PatternMatch, 'id'>, string> = {
+  slug: 'normalised ID',
+  name: 'pattern name',
+  alias: 'alias',
+  similarity: 'closest ID (did you mean?)',
+};
+
+/**
+ * "Pattern not found: x" with a did-you-mean list of candidate IDs
+ */
+export function patternNotFoundMessage(input: string, candidates: PatternCandidate[]): string {
+  return candidates.length > 0
+    ? `Pattern not found: ${input}. Did you mean ${candidates
+        .map(candidate => `${candidate.id} (${candidate.name})`)
+        .join(', ')}?`
+    : `Pattern not found: ${input}`;
+}
+
+export class PatternIdResolver {
+  constructor(
+    private readonly db: DatabaseManager,
+    private readonly semanticSearch?: Pick<SemanticSearchService, 'search'>
+  ) {}
+
+  async resolve(input: string, options: ResolveOptions = {}): Promise<PatternResolution> {
+    const resolved = (pattern: ResolvedPattern, matchedBy: PatternMatch): PatternResolution => ({
+      status: 'resolved',
+      pattern,
+      matchedBy,
+      note:
+        matchedBy === 'id'
+          ? undefined
+          : `Resolved "${input}" to ${pattern.id} by ${MATCH_LABELS[matchedBy]}`,
+    });
+
+    const exact = this.select(input);
+    if (exact) return resolved(exact, 'id');
+
+    const slug = aliasKey(input);
+    const bySlug = slug ? this.select(slug) : null;
+    if (bySlug) return resolved(bySlug, 'slug');
+
+    const byName = this.db.query<ResolvedPattern>(
+      `SELECT id, name, category, description FROM patterns
+       WHERE LOWER(name) = LOWER(?) ORDER BY LENGTH(id), id`,
+      [input.trim()]
+    );
+    if (byName.length === 1) return resolved(byName[0], 'name');
+    if (byName.length > 1) {
+      // Catalog variants share display names; let the caller pick one
+      return {
+        status: 'unresolved',
+        candidates: byName.map(pattern => ({ ...pattern, score: 1, matchedBy: 'name' })),
+      };
+    }
+
+    const { byPattern, byKey } = loadPatternAliases(this.db);
+    const aliased = byKey.get(slug);
+    const byAlias = aliased ? this.select(aliased) : null;
+    if (byAlias) return resolved(byAlias, 'alias');
+
+    const similar = this.similarByEditDistance(slug, byPattern);
+    // Only a clear full-string match resolves; a prefix ("factory") is just a candidate
+    const [best, runnerUp] = [...similar].sort((a, b) => b.editSimilarity - a.editSimilarity);
+    if (
+      (options.allowSimilar ?? true) &&
+      best &&
+      best.editSimilarity >= RESOLVE_SIMILARITY &&
+      best.editSimilarity - (runnerUp?.editSimilarity ?? 0) >= RESOLVE_MARGIN
+    ) {
+      const { id, name, category, description } = best;
+      return resolved({ id, name, category, description }, 'similarity');
+    }
+
+    const closest = similar
+      .slice(0, MAX_CANDIDATES)
+      .map(({ editSimilarity: _editSimilarity, ...candidate }) => candidate);
+    const embedding = await this.similarByEmbedding(input);
+    const seen = new Set<string>(closest.map(candidate => candidate.id));
+    return {
+      status: 'unresolved',
+      candidates: [...closest, ...embedding.filter(candidate => !seen.has(candidate.id))].slice(
+        0,
+        MAX_CANDIDATES
+      ),
+    };
+  }
+
+  private select(id: string): ResolvedPattern | null {
+    return this.db.queryOne<ResolvedPattern>(
+      'SELECT id, name, category, description FROM patterns WHERE id = ?',
+      [id]
+    );
+  }
+
+  /**
+   * Patterns whose ID, name or an alias is close to the input, best first. A key scores its
+   * edit-distance similarity or, when higher, the weighted similarity of the input to the
+   * start of the key or of a later word, so "factory" ranks factory-method, then
+   * abstract-factory, over functor.
+   */
+  private similarByEditDistance(
+    slug: string,
+    aliases: Map<string, string[]>
+  ): (PatternCandidate & { editSimilarity: number })[] {
+    if (!slug) return [];
+
+    return this.db
+      .query<ResolvedPattern>('SELECT id, name, category, description FROM patterns')
+      .map(pattern => {
+        const keys = [pattern.id, pattern.name, ...(aliases.get(pattern.id) ?? [])].map(aliasKey);
+        const editSimilarity = Math.max(...keys.map(key => stringSimilarity(slug, key)));
+        const prefixScores =
+          slug.length >= MIN_PREFIX_LENGTH
+            ? keys.flatMap(key =>
+                key
+                  .split('-')
+                  .map(
+                    (_, index, words) =>
+                      (index === 0 ? LEADING_PREFIX_WEIGHT : WORD_PREFIX_WEIGHT) *
+                      prefixSimilarity(slug, words.slice(index).join('-'))
+                  )
+              )
+            : [];
+        return {
+          ...pattern,
+          score: Math.max(editSimilarity, ...prefixScores),
+          matchedBy: 'similarity' as const,
+          editSimilarity,
+        };
+      })
+      .filter(candidate => candidate.score >= CANDIDATE_SIMILARITY)
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Semantically closest patterns; empty without semantic search or embeddings
+   */
+  private async similarByEmbedding(input: string): Promise<PatternCandidate[]> {
+    if (!this.semanticSearch) return [];
+
+    try {
+      const results = await this.semanticSearch.search({
+        text: input,
+        options: { limit: 3, includeMetadata: true },
+      });
+      return results.map(result => ({
+        id: result.pattern.id,
+        name: result.pattern.name,
+        category: result.pattern.category,
+        description: result.pattern.description,
+        score: result.score,
+        matchedBy: 'embedding' as const,
+      }));
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Pattern Languages
+ * Programming languages a pattern can be shown in: its stored implementations
+ * (pattern_implementations) and the code examples of its catalog document (patterns.examples,
+ * keyed by language in JSON documents, before/after/complete in imported Markdown).
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import type { PatternExample } from '../mcp/types.js';
+import { isObject } from '../utils/type-guards.js';
+
+export interface PatternLanguage {
+  /** Lowercase language name */
+  language: string;
+  /** Implementations and code examples in the language */
+  count: number;
+}
+
+/** Example keys of the catalog that hold cross-references or notes rather than code */
+const NON_CODE_EXAMPLES = new Set(['note', 'cross-reference']);
+
+/**
+ * Code examples of a patterns.examples column; malformed JSON yields none
+ */
+export function parsePatternExamples(examples: string | null | undefined): PatternExample[] {
+  if (!examples) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(examples);
+  } catch {
+    return [];
+  }
+  if (!isObject(parsed)) return [];
+
+  return Object.entries(parsed).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value]).flatMap((example: unknown) => {
+      if (!isObject(example) || typeof example.code !== 'string') return [];
+      const language = typeof example.language === 'string' ? example.language : key;
+      if (NON_CODE_EXAMPLES.has(language.toLowerCase())) return [];
+      return [
+        {
+          language: language.toLowerCase(),
+          code: example.code,
+          description: typeof example.description === 'string' ? example.description : undefined,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Languages with implementations or code examples, of one pattern or of the whole catalog
+ */
+export function loadPatternLanguages(db: DatabaseManager, patternId?: string): PatternLanguage[] {
+  const counts = new Map<string, number>();
+  const add = (language: string, count: number) =>
+    counts.set(language, (counts.get(language) ?? 0) + count);
+
+  for (const row of db.query<{ language: string; count: number }>(
+    `SELECT LOWER(language) AS language, COUNT(*) AS count FROM pattern_implementations
+     ${patternId ? 'WHERE pattern_id = ?' : ''} GROUP BY LOWER(language)`,
+    patternId ? [patternId] : []
+  )) {
+    add(row.language, row.count);
+  }
+  for (const row of db.query<{ examples: string | null }>(
+    `SELECT examples FROM patterns WHERE examples IS NOT NULL ${patternId ? 'AND id = ?' : ''}`,
+    patternId ? [patternId] : []
+  )) {
+    parsePatternExamples(row.examples).forEach(example => add(example.language, 1));
+  }
+
+  return [...counts]
+    .map(([language, count]) => ({ language, count }))
+    .sort((a, b) => a.language.localeCompare(b.language));
+}
+
+/**
+ * Catalog code examples of a pattern in one language (case-insensitive)
+ */
+export function loadPatternExamples(
+  db: DatabaseManager,
+  patternId: string,
+  language: string
+): PatternExample[] {
+  const row = db.queryOne<{ examples: string | null }>(
+    'SELECT examples FROM patterns WHERE id = ?',
+    [patternId]
+  );
+  return parsePatternExamples(row?.examples).filter(
+    example => example.language === language.toLowerCase()
+  );
+}
@@ -5,39 +5,12 @@
 import { DatabaseManager } from './database-manager.js';
 import { VectorOperationsService } from './vector-operations.js';
 import { PatternRecommendation, ImplementationGuidance, AlternativePattern } from '../models/recommendation.js';
-import { PatternAnalyzer } from './pattern-analyzer.js';
+import { PatternAnalyzer, type CodeAnalysisResult } from './pattern-analyzer.js';
 import { CacheService } from './cache.js';
 import { structuredLogger } from '../utils/logger.js';
 import { parseTags, parseArrayProperty } from '../utils/parse-tags.js';
 import { EmbeddingServiceAdapter } from '../adapters/embedding-service-adapter.js';
 
-
-// Define CodeAnalysisResult interface locally since it's not exported in compiled JS
-interface CodeAnalysisResult {
-  identifiedPatterns: {
-    pattern: string;
-    category: string;
-    confidence: number;
-    location?: {
-      line?: number;
-      column?: number;
-      snippet?: string;
-    };
-    indicators: string[];
-  }[];
-  suggestedPatterns: {
-    pattern: string;
-    reason: string;
-    confidence: number;
-  }[];
-  improvements: string[];
-  antiPatterns?: {
-    pattern: string;
-    reason: string;
-    severity: 'low' | 'medium' | 'high';
-  }[];
-}
-
 interface PatternMatcherConfig {
   maxResults: number;
   minConfidence: number;
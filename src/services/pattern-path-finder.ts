@@ -0,0 +1,281 @@
+/**
+ * Pattern Path Finder
+ * Answers "how does pattern A relate to pattern B" by searching a graph that mixes
+ * explicit catalog relationships with the kNN/metadata edges of GraphVectorService.
+ * Returns the shortest path (fewest hops) and the strongest path (highest product of
+ * edge weights), with every hop labelled by relationship type or similarity score.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import type { GraphVectorService } from './graph-vector-service.js';
+import type { LLMBridgeService } from './llm-bridge.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import type { RelationshipType } from '../models/relationship.js';
+
+export interface PatternPathRequest {
+  sourcePatternId: string;
+  targetPatternId: string;
+  /** Longest path to consider (default 4) */
+  maxHops?: number;
+  /** Also walk kNN/metadata similarity edges (default true) */
+  includeSimilarity?: boolean;
+  /** Let a configured LLM explain the relationship (default true) */
+  useLLM?: boolean;
+}
+
+export type PathHop =
+  | {
+      kind: 'relationship';
+      from: string;
+      to: string;
+      relationshipType: RelationshipType;
+      strength: number;
+      /** 'reverse' when the catalog relationship points from `to` to `from` */
+      direction: 'forward' | 'reverse';
+      description: string;
+    }
+  | {
+      kind: 'similarity';
+      from: string;
+      to: string;
+      score: number;
+    };
+
+export interface PatternPath {
+  /** Pattern IDs from source to target */
+  patternIds: string[];
+  hops: PathHop[];
+  /** Product of the edge weights along the path */
+  score: number;
+}
+
+export interface PatternPathResult {
+  sourcePatternId: string;
+  targetPatternId: string;
+  unknownIds: string[];
+  shortest?: PatternPath;
+  strongest?: PatternPath;
+  /** Display names for every pattern ID mentioned in the result */
+  names: Map<string, string>;
+  explanation?: string;
+}
+
+interface PathEdge {
+  to: string;
+  weight: number;
+  hop: PathHop;
+}
+
+interface PathStep {
+  score: number;
+  /** Pattern the step came from; undefined for the source itself */
+  previous?: string;
+  edge?: PathEdge;
+}
+
+const DEFAULT_MAX_HOPS = 4;
+
+export class PatternPathFinder {
+  constructor(
+    private readonly db: DatabaseManager,
+    private readonly graphService: GraphVectorService | null = null,
+    private readonly llmBridge: LLMBridgeService | null = null
+  ) {}
+
+  /**
+   * Find the shortest and strongest paths between two catalog patterns.
+   * Paths are left undefined when the patterns are unknown or not connected.
+   */
+  async findPaths(request: PatternPathRequest): Promise<PatternPathResult> {
+    const { sourcePatternId, targetPatternId } = request;
+    const names = this.loadNames([sourcePatternId, targetPatternId]);
+    const result: PatternPathResult = {
+      sourcePatternId,
+      targetPatternId,
+      unknownIds: [sourcePatternId, targetPatternId].filter(id => !names.has(id)),
+      names,
+    };
+    if (result.unknownIds.length > 0) {
+      return result;
+    }
+
+    const adjacency = await this.buildAdjacency(request.includeSimilarity !== false);
+    const layers = this.expand(adjacency, sourcePatternId, request.maxHops ?? DEFAULT_MAX_HOPS);
+
+    let strongestHops = 0;
+    for (let hops = 1; hops < layers.length; hops++) {
+      const step = layers[hops].get(targetPatternId);
+      if (!step) continue;
+      if (!result.shortest) {
+        result.shortest = this.reconstruct(layers, targetPatternId, hops);
+      }
+      const best = strongestHops ? layers[strongestHops].get(targetPatternId) : undefined;
+      if (!best || step.score > best.score) {
+        strongestHops = hops;
+      }
+    }
+    if (strongestHops) {
+      result.strongest = this.reconstruct(layers, targetPatternId, strongestHops);
+    }
+
+    const mentioned = [result.shortest, result.strongest].flatMap(path => path?.patternIds ?? []);
+    for (const [id, name] of this.loadNames(mentioned)) {
+      names.set(id, name);
+    }
+
+    if (this.llmBridge && request.useLLM !== false) {
+      result.explanation = await this.llmBridge.explainPatternRelationships(
+        names.get(sourcePatternId) ?? sourcePatternId,
+        names.get(targetPatternId) ?? targetPatternId,
+        result.strongest ? describePath(result.strongest, names) : undefined
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Undirected adjacency lists: relationships can be walked against their direction
+   * (the hop records it), kNN edges are treated as symmetric.
+   */
+  private async buildAdjacency(includeSimilarity: boolean): Promise<Map<string, PathEdge[]>> {
+    const adjacency = new Map<string, PathEdge[]>();
+    const addEdge = (from: string, edge: PathEdge) => {
+      if (edge.weight <= 0) return;
+      const edges = adjacency.get(from) ?? [];
+      edges.push(edge);
+      adjacency.set(from, edges);
+    };
+
+    const relationships = await new SqliteRelationshipRepository(this.db).findAll();
+    for (const rel of relationships) {
+      const hop = {
+        kind: 'relationship' as const,
+        relationshipType: rel.type,
+        strength: rel.strength,
+        description: rel.description,
+      };
+      addEdge(rel.sourcePatternId, {
+        to: rel.targetPatternId,
+        weight: rel.strength,
+        hop: { ...hop, from: rel.sourcePatternId, to: rel.targetPatternId, direction: 'forward' },
+      });
+      addEdge(rel.targetPatternId, {
+        to: rel.sourcePatternId,
+        weight: rel.strength,
+        hop: { ...hop, from: rel.targetPatternId, to: rel.sourcePatternId, direction: 'reverse' },
+      });
+    }
+
+    if (includeSimilarity && this.graphService) {
+      const graph = await this.graphService.buildKNNGraph();
+      for (const [id, node] of graph) {
+        for (const neighbor of node.neighbors) {
+          // Metadata edges boost kNN weights past 1; cap so products stay comparable
+          const score = Math.min(1, neighbor.weight);
+          addEdge(id, {
+            to: neighbor.id,
+            weight: score,
+            hop: { kind: 'similarity', from: id, to: neighbor.id, score },
+          });
+          addEdge(neighbor.id, {
+            to: id,
+            weight: score,
+            hop: { kind: 'similarity', from: neighbor.id, to: id, score },
+          });
+        }
+      }
+    }
+
+    return adjacency;
+  }
+
+  /**
+   * layers[h] holds, for every pattern reachable in exactly h hops, the strongest way to
+   * get there. Weights never exceed 1, so a walk that revisits a pattern is never stronger
+   * than the shorter walk without the loop and the chosen paths stay simple.
+   */
+  private expand(
+    adjacency: Map<string, PathEdge[]>,
+    sourcePatternId: string,
+    maxHops: number
+  ): Array<Map<string, PathStep>> {
+    const layers = [new Map<string, PathStep>([[sourcePatternId, { score: 1 }]])];
+
+    for (let hops = 1; hops <= maxHops; hops++) {
+      const layer = new Map<string, PathStep>();
+      for (const [patternId, step] of layers[hops - 1]) {
+        for (const edge of adjacency.get(patternId) ?? []) {
+          if (edge.to === sourcePatternId) continue;
+          const score = step.score * edge.weight;
+          const current = layer.get(edge.to);
+          if (!current || score > current.score) {
+            layer.set(edge.to, { score, previous: patternId, edge });
+          }
+        }
+      }
+      if (layer.size === 0) break;
+      layers.push(layer);
+    }
+
+    return layers;
+  }
+
+  private reconstruct(
+    layers: Array<Map<string, PathStep>>,
+    targetPatternId: string,
+    hops: number
+  ): PatternPath {
+    const pathHops: PathHop[] = [];
+    let patternId = targetPatternId;
+    const score = layers[hops].get(targetPatternId)?.score ?? 0;
+
+    for (let layer = hops; layer > 0; layer--) {
+      const step = layers[layer].get(patternId);
+      if (!step?.edge || step.previous === undefined) break;
+      pathHops.unshift(step.edge.hop);
+      patternId = step.previous;
+    }
+
+    return {
+      patternIds: [patternId, ...pathHops.map(hop => hop.to)],
+      hops: pathHops,
+      score,
+    };
+  }
+
+  private loadNames(patternIds: string[]): Map<string, string> {
+    const uniqueIds = [...new Set(patternIds)];
+    if (uniqueIds.length === 0) {
+      return new Map();
+    }
+    const rows = this.db.query<{ id: string; name: string }>(
+      `SELECT id, name FROM patterns WHERE id IN (${uniqueIds.map(() => '?').join(', ')})`,
+      uniqueIds
+    );
+    return new Map(rows.map(row => [row.id, row.name]));
+  }
+}
+
+/**
+ * Short label for a hop, e.g. "complements (0.80)" or "similarity 0.72"
+ */
+export function describeHop(hop: PathHop): string {
+  return hop.kind === 'relationship'
+    ? `${hop.relationshipType} (${hop.strength.toFixed(2)})`
+    : `similarity ${hop.score.toFixed(2)}`;
+}
+
+function describePath(path: PatternPath, names: Map<string, string>): string {
+  const name = (id: string) => names.get(id) ?? id;
+  return (
+    'Connecting path in the catalog: ' +
+    path.hops
+      .map(hop =>
+        hop.kind === 'relationship' && hop.direction === 'reverse'
+          ? `${name(hop.from)} is the target of "${name(hop.to)} ${describeHop(hop)}"`
+          : `${name(hop.from)} ${describeHop(hop)} ${name(hop.to)}`
+      )
+      .join('; ')
+  );
+}
@@ -1,12 +1,17 @@
 /**
  * Pattern Data Seeder for Design Patterns MCP Server
- * Loads pattern data from JSON files and seeds the database
+ * Loads pattern data from JSON and Markdown files and seeds the database; overlay catalogs
+ * are layered over the built-in patterns by priority
  */
 import { DatabaseManager } from './database-manager.js';
-import { Pattern } from '../models/pattern.js';
+import { Pattern, type PatternCatalogSource } from '../models/pattern.js';
 import { logger } from './logger.js';
-import { isObject } from '../utils/type-guards.js';
+import { isObject, isString, isTypedArray } from '../utils/type-guards.js';
 import { validatePattern } from '../utils/pattern-schema-validation.js';
+import { parseMarkdownPattern } from './markdown-pattern-importer.js';
+import { BUILTIN_SOURCE, orderCatalogSources, type FieldProvenance } from './catalog-sources.js';
+import { hasPatternAliases, replacePatternAliases } from './pattern-aliases.js';
+import { catalogEventBus } from '../events/catalog-events.js';
 import fs from 'fs';
 import path from 'path';
 import { resolvePatternsPath } from '../core/path-resolver.js';
@@ -15,8 +20,24 @@ interface SeederConfig {
   patternsPath: string;
   batchSize: number;
   skipExisting: boolean;
+  /** Overlay catalogs merged over the patterns in patternsPath by seedAll */
+  overlays?: PatternCatalogSource[];
 }
 
+interface PatternOrigin {
+  source: string;
+  provenance: FieldProvenance;
+}
+
+interface MergedPattern extends PatternOrigin {
+  pattern: Pattern;
+  /** Later definitions of the ID in the same source; only their relationships are seeded */
+  duplicates: Pattern[];
+}
+
+/** Document keys that never count as field overrides */
+const UNTRACKED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'created_at', 'updated_at']);
+
 interface RawRelationship {
   targetPatternId?: string;
   target_pattern_id?: string;
@@ -41,6 +62,59 @@ interface PatternFileData {
   [key: string]: unknown;
 }
 
+/**
+ * Set a pattern field from an overlay document. Returns false for fields overlays cannot set
+ * and for values of the wrong type, which leave the pattern unchanged.
+ */
+function overridePatternField(pattern: Pattern, field: string, value: unknown): boolean {
+  switch (field) {
+    case 'name':
+    case 'category':
+    case 'description':
+    case 'problem':
+    case 'solution':
+    case 'complexity':
+    case 'structure':
+    case 'implementation':
+      if (!isString(value)) return false;
+      pattern[field] = value;
+      return true;
+    case 'when_to_use':
+    case 'benefits':
+    case 'drawbacks':
+    case 'use_cases':
+    case 'tags':
+    case 'related_patterns':
+    case 'participants':
+    case 'collaborations':
+    case 'consequences':
+    case 'useCases':
+    case 'alsoKnownAs':
+      if (!isTypedArray(value, isString)) return false;
+      pattern[field] = value;
+      return true;
+    case 'implementations':
+      if (!isTypedArray(value, isImplementation)) return false;
+      pattern.implementations = value;
+      return true;
+    case 'examples':
+      if (!isString(value) && !isObject(value)) return false;
+      pattern.examples = value;
+      return true;
+    case 'metadata':
+      if (!isObject(value)) return false;
+      pattern.metadata = value;
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Implementations of catalog documents carry at least their language and code */
+function isImplementation(value: unknown): value is Pattern['implementations'][number] {
+  return isObject(value) && isString(value.language) && isString(value.code);
+}
+
 export class PatternSeeder {
   private db: DatabaseManager;
   private config: SeederConfig;
@@ -51,7 +125,7 @@ export class PatternSeeder {
   }
 
   /**
-   * Seed all pattern data
+   * Seed all pattern data: the built-in catalog plus configured overlay catalogs
    */
   async seedAll(): Promise<SeederResult> {
     const results: SeederResult[] = [];
@@ -60,93 +134,74 @@ export class PatternSeeder {
     let totalRelationships = 0;
 
     try {
-      // Get all pattern JSON files
-      const patternFiles = this.getPatternFiles();
+      // First pass: Load every source and merge overlays into the patterns they override
+      const merged = new Map<string, MergedPattern>();
+      for (const source of orderCatalogSources(this.config.patternsPath, this.config.overlays)) {
+        await this.loadCatalogSource(source.path, source.namespace, merged);
+      }
+      const allPatterns = [...merged.values()];
 
-      // First pass: Load all patterns and collect relationships
-      const allPatterns: Pattern[] = [];
+      // Collect relationships of the merged patterns
       const allRelationships: Array<{
         sourceId: string;
         relationship: string | RawRelationship;
-        filename: string;
       }> = [];
-
-      for (const file of patternFiles) {
-        const loadedData = await this.loadPatternFile(file);
-
-        if (!this.isPatternFileData(loadedData)) {
-          logger.warn('pattern-seeder', `Skipping invalid pattern file: ${file}`);
-          continue;
-        }
-
-        const data = loadedData;
-        const patternsList = Array.isArray(data.patterns) ? data.patterns : data.id ? [data] : [];
-
-        for (const pattern of patternsList) {
-          if (!this.isValidPattern(pattern)) {
-            logger.warn('pattern-seeder', `Skipping invalid pattern in file ${file}`, {
-              patternData: String(pattern),
-            });
-            continue;
-          }
-
-          const schemaResult = validatePattern(pattern);
-          if (!schemaResult.valid) {
-            logger.warn('pattern-seeder', `Schema validation warnings in file ${file}`, {
-              errors: schemaResult.errors.map(e => `${e.field}: ${e.message}`),
-              warnings: schemaResult.warnings.map(w => `${w.field}: ${w.message}`),
-            });
-          }
-
-          const typedPattern = pattern;
-          allPatterns.push(typedPattern);
-
-          // Collect relationships for later insertion
-          const relatedPatterns = typedPattern.relatedPatterns ?? typedPattern.related_patterns;
-          const relationships = typedPattern.relationships;
-
-          // Process legacy relatedPatterns format
-          if (relatedPatterns) {
-            for (const rel of relatedPatterns) {
-              // Handle potential Pattern object in relatedPatterns (if it was fully resolved in JSON) or string ID
-              const relValue = typeof rel === 'string' ? rel : rel.id || rel.name;
-              if (relValue) {
-                allRelationships.push({
-                  sourceId: typedPattern.id,
-                  relationship: relValue,
-                  filename: file,
-                });
-              }
+      for (const typedPattern of allPatterns.flatMap(entry => [
+        entry.pattern,
+        ...entry.duplicates,
+      ])) {
+        const relatedPatterns = typedPattern.relatedPatterns ?? typedPattern.related_patterns;
+        const relationships = typedPattern.relationships;
+
+        // Process legacy relatedPatterns format
+        if (relatedPatterns) {
+          for (const rel of relatedPatterns) {
+            // Handle potential Pattern object in relatedPatterns (if it was fully resolved in JSON) or string ID
+            const relValue = typeof rel === 'string' ? rel : rel.id || rel.name;
+            if (relValue) {
+              allRelationships.push({ sourceId: typedPattern.id, relationship: relValue });
             }
           }
+        }
 
-          // Process new relationships format
-          if (relationships) {
-            for (const rel of relationships) {
-              allRelationships.push({
-                sourceId: typedPattern.id,
-                relationship: rel,
-                filename: file,
-              });
-            }
+        // Process new relationships format
+        if (relationships) {
+          for (const rel of relationships) {
+            allRelationships.push({ sourceId: typedPattern.id, relationship: rel });
           }
         }
       }
 
-      // Second pass: Insert all patterns
+      // Second pass: Insert all patterns, dropping those of overlays no longer configured
+      const insertedPatterns: Pattern[] = [];
+      const trackSources = this.hasSourceColumns();
+      const trackAliases = hasPatternAliases(this.db);
       this.db.transaction(() => {
-        for (const pattern of allPatterns) {
-          const patternInserted = this.insertPattern(pattern);
+        if (trackSources) {
+          this.removeUnconfiguredSources();
+        }
+        for (const entry of allPatterns) {
+          const patternInserted = this.insertPattern(
+            entry.pattern,
+            trackSources ? entry : undefined
+          );
           if (patternInserted) {
             totalPatterns++;
+            insertedPatterns.push(entry.pattern);
+          }
+          if (trackAliases) {
+            this.insertAliases(entry.pattern);
           }
         }
       });
 
-      // Third pass: Insert all implementations
+      // Third pass: Insert implementations of the (re)inserted patterns, replacing earlier ones
       this.db.transaction(() => {
-        for (const pattern of allPatterns) {
+        for (const pattern of insertedPatterns) {
           if (pattern.implementations) {
+            this.db.execute('DELETE FROM pattern_implementations WHERE pattern_id = ?', [
+              pattern.id,
+            ]);
             for (const impl of pattern.implementations) {
               const implInserted = this.insertImplementation(pattern.id, impl);
               if (implInserted) {
@@ -156,7 +211,6 @@ export class PatternSeeder {
           }
         }
       });
-
       // Fourth pass: Insert all relationships (after all patterns exist)
       this.db.transaction(() => {
         for (const { sourceId, relationship } of allRelationships) {
@@ -177,6 +231,10 @@ export class PatternSeeder {
         }
       });
 
+      catalogEventBus.emit('catalog:reloaded', {
+        patternIds: insertedPatterns.map(pattern => pattern.id),
+      });
+
       return {
         success: true,
         message: `Successfully seeded ${totalPatterns} patterns, ${totalImplementations} implementations, and ${totalRelationships} relationships`,
@@ -194,6 +252,129 @@ export class PatternSeeder {
     }
   }
 
+  /**
+   * Load one catalog source into the merged patterns. Within a source the first definition
+   * of an ID (by file name) supplies the fields and later ones add their relationships. A
+   * pattern ID seen in a lower-priority source is an override: every field the document sets
+   * replaces the earlier value.
+   */
+  private async loadCatalogSource(
+    directory: string,
+    namespace: string,
+    merged: Map<string, MergedPattern>
+  ): Promise<void> {
+    const sourceIds = new Set<string>();
+
+    for (const file of this.getPatternFiles(directory)) {
+      const loadedData = await this.loadPatternFile(file);
+
+      if (!this.isPatternFileData(loadedData)) {
+        logger.warn('pattern-seeder', `Skipping invalid pattern file: ${file}`);
+        continue;
+      }
+
+      const data = loadedData;
+      const patternsList = Array.isArray(data.patterns) ? data.patterns : data.id ? [data] : [];
+
+      for (const pattern of patternsList) {
+        const id = isObject(pattern) && typeof pattern.id === 'string' ? pattern.id : undefined;
+        const existing = id === undefined ? undefined : merged.get(id);
+
+        if (existing && sourceIds.has(existing.pattern.id)) {
+          if (this.isValidPattern(pattern)) {
+            existing.duplicates.push(pattern);
+          }
+          continue;
+        }
+
+        if (existing && isObject(pattern)) {
+          sourceIds.add(existing.pattern.id);
+          this.applyOverride(existing, pattern, namespace);
+          continue;
+        }
+
+        if (!this.isValidPattern(pattern)) {
+          logger.warn('pattern-seeder', `Skipping invalid pattern in file ${file}`, {
+            patternData: String(pattern),
+          });
+          continue;
+        }
+
+        const schemaResult = validatePattern(pattern);
+        if (!schemaResult.valid) {
+          logger.warn('pattern-seeder', `Schema validation warnings in file ${file}`, {
+            errors: schemaResult.errors.map(e => `${e.field}: ${e.message}`),
+            warnings: schemaResult.warnings.map(w => `${w.field}: ${w.message}`),
+          });
+        }
+
+        sourceIds.add(pattern.id);
+        merged.set(pattern.id, { pattern, source: namespace, provenance: {}, duplicates: [] });
+      }
+    }
+  }
+
+  /**
+   * Copy the fields an overlay document sets onto a pattern and record their source
+   */
+  private applyOverride(
+    target: MergedPattern,
+    override: Record<string, unknown>,
+    namespace: string
+  ): void {
+    for (const [field, value] of Object.entries(override)) {
+      const isEmpty =
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0);
+      if (UNTRACKED_FIELDS.has(field) || isEmpty) {
+        continue;
+      }
+      if (!overridePatternField(target.pattern, field, value)) {
+        logger.warn(
+          'pattern-seeder',
+          `Ignoring ${field} of ${target.pattern.id} from ${namespace}`
+        );
+        continue;
+      }
+      target.provenance[field] = namespace;
+    }
+  }
+
+  /**
+   * Whether the patterns table has the source/provenance columns (migration 013)
+   */
+  private hasSourceColumns(): boolean {
+    const columns = this.db.query<{ name: string }>('PRAGMA table_info(patterns)');
+    return columns.some(column => column.name === 'source');
+  }
+
+  /**
+   * Delete patterns defined by overlays that are no longer configured
+   */
+  private removeUnconfiguredSources(): void {
+    const namespaces = [
+      BUILTIN_SOURCE,
+      ...(this.config.overlays ?? []).map(overlay => overlay.namespace),
+    ];
+    const placeholders = namespaces.map(() => '?').join(',');
+    const stale = this.db.query<{ id: string; source: string }>(
+      `SELECT id, source FROM patterns WHERE source NOT IN (${placeholders})`,
+      namespaces
+    );
+
+    for (const { id, source } of stale) {
+      this.db.execute('DELETE FROM pattern_implementations WHERE pattern_id = ?', [id]);
+      this.db.execute(
+        'DELETE FROM pattern_relationships WHERE source_pattern_id = ? OR target_pattern_id = ?',
+        [id, id]
+      );
+      this.db.execute('DELETE FROM patterns WHERE id = ?', [id]);
+      logger.info('pattern-seeder', `Removed pattern ${id} of unconfigured source ${source}`);
+    }
+  }
+
   /**
    * Type guard for PatternFileData
    */
@@ -301,13 +482,19 @@ export class PatternSeeder {
     // Collect all relationships for deferred insertion
     const allRelationships: Array<{ sourceId: string; relationship: string | RawRelationship }> =
       [];
+    const insertedPatterns: Pattern[] = [];
 
     // First pass: Insert all patterns and collect relationships
+    const trackAliases = hasPatternAliases(this.db);
     this.db.transaction(() => {
       for (const pattern of patterns) {
         const patternInserted = this.insertPattern(pattern);
         if (patternInserted) {
           patternsInserted++;
+          insertedPatterns.push(pattern);
+          if (trackAliases) {
+            this.insertAliases(pattern);
+          }
 
           // Collect relationships for later insertion
           const relatedPatterns = pattern.relatedPatterns ?? pattern.related_patterns;
@@ -320,11 +507,14 @@ export class PatternSeeder {
       }
     });
 
-    // Second pass: Insert implementations
+    // Second pass: Insert implementations of the (re)inserted patterns, replacing earlier ones
     this.db.transaction(() => {
-      for (const pattern of patterns) {
+      for (const pattern of insertedPatterns) {
         // Insert implementations
         if (pattern.implementations) {
+          this.db.execute('DELETE FROM pattern_implementations WHERE pattern_id = ?', [
+            pattern.id,
+          ]);
           for (const impl of pattern.implementations) {
             const implInserted = this.insertImplementation(pattern.id, impl);
             if (implInserted) {
@@ -367,24 +557,40 @@ export class PatternSeeder {
   }
 
   /**
-   * Insert a pattern into the database
+   * Insert a pattern into the database. With an origin the source and provenance columns are
+   * written too, and patterns touched by overlays are rewritten even when skipExisting is set
+   * so that overlay edits (or removed overrides) apply on the next seed.
    */
-  private insertPattern(pattern: Pattern): boolean {
+  private insertPattern(pattern: Pattern, origin?: PatternOrigin): boolean {
     try {
+      const provenance =
+        origin && Object.keys(origin.provenance).length > 0
+          ? JSON.stringify(origin.provenance)
+          : null;
+
       if (this.config.skipExisting) {
-        const existing = this.db.queryOne<{ id: string }>('SELECT id FROM patterns WHERE id = ?', [
-          pattern.id,
-        ]);
-        if (existing) {
+        const existing = this.db.queryOne<{ source?: string; provenance?: string | null }>(
+          `SELECT ${origin ? 'source, provenance' : 'id'} FROM patterns WHERE id = ?`,
+          [pattern.id]
+        );
+        // Rows an overlay contributes to, now or in the previous seed, are always rewritten
+        const overlaid =
+          [origin?.source, existing?.source].some(
+            source => source !== undefined && source !== BUILTIN_SOURCE
+          ) ||
+          provenance !== null ||
+          Boolean(existing?.provenance);
+        if (existing && !overlaid) {
           return false; // Skip existing
         }
       }
 
+      const sourceColumns = origin ? ', source, provenance' : '';
       const sql = `
         INSERT OR REPLACE INTO patterns (
           id, name, category, description, when_to_use, benefits,
-          drawbacks, use_cases, complexity, tags, examples, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          drawbacks, use_cases, complexity, tags, examples, created_at, updated_at${sourceColumns}
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?${origin ? ', ?, ?' : ''})
       `;
 
       const params = [
@@ -401,6 +607,7 @@ export class PatternSeeder {
         pattern.examples ? JSON.stringify(pattern.examples) : null,
         (pattern.createdAt ? new Date(pattern.createdAt) : new Date()).toISOString(),
         (pattern.updatedAt ? new Date(pattern.updatedAt) : new Date()).toISOString(),
+        ...(origin ? [origin.source, provenance] : []),
       ];
 
       this.db.execute(sql, params);
@@ -411,6 +618,21 @@ export class PatternSeeder {
     }
   }
 
+  /**
+   * Store the pattern's alsoKnownAs names in pattern_aliases, replacing earlier ones. Runs for
+   * existing rows too, so aliases added to the catalog reach databases seeded before.
+   */
+  private insertAliases(pattern: Pattern): void {
+    const aliases = Array.isArray(pattern.alsoKnownAs)
+      ? pattern.alsoKnownAs.filter((alias): alias is string => typeof alias === 'string')
+      : [];
+    try {
+      replacePatternAliases(this.db, pattern.id, aliases);
+    } catch (error) {
+      logger.error('pattern-seeder', `Failed to insert aliases for pattern ${pattern.id}`, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   /**
    * Insert a pattern implementation
    */
@@ -561,14 +783,15 @@ export class PatternSeeder {
   }
 
   /**
-   * Get all pattern files
+   * Get all pattern files, sorted so duplicate definitions resolve the same on every system
    */
-  private getPatternFiles(): string[] {
+  private getPatternFiles(directory: string): string[] {
     try {
       const files = fs
-        .readdirSync(this.config.patternsPath)
-        .filter(file => file.endsWith('.json'))
-        .map(file => path.join(this.config.patternsPath, file));
+        .readdirSync(directory)
+        .filter(file => file.endsWith('.json') || file.endsWith('.md'))
+        .sort()
+        .map(file => path.join(directory, file));
 
       return files;
     } catch (error) {
@@ -583,7 +806,9 @@ export class PatternSeeder {
   private loadPatternFile(filePath: string): unknown {
     try {
       const content = fs.readFileSync(filePath, 'utf8');
-      const parsed: unknown = JSON.parse(content);
+      const parsed: unknown = filePath.endsWith('.md')
+        ? parseMarkdownPattern(content)
+        : JSON.parse(content);
 
       // Basic validation that it's an object
       if (!isObject(parsed)) {
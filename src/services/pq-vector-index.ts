@@ -0,0 +1,102 @@
+/**
+ * PQ Vector Index
+ * Keeps only the product quantization codes of normalised embeddings in memory and ranks them
+ * against a query with per-query lookup tables (asymmetric distance computation).
+ */
+
+import { ProductQuantizer } from './advanced-embedding-compressor.js';
+import { normalizeVector, type IndexCandidate } from './ivf-vector-index.js';
+
+export class PqVectorIndex {
+  private readonly codes = new Map<string, Uint8Array>();
+  private readonly quantizer: ProductQuantizer;
+
+  /**
+   * @param codebooks one codebook per subspace, each with 1-256 centroids
+   */
+  constructor(readonly codebooks: number[][][]) {
+    if (codebooks.length === 0 || codebooks.some(codebook => !codebook.length)) {
+      throw new Error('PQ index needs at least one non-empty codebook');
+    }
+    if (codebooks.some(codebook => codebook.length > 256)) {
+      throw new Error('PQ codebooks are limited to 256 centroids (one byte per code)');
+    }
+    this.quantizer = new ProductQuantizer(codebooks[0].length, codebooks.length);
+  }
+
+  /**
+   * Train codebooks on normalised copies of the vectors
+   */
+  static train(vectors: number[][], subvectors: number, clusters: number): PqVectorIndex {
+    if (vectors.length === 0) {
+      throw new Error('PQ training needs at least one vector');
+    }
+    if (vectors[0].length < subvectors) {
+      throw new Error(`Cannot split ${vectors[0].length} dimensions into ${subvectors} subvectors`);
+    }
+    const quantizer = new ProductQuantizer(Math.min(clusters, 256), subvectors);
+    return new PqVectorIndex(quantizer.trainCodebooks(vectors.map(normalizeVector)));
+  }
+
+  get size(): number {
+    return this.codes.size;
+  }
+
+  /**
+   * Bytes held by the stored codes (one per subspace and vector)
+   */
+  get codeBytes(): number {
+    return this.codes.size * this.codebooks.length;
+  }
+
+  encode(vector: number[]): Uint8Array {
+    return this.quantizer.encode(normalizeVector(vector), this.codebooks);
+  }
+
+  /**
+   * Encode and store a vector; returns its codes
+   */
+  add(id: string, vector: number[]): Uint8Array {
+    const codes = this.encode(vector);
+    this.codes.set(id, codes);
+    return codes;
+  }
+
+  /**
+   * Store codes encoded earlier with the same codebooks
+   */
+  addCodes(id: string, codes: Uint8Array): void {
+    if (codes.length !== this.codebooks.length) {
+      throw new Error(`Expected ${this.codebooks.length} PQ codes, got ${codes.length}`);
+    }
+    this.codes.set(id, codes);
+  }
+
+  remove(id: string): boolean {
+    return this.codes.delete(id);
+  }
+
+  clear(): void {
+    this.codes.clear();
+  }
+
+  /**
+   * Top `limit` codes by approximate cosine similarity
+   */
+  search(
+    query: number[],
+    limit: number,
+    accept: (id: string) => boolean = () => true
+  ): IndexCandidate[] {
+    const table = this.quantizer.createLookupTable(normalizeVector(query), this.codebooks);
+    const candidates: IndexCandidate[] = [];
+
+    for (const [id, codes] of this.codes) {
+      if (accept(id)) {
+        candidates.push({ id, score: this.quantizer.scoreCodes(codes, table) });
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,696 @@
+/**
+ * Refactoring Planner
+ * Turns a piece of code and a target catalog pattern into an ordered
+ * refactoring plan: steps, affected symbols, risks and test scenarios.
+ * Plans are built from code metrics and catalog data; a configured LLM
+ * provider can refine them.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import type { LLMBridgeService } from './llm-bridge.js';
+import {
+  ANTI_PATTERN_THRESHOLDS,
+  AntiPatternDetector,
+  type AntiPatternSeverity,
+  type CodeMetrics,
+} from './anti-pattern-detector.js';
+import { PatternAnalyzer } from './pattern-analyzer.js';
+import { locate } from './pattern-detectors/source-scanner.js';
+import { parseArrayProperty } from '../utils/parse-tags.js';
+import { isObject, isString } from '../utils/type-guards.js';
+
+export interface RefactoringPlanRequest {
+  code: string;
+  language: string;
+  targetPatternId: string;
+  /** Let a configured LLM refine the plan (default true) */
+  useLLM?: boolean;
+}
+
+export interface RefactoringStep {
+  order: number;
+  title: string;
+  detail: string;
+  symbols: string[];
+}
+
+export interface AffectedSymbol {
+  name: string;
+  kind: 'class' | 'function' | 'method';
+  line?: number;
+  reason: string;
+}
+
+export interface RefactoringExample {
+  language: string;
+  code: string;
+  description?: string;
+}
+
+export interface RefactoringPlan {
+  targetPattern: { id: string; name: string; category: string; description?: string };
+  language: string;
+  generatedBy: 'catalog' | 'llm';
+  summary: string;
+  steps: RefactoringStep[];
+  affectedSymbols: AffectedSymbol[];
+  risks: string[];
+  testScenarios: string[];
+  addressedAntiPatterns: Array<{
+    pattern: string;
+    catalogId: string;
+    severity: AntiPatternSeverity;
+  }>;
+  before?: RefactoringExample;
+  after?: RefactoringExample;
+}
+
+interface PatternRow {
+  id: string;
+  name: string;
+  category: string;
+  description?: string;
+  drawbacks?: string;
+  examples?: string;
+}
+
+/** Which symbols a pattern is usually carved out of */
+type RefactoringFocus = 'branching' | 'class';
+
+interface RefactoringRecipe {
+  focus: RefactoringFocus;
+  /** `{symbols}` is replaced with the affected symbol names */
+  steps: Array<[title: string, detail: string]>;
+  testScenarios: string[];
+}
+
+const REFACTORING_RECIPES: Record<string, RefactoringRecipe> = {
+  strategy: {
+    focus: 'branching',
+    steps: [
+      [
+        'Define the strategy interface',
+        'Extract one method signature covering the variants selected inside {symbols}.',
+      ],
+      [
+        'Move each branch into a strategy',
+        'Turn every conditional branch in {symbols} into its own class or function ' +
+          'implementing the interface.',
+      ],
+      [
+        'Inject the strategy',
+        'Give the context a strategy field or parameter and replace the conditional with a ' +
+          'single delegated call.',
+      ],
+      [
+        'Select strategies at the edge',
+        'Choose the concrete strategy where the selecting value originates (configuration, ' +
+          'factory or caller).',
+      ],
+    ],
+    testScenarios: [
+      'Each strategy produces the same result as its former branch',
+      'The context delegates to whichever strategy it was given, including one swapped at runtime',
+      'An unknown selector fails the same way the old default branch did',
+    ],
+  },
+  state: {
+    focus: 'branching',
+    steps: [
+      [
+        'Enumerate the states',
+        'List the state values that {symbols} switch on and the transitions between them.',
+      ],
+      [
+        'Introduce a state interface',
+        'Declare one method per event that currently branches on the state.',
+      ],
+      [
+        'Move state-specific behaviour',
+        'Implement a class per state holding the branch bodies from {symbols}.',
+      ],
+      [
+        'Delegate and transition',
+        'Let the context forward events to the current state object, and let states return or ' +
+          'set the next state.',
+      ],
+    ],
+    testScenarios: [
+      'Every valid transition leads to the expected state',
+      'Events that are invalid in a state are rejected or ignored as before',
+      'Behaviour for each state matches the old conditional branches',
+    ],
+  },
+  'template-method': {
+    focus: 'branching',
+    steps: [
+      [
+        'Find the shared skeleton',
+        'Compare {symbols} and mark the steps that are identical and the ones that vary.',
+      ],
+      [
+        'Create the template',
+        'Add a base class or higher-order function that runs the fixed sequence of steps.',
+      ],
+      ['Extract the varying steps', 'Turn each varying part into an abstract or overridable hook.'],
+      [
+        'Collapse the duplicates',
+        'Reimplement {symbols} as subclasses or hook implementations of the template.',
+      ],
+    ],
+    testScenarios: [
+      'Each variant still runs its steps in the original order',
+      'Default hooks behave like the code they replaced',
+      'Shared steps run exactly once per invocation',
+    ],
+  },
+  'chain-of-responsibility': {
+    focus: 'branching',
+    steps: [
+      [
+        'Define the handler contract',
+        'Introduce a handler with a method that either handles a request or passes it on.',
+      ],
+      [
+        'Split the conditions',
+        'Turn every `if`/`else if` guard in {symbols} into its own handler.',
+      ],
+      [
+        'Assemble the chain',
+        'Link handlers in the original evaluation order and keep a terminal handler for the ' +
+          'old fallback.',
+      ],
+    ],
+    testScenarios: [
+      'Requests are handled by the same branch as before, respecting the original order',
+      'A request no handler accepts reaches the fallback',
+      'Handlers can be reordered or added without touching the others',
+    ],
+  },
+  command: {
+    focus: 'branching',
+    steps: [
+      [
+        'Define the command interface',
+        'Declare an `execute` operation (and `undo` if needed) for the actions dispatched in ' +
+          '{symbols}.',
+      ],
+      [
+        'Wrap each action',
+        'Move every dispatched action into a command object capturing its receiver and arguments.',
+      ],
+      [
+        'Replace the dispatcher',
+        'Look commands up in a registry or queue instead of branching on the action name.',
+      ],
+    ],
+    testScenarios: [
+      'Each command performs the same effect as the action it replaced',
+      'Unknown actions are reported as before',
+      'Undo restores the previous state when supported',
+    ],
+  },
+  facade: {
+    focus: 'class',
+    steps: [
+      [
+        'Group responsibilities',
+        'Cluster the methods and fields of {symbols} by the subsystem they touch.',
+      ],
+      ['Extract subsystems', 'Move each cluster into its own class with a narrow interface.'],
+      [
+        'Introduce the facade',
+        'Keep a thin facade exposing the operations clients use and delegating to the subsystems.',
+      ],
+      ['Redirect clients', 'Point callers at the facade and make the subsystems internal.'],
+    ],
+    testScenarios: [
+      'Facade operations return the same results as the original class',
+      'Each extracted subsystem works in isolation',
+      'Clients no longer depend on subsystem internals',
+    ],
+  },
+  mediator: {
+    focus: 'class',
+    steps: [
+      ['Map the interactions', 'List which collaborators of {symbols} call each other directly.'],
+      [
+        'Introduce the mediator',
+        'Create a mediator that receives notifications and coordinates the reactions.',
+      ],
+      ['Decouple the colleagues', 'Replace direct cross-calls with notifications to the mediator.'],
+    ],
+    testScenarios: [
+      'Each notification triggers the same reactions as the old direct calls',
+      'Colleagues can be tested with a fake mediator',
+      'Interaction order is preserved where it matters',
+    ],
+  },
+  decorator: {
+    focus: 'branching',
+    steps: [
+      [
+        'Isolate the core behaviour',
+        'Separate the essential work in {symbols} from the optional wrapping concerns ' +
+          '(logging, caching, retries).',
+      ],
+      [
+        'Define the component interface',
+        'Make the core and every wrapper implement the same interface.',
+      ],
+      [
+        'Extract decorators',
+        'Move each concern into a decorator that delegates to the wrapped component.',
+      ],
+      [
+        'Compose at construction',
+        'Stack decorators where the component is created instead of toggling flags inside it.',
+      ],
+    ],
+    testScenarios: [
+      'The undecorated component behaves like the old code with all options off',
+      'Each decorator adds only its concern and forwards results unchanged',
+      'Decorators compose in any order without breaking the core result',
+    ],
+  },
+  adapter: {
+    focus: 'class',
+    steps: [
+      [
+        'Define the target interface',
+        'Describe the operations {symbols} need in the terms of your own domain.',
+      ],
+      [
+        'Write the adapter',
+        'Implement the interface by translating calls and data to the third-party or legacy API.',
+      ],
+      [
+        'Depend on the interface',
+        'Replace direct uses of the adaptee in {symbols} with the target interface.',
+      ],
+    ],
+    testScenarios: [
+      'The adapter translates inputs and outputs exactly',
+      'Errors from the adaptee surface as domain errors',
+      'Clients work against a fake implementation of the target interface',
+    ],
+  },
+  observer: {
+    focus: 'class',
+    steps: [
+      [
+        'Identify the events',
+        'Find the places in {symbols} that call other objects to announce a change.',
+      ],
+      [
+        'Add subscription',
+        'Give the subject subscribe and unsubscribe operations with a listener list.',
+      ],
+      [
+        'Notify instead of calling',
+        'Replace the direct calls with a notification loop over the listeners.',
+      ],
+    ],
+    testScenarios: [
+      'All subscribers receive each notification with the right payload',
+      'Unsubscribed listeners are no longer notified',
+      'A failing listener does not prevent others from being notified (or fails as before)',
+    ],
+  },
+  'factory-method': {
+    focus: 'branching',
+    steps: [
+      [
+        'Find the construction logic',
+        'Locate the `new` expressions and type switches in {symbols}.',
+      ],
+      ['Declare the factory method', 'Introduce a creator method returning the product interface.'],
+      [
+        'Move creation behind it',
+        'Let subclasses or registered creators decide which concrete product to build.',
+      ],
+    ],
+    testScenarios: [
+      'Each input yields the same concrete product as before',
+      'Callers only depend on the product interface',
+      'Unsupported product kinds fail as before',
+    ],
+  },
+  builder: {
+    focus: 'class',
+    steps: [
+      [
+        'Inventory the parameters',
+        'List the constructor parameters and optional fields of {symbols}.',
+      ],
+      [
+        'Create the builder',
+        'Add a builder with one fluent setter per field and sensible defaults.',
+      ],
+      [
+        'Validate in build()',
+        'Move cross-field validation into `build()` and make the product immutable.',
+      ],
+    ],
+    testScenarios: [
+      'A builder with only required fields produces a valid object with defaults',
+      'Invalid combinations are rejected in build()',
+      'Built objects equal the ones produced by the old constructors',
+    ],
+  },
+  'null-object': {
+    focus: 'branching',
+    steps: [
+      [
+        'Find the null checks',
+        'Locate the repeated null/undefined guards and empty catch blocks in {symbols}.',
+      ],
+      [
+        'Create the null object',
+        'Implement the collaborator interface with neutral, do-nothing behaviour.',
+      ],
+      [
+        'Remove the guards',
+        'Return the null object instead of null and delete the defensive branches.',
+      ],
+    ],
+    testScenarios: [
+      'Code paths that received null now behave the same with the null object',
+      'The null object never throws and returns neutral values',
+      'Real collaborators are still used when present',
+    ],
+  },
+};
+
+const GENERIC_TEST_SCENARIOS = [
+  'Public behaviour is unchanged for representative inputs',
+  'Each new participant of the pattern can be unit-tested in isolation',
+];
+
+const MAX_AFFECTED_SYMBOLS = 8;
+
+export class RefactoringPlanner {
+  constructor(
+    private readonly db: DatabaseManager,
+    private readonly llmBridge: LLMBridgeService | null = null,
+    private readonly patternAnalyzer: PatternAnalyzer = new PatternAnalyzer(),
+    private readonly antiPatternDetector: AntiPatternDetector = new AntiPatternDetector()
+  ) {}
+
+  /**
+   * Build a refactoring plan towards a catalog pattern.
+   * Returns undefined when the target pattern is not in the catalog.
+   */
+  async plan(request: RefactoringPlanRequest): Promise<RefactoringPlan | undefined> {
+    const pattern = this.db.queryOne<PatternRow>(
+      'SELECT id, name, category, description, drawbacks, examples FROM patterns WHERE id = ?',
+      [request.targetPatternId]
+    );
+    if (!pattern) {
+      return undefined;
+    }
+
+    const language = request.language.toLowerCase();
+    const plan = this.buildPlan(request.code, language, pattern);
+
+    if (this.llmBridge && request.useLLM !== false) {
+      return this.llmBridge.refineRefactoringPlan(plan, request.code);
+    }
+    return plan;
+  }
+
+  /**
+   * Deterministic plan from code metrics, catalog data and the recipe for the pattern
+   */
+  private buildPlan(code: string, language: string, pattern: PatternRow): RefactoringPlan {
+    const recipe = REFACTORING_RECIPES[pattern.id] as RefactoringRecipe | undefined;
+    const metrics = this.antiPatternDetector.measure(code, language);
+    const analysis = this.patternAnalyzer.analyzeCode(code, language);
+    const antiPatterns = analysis.antiPatterns ?? [];
+    const affectedSymbols = this.findAffectedSymbols(code, metrics, recipe?.focus);
+    const symbolNames = affectedSymbols.map(symbol => symbol.name);
+    const { before, after } = this.findExamples(pattern, language);
+
+    const steps: Array<Omit<RefactoringStep, 'order'>> = [
+      {
+        title: 'Pin current behaviour',
+        detail:
+          'Write characterization tests for the affected symbols before changing structure ' +
+          'so regressions show up immediately.',
+        symbols: symbolNames,
+      },
+      ...(recipe?.steps ?? this.genericSteps(pattern)).map(([title, detail]) => ({
+        title,
+        detail: detail.replace('{symbols}', this.describeSymbols(symbolNames)),
+        symbols: symbolNames,
+      })),
+    ];
+    if (after) {
+      steps.push({
+        title: `Align with the ${pattern.name} example`,
+        detail:
+          `Compare the result with the catalog's ${after.language} example ` +
+          'for naming and participant roles.',
+        symbols: [],
+      });
+    }
+    steps.push({
+      title: 'Remove the old code paths',
+      detail:
+        'Delete the branches and members that were moved, run the tests and re-run ' +
+        '`analyze_code` to confirm the anti-pattern findings are gone.',
+      symbols: symbolNames,
+    });
+
+    return {
+      targetPattern: {
+        id: pattern.id,
+        name: pattern.name,
+        category: pattern.category,
+        description: pattern.description,
+      },
+      language,
+      generatedBy: 'catalog',
+      summary:
+        `Refactor ${affectedSymbols.length > 0 ? this.describeSymbols(symbolNames) : 'the code'} ` +
+        `towards ${pattern.name} in ${steps.length} steps.`,
+      steps: steps.map((step, index) => ({ order: index + 1, ...step })),
+      affectedSymbols,
+      risks: this.collectRisks(
+        code,
+        pattern,
+        metrics,
+        affectedSymbols,
+        analysis.identifiedPatterns
+      ),
+      testScenarios: [
+        ...affectedSymbols
+          .filter(symbol => symbol.kind !== 'class')
+          .slice(0, 3)
+          .map(symbol => `${symbol.name}() returns the same results before and after refactoring`),
+        ...this.branchScenarios(metrics),
+        ...(recipe?.testScenarios ?? GENERIC_TEST_SCENARIOS),
+      ],
+      addressedAntiPatterns: antiPatterns.map(({ pattern: name, catalogId, severity }) => ({
+        pattern: name,
+        catalogId,
+        severity,
+      })),
+      before,
+      after,
+    };
+  }
+
+  /**
+   * Pick the symbols the refactoring starts from: complex functions for
+   * branching-oriented patterns, large classes for structural ones
+   */
+  private findAffectedSymbols(
+    code: string,
+    metrics: CodeMetrics,
+    focus: RefactoringFocus | undefined
+  ): AffectedSymbol[] {
+    const functions = [...metrics.functions]
+      .sort((a, b) => b.complexity - a.complexity)
+      .map(fn => ({
+        name: fn.owner ? `${fn.owner}.${fn.name}` : fn.name,
+        kind: fn.owner ? ('method' as const) : ('function' as const),
+        line: locate(code, fn.start, fn.end).line,
+        complexity: fn.complexity,
+      }));
+    const classes = [...metrics.classes]
+      .sort((a, b) => b.methods + b.fields - (a.methods + a.fields))
+      .map(cls => ({
+        name: cls.name,
+        kind: 'class' as const,
+        line: locate(code, cls.start, cls.end).line,
+        reason: `${cls.methods} methods, ${cls.fields} fields`,
+      }));
+
+    const branching = functions
+      .filter(fn => fn.complexity > 1)
+      .map(({ complexity, ...fn }) => ({
+        ...fn,
+        reason: `cyclomatic complexity ${complexity}`,
+      }));
+
+    const candidates =
+      focus === 'class'
+        ? [...classes, ...branching]
+        : focus === 'branching'
+          ? branching
+          : [...classes, ...branching];
+
+    if (candidates.length > 0) {
+      return candidates.slice(0, MAX_AFFECTED_SYMBOLS);
+    }
+    // Nothing stands out: fall back to everything that was declared
+    return [
+      ...classes,
+      ...functions.map(({ complexity, ...fn }) => ({
+        ...fn,
+        reason: `cyclomatic complexity ${complexity}`,
+      })),
+    ].slice(0, MAX_AFFECTED_SYMBOLS);
+  }
+
+  private genericSteps(pattern: PatternRow): Array<[string, string]> {
+    return [
+      [
+        `Identify the ${pattern.name} participants`,
+        `Decide which parts of {symbols} become the participants of ${pattern.name}` +
+          (pattern.description ? `: ${pattern.description}` : '.'),
+      ],
+      [
+        'Introduce the new abstractions',
+        'Add the interfaces and classes the pattern needs next to the existing code.',
+      ],
+      [
+        'Move behaviour incrementally',
+        'Migrate {symbols} one responsibility at a time, keeping the tests green after each move.',
+      ],
+    ];
+  }
+
+  private collectRisks(
+    code: string,
+    pattern: PatternRow,
+    metrics: CodeMetrics,
+    affectedSymbols: AffectedSymbol[],
+    identifiedPatterns: Array<{ pattern: string }>
+  ): string[] {
+    const risks: string[] = [];
+
+    if (identifiedPatterns.some(p => p.pattern === pattern.name)) {
+      risks.push(
+        `The code already shows signs of ${pattern.name}; ` +
+          'extend the existing structure instead of adding a second one.'
+      );
+    }
+
+    for (const fn of metrics.functions) {
+      if (fn.complexity > ANTI_PATTERN_THRESHOLDS.complexity * 2) {
+        risks.push(
+          `${fn.name}() has ${fn.complexity} decision paths; ` +
+            'untested branches may change behaviour silently.'
+        );
+      }
+    }
+
+    const exported = affectedSymbols.filter(symbol => {
+      const name = symbol.name.split('.').pop() ?? symbol.name;
+      return new RegExp(`\\b(?:export|public|pub)\\b[^\\n]*\\b${name}\\b`).test(code);
+    });
+    if (exported.length > 0) {
+      risks.push(
+        `Public API changes for ${this.describeSymbols(exported.map(s => s.name))}; ` +
+          'update callers or keep a deprecated shim.'
+      );
+    }
+
+    if (metrics.tryBlocks > 0) {
+      risks.push('Exception handling moves with the code; keep error types and messages stable.');
+    }
+
+    for (const drawback of parseArrayProperty(pattern.drawbacks, 'drawbacks').slice(0, 3)) {
+      risks.push(`${pattern.name}: ${drawback}`);
+    }
+
+    return risks;
+  }
+
+  private branchScenarios(metrics: CodeMetrics): string[] {
+    return metrics.functions
+      .filter(fn => fn.complexity > ANTI_PATTERN_THRESHOLDS.complexity)
+      .slice(0, 3)
+      .map(fn => `Cover all ${fn.complexity} decision paths of ${fn.name}() before moving them`);
+  }
+
+  /**
+   * Catalog examples: explicit `before`/`after` entries win; otherwise the
+   * example (or implementation) for the requested language is the `after`
+   */
+  private findExamples(
+    pattern: PatternRow,
+    language: string
+  ): { before?: RefactoringExample; after?: RefactoringExample } {
+    let examples: unknown;
+    try {
+      examples = pattern.examples ? JSON.parse(pattern.examples) : undefined;
+    } catch {
+      examples = undefined;
+    }
+
+    if (isObject(examples)) {
+      const before = this.toExample(examples.before, language);
+      const after = this.toExample(examples.after, language);
+      if (before ?? after) {
+        return { before, after };
+      }
+
+      const sameLanguage = this.toExample(examples[language], language);
+      if (sameLanguage) {
+        return { after: sameLanguage };
+      }
+    }
+
+    const implementation = this.db.queryOne<{
+      language: string;
+      code: string;
+      explanation?: string;
+    }>(
+      `SELECT language, code, explanation FROM pattern_implementations
+       WHERE pattern_id = ? AND LOWER(language) = ? LIMIT 1`,
+      [pattern.id, language]
+    );
+    return implementation
+      ? {
+          after: {
+            language: implementation.language,
+            code: implementation.code,
+            description: implementation.explanation,
+          },
+        }
+      : {};
+  }
+
+  private toExample(value: unknown, language: string): RefactoringExample | undefined {
+    if (isString(value)) {
+      return { language, code: value };
+    }
+    if (isObject(value) && isString(value.code)) {
+      return {
+        language: isString(value.language) ? value.language : language,
+        code: value.code,
+        description: isString(value.description) ? value.description : undefined,
+      };
+    }
+    return undefined;
+  }
+
+  private describeSymbols(names: string[]): string {
+    if (names.length === 0) return 'the affected code';
+    const shown = names.slice(0, 3).map(name => `\`${name}\``);
+    return names.length > 3 ? `${shown.join(', ')} and ${names.length - 3} more` : shown.join(', ');
+  }
+}
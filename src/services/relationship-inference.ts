@@ -0,0 +1,606 @@
+/**
+ * Relationship Inference Service
+ * Proposes typed pattern relationships from three signals: embedding similarity, tag
+ * overlap and text cues in `when_to_use`/`drawbacks` ("instead of X", "requires X" ...).
+ * Proposals are stored as pending rows in relationship_suggestions; a curator accepts them
+ * into pattern_relationships (through RelationshipRepository) or rejects them.
+ */
+
+import type { DatabaseManager } from './database-manager.js';
+import { logger } from './logger.js';
+import { SqliteRelationshipRepository } from '../repositories/relationship-repository.js';
+import type { Relationship, RelationshipType } from '../models/relationship.js';
+import { parseArrayProperty, parseTags } from '../utils/parse-tags.js';
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+export type InferenceSignal = 'embedding' | 'tags' | 'text';
+
+export interface InferenceOptions {
+  /** Minimum combined confidence for a proposal (default 0.5) */
+  minConfidence?: number;
+  /** Minimum cosine similarity for the embedding signal (default 0.75) */
+  similarityThreshold?: number;
+  /** Model whose embeddings are compared (default: the model with the most embeddings) */
+  embeddingModel?: string;
+  /** Most proposals involving any single pattern (default 5) */
+  maxPerPattern?: number;
+}
+
+export interface InferredRelationship {
+  sourcePatternId: string;
+  targetPatternId: string;
+  type: RelationshipType;
+  confidence: number;
+  signals: InferenceSignal[];
+  evidence: string[];
+}
+
+export interface RelationshipSuggestion extends InferredRelationship {
+  id: string;
+  sourceName: string;
+  targetName: string;
+  status: SuggestionStatus;
+  relationshipId?: string;
+  createdAt: Date;
+  reviewedAt?: Date;
+}
+
+export interface SuggestionFilters {
+  status?: SuggestionStatus;
+  patternId?: string;
+  limit?: number;
+}
+
+export interface InferenceRunResult {
+  inferred: number;
+  created: number;
+  updated: number;
+  /** Pairs skipped because they already have a relationship or a reviewed suggestion */
+  skipped: number;
+}
+
+export interface SuggestionOverrides {
+  type?: RelationshipType;
+  strength?: number;
+  description?: string;
+}
+
+interface PatternTextRow {
+  id: string;
+  name: string;
+  category: string;
+  tags: string | null;
+  when_to_use: string | null;
+  drawbacks: string | null;
+}
+
+interface SuggestionRow {
+  id: string;
+  source_pattern_id: string;
+  target_pattern_id: string;
+  source_name: string | null;
+  target_name: string | null;
+  type: string;
+  confidence: number;
+  signals: string;
+  evidence: string;
+  status: SuggestionStatus;
+  relationship_id: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+interface PairCandidate {
+  /** Lexicographically ordered IDs; text cues override the direction */
+  source: string;
+  target: string;
+  scores: Map<InferenceSignal, number>;
+  evidence: string[];
+  cue?: { type: RelationshipType; source: string; target: string };
+}
+
+/**
+ * Phrases that, directly followed by another pattern's name, imply a relationship type.
+ * `reverse` cues point from the mentioned pattern back to the one whose text contains them.
+ */
+const TEXT_CUES: Array<{ type: RelationshipType; phrases: string[]; reverse?: boolean }> = [
+  { type: 'alternative', phrases: ['instead of', 'rather than', 'alternative to', 'in place of'] },
+  {
+    type: 'conflicts',
+    phrases: ['conflicts with', 'incompatible with', 'clashes with', 'avoid combining with'],
+  },
+  { type: 'prerequisite', phrases: ['requires', 'depends on', 'builds on', 'on top of'] },
+  {
+    type: 'extends',
+    phrases: ['extends', 'variant of', 'specialization of', 'specialisation of', 'extension of'],
+  },
+  { type: 'successor', phrases: ['evolved from', 'successor to', 'successor of', 'supersedes'] },
+  { type: 'successor', phrases: ['evolves into', 'superseded by', 'replaced by'], reverse: true },
+  {
+    type: 'complements',
+    phrases: ['combine with', 'combined with', 'works well with', 'in conjunction with'],
+  },
+  { type: 'uses', phrases: ['uses', 'relies on', 'delegates to'] },
+];
+
+const SIGNAL_WEIGHTS = {
+  cue: 0.8,
+  mention: 0.5,
+  maxEmbedding: 0.6,
+  maxTags: 0.5,
+};
+
+/** Tags shared by this many patterns say nothing about a specific pair */
+const MAX_TAG_FREQUENCY = 50;
+const SNIPPET_LENGTH = 160;
+
+export class RelationshipInferenceService {
+  constructor(
+    private readonly db: DatabaseManager,
+    private readonly repository = new SqliteRelationshipRepository(db)
+  ) {}
+
+  /**
+   * Compute proposals without storing them, strongest first. Pairs that already have a
+   * relationship or a reviewed suggestion (in either direction) are not proposed again.
+   */
+  infer(options: InferenceOptions = {}): InferredRelationship[] {
+    return this.rank(options).proposals;
+  }
+
+  /**
+   * Infer proposals and store them as pending suggestions; pending ones are refreshed
+   */
+  suggest(options: InferenceOptions = {}): InferenceRunResult {
+    const { proposals, pending, skipped } = this.rank(options);
+    const result: InferenceRunResult = {
+      inferred: proposals.length,
+      created: 0,
+      updated: 0,
+      skipped,
+    };
+
+    this.db.transaction(() => {
+      for (const rel of proposals) {
+        const previousId = pending.get(pairKey(rel.sourcePatternId, rel.targetPatternId));
+        if (previousId) {
+          this.db.execute(
+            `UPDATE relationship_suggestions
+             SET source_pattern_id = ?, target_pattern_id = ?, type = ?, confidence = ?,
+                 signals = ?, evidence = ?
+             WHERE id = ?`,
+            [
+              rel.sourcePatternId,
+              rel.targetPatternId,
+              rel.type,
+              rel.confidence,
+              JSON.stringify(rel.signals),
+              JSON.stringify(rel.evidence),
+              previousId,
+            ]
+          );
+          result.updated++;
+        } else {
+          this.db.execute(
+            `INSERT INTO relationship_suggestions
+               (id, source_pattern_id, target_pattern_id, type, confidence, signals, evidence,
+                status, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+            [
+              crypto.randomUUID(),
+              rel.sourcePatternId,
+              rel.targetPatternId,
+              rel.type,
+              rel.confidence,
+              JSON.stringify(rel.signals),
+              JSON.stringify(rel.evidence),
+              new Date().toISOString(),
+            ]
+          );
+          result.created++;
+        }
+      }
+    });
+
+    logger.info('relationship-inference', 'Relationship suggestions updated', { ...result });
+    return result;
+  }
+
+  listSuggestions(filters: SuggestionFilters = {}): RelationshipSuggestion[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filters.status) {
+      conditions.push('s.status = ?');
+      params.push(filters.status);
+    }
+    if (filters.patternId) {
+      conditions.push('(s.source_pattern_id = ? OR s.target_pattern_id = ?)');
+      params.push(filters.patternId, filters.patternId);
+    }
+    params.push(filters.limit ?? 50);
+
+    return this.db
+      .query<SuggestionRow>(
+        `SELECT s.*, sp.name AS source_name, tp.name AS target_name
+         FROM relationship_suggestions s
+         LEFT JOIN patterns sp ON sp.id = s.source_pattern_id
+         LEFT JOIN patterns tp ON tp.id = s.target_pattern_id
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY s.confidence DESC, s.created_at
+         LIMIT ?`,
+        params
+      )
+      .map(row => this.mapRow(row));
+  }
+
+  findSuggestion(id: string): RelationshipSuggestion | null {
+    const row = this.db.queryOne<SuggestionRow>(
+      `SELECT s.*, sp.name AS source_name, tp.name AS target_name
+       FROM relationship_suggestions s
+       LEFT JOIN patterns sp ON sp.id = s.source_pattern_id
+       LEFT JOIN patterns tp ON tp.id = s.target_pattern_id
+       WHERE s.id = ?`,
+      [id]
+    );
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * Save a pending suggestion as a catalog relationship. Overrides replace the inferred
+   * type, the strength (defaults to the confidence) or the generated description.
+   */
+  async accept(id: string, overrides: SuggestionOverrides = {}): Promise<Relationship> {
+    const suggestion = this.requirePending(id);
+    const relationship = await this.repository.save({
+      sourcePatternId: suggestion.sourcePatternId,
+      targetPatternId: suggestion.targetPatternId,
+      type: overrides.type ?? suggestion.type,
+      strength: overrides.strength ?? Math.round(suggestion.confidence * 100) / 100,
+      description: overrides.description ?? describeSuggestion(suggestion),
+    });
+
+    this.db.execute(
+      `UPDATE relationship_suggestions
+       SET status = 'accepted', relationship_id = ?, reviewed_at = ?
+       WHERE id = ?`,
+      [relationship.id, new Date().toISOString(), id]
+    );
+    return relationship;
+  }
+
+  reject(id: string): RelationshipSuggestion {
+    this.requirePending(id);
+    this.db.execute(
+      "UPDATE relationship_suggestions SET status = 'rejected', reviewed_at = ? WHERE id = ?",
+      [new Date().toISOString(), id]
+    );
+    return this.requireSuggestion(id);
+  }
+
+  /**
+   * Put a reviewed suggestion back in the queue (used to undo a failed acceptance)
+   */
+  reopen(id: string): void {
+    this.db.execute(
+      `UPDATE relationship_suggestions
+       SET status = 'pending', relationship_id = NULL, reviewed_at = NULL
+       WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Score every candidate pair, drop known pairs and cap proposals per pattern
+   */
+  private rank(options: InferenceOptions): {
+    proposals: InferredRelationship[];
+    /** Pending suggestion IDs by unordered pair */
+    pending: Map<string, string>;
+    skipped: number;
+  } {
+    const minConfidence = options.minConfidence ?? 0.5;
+    const maxPerPattern = options.maxPerPattern ?? 5;
+    const patterns = this.db.query<PatternTextRow>(
+      'SELECT id, name, category, tags, when_to_use, drawbacks FROM patterns'
+    );
+    const candidates = new Map<string, PairCandidate>();
+    const candidateFor = (a: string, b: string): PairCandidate => {
+      const key = pairKey(a, b);
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        const [source, target] = a < b ? [a, b] : [b, a];
+        candidate = { source, target, scores: new Map(), evidence: [] };
+        candidates.set(key, candidate);
+      }
+      return candidate;
+    };
+
+    this.addEmbeddingSignal(
+      candidateFor,
+      options.similarityThreshold ?? 0.75,
+      options.embeddingModel
+    );
+    this.addTagSignal(patterns, candidateFor);
+    this.addTextSignal(patterns, candidateFor);
+
+    const known = new Set(
+      this.db
+        .query<{ source_pattern_id: string; target_pattern_id: string }>(
+          'SELECT source_pattern_id, target_pattern_id FROM pattern_relationships'
+        )
+        .map(row => pairKey(row.source_pattern_id, row.target_pattern_id))
+    );
+    const pending = new Map<string, string>();
+    for (const row of this.db.query<{
+      id: string;
+      source_pattern_id: string;
+      target_pattern_id: string;
+      status: SuggestionStatus;
+    }>('SELECT id, source_pattern_id, target_pattern_id, status FROM relationship_suggestions')) {
+      const key = pairKey(row.source_pattern_id, row.target_pattern_id);
+      if (row.status === 'pending') {
+        pending.set(key, row.id);
+      } else {
+        known.add(key);
+      }
+    }
+
+    const categories = new Map(patterns.map(p => [p.id, p.category]));
+    let skipped = 0;
+    const scored = [...candidates]
+      .filter(([key]) => {
+        const isKnown = known.has(key);
+        if (isKnown) skipped++;
+        return !isKnown;
+      })
+      .map(([, candidate]) => this.toInferred(candidate, categories))
+      .filter(rel => rel.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    // Keep the strongest proposals per pattern so popular patterns do not flood the queue
+    const perPattern = new Map<string, number>();
+    const proposals = scored.filter(rel => {
+      const counts = [rel.sourcePatternId, rel.targetPatternId].map(id => perPattern.get(id) ?? 0);
+      if (counts.some(count => count >= maxPerPattern)) {
+        return false;
+      }
+      perPattern.set(rel.sourcePatternId, counts[0] + 1);
+      perPattern.set(rel.targetPatternId, counts[1] + 1);
+      return true;
+    });
+
+    return { proposals, pending, skipped };
+  }
+
+  private requireSuggestion(id: string): RelationshipSuggestion {
+    const suggestion = this.findSuggestion(id);
+    if (!suggestion) {
+      throw new Error(`Relationship suggestion not found: ${id}`);
+    }
+    return suggestion;
+  }
+
+  private requirePending(id: string): RelationshipSuggestion {
+    const suggestion = this.requireSuggestion(id);
+    if (suggestion.status !== 'pending') {
+      throw new Error(`Relationship suggestion ${id} was already ${suggestion.status}`);
+    }
+    return suggestion;
+  }
+
+  private addEmbeddingSignal(
+    candidateFor: (a: string, b: string) => PairCandidate,
+    threshold: number,
+    embeddingModel?: string
+  ): void {
+    const model =
+      embeddingModel ??
+      this.db.queryOne<{ model: string }>(
+        `SELECT model FROM pattern_embeddings
+         GROUP BY model ORDER BY COUNT(*) DESC, model LIMIT 1`
+      )?.model;
+    const vectors = this.db
+      .query<{ pattern_id: string; embedding: string }>(
+        'SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?',
+        [model ?? '']
+      )
+      .flatMap(row => {
+        const parsed: unknown = JSON.parse(row.embedding);
+        if (!Array.isArray(parsed) || !parsed.every(value => typeof value === 'number')) {
+          return [];
+        }
+        const norm = Math.sqrt(parsed.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? [{ id: row.pattern_id, vector: parsed, norm }] : [];
+      });
+
+    for (let i = 0; i < vectors.length; i++) {
+      for (let j = i + 1; j < vectors.length; j++) {
+        const a = vectors[i];
+        const b = vectors[j];
+        if (a.vector.length !== b.vector.length) continue;
+
+        let dot = 0;
+        for (let d = 0; d < a.vector.length; d++) {
+          dot += a.vector[d] * b.vector[d];
+        }
+        const similarity = dot / (a.norm * b.norm);
+        if (similarity < threshold) continue;
+
+        const candidate = candidateFor(a.id, b.id);
+        candidate.scores.set('embedding', similarity * SIGNAL_WEIGHTS.maxEmbedding);
+        candidate.evidence.push(`Embedding similarity ${similarity.toFixed(2)}`);
+      }
+    }
+  }
+
+  private addTagSignal(
+    patterns: PatternTextRow[],
+    candidateFor: (a: string, b: string) => PairCandidate
+  ): void {
+    const tagsById = new Map(
+      patterns.map(p => [p.id, new Set(parseTags(p.tags).map(tag => tag.toLowerCase()))])
+    );
+    const byTag = new Map<string, string[]>();
+    for (const [id, tags] of tagsById) {
+      for (const tag of tags) {
+        byTag.set(tag, [...(byTag.get(tag) ?? []), id]);
+      }
+    }
+
+    const shared = new Map<string, string[]>();
+    for (const [tag, ids] of byTag) {
+      if (ids.length > MAX_TAG_FREQUENCY) continue;
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          const key = pairKey(ids[i], ids[j]);
+          shared.set(key, [...(shared.get(key) ?? []), tag]);
+        }
+      }
+    }
+
+    for (const [key, tags] of shared) {
+      if (tags.length < 2) continue;
+      const [a, b] = key.split('\u0000');
+      const union = new Set([...(tagsById.get(a) ?? []), ...(tagsById.get(b) ?? [])]).size;
+      const jaccard = tags.length / union;
+      const candidate = candidateFor(a, b);
+      candidate.scores.set('tags', Math.min(SIGNAL_WEIGHTS.maxTags, jaccard));
+      candidate.evidence.push(`Shared tags: ${tags.join(', ')} (Jaccard ${jaccard.toFixed(2)})`);
+    }
+  }
+
+  private addTextSignal(
+    patterns: PatternTextRow[],
+    candidateFor: (a: string, b: string) => PairCandidate
+  ): void {
+    const named = patterns.map(p => ({ ...p, lowerName: p.name.toLowerCase() }));
+
+    for (const pattern of patterns) {
+      const fields = [
+        { field: 'when_to_use', items: parseArrayProperty(pattern.when_to_use, 'when_to_use') },
+        { field: 'drawbacks', items: parseArrayProperty(pattern.drawbacks, 'drawbacks') },
+      ];
+
+      for (const { field, items } of fields) {
+        for (const text of items) {
+          const lowerText = text.toLowerCase();
+          for (const other of named) {
+            if (other.id === pattern.id || !lowerText.includes(other.lowerName)) continue;
+
+            const match = matchCue(text, other.name);
+            const mentioned = match ?? matchMention(text, other.name);
+            if (!mentioned) continue;
+
+            const candidate = candidateFor(pattern.id, other.id);
+            const score = match ? SIGNAL_WEIGHTS.cue : SIGNAL_WEIGHTS.mention;
+            if (score > (candidate.scores.get('text') ?? 0)) {
+              candidate.scores.set('text', score);
+              candidate.cue = match
+                ? {
+                    type: match.type,
+                    source: match.reverse ? other.id : pattern.id,
+                    target: match.reverse ? pattern.id : other.id,
+                  }
+                : undefined;
+            }
+            candidate.evidence.push(
+              `${pattern.name} ${field}: "${snippet(text, mentioned.index)}"`
+            );
+          }
+        }
+      }
+    }
+  }
+
+  private toInferred(
+    candidate: PairCandidate,
+    categories: Map<string, string>
+  ): InferredRelationship {
+    // Independent signals combine like probabilities: 1 - Π(1 - score)
+    const confidence =
+      1 - [...candidate.scores.values()].reduce((rest, score) => rest * (1 - score), 1);
+    const sameCategory = categories.get(candidate.source) === categories.get(candidate.target);
+    const type: RelationshipType =
+      candidate.cue?.type ??
+      (candidate.scores.has('embedding') && sameCategory ? 'similar' : 'related');
+
+    return {
+      sourcePatternId: candidate.cue?.source ?? candidate.source,
+      targetPatternId: candidate.cue?.target ?? candidate.target,
+      type,
+      confidence: Math.round(confidence * 1000) / 1000,
+      signals: [...candidate.scores.keys()].sort(),
+      evidence: candidate.evidence,
+    };
+  }
+
+  private mapRow(row: SuggestionRow): RelationshipSuggestion {
+    return {
+      id: row.id,
+      sourcePatternId: row.source_pattern_id,
+      targetPatternId: row.target_pattern_id,
+      sourceName: row.source_name ?? row.source_pattern_id,
+      targetName: row.target_name ?? row.target_pattern_id,
+      type: row.type as RelationshipType,
+      confidence: row.confidence,
+      signals: JSON.parse(row.signals) as InferenceSignal[],
+      evidence: JSON.parse(row.evidence) as string[],
+      status: row.status,
+      relationshipId: row.relationship_id ?? undefined,
+      createdAt: new Date(row.created_at),
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+    };
+  }
+}
+
+/** Key for an unordered pattern pair */
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchCue(
+  text: string,
+  name: string
+): { type: RelationshipType; reverse: boolean; index: number } | null {
+  for (const cue of TEXT_CUES) {
+    const phrases = cue.phrases.map(escapeRegExp).join('|');
+    const regex = new RegExp(
+      `\\b(?:${phrases})\\s+(?:the\\s+|an?\\s+)?${escapeRegExp(name)}\\b`,
+      'i'
+    );
+    const match = regex.exec(text);
+    if (match) {
+      return { type: cue.type, reverse: cue.reverse ?? false, index: match.index };
+    }
+  }
+  return null;
+}
+
+/**
+ * A bare mention only counts for unambiguous names: several words, or followed by "pattern"
+ * (so "State" in "shared state" is not read as the State pattern)
+ */
+function matchMention(text: string, name: string): { index: number } | null {
+  const suffix = /\s/.test(name.trim()) ? '' : '\\s+pattern';
+  const match = new RegExp(`\\b${escapeRegExp(name)}${suffix}\\b`).exec(text);
+  return match ? { index: match.index } : null;
+}
+
+function snippet(text: string, index: number): string {
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+  const start = Math.max(0, Math.min(index - 40, text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+function describeSuggestion(suggestion: RelationshipSuggestion): string {
+  const description =
+    `Inferred (${suggestion.signals.join(', ')}): ${suggestion.evidence.join('; ')}`;
+  return description.length > 500 ? `${description.slice(0, 499)}…` : description;
+}
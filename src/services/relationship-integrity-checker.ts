@@ -135,7 +135,9 @@ export class RelationshipIntegrityChecker {
         }
       }
 
-      const patternFileMap = this.buildPatternFileMap();
+      // Only scan the pattern files when there is something to attribute
+      const patternFileMap =
+        result.brokenReferences.length > 0 ? this.buildPatternFileMap() : new Map<string, string>();
 
       for (const ref of result.brokenReferences) {
         const fileName = patternFileMap.get(ref.sourcePatternId) ?? 'Unknown';
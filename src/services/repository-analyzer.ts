@@ -0,0 +1,423 @@
+/**
+ * Repository Analyzer Service
+ * Runs pattern analysis over a directory or file list. TypeScript/JavaScript
+ * files share one symbol index so cross-file patterns are detected; other
+ * languages are analysed file by file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { AntiPatternEvidence, AntiPatternFinding } from './anti-pattern-detector.js';
+import { PatternAnalyzer, type DetectedPattern } from './pattern-analyzer.js';
+import {
+  TypeScriptPatternDetector,
+  type SourceInput,
+  type SymbolEntry,
+} from './pattern-detectors/typescript-detector.js';
+
+type Severity = 'low' | 'medium' | 'high';
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+export interface RepositoryAnalysisOptions {
+  /**
+   * Directory to scan recursively (defaults to the first allowed root, else the current
+   * working directory); a relative path resolves against that default
+   */
+  root?: string;
+  /** Explicit file list; relative paths resolve against `root` */
+  files?: string[];
+  /**
+   * Directories the analysis may read. When set, the root and every file must resolve -
+   * symlinks followed - inside one of them; an empty list disables the analysis.
+   * Unrestricted when omitted (CLI use).
+   */
+  allowedRoots?: string[];
+  /** Upper bound on analysed files (default 500) */
+  maxFiles?: number;
+  /** Files larger than this are skipped (default 256 KiB) */
+  maxFileSize?: number;
+}
+
+export interface RepositoryPattern extends DetectedPattern {
+  file: string;
+}
+
+export interface AntiPatternSummary {
+  pattern: string;
+  /** ID of the matching entry in the catalog's Anti-Pattern category */
+  catalogId: string;
+  /** Files the anti-pattern was found in */
+  count: number;
+  /** Files by the highest severity found in them */
+  severity: Record<Severity, number>;
+  files: string[];
+  /** Set for repository-level findings that no single file shows */
+  evidence?: AntiPatternEvidence[];
+}
+
+export interface ModuleSuggestion {
+  pattern: string;
+  reason: string;
+  confidence: number;
+  files: string[];
+}
+
+export interface ModuleAnalysis {
+  module: string;
+  files: number;
+  patterns: string[];
+  suggestions: ModuleSuggestion[];
+}
+
+export interface RepositoryAnalysisResult {
+  root: string;
+  filesAnalyzed: number;
+  filesSkipped: number;
+  languages: Record<string, number>;
+  symbols: SymbolEntry[];
+  patterns: RepositoryPattern[];
+  antiPatterns: AntiPatternSummary[];
+  modules: ModuleAnalysis[];
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'tsx',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'jsx',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.cs': 'csharp',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.c': 'c',
+  '.h': 'c',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.swift': 'swift',
+  '.scala': 'scala',
+  '.dart': 'dart',
+};
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  'coverage',
+  'vendor',
+  'target',
+  '__pycache__',
+  '.venv',
+]);
+
+interface ModuleAccumulator {
+  files: string[];
+  suggestions: Map<string, ModuleSuggestion>;
+}
+
+const DEFAULT_MAX_FILES = 500;
+const DEFAULT_MAX_FILE_SIZE = 256 * 1024;
+
+/** Golden Hammer: one pattern dominating detections across several modules */
+const GOLDEN_HAMMER = { occurrences: 8, share: 0.5, modules: 3 } as const;
+
+/** Whether target is directory itself or below it */
+function isWithin(directory: string, target: string): boolean {
+  const relative = path.relative(directory, target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Map a file path to the language identifier understood by PatternAnalyzer
+ */
+export function languageForFile(filePath: string): string | undefined {
+  if (filePath.endsWith('.d.ts')) return undefined;
+  return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+export class RepositoryAnalyzer {
+  private readonly patternAnalyzer = new PatternAnalyzer();
+  private readonly typeScriptDetector = new TypeScriptPatternDetector();
+
+  /**
+   * Analyze a repository and aggregate patterns, anti-patterns and suggestions
+   */
+  async analyzeRepository(
+    options: RepositoryAnalysisOptions = {}
+  ): Promise<RepositoryAnalysisResult> {
+    const { allowedRoots } = options;
+    if (allowedRoots?.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Repository analysis is disabled: no analysis roots are configured (set ANALYSIS_ROOTS)'
+      );
+    }
+    const root = path.resolve(allowedRoots?.[0] ?? process.cwd(), options.root ?? '.');
+    const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+    const rootStat = await fs.stat(root).catch(() => undefined);
+    if (!rootStat) {
+      throw new McpError(ErrorCode.InvalidParams, `Repository path not found: ${root}`);
+    }
+    if (!rootStat.isDirectory()) {
+      throw new McpError(ErrorCode.InvalidParams, `Repository path is not a directory: ${root}`);
+    }
+    const realRoots = allowedRoots
+      ? await Promise.all(allowedRoots.map(allowed => fs.realpath(allowed).catch(() => allowed)))
+      : undefined;
+    const requireAllowed = async (target: string) => {
+      const real = await fs.realpath(target);
+      if (realRoots && !realRoots.some(allowed => isWithin(allowed, real))) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${target} is outside the configured analysis roots`
+        );
+      }
+    };
+    await requireAllowed(root);
+
+    let filesSkipped = 0;
+    let candidates: string[];
+    if (options.files) {
+      candidates = options.files.map(file => path.resolve(root, file));
+    } else {
+      const walked = await this.walk(root, maxFiles);
+      candidates = walked.files;
+      filesSkipped += walked.unreadableDirectories;
+    }
+
+    const sources: SourceInput[] = [];
+    for (const filePath of candidates) {
+      const language = languageForFile(filePath);
+      if (!language || sources.length >= maxFiles) {
+        filesSkipped++;
+        continue;
+      }
+
+      const stat = await fs.stat(filePath).catch(() => undefined);
+      if (!stat?.isFile() || stat.size > maxFileSize) {
+        filesSkipped++;
+        continue;
+      }
+      await requireAllowed(filePath);
+
+      const code = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+      if (code === undefined) {
+        filesSkipped++;
+        continue;
+      }
+      sources.push({ path: this.relative(root, filePath), code, language });
+    }
+
+    return this.analyzeSources(root, sources, filesSkipped);
+  }
+
+  /**
+   * Analyze already-loaded sources; paths are reported as given
+   */
+  analyzeSources(
+    root: string,
+    sources: SourceInput[],
+    filesSkipped = 0
+  ): RepositoryAnalysisResult {
+    const structural = sources.filter(source =>
+      TypeScriptPatternDetector.supports(source.language)
+    );
+    const project = this.typeScriptDetector.detectProject(structural);
+
+    const patterns: RepositoryPattern[] = project.matches.map(match => ({
+      pattern: match.pattern,
+      category: this.patternAnalyzer.getPatternCategory(match.pattern),
+      confidence: match.confidence,
+      location: match.location,
+      indicators: match.indicators,
+      file: match.file ?? '',
+    }));
+
+    const languages: Record<string, number> = {};
+    const antiPatterns = new Map<string, AntiPatternSummary>();
+    const modules = new Map<string, ModuleAccumulator>();
+
+    for (const source of sources) {
+      languages[source.language] = (languages[source.language] ?? 0) + 1;
+
+      const analysis = this.patternAnalyzer.analyzeCode(source.code, source.language);
+      if (!TypeScriptPatternDetector.supports(source.language)) {
+        patterns.push(...analysis.identifiedPatterns.map(p => ({ ...p, file: source.path })));
+      }
+
+      // A file counts once per anti-pattern, at the highest severity it was found with
+      const inFile = new Map<string, AntiPatternFinding>();
+      for (const antiPattern of analysis.antiPatterns ?? []) {
+        const previous = inFile.get(antiPattern.pattern);
+        if (!previous || SEVERITY_RANK[antiPattern.severity] > SEVERITY_RANK[previous.severity]) {
+          inFile.set(antiPattern.pattern, antiPattern);
+        }
+      }
+      for (const antiPattern of inFile.values()) {
+        const summary = antiPatterns.get(antiPattern.pattern) ?? {
+          pattern: antiPattern.pattern,
+          catalogId: antiPattern.catalogId,
+          count: 0,
+          severity: { low: 0, medium: 0, high: 0 },
+          files: [],
+        };
+        summary.count++;
+        summary.severity[antiPattern.severity]++;
+        summary.files.push(source.path);
+        antiPatterns.set(antiPattern.pattern, summary);
+      }
+
+      const moduleName = path.posix.dirname(source.path);
+      const module: ModuleAccumulator = modules.get(moduleName) ?? {
+        files: [],
+        suggestions: new Map(),
+      };
+      module.files.push(source.path);
+      for (const suggestion of analysis.suggestedPatterns) {
+        const existing = module.suggestions.get(suggestion.pattern);
+        if (existing) {
+          existing.confidence = Math.max(existing.confidence, suggestion.confidence);
+          existing.files.push(source.path);
+        } else {
+          module.suggestions.set(suggestion.pattern, { ...suggestion, files: [source.path] });
+        }
+      }
+      modules.set(moduleName, module);
+    }
+
+    const goldenHammer = this.detectGoldenHammer(patterns);
+    if (goldenHammer) antiPatterns.set(goldenHammer.pattern, goldenHammer);
+
+    return {
+      root,
+      filesAnalyzed: sources.length,
+      filesSkipped,
+      languages,
+      symbols: project.symbols,
+      patterns: patterns.sort((a, b) => b.confidence - a.confidence),
+      antiPatterns: [...antiPatterns.values()].sort((a, b) => b.count - a.count),
+      modules: [...modules.entries()]
+        .map(([moduleName, module]) => {
+          const present = new Set(
+            patterns.filter(p => module.files.includes(p.file)).map(p => p.pattern)
+          );
+          return {
+            module: moduleName,
+            files: module.files.length,
+            patterns: [...present],
+            // A pattern already implemented somewhere in the module is not worth suggesting
+            suggestions: [...module.suggestions.values()]
+              .filter(suggestion => !present.has(suggestion.pattern))
+              .sort((a, b) => b.confidence - a.confidence),
+          };
+        })
+        .sort((a, b) => a.module.localeCompare(b.module)),
+    };
+  }
+
+  /**
+   * Flag a pattern applied far more often than any other, across several modules
+   */
+  private detectGoldenHammer(patterns: RepositoryPattern[]): AntiPatternSummary | undefined {
+    const byPattern = new Map<string, RepositoryPattern[]>();
+    for (const match of patterns) {
+      byPattern.set(match.pattern, [...(byPattern.get(match.pattern) ?? []), match]);
+    }
+
+    const [dominant, matches] = [...byPattern.entries()].sort(
+      (a, b) => b[1].length - a[1].length
+    )[0] ?? ['', []];
+    const share = patterns.length > 0 ? matches.length / patterns.length : 0;
+    const files = [...new Set(matches.map(match => match.file))];
+    const moduleCount = new Set(files.map(file => path.posix.dirname(file))).size;
+
+    if (
+      matches.length < GOLDEN_HAMMER.occurrences ||
+      share < GOLDEN_HAMMER.share ||
+      moduleCount < GOLDEN_HAMMER.modules
+    ) {
+      return undefined;
+    }
+
+    return {
+      pattern: 'Golden Hammer',
+      catalogId: 'golden-hammer',
+      count: 1,
+      severity: { low: 0, medium: 1, high: 0 },
+      files,
+      evidence: [
+        {
+          metric: 'occurrences',
+          value: matches.length,
+          threshold: GOLDEN_HAMMER.occurrences,
+          scope: dominant,
+        },
+        {
+          metric: 'share',
+          value: Math.round(share * 100) / 100,
+          threshold: GOLDEN_HAMMER.share,
+          scope: dominant,
+        },
+        {
+          metric: 'modules',
+          value: moduleCount,
+          threshold: GOLDEN_HAMMER.modules,
+          scope: dominant,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Source files under root, breadth first; unreadable subdirectories are counted, not fatal
+   */
+  private async walk(
+    root: string,
+    limit: number
+  ): Promise<{ files: string[]; unreadableDirectories: number }> {
+    const files: string[] = [];
+    const pending = [root];
+    let unreadableDirectories = 0;
+
+    while (pending.length > 0 && files.length < limit) {
+      const directory = pending.shift() as string;
+      const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => undefined);
+      if (!entries) {
+        unreadableDirectories++;
+        continue;
+      }
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+            pending.push(fullPath);
+          }
+        } else if (entry.isFile() && languageForFile(entry.name) && files.length < limit) {
+          files.push(fullPath);
+        }
+      }
+    }
+
+    return { files, unreadableDirectories };
+  }
+
+  private relative(root: string, filePath: string): string {
+    const relative = path.relative(root, filePath);
+    return (relative.startsWith('..') ? filePath : relative).split(path.sep).join('/');
+  }
+}
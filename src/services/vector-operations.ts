@@ -2,16 +2,16 @@
  * Vector Operations Service for Design Patterns MCP Server
  * Handles vector embeddings, similarity search, and vector database operations
  */
+import { createHash } from 'crypto';
 import { DatabaseManager } from './database-manager.js';
 import { EmbeddingCompressor } from './embedding-compressor.js';
 import { AdvancedEmbeddingCompressor } from './advanced-embedding-compressor.js';
-import {
-  EmbeddingModel,
-  VectorSearchResult,
-  VectorSearchFilters,
-  VectorStats,
-} from '../models/vector.js';
+import { IvfVectorIndex, normalizeVector, type IndexCandidate } from './ivf-vector-index.js';
+import { PqVectorIndex } from './pq-vector-index.js';
+import { VectorSearchResult, VectorSearchFilters, VectorStats } from '../models/vector.js';
 import { logger } from './logger.js';
+import { parseTags } from '../utils/parse-tags.js';
+import { patternIdsFromSources } from './catalog-sources.js';
 
 interface CompressionStats {
   originalSize: number;
@@ -30,8 +30,37 @@ interface CompressionMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * In-process IVF index used by searchSimilar when no sqlite vector extension is available
+ */
+export interface AnnIndexConfig {
+  /** Load or train the index in loadAnnIndex() (default true) */
+  enabled?: boolean;
+  /** Smaller catalogs keep the exact linear scan (default 1000) */
+  minVectors?: number;
+  /** Inverted lists (k-means centroids); defaults to √(number of embeddings) */
+  lists?: number;
+  /** Lists scanned per query (default 8) */
+  probes?: number;
+}
+
+/**
+ * Search over product quantization codes instead of float vectors (replaces the IVF index)
+ */
+export interface ProductQuantizationConfig {
+  /** Load or train codebooks in loadProductQuantizer() (default false) */
+  enabled?: boolean;
+  /** Subspaces, i.e. code bytes per embedding (default 8) */
+  subvectors?: number;
+  /** Centroids per subspace, at most 256 (default 256) */
+  clusters?: number;
+  /** Re-rank limit × rerank code candidates with their float vectors; 0 disables (default 4) */
+  rerank?: number;
+}
+
 export interface VectorConfig {
-  model: EmbeddingModel;
+  /** Registry model name; embeddings are stored and searched per model */
+  model: string;
   dimensions: number;
   similarityThreshold: number;
   maxResults: number;
@@ -43,6 +72,35 @@ export interface VectorConfig {
     quantizationBits?: 4 | 8 | 16;
     minAccuracyDrop?: number;
   };
+  annIndex?: AnnIndexConfig;
+  productQuantization?: ProductQuantizationConfig;
+}
+
+/**
+ * Outcome of an incremental embedding update (or of a check that changes nothing)
+ */
+export interface EmbeddingUpdateReport {
+  model: string;
+  /** Patterns whose stored embedding matches their current text and model */
+  skipped: string[];
+  /** Patterns that had no embedding for this model */
+  created: string[];
+  /** Patterns whose text or model changed since they were embedded */
+  updated: string[];
+  /** Embeddings of patterns that no longer exist (deleted unless only checking) */
+  orphaned: string[];
+}
+
+interface AnnIndexRow {
+  pattern_id: string;
+  embedding: string;
+  ivf_list: number | null;
+}
+
+interface PendingEmbedding {
+  patternId: string;
+  text: string;
+  contentHash: string;
 }
 
 export class VectorOperationsService {
@@ -50,6 +108,8 @@ export class VectorOperationsService {
   private config: VectorConfig;
   private embeddingCache: Map<string, number[]> = new Map();
   private compressor: AdvancedEmbeddingCompressor | EmbeddingCompressor | null = null;
+  private annIndex: IvfVectorIndex | null = null;
+  private pqIndex: PqVectorIndex | null = null;
 
   constructor(
     db: DatabaseManager,
@@ -226,10 +286,11 @@ export class VectorOperationsService {
       `);
 
       // Populate the vector index from existing embeddings
-      this.db.execute(`
-        INSERT OR REPLACE INTO vec_pattern_embeddings(pattern_id, embedding)
-        SELECT pattern_id, embedding FROM pattern_embeddings
-      `);
+      this.db.execute(
+        `INSERT OR REPLACE INTO vec_pattern_embeddings(pattern_id, embedding)
+         SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?`,
+        [this.config.model]
+      );
 
       logger.info('vector-operations', 'Vector index created successfully');
     } catch (error) {
@@ -260,7 +321,7 @@ export class VectorOperationsService {
   /**
    * Store pattern embedding
    */
-  storeEmbedding(patternId: string, embedding: number[]): void {
+  storeEmbedding(patternId: string, embedding: number[], contentHash?: string): void {
     try {
       // Validate embedding dimensions
       if (embedding.length !== this.config.dimensions) {
@@ -271,8 +332,8 @@ export class VectorOperationsService {
 
       const sql = `
         INSERT OR REPLACE INTO pattern_embeddings (
-          pattern_id, embedding, model, strategy, dimensions, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?)
+          pattern_id, embedding, model, strategy, dimensions, created_at, content_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
       `;
 
       const params = [
@@ -282,10 +343,26 @@ export class VectorOperationsService {
         'semantic', // Default strategy
         embedding.length, // Dimensions
         new Date().toISOString(),
+        contentHash ?? null,
       ];
 
       this.db.execute(sql, params);
 
+      if (this.annIndex) {
+        const list = this.annIndex.add(patternId, embedding);
+        this.db.execute(
+          'UPDATE pattern_embeddings SET ivf_list = ? WHERE pattern_id = ? AND model = ?',
+          [list, patternId, this.config.model]
+        );
+      }
+      if (this.pqIndex) {
+        const codes = this.pqIndex.add(patternId, embedding);
+        this.db.execute(
+          'UPDATE pattern_embeddings SET pq_codes = ? WHERE pattern_id = ? AND model = ?',
+          [codes, patternId, this.config.model]
+        );
+      }
+
       // Update cache if enabled
       if (this.config.cacheEnabled) {
         this.embeddingCache.set(patternId, embedding);
@@ -315,8 +392,8 @@ export class VectorOperationsService {
         }
       }
 
-      const sql = 'SELECT embedding FROM pattern_embeddings WHERE pattern_id = ?';
-      const row = this.db.queryOne<{ embedding: string }>(sql, [patternId]);
+      const sql = 'SELECT embedding FROM pattern_embeddings WHERE pattern_id = ? AND model = ?';
+      const row = this.db.queryOne<{ embedding: string }>(sql, [patternId, this.config.model]);
 
       if (!row) {
         return null;
@@ -345,8 +422,10 @@ export class VectorOperationsService {
    */
   deleteEmbedding(patternId: string): void {
     try {
-      const sql = 'DELETE FROM pattern_embeddings WHERE pattern_id = ?';
-      this.db.execute(sql, [patternId]);
+      const sql = 'DELETE FROM pattern_embeddings WHERE pattern_id = ? AND model = ?';
+      this.db.execute(sql, [patternId, this.config.model]);
+      this.annIndex?.remove(patternId);
+      this.pqIndex?.remove(patternId);
 
       // Remove from cache
       if (this.config.cacheEnabled) {
@@ -381,6 +460,13 @@ export class VectorOperationsService {
         return indexedResults;
       }
 
+      if (this.pqIndex) {
+        return this.pqVectorSearch(this.pqIndex, queryEmbedding, filters, maxResults);
+      }
+      if (this.annIndex) {
+        return this.annVectorSearch(this.annIndex, queryEmbedding, filters, maxResults);
+      }
+
       // Fallback to linear search (backward compatibility)
       return this.linearVectorSearch(queryEmbedding, filters, maxResults);
     } catch (error) {
@@ -413,8 +499,8 @@ export class VectorOperationsService {
       }
 
       // Build WHERE clause for filters
-      const whereConditions: string[] = [];
-      const whereParams: (string | number)[] = [];
+      const whereConditions: string[] = ['pe.model = ?'];
+      const whereParams: (string | number)[] = [this.config.model];
 
       if (filters) {
         if (filters.categories && filters.categories.length > 0) {
@@ -434,6 +520,12 @@ export class VectorOperationsService {
           whereParams.push(...filters.tags.map(tag => `$.${tag}`));
         }
 
+        if (filters.sources && filters.sources.length > 0) {
+          const ids = [...patternIdsFromSources(this.db, filters.sources)];
+          whereConditions.push(`pe.pattern_id IN (${ids.map(() => '?').join(',') || 'NULL'})`);
+          whereParams.push(...ids);
+        }
+
         if (filters.excludePatterns && filters.excludePatterns.length > 0) {
           const placeholders = filters.excludePatterns.map(() => '?').join(',');
           whereConditions.push(`pe.pattern_id NOT IN (${placeholders})`);
@@ -443,8 +535,7 @@ export class VectorOperationsService {
         }
       }
 
-      const whereClause =
-        whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+      const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
 
       // Use sqlite-vec for indexed vector search
       const sql = `
@@ -508,6 +599,132 @@ export class VectorOperationsService {
     }
   }
 
+  /**
+   * Approximate search over the in-process IVF index
+   */
+  private annVectorSearch(
+    index: IvfVectorIndex,
+    queryEmbedding: number[],
+    filters?: VectorSearchFilters,
+    maxResults?: number
+  ): VectorSearchResult[] {
+    const candidates = index.search(
+      queryEmbedding,
+      maxResults ?? this.config.maxResults,
+      this.createCandidateFilter(filters)
+    );
+    return this.toSearchResults(candidates, filters);
+  }
+
+  /**
+   * Search over PQ codes; the best candidates are optionally re-scored with their float vectors
+   */
+  private pqVectorSearch(
+    index: PqVectorIndex,
+    queryEmbedding: number[],
+    filters?: VectorSearchFilters,
+    maxResults?: number
+  ): VectorSearchResult[] {
+    const limit = maxResults ?? this.config.maxResults;
+    const rerank = this.config.productQuantization?.rerank ?? 4;
+    const candidates = index.search(
+      queryEmbedding,
+      rerank > 0 ? limit * rerank : limit,
+      this.createCandidateFilter(filters)
+    );
+    if (rerank <= 0 || candidates.length === 0) {
+      return this.toSearchResults(candidates, filters);
+    }
+
+    // Read only the candidates' vectors so the float catalog never has to stay in memory
+    const rows = this.db.query<{ pattern_id: string; embedding: string }>(
+      `SELECT pattern_id, embedding FROM pattern_embeddings
+       WHERE model = ? AND pattern_id IN (${candidates.map(() => '?').join(',')})`,
+      [this.config.model, ...candidates.map(candidate => candidate.id)]
+    );
+    const vectors = new Map(
+      rows.map(row => [row.pattern_id, JSON.parse(row.embedding) as number[]])
+    );
+    const reranked = candidates.map(candidate => {
+      const vector = vectors.get(candidate.id);
+      return {
+        id: candidate.id,
+        score: vector ? this.calculateSimilarity(queryEmbedding, vector) : candidate.score,
+      };
+    });
+
+    return this.toSearchResults(
+      reranked.sort((a, b) => b.score - a.score).slice(0, limit),
+      filters
+    );
+  }
+
+  /**
+   * Candidate check for in-process indexes: exclusions plus category, complexity and tag filters
+   */
+  private createCandidateFilter(filters?: VectorSearchFilters): (id: string) => boolean {
+    const allowed = this.resolveFilteredPatterns(filters);
+    const excluded = new Set(filters?.excludePatterns ?? []);
+    return id => !excluded.has(id) && (!allowed || allowed.has(id));
+  }
+
+  /**
+   * Ranked search results of index candidates above the minimum score
+   */
+  private toSearchResults(
+    candidates: IndexCandidate[],
+    filters?: VectorSearchFilters
+  ): VectorSearchResult[] {
+    const minScore = filters?.minScore ?? 0.1;
+    return candidates
+      .filter(candidate => candidate.score >= minScore)
+      .map((candidate, position) => ({
+        patternId: candidate.id,
+        score: candidate.score,
+        distance: 1 - candidate.score,
+        rank: position + 1,
+        pattern: this.getPatternInfo(candidate.id) ?? undefined,
+      }));
+  }
+
+  /**
+   * IDs of patterns passing the category, complexity, tag and source filters (null when
+   * unfiltered)
+   */
+  private resolveFilteredPatterns(filters?: VectorSearchFilters): Set<string> | null {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    const fromSources =
+      filters?.sources && filters.sources.length > 0
+        ? patternIdsFromSources(this.db, filters.sources)
+        : null;
+
+    if (filters?.categories && filters.categories.length > 0) {
+      conditions.push(`category IN (${filters.categories.map(() => '?').join(',')})`);
+      params.push(...filters.categories);
+    }
+    if (filters?.complexity) {
+      conditions.push('complexity = ?');
+      params.push(filters.complexity);
+    }
+    const tags = filters?.tags ?? [];
+    if (conditions.length === 0 && tags.length === 0) {
+      return fromSources;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.query<{ id: string; tags: string | null }>(
+      `SELECT id, tags FROM patterns ${where}`,
+      params
+    );
+    return new Set(
+      rows
+        .filter(row => tags.length === 0 || parseTags(row.tags).some(tag => tags.includes(tag)))
+        .filter(row => !fromSources || fromSources.has(row.id))
+        .map(row => row.id)
+    );
+  }
+
   /**
    * Linear vector search (fallback method)
    */
@@ -518,13 +735,22 @@ export class VectorOperationsService {
   ): VectorSearchResult[] {
     const limit = maxResults ?? this.config.maxResults;
 
-    // Get all embeddings
-    const sql = 'SELECT pattern_id, embedding FROM pattern_embeddings';
-    const rows = this.db.query<{ pattern_id: string; embedding: string }>(sql);
+    // Get all embeddings of the configured model
+    const sql = 'SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?';
+    const rows = this.db.query<{ pattern_id: string; embedding: string }>(sql, [
+      this.config.model,
+    ]);
 
     const results: VectorSearchResult[] = [];
+    const fromSources =
+      filters?.sources && filters.sources.length > 0
+        ? patternIdsFromSources(this.db, filters.sources)
+        : null;
 
     for (const row of rows) {
+      if (fromSources && !fromSources.has(row.pattern_id)) {
+        continue;
+      }
       const embedding = JSON.parse(row.embedding) as number[];
       const similarity = this.calculateSimilarity(queryEmbedding, embedding);
 
@@ -687,23 +913,33 @@ export class VectorOperationsService {
   /**
    * Batch store embeddings
    */
-  storeEmbeddingsBatch(embeddings: Array<{ patternId: string; embedding: number[] }>): void {
+  storeEmbeddingsBatch(
+    embeddings: Array<{ patternId: string; embedding: number[]; contentHash?: string }>
+  ): void {
     this.db.transaction(() => {
-      for (const { patternId, embedding } of embeddings) {
-        this.storeEmbedding(patternId, embedding);
+      for (const { patternId, embedding, contentHash } of embeddings) {
+        this.storeEmbedding(patternId, embedding, contentHash);
       }
     });
 
     logger.info('vector-operations', `Stored ${embeddings.length} embeddings in batch`);
   }
 
+  /**
+   * Registry name of the model this service stores and searches
+   */
+  getModelName(): string {
+    return this.config.model;
+  }
+
   /**
    * Get vector statistics
    */
   getStats(): VectorStats {
     try {
       const totalEmbeddings = this.db.queryOne<{ count: number }>(
-        'SELECT COUNT(*) as count FROM pattern_embeddings'
+        'SELECT COUNT(*) as count FROM pattern_embeddings WHERE model = ?',
+        [this.config.model]
       );
 
       // Calculate average dimensions (simplified)
@@ -733,17 +969,27 @@ export class VectorOperationsService {
   }
 
   /**
-   * Clear all embeddings
+   * Clear all embeddings of the configured model (other models are kept)
    */
   clearAll(): void {
     try {
-      const sql = 'DELETE FROM pattern_embeddings';
-      this.db.execute(sql);
+      const sql = 'DELETE FROM pattern_embeddings WHERE model = ?';
+      this.db.execute(sql, [this.config.model]);
+
+      // The persisted index no longer describes any embedding; it is retrained on next load
+      this.annIndex = null;
+      if (this.hasTable('vector_indexes')) {
+        this.db.execute('DELETE FROM vector_indexes WHERE model = ?', [this.config.model]);
+      }
+      this.pqIndex = null;
+      if (this.hasTable('pq_codebooks')) {
+        this.db.execute('DELETE FROM pq_codebooks WHERE model = ?', [this.config.model]);
+      }
 
       // Clear cache
       this.embeddingCache.clear();
 
-      logger.info('vector-operations', 'All embeddings cleared');
+      logger.info('vector-operations', `All ${this.config.model} embeddings cleared`);
     } catch (error) {
       logger.error(
         'vector-operations',
@@ -763,28 +1009,13 @@ export class VectorOperationsService {
       this.clearAll();
 
       // Get all patterns
-      const patterns = this.db.query<{ id: string; name: string; description: string }>(
-        'SELECT id, name, description FROM patterns'
-      );
+      const patterns = this.getEmbeddingSources();
 
       logger.info('vector-operations', `Rebuilding embeddings for ${patterns.length} patterns`);
 
-      const embeddings: Array<{ patternId: string; embedding: number[] }> = [];
+      const count = await this.embedAndStore(patterns, generateEmbeddingFn);
 
-      for (const pattern of patterns) {
-        const text = `${pattern.name} ${pattern.description}`;
-        const embedding = await generateEmbeddingFn(text);
-        embeddings.push({ patternId: pattern.id, embedding });
-      }
-
-      // Store in batches
-      const batchSize = 10;
-      for (let i = 0; i < embeddings.length; i += batchSize) {
-        const batch = embeddings.slice(i, i + batchSize);
-        this.storeEmbeddingsBatch(batch);
-      }
-
-      logger.info('vector-operations', `Rebuilt embeddings for ${embeddings.length} patterns`);
+      logger.info('vector-operations', `Rebuilt embeddings for ${count} patterns`);
     } catch (error) {
       logger.error(
         'vector-operations',
@@ -795,6 +1026,404 @@ export class VectorOperationsService {
     }
   }
 
+  /**
+   * Compare stored content hashes with the current pattern text and model, changing nothing
+   */
+  checkEmbeddings(): EmbeddingUpdateReport {
+    return this.planEmbeddingUpdate().report;
+  }
+
+  /**
+   * Re-embed only patterns whose text or model changed since their embedding was stored,
+   * and delete embeddings of patterns that no longer exist
+   */
+  async updateEmbeddings(
+    generateEmbeddingFn: (text: string) => Promise<number[]>
+  ): Promise<EmbeddingUpdateReport> {
+    const { report, pending } = this.planEmbeddingUpdate();
+
+    await this.embedAndStore(pending, generateEmbeddingFn);
+
+    if (report.orphaned.length > 0) {
+      this.db.transaction(() => {
+        for (const patternId of report.orphaned) {
+          this.deleteEmbedding(patternId);
+        }
+      });
+    }
+
+    logger.info('vector-operations', `Updated ${this.config.model} embeddings`, {
+      skipped: report.skipped.length,
+      created: report.created.length,
+      updated: report.updated.length,
+      orphaned: report.orphaned.length,
+    });
+    return report;
+  }
+
+  /**
+   * Hash of everything an embedding depends on: model, dimensions and the embedded text
+   */
+  private contentHash(text: string): string {
+    return createHash('sha256')
+      .update(`${this.config.model}\n${this.config.dimensions}\n${text}`)
+      .digest('hex');
+  }
+
+  /**
+   * Text embedded for each pattern, with its content hash
+   */
+  private getEmbeddingSources(): PendingEmbedding[] {
+    return this.db
+      .query<{ id: string; name: string; description: string }>(
+        'SELECT id, name, description FROM patterns'
+      )
+      .map(pattern => {
+        const text = `${pattern.name} ${pattern.description}`;
+        return { patternId: pattern.id, text, contentHash: this.contentHash(text) };
+      });
+  }
+
+  private planEmbeddingUpdate(): { report: EmbeddingUpdateReport; pending: PendingEmbedding[] } {
+    const stored = new Map(
+      this.db
+        .query<{ pattern_id: string; content_hash: string | null }>(
+          'SELECT pattern_id, content_hash FROM pattern_embeddings WHERE model = ?',
+          [this.config.model]
+        )
+        .map(row => [row.pattern_id, row.content_hash])
+    );
+    const report: EmbeddingUpdateReport = {
+      model: this.config.model,
+      skipped: [],
+      created: [],
+      updated: [],
+      orphaned: [],
+    };
+    const pending: PendingEmbedding[] = [];
+
+    for (const source of this.getEmbeddingSources()) {
+      if (!stored.has(source.patternId)) {
+        report.created.push(source.patternId);
+        pending.push(source);
+      } else if (stored.get(source.patternId) !== source.contentHash) {
+        report.updated.push(source.patternId);
+        pending.push(source);
+      } else {
+        report.skipped.push(source.patternId);
+      }
+      stored.delete(source.patternId);
+    }
+    report.orphaned = [...stored.keys()];
+
+    return { report, pending };
+  }
+
+  private async embedAndStore(
+    sources: PendingEmbedding[],
+    generateEmbeddingFn: (text: string) => Promise<number[]>
+  ): Promise<number> {
+    const embeddings: Array<{ patternId: string; embedding: number[]; contentHash: string }> = [];
+    for (const source of sources) {
+      const embedding = await generateEmbeddingFn(source.text);
+      embeddings.push({ patternId: source.patternId, embedding, contentHash: source.contentHash });
+    }
+
+    // Store in batches
+    const batchSize = 10;
+    for (let i = 0; i < embeddings.length; i += batchSize) {
+      this.storeEmbeddingsBatch(embeddings.slice(i, i + batchSize));
+    }
+    return embeddings.length;
+  }
+
+  /**
+   * Load the persisted IVF index of the configured model, training it when none is stored.
+   * Returns false when disabled or the catalog is too small; search then stays linear.
+   */
+  loadAnnIndex(): boolean {
+    const options = this.config.annIndex ?? {};
+    // Compressed search keeps only PQ codes in memory; the IVF index would hold every vector
+    if (
+      options.enabled === false ||
+      this.config.productQuantization?.enabled === true ||
+      !this.hasTable('vector_indexes')
+    ) {
+      return false;
+    }
+
+    try {
+      const rows = this.getAnnIndexRows();
+      if (rows.length < (options.minVectors ?? 1000)) {
+        this.annIndex = null;
+        return false;
+      }
+
+      const stored = this.db.queryOne<{ centroids: string }>(
+        'SELECT centroids FROM vector_indexes WHERE model = ? AND dimensions = ?',
+        [this.config.model, this.config.dimensions]
+      );
+      if (!stored) {
+        this.trainAnnIndex(rows);
+        return true;
+      }
+
+      const index = new IvfVectorIndex(
+        JSON.parse(stored.centroids) as number[][],
+        options.probes ?? 8
+      );
+      // Embeddings stored while no index was loaded have no list yet
+      const assigned: Array<{ patternId: string; list: number }> = [];
+      for (const row of rows) {
+        const list = index.add(row.pattern_id, JSON.parse(row.embedding) as number[], row.ivf_list);
+        if (list !== row.ivf_list) {
+          assigned.push({ patternId: row.pattern_id, list });
+        }
+      }
+      this.persistAnnAssignments(assigned);
+
+      this.annIndex = index;
+      logger.info('vector-operations', `Loaded ${this.config.model} ANN index`, {
+        lists: index.centroids.length,
+        vectors: index.size,
+        assigned: assigned.length,
+      });
+      return true;
+    } catch (error) {
+      this.annIndex = null;
+      logger.warn('vector-operations', 'Could not load ANN index, using linear search', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Retrain the IVF index from the current embeddings (ignores minVectors) and persist it
+   */
+  rebuildAnnIndex(): boolean {
+    if (this.config.annIndex?.enabled === false || !this.hasTable('vector_indexes')) {
+      return false;
+    }
+    const rows = this.getAnnIndexRows();
+    if (rows.length === 0) {
+      return false;
+    }
+    this.trainAnnIndex(rows);
+    return true;
+  }
+
+  /**
+   * Size of the loaded IVF index, or null when searches scan linearly
+   */
+  getAnnIndexInfo(): { lists: number; vectors: number } | null {
+    return this.annIndex
+      ? { lists: this.annIndex.centroids.length, vectors: this.annIndex.size }
+      : null;
+  }
+
+  /**
+   * Load the persisted PQ codebooks and codes of the configured model, training them when none
+   * are stored. Returns false when compressed search is disabled or there are no embeddings.
+   */
+  loadProductQuantizer(): boolean {
+    if (!this.config.productQuantization?.enabled || !this.hasTable('pq_codebooks')) {
+      return false;
+    }
+
+    try {
+      const stored = this.db.queryOne<{ codebooks: string }>(
+        'SELECT codebooks FROM pq_codebooks WHERE model = ? AND dimensions = ?',
+        [this.config.model, this.config.dimensions]
+      );
+      if (!stored) {
+        return this.trainProductQuantizer();
+      }
+
+      const index = new PqVectorIndex(JSON.parse(stored.codebooks) as number[][][]);
+      const rows = this.db.query<{ pattern_id: string; pq_codes: Uint8Array | null }>(
+        'SELECT pattern_id, pq_codes FROM pattern_embeddings WHERE model = ?',
+        [this.config.model]
+      );
+      // Embeddings stored while compressed search was off have no codes yet
+      const encoded: Array<{ patternId: string; codes: Uint8Array }> = [];
+      for (const row of rows) {
+        if (row.pq_codes?.length === index.codebooks.length) {
+          index.addCodes(row.pattern_id, row.pq_codes);
+          continue;
+        }
+        const embedding = this.getEmbedding(row.pattern_id);
+        if (embedding) {
+          encoded.push({ patternId: row.pattern_id, codes: index.add(row.pattern_id, embedding) });
+        }
+      }
+      this.persistPqCodes(encoded);
+
+      this.pqIndex = index;
+      logger.info('vector-operations', `Loaded ${this.config.model} PQ codes`, {
+        vectors: index.size,
+        codeBytes: index.codeBytes,
+        encoded: encoded.length,
+      });
+      return true;
+    } catch (error) {
+      this.pqIndex = null;
+      logger.warn('vector-operations', 'Could not load PQ codes, using uncompressed search', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Train PQ codebooks on the current embeddings, encode every embedding and persist both
+   */
+  trainProductQuantizer(): boolean {
+    const options = this.config.productQuantization ?? {};
+    if (!this.hasTable('pq_codebooks')) {
+      return false;
+    }
+    const rows = this.db.query<{ pattern_id: string; embedding: string }>(
+      'SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?',
+      [this.config.model]
+    );
+    if (rows.length === 0) {
+      return false;
+    }
+
+    const vectors = rows.map(row => JSON.parse(row.embedding) as number[]);
+    const subvectors = options.subvectors ?? 8;
+    const clusters = options.clusters ?? 256;
+    const index = PqVectorIndex.train(vectors, subvectors, clusters);
+    const encoded = rows.map((row, i) => ({
+      patternId: row.pattern_id,
+      codes: index.add(row.pattern_id, vectors[i]),
+    }));
+
+    this.db.transaction(() => {
+      this.db.execute(
+        `INSERT OR REPLACE INTO pq_codebooks
+           (model, dimensions, subvectors, clusters, codebooks, vector_count, trained_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          this.config.model,
+          this.config.dimensions,
+          subvectors,
+          index.codebooks[0].length,
+          JSON.stringify(index.codebooks),
+          rows.length,
+          new Date().toISOString(),
+        ]
+      );
+    });
+    this.persistPqCodes(encoded);
+
+    this.pqIndex = index;
+    logger.info('vector-operations', `Trained ${this.config.model} PQ codebooks`, {
+      vectors: rows.length,
+      subvectors,
+      codeBytes: index.codeBytes,
+    });
+    return true;
+  }
+
+  /**
+   * Size of the loaded PQ codes, or null when search uses float vectors
+   */
+  getProductQuantizerInfo(): { vectors: number; codeBytes: number } | null {
+    return this.pqIndex ? { vectors: this.pqIndex.size, codeBytes: this.pqIndex.codeBytes } : null;
+  }
+
+  private persistPqCodes(encoded: Array<{ patternId: string; codes: Uint8Array }>): void {
+    if (encoded.length === 0) {
+      return;
+    }
+    this.db.transaction(() => {
+      for (const { patternId, codes } of encoded) {
+        this.db.execute(
+          'UPDATE pattern_embeddings SET pq_codes = ? WHERE pattern_id = ? AND model = ?',
+          [codes, patternId, this.config.model]
+        );
+      }
+    });
+  }
+
+  private hasTable(name: string): boolean {
+    const row = this.db.queryOne<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      [name]
+    );
+    return (row?.count ?? 0) > 0;
+  }
+
+  private getAnnIndexRows(): AnnIndexRow[] {
+    return this.db.query<AnnIndexRow>(
+      'SELECT pattern_id, embedding, ivf_list FROM pattern_embeddings WHERE model = ?',
+      [this.config.model]
+    );
+  }
+
+  private trainAnnIndex(rows: AnnIndexRow[]): void {
+    const options = this.config.annIndex ?? {};
+    const vectors = rows.map(row => ({
+      id: row.pattern_id,
+      vector: normalizeVector(JSON.parse(row.embedding) as number[]),
+    }));
+    const listCount = Math.min(
+      vectors.length,
+      options.lists ?? Math.max(1, Math.round(Math.sqrt(vectors.length)))
+    );
+
+    // simpleKMeans seeds its centroids with the first vectors; spread them over the catalog
+    const step = Math.floor(vectors.length / listCount);
+    const seeds = vectors.filter((_, i) => i % step === 0).slice(0, listCount);
+    const seedIds = new Set(seeds.map(seed => seed.id));
+    const ordered = [...seeds, ...vectors.filter(vector => !seedIds.has(vector.id))];
+    const centroids = this.simpleKMeans(ordered, listCount, 20).map(cluster => cluster.centroid);
+
+    const index = new IvfVectorIndex(centroids, options.probes ?? 8);
+    const assigned = vectors.map(({ id, vector }) => ({
+      patternId: id,
+      list: index.add(id, vector),
+    }));
+
+    this.db.transaction(() => {
+      this.db.execute(
+        `INSERT OR REPLACE INTO vector_indexes
+           (model, kind, dimensions, centroids, vector_count, updated_at)
+         VALUES (?, 'ivf', ?, ?, ?, ?)`,
+        [
+          this.config.model,
+          this.config.dimensions,
+          JSON.stringify(centroids),
+          vectors.length,
+          new Date().toISOString(),
+        ]
+      );
+    });
+    this.persistAnnAssignments(assigned);
+
+    this.annIndex = index;
+    logger.info('vector-operations', `Trained ${this.config.model} ANN index`, {
+      lists: listCount,
+      vectors: vectors.length,
+    });
+  }
+
+  private persistAnnAssignments(assigned: Array<{ patternId: string; list: number }>): void {
+    if (assigned.length === 0) {
+      return;
+    }
+    this.db.transaction(() => {
+      for (const { patternId, list } of assigned) {
+        this.db.execute(
+          'UPDATE pattern_embeddings SET ivf_list = ? WHERE pattern_id = ? AND model = ?',
+          [list, patternId, this.config.model]
+        );
+      }
+    });
+  }
+
   /**
    * Find similar patterns by pattern ID
    */
@@ -815,7 +1444,8 @@ export class VectorOperationsService {
     try {
       // Get all embeddings
       const embeddings = this.db.query<{ pattern_id: string; embedding: string }>(
-        'SELECT pattern_id, embedding FROM pattern_embeddings'
+        'SELECT pattern_id, embedding FROM pattern_embeddings WHERE model = ?',
+        [this.config.model]
       );
 
       if (embeddings.length < clusterCount) {
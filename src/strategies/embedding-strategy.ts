@@ -25,8 +25,11 @@ export interface EmbeddingStrategy {
  */
 export class SimpleHashEmbeddingStrategy implements EmbeddingStrategy {
   readonly name = 'simple-hash';
-  readonly dimensions = 384;
-  readonly model = 'simplified-hash';
+
+  constructor(
+    readonly dimensions = 384,
+    readonly model = 'simplified-hash'
+  ) {}
 
   async generateEmbedding(text: string): Promise<EmbeddingVector> {
     const words = text.toLowerCase().split(/\s+/);
@@ -75,13 +78,29 @@ export class SimpleHashEmbeddingStrategy implements EmbeddingStrategy {
   }
 }
 
+export interface TransformersModelOptions {
+  /** Registry name reported as the embedding model */
+  model?: string;
+  /** Hugging Face model ID or a directory below cacheDir */
+  modelPath?: string;
+  dimensions?: number;
+  pooling?: 'mean' | 'cls';
+  normalize?: boolean;
+  /** Local model cache, also searched for local model directories */
+  cacheDir?: string;
+  /** Set to false to load models only from the local cache (offline) */
+  allowRemoteModels?: boolean;
+}
+
 /**
  * Transformers.js Embedding Strategy (primary)
  */
 export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
   readonly name = 'transformers-js';
-  readonly dimensions = 384;
-  readonly model = 'all-MiniLM-L6-v2';
+  readonly dimensions: number;
+  readonly model: string;
+  private readonly modelPath: string;
+  private readonly pipelineOptions: { pooling: 'mean' | 'cls'; normalize: boolean };
 
   private pipeline: {
     (
@@ -92,6 +111,16 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
   } | null = null;
   private isInitialized = false;
 
+  constructor(private readonly options: TransformersModelOptions = {}) {
+    this.model = options.model ?? 'all-MiniLM-L6-v2';
+    this.modelPath = options.modelPath ?? 'Xenova/all-MiniLM-L6-v2';
+    this.dimensions = options.dimensions ?? 384;
+    this.pipelineOptions = {
+      pooling: options.pooling ?? 'mean',
+      normalize: options.normalize ?? true,
+    };
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingVector> {
     await this.initialize();
 
@@ -100,10 +129,7 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
     }
 
     try {
-      const response = await this.pipeline([text], {
-        pooling: 'mean',
-        normalize: true,
-      });
+      const response = await this.pipeline([text], this.pipelineOptions);
 
       const data = response.data;
 
@@ -123,7 +149,7 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
         dimensions: this.dimensions,
         values,
         model: this.model,
-        normalized: true,
+        normalized: this.pipelineOptions.normalize,
       };
     } catch (error) {
       throw new Error(
@@ -140,10 +166,7 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
     }
 
     try {
-      const response = await this.pipeline(texts, {
-        pooling: 'mean',
-        normalize: true,
-      });
+      const response = await this.pipeline(texts, this.pipelineOptions);
 
       const data = response.data;
 
@@ -161,7 +184,7 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
           dimensions: this.dimensions,
           values,
           model: this.model,
-          normalized: true,
+          normalized: this.pipelineOptions.normalize,
         });
       }
 
@@ -190,10 +213,15 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
       const transformersModule = await import('@xenova/transformers').catch(() => null);
 
       if (transformersModule) {
-        this.pipeline = await transformersModule.pipeline(
-          'feature-extraction',
-          'Xenova/all-MiniLM-L6-v2'
-        );
+        const { env } = transformersModule;
+        if (this.options.cacheDir) {
+          env.cacheDir = this.options.cacheDir;
+          env.localModelPath = this.options.cacheDir;
+        }
+        if (this.options.allowRemoteModels === false) {
+          env.allowRemoteModels = false;
+        }
+        this.pipeline = await transformersModule.pipeline('feature-extraction', this.modelPath);
       } else {
         throw new Error('Transformers.js module not available');
       }
@@ -212,12 +240,14 @@ export class TransformersEmbeddingStrategy implements EmbeddingStrategy {
  */
 export class OllamaEmbeddingStrategy implements EmbeddingStrategy {
   readonly name = 'ollama';
-  readonly dimensions = 384;
-  readonly model = 'all-minilm:l6-v2';
 
   private baseUrl: string;
 
-  constructor(baseUrl = 'http://localhost:11434') {
+  constructor(
+    baseUrl = 'http://localhost:11434',
+    readonly model = 'all-minilm:l6-v2',
+    readonly dimensions = 384
+  ) {
     this.baseUrl = baseUrl;
   }
 
@@ -226,6 +226,7 @@ export interface GraphNode {
     id: string;
     distance: number;
     weight: number;
+    type?: 'vector' | 'metadata' | 'temporal'; // Edge origin, see EdgeWeight.type
   }>;
   metadata?: {
     category?: string;
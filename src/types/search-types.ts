@@ -22,6 +22,8 @@ export interface PatternRequest {
   id: string;
   query: string;
   categories?: string[];
+  /** Restrict to patterns defined or overridden by these catalog sources */
+  sources?: string[];
   maxResults?: number;
   programmingLanguage?: string;
 }
@@ -14,6 +14,14 @@ declare module '@xenova/transformers' {
     data: Float32Array | number[];
   }
 
+  /** Global settings; the fields used for local model caches and offline mode */
+  export const env: {
+    cacheDir: string;
+    localModelPath: string;
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+  };
+
   export function pipeline(
     task: string,
     model: string,
@@ -5,6 +5,7 @@
  */
 
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { RELATIONSHIP_TYPES, type RelationshipType } from '../models/relationship.js';
 
 interface ValidationResult {
   valid: boolean;
@@ -12,6 +13,21 @@ interface ValidationResult {
   sanitized?: unknown;
 }
 
+/**
+ * Pattern columns update_pattern may change; list fields are stored as JSON arrays
+ */
+export interface PatternFieldChanges {
+  name?: string;
+  category?: string;
+  description?: string;
+  complexity?: string;
+  tags?: string[];
+  when_to_use?: string[];
+  benefits?: string[];
+  drawbacks?: string[];
+  use_cases?: string[];
+}
+
 interface ValidationOptions {
   maxLength?: number;
   minLength?: number;
@@ -294,6 +310,19 @@ export class InputValidator {
     });
   }
 
+  /**
+   * Validates a pattern reference: an ID, or a name or alias that PatternIdResolver resolves
+   * ("Factory Method")
+   */
+  static validatePatternReference(id: unknown, fieldName = 'patternId'): ValidationResult {
+    return this.validateString(id, fieldName, {
+      required: true,
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_ .'()/-]+$/,
+      sanitize: true,
+    });
+  }
+
   /**
    * Validates and sanitizes search query
    */
@@ -407,6 +436,20 @@ export class InputValidator {
     });
   }
 
+  /**
+   * Validates catalog source namespaces ("builtin" or an overlay namespace)
+   */
+  static validateSources(sources: unknown): ValidationResult {
+    return this.validateArray(sources, 'sources', {
+      maxLength: 20,
+      itemValidator: item =>
+        this.validateString(item, 'source', {
+          maxLength: 100,
+          pattern: /^[a-z0-9][a-z0-9-]*$/,
+        }),
+    });
+  }
+
   /**
    * Validates include details boolean
    */
@@ -434,6 +477,7 @@ export class InputValidator {
   static validateFindPatternsArgs(args: unknown): {
     query: string;
     categories: string[];
+    sources?: string[];
     maxResults: number;
     programmingLanguage?: string;
   } {
@@ -447,6 +491,9 @@ export class InputValidator {
     const categoriesResult = this.validateCategories(obj.categories);
     this.throwIfInvalid(categoriesResult);
 
+    const sourcesResult = this.validateSources(obj.sources);
+    this.throwIfInvalid(sourcesResult);
+
     const maxResultsResult = this.validateMaxResults(obj.maxResults);
     this.throwIfInvalid(maxResultsResult);
 
@@ -456,6 +503,7 @@ export class InputValidator {
     return {
       query: queryResult.sanitized as string,
       categories: (categoriesResult.sanitized as string[]) ?? [],
+      sources: sourcesResult.sanitized as string[] | undefined,
       maxResults: (maxResultsResult.sanitized as number) ?? 5,
       programmingLanguage: langResult.sanitized as string | undefined,
     };
@@ -500,7 +548,7 @@ export class InputValidator {
       throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
     }
     const obj = args as Record<string, unknown>;
-    const patternIdResult = this.validatePatternId(obj.patternId);
+    const patternIdResult = this.validatePatternReference(obj.patternId);
     this.throwIfInvalid(patternIdResult);
 
     return {
@@ -568,4 +616,580 @@ export class InputValidator {
       tags,
     };
   }
+
+  /**
+   * Validates all inputs for analyze_code tool.
+   * Code is length-checked but not HTML-sanitized so the analyzer sees the original source.
+   */
+  static validateAnalyzeCodeArgs(args: unknown): {
+    code: string;
+    language: string;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const codeResult = this.validateString(obj.code, 'code', {
+      required: true,
+      maxLength: 50000,
+    });
+    this.throwIfInvalid(codeResult);
+
+    if (obj.language === undefined || obj.language === null || obj.language === '') {
+      throw new McpError(ErrorCode.InvalidRequest, 'Validation failed: language is required');
+    }
+    const langResult = this.validateProgrammingLanguage(obj.language);
+    this.throwIfInvalid(langResult);
+
+    return {
+      code: obj.code as string,
+      language: (langResult.sanitized as string).toLowerCase(),
+    };
+  }
+
+  /**
+   * Validates all inputs for analyze_repository tool.
+   * Paths are not HTML-sanitized since they are resolved against the filesystem.
+   */
+  static validateAnalyzeRepositoryArgs(args: unknown): {
+    path?: string;
+    files?: string[];
+    maxFiles?: number;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+    const noNullBytes = /^[^\0]*$/;
+
+    const pathResult = this.validateString(obj.path, 'path', {
+      maxLength: 1000,
+      pattern: noNullBytes,
+    });
+    this.throwIfInvalid(pathResult);
+
+    const filesResult = this.validateArray(obj.files, 'files', {
+      maxLength: 2000,
+      itemValidator: item =>
+        this.validateString(item, 'file', {
+          required: true,
+          maxLength: 1000,
+          pattern: noNullBytes,
+        }),
+    });
+    this.throwIfInvalid(filesResult);
+
+    const maxFilesResult = this.validateNumber(obj.maxFiles, 'maxFiles', { min: 1, max: 2000 });
+    this.throwIfInvalid(maxFilesResult);
+
+    const path = pathResult.sanitized as string | undefined;
+    const files = filesResult.sanitized as string[] | undefined;
+    if (!path && (!files || files.length === 0)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: either path or files is required'
+      );
+    }
+
+    return {
+      path: path ? path : undefined,
+      files: files && files.length > 0 ? files : undefined,
+      maxFiles: maxFilesResult.sanitized as number | undefined,
+    };
+  }
+
+  /**
+   * Validates all inputs for plan_refactoring tool.
+   * Code is handled like analyze_code (length-checked, not sanitized).
+   */
+  static validatePlanRefactoringArgs(args: unknown): {
+    code: string;
+    language: string;
+    targetPatternId: string;
+    useLLM: boolean;
+  } {
+    const { code, language } = this.validateAnalyzeCodeArgs(args);
+    const obj = args as Record<string, unknown>;
+
+    const patternIdResult = this.validateString(obj.targetPatternId, 'targetPatternId', {
+      required: true,
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    });
+    this.throwIfInvalid(patternIdResult);
+
+    const useLLMResult = this.validateBoolean(obj.useLLM, 'useLLM');
+    this.throwIfInvalid(useLLMResult);
+
+    return {
+      code,
+      language,
+      targetPatternId: patternIdResult.sanitized as string,
+      useLLM: (useLLMResult.sanitized as boolean | undefined) ?? true,
+    };
+  }
+
+  /**
+   * Validates all inputs for analyze_pattern_composition tool
+   */
+  static validateAnalyzePatternCompositionArgs(args: unknown): { patternIds: string[] } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const patternIdsResult = this.validateArray(obj.patternIds, 'patternIds', {
+      required: true,
+      maxLength: 25,
+      itemValidator: item =>
+        this.validateString(item, 'patternId', {
+          required: true,
+          maxLength: 255,
+          pattern: /^[a-zA-Z0-9_-]+$/,
+          sanitize: true,
+        }),
+    });
+    this.throwIfInvalid(patternIdsResult);
+
+    return { patternIds: patternIdsResult.sanitized as string[] };
+  }
+
+  /**
+   * Validates all inputs for find_pattern_path tool
+   */
+  static validateFindPatternPathArgs(args: unknown): {
+    sourcePatternId: string;
+    targetPatternId: string;
+    maxHops: number;
+    includeSimilarity: boolean;
+    useLLM: boolean;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const patternIdOptions = {
+      required: true,
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    };
+    const sourceResult = this.validateString(
+      obj.sourcePatternId ?? obj.source_pattern_id,
+      'sourcePatternId',
+      patternIdOptions
+    );
+    this.throwIfInvalid(sourceResult);
+    const targetResult = this.validateString(
+      obj.targetPatternId ?? obj.target_pattern_id,
+      'targetPatternId',
+      patternIdOptions
+    );
+    this.throwIfInvalid(targetResult);
+
+    const sourcePatternId = sourceResult.sanitized as string;
+    const targetPatternId = targetResult.sanitized as string;
+    if (sourcePatternId === targetPatternId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: sourcePatternId and targetPatternId must differ'
+      );
+    }
+
+    const maxHopsResult = this.validateNumber(obj.maxHops ?? obj.max_hops, 'maxHops', {
+      min: 1,
+      max: 6,
+    });
+    this.throwIfInvalid(maxHopsResult);
+
+    const includeSimilarityResult = this.validateBoolean(
+      obj.includeSimilarity ?? obj.include_similarity,
+      'includeSimilarity'
+    );
+    this.throwIfInvalid(includeSimilarityResult);
+
+    const useLLMResult = this.validateBoolean(obj.useLLM, 'useLLM');
+    this.throwIfInvalid(useLLMResult);
+
+    return {
+      sourcePatternId,
+      targetPatternId,
+      maxHops: Math.floor((maxHopsResult.sanitized as number | undefined) ?? 4),
+      includeSimilarity: (includeSimilarityResult.sanitized as boolean | undefined) ?? true,
+      useLLM: (useLLMResult.sanitized as boolean | undefined) ?? true,
+    };
+  }
+
+  /**
+   * Validates a relationship type against the RelationshipType union
+   */
+  static validateRelationshipType(type: unknown, required = false): ValidationResult {
+    return this.validateString(type, 'type', {
+      required,
+      allowedValues: [...RELATIONSHIP_TYPES],
+      sanitize: true,
+    });
+  }
+
+  /**
+   * Validates relationship strength (0.0 to 1.0)
+   */
+  static validateRelationshipStrength(strength: unknown): ValidationResult {
+    return this.validateNumber(strength, 'strength', { min: 0, max: 1 });
+  }
+
+  /**
+   * Validates relationship description
+   */
+  static validateRelationshipDescription(description: unknown, required = false): ValidationResult {
+    // Stored in the catalog verbatim, so no HTML escaping
+    return this.validateString(description, 'description', {
+      required,
+      minLength: 10,
+      maxLength: 500,
+      pattern: /^[^\0]*$/,
+    });
+  }
+
+  /**
+   * Validates all inputs for create_relationship tool.
+   * snake_case names from the legacy tool definitions are accepted as well.
+   */
+  static validateCreateRelationshipArgs(args: unknown): {
+    sourcePatternId: string;
+    targetPatternId: string;
+    type: RelationshipType;
+    strength?: number;
+    description: string;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const sourceResult = this.validatePatternReference(
+      obj.sourcePatternId ?? obj.source_pattern_id,
+      'sourcePatternId'
+    );
+    this.throwIfInvalid(sourceResult);
+
+    const targetResult = this.validatePatternReference(
+      obj.targetPatternId ?? obj.target_pattern_id,
+      'targetPatternId'
+    );
+    this.throwIfInvalid(targetResult);
+
+    if (sourceResult.sanitized === targetResult.sanitized) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: a pattern cannot have a relationship with itself'
+      );
+    }
+
+    const typeResult = this.validateRelationshipType(obj.type, true);
+    this.throwIfInvalid(typeResult);
+
+    const strengthResult = this.validateRelationshipStrength(obj.strength);
+    this.throwIfInvalid(strengthResult);
+
+    const descriptionResult = this.validateRelationshipDescription(obj.description, true);
+    this.throwIfInvalid(descriptionResult);
+
+    return {
+      sourcePatternId: sourceResult.sanitized as string,
+      targetPatternId: targetResult.sanitized as string,
+      type: typeResult.sanitized as RelationshipType,
+      strength: strengthResult.sanitized as number | undefined,
+      description: descriptionResult.sanitized as string,
+    };
+  }
+
+  /**
+   * Validates all inputs for get_relationships tool
+   */
+  static validateGetRelationshipsArgs(args: unknown): {
+    patternId?: string;
+    type?: RelationshipType;
+    minStrength?: number;
+    limit: number;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const patternIdResult = this.validateString(obj.patternId ?? obj.pattern_id, 'patternId', {
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    });
+    this.throwIfInvalid(patternIdResult);
+
+    const typeResult = this.validateRelationshipType(obj.type);
+    this.throwIfInvalid(typeResult);
+
+    const minStrengthResult = this.validateNumber(
+      obj.minStrength ?? obj.min_strength,
+      'minStrength',
+      { min: 0, max: 1 }
+    );
+    this.throwIfInvalid(minStrengthResult);
+
+    const limitResult = this.validateLimit(obj.limit);
+    this.throwIfInvalid(limitResult);
+
+    return {
+      patternId: patternIdResult.sanitized ? (patternIdResult.sanitized as string) : undefined,
+      type: typeResult.sanitized ? (typeResult.sanitized as RelationshipType) : undefined,
+      minStrength: minStrengthResult.sanitized as number | undefined,
+      limit: (limitResult.sanitized as number | undefined) ?? 50,
+    };
+  }
+
+  /**
+   * Validates all inputs for update_relationship tool
+   */
+  static validateUpdateRelationshipArgs(args: unknown): {
+    relationshipId: string;
+    type?: RelationshipType;
+    strength?: number;
+    description?: string;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const idResult = this.validateRelationshipId(obj.relationshipId ?? obj.relationship_id, true);
+    this.throwIfInvalid(idResult);
+
+    const typeResult = this.validateRelationshipType(obj.type);
+    this.throwIfInvalid(typeResult);
+
+    const strengthResult = this.validateRelationshipStrength(obj.strength);
+    this.throwIfInvalid(strengthResult);
+
+    const descriptionResult = this.validateRelationshipDescription(obj.description);
+    this.throwIfInvalid(descriptionResult);
+
+    const description = descriptionResult.sanitized as string | undefined;
+    const updates = {
+      type: typeResult.sanitized ? (typeResult.sanitized as RelationshipType) : undefined,
+      strength: strengthResult.sanitized as number | undefined,
+      description: description ? description : undefined,
+    };
+    if (Object.values(updates).every(value => value === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: at least one of type, strength or description is required'
+      );
+    }
+
+    return { relationshipId: idResult.sanitized as string, ...updates };
+  }
+
+  /**
+   * Validates all inputs for delete_relationship tool.
+   * A relationship is addressed by its ID or by its source/target pattern pair.
+   */
+  static validateDeleteRelationshipArgs(
+    args: unknown
+  ): { relationshipId: string } | { sourcePatternId: string; targetPatternId: string } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const idResult = this.validateRelationshipId(obj.relationshipId ?? obj.relationship_id);
+    this.throwIfInvalid(idResult);
+    if (idResult.sanitized) {
+      return { relationshipId: idResult.sanitized as string };
+    }
+
+    const sourceResult = this.validateString(
+      obj.sourcePatternId ?? obj.source_pattern_id,
+      'sourcePatternId',
+      { maxLength: 255, pattern: /^[a-zA-Z0-9_-]+$/, sanitize: true }
+    );
+    this.throwIfInvalid(sourceResult);
+
+    const targetResult = this.validateString(
+      obj.targetPatternId ?? obj.target_pattern_id,
+      'targetPatternId',
+      { maxLength: 255, pattern: /^[a-zA-Z0-9_-]+$/, sanitize: true }
+    );
+    this.throwIfInvalid(targetResult);
+
+    if (!sourceResult.sanitized || !targetResult.sanitized) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: relationshipId or both sourcePatternId and targetPatternId are required'
+      );
+    }
+
+    return {
+      sourcePatternId: sourceResult.sanitized as string,
+      targetPatternId: targetResult.sanitized as string,
+    };
+  }
+
+  /**
+   * Validates all inputs for list_relationship_suggestions tool
+   */
+  static validateListRelationshipSuggestionsArgs(args: unknown): {
+    status: 'pending' | 'accepted' | 'rejected';
+    patternId?: string;
+    limit: number;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const statusResult = this.validateString(obj.status, 'status', {
+      allowedValues: ['pending', 'accepted', 'rejected'],
+      sanitize: true,
+    });
+    this.throwIfInvalid(statusResult);
+
+    const patternIdResult = this.validateString(obj.patternId ?? obj.pattern_id, 'patternId', {
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    });
+    this.throwIfInvalid(patternIdResult);
+
+    const limitResult = this.validateLimit(obj.limit);
+    this.throwIfInvalid(limitResult);
+
+    return {
+      status:
+        (statusResult.sanitized as 'pending' | 'accepted' | 'rejected' | undefined) ?? 'pending',
+      patternId: patternIdResult.sanitized ? (patternIdResult.sanitized as string) : undefined,
+      limit: (limitResult.sanitized as number | undefined) ?? 20,
+    };
+  }
+
+  /**
+   * Validates all inputs for review_relationship_suggestion tool.
+   * type, strength and description override the inferred values when accepting.
+   */
+  static validateReviewRelationshipSuggestionArgs(args: unknown): {
+    suggestionId: string;
+    decision: 'accept' | 'reject';
+    type?: RelationshipType;
+    strength?: number;
+    description?: string;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const idResult = this.validateString(obj.suggestionId ?? obj.suggestion_id, 'suggestionId', {
+      required: true,
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    });
+    this.throwIfInvalid(idResult);
+
+    const decisionResult = this.validateString(obj.decision, 'decision', {
+      required: true,
+      allowedValues: ['accept', 'reject'],
+      sanitize: true,
+    });
+    this.throwIfInvalid(decisionResult);
+
+    const typeResult = this.validateRelationshipType(obj.type);
+    this.throwIfInvalid(typeResult);
+
+    const strengthResult = this.validateRelationshipStrength(obj.strength);
+    this.throwIfInvalid(strengthResult);
+
+    const descriptionResult = this.validateRelationshipDescription(obj.description);
+    this.throwIfInvalid(descriptionResult);
+
+    return {
+      suggestionId: idResult.sanitized as string,
+      decision: decisionResult.sanitized as 'accept' | 'reject',
+      type: typeResult.sanitized ? (typeResult.sanitized as RelationshipType) : undefined,
+      strength: strengthResult.sanitized as number | undefined,
+      description: descriptionResult.sanitized
+        ? (descriptionResult.sanitized as string)
+        : undefined,
+    };
+  }
+
+  /**
+   * Validates all inputs for update_pattern tool.
+   * Text is stored in the catalog verbatim, so it is checked but not HTML-escaped.
+   */
+  static validateUpdatePatternArgs(args: unknown): {
+    patternId: string;
+    changes: PatternFieldChanges;
+  } {
+    if (typeof args !== 'object' || args === null) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object');
+    }
+    const obj = args as Record<string, unknown>;
+
+    const idResult = this.validatePatternId(obj.patternId ?? obj.pattern_id);
+    this.throwIfInvalid(idResult);
+
+    const text = (value: unknown, field: string, minLength: number, maxLength: number) => {
+      const result = this.validateString(value, field, {
+        minLength,
+        maxLength,
+        pattern: /^[^\0]*$/,
+      });
+      this.throwIfInvalid(result);
+      return result.sanitized ? (result.sanitized as string) : undefined;
+    };
+    const list = (value: unknown, field: string) => {
+      const result = this.validateArray(value, field, {
+        maxLength: 50,
+        itemValidator: item => this.validateString(item, 'item', { required: true, maxLength: 500 }),
+      });
+      this.throwIfInvalid(result);
+      return (result.sanitized as string[] | undefined)?.map(item => item.trim());
+    };
+
+    const complexityResult = this.validateString(obj.complexity, 'complexity', {
+      allowedValues: ['Low', 'Medium', 'High', 'Very High'],
+    });
+    this.throwIfInvalid(complexityResult);
+
+    const changes: PatternFieldChanges = {
+      name: text(obj.name, 'name', 2, 100),
+      category: text(obj.category, 'category', 2, 50),
+      description: text(obj.description, 'description', 10, 2000),
+      complexity: complexityResult.sanitized ? (complexityResult.sanitized as string) : undefined,
+      tags: list(obj.tags, 'tags'),
+      when_to_use: list(obj.whenToUse ?? obj.when_to_use, 'whenToUse'),
+      benefits: list(obj.benefits, 'benefits'),
+      drawbacks: list(obj.drawbacks, 'drawbacks'),
+      use_cases: list(obj.useCases ?? obj.use_cases, 'useCases'),
+    };
+    if (Object.values(changes).every(value => value === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Validation failed: at least one pattern field to change is required'
+      );
+    }
+
+    return { patternId: idResult.sanitized as string, changes };
+  }
+
+  private static validateRelationshipId(id: unknown, required = false): ValidationResult {
+    return this.validateString(id, 'relationshipId', {
+      required,
+      maxLength: 255,
+      pattern: /^[a-zA-Z0-9_-]+$/,
+      sanitize: true,
+    });
+  }
 }
@@ -0,0 +1,39 @@
+/**
+ * Edit-distance helpers for matching mistyped pattern IDs and names.
+ */
+
+/**
+ * Levenshtein distance (insertions, deletions and substitutions each cost 1)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between 0 (nothing in common) and 1 (equal), normalized by the longer string
+ */
+export function stringSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * Similarity of a partially typed value to the start of a candidate, so "factry" is close
+ * to "factory-method" even though the full strings differ a lot
+ */
+export function prefixSimilarity(typed: string, candidate: string): number {
+  return stringSimilarity(typed, candidate.slice(0, typed.length));
+}
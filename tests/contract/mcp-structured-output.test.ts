@@ -0,0 +1,357 @@
+/**
+ * Contract Tests for structured tool output
+ * Every canonical tool declares an outputSchema, and the structuredContent of its responses
+ * validates against that schema once serialized the way the transport sends it.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { SearchMediator } from '../../src/handlers/search-mediator.js';
+import { MCPRateLimiter } from '../../src/utils/rate-limiter.js';
+import { createHttpToolHandlers } from '../../src/mcp/http-tool-handlers.js';
+import {
+  CANONICAL_TOOL_DEFINITIONS,
+  CANONICAL_TOOL_NAMES,
+  type CanonicalToolName,
+} from '../../src/mcp/canonical-tools.js';
+import { TOOL_OUTPUT_SCHEMAS } from '../../src/mcp/output-schemas.js';
+import {
+  healthReportOutput,
+  patternDetailsOutput,
+  patternNotFoundOutput,
+} from '../../src/mcp/structured-output.js';
+import { HealthStatus } from '../../src/health/types.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['singleton', 'Singleton', 'Creational', 'Ensure a class has only one instance'],
+  ['factory-method', 'Factory Method', 'Creational', 'Let subclasses decide what to create'],
+  ['strategy', 'Strategy', 'Behavioral', 'Swap interchangeable algorithms at runtime'],
+  ['state', 'State', 'Behavioral', 'Change behavior when the internal state changes'],
+  ['god-object', 'God Object', 'Anti-Pattern', 'One class that knows and does too much'],
+];
+
+const SINGLETON_CODE = `class Config {
+  private static instance: Config;
+  private constructor() {}
+  static getInstance(): Config {
+    if (!Config.instance) {
+      Config.instance = new Config();
+    }
+    return Config.instance;
+  }
+}`;
+
+describe('MCP structured tool output', () => {
+  const validator = new AjvJsonSchemaValidator();
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let repoDir: string;
+  let tools: ReturnType<typeof createHttpToolHandlers>;
+
+  /** Validate the structuredContent as the client receives it and return it */
+  const expectValid = (
+    tool: CanonicalToolName,
+    result: { content: unknown[]; structuredContent?: Record<string, unknown> }
+  ) => {
+    expect(result.content.length).toBeGreaterThan(0);
+    const data = JSON.parse(JSON.stringify(result.structuredContent ?? null)) as unknown;
+    const validation = validator.getValidator<Record<string, unknown>>(
+      TOOL_OUTPUT_SCHEMAS[tool] as JsonSchemaType
+    )(data);
+    expect(validation.errorMessage).toBeUndefined();
+    return data as Record<string, unknown>;
+  };
+
+  beforeAll(async () => {
+    tempDbPath = createTempDatabasePath('mcp-structured-output');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category, description] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags, benefits)
+         VALUES (?, ?, ?, ?, 'Medium', '["gof"]', ?)`,
+        [id, name, category, description, JSON.stringify([`${name} keeps code focused`])]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_implementations (id, pattern_id, language, approach, code, explanation)
+       VALUES ('impl-1', 'singleton', 'typescript', 'classic', 'class Config {}', 'Lazy instance')`
+    );
+    db.execute(
+      `INSERT INTO pattern_relationships (id, source_pattern_id, target_pattern_id, type,
+                                          strength, description)
+       VALUES ('rel-1', 'state', 'strategy', 'similar', 0.8, 'Same structure, different intent'),
+              ('rel-2', 'strategy', 'factory-method', 'complements', 0.6, 'Creates strategies'),
+              ('rel-3', 'god-object', 'strategy', 'refines', 0.7, 'Split behavior out')`
+    );
+    db.execute(
+      `INSERT INTO relationship_suggestions (id, source_pattern_id, target_pattern_id, type,
+                                             confidence, signals, evidence)
+       VALUES ('sug-1', 'singleton', 'factory-method', 'complements', 0.7, '["tags"]',
+               '["Shared tags: gof"]'),
+              ('sug-2', 'state', 'singleton', 'complements', 0.5, '["text"]',
+               '["State mentions a single instance"]')`
+    );
+
+    repoDir = mkdtempSync(join(tmpdir(), 'structured-output-'));
+    writeFileSync(join(repoDir, 'config.ts'), SINGLETON_CODE);
+
+    const vectorOps = new VectorOperationsService(db, {
+      model: 'all-MiniLM-L6-v2',
+      dimensions: 384,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+    const mediator = new SearchMediator(db, vectorOps, undefined, { useSemanticSearch: false });
+    tools = createHttpToolHandlers(db, mediator, new MCPRateLimiter(), {
+      enableWriteTools: true,
+      analysisRoots: [repoDir],
+    });
+  });
+
+  afterAll(async () => {
+    rmSync(repoDir, { recursive: true, force: true });
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('declares an object output schema for every canonical tool', () => {
+    expect(CANONICAL_TOOL_DEFINITIONS.map(tool => tool.name)).toEqual([...CANONICAL_TOOL_NAMES]);
+    for (const tool of CANONICAL_TOOL_DEFINITIONS) {
+      expect(tool.outputSchema).toBe(TOOL_OUTPUT_SCHEMAS[tool.name]);
+      expect(tool.outputSchema).toMatchObject({ type: 'object' });
+      expect(() => validator.getValidator(tool.outputSchema as JsonSchemaType)).not.toThrow();
+    }
+  });
+
+  it('returns recommendations and search results with ids and scores', async () => {
+    const found = expectValid(
+      'find_patterns',
+      await tools.handleFindPatterns({ query: 'algorithm swapped at runtime', maxResults: 3 })
+    );
+    const recommendations = found.recommendations as Array<Record<string, unknown>>;
+    expect(recommendations.length).toBeGreaterThan(0);
+    expect(recommendations[0]).toMatchObject({
+      pattern: { id: expect.any(String) as unknown },
+      confidence: expect.any(Number) as unknown,
+      alternatives: expect.any(Array) as unknown,
+      justification: { fuzzyInputFingerprint: { patternComplexity: 'Medium' } },
+    });
+
+    const searched = expectValid(
+      'search_patterns',
+      await tools.handleSearchPatterns({ query: 'instance', searchType: 'keyword' })
+    );
+    expect(searched).toMatchObject({ query: 'instance', degraded: false });
+
+    expect(expectValid('count_patterns', tools.handleCountPatterns({}))).toEqual({ total: 5 });
+    expect(
+      expectValid('count_patterns', tools.handleCountPatterns({ includeDetails: true }))
+    ).toMatchObject({
+      total: 5,
+      byCategory: expect.arrayContaining([{ category: 'Creational', count: 2 }]) as unknown,
+    });
+  });
+
+  it('returns analysis, planning, composition and path results', async () => {
+    const analysis = expectValid(
+      'analyze_code',
+      tools.handleAnalyzeCode({ code: SINGLETON_CODE, language: 'typescript' })
+    );
+    expect(analysis.identifiedPatterns).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          pattern: 'Singleton',
+          catalog: expect.objectContaining({
+            id: 'singleton',
+          }) as unknown,
+        }),
+      ])
+    );
+
+    const repository = expectValid(
+      'analyze_repository',
+      await tools.handleAnalyzeRepository({ path: repoDir })
+    );
+    expect(repository).toMatchObject({ filesAnalyzed: 1 });
+
+    expect(
+      expectValid(
+        'plan_refactoring',
+        await tools.handlePlanRefactoring({
+          code: SINGLETON_CODE,
+          language: 'typescript',
+          targetPatternId: 'singleton',
+          useLLM: false,
+        })
+      )
+    ).toMatchObject({ found: true, plan: { targetPattern: { id: 'singleton' } } });
+    expect(
+      expectValid(
+        'plan_refactoring',
+        await tools.handlePlanRefactoring({
+          code: SINGLETON_CODE,
+          language: 'typescript',
+          targetPatternId: 'missing',
+          useLLM: false,
+        })
+      )
+    ).toEqual({ targetPatternId: 'missing', found: false });
+
+    const composition = expectValid(
+      'analyze_pattern_composition',
+      await tools.handleAnalyzePatternComposition({
+        patternIds: ['strategy', 'factory-method', 'unknown-pattern'],
+      })
+    );
+    expect(composition).toMatchObject({
+      unknownIds: ['unknown-pattern'],
+      names: { strategy: 'Strategy', 'factory-method': 'Factory Method' },
+    });
+
+    const path = expectValid(
+      'find_pattern_path',
+      await tools.handleFindPatternPath({
+        sourcePatternId: 'state',
+        targetPatternId: 'factory-method',
+        useLLM: false,
+      })
+    );
+    expect(path).toMatchObject({
+      shortest: { patternIds: ['state', 'strategy', 'factory-method'] },
+    });
+  });
+
+  it('returns relationships, suggestions and pattern updates', async () => {
+    expect(
+      expectValid(
+        'get_relationships',
+        await tools.handleGetRelationships({ patternId: 'strategy' })
+      )
+    ).toMatchObject({ patternId: 'strategy', total: 3 });
+
+    const created = expectValid(
+      'create_relationship',
+      await tools.handleCreateRelationship({
+        sourcePatternId: 'singleton',
+        targetPatternId: 'state',
+        type: 'complements',
+        description: 'States are often singletons',
+      })
+    );
+    const relationshipId = (created.relationship as { id: string }).id;
+    expect(created).toMatchObject({
+      action: 'Created',
+      integrity: { valid: expect.any(Boolean) as unknown },
+    });
+    expectValid(
+      'update_relationship',
+      await tools.handleUpdateRelationship({ relationshipId, strength: 0.3 })
+    );
+    expectValid('delete_relationship', await tools.handleDeleteRelationship({ relationshipId }));
+
+    expect(
+      expectValid('list_relationship_suggestions', tools.handleListRelationshipSuggestions({}))
+    ).toMatchObject({ suggestions: [{ id: 'sug-1' }, { id: 'sug-2' }] });
+    expect(
+      expectValid(
+        'review_relationship_suggestion',
+        await tools.handleReviewRelationshipSuggestion({
+          suggestionId: 'sug-1',
+          decision: 'accept',
+        })
+      )
+    ).toMatchObject({
+      decision: 'accept',
+      suggestion: { status: 'accepted' },
+      relationship: { sourcePatternId: 'singleton' },
+    });
+    expect(
+      expectValid(
+        'review_relationship_suggestion',
+        await tools.handleReviewRelationshipSuggestion({
+          suggestionId: 'sug-2',
+          decision: 'reject',
+        })
+      )
+    ).toMatchObject({ decision: 'reject', suggestion: { status: 'rejected' } });
+
+    expect(
+      expectValid(
+        'update_pattern',
+        tools.handleUpdatePattern({ patternId: 'state', tags: ['gof', 'behavioral'] })
+      )
+    ).toEqual({
+      pattern: { id: 'state', name: 'State', category: 'Behavioral' },
+      changedFields: ['tags'],
+    });
+  });
+
+  it('describes pattern details and health reports with their schemas', () => {
+    const validate = (tool: CanonicalToolName, data: Record<string, unknown>) =>
+      expectValid(tool, { content: [{ type: 'text', text: '' }], structuredContent: data });
+
+    expect(
+      validate(
+        'get_pattern_details',
+        patternDetailsOutput(
+          'singleton',
+          {
+            id: 'singleton',
+            name: 'Singleton',
+            category: 'Creational',
+            tags: '["gof"]',
+            benefits: '["One instance"]',
+          },
+          [{ language: 'typescript', code: 'class Config {}', explanation: 'Lazy instance' }]
+        )
+      )
+    ).toMatchObject({ found: true, pattern: { tags: ['gof'], whenToUse: [] } });
+    validate(
+      'get_pattern_details',
+      patternNotFoundOutput('singletn', [
+        {
+          id: 'singleton',
+          name: 'Singleton',
+          category: 'Creational',
+          description: 'x',
+          score: 0.8,
+          matchedBy: 'similarity',
+        },
+      ])
+    );
+
+    expect(validate('get_health_status', healthReportOutput())).toEqual({ available: false });
+    validate(
+      'get_health_status',
+      healthReportOutput({
+        overall: HealthStatus.DEGRADED,
+        timestamp: new Date().toISOString(),
+        duration: 4,
+        checks: [
+          {
+            name: 'database',
+            status: HealthStatus.DEGRADED,
+            message: 'Slow queries',
+            timestamp: new Date().toISOString(),
+            duration: 4,
+            error: new Error('timeout'),
+          },
+        ],
+        summary: { total: 1, healthy: 0, degraded: 1, unhealthy: 0, unknown: 0 },
+      })
+    );
+  });
+});
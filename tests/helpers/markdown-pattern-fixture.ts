@@ -0,0 +1,96 @@
+/**
+ * Markdown pattern document used by the importer tests
+ */
+export const EVENT_AGGREGATOR_MARKDOWN = `---
+id: event-aggregator
+category: Behavioral
+complexity: Medium
+tags: [events, messaging, decoupling]
+aliases:
+  - Event Hub
+  - Message Bus
+related: [observer]
+owner: architecture-guild
+---
+
+# Event Aggregator
+
+Channels events from many publishers through a single object so subscribers
+do not need to know every publisher.
+
+## Problem
+
+Screens that react to each other's events end up holding references to every
+component they listen to.
+
+## Solution
+
+Publishers raise events on one aggregator; subscribers register with the
+aggregator by event type.
+
+## When to use
+
+- Many components publish events that many others consume
+- Publishers and subscribers are created and destroyed independently
+
+## Consequences
+
+- The aggregator becomes a central dependency
+
+### Benefits
+
+- Publishers and subscribers stay decoupled
+
+### Drawbacks
+
+- Event flow is harder to trace
+- Forgotten subscriptions leak memory
+
+## Implementation
+
+### TypeScript
+
+Handlers are keyed by event name.
+
+\`\`\`ts
+class EventAggregator {
+  private handlers = new Map<string, Array<(payload: unknown) => void>>();
+
+  subscribe(event: string, handler: (payload: unknown) => void): void {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  publish(event: string, payload: unknown): void {
+    this.handlers.get(event)?.forEach(handler => handler(payload));
+  }
+}
+\`\`\`
+
+### Python
+
+\`\`\`python
+class EventAggregator:
+    def __init__(self):
+        self.handlers = {}
+\`\`\`
+
+## Examples
+
+### Before
+
+Every screen wires itself to the others.
+
+\`\`\`ts
+cart.onChange(() => header.refresh());
+\`\`\`
+
+### After
+
+\`\`\`ts
+events.subscribe('cart-changed', () => header.refresh());
+\`\`\`
+
+## Related patterns
+
+- [Mediator](mediator.md)
+`;
@@ -0,0 +1,137 @@
+/**
+ * IVF index of VectorOperationsService: trained and persisted on first load, reloaded from the
+ * database, kept current by storeEmbedding/deleteEmbedding and restricted by search filters.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const DIMENSIONS = 8;
+
+/** Unit-ish vector near axis `axis`, nudged by `offset` on the next axis */
+function vectorNear(axis: number, offset: number): number[] {
+  const vector = Array<number>(DIMENSIONS).fill(0);
+  vector[axis] = 1;
+  vector[(axis + 1) % DIMENSIONS] = offset;
+  return vector;
+}
+
+describe('ANN index', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+
+  const createVectorOps = () =>
+    new VectorOperationsService(db, {
+      model: 'hash',
+      dimensions: DIMENSIONS,
+      similarityThreshold: 0,
+      maxResults: 5,
+      cacheEnabled: false,
+      annIndex: { minVectors: 10, lists: 4, probes: 1 },
+    });
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('ann-index');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    // Four groups of five patterns; each group points along its own axis
+    const vectorOps = createVectorOps();
+    for (let group = 0; group < 4; group++) {
+      for (let i = 0; i < 5; i++) {
+        const id = `p${group}-${i}`;
+        db.execute(
+          `INSERT INTO patterns (id, name, category, description, complexity, tags)
+           VALUES (?, ?, ?, 'Test pattern', 'Low', ?)`,
+          [id, id, `Group ${group}`, JSON.stringify(i === 0 ? ['lead'] : [])]
+        );
+        vectorOps.storeEmbedding(id, vectorNear(group * 2, i * 0.05));
+      }
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('trains, persists and reloads the index', () => {
+    const vectorOps = createVectorOps();
+    expect(vectorOps.getAnnIndexInfo()).toBeNull();
+    expect(vectorOps.loadAnnIndex()).toBe(true);
+    expect(vectorOps.getAnnIndexInfo()).toEqual({ lists: 4, vectors: 20 });
+
+    const stored = db.queryOne<{ vector_count: number }>(
+      'SELECT vector_count FROM vector_indexes WHERE model = ?',
+      ['hash']
+    );
+    expect(stored?.vector_count).toBe(20);
+    const unassigned = db.queryOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM pattern_embeddings WHERE ivf_list IS NULL'
+    );
+    expect(unassigned?.count).toBe(0);
+
+    const results = vectorOps.searchSimilar(vectorNear(2, 0), undefined, 5);
+    expect(results.map(result => result.patternId).sort()).toEqual(
+      ['p1-0', 'p1-1', 'p1-2', 'p1-3', 'p1-4']
+    );
+    expect(results[0]).toMatchObject({ patternId: 'p1-0', rank: 1 });
+
+    // A second service reuses the stored centroids
+    const reloaded = createVectorOps();
+    expect(reloaded.loadAnnIndex()).toBe(true);
+    expect(reloaded.searchSimilar(vectorNear(2, 0), undefined, 1)[0].patternId).toBe('p1-0');
+  });
+
+  it('follows stored and deleted embeddings and applies filters', () => {
+    const vectorOps = createVectorOps();
+    vectorOps.loadAnnIndex();
+
+    db.execute(
+      `INSERT INTO patterns (id, name, category, description, complexity, tags)
+       VALUES ('newcomer', 'Newcomer', 'Group 3', 'Test pattern', 'High', '[]')`
+    );
+    vectorOps.storeEmbedding('newcomer', vectorNear(6, 0));
+    vectorOps.deleteEmbedding('p3-0');
+    expect(vectorOps.getAnnIndexInfo()?.vectors).toBe(20);
+
+    const top = vectorOps.searchSimilar(vectorNear(6, 0), undefined, 2);
+    expect(top.map(result => result.patternId)).toEqual(['newcomer', 'p3-1']);
+
+    // Filters that exclude the nearest list widen the probe
+    const filtered = vectorOps.searchSimilar(
+      vectorNear(6, 0),
+      { categories: ['Group 0'], tags: ['lead'], minScore: -1 },
+      5
+    );
+    expect(filtered.map(result => result.patternId)).toEqual(['p0-0']);
+    expect(
+      vectorOps
+        .searchSimilar(vectorNear(6, 0), { excludePatterns: ['newcomer'], complexity: 'Low' }, 1)
+        .map(result => result.patternId)
+    ).toEqual(['p3-1']);
+  });
+
+  it('keeps linear search for small catalogs and drops the index with the embeddings', () => {
+    const small = new VectorOperationsService(db, {
+      model: 'hash',
+      dimensions: DIMENSIONS,
+      similarityThreshold: 0,
+      maxResults: 5,
+      cacheEnabled: false,
+    });
+    expect(small.loadAnnIndex()).toBe(false);
+
+    const vectorOps = createVectorOps();
+    vectorOps.loadAnnIndex();
+    vectorOps.clearAll();
+    expect(vectorOps.getAnnIndexInfo()).toBeNull();
+    expect(db.queryOne<{ count: number }>('SELECT COUNT(*) as count FROM vector_indexes')?.count)
+      .toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Catalog export: per-pattern Markdown mirroring get_pattern_details, the schema.org JSON-LD
+ * dataset and the static HTML site with category indexes and relationship links.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { CatalogExporter } from '../../src/services/catalog-exporter.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['observer', 'Observer', 'Behavioral', 'Notify dependents when an object changes state'],
+  ['mediator', 'Mediator', 'Behavioral', 'Centralize communication between <components>'],
+  ['retry', 'Retry', 'AI/ML', 'Retry transient failures of model calls'],
+];
+
+describe('catalog export', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let outDir: string;
+
+  const read = (file: string) => fs.readFileSync(path.join(outDir, file), 'utf8');
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('catalog-export');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category, description] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags, when_to_use)
+         VALUES (?, ?, ?, ?, 'Low', '["events","decoupling"]', '["Many listeners"]')`,
+        [id, name, category, description]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_implementations (id, pattern_id, language, approach, code, explanation)
+       VALUES ('observer-ts', 'observer', 'TypeScript', 'classic', ?, 'Subjects keep a list')`,
+      ['if (a < b) listeners.forEach(notify);']
+    );
+    db.execute(
+      `INSERT INTO pattern_relationships (id, source_pattern_id, target_pattern_id, type, description)
+       VALUES ('rel-1', 'observer', 'mediator', 'alternative', 'Routes events centrally')`
+    );
+
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-export-'));
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('writes every format for the whole catalog', () => {
+    const result = new CatalogExporter(db).export({ outDir, title: 'Team Patterns' });
+
+    expect(result).toMatchObject({ patterns: 3, categories: 2 });
+    expect(result.files.markdown).toHaveLength(4);
+    expect(result.files.jsonld).toEqual(['catalog.jsonld']);
+    expect(result.files.html?.sort()).toEqual([
+      'html/categories/ai-ml.html',
+      'html/categories/behavioral.html',
+      'html/index.html',
+      'html/patterns/mediator.html',
+      'html/patterns/observer.html',
+      'html/patterns/retry.html',
+    ]);
+  });
+
+  it('mirrors the pattern details text in Markdown and links related patterns', () => {
+    new CatalogExporter(db).export({ outDir, formats: ['markdown'] });
+
+    const observer = read('markdown/observer.md');
+    expect(observer).toMatch(/^# Observer \(Behavioral\)\n\n\*\*Description:\*\* Notify/);
+    expect(observer).toContain('**When to Use:** Many listeners');
+    expect(observer).toContain('```typescript\nif (a < b) listeners.forEach(notify);\n```');
+    expect(observer).toContain('- [Mediator](mediator.md) — alternative: Routes events centrally');
+    expect(read('markdown/mediator.md')).toContain(
+      '- [Observer](observer.md) — alternative (from): Routes events centrally'
+    );
+    expect(read('markdown/index.md')).toContain('## AI/ML\n\n- [Retry](retry.md)');
+    expect(fs.existsSync(path.join(outDir, 'html'))).toBe(false);
+  });
+
+  it('describes patterns as schema.org defined terms', () => {
+    new CatalogExporter(db).export({ outDir, formats: ['jsonld'] });
+
+    const dataset = JSON.parse(read('catalog.jsonld')) as {
+      '@context': string;
+      '@graph': Array<Record<string, unknown>>;
+    };
+    expect(dataset['@context']).toBe('https://schema.org');
+    expect(dataset['@graph'].filter(node => node['@type'] === 'DefinedTermSet')).toHaveLength(3);
+    expect(dataset['@graph'].find(node => node.termCode === 'retry')).toEqual({
+      '@type': 'DefinedTerm',
+      '@id': '#pattern/retry',
+      termCode: 'retry',
+      name: 'Retry',
+      description: 'Retry transient failures of model calls',
+      keywords: ['events', 'decoupling'],
+      inDefinedTermSet: [{ '@id': '#catalog' }, { '@id': '#category/ai-ml' }],
+    });
+  });
+
+  it('builds an escaped static site with category indexes and relationship links', () => {
+    new CatalogExporter(db).export({ outDir, formats: ['html'] });
+
+    expect(read('html/index.html')).toContain(
+      '<a href="categories/behavioral.html">Behavioral</a> <span class="meta">(2)</span>'
+    );
+    expect(read('html/categories/behavioral.html')).toContain(
+      '<a href="../patterns/mediator.html">Mediator</a> — ' +
+        'Centralize communication between &lt;components&gt;'
+    );
+
+    const observer = read('html/patterns/observer.html');
+    expect(observer).toContain('<a href="../categories/behavioral.html">Behavioral</a>');
+    expect(observer).toContain(
+      '<pre><code class="language-typescript">if (a &lt; b) listeners.forEach(notify);</code></pre>'
+    );
+    expect(observer).toContain('<a href="mediator.html">Mediator</a>');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Languages of the seeded catalog: the shipped patterns carry code examples rather than
+ * stored implementations, so language resources and completions are served from those
+ * examples.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createPatternSeeder } from '../../src/services/pattern-seeder.js';
+import { createResourceHandlers } from '../../src/mcp/resources.js';
+import { createCompletionHandlers } from '../../src/mcp/completions.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+describe('seeded catalog languages', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let resources: ReturnType<typeof createResourceHandlers>;
+
+  const readJson = async (uri: string) => {
+    const [content] = (await resources.readResource(uri)).contents;
+    return JSON.parse('text' in content ? content.text : '') as unknown;
+  };
+
+  beforeAll(async () => {
+    tempDbPath = createTempDatabasePath('catalog-languages');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    const result = await createPatternSeeder(db, {
+      patternsPath: path.resolve(__dirname, '../../data/patterns'),
+      batchSize: 100,
+      skipExisting: false,
+    }).seedAll();
+    if (!result.success) {
+      throw new Error(`Failed to seed patterns: ${result.message}`);
+    }
+
+    resources = createResourceHandlers(db, {
+      config: {
+        databasePath: tempDbPath,
+        enableLLM: false,
+        logLevel: 'error',
+        maxConcurrentRequests: 10,
+      },
+      notify: () => Promise.resolve(),
+    });
+  }, 120000);
+
+  afterAll(async () => {
+    resources.dispose();
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('serves pattern implementations and the languages resource from catalog examples', async () => {
+    expect(await readJson('pattern/factory-method')).toMatchObject({
+      implementations: [
+        {
+          language: 'typescript',
+          count: 1,
+          uri: 'pattern/factory-method/implementations/typescript',
+        },
+      ],
+    });
+    expect(await readJson('pattern/factory-method/implementations/typescript')).toEqual([
+      expect.objectContaining({
+        language: 'typescript',
+        approach: 'example',
+        code: expect.stringContaining('abstract class Creator') as unknown,
+      }),
+    ]);
+
+    const languages = (await readJson('languages')) as Array<{ language: string }>;
+    expect(languages.map(row => row.language)).toEqual(
+      expect.arrayContaining(['java', 'python', 'typescript'])
+    );
+    expect(languages.map(row => row.language)).not.toContain('note');
+  });
+
+  it('completes programming languages from catalog examples', () => {
+    const completions = createCompletionHandlers(db);
+    const complete = (name: string, argument: string, value: string, patternId?: string) =>
+      completions.complete({
+        ref: { type: 'ref/prompt', name },
+        argument: { name: argument, value },
+        context: patternId ? { arguments: { patternId } } : undefined,
+      }).completion.values;
+
+    expect(complete('choose_pattern', 'programmingLanguage', 'py')).toEqual(['python']);
+    expect(complete('explain_pattern', 'programmingLanguage', '', 'factory-method')).toEqual([
+      'typescript',
+    ]);
+    expect(complete('review_anti_patterns', 'language', 'ja')).toEqual(['java']);
+  });
+});
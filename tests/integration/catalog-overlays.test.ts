@@ -0,0 +1,243 @@
+/**
+ * Overlay catalogs: pattern directories seeded over the built-in catalog by priority, with
+ * field overrides, provenance in pattern details and source filters for search.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createPatternSeeder } from '../../src/services/pattern-seeder.js';
+import { patternIdsFromSources } from '../../src/services/catalog-sources.js';
+import { KeywordSearchHandler } from '../../src/handlers/keyword-search-handler.js';
+import { formatPatternDetailsText } from '../../src/mcp/pattern-details-formatter.js';
+import { MCPServerConfigBuilder } from '../../src/core/config-builder.js';
+import type { PatternRow } from '../../src/mcp/types.js';
+import type { PatternCatalogSource } from '../../src/models/pattern.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const pattern = (id: string, name: string, description: string, extra = {}) => ({
+  id,
+  name,
+  category: 'Microservices',
+  description,
+  complexity: 'High',
+  tags: ['distributed'],
+  implementations: [{ language: 'typescript', code: `// ${id}`, explanation: name }],
+  ...extra,
+});
+
+describe('overlay catalogs', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let rootDir: string;
+  let overlays: PatternCatalogSource[];
+
+  const writeCatalog = (dir: string, file: string, content: unknown) => {
+    fs.mkdirSync(path.join(rootDir, dir), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, dir, file), JSON.stringify(content));
+  };
+
+  const seed = (withOverlays: PatternCatalogSource[]) =>
+    createPatternSeeder(db, {
+      patternsPath: path.join(rootDir, 'builtin'),
+      overlays: withOverlays,
+    }).seedAll();
+
+  const row = (id: string) =>
+    db.queryOne<PatternRow>(
+      `SELECT id, name, category, description, complexity, tags, source, provenance
+       FROM patterns WHERE id = ?`,
+      [id]
+    );
+
+  const implementationCount = () =>
+    db.queryOne<{ count: number }>('SELECT COUNT(*) as count FROM pattern_implementations')?.count;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('catalog-overlays');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-overlays-'));
+    writeCatalog('builtin', 'patterns.json', {
+      patterns: [
+        pattern('saga', 'Saga', 'Coordinate a distributed transaction with compensations'),
+        pattern('outbox', 'Transactional Outbox', 'Publish events atomically with state'),
+      ],
+    });
+    // Team conventions override the built-in saga; the platform overlay wins where both do
+    writeCatalog('team', 'saga.json', {
+      id: 'saga',
+      description: 'Team saga variant',
+      complexity: 'Medium',
+    });
+    writeCatalog('platform', 'patterns.json', {
+      patterns: [
+        { id: 'saga', description: 'Platform saga with a central ledger', tags: ['ledger'] },
+        pattern('message-envelope', 'Message Envelope', 'Internal messaging convention', {
+          related_patterns: ['outbox'],
+        }),
+      ],
+    });
+    overlays = [
+      { path: path.join(rootDir, 'platform'), namespace: 'platform' },
+      { path: path.join(rootDir, 'team'), namespace: 'team', priority: 50 },
+    ];
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('overrides built-in fields by priority and records their provenance', async () => {
+    const result = await seed(overlays);
+    expect(result.success).toBe(true);
+    expect(result.totalPatterns).toBe(3);
+
+    const saga = row('saga') ?? ({} as PatternRow);
+    expect(saga).toMatchObject({
+      name: 'Saga',
+      description: 'Platform saga with a central ledger',
+      complexity: 'Medium',
+      source: 'builtin',
+    });
+    expect(JSON.parse(saga.tags ?? '[]')).toEqual(['ledger']);
+    expect(JSON.parse(saga.provenance ?? '{}')).toEqual({
+      description: 'platform',
+      complexity: 'team',
+      tags: 'platform',
+    });
+    expect(row('message-envelope')).toMatchObject({ source: 'platform', provenance: null });
+    expect(row('outbox')).toMatchObject({ source: 'builtin', provenance: null });
+
+    expect(formatPatternDetailsText(saga, [])).toContain(
+      '**Source:** builtin; overridden by platform (description, tags), team (complexity)'
+    );
+    expect(formatPatternDetailsText(row('message-envelope') ?? saga, [])).toContain(
+      '**Source:** platform\n'
+    );
+  });
+
+  it('ignores overrides of unknown fields and values of the wrong type', async () => {
+    writeCatalog('team', 'saga.json', {
+      id: 'saga',
+      complexity: 3,
+      tags: 'ledger',
+      owner: 'payments',
+      problem: 'Distributed transactions span services',
+    });
+
+    await seed([overlays[1]]);
+    const saga = row('saga') ?? ({} as PatternRow);
+    expect(saga).toMatchObject({ complexity: 'High', source: 'builtin' });
+    expect(JSON.parse(saga.tags ?? '[]')).toEqual(['distributed']);
+    expect(JSON.parse(saga.provenance ?? '{}')).toEqual({ problem: 'team' });
+  });
+
+  it('keeps the first definition of a duplicated ID by file name and seeds all their relationships', async () => {
+    writeCatalog('builtin', 'saga.json', {
+      ...pattern('saga', 'Saga', 'Saga restated in its own file'),
+      related_patterns: ['outbox'],
+    });
+    // Whatever order the filesystem lists the files in
+    const readdirSync = fs.readdirSync;
+    vi.spyOn(fs, 'readdirSync').mockImplementation(((directory: fs.PathLike) =>
+      readdirSync(directory).reverse()) as typeof fs.readdirSync);
+
+    await seed([]);
+    expect(row('saga')).toMatchObject({
+      description: 'Coordinate a distributed transaction with compensations',
+    });
+    expect(
+      db.query<{ target_pattern_id: string }>(
+        "SELECT target_pattern_id FROM pattern_relationships WHERE source_pattern_id = 'saga'"
+      )
+    ).toEqual([{ target_pattern_id: 'outbox' }]);
+  });
+
+  it('reapplies overlays on every seed and drops overlays that are no longer configured', async () => {
+    await seed(overlays);
+    expect(implementationCount()).toBe(3);
+
+    // Rows touched by overlays are rewritten, untouched built-in rows are skipped
+    const reseeded = await seed(overlays);
+    expect(reseeded.totalPatterns).toBe(2);
+    expect(implementationCount()).toBe(3);
+
+    await seed([]);
+    expect(row('message-envelope')).toBeNull();
+    expect(row('saga')).toMatchObject({
+      description: 'Coordinate a distributed transaction with compensations',
+      complexity: 'High',
+      source: 'builtin',
+      provenance: null,
+    });
+    expect(implementationCount()).toBe(2);
+    expect(
+      db.queryOne<{ count: number }>(
+        "SELECT COUNT(*) as count FROM pattern_relationships WHERE source_pattern_id = 'message-envelope'"
+      )?.count
+    ).toBe(0);
+  });
+
+  it('restricts search to the patterns of the requested sources', async () => {
+    await seed(overlays);
+
+    expect([...patternIdsFromSources(db, ['platform'])].sort()).toEqual([
+      'message-envelope',
+      'saga',
+    ]);
+    expect([...patternIdsFromSources(db, ['team'])]).toEqual(['saga']);
+
+    const keyword = new KeywordSearchHandler(db, { minConfidence: 0 });
+    const all = await keyword.search({ id: 'q1', query: 'distributed saga messaging' });
+    expect(all.map(match => match.pattern.id)).toContain('outbox');
+
+    const platformOnly = await keyword.search({
+      id: 'q2',
+      query: 'distributed saga messaging',
+      sources: ['platform'],
+    });
+    expect(platformOnly.map(match => match.pattern.id).sort()).toEqual([
+      'message-envelope',
+      'saga',
+    ]);
+  });
+
+  it('validates overlay configuration', () => {
+    expect(
+      new MCPServerConfigBuilder()
+        .withOverlayCatalog({ path: './acme', namespace: 'acme' })
+        .withOverlayCatalog({ path: './acme-v2', namespace: 'acme', priority: 10 })
+        .build().overlayCatalogs
+    ).toEqual([{ path: './acme-v2', namespace: 'acme', priority: 10 }]);
+
+    expect(() =>
+      new MCPServerConfigBuilder().withOverlayCatalog({ path: './x', namespace: 'builtin' })
+    ).toThrow(/reserved/);
+    expect(() =>
+      new MCPServerConfigBuilder().withOverlayCatalog({ path: './x', namespace: 'Acme Corp' })
+    ).toThrow(/lowercase slug/);
+
+    const previous = process.env.PATTERN_OVERLAYS;
+    try {
+      process.env.PATTERN_OVERLAYS = JSON.stringify([{ path: './acme', namespace: 'acme' }]);
+      expect(MCPServerConfigBuilder.fromEnvironment().build().overlayCatalogs).toEqual([
+        { path: './acme', namespace: 'acme' },
+      ]);
+      process.env.PATTERN_OVERLAYS = '{"path": "./acme"}';
+      expect(() => MCPServerConfigBuilder.fromEnvironment()).toThrow(/JSON array/);
+    } finally {
+      if (previous === undefined) delete process.env.PATTERN_OVERLAYS;
+      else process.env.PATTERN_OVERLAYS = previous;
+    }
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Relationships of the seeded catalog: IDs defined in several files take their fields from
+ * the first file and their relationships from all of them, so the refactoring links of
+ * analyze_code, the composition rules and find_pattern_path edges are seeded wherever a
+ * file declares them.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createPatternSeeder } from '../../src/services/pattern-seeder.js';
+import { lookupRefactorings } from '../../src/mcp/code-analysis.js';
+import { analyzePatternComposition } from '../../src/mcp/pattern-composition.js';
+import { createHttpToolHandlers } from '../../src/mcp/http-tool-handlers.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { SearchMediator } from '../../src/handlers/search-mediator.js';
+import { MCPRateLimiter } from '../../src/utils/rate-limiter.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const DETECTED_ANTI_PATTERNS = [
+  'god-object',
+  'spaghetti-code',
+  'lava-flow',
+  'copy-paste-programming',
+  'feature-envy',
+  'programming-by-exception',
+  'big-ball-of-mud',
+  'blob-object',
+  'microservices-sprawl',
+  'shotgun-surgery',
+  'vendor-lock-in',
+];
+
+describe('seeded catalog relationships', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+
+  beforeAll(async () => {
+    tempDbPath = createTempDatabasePath('catalog-relationships');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    const result = await createPatternSeeder(db, {
+      patternsPath: path.resolve(__dirname, '../../data/patterns'),
+      batchSize: 100,
+      skipExisting: false,
+    }).seedAll();
+    if (!result.success) {
+      throw new Error(`Failed to seed patterns: ${result.message}`);
+    }
+  }, 120000);
+
+  afterAll(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  const outgoing = (id: string) =>
+    db.query<{ target_pattern_id: string }>(
+      'SELECT target_pattern_id FROM pattern_relationships WHERE source_pattern_id = ?',
+      [id]
+    );
+
+  it('seeds the relationships of every definition of a duplicated ID', () => {
+    // adapter.json and gof-patterns.json both define adapter; load-balancing is defined in
+    // three files and only mlops-scalability-patterns.json lists related patterns
+    expect(outgoing('adapter').map(row => row.target_pattern_id)).toEqual(
+      expect.arrayContaining(['decorator', 'facade', 'proxy'])
+    );
+    expect(outgoing('load-balancing').map(row => row.target_pattern_id)).toEqual(
+      expect.arrayContaining(['auto-scaling', 'circuit-breaker', 'health-check'])
+    );
+  });
+
+  it('links every detected anti-pattern to refactoring targets', () => {
+    const refactorings = lookupRefactorings(db, DETECTED_ANTI_PATTERNS);
+
+    expect(DETECTED_ANTI_PATTERNS.filter(id => !refactorings.has(id))).toEqual([]);
+    expect(refactorings.get('god-object')?.map(ref => ref.id)).toEqual(
+      expect.arrayContaining(['facade', 'mediator', 'strategy'])
+    );
+  });
+
+  it('derives composition rules from the GoF relationships', async () => {
+    expect(outgoing('singleton').length).toBeGreaterThan(0);
+    expect(outgoing('strategy').length).toBeGreaterThan(0);
+    expect(outgoing('observer').map(row => row.target_pattern_id)).toEqual(
+      expect.arrayContaining(['mediator', 'command'])
+    );
+
+    const conflicting = await analyzePatternComposition(db, ['singleton', 'prototype']);
+    expect(conflicting.composition.violations.map(v => v.rule.patterns)).toContainEqual([
+      'singleton',
+      'prototype',
+    ]);
+
+    // The example of the tool description, from factory-method.json and abstract-factory.json
+    const factories = await analyzePatternComposition(db, ['abstract-factory', 'factory-method']);
+    expect(factories.composition.synergies).not.toEqual([]);
+    expect(factories.composition.compatibility).not.toEqual([]);
+
+    const complementary = await analyzePatternComposition(db, ['observer', 'mediator']);
+    expect(complementary.composition.synergies).toContainEqual(
+      expect.objectContaining({
+        patterns: expect.arrayContaining(['observer', 'mediator']) as unknown,
+      })
+    );
+  });
+
+  it('finds a path between related patterns through find_pattern_path', async () => {
+    const vectorOps = new VectorOperationsService(db, {
+      model: 'all-MiniLM-L6-v2',
+      dimensions: 384,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+    const mediator = new SearchMediator(db, vectorOps, undefined, { useSemanticSearch: false });
+    const tools = createHttpToolHandlers(db, mediator, new MCPRateLimiter());
+
+    const result = await tools.handleFindPatternPath({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+    });
+    expect(result.content[0].text).not.toContain('No path found');
+    expect(result.structuredContent.shortest).toMatchObject({
+      patternIds: ['adapter', 'facade'],
+      hops: [{ kind: 'relationship', from: 'adapter', to: 'facade', direction: 'forward' }],
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Per-model embedding storage: two registry models keep their embeddings side by side,
+ * search reads only the configured model and the comparator runs A/B queries over both.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { EmbeddingModelComparator } from '../../src/services/embedding-model-comparison.js';
+import { EmbeddingModelRegistry } from '../../src/factories/embedding-model-registry.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['observer', 'Observer', 'Notify dependents when an object changes state'],
+  ['strategy', 'Strategy', 'Swap interchangeable algorithms at runtime'],
+  ['facade', 'Facade', 'Provide a simple interface to a complex subsystem'],
+  ['adapter', 'Adapter', 'Convert one interface into another that clients expect'],
+];
+
+describe('embeddings per model', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let registry: EmbeddingModelRegistry;
+
+  const vectorOpsFor = (name: string) => {
+    const spec = registry.get(name);
+    return new VectorOperationsService(db, {
+      model: spec.name,
+      dimensions: spec.dimensions,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+  };
+
+  const generate = async (name: string) => {
+    const strategy = registry.createStrategy(name);
+    await vectorOpsFor(name).rebuildEmbeddings(
+      async text => (await strategy.generateEmbedding(text)).values
+    );
+  };
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('embedding-models');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, description] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags)
+         VALUES (?, ?, 'Behavioral', ?, 'Low', '[]')`,
+        [id, name, description]
+      );
+    }
+
+    registry = new EmbeddingModelRegistry({
+      models: [
+        { name: 'hash-small', provider: 'simple-hash', dimensions: 16 },
+        { name: 'hash-large', provider: 'simple-hash', dimensions: 96 },
+      ],
+      activeModel: 'hash-large',
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('stores, searches and rebuilds embeddings of one model without touching another', async () => {
+    await generate('hash-small');
+    await generate('hash-large');
+
+    const small = vectorOpsFor('hash-small');
+    const large = vectorOpsFor('hash-large');
+    expect(small.getStats().totalVectors).toBe(PATTERNS.length);
+    expect(large.getStats().totalVectors).toBe(PATTERNS.length);
+    expect(small.getEmbedding('observer')).toHaveLength(16);
+    expect(large.getEmbedding('observer')).toHaveLength(96);
+
+    const query = await registry.createStrategy('hash-large').generateEmbedding('Observer');
+    const results = large.searchSimilar(query.values, { minScore: -1 }, 2);
+    expect(results).toHaveLength(2);
+
+    small.clearAll();
+    expect(small.getStats().totalVectors).toBe(0);
+    expect(large.getStats().totalVectors).toBe(PATTERNS.length);
+    large.deleteEmbedding('facade');
+    expect(large.getEmbedding('facade')).toBeNull();
+  });
+
+  it('compares the top results of two models for the same query', async () => {
+    await generate('hash-small');
+    await generate('hash-large');
+    const comparator = new EmbeddingModelComparator(db, registry);
+
+    expect(
+      comparator.listModels().map(model => [model.name, model.active, model.storedEmbeddings])
+    ).toEqual([
+      ['all-MiniLM-L6-v2', false, 0],
+      ['simplified-hash', false, 0],
+      ['hash-small', false, PATTERNS.length],
+      ['hash-large', true, PATTERNS.length],
+    ]);
+
+    const comparison = await comparator.compare(
+      'notify dependents of state changes',
+      ['hash-small', 'hash-large'],
+      PATTERNS.length
+    );
+    expect(comparison.runs.map(run => run.model)).toEqual(['hash-small', 'hash-large']);
+    expect(comparison.runs.every(run => run.results.length === PATTERNS.length)).toBe(true);
+    // Every pattern is returned when the limit covers the catalog, so the top sets agree
+    expect(comparison.overlap).toBe(1);
+    expect(comparison.shared.sort()).toEqual(PATTERNS.map(([id]) => id).sort());
+
+    await expect(comparator.compare('query', ['hash-small'])).rejects.toThrow(/at least two/);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Persisted kNN graph: setup-relationships writes pattern_graph_edges, the service loads it
+ * instead of rebuilding and only recomputes neighbourhoods of changed embeddings.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { GraphVectorService } from '../../src/services/graph-vector-service.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const EMBEDDINGS: Record<string, number[]> = {
+  'a-one': [1, 0.1, 0],
+  'a-two': [1, 0.2, 0],
+  'a-three': [1, 0, 0.1],
+  'b-one': [0, 1, 0.1],
+  'b-two': [0.1, 1, 0],
+  'b-three': [0, 1, 0.2],
+};
+
+describe('GraphVectorService persistence', () => {
+  let db: DatabaseManager;
+  let vectorOps: VectorOperationsService;
+  let tempDbPath: string;
+
+  const createService = () =>
+    new GraphVectorService(vectorOps, db, { k: 1, edgeWeightThreshold: 0.1 });
+
+  const storeEmbedding = (patternId: string, embedding: number[], version: string) => {
+    db.execute(
+      `INSERT OR REPLACE INTO pattern_embeddings
+         (pattern_id, embedding, model, strategy, dimensions, created_at)
+       VALUES (?, ?, 'custom', 'semantic', 3, ?)`,
+      [patternId, JSON.stringify(embedding), version]
+    );
+  };
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('graph-persistence');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, embedding] of Object.entries(EMBEDDINGS)) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags)
+         VALUES (?, ?, ?, 'Test pattern', 'Low', '[]')`,
+        [id, id, id.startsWith('a-') ? 'Alpha' : 'Beta']
+      );
+      storeEmbedding(id, embedding, '2026-01-01T00:00:00.000Z');
+    }
+
+    vectorOps = new VectorOperationsService(db, {
+      model: 'custom',
+      dimensions: 3,
+      similarityThreshold: 0.1,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('persists vector and metadata edges and loads them without recomputing', async () => {
+    const builder = createService();
+    const built = await builder.buildKNNGraph({ fromScratch: true });
+    const saved = builder.saveGraph();
+
+    const rows = db.query<{ type: string; count: number }>(
+      'SELECT type, COUNT(*) as count FROM pattern_graph_edges GROUP BY type ORDER BY type'
+    );
+    expect(rows.map(row => row.type)).toEqual(['metadata', 'vector']);
+    expect(rows.reduce((sum, row) => sum + row.count, 0)).toBe(saved);
+
+    const searchSpy = vi.spyOn(vectorOps, 'searchSimilar');
+    const loaded = await createService().buildKNNGraph();
+
+    expect(searchSpy).not.toHaveBeenCalled();
+    expect(loaded.size).toBe(built.size);
+    const neighbours = (graph: typeof built) =>
+      graph.get('a-one')?.neighbors.map(n => `${n.type}:${n.id}:${n.weight.toFixed(3)}`).sort();
+    expect(neighbours(loaded)).toEqual(neighbours(built));
+  });
+
+  it('rebuilds only neighbourhoods around changed or removed embeddings', async () => {
+    const builder = createService();
+    await builder.buildKNNGraph({ fromScratch: true });
+    builder.saveGraph();
+
+    storeEmbedding('b-three', [0.1, 1, 0.3], '2026-02-01T00:00:00.000Z');
+    db.execute("DELETE FROM pattern_embeddings WHERE pattern_id = 'a-one'");
+
+    const searchSpy = vi.spyOn(vectorOps, 'searchSimilar');
+    const graph = await createService().buildKNNGraph();
+
+    const rebuilt = new Set(
+      searchSpy.mock.calls.map(([, filters]) => filters?.excludePatterns?.[0])
+    );
+    expect(rebuilt.has('b-three')).toBe(true);
+    expect(rebuilt.size).toBeLessThan(Object.keys(EMBEDDINGS).length - 1);
+    expect(graph.has('a-one')).toBe(false);
+    expect(
+      db.queryOne<{ embedding_version: string }>(
+        "SELECT embedding_version FROM pattern_graph_nodes WHERE pattern_id = 'b-three'"
+      )?.embedding_version
+    ).toBe('2026-02-01T00:00:00.000Z');
+    expect(
+      db.queryOne<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pattern_graph_edges
+         WHERE source_pattern_id = 'a-one' OR target_pattern_id = 'a-one'`
+      )?.count
+    ).toBe(0);
+
+    // The update was persisted, so the next start has nothing to rebuild
+    searchSpy.mockClear();
+    await createService().buildKNNGraph();
+    expect(searchSpy).not.toHaveBeenCalled();
+  });
+});
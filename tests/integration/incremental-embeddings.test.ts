@@ -0,0 +1,110 @@
+/**
+ * Incremental embedding regeneration: content hashes stored next to each vector decide which
+ * patterns are re-embedded, and embeddings of removed patterns are reported as orphaned.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { SimpleHashEmbeddingStrategy } from '../../src/strategies/embedding-strategy.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['observer', 'Observer', 'Notify dependents when an object changes state'],
+  ['strategy', 'Strategy', 'Swap interchangeable algorithms at runtime'],
+  ['facade', 'Facade', 'Provide a simple interface to a complex subsystem'],
+];
+
+describe('incremental embedding regeneration', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let embedded: string[];
+
+  const vectorOpsFor = (model: string, dimensions: number = 32) =>
+    new VectorOperationsService(db, {
+      model,
+      dimensions,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+
+  const generate = (dimensions: number = 32) => {
+    const strategy = new SimpleHashEmbeddingStrategy(dimensions, 'hash');
+    return async (text: string) => {
+      embedded.push(text);
+      return (await strategy.generateEmbedding(text)).values;
+    };
+  };
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('incremental-embeddings');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, description] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags)
+         VALUES (?, ?, 'Behavioral', ?, 'Low', '[]')`,
+        [id, name, description]
+      );
+    }
+    embedded = [];
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('re-embeds only changed patterns and removes orphaned embeddings', async () => {
+    const vectorOps = vectorOpsFor('hash');
+    const first = await vectorOps.updateEmbeddings(generate());
+    expect(first.created.sort()).toEqual(['facade', 'observer', 'strategy']);
+    expect(embedded).toHaveLength(3);
+
+    embedded = [];
+    const unchanged = await vectorOps.updateEmbeddings(generate());
+    expect(unchanged).toMatchObject({ created: [], updated: [], orphaned: [] });
+    expect(unchanged.skipped).toHaveLength(3);
+    expect(embedded).toEqual([]);
+
+    db.execute('UPDATE patterns SET description = ? WHERE id = ?', [
+      'Publish state changes to subscribers',
+      'observer',
+    ]);
+    db.execute('DELETE FROM patterns WHERE id = ?', ['facade']);
+
+    const changed = await vectorOps.updateEmbeddings(generate());
+    expect(changed).toMatchObject({
+      model: 'hash',
+      skipped: ['strategy'],
+      created: [],
+      updated: ['observer'],
+      orphaned: ['facade'],
+    });
+    expect(embedded).toEqual(['Observer Publish state changes to subscribers']);
+    expect(vectorOps.getEmbedding('facade')).toBeNull();
+    expect(vectorOps.getStats().totalVectors).toBe(2);
+  });
+
+  it('reports stale embeddings in check mode without writing', async () => {
+    await vectorOpsFor('hash').rebuildEmbeddings(generate());
+    expect(vectorOpsFor('hash').checkEmbeddings().skipped).toHaveLength(3);
+
+    // The same model name with other dimensions no longer matches the stored hashes
+    const resized = vectorOpsFor('hash', 48).checkEmbeddings();
+    expect(resized.updated).toHaveLength(3);
+
+    db.execute('DELETE FROM patterns WHERE id = ?', ['strategy']);
+    const report = vectorOpsFor('hash').checkEmbeddings();
+    expect(report.orphaned).toEqual(['strategy']);
+    expect(vectorOpsFor('hash').getEmbedding('strategy')).not.toBeNull();
+
+    // Another model has no embeddings yet, so every pattern is missing
+    expect(vectorOpsFor('other').checkEmbeddings().created.sort()).toEqual(['facade', 'observer']);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Markdown catalog import: documents next to the JSON pattern files are seeded with their
+ * implementations, and re-importing a document replaces rather than duplicates them.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createPatternSeeder } from '../../src/services/pattern-seeder.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+import { EVENT_AGGREGATOR_MARKDOWN } from '../helpers/markdown-pattern-fixture.js';
+
+describe('Markdown catalog import', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let patternsDir: string;
+
+  const implementationCount = () =>
+    db.queryOne<{ count: number }>(
+      "SELECT COUNT(*) as count FROM pattern_implementations WHERE pattern_id = 'event-aggregator'"
+    )?.count;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('markdown-import');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    patternsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-patterns-'));
+    fs.writeFileSync(path.join(patternsDir, 'event-aggregator.md'), EVENT_AGGREGATOR_MARKDOWN);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+    fs.rmSync(patternsDir, { recursive: true, force: true });
+  });
+
+  it('seeds Markdown documents found in the patterns directory', async () => {
+    const result = await createPatternSeeder(db, { patternsPath: patternsDir }).seedAll();
+    expect(result.success).toBe(true);
+
+    const row = db.queryOne<{ name: string; category: string; tags: string }>(
+      "SELECT name, category, tags FROM patterns WHERE id = 'event-aggregator'"
+    );
+    expect(row).toMatchObject({ name: 'Event Aggregator', category: 'Behavioral' });
+    expect(JSON.parse(row?.tags ?? '[]')).toEqual(['events', 'messaging', 'decoupling']);
+    expect(
+      db
+        .query<{ language: string }>(
+          "SELECT language FROM pattern_implementations WHERE pattern_id = 'event-aggregator' " +
+            'ORDER BY language'
+        )
+        .map(impl => impl.language)
+    ).toEqual(['python', 'typescript']);
+  });
+
+  it('replaces implementations when a document is imported again', async () => {
+    const file = path.join(patternsDir, 'event-aggregator.md');
+    const replacing = createPatternSeeder(db, { patternsPath: patternsDir, skipExisting: false });
+
+    await replacing.seedFromFile(file);
+    await replacing.seedFromFile(file);
+    expect(implementationCount()).toBe(2);
+
+    const skipping = createPatternSeeder(db, { patternsPath: patternsDir });
+    const skipped = await skipping.seedFromFile(file);
+    expect(skipped.patternsInserted).toBe(0);
+    expect(implementationCount()).toBe(2);
+  });
+});
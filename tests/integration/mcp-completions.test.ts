@@ -0,0 +1,143 @@
+/**
+ * completion/complete: pattern IDs, categories and languages for prompt arguments and
+ * resource template variables, ranked by prefix, alias and fuzzy name similarity.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { CompleteRequest } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createCompletionHandlers } from '../../src/mcp/completions.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['factory-method', 'Factory Method', 'Creational'],
+  ['abstract-factory', 'Abstract Factory', 'Creational'],
+  ['observer', 'Observer', 'Behavioral'],
+  ['strategy', 'Strategy', 'Behavioral'],
+  ['circuit-breaker', 'Circuit Breaker', 'Cloud-Native'],
+  ['fluent-interface', 'Fluent Interface', 'Behavioral'],
+];
+
+describe('MCP completions', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let completions: ReturnType<typeof createCompletionHandlers>;
+
+  const complete = (
+    ref: CompleteRequest['params']['ref'],
+    name: string,
+    value: string,
+    context?: Record<string, string>
+  ) =>
+    completions.complete({
+      ref,
+      argument: { name, value },
+      context: context ? { arguments: context } : undefined,
+    }).completion;
+  const prompt = (promptName: string) => ({ type: 'ref/prompt' as const, name: promptName });
+  const template = (uri: string) => ({ type: 'ref/resource' as const, uri });
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('mcp-completions');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity)
+         VALUES (?, ?, ?, ?, 'Medium')`,
+        [id, name, category, `${name} pattern description`]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_aliases (alias_key, alias, pattern_id)
+       VALUES ('publish-subscribe', 'Publish-Subscribe', 'observer'),
+              ('policy', 'Policy', 'strategy')`
+    );
+    db.execute(
+      `INSERT INTO pattern_implementations (id, pattern_id, language, approach, code, explanation)
+       VALUES ('impl-1', 'observer', 'TypeScript', 'classic', 'class Subject {}', 'Subject'),
+              ('impl-2', 'observer', 'python', 'classic', 'class Subject: ...', 'Subject'),
+              ('impl-3', 'strategy', 'Java', 'classic', 'interface Strategy {}', 'Strategy')`
+    );
+
+    completions = createCompletionHandlers(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('completes pattern IDs by prefix, name, alias and similarity', () => {
+    const explain = prompt('explain_pattern');
+    expect(complete(explain, 'patternId', 'factory')).toEqual({
+      values: ['factory-method', 'abstract-factory'],
+      total: 2,
+      hasMore: false,
+    });
+    expect(complete(explain, 'patternId', 'Circuit B').values).toEqual(['circuit-breaker']);
+    expect(complete(explain, 'patternId', 'publish').values).toEqual(['observer']);
+    expect(complete(explain, 'patternId', 'obsrver').values).toEqual(['observer']);
+    expect(complete(explain, 'patternId', 'stratgey').values).toEqual(['strategy']);
+    expect(complete(explain, 'patternId', 'zz').values).toEqual([]);
+    expect(complete(explain, 'patternId', '').total).toBe(6);
+    // Substring and fuzzy matches only fill in when nothing matches by prefix or alias
+    expect(complete(explain, 'patternId', 'fa').values).toEqual([
+      'factory-method',
+      'abstract-factory',
+    ]);
+    expect(complete(explain, 'patternId', 'face').values).toEqual([
+      'fluent-interface',
+      'factory-method',
+    ]);
+
+    expect(complete(prompt('compare_patterns'), 'secondPatternId', 'obs').values).toEqual([
+      'observer',
+    ]);
+    expect(complete(template('pattern/{id}/relationships'), 'id', 'pol').values).toEqual([
+      'strategy',
+    ]);
+  });
+
+  it('completes categories and implementation languages', () => {
+    expect(complete(template('category/{name}'), 'name', 'c').values).toEqual([
+      'Creational',
+      'Cloud-Native',
+    ]);
+    expect(complete(template('category/{name}'), 'name', 'behavoral').values).toEqual([
+      'Behavioral',
+    ]);
+
+    expect(complete(prompt('choose_pattern'), 'programmingLanguage', '').values).toEqual([
+      'java',
+      'python',
+      'typescript',
+    ]);
+    expect(
+      complete(template('pattern/{id}/implementations/{language}'), 'language', '', {
+        id: 'publish-subscribe',
+      }).values
+    ).toEqual(['python', 'typescript']);
+    expect(
+      complete(prompt('explain_pattern'), 'programmingLanguage', 'ty', { patternId: 'observer' })
+        .values
+    ).toEqual(['typescript']);
+  });
+
+  it('leaves free-text arguments alone and rejects unknown references', () => {
+    expect(complete(prompt('choose_pattern'), 'problem', 'fact')).toEqual({
+      values: [],
+      total: 0,
+      hasMore: false,
+    });
+    expect(complete(template('pattern/{id}'), 'language', 'py').values).toEqual([]);
+    expect(() => complete(prompt('missing'), 'patternId', 'x')).toThrow(/Unknown prompt/);
+    expect(() => complete(template('pattern/{name}'), 'name', 'x')).toThrow(
+      /Unknown resource template/
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Design-review prompts: prompts/list advertises the templates and prompts/get fills them
+ * from the catalog (pattern fields, implementations, relationships, detector findings).
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { SearchMediator } from '../../src/handlers/search-mediator.js';
+import { createPromptHandlers } from '../../src/mcp/prompts.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['strategy', 'Strategy', 'Behavioral', 'Swap interchangeable algorithms at runtime'],
+  ['state', 'State', 'Behavioral', 'Change behavior when internal state changes'],
+  ['factory-method', 'Factory Method', 'Creational', 'Let subclasses decide what to create'],
+  ['lava-flow', 'Lava Flow', 'Anti-Pattern', 'Dead code kept around because nobody dares'],
+];
+
+describe('MCP prompts', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let prompts: ReturnType<typeof createPromptHandlers>;
+
+  const textOf = (result: { messages: Array<{ content: { type: string; text?: string } }> }) =>
+    result.messages[0]?.content.text ?? '';
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('mcp-prompts');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category, description] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags, when_to_use,
+                               drawbacks)
+         VALUES (?, ?, ?, ?, 'Medium', '[]', ?, ?)`,
+        [
+          id,
+          name,
+          category,
+          description,
+          JSON.stringify([`Use ${name} for algorithms`]),
+          JSON.stringify([`${name} adds classes`]),
+        ]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_implementations (id, pattern_id, language, approach, code, explanation)
+       VALUES ('impl-1', 'strategy', 'python', 'classic', 'class Strategy: ...', 'Python version'),
+              ('impl-2', 'strategy', 'typescript', 'classic', 'interface Strategy {}', 'TS version')`
+    );
+    db.execute(
+      `INSERT INTO pattern_relationships (id, source_pattern_id, target_pattern_id, type,
+                                          strength, description)
+       VALUES ('rel-1', 'state', 'strategy', 'similar', 0.8, 'Same structure, different intent'),
+              ('rel-2', 'strategy', 'factory-method', 'complements', 0.6, 'Creates strategies'),
+              ('rel-3', 'state', 'factory-method', 'complements', 0.5, 'Creates states')`
+    );
+
+    const vectorOps = new VectorOperationsService(db, {
+      model: 'all-MiniLM-L6-v2',
+      dimensions: 384,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+    const mediator = new SearchMediator(db, vectorOps, undefined, {
+      useSemanticSearch: false,
+      useFuzzyRefinement: false,
+    });
+    prompts = createPromptHandlers(db, mediator);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('lists the design-review prompts with their arguments', () => {
+    const { prompts: listed } = prompts.listPrompts();
+    expect(listed.map(prompt => prompt.name)).toEqual([
+      'choose_pattern',
+      'review_anti_patterns',
+      'explain_pattern',
+      'compare_patterns',
+    ]);
+    expect(listed.find(prompt => prompt.name === 'compare_patterns')?.arguments).toEqual([
+      expect.objectContaining({ name: 'firstPatternId', required: true }),
+      expect.objectContaining({ name: 'secondPatternId', required: true }),
+    ]);
+  });
+
+  it('explains a pattern from its catalog entry, implementation and relationships', async () => {
+    const result = await prompts.getPrompt('explain_pattern', {
+      patternId: 'strategy',
+      programmingLanguage: 'typescript',
+    });
+    const text = textOf(result);
+
+    expect(result.description).toBe('Explain Strategy to a beginner');
+    expect(text).toContain('## Catalog entry: Strategy [ID: strategy] (Behavioral)');
+    expect(text).toContain('- Drawbacks: Strategy adds classes');
+    expect(text).toContain('## Example implementation (typescript)');
+    expect(text).toContain('interface Strategy {}');
+    expect(text).toContain(
+      '- complements: Factory Method [ID: factory-method] — Creates strategies'
+    );
+    expect(text).toContain('- (incoming) similar: State [ID: state]');
+
+    await expect(prompts.getPrompt('explain_pattern', { patternId: 'missing' })).rejects.toThrow(
+      /Pattern not found: missing/
+    );
+  });
+
+  it('compares two patterns with their catalog relationship', async () => {
+    const text = textOf(
+      await prompts.getPrompt('compare_patterns', {
+        firstPatternId: 'strategy',
+        secondPatternId: 'state',
+      })
+    );
+
+    expect(text).toContain('## Strategy [ID: strategy] (Behavioral)');
+    expect(text).toContain('## State [ID: state] (Behavioral)');
+    expect(text).toContain('- State —similar→ Strategy: Same structure, different intent');
+    expect(text).toContain('- Both relate to: Factory Method [ID: factory-method]');
+
+    await expect(
+      prompts.getPrompt('compare_patterns', { firstPatternId: 'state', secondPatternId: 'state' })
+    ).rejects.toThrow(/must differ/);
+
+    // Pattern arguments resolve names and close misspellings like the tools do
+    const byName = textOf(
+      await prompts.getPrompt('compare_patterns', {
+        firstPatternId: 'Factory Method',
+        secondPatternId: 'stratgey',
+      })
+    );
+    expect(byName).toContain('## Factory Method [ID: factory-method] (Creational)');
+    expect(byName).toContain('## Strategy [ID: strategy] (Behavioral)');
+    await expect(
+      prompts.getPrompt('compare_patterns', { firstPatternId: 'state', secondPatternId: 'Stat' })
+    ).rejects.toThrow(/must differ/);
+  });
+
+  it('fills pattern candidates and detector findings', async () => {
+    const choose = textOf(
+      await prompts.getPrompt('choose_pattern', { problem: 'swap algorithms at runtime' })
+    );
+    expect(choose).toContain('swap algorithms at runtime');
+    expect(choose).toMatch(/### 1\. Strategy \[ID: strategy\]/);
+
+    const code = [
+      'export function total(items: number[]) {',
+      ...Array.from({ length: 6 }, (_, i) => `  // const legacy${i} = items[${i}];`),
+      '  return items.reduce((sum, item) => sum + item, 0);',
+      '}',
+    ].join('\n');
+    const review = textOf(
+      await prompts.getPrompt('review_anti_patterns', { code, language: 'typescript' })
+    );
+    expect(review).toContain('```typescript\nexport function total');
+    expect(review).toContain('- **Lava Flow** (low): 6 lines of commented-out code');
+    expect(review).toContain('Catalog [ID: lava-flow]: Dead code kept around because nobody dares');
+  });
+
+  it('rejects unknown prompts and missing arguments', async () => {
+    await expect(prompts.getPrompt('summarize', {})).rejects.toThrow(McpError);
+    await expect(prompts.getPrompt('choose_pattern', {})).rejects.toThrow(/problem is required/);
+    await expect(
+      prompts.getPrompt('compare_patterns', { firstPatternId: 'state' })
+    ).rejects.toThrow(/secondPatternId is required/);
+  });
+});
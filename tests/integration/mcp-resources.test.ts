@@ -0,0 +1,294 @@
+/**
+ * MCP resources: resource templates, cursor pagination of the catalog listing, and
+ * notifications/resources/updated for subscribed URIs when update_pattern, relationship
+ * writes or a catalog reload change the catalog.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createResourceHandlers, parseResourceUri } from '../../src/mcp/resources.js';
+import { createPatternToolHandlers } from '../../src/mcp/pattern-tools.js';
+import { createRelationshipToolHandlers } from '../../src/mcp/relationship-tools.js';
+import { catalogEventBus } from '../../src/events/catalog-events.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['adapter', 'Adapter', 'Structural'],
+  ['facade', 'Facade', 'Structural'],
+  ['observer', 'Observer', 'Behavioral'],
+  ['strategy', 'Strategy', 'Behavioral'],
+  ['singleton', 'Singleton', 'Creational'],
+];
+
+describe('MCP resources', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let resources: ReturnType<typeof createResourceHandlers>;
+  let notified: string[];
+
+  const readJson = async (uri: string) => {
+    const { contents } = await resources.readResource(uri);
+    expect(contents[0]).toMatchObject({ uri, mimeType: 'application/json' });
+    return JSON.parse('text' in contents[0] ? contents[0].text : '') as unknown;
+  };
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('mcp-resources');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags, drawbacks)
+         VALUES (?, ?, ?, ?, 'Medium', '["gof"]', '["More classes"]')`,
+        [id, name, category, `${name} pattern description`]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_implementations (id, pattern_id, language, approach, code, explanation)
+       VALUES ('impl-1', 'observer', 'TypeScript', 'classic', 'class Subject {}', 'Subject'),
+              ('impl-2', 'observer', 'python', 'classic', 'class Subject: ...', 'Subject')`
+    );
+    db.execute(
+      `INSERT INTO pattern_relationships (id, source_pattern_id, target_pattern_id, type,
+                                          strength, description)
+       VALUES ('rel-1', 'strategy', 'observer', 'complements', 0.4, 'Observers pick strategies')`
+    );
+
+    notified = [];
+    resources = createResourceHandlers(db, {
+      config: {
+        databasePath: tempDbPath,
+        enableLLM: false,
+        logLevel: 'error',
+        maxConcurrentRequests: 10,
+      },
+      notify: uri => {
+        notified.push(uri);
+        return Promise.resolve();
+      },
+      pageSize: 2,
+    });
+  });
+
+  afterEach(async () => {
+    resources.dispose();
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('parses template URIs', () => {
+    expect(parseResourceUri('pattern/observer')).toEqual({
+      kind: 'pattern',
+      patternId: 'observer',
+    });
+    expect(parseResourceUri('category/AI%2FML')).toEqual({ kind: 'category', category: 'AI/ML' });
+    expect(parseResourceUri('pattern/observer/implementations/python')).toEqual({
+      kind: 'implementations',
+      patternId: 'observer',
+      language: 'python',
+    });
+    expect(parseResourceUri('pattern/observer/relationships')).toEqual({
+      kind: 'relationships',
+      patternId: 'observer',
+    });
+    expect(parseResourceUri('pattern/observer/unknown')).toBeNull();
+    expect(parseResourceUri('pattern/')).toBeNull();
+  });
+
+  it('lists templates and pages through the catalog with cursors', () => {
+    expect(resources.listResourceTemplates().resourceTemplates.map(t => t.uriTemplate)).toEqual([
+      'pattern/{id}',
+      'category/{name}',
+      'pattern/{id}/implementations/{language}',
+      'pattern/{id}/relationships',
+    ]);
+
+    const uris: string[] = [];
+    let page = resources.listResources();
+    expect(page.resources.slice(0, 4).map(resource => resource.uri)).toEqual([
+      'patterns',
+      'categories',
+      'languages',
+      'server_info',
+    ]);
+    uris.push(...page.resources.slice(4).map(resource => resource.uri));
+    while (page.nextCursor) {
+      page = resources.listResources(page.nextCursor);
+      uris.push(...page.resources.map(resource => resource.uri));
+    }
+    expect(uris).toEqual([
+      'pattern/adapter',
+      'pattern/facade',
+      'pattern/observer',
+      'pattern/singleton',
+      'pattern/strategy',
+    ]);
+
+    expect(() => resources.listResources('not a cursor!')).toThrow(/Invalid cursor/);
+  });
+
+  it('reads patterns, categories, implementations and relationships', async () => {
+    db.execute(
+      `INSERT INTO pattern_aliases (alias_key, alias, pattern_id)
+       VALUES ('publish-subscribe', 'Publish-Subscribe', 'observer')`
+    );
+    expect(await readJson('pattern/observer')).toMatchObject({
+      id: 'observer',
+      tags: ['gof'],
+      drawbacks: ['More classes'],
+      aliases: ['Publish-Subscribe'],
+      implementations: [
+        { language: 'python', count: 1, uri: 'pattern/observer/implementations/python' },
+        { language: 'typescript', count: 1, uri: 'pattern/observer/implementations/typescript' },
+      ],
+      relationships: 'pattern/observer/relationships',
+    });
+    expect(await readJson('category/behavioral')).toMatchObject({
+      category: 'Behavioral',
+      count: 2,
+      patterns: [{ id: 'observer' }, { id: 'strategy' }],
+    });
+    expect(await readJson('pattern/observer/implementations/typescript')).toEqual([
+      expect.objectContaining({ id: 'impl-1', code: 'class Subject {}', dependencies: [] }),
+    ]);
+    expect(await readJson('pattern/observer/relationships')).toEqual([
+      {
+        id: 'rel-1',
+        direction: 'incoming',
+        type: 'complements',
+        strength: 0.4,
+        description: 'Observers pick strategies',
+        pattern: { id: 'strategy', name: 'Strategy', category: 'Behavioral' },
+      },
+    ]);
+
+    expect(await readJson('pattern/publish-subscribe')).toMatchObject({ id: 'observer' });
+    await expect(resources.readResource('pattern/missing')).rejects.toThrow(
+      /Pattern not found: missing/
+    );
+    await expect(resources.readResource('category/Quantum')).rejects.toThrow(/Category not found/);
+    await expect(resources.readResource('pattern/observer/implementations/cobol')).rejects.toThrow(
+      /No cobol implementations of observer/
+    );
+    await expect(resources.readResource('unknown')).rejects.toThrow(/Unknown resource/);
+  });
+
+  it('serves catalog code examples where a pattern has no stored implementations', async () => {
+    db.execute('UPDATE patterns SET examples = ? WHERE id = ?', [
+      JSON.stringify({
+        typescript: { language: 'typescript', code: 'class Registry {}' },
+        python: { code: 'class Registry: ...', description: 'Module-level instance' },
+        note: { language: 'note', code: 'See also the Monostate pattern' },
+      }),
+      'singleton',
+    ]);
+
+    expect(await readJson('pattern/singleton')).toMatchObject({
+      implementations: [
+        { language: 'python', count: 1, uri: 'pattern/singleton/implementations/python' },
+        { language: 'typescript', count: 1, uri: 'pattern/singleton/implementations/typescript' },
+      ],
+    });
+    expect(await readJson('pattern/singleton/implementations/Python')).toEqual([
+      {
+        language: 'python',
+        approach: 'example',
+        code: 'class Registry: ...',
+        explanation: 'Module-level instance',
+        dependencies: [],
+      },
+    ]);
+    await expect(resources.readResource('pattern/singleton/implementations/note')).rejects.toThrow(
+      /No note implementations of singleton/
+    );
+    expect(await readJson('languages')).toEqual([
+      { language: 'python', count: 2 },
+      { language: 'typescript', count: 2 },
+    ]);
+  });
+
+  it('notifies subscribers when update_pattern changes a pattern', () => {
+    for (const uri of [
+      'pattern/observer',
+      'pattern/observer/implementations/python',
+      'pattern/observer/relationships',
+      'category/Behavioral',
+      'category/Creational',
+      'pattern/strategy',
+    ]) {
+      resources.subscribe(uri);
+    }
+    expect(() => resources.subscribe('nowhere/observer')).toThrow(/Unknown resource/);
+
+    const tools = createPatternToolHandlers(db, { enableWriteTools: true });
+    const result = tools.handleUpdatePattern({
+      patternId: 'observer',
+      category: 'Reactive',
+      drawbacks: ['Update storms'],
+    });
+    expect(result.content[0].text).toContain('Changed fields: category, drawbacks');
+    expect(
+      db.queryOne<{ category: string; drawbacks: string }>(
+        'SELECT category, drawbacks FROM patterns WHERE id = ?',
+        ['observer']
+      )
+    ).toEqual({ category: 'Reactive', drawbacks: '["Update storms"]' });
+
+    expect(notified).toEqual([
+      'pattern/observer',
+      'pattern/observer/implementations/python',
+      'category/Behavioral',
+    ]);
+
+    resources.unsubscribe('pattern/observer');
+    notified = [];
+    tools.handleUpdatePattern({ patternId: 'observer', complexity: 'High' });
+    // observer already moved to Reactive, so category/Behavioral is unaffected
+    expect(notified).toEqual(['pattern/observer/implementations/python']);
+  });
+
+  it('notifies relationship subscribers on relationship writes and everyone on reload', async () => {
+    resources.subscribe('pattern/adapter/relationships');
+    resources.subscribe('pattern/observer/relationships');
+    resources.subscribe('categories');
+
+    const relationshipTools = createRelationshipToolHandlers(db, { enableWriteTools: true });
+    await relationshipTools.handleCreateRelationship({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+      type: 'similar',
+      description: 'Both wrap other interfaces',
+    });
+    expect(notified).toEqual(['pattern/adapter/relationships']);
+
+    notified = [];
+    await catalogEventBus.publish('catalog:reloaded', { patternIds: [] });
+    expect(notified).toEqual([
+      'pattern/adapter/relationships',
+      'pattern/observer/relationships',
+      'categories',
+    ]);
+  });
+
+  it('keeps update_pattern behind the write-tools switch', () => {
+    const tools = createPatternToolHandlers(db, { enableWriteTools: false });
+    expect(() => tools.handleUpdatePattern({ patternId: 'observer', name: 'Obs' })).toThrow(
+      /read-only/
+    );
+
+    const writable = createPatternToolHandlers(db, { enableWriteTools: true });
+    expect(() => writable.handleUpdatePattern({ patternId: 'observer' })).toThrow(
+      /at least one pattern field/
+    );
+    expect(() => writable.handleUpdatePattern({ patternId: 'missing', name: 'Missing' })).toThrow(
+      /Pattern not found/
+    );
+    expect(() =>
+      writable.handleUpdatePattern({ patternId: 'observer', complexity: 'Extreme' })
+    ).toThrow(/complexity must be one of/);
+  });
+});
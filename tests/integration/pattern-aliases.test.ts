@@ -0,0 +1,128 @@
+/**
+ * Pattern aliases: the deduplicator's alias overlay is seeded into pattern_aliases, so
+ * alternative names and former IDs resolve to the canonical pattern in lookups and search.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { createPatternSeeder } from '../../src/services/pattern-seeder.js';
+import { CatalogDeduplicator } from '../../src/services/catalog-deduplicator.js';
+import { loadPatternAliases, resolvePatternAlias } from '../../src/services/pattern-aliases.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { KeywordSearchHandler } from '../../src/handlers/keyword-search-handler.js';
+import { SearchMediator } from '../../src/handlers/search-mediator.js';
+import type { PatternCatalogSource } from '../../src/models/pattern.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const pattern = (id: string, name: string, description: string, extra = {}) => ({
+  id,
+  name,
+  category: 'Structural',
+  description,
+  complexity: 'Low',
+  tags: ['interfaces'],
+  ...extra,
+});
+
+describe('pattern aliases', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let rootDir: string;
+  let aliasOverlay: PatternCatalogSource;
+
+  const builtinDir = () => path.join(rootDir, 'builtin');
+
+  const seed = (overlays: PatternCatalogSource[]) =>
+    createPatternSeeder(db, { patternsPath: builtinDir(), overlays }).seedAll();
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('pattern-aliases');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pattern-aliases-'));
+    fs.mkdirSync(builtinDir());
+    fs.mkdirSync(path.join(rootDir, 'aliases'));
+    const patterns = [
+      pattern('adapter', 'Adapter', 'Allows incompatible interfaces to work together', {
+        alsoKnownAs: ['Wrapper'],
+      }),
+      pattern(
+        'adapter-pattern-cloud-native',
+        'Adapter Pattern (Cloud Native)',
+        'Normalizes interfaces of legacy applications for modern integration'
+      ),
+      pattern('facade', 'Facade', 'Provides a simplified interface to a subsystem'),
+    ];
+    for (const definition of patterns) {
+      fs.writeFileSync(
+        path.join(builtinDir(), `${definition.id}.json`),
+        JSON.stringify(definition)
+      );
+    }
+
+    const report = new CatalogDeduplicator(db).analyze(builtinDir());
+    fs.writeFileSync(
+      path.join(rootDir, 'aliases', 'aliases.json'),
+      JSON.stringify(CatalogDeduplicator.aliasOverlay(report))
+    );
+    aliasOverlay = { path: path.join(rootDir, 'aliases'), namespace: 'aliases' };
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores alsoKnownAs names and resolves them by slug', async () => {
+    await seed([aliasOverlay]);
+
+    expect(loadPatternAliases(db).byPattern.get('adapter')).toEqual([
+      'Adapter Pattern (Cloud Native)',
+      'Wrapper',
+    ]);
+    expect(resolvePatternAlias(db, 'Adapter Pattern (Cloud Native)')).toBe('adapter');
+    expect(resolvePatternAlias(db, 'adapter-pattern-cloud-native')).toBe('adapter');
+    expect(resolvePatternAlias(db, 'WRAPPER')).toBe('adapter');
+    expect(resolvePatternAlias(db, 'Facade')).toBeNull();
+
+    // Without the overlay only the catalog's own aliases remain
+    await seed([]);
+    expect(loadPatternAliases(db).byPattern.get('adapter')).toEqual(['Wrapper']);
+    expect(resolvePatternAlias(db, 'adapter-pattern-cloud-native')).toBeNull();
+  });
+
+  it('finds patterns by alias and folds duplicates into the canonical pattern', async () => {
+    await seed([aliasOverlay]);
+
+    const keyword = new KeywordSearchHandler(db, { minConfidence: 0 });
+    const byAlias = await keyword.search({ id: 'q1', query: 'wrapper' });
+    expect(byAlias[0]?.pattern.id).toBe('adapter');
+
+    const vectorOps = new VectorOperationsService(db, {
+      model: 'all-MiniLM-L6-v2',
+      dimensions: 384,
+      similarityThreshold: 0,
+      maxResults: 10,
+      cacheEnabled: false,
+    });
+    const mediator = new SearchMediator(db, vectorOps, undefined, {
+      useSemanticSearch: false,
+      useFuzzyRefinement: false,
+    });
+    const { recommendations } = await mediator.searchByType(
+      { id: 'q2', query: 'legacy interfaces integration' },
+      'keyword'
+    );
+    const ids = recommendations.map(recommendation => recommendation.pattern.id);
+    expect(ids).toContain('adapter');
+    expect(ids).not.toContain('adapter-pattern-cloud-native');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Pattern ID resolution: exact ID, normalised slug, name, alias and closest ID, with ranked
+ * did-you-mean candidates for resource reads and relationship creation.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import {
+  PatternIdResolver,
+  patternNotFoundMessage,
+} from '../../src/services/pattern-id-resolver.js';
+import { createResourceHandlers } from '../../src/mcp/resources.js';
+import { createRelationshipToolHandlers } from '../../src/mcp/relationship-tools.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  ['factory-method', 'Factory Method', 'Creational'],
+  ['abstract-factory', 'Abstract Factory', 'Creational'],
+  ['clone-factory-eip1167', 'Clone Factory (EIP-1167)', 'Blockchain'],
+  ['functor', 'Functor Pattern', 'Functional'],
+  ['applicative-functor', 'Applicative Functor', 'Functional'],
+  ['actor-model', 'Actor Model', 'Concurrency'],
+  ['observer', 'Observer', 'Behavioral'],
+  ['gof-state', 'State', 'Behavioral'],
+  ['ddd-repository', 'Repository', 'DDD'],
+  ['data-repository', 'Repository', 'Data Access'],
+];
+
+describe('PatternIdResolver', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let resolver: PatternIdResolver;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('pattern-id-resolver');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const [id, name, category] of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity)
+         VALUES (?, ?, ?, ?, 'Medium')`,
+        [id, name, category, `${name} pattern description`]
+      );
+    }
+    db.execute(
+      `INSERT INTO pattern_aliases (alias_key, alias, pattern_id)
+       VALUES ('publish-subscribe', 'Publish-Subscribe', 'observer')`
+    );
+
+    resolver = new PatternIdResolver(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('resolves IDs, slugs, names, aliases and close misspellings with a note', async () => {
+    expect(await resolver.resolve('observer')).toMatchObject({
+      status: 'resolved',
+      pattern: { id: 'observer', name: 'Observer' },
+      matchedBy: 'id',
+      note: undefined,
+    });
+    expect(await resolver.resolve('Factory Method')).toMatchObject({
+      pattern: { id: 'factory-method' },
+      matchedBy: 'slug',
+      note: 'Resolved "Factory Method" to factory-method by normalised ID',
+    });
+    expect(await resolver.resolve('state')).toMatchObject({
+      pattern: { id: 'gof-state' },
+      matchedBy: 'name',
+    });
+    expect(await resolver.resolve('Publish Subscribe')).toMatchObject({
+      pattern: { id: 'observer' },
+      matchedBy: 'alias',
+    });
+    expect(await resolver.resolve('obsrver')).toMatchObject({
+      pattern: { id: 'observer' },
+      matchedBy: 'similarity',
+    });
+  });
+
+  it('returns ranked candidates when the input is ambiguous or unknown', async () => {
+    const ambiguous = await resolver.resolve('Repository');
+    expect(ambiguous.status).toBe('unresolved');
+    expect(ambiguous.status === 'unresolved' && ambiguous.candidates).toEqual([
+      expect.objectContaining({ id: 'ddd-repository', score: 1, matchedBy: 'name' }),
+      expect.objectContaining({ id: 'data-repository', score: 1, matchedBy: 'name' }),
+    ]);
+
+    const typo = await resolver.resolve('obsrver', { allowSimilar: false });
+    expect(typo.status === 'unresolved' && typo.candidates[0]).toMatchObject({
+      id: 'observer',
+      matchedBy: 'similarity',
+    });
+    expect(await resolver.resolve('zzz')).toEqual({ status: 'unresolved', candidates: [] });
+
+    // Prefixes outrank edit distance, an ID starting with the input first, below an exact
+    // match, and never resolve on their own
+    const prefix = await resolver.resolve('factory');
+    expect(prefix.status).toBe('unresolved');
+    expect(prefix.status === 'unresolved' && prefix.candidates).toEqual([
+      expect.objectContaining({ id: 'factory-method', score: 0.95 }),
+      expect.objectContaining({ id: 'abstract-factory', score: 0.9 }),
+      expect.objectContaining({ id: 'clone-factory-eip1167', score: 0.9 }),
+    ]);
+
+    const semantic = new PatternIdResolver(db, {
+      search: () =>
+        Promise.resolve([
+          {
+            patternId: 'observer',
+            score: 0.42,
+            pattern: {
+              id: 'observer',
+              name: 'Observer',
+              category: 'Behavioral',
+              description: 'Observer pattern description',
+              complexity: 'Medium',
+              tags: [],
+            },
+            rank: 1,
+            metadata: {
+              searchQuery: 'event notification',
+              searchTime: 1,
+              totalCandidates: 5,
+              similarityMethod: 'cosine',
+            },
+          },
+        ]),
+    });
+    const eventing = await semantic.resolve('event notification');
+    expect(eventing.status === 'unresolved' && eventing.candidates).toEqual([
+      expect.objectContaining({ id: 'observer', score: 0.42, matchedBy: 'embedding' }),
+    ]);
+
+    const failing = new PatternIdResolver(db, {
+      search: () => Promise.reject(new Error('no embeddings')),
+    });
+    expect(await failing.resolve('event notification')).toEqual({
+      status: 'unresolved',
+      candidates: [],
+    });
+    expect(
+      patternNotFoundMessage(
+        'Repository',
+        ambiguous.status === 'unresolved' ? ambiguous.candidates : []
+      )
+    ).toBe(
+      'Pattern not found: Repository. Did you mean ddd-repository (Repository), ' +
+        'data-repository (Repository)?'
+    );
+  });
+
+  it('is reused by pattern resource reads and relationship creation', async () => {
+    const resources = createResourceHandlers(db, {
+      config: {
+        databasePath: tempDbPath,
+        enableLLM: false,
+        logLevel: 'error',
+        maxConcurrentRequests: 10,
+      },
+      notify: () => Promise.resolve(),
+      resolver,
+    });
+    const [content] = (await resources.readResource('pattern/Factory%20Method')).contents;
+    expect(JSON.parse('text' in content ? content.text : '')).toMatchObject({
+      id: 'factory-method',
+      resolvedFrom: 'Factory Method',
+      note: 'Resolved "Factory Method" to factory-method by normalised ID',
+    });
+    await expect(resources.readResource('pattern/Repository')).rejects.toThrow(
+      /Pattern not found: Repository\. Did you mean ddd-repository/
+    );
+
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: true, resolver });
+    const created = await tools.handleCreateRelationship({
+      sourcePatternId: 'Factory Method',
+      targetPatternId: 'Publish Subscribe',
+      type: 'complements',
+      description: 'Factories create the observers',
+    });
+    expect(created.structuredContent.relationship).toMatchObject({
+      sourcePatternId: 'factory-method',
+      targetPatternId: 'observer',
+    });
+    // Misspellings are suggested but never written
+    await expect(
+      tools.handleCreateRelationship({
+        sourcePatternId: 'factory-method',
+        targetPatternId: 'obsrver',
+        type: 'complements',
+        description: 'Factories create the observers',
+      })
+    ).rejects.toThrow(/Pattern not found: obsrver\. Did you mean observer \(Observer\)\?/);
+  });
+});
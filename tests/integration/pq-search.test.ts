@@ -0,0 +1,134 @@
+/**
+ * Compressed vector search: PQ codebooks and codes are trained and persisted per model, kept
+ * current by storeEmbedding/deleteEmbedding and searched with optional float re-ranking.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import {
+  VectorOperationsService,
+  type ProductQuantizationConfig,
+} from '../../src/services/vector-operations.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const DIMENSIONS = 16;
+const GROUPS = 4;
+const PER_GROUP = 10;
+
+/** Deterministic vector of pattern `i` in group `group` */
+function vectorFor(group: number, i: number): number[] {
+  return Array.from(
+    { length: DIMENSIONS },
+    (_, d) => (d % GROUPS === group ? 1 : 0) + Math.sin(group * 13 + i * 7 + d) * 0.3
+  );
+}
+
+describe('PQ compressed search', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+
+  const createVectorOps = (productQuantization: ProductQuantizationConfig = {}) =>
+    new VectorOperationsService(db, {
+      model: 'hash',
+      dimensions: DIMENSIONS,
+      similarityThreshold: 0,
+      maxResults: 5,
+      cacheEnabled: false,
+      productQuantization: { enabled: true, subvectors: 4, clusters: 8, ...productQuantization },
+    });
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('pq-search');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    const vectorOps = createVectorOps({ enabled: false });
+    for (let group = 0; group < GROUPS; group++) {
+      for (let i = 0; i < PER_GROUP; i++) {
+        const id = `g${group}-${i}`;
+        db.execute(
+          `INSERT INTO patterns (id, name, category, description, complexity, tags)
+           VALUES (?, ?, ?, 'Test pattern', 'Low', '[]')`,
+          [id, id, `Group ${group}`]
+        );
+        vectorOps.storeEmbedding(id, vectorFor(group, i));
+      }
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('trains and persists codebooks, then reloads them without retraining', () => {
+    const vectorOps = createVectorOps();
+    expect(vectorOps.loadProductQuantizer()).toBe(true);
+    expect(vectorOps.getProductQuantizerInfo()).toEqual({
+      vectors: GROUPS * PER_GROUP,
+      codeBytes: GROUPS * PER_GROUP * 4,
+    });
+    expect(
+      db.queryOne<{ count: number }>(
+        'SELECT COUNT(*) as count FROM pattern_embeddings WHERE pq_codes IS NOT NULL'
+      )?.count
+    ).toBe(GROUPS * PER_GROUP);
+
+    const codebooks = db.queryOne<{ codebooks: string }>(
+      'SELECT codebooks FROM pq_codebooks WHERE model = ?',
+      ['hash']
+    )?.codebooks;
+    const reloaded = createVectorOps();
+    expect(reloaded.loadProductQuantizer()).toBe(true);
+    expect(
+      db.queryOne<{ codebooks: string }>('SELECT codebooks FROM pq_codebooks')?.codebooks
+    ).toBe(codebooks);
+
+    // Re-ranking with float vectors restores the exact top result
+    const query = vectorFor(2, 3);
+    const results = reloaded.searchSimilar(query, { minScore: -1 }, 5);
+    expect(results[0]).toMatchObject({ patternId: 'g2-3', rank: 1 });
+    expect(results[0].score).toBeCloseTo(1, 5);
+    expect(results.every(result => result.patternId.startsWith('g2-'))).toBe(true);
+  });
+
+  it('ranks by code scores alone when re-ranking is disabled', () => {
+    const vectorOps = createVectorOps({ rerank: 0 });
+    vectorOps.loadProductQuantizer();
+
+    const results = vectorOps.searchSimilar(vectorFor(1, 0), { minScore: -1 }, PER_GROUP);
+    const inGroup = results.filter(result => result.patternId.startsWith('g1-')).length;
+    expect(inGroup).toBeGreaterThanOrEqual(PER_GROUP * 0.8);
+  });
+
+  it('encodes stored embeddings, forgets deleted ones and applies filters', () => {
+    const vectorOps = createVectorOps();
+    vectorOps.loadProductQuantizer();
+
+    db.execute(
+      `INSERT INTO patterns (id, name, category, description, complexity, tags)
+       VALUES ('newcomer', 'Newcomer', 'Group 3', 'Test pattern', 'High', '[]')`
+    );
+    vectorOps.storeEmbedding('newcomer', vectorFor(3, 99));
+    vectorOps.deleteEmbedding('g3-0');
+    expect(vectorOps.getProductQuantizerInfo()?.vectors).toBe(GROUPS * PER_GROUP);
+    expect(
+      db.queryOne<{ pq_codes: Uint8Array | null }>(
+        "SELECT pq_codes FROM pattern_embeddings WHERE pattern_id = 'newcomer'"
+      )?.pq_codes
+    ).toHaveLength(4);
+
+    expect(vectorOps.searchSimilar(vectorFor(3, 99), undefined, 5)[0].patternId).toBe('newcomer');
+    expect(
+      vectorOps
+        .searchSimilar(vectorFor(3, 99), { categories: ['Group 0'], minScore: -1 }, 3)
+        .every(result => result.pattern?.category === 'Group 0')
+    ).toBe(true);
+
+    // The IVF index is not built while compressed search is on
+    expect(vectorOps.loadAnnIndex()).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Relationship inference: embedding, tag and text-cue signals become pending suggestions that
+ * a curator accepts into pattern_relationships or rejects.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { RelationshipInferenceService } from '../../src/services/relationship-inference.js';
+import { createRelationshipToolHandlers } from '../../src/mcp/relationship-tools.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const PATTERNS = [
+  {
+    id: 'observer',
+    name: 'Observer',
+    category: 'Behavioral',
+    tags: ['events', 'notification', 'decoupling'],
+    whenToUse: ['Objects must react to state changes of another object'],
+    embedding: [1, 0, 0],
+  },
+  {
+    id: 'publish-subscribe',
+    name: 'Publish-Subscribe',
+    category: 'Behavioral',
+    tags: ['events', 'notification', 'messaging'],
+    whenToUse: ['Publishers should not know their subscribers'],
+    embedding: [0.95, 0.1, 0],
+  },
+  {
+    id: 'callback-registry',
+    name: 'Callback Registry',
+    category: 'Behavioral',
+    tags: ['callbacks'],
+    whenToUse: ['Small scripts; superseded by Publish-Subscribe in larger systems'],
+  },
+  {
+    id: 'dependency-injection',
+    name: 'Dependency Injection',
+    category: 'Architectural',
+    tags: ['testing'],
+    whenToUse: ['Use it instead of Service Locator to make dependencies explicit'],
+    embedding: [0, 1, 0],
+  },
+  {
+    id: 'service-locator',
+    name: 'Service Locator',
+    category: 'Architectural',
+    tags: ['registry'],
+    whenToUse: ['Dependencies must be resolved at runtime'],
+  },
+  {
+    id: 'adapter',
+    name: 'Adapter',
+    category: 'Structural',
+    tags: ['wrapper', 'interface'],
+    whenToUse: ['Incompatible interfaces must work together'],
+  },
+  {
+    id: 'facade',
+    name: 'Facade',
+    category: 'Structural',
+    tags: ['wrapper', 'interface'],
+    whenToUse: ['A subsystem needs a simple entry point'],
+  },
+];
+
+describe('RelationshipInferenceService', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  let service: RelationshipInferenceService;
+
+  const pairOf = (source: string, target: string) => (rel: {
+    sourcePatternId: string;
+    targetPatternId: string;
+  }) => rel.sourcePatternId === source && rel.targetPatternId === target;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('relationship-inference');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    for (const pattern of PATTERNS) {
+      db.execute(
+        `INSERT INTO patterns (id, name, category, description, complexity, tags, when_to_use)
+         VALUES (?, ?, ?, 'Test pattern', 'Low', ?, ?)`,
+        [
+          pattern.id,
+          pattern.name,
+          pattern.category,
+          JSON.stringify(pattern.tags),
+          JSON.stringify(pattern.whenToUse),
+        ]
+      );
+      if (pattern.embedding) {
+        db.execute(
+          `INSERT INTO pattern_embeddings (pattern_id, embedding, model, strategy, dimensions)
+           VALUES (?, ?, 'custom', 'semantic', 3)`,
+          [pattern.id, JSON.stringify(pattern.embedding)]
+        );
+      }
+    }
+    db.execute(
+      `INSERT INTO pattern_relationships
+         (id, source_pattern_id, target_pattern_id, type, strength, description)
+       VALUES ('rel-1', 'adapter', 'facade', 'complements', 0.7, 'Both wrap other interfaces')`
+    );
+
+    service = new RelationshipInferenceService(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('combines embedding, tag and text signals with evidence and skips known pairs', () => {
+    const proposals = service.infer();
+
+    const similar = proposals.find(pairOf('observer', 'publish-subscribe'));
+    expect(similar?.type).toBe('similar');
+    expect(similar?.signals).toEqual(['embedding', 'tags']);
+    expect(similar?.confidence).toBeGreaterThan(0.75);
+    expect(similar?.evidence.join('\n')).toMatch(/Shared tags: events, notification/);
+
+    const alternative = proposals.find(pairOf('dependency-injection', 'service-locator'));
+    expect(alternative?.type).toBe('alternative');
+    expect(alternative?.signals).toEqual(['text']);
+    expect(alternative?.evidence[0]).toContain('instead of Service Locator');
+
+    // "superseded by" points from the newer pattern back to the one that mentions it
+    const successor = proposals.find(pairOf('publish-subscribe', 'callback-registry'));
+    expect(successor?.type).toBe('successor');
+
+    expect(
+      proposals.some(rel => [rel.sourcePatternId, rel.targetPatternId].includes('adapter'))
+    ).toBe(false);
+    expect(proposals.map(rel => rel.confidence)).toEqual(
+      [...proposals.map(rel => rel.confidence)].sort((a, b) => b - a)
+    );
+  });
+
+  it('stores suggestions once and keeps reviewed pairs out of later runs', async () => {
+    const first = service.suggest();
+    expect(first.created).toBe(first.inferred);
+    expect(first.skipped).toBe(1);
+
+    const second = service.suggest();
+    expect(second).toMatchObject({ created: 0, updated: first.inferred });
+
+    const pending = service.listSuggestions({ status: 'pending' });
+    const similar = pending.find(pairOf('observer', 'publish-subscribe'));
+    const alternative = pending.find(pairOf('dependency-injection', 'service-locator'));
+    expect(similar?.sourceName).toBe('Observer');
+
+    const relationship = await service.accept(similar?.id ?? '', { type: 'complements' });
+    expect(relationship).toMatchObject({ type: 'complements', sourcePatternId: 'observer' });
+    expect(relationship.strength).toBeCloseTo(similar?.confidence ?? 0, 2);
+    expect(service.findSuggestion(similar?.id ?? '')).toMatchObject({
+      status: 'accepted',
+      relationshipId: relationship.id,
+    });
+
+    service.reject(alternative?.id ?? '');
+    await expect(service.accept(alternative?.id ?? '')).rejects.toThrow(/already rejected/);
+
+    const third = service.suggest();
+    expect(third.skipped).toBe(3);
+    expect(service.listSuggestions({ status: 'pending' })).toHaveLength(first.inferred - 2);
+  });
+
+  it('reviews suggestions through the MCP tools only when writes are enabled', async () => {
+    service.suggest();
+    const readOnly = createRelationshipToolHandlers(db, { enableWriteTools: false });
+
+    const listed = readOnly.handleListRelationshipSuggestions({ pattern_id: 'service-locator' })
+      .content[0].text;
+    expect(listed).toContain('## Pending relationship suggestions for service-locator');
+    expect(listed).toContain('—alternative→ **Service Locator**');
+    const suggestionId = /Suggestion ID: (\S+)/.exec(listed)?.[1] ?? '';
+
+    await expect(
+      readOnly.handleReviewRelationshipSuggestion({ suggestionId, decision: 'accept' })
+    ).rejects.toThrow(/read-only/);
+
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: true });
+    const accepted = (
+      await tools.handleReviewRelationshipSuggestion({
+        suggestion_id: suggestionId,
+        decision: 'accept',
+      })
+    ).content[0].text;
+    expect(accepted).toContain(`## Suggestion ${suggestionId} accepted`);
+    expect(accepted).toContain('dependency-injection —alternative');
+    expect(accepted).toContain('0 broken references');
+
+    await expect(
+      tools.handleReviewRelationshipSuggestion({ suggestionId, decision: 'reject' })
+    ).rejects.toThrow(/already accepted/);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * ANN Index Benchmark
+ * Latency and recall@10 of the IVF index at several probe counts and of PQ code search against
+ * the exact linear scan, over a synthetic clustered catalog larger than the shipped one.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { performance } from 'perf_hooks';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MigrationManager } from '../../src/services/migrations.js';
+import { VectorOperationsService } from '../../src/services/vector-operations.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+const CATALOG_SIZE = 2000;
+const DIMENSIONS = 64;
+const CLUSTERS = 40;
+const QUERIES = 10;
+const K = 10;
+
+/** Deterministic PRNG (mulberry32) so every run benchmarks the same catalog */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('ANN index benchmark', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+  const queries: number[][] = [];
+
+  const createVectorOps = (probes: number) =>
+    new VectorOperationsService(db, {
+      model: 'benchmark',
+      dimensions: DIMENSIONS,
+      similarityThreshold: 0,
+      maxResults: K,
+      cacheEnabled: false,
+      annIndex: { minVectors: 100, probes },
+    });
+
+  /** Share of the exact top-K found by an approximate search */
+  const recallOf = (results: string[][], exact: string[][]) => {
+    const hits = results.reduce(
+      (sum, ids, query) => sum + ids.filter(id => exact[query].includes(id)).length,
+      0
+    );
+    return hits / (QUERIES * K);
+  };
+
+  /** Mean latency per query and the result IDs of each query */
+  const run = (vectorOps: VectorOperationsService) => {
+    const start = performance.now();
+    const results = queries.map(query =>
+      vectorOps.searchSimilar(query, { minScore: -1 }, K).map(result => result.patternId)
+    );
+    return { latencyMs: (performance.now() - start) / queries.length, results };
+  };
+
+  beforeAll(async () => {
+    tempDbPath = createTempDatabasePath('ann-benchmark');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+    const migrationManager = new MigrationManager(db, './migrations');
+    migrationManager.initialize();
+    await migrationManager.migrate();
+
+    const random = createRandom(42);
+    const noise = (scale: number) => (random() - 0.5) * scale;
+    const centers = Array.from({ length: CLUSTERS }, () =>
+      Array.from({ length: DIMENSIONS }, () => noise(2))
+    );
+
+    const embeddings: Array<{ patternId: string; embedding: number[] }> = [];
+    db.transaction(() => {
+      for (let i = 0; i < CATALOG_SIZE; i++) {
+        const patternId = `pattern-${i}`;
+        db.execute(
+          `INSERT INTO patterns (id, name, category, description, complexity, tags)
+           VALUES (?, ?, 'Benchmark', 'Synthetic pattern', 'Low', '[]')`,
+          [patternId, patternId]
+        );
+        embeddings.push({
+          patternId,
+          embedding: centers[i % CLUSTERS].map(value => value + noise(0.8)),
+        });
+      }
+    });
+    createVectorOps(8).storeEmbeddingsBatch(embeddings);
+
+    for (let i = 0; i < QUERIES; i++) {
+      const center = centers[Math.floor(random() * CLUSTERS)];
+      queries.push(center.map(value => value + noise(0.8)));
+    }
+  }, 120000);
+
+  afterAll(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('answers faster than the linear scan while keeping recall', () => {
+    const linear = run(createVectorOps(8));
+
+    const trainStart = performance.now();
+    expect(createVectorOps(8).rebuildAnnIndex()).toBe(true);
+    const trainMs = performance.now() - trainStart;
+
+    const rows = [1, 4, 8].map(probes => {
+      const vectorOps = createVectorOps(probes);
+      expect(vectorOps.loadAnnIndex()).toBe(true);
+      const ann = run(vectorOps);
+      return { probes, latencyMs: ann.latencyMs, recall: recallOf(ann.results, linear.results) };
+    });
+
+    const pqOps = new VectorOperationsService(db, {
+      model: 'benchmark',
+      dimensions: DIMENSIONS,
+      similarityThreshold: 0,
+      maxResults: K,
+      cacheEnabled: false,
+      productQuantization: { enabled: true },
+    });
+    expect(pqOps.loadProductQuantizer()).toBe(true);
+    const pq = run(pqOps);
+    const pqRecall = recallOf(pq.results, linear.results);
+
+    console.log(
+      `ANN benchmark: ${CATALOG_SIZE} vectors x ${DIMENSIONS} dims, ` +
+        `trained in ${trainMs.toFixed(0)} ms\n` +
+        `  linear scan: ${linear.latencyMs.toFixed(2)} ms/query\n` +
+        rows
+          .map(
+            row =>
+              `  ivf probes=${row.probes}: ${row.latencyMs.toFixed(2)} ms/query, ` +
+              `recall@${K} ${row.recall.toFixed(3)}`
+          )
+          .join('\n') +
+        `\n  pq (8 bytes/vector, re-ranked): ${pq.latencyMs.toFixed(2)} ms/query, ` +
+        `recall@${K} ${pqRecall.toFixed(3)}, ` +
+        `${pqOps.getProductQuantizerInfo()?.codeBytes} code bytes`
+    );
+
+    const probes8 = rows[2];
+    expect(probes8.recall).toBeGreaterThanOrEqual(0.9);
+    expect(probes8.latencyMs).toBeLessThan(linear.latencyMs);
+    // More probes never lose recall
+    expect(rows[0].recall).toBeLessThanOrEqual(probes8.recall);
+    expect(pqRecall).toBeGreaterThanOrEqual(0.8);
+    expect(pq.latencyMs).toBeLessThan(linear.latencyMs);
+  }, 120000);
+});
@@ -9,6 +9,7 @@ import {
   CompressionTechnique,
   AdvancedCompressionConfig,
   createAdvancedEmbeddingCompressor,
+  ProductQuantizer,
 } from '../../src/services/advanced-embedding-compressor.js';
 
 describe('AdvancedEmbeddingCompressor', () => {
@@ -313,3 +314,28 @@ describe('AdvancedEmbeddingCompressor', () => {
     });
   });
 });
+
+describe('ProductQuantizer asymmetric distance', () => {
+  it('scores codes through the lookup table like the reconstructed vectors', () => {
+    const embeddings = Array.from({ length: 40 }, (_, i) =>
+      Array.from({ length: 32 }, (_, d) => Math.sin(i * 0.7 + d * 0.3))
+    );
+    const quantizer = new ProductQuantizer(16, 4);
+    const codebooks = quantizer.trainCodebooks(embeddings);
+    const query = Array.from({ length: 32 }, (_, d) => Math.cos(d * 0.2));
+    const table = quantizer.createLookupTable(query, codebooks);
+
+    expect(table).toHaveLength(4);
+    expect(table[0]).toHaveLength(16);
+
+    for (const embedding of embeddings.slice(0, 5)) {
+      const codes = quantizer.encode(embedding, codebooks);
+      const { reconstructed } = quantizer.quantize(embedding, codebooks);
+      const exact = reconstructed.reduce((sum, value, d) => sum + value * query[d], 0);
+
+      expect(codes).toBeInstanceOf(Uint8Array);
+      expect(codes).toHaveLength(4);
+      expect(quantizer.scoreCodes(codes, table)).toBeCloseTo(exact, 4);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * analyze_code canonical tool: validation, catalog linking and formatting.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  linkAnalysisToCatalog,
+  lookupCatalogPatterns,
+  toPatternSlug,
+} from '../../src/mcp/code-analysis.js';
+import { formatAnalyzeCodeResult } from '../../src/mcp/tool-formatters.js';
+import { createHttpToolHandlers } from '../../src/mcp/http-tool-handlers.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+import type { DatabaseManager } from '../../src/services/database-manager.js';
+import type { SearchMediator } from '../../src/handlers/search-mediator.js';
+import type { MCPRateLimiter } from '../../src/utils/rate-limiter.js';
+
+const CATALOG_ROWS = [
+  { id: 'singleton', name: 'Singleton', category: 'Creational' },
+  { id: 'factory-method', name: 'Factory Method', category: 'Creational' },
+  { id: 'god-object', name: 'God Object', category: 'Anti-Pattern' },
+];
+
+function createMockDb(rows = CATALOG_ROWS): DatabaseManager {
+  return {
+    query: vi.fn().mockReturnValue(rows),
+  } as unknown as DatabaseManager;
+}
+
+const SINGLETON_CODE = `class Config {
+  private static instance: Config;
+  private constructor() {}
+  static getInstance(): Config {
+    if (!Config.instance) {
+      Config.instance = new Config();
+    }
+    return Config.instance;
+  }
+}`;
+
+describe('InputValidator.validateAnalyzeCodeArgs', () => {
+  it('accepts code and normalizes language', () => {
+    const result = InputValidator.validateAnalyzeCodeArgs({
+      code: 'const a = 1 < 2;',
+      language: 'TypeScript',
+    });
+    expect(result).toEqual({ code: 'const a = 1 < 2;', language: 'typescript' });
+  });
+
+  it('rejects missing code or language', () => {
+    expect(() => InputValidator.validateAnalyzeCodeArgs({ language: 'typescript' })).toThrow();
+    expect(() => InputValidator.validateAnalyzeCodeArgs({ code: 'x' })).toThrow();
+    expect(() => InputValidator.validateAnalyzeCodeArgs(null)).toThrow();
+  });
+});
+
+describe('catalog linking', () => {
+  it('slugs pattern names like catalog IDs', () => {
+    expect(toPatternSlug('Factory Method')).toBe('factory-method');
+    expect(toPatternSlug(' Chain of Responsibility ')).toBe('chain-of-responsibility');
+  });
+
+  it('prefers exact slug IDs over name matches', () => {
+    const db = createMockDb([
+      { id: 'singleton-variant', name: 'Singleton', category: 'Creational' },
+      { id: 'singleton', name: 'Singleton', category: 'Creational' },
+    ]);
+    const links = lookupCatalogPatterns(db, ['Singleton']);
+    expect(links.get('Singleton')?.id).toBe('singleton');
+  });
+
+  it('returns an empty map when the query fails', () => {
+    const db = {
+      query: vi.fn(() => {
+        throw new Error('no such table: patterns');
+      }),
+    } as unknown as DatabaseManager;
+    expect(lookupCatalogPatterns(db, ['Singleton']).size).toBe(0);
+  });
+
+  it('attaches catalog refs to identified, suggested and anti-patterns', () => {
+    const linked = linkAnalysisToCatalog(
+      createMockDb(),
+      {
+        identifiedPatterns: [
+          {
+            pattern: 'Singleton',
+            category: 'Creational',
+            confidence: 0.9,
+            location: { line: 2, column: 3, snippet: 'private static instance' },
+            indicators: ['private static instance'],
+          },
+        ],
+        suggestedPatterns: [
+          { pattern: 'Factory Method', reason: 'Many constructors', confidence: 0.6 },
+          { pattern: 'Unknown Pattern', reason: 'n/a', confidence: 0.5 },
+        ],
+        antiPatterns: [
+          {
+            pattern: 'God Object',
+            catalogId: 'god-object',
+            reason: 'Too many methods',
+            severity: 'high',
+            evidence: [{ metric: 'methods', value: 24, threshold: 20, scope: 'App' }],
+          },
+        ],
+        improvements: [],
+      },
+      'typescript'
+    );
+
+    expect(linked.identifiedPatterns[0].catalog?.id).toBe('singleton');
+    expect(linked.suggestedPatterns[0].catalog?.id).toBe('factory-method');
+    expect(linked.suggestedPatterns[1].catalog).toBeUndefined();
+    expect(linked.antiPatterns[0].catalog?.id).toBe('god-object');
+  });
+});
+
+describe('formatAnalyzeCodeResult', () => {
+  it('renders locations and catalog IDs', () => {
+    const text = formatAnalyzeCodeResult({
+      language: 'typescript',
+      identifiedPatterns: [
+        {
+          pattern: 'Singleton',
+          category: 'Creational',
+          confidence: 0.9,
+          location: { line: 2, column: 3, snippet: 'private static instance' },
+          indicators: ['private static instance'],
+          catalog: CATALOG_ROWS[0],
+        },
+      ],
+      suggestedPatterns: [
+        { pattern: 'Unknown Pattern', reason: 'n/a', confidence: 0.5 },
+      ],
+      antiPatterns: [],
+      improvements: [],
+    });
+
+    expect(text).toContain('## Code Analysis (typescript)');
+    expect(text).toContain('line 2');
+    expect(text).toContain('[ID: singleton]');
+    expect(text).toContain('[not in catalog]');
+  });
+});
+
+describe('HTTP analyze_code handler', () => {
+  it('analyzes code and links detected patterns to the catalog', () => {
+    const handlers = createHttpToolHandlers(
+      createMockDb(),
+      {} as SearchMediator,
+      {} as MCPRateLimiter
+    );
+    const result = handlers.handleAnalyzeCode({ code: SINGLETON_CODE, language: 'typescript' });
+    const text = result.content[0].text;
+
+    expect(text).toContain('Singleton');
+    expect(text).toContain('[ID: singleton]');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Metric-based anti-pattern detection and its links to catalog refactorings.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { AntiPatternDetector } from '../../src/services/anti-pattern-detector.js';
+import { linkAnalysisToCatalog } from '../../src/mcp/code-analysis.js';
+import { formatAnalyzeCodeResult } from '../../src/mcp/tool-formatters.js';
+import type { DatabaseManager } from '../../src/services/database-manager.js';
+
+const detector = new AntiPatternDetector();
+
+function findingsIn(code: string, language = 'typescript') {
+  return detector.detect(code, language);
+}
+
+describe('AntiPatternDetector', () => {
+  it('reports God Object with method and field evidence on the class', () => {
+    const methods = Array.from({ length: 22 }, (_, i) => `  handle${i}() { return ${i}; }`);
+    const code = `import a from 'a';\n\nexport class App {\n${methods.join('\n')}\n}\n`;
+
+    const [finding] = findingsIn(code);
+
+    expect(finding).toMatchObject({
+      pattern: 'God Object',
+      catalogId: 'god-object',
+      severity: 'high',
+      location: { line: 3, snippet: 'export class App {' },
+    });
+    expect(finding.evidence).toContainEqual({
+      metric: 'methods',
+      value: 22,
+      threshold: 20,
+      scope: 'App',
+    });
+  });
+
+  it('counts Go receiver methods and Python self fields per type', () => {
+    const goMethods = Array.from(
+      { length: 21 },
+      (_, i) => `func (s *Server) Op${i}(x int) int {\n\treturn x\n}`
+    );
+    const go = `type Server struct {\n\tport int\n}\n\n${goMethods.join('\n\n')}\n`;
+    expect(detector.measure(go, 'go').classes).toEqual([
+      expect.objectContaining({ name: 'Server', methods: 21, fields: 1 }),
+    ]);
+
+    const fields = Array.from({ length: 16 }, (_, i) => `        self.f${i} = ${i}`);
+    const python = `class Settings:\n    def __init__(self):\n${fields.join('\n')}\n`;
+    expect(findingsIn(python, 'python')[0]).toMatchObject({
+      catalogId: 'god-object',
+      severity: 'medium',
+    });
+  });
+
+  it('reports Spaghetti Code from cyclomatic complexity', () => {
+    const branches = Array.from(
+      { length: 11 },
+      (_, i) => `  if (kind === ${i} && enabled) { total += ${i}; }`
+    );
+    const code =
+      'function price(kind: number, enabled: boolean) {\n  let total = 0;\n' +
+      `${branches.join('\n')}\n  return total;\n}\n`;
+
+    const [finding] = findingsIn(code);
+
+    expect(finding).toMatchObject({ catalogId: 'spaghetti-code', severity: 'high' });
+    expect(finding.evidence).toEqual([
+      { metric: 'cyclomaticComplexity', value: 23, threshold: 10, scope: 'price' },
+    ]);
+  });
+
+  it('reports Feature Envy when a method works on a parameter instead of its own state', () => {
+    const code = `
+public class InvoicePrinter {
+    private String header;
+    public String print(Order order) {
+        return order.id + order.customer + order.street + order.city + order.total + order.tax;
+    }
+}
+`;
+    const [finding] = findingsIn(code, 'java');
+
+    expect(finding).toMatchObject({ catalogId: 'feature-envy' });
+    expect(finding.reason).toContain('InvoicePrinter.print() accesses order 6 times');
+  });
+
+  it('reports swallowed exceptions and commented-out code', () => {
+    const python = `
+def load(path):
+    try:
+        return open(path).read()
+    except OSError:
+        pass
+`;
+    expect(findingsIn(python, 'python').map(f => f.catalogId)).toEqual([
+      'programming-by-exception',
+    ]);
+
+    const dead = Array.from({ length: 5 }, (_, i) => `// const old${i} = compute(${i});`);
+    expect(findingsIn(`${dead.join('\n')}\nexport const value = 1;\n`)).toEqual([
+      expect.objectContaining({ catalogId: 'lava-flow', severity: 'low' }),
+    ]);
+  });
+
+  it('ignores small, flat code', () => {
+    expect(findingsIn('export function add(a: number, b: number) { return a + b; }')).toEqual(
+      []
+    );
+  });
+});
+
+describe('anti-pattern refactoring links', () => {
+  it('attaches catalog refactorings and renders them with the evidence', () => {
+    const query = vi.fn((sql: string) =>
+      sql.includes('pattern_relationships')
+        ? [
+            {
+              source_id: 'god-object',
+              id: 'facade',
+              name: 'Facade',
+              category: 'Structural',
+              type: 'alternative',
+              strength: 0.7,
+              description: 'Refactor by hiding extracted subsystems behind a Facade',
+            },
+          ]
+        : [{ id: 'god-object', name: 'God Object Anti-Pattern', category: 'Anti-Pattern' }]
+    );
+    const db = { query } as unknown as DatabaseManager;
+
+    const linked = linkAnalysisToCatalog(
+      db,
+      {
+        identifiedPatterns: [],
+        suggestedPatterns: [],
+        improvements: [],
+        antiPatterns: [
+          {
+            pattern: 'God Object',
+            catalogId: 'god-object',
+            reason: 'App has 22 methods',
+            severity: 'high',
+            evidence: [{ metric: 'methods', value: 22, threshold: 20, scope: 'App' }],
+          },
+        ],
+      },
+      'typescript'
+    );
+
+    expect(linked.antiPatterns[0].catalog?.refactorings?.map(r => r.id)).toEqual(['facade']);
+
+    const text = formatAnalyzeCodeResult(linked);
+    expect(text).toContain('Evidence: methods 22 (threshold 20, App)');
+    expect(text).toContain('Refactor with: **Facade** [ID: facade]');
+  });
+});
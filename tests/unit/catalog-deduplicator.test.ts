@@ -0,0 +1,171 @@
+/**
+ * Catalog deduplicator: near-duplicate definitions are grouped by ID, name and description
+ * overlap into merge proposals with field-level conflicts and alsoKnownAs aliases.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CatalogDeduplicator,
+  loadCatalogDefinitions,
+  type MergeProposal,
+} from '../../src/services/catalog-deduplicator.js';
+
+const pattern = (id: string, name: string, description: string, extra = {}) => ({
+  id,
+  name,
+  category: 'Structural',
+  description,
+  complexity: 'Low',
+  tags: ['interfaces'],
+  ...extra,
+});
+
+describe('CatalogDeduplicator', () => {
+  let catalogDir: string;
+
+  const write = (file: string, content: unknown) =>
+    fs.writeFileSync(path.join(catalogDir, file), JSON.stringify(content));
+
+  const proposalFor = (proposals: MergeProposal[], id: string) =>
+    proposals.find(proposal => proposal.canonical.id === id);
+
+  beforeEach(() => {
+    catalogDir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-dedup-'));
+    write(
+      'adapter.json',
+      pattern('adapter', 'Adapter', 'Allows incompatible interfaces to work together', {
+        when_to_use: ['Reuse a class whose interface does not match'],
+        alsoKnownAs: ['Wrapper'],
+      })
+    );
+    write(
+      'adapter-pattern-cloud-native.json',
+      pattern(
+        'adapter-pattern-cloud-native',
+        'Adapter Pattern (Cloud Native)',
+        'Normalizes interfaces of legacy applications for system integration',
+        { category: 'Cloud Native', tags: ['integration'] }
+      )
+    );
+    // A collection file repeating a pattern that also has its own file
+    write('gof-patterns.json', {
+      patterns: [
+        pattern('adapter', 'Adapter', 'Allows incompatible interfaces to work together', {
+          complexity: 'Medium',
+        }),
+        pattern('facade', 'Facade', 'Provides a simplified interface to a subsystem'),
+      ],
+    });
+    write(
+      'backend-for-frontend.json',
+      pattern('backend-for-frontend', 'Backend for Frontend (BFF)', 'One API per client type', {
+        category: 'Microservices',
+      })
+    );
+    write(
+      'backends-for-frontends.json',
+      pattern('backends-for-frontends', 'Backends for Frontends', 'Separate backends per client', {
+        category: 'Cloud-Native',
+      })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(catalogDir, { recursive: true, force: true });
+  });
+
+  it('loads every definition in seeding order, including repeated IDs', () => {
+    const { files, definitions } = loadCatalogDefinitions(catalogDir);
+    expect(files).toBe(5);
+    expect(definitions.map(definition => `${definition.file}:${definition.id}`)).toEqual([
+      'adapter-pattern-cloud-native.json:adapter-pattern-cloud-native',
+      'adapter.json:adapter',
+      'backend-for-frontend.json:backend-for-frontend',
+      'backends-for-frontends.json:backends-for-frontends',
+      'gof-patterns.json:adapter',
+      'gof-patterns.json:facade',
+    ]);
+  });
+
+  it('groups duplicates by ID, name and repeated definitions', () => {
+    const report = new CatalogDeduplicator().analyze(catalogDir);
+    expect(report).toMatchObject({ files: 5, definitions: 6, patterns: 5 });
+    expect(report.proposals.map(proposal => proposal.canonical.id).sort()).toEqual([
+      'adapter',
+      'backend-for-frontend',
+    ]);
+
+    const adapter = proposalFor(report.proposals, 'adapter');
+    expect(adapter?.duplicates).toEqual([
+      expect.objectContaining({
+        id: 'adapter',
+        file: 'gof-patterns.json',
+        confidence: 1,
+        signals: ['id'],
+      }),
+      expect.objectContaining({
+        id: 'adapter-pattern-cloud-native',
+        confidence: 0.85,
+        signals: ['name'],
+        evidence: [
+          'Names "Adapter Pattern (Cloud Native)" and "Adapter" both normalize to "adapter"',
+        ],
+      }),
+    ]);
+
+    const bff = proposalFor(report.proposals, 'backend-for-frontend');
+    expect(bff?.duplicates).toEqual([
+      expect.objectContaining({ id: 'backends-for-frontends', signals: ['id', 'name'] }),
+    ]);
+  });
+
+  it('reports field conflicts with their resolution', () => {
+    const adapter = proposalFor(new CatalogDeduplicator().analyze(catalogDir).proposals, 'adapter');
+    const conflicts = new Map(adapter?.conflicts.map(conflict => [conflict.field, conflict]));
+
+    expect([...conflicts.keys()]).toEqual([
+      'name',
+      'category',
+      'description',
+      'complexity',
+      'tags',
+    ]);
+    expect(conflicts.get('category')).toMatchObject({
+      resolution: 'keep-canonical',
+      merged: 'Structural',
+      values: [
+        { id: 'adapter', file: 'adapter.json', value: 'Structural' },
+        { id: 'adapter', file: 'gof-patterns.json', value: 'Structural' },
+        { id: 'adapter-pattern-cloud-native', value: 'Cloud Native' },
+      ],
+    });
+    expect(conflicts.get('tags')).toMatchObject({
+      resolution: 'union',
+      merged: ['interfaces', 'integration'],
+    });
+    // Only the canonical definition sets when_to_use, so nothing disagrees with it
+    expect(conflicts.has('when_to_use')).toBe(false);
+  });
+
+  it('proposes aliases and writes them as an overlay document', () => {
+    const report = new CatalogDeduplicator().analyze(catalogDir);
+    // The name's slug is the duplicate's ID, so one alias resolves both
+    expect(proposalFor(report.proposals, 'adapter')?.aliases).toEqual([
+      'Adapter Pattern (Cloud Native)',
+    ]);
+
+    expect(CatalogDeduplicator.aliasOverlay(report).patterns).toEqual([
+      { id: 'adapter', alsoKnownAs: ['Wrapper', 'Adapter Pattern (Cloud Native)'] },
+      { id: 'backend-for-frontend', alsoKnownAs: ['Backends for Frontends'] },
+    ]);
+  });
+
+  it('proposes nothing below the minimum confidence', () => {
+    const report = new CatalogDeduplicator().analyze(catalogDir, { minConfidence: 0.95 });
+    const adapter = proposalFor(report.proposals, 'adapter');
+    expect(adapter?.duplicates.map(duplicate => duplicate.id)).toEqual(['adapter']);
+    expect(proposalFor(report.proposals, 'backend-for-frontend')).toBeDefined();
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MCPServerConfigBuilder } from '../../src/core/config-builder.js';
+
+describe('MCPServerConfigBuilder.fromEnvironment — LLM_PROVIDER', () => {
+  const previous = {
+    provider: process.env.LLM_PROVIDER,
+    enableLLM: process.env.ENABLE_LLM,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (previous.provider === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = previous.provider;
+    if (previous.enableLLM === undefined) delete process.env.ENABLE_LLM;
+    else process.env.ENABLE_LLM = previous.enableLLM;
+  });
+
+  it('reads a known provider', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+    process.env.ENABLE_LLM = 'true';
+
+    const config = MCPServerConfigBuilder.fromEnvironment().build();
+    expect(config.enableLLM).toBe(true);
+    expect(config.llmConfig?.provider).toBe('ollama');
+  });
+
+  it('warns and disables LLM features for an unknown provider instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    process.env.LLM_PROVIDER = 'gemini';
+    process.env.ENABLE_LLM = 'true';
+
+    const config = MCPServerConfigBuilder.fromEnvironment().build();
+    expect(config.enableLLM).toBe(false);
+    expect(config.llmConfig?.provider).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring LLM_PROVIDER "gemini"'));
+  });
+});
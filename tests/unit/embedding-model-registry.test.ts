@@ -0,0 +1,105 @@
+/**
+ * Embedding model registry: built-in and configured models, active model selection and the
+ * strategies created for each provider.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  EmbeddingModelRegistry,
+  DEFAULT_EMBEDDING_MODEL,
+  embeddingModelOptions,
+} from '../../src/factories/embedding-model-registry.js';
+import { EmbeddingStrategyFactory } from '../../src/factories/embedding-factory.js';
+import { MCPServerConfigBuilder } from '../../src/core/config-builder.js';
+import {
+  SimpleHashEmbeddingStrategy,
+  TransformersEmbeddingStrategy,
+} from '../../src/strategies/embedding-strategy.js';
+
+describe('EmbeddingModelRegistry', () => {
+  it('registers models next to the built-ins and creates a strategy per provider', async () => {
+    const registry = new EmbeddingModelRegistry({
+      models: [
+        { name: 'hash-64', provider: 'simple-hash', dimensions: 64 },
+        {
+          name: 'bge-small',
+          provider: 'transformers',
+          dimensions: 384,
+          modelPath: 'local/bge-small-en',
+          pooling: 'cls',
+        },
+      ],
+      activeModel: 'hash-64',
+      cacheDir: '/models',
+      allowRemoteModels: false,
+    });
+
+    expect(registry.list().map(model => model.name)).toEqual([
+      DEFAULT_EMBEDDING_MODEL,
+      'simplified-hash',
+      'hash-64',
+      'bge-small',
+    ]);
+    expect(registry.getActiveModel().name).toBe('hash-64');
+
+    const hash = registry.createStrategy();
+    expect(hash).toBeInstanceOf(SimpleHashEmbeddingStrategy);
+    const embedding = await hash.generateEmbedding('observer pattern');
+    expect(embedding).toMatchObject({ model: 'hash-64', dimensions: 64 });
+    expect(embedding.values).toHaveLength(64);
+
+    const bge = registry.createStrategy('bge-small');
+    expect(bge).toBeInstanceOf(TransformersEmbeddingStrategy);
+    expect(bge.model).toBe('bge-small');
+  });
+
+  it('rejects invalid specifications and unknown models', () => {
+    const registry = new EmbeddingModelRegistry();
+    expect(() =>
+      registry.register({ name: 'broken', provider: 'simple-hash', dimensions: 0 })
+    ).toThrow(/dimensions must be a positive integer/);
+    expect(() => registry.setActiveModel('missing')).toThrow(
+      /Unknown embedding model: missing \(registered: all-MiniLM-L6-v2, simplified-hash\)/
+    );
+  });
+});
+
+describe('embedding model configuration', () => {
+  const previous = { models: process.env.EMBEDDING_MODELS, model: process.env.EMBEDDING_MODEL };
+
+  afterEach(() => {
+    for (const [key, value] of [
+      ['EMBEDDING_MODELS', previous.models],
+      ['EMBEDDING_MODEL', previous.model],
+    ] as const) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('defaults to the built-in model and validates the active model', () => {
+    expect(new MCPServerConfigBuilder().build()).toMatchObject({
+      activeEmbeddingModel: DEFAULT_EMBEDDING_MODEL,
+      embeddingModels: [],
+      allowRemoteModels: true,
+    });
+    expect(() => new MCPServerConfigBuilder().withActiveEmbeddingModel('missing').build()).toThrow(
+      /Unknown active embedding model: missing/
+    );
+  });
+
+  it('reads models from the environment and activates them in the strategy factory', async () => {
+    process.env.EMBEDDING_MODELS = JSON.stringify([
+      { name: 'hash-32', provider: 'simple-hash', dimensions: 32 },
+    ]);
+    process.env.EMBEDDING_MODEL = 'hash-32';
+    const config = MCPServerConfigBuilder.fromEnvironment().build();
+
+    const factory = EmbeddingStrategyFactory.getInstance();
+    expect(factory.configureModels(embeddingModelOptions(config)).dimensions).toBe(32);
+    const strategy = await factory.createStrategy();
+    expect(strategy.model).toBe('hash-32');
+
+    process.env.EMBEDDING_MODELS = '{"name": "not-an-array"}';
+    expect(() => MCPServerConfigBuilder.fromEnvironment()).toThrow(/JSON array/);
+  });
+});
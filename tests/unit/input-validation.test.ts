@@ -268,6 +268,16 @@ describe('InputValidator', () => {
         const args = { query: '' }; // Invalid empty query
         expect(() => InputValidator.validateFindPatternsArgs(args)).toThrow(McpError);
       });
+
+      it('should validate catalog source filters', () => {
+        expect(
+          InputValidator.validateFindPatternsArgs({ query: 'saga', sources: ['builtin', 'acme'] })
+            .sources
+        ).toEqual(['builtin', 'acme']);
+        expect(() =>
+          InputValidator.validateFindPatternsArgs({ query: 'saga', sources: ['Acme Corp'] })
+        ).toThrow(McpError);
+      });
     });
 
     describe('validateSearchPatternsArgs', () => {
@@ -0,0 +1,406 @@
+/**
+ * Structural pattern detection plugins for Python, Java, C#, Go, Rust and C.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  CPatternDetector,
+  CSharpPatternDetector,
+  GoPatternDetector,
+  JavaPatternDetector,
+  PatternDetectorRegistry,
+  PythonPatternDetector,
+  RustPatternDetector,
+  createDefaultDetectorRegistry,
+  type LanguagePatternDetector,
+} from '../../src/services/pattern-detectors/index.js';
+import { PatternAnalyzer } from '../../src/services/pattern-analyzer.js';
+
+function patternsIn(detector: LanguagePatternDetector, code: string): string[] {
+  return detector.detect(code, detector.languages[0]).map(match => match.pattern);
+}
+
+describe('PatternDetectorRegistry', () => {
+  it('resolves bundled detectors by language and alias, case-insensitively', () => {
+    const registry = createDefaultDetectorRegistry();
+
+    expect(registry.get('Python')).toBeInstanceOf(PythonPatternDetector);
+    expect(registry.get('golang')).toBeInstanceOf(GoPatternDetector);
+    expect(registry.get('C#')).toBeInstanceOf(CSharpPatternDetector);
+    expect(registry.get('rs')).toBeInstanceOf(RustPatternDetector);
+    expect(registry.get('c')).toBeInstanceOf(CPatternDetector);
+    expect(registry.get('kotlin')).toBeUndefined();
+    expect(registry.languages()).toEqual(expect.arrayContaining(['typescript', 'java', 'csharp']));
+  });
+
+  it('lets PatternAnalyzer use a custom registry', () => {
+    const detector: LanguagePatternDetector = {
+      languages: ['kotlin'],
+      detect: () => [
+        { pattern: 'Singleton', confidence: 0.9, location: { line: 1 }, indicators: ['object'] },
+      ],
+    };
+    const analyzer = new PatternAnalyzer(new PatternDetectorRegistry().register(detector));
+
+    const [match] = analyzer.analyzeCode('object Config', 'kotlin').identifiedPatterns;
+
+    expect(match).toMatchObject({ pattern: 'Singleton', category: 'Creational' });
+  });
+});
+
+describe('PythonPatternDetector', () => {
+  const detector = new PythonPatternDetector();
+
+  it('detects __new__ and metaclass singletons', () => {
+    const code = `
+class Config:
+    _instance = None
+
+    def __new__(cls):
+        if cls._instance is None:
+            cls._instance = super().__new__(cls)
+        return cls._instance
+
+
+class SingletonMeta(type):
+    _instances = {}
+
+    def __call__(cls, *args, **kwargs):
+        if cls not in cls._instances:
+            cls._instances[cls] = super().__call__(*args, **kwargs)
+        return cls._instances[cls]
+`;
+    const matches = detector.detect(code, 'python');
+
+    expect(matches.map(match => match.pattern)).toEqual(['Singleton', 'Singleton']);
+    expect(matches[0].location).toMatchObject({ line: 2, endLine: 8, snippet: 'class Config:' });
+  });
+
+  it('detects function decorators but ignores plain higher-order helpers', () => {
+    const code = `
+import functools
+
+def timed(func):
+    @functools.wraps(func)
+    def wrapper(*args, **kwargs):
+        return func(*args, **kwargs)
+    return wrapper
+
+def apply(values):
+    return [v * 2 for v in values]
+`;
+    const [match, ...rest] = detector.detect(code, 'python');
+
+    expect(rest).toHaveLength(0);
+    expect(match.pattern).toBe('Decorator');
+    expect(match.confidence).toBe(0.9);
+  });
+
+  it('detects Observer, Iterator and ABC-based Strategy', () => {
+    const code = `
+from abc import ABC, abstractmethod
+
+class EventBus:
+    def __init__(self):
+        self._subscribers = []
+
+    def subscribe(self, callback):
+        self._subscribers.append(callback)
+
+    def publish(self, event):
+        for callback in self._subscribers:
+            callback(event)
+
+class Countdown:
+    def __init__(self, start):
+        self.current = start
+
+    def __iter__(self):
+        return self
+
+    def __next__(self):
+        if self.current <= 0:
+            raise StopIteration
+        self.current -= 1
+        return self.current
+
+class Compression(ABC):
+    @abstractmethod
+    def compress(self, data: bytes) -> bytes:
+        ...
+
+class Zip(Compression):
+    def compress(self, data: bytes) -> bytes:
+        return data
+
+class Gzip(Compression):
+    def compress(self, data: bytes) -> bytes:
+        return data
+
+class Archiver:
+    def __init__(self, compression: Compression):
+        self.compression = compression
+`;
+    expect(patternsIn(detector, code)).toEqual(['Observer', 'Strategy', 'Iterator']);
+  });
+});
+
+describe('JavaPatternDetector', () => {
+  const detector = new JavaPatternDetector();
+
+  it('detects classic, holder-class and enum singletons', () => {
+    const code = `
+public class Registry {
+    private static final Registry INSTANCE = new Registry();
+    private Registry() {}
+    public static Registry getInstance() { return INSTANCE; }
+}
+
+public class Cache {
+    private Cache() {}
+    private static class Holder {
+        static final Cache INSTANCE = new Cache();
+    }
+    public static Cache get() { return Holder.INSTANCE; }
+}
+
+public enum Settings {
+    INSTANCE;
+    private final String name = "app";
+    public String name() { return name; }
+}
+`;
+    const matches = detector.detect(code, 'java');
+
+    expect(matches.map(match => match.pattern)).toEqual(['Singleton', 'Singleton', 'Singleton']);
+    expect(matches.map(match => match.location.snippet)).toEqual([
+      'public class Registry {',
+      'public class Cache {',
+      'public enum Settings {',
+    ]);
+  });
+
+  it('ignores braces and keywords inside strings and comments', () => {
+    const code = `
+public class Greeter {
+    // class Fake { static Greeter instance; }
+    private final String template = "class X { return this; }";
+    public String greet() { return template; }
+}
+`;
+    expect(detector.detect(code, 'java')).toEqual([]);
+  });
+
+  it('detects Factory Method, Strategy and Decorator from class shapes', () => {
+    const code = `
+abstract class Dialog {
+    abstract Button createButton();
+    void render() { Button b = createButton(); b.paint(); }
+}
+class WebDialog extends Dialog {
+    @Override
+    Button createButton() { return new HtmlButton(); }
+}
+
+interface SortStrategy { void sort(int[] data); }
+class QuickSort implements SortStrategy { public void sort(int[] data) {} }
+class MergeSort implements SortStrategy { public void sort(int[] data) {} }
+class Sorter {
+    private SortStrategy strategy;
+    public void setStrategy(SortStrategy strategy) { this.strategy = strategy; }
+}
+
+interface DataSource { void write(String data); }
+class CompressionDecorator implements DataSource {
+    private final DataSource wrappee;
+    CompressionDecorator(DataSource wrappee) { this.wrappee = wrappee; }
+    public void write(String data) { wrappee.write(data); }
+}
+`;
+    const patterns = patternsIn(detector, code);
+
+    expect(patterns).toEqual(
+      expect.arrayContaining(['Factory Method', 'Template Method', 'Strategy', 'Decorator'])
+    );
+    expect(patterns).not.toContain('Singleton');
+  });
+});
+
+describe('CSharpPatternDetector', () => {
+  const detector = new CSharpPatternDetector();
+
+  it('detects Lazy<T> singletons, event observers and yield iterators', () => {
+    const code = `
+public sealed class Clock
+{
+    private static readonly Lazy<Clock> lazy = new Lazy<Clock>(() => new Clock());
+    public static Clock Instance => lazy.Value;
+    private Clock() { }
+}
+
+public class Thermostat
+{
+    public event EventHandler<double> TemperatureChanged;
+    public void Set(double value) { TemperatureChanged?.Invoke(this, value); }
+}
+
+public class Range
+{
+    public IEnumerable<int> Values(int count)
+    {
+        for (var i = 0; i < count; i++) yield return i;
+    }
+}
+`;
+    const matches = detector.detect(code, 'csharp');
+
+    expect(matches.map(match => match.pattern)).toEqual(['Singleton', 'Iterator', 'Observer']);
+    expect(matches[0].confidence).toBe(1);
+  });
+});
+
+describe('GoPatternDetector', () => {
+  const detector = new GoPatternDetector();
+
+  it('detects functional options and sync.Once singletons', () => {
+    const code = `
+package server
+
+type Option func(*Server)
+
+func WithPort(port int) Option { return func(s *Server) { s.port = port } }
+func WithTLS() Option { return func(s *Server) { s.tls = true } }
+
+func NewServer(opts ...Option) *Server {
+	s := &Server{}
+	for _, opt := range opts {
+		opt(s)
+	}
+	return s
+}
+
+var (
+	instance *Server
+	once     sync.Once
+)
+
+func Default() *Server {
+	once.Do(func() { instance = NewServer() })
+	return instance
+}
+`;
+    const matches = detector.detect(code, 'go');
+
+    expect(matches.map(match => match.pattern)).toEqual(['Functional Options', 'Singleton']);
+    expect(matches[0].confidence).toBe(0.9);
+  });
+
+  it('matches implicit interface satisfaction for Strategy and Decorator', () => {
+    const code = `
+type Store interface {
+	Get(key string) string
+}
+
+type memoryStore struct{ data map[string]string }
+
+func (m *memoryStore) Get(key string) string { return m.data[key] }
+
+type redisStore struct{}
+
+func (r redisStore) Get(key string) string { return "" }
+
+type loggingStore struct {
+	next Store
+}
+
+func (l *loggingStore) Get(key string) string {
+	return l.next.Get(key)
+}
+
+type Service struct {
+	store Store
+}
+`;
+    expect(patternsIn(detector, code)).toEqual(['Decorator', 'Strategy']);
+  });
+});
+
+describe('RustPatternDetector', () => {
+  const detector = new RustPatternDetector();
+
+  it('detects builders, newtypes and typestate', () => {
+    const code = `
+struct RequestBuilder { url: String, timeout: u64 }
+
+impl RequestBuilder {
+    fn url(mut self, url: &str) -> Self { self.url = url.into(); self }
+    fn timeout(mut self, secs: u64) -> Self { self.timeout = secs; self }
+    fn build(self) -> Request { Request { url: self.url } }
+}
+
+struct Meters(f64);
+
+struct Open;
+struct Closed;
+struct Door<State> { state: PhantomData<State> }
+
+impl Door<Closed> {
+    fn open(self) -> Door<Open> { Door { state: PhantomData } }
+}
+impl Door<Open> {
+    fn close(self) -> Door<Closed> { Door { state: PhantomData } }
+}
+`;
+    expect(patternsIn(detector, code)).toEqual(['Builder', 'Newtype', 'Typestate']);
+  });
+
+  it('detects trait-object strategies and lazily initialised statics', () => {
+    const code = `
+static CONFIG: OnceLock<Config> = OnceLock::new();
+
+fn config() -> &'static Config {
+    CONFIG.get_or_init(Config::load)
+}
+
+trait Pricing { fn price(&self, base: f64) -> f64; }
+struct Regular;
+struct Sale;
+impl Pricing for Regular { fn price(&self, base: f64) -> f64 { base } }
+impl Pricing for Sale { fn price(&self, base: f64) -> f64 { base * 0.8 } }
+
+struct Checkout { pricing: Box<dyn Pricing> }
+`;
+    const matches = detector.detect(code, 'rust');
+
+    expect(matches.map(match => match.pattern)).toEqual(['Singleton', 'Strategy']);
+    expect(matches[0].confidence).toBe(0.9);
+  });
+});
+
+describe('CPatternDetector', () => {
+  const detector = new CPatternDetector();
+
+  it('detects opaque pointers, lazy singletons and function-pointer strategies', () => {
+    const code = `
+typedef struct Logger Logger;
+
+Logger *logger_create(const char *path);
+void logger_write(Logger *logger, const char *message);
+
+Logger *logger_default(void) {
+    static Logger *instance = NULL;
+    if (!instance) {
+        instance = logger_create("app.log");
+    }
+    return instance;
+}
+
+struct codec {
+    int (*encode)(const char *in, char *out);
+};
+
+static struct codec base64 = { .encode = base64_encode };
+static struct codec hex = { .encode = hex_encode };
+`;
+    expect(patternsIn(detector, code)).toEqual(['Singleton', 'Strategy', 'Opaque Pointer']);
+  });
+});
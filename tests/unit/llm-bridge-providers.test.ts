@@ -0,0 +1,217 @@
+/**
+ * LLM Bridge provider clients against a local stub HTTP server
+ * (OpenAI-compatible chat completions, Anthropic messages, Ollama /api/chat)
+ */
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  LLMBridgeService,
+  LLMProviderError,
+  resolveLLMConfig,
+  type LLMConfig,
+  type LLMRequest,
+  type LLMResponse,
+} from '../../src/services/llm-bridge.js';
+import type { DatabaseManager } from '../../src/services/database-manager.js';
+
+interface RecordedRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+class TestableLLMBridgeService extends LLMBridgeService {
+  public override callLLM(request: LLMRequest): Promise<LLMResponse> {
+    return super.callLLM(request);
+  }
+}
+
+const CODE_EXAMPLE_MARKDOWN =
+  'Here is the pattern:\n```typescript\nclass Pool { private static instance: Pool; }\n```\nThe pool is shared.';
+
+describe('LLM Bridge provider clients', () => {
+  let server: Server;
+  let baseUrl: string;
+  let recorded: RecordedRequest[];
+  let nextReply: (req: RecordedRequest) => { status: number; body: unknown; delayMs?: number };
+
+  const mockDb = {
+    query: vi.fn().mockReturnValue([]),
+    queryOne: vi.fn().mockReturnValue(null),
+  } as unknown as DatabaseManager;
+
+  function createBridge(overrides: Partial<LLMConfig>): TestableLLMBridgeService {
+    return new TestableLLMBridgeService(
+      mockDb,
+      resolveLLMConfig({ baseUrl, apiKey: 'test-key', timeout: 2000, ...overrides })
+    );
+  }
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+      req.on('end', () => {
+        const entry: RecordedRequest = {
+          path: req.url ?? '',
+          headers: req.headers,
+          body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+        };
+        recorded.push(entry);
+        const reply = nextReply(entry);
+        setTimeout(() => {
+          res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(reply.body));
+        }, reply.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    recorded = [];
+  });
+
+  test('openai provider posts chat completions and captures token usage', async () => {
+    nextReply = () => ({
+      status: 200,
+      body: {
+        choices: [{ message: { role: 'assistant', content: 'ok' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      },
+    });
+    const bridge = createBridge({ provider: 'openai', model: 'gpt-test' });
+
+    const response = await bridge.callLLM({ prompt: 'Say ok', format: 'json' });
+
+    expect(response.content).toBe('ok');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(response.metadata.provider).toBe('openai');
+    expect(recorded[0]?.path).toBe('/chat/completions');
+    expect(recorded[0]?.headers.authorization).toBe('Bearer test-key');
+    expect(recorded[0]?.body).toMatchObject({
+      model: 'gpt-test',
+      max_tokens: 2000,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  test('anthropic provider posts messages with api key and version headers', async () => {
+    nextReply = () => ({
+      status: 200,
+      body: {
+        content: [{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'world' }],
+        usage: { input_tokens: 20, output_tokens: 5 },
+      },
+    });
+    const bridge = createBridge({
+      provider: 'anthropic',
+      model: 'claude-test',
+      baseUrl: `${baseUrl}/v1`,
+    });
+
+    const response = await bridge.callLLM({ prompt: 'Greet', format: 'text' });
+
+    expect(response.content).toBe('Hello world');
+    expect(response.usage).toEqual({ promptTokens: 20, completionTokens: 5, totalTokens: 25 });
+    expect(recorded[0]?.path).toBe('/v1/messages');
+    expect(recorded[0]?.headers['x-api-key']).toBe('test-key');
+    expect(recorded[0]?.headers['anthropic-version']).toBeDefined();
+    expect(recorded[0]?.body.messages).toEqual([{ role: 'user', content: 'Greet' }]);
+  });
+
+  test('ollama provider posts non-streaming /api/chat requests', async () => {
+    nextReply = () => ({
+      status: 200,
+      body: { message: { role: 'assistant', content: '[]' }, prompt_eval_count: 7, eval_count: 2 },
+    });
+    const bridge = createBridge({ provider: 'ollama' });
+
+    const response = await bridge.callLLM({ prompt: 'List', format: 'json' });
+
+    expect(response.content).toBe('[]');
+    expect(response.usage?.totalTokens).toBe(9);
+    expect(recorded[0]?.path).toBe('/api/chat');
+    expect(recorded[0]?.body).toMatchObject({ model: 'llama3.2', stream: false, format: 'json' });
+  });
+
+  test('enhanceRecommendations merges provider JSON into recommendations', async () => {
+    nextReply = () => ({
+      status: 200,
+      body: {
+        choices: [
+          {
+            message: {
+              content: JSON.stringify([
+                {
+                  patternName: 'Singleton',
+                  enhancedReasoning: 'Share one connection pool per process',
+                  additionalBenefits: ['Fewer open sockets'],
+                },
+              ]),
+            },
+          },
+        ],
+      },
+    });
+    const bridge = createBridge({ provider: 'local' });
+
+    const result = await bridge.enhanceRecommendations(
+      [{ patternName: 'Singleton', confidence: 0.8, reasoning: 'base', benefits: [] }],
+      { experienceLevel: 'beginner' }
+    );
+
+    expect(result[0]).toMatchObject({
+      reasoning: 'Share one connection pool per process',
+      benefits: ['Fewer open sockets'],
+      enhanced: true,
+    });
+  });
+
+  test('generateCodeExample returns provider code instead of the fallback', async () => {
+    nextReply = () => ({
+      status: 200,
+      body: { message: { content: CODE_EXAMPLE_MARKDOWN } },
+    });
+    const bridge = createBridge({ provider: 'ollama' });
+
+    const result = await bridge.generateCodeExample('Singleton', 'TypeScript', 'connection pool');
+
+    expect(result.code).toContain('private static instance: Pool');
+    expect(result.explanation).toContain('The pool is shared.');
+  });
+
+  test('error statuses surface as LLMProviderError', async () => {
+    nextReply = () => ({ status: 401, body: { error: 'invalid key' } });
+    const bridge = createBridge({ provider: 'openai' });
+
+    const error = await bridge.callLLM({ prompt: 'x' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect((error as LLMProviderError).status).toBe(401);
+    expect((error as LLMProviderError).message).toContain('invalid key');
+  });
+
+  test('requests exceeding the configured timeout are aborted', async () => {
+    nextReply = () => ({ status: 200, body: { message: { content: 'late' } }, delayMs: 500 });
+    const bridge = createBridge({ provider: 'ollama', timeout: 50 });
+
+    await expect(bridge.callLLM({ prompt: 'x' })).rejects.toBeInstanceOf(LLMProviderError);
+  });
+
+  test('health status reports healthy against a responsive provider', async () => {
+    nextReply = () => ({ status: 200, body: { message: { content: 'ok' } } });
+    const bridge = createBridge({ provider: 'ollama' });
+
+    const health = await bridge.getHealthStatus();
+
+    expect(health.healthy).toBe(true);
+    expect(health.error).toBeUndefined();
+  });
+});
@@ -22,7 +22,7 @@ vi.mock('../../src/services/database-manager.js');
 
 // Subclass to expose protected methods for testing purposes
 class TestableLLMBridgeService extends LLMBridgeService {
-  public override callLLM(request: LLMRequest): LLMResponse {
+  public override callLLM(request: LLMRequest): Promise<LLMResponse> {
     return super.callLLM(request);
   }
 
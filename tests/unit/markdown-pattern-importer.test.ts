@@ -0,0 +1,104 @@
+/**
+ * Markdown pattern importer: front-matter and headings map onto the Pattern model and the
+ * result is checked with the pattern schema validation.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  parseMarkdownPattern,
+  importMarkdownPatterns,
+} from '../../src/services/markdown-pattern-importer.js';
+import { EVENT_AGGREGATOR_MARKDOWN } from '../helpers/markdown-pattern-fixture.js';
+
+describe('parseMarkdownPattern', () => {
+  const pattern = parseMarkdownPattern(EVENT_AGGREGATOR_MARKDOWN);
+
+  it('maps front-matter, the title and text sections', () => {
+    expect(pattern).toMatchObject({
+      id: 'event-aggregator',
+      name: 'Event Aggregator',
+      category: 'Behavioral',
+      complexity: 'Medium',
+      tags: ['events', 'messaging', 'decoupling'],
+      alsoKnownAs: ['Event Hub', 'Message Bus'],
+      related_patterns: ['observer', 'mediator'],
+      metadata: { owner: 'architecture-guild' },
+    });
+    expect(pattern.description).toBe(
+      'Channels events from many publishers through a single object so subscribers ' +
+        'do not need to know every publisher.'
+    );
+    expect(pattern.problem).toMatch(/^Screens that react/);
+    expect(pattern.solution).toMatch(/register with the aggregator by event type\.$/);
+  });
+
+  it('collects lists, including consequences split into benefits and drawbacks', () => {
+    expect(pattern.when_to_use).toEqual([
+      'Many components publish events that many others consume',
+      'Publishers and subscribers are created and destroyed independently',
+    ]);
+    expect(pattern.consequences).toEqual(['The aggregator becomes a central dependency']);
+    expect(pattern.benefits).toEqual(['Publishers and subscribers stay decoupled']);
+    expect(pattern.drawbacks).toEqual([
+      'Event flow is harder to trace',
+      'Forgotten subscriptions leak memory',
+    ]);
+  });
+
+  it('turns code fences into implementations and before/after examples', () => {
+    expect(pattern.implementations.map(impl => [impl.language, impl.explanation])).toEqual([
+      ['typescript', 'Handlers are keyed by event name.'],
+      ['python', ''],
+    ]);
+    expect(pattern.implementations[0].code).toContain('class EventAggregator {');
+    expect(pattern.implementations[0].id).toBe('event-aggregator-typescript-1');
+
+    expect(pattern.examples).toEqual({
+      before: {
+        language: 'typescript',
+        code: 'cart.onChange(() => header.refresh());',
+        description: 'Every screen wires itself to the others.',
+      },
+      after: {
+        language: 'typescript',
+        code: "events.subscribe('cart-changed', () => header.refresh());",
+      },
+    });
+  });
+
+  it('requires an id in the front-matter', () => {
+    expect(() => parseMarkdownPattern('# Nameless\n\nNo front-matter.')).toThrow(/needs an id/);
+  });
+});
+
+describe('importMarkdownPatterns', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-import-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('validates every document of a directory and reports schema errors', () => {
+    fs.writeFileSync(path.join(dir, 'event-aggregator.md'), EVENT_AGGREGATOR_MARKDOWN);
+    fs.writeFileSync(path.join(dir, 'bad.md'), '---\nid: Bad_Id\n---\n\n# Bad\n\nText.\n');
+    fs.writeFileSync(path.join(dir, 'broken.md'), '# No front-matter\n');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+    const results = importMarkdownPatterns([dir]);
+    expect(results.map(result => [path.basename(result.file), result.validation.valid])).toEqual([
+      ['bad.md', false],
+      ['broken.md', false],
+      ['event-aggregator.md', true],
+    ]);
+    expect(results[0].validation.errors.map(error => error.field)).toContain('id');
+    expect(results[1].pattern).toBeUndefined();
+    expect(results[1].validation.errors[0].message).toMatch(/needs an id/);
+    expect(results[2].pattern?.id).toBe('event-aggregator');
+  });
+});
@@ -26,7 +26,7 @@ describe('MCP modularization', () => {
   });
 
   it('exports canonical tool names matching HTTP handler definitions', () => {
-    expect(CANONICAL_TOOL_NAMES).toHaveLength(5);
+    expect(CANONICAL_TOOL_NAMES).toHaveLength(17);
     expect(CANONICAL_TOOL_NAMES).toContain('find_patterns');
     expect(typeof createHttpToolHandlers).toBe('function');
   });
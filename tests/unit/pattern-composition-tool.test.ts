@@ -0,0 +1,208 @@
+/**
+ * analyze_pattern_composition: composition rules derived from catalog relationships.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildCompositionKnowledge,
+  PatternCompositionEngine,
+} from '../../src/services/pattern-composition-engine.js';
+import { analyzePatternComposition } from '../../src/mcp/pattern-composition.js';
+import { formatPatternCompositionReport } from '../../src/mcp/tool-formatters.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+import type { DatabaseManager } from '../../src/services/database-manager.js';
+import type { RelationshipWithPatterns } from '../../src/models/relationship.js';
+
+const PATTERNS = {
+  'service-registry': { name: 'Service Registry', category: 'Microservices' },
+  'service-discovery': { name: 'Service Discovery', category: 'Microservices' },
+  'circuit-breaker': { name: 'Circuit Breaker', category: 'Microservices' },
+  'retry': { name: 'Retry', category: 'Microservices' },
+  'shared-database': { name: 'Shared Database', category: 'Microservices' },
+  'database-per-service': { name: 'Database per Service', category: 'Microservices' },
+} as const;
+
+type PatternId = keyof typeof PATTERNS;
+
+function relationship(
+  source: PatternId,
+  target: PatternId,
+  type: string,
+  strength: number,
+  description = ''
+) {
+  return {
+    id: `${source}-${type}-${target}`,
+    source_pattern_id: source,
+    target_pattern_id: target,
+    type,
+    strength,
+    description,
+    created_at: '2024-01-01T00:00:00Z',
+    source_id: source,
+    source_name: PATTERNS[source].name,
+    source_category: PATTERNS[source].category,
+    target_id: target,
+    target_name: PATTERNS[target].name,
+    target_category: PATTERNS[target].category,
+  };
+}
+
+const RELATIONSHIPS = [
+  relationship('service-discovery', 'service-registry', 'requires', 0.9, 'Lookups need a registry'),
+  relationship('circuit-breaker', 'retry', 'complements', 0.8, 'Retry transient faults only'),
+  relationship('shared-database', 'database-per-service', 'conflicts', 0.9, 'Opposite ownership'),
+  relationship('database-per-service', 'shared-database', 'alternative', 0.6),
+];
+
+function createMockDb(): DatabaseManager {
+  const query = vi.fn((sql: string, params: string[] = []) => {
+    if (sql.includes('FROM patterns')) {
+      return params
+        .filter((id): id is PatternId => id in PATTERNS)
+        .map(id => ({ id, ...PATTERNS[id], description: `${PATTERNS[id].name} pattern` }));
+    }
+    const [id] = params;
+    return RELATIONSHIPS.filter(row =>
+      sql.includes('r.source_pattern_id = ?') ? row.source_id === id : row.target_id === id
+    );
+  });
+  return { query } as unknown as DatabaseManager;
+}
+
+describe('catalog-driven composition knowledge', () => {
+  const toRelationship = (row: ReturnType<typeof relationship>): RelationshipWithPatterns =>
+    ({
+      id: row.id,
+      sourcePatternId: row.source_id,
+      targetPatternId: row.target_id,
+      type: row.type,
+      strength: row.strength,
+      description: row.description,
+      createdAt: new Date(row.created_at),
+      sourcePattern: { id: row.source_id, name: row.source_name, category: row.source_category },
+      targetPattern: { id: row.target_id, name: row.target_name, category: row.target_category },
+    }) as RelationshipWithPatterns;
+
+  it('maps conflicts, complements, prerequisites and alternatives onto engine rules', () => {
+    const knowledge = buildCompositionKnowledge(RELATIONSHIPS.map(toRelationship));
+
+    expect(knowledge.keyedBy).toBe('id');
+    expect(knowledge.rules).toEqual([
+      expect.objectContaining({
+        id: 'shared-database-database-per-service-conflict',
+        relationship: 'incompatible',
+        severity: 'high',
+        category: 'architectural',
+      }),
+    ]);
+    expect(knowledge.prerequisites.get('service-discovery')).toEqual(['service-registry']);
+    expect(knowledge.complements.get('retry')).toEqual(['circuit-breaker']);
+    expect(knowledge.redundancies).toEqual([['database-per-service', 'shared-database']]);
+    expect(knowledge.compatibility.get('shared-database')?.get('database-per-service')).toBeCloseTo(
+      0.1
+    );
+  });
+
+  it('keeps weak conflicts as warnings instead of invalidating the composition', () => {
+    const weak = relationship('shared-database', 'database-per-service', 'conflicts', 0.5);
+    const engine = new PatternCompositionEngine(buildCompositionKnowledge([toRelationship(weak)]));
+    const patterns = (['shared-database', 'database-per-service'] as const).map(id => ({
+      id,
+      ...PATTERNS[id],
+      description: '',
+    }));
+
+    const result = engine.analyzeComposition(patterns);
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({
+        pattern: 'Shared Database + Database per Service',
+        severity: 'medium',
+      })
+    );
+    expect(engine.detectAntiPatterns(patterns).map(a => a.antiPattern)).toContain(
+      'Pattern Conflict'
+    );
+  });
+});
+
+describe('analyzePatternComposition', () => {
+  it('reports conflicts, missing prerequisites, synergies and unknown IDs', async () => {
+    const report = await analyzePatternComposition(createMockDb(), [
+      'service-discovery',
+      'shared-database',
+      'database-per-service',
+      'circuit-breaker',
+      'missing-pattern',
+    ]);
+
+    expect(report.patterns.map(p => p.id)).toEqual([
+      'service-discovery',
+      'shared-database',
+      'database-per-service',
+      'circuit-breaker',
+    ]);
+    expect(report.unknownIds).toEqual(['missing-pattern']);
+    expect(report.composition.isValid).toBe(false);
+    expect(report.composition.violations[0].rule.patterns).toEqual([
+      'shared-database',
+      'database-per-service',
+    ]);
+    expect(report.sequence.errors).toEqual([
+      'Service Discovery requires Service Registry to be implemented first',
+    ]);
+    expect(report.composition.recommendations.map(r => r.pattern)).toEqual(['retry']);
+    expect(report.antiPatterns.map(a => a.antiPattern)).toEqual([
+      'Pattern Conflict',
+      'Pattern Redundancy',
+    ]);
+  });
+
+  it('suggests placing prerequisites first and scores complementary pairs', async () => {
+    const report = await analyzePatternComposition(createMockDb(), [
+      'service-discovery',
+      'service-registry',
+      'retry',
+      'circuit-breaker',
+    ]);
+
+    expect(report.sequence.errors).toEqual([
+      'Service Discovery requires Service Registry to be implemented first',
+    ]);
+    expect(report.sequence.suggestions[0]).toBe(
+      'Consider reordering: Service Registry → Service Discovery → Retry → Circuit Breaker'
+    );
+    expect(report.composition.synergies).toEqual([
+      expect.objectContaining({ patterns: ['circuit-breaker', 'retry'], confidence: 0.8 }),
+    ]);
+    expect(report.composition.compatibility).toContainEqual({
+      patterns: ['service-discovery', 'service-registry'],
+      score: 0.9,
+    });
+
+    const text = formatPatternCompositionReport(report);
+    expect(text).toContain('## Pattern Composition: Service Discovery + Service Registry');
+    expect(text).toContain(
+      '- **Circuit Breaker** [ID: circuit-breaker] + **Retry** [ID: retry] — Retry transient'
+    );
+    expect(text).toContain('### Sequence');
+  });
+});
+
+describe('InputValidator.validateAnalyzePatternCompositionArgs', () => {
+  it('requires a non-empty list of well-formed pattern IDs', () => {
+    expect(
+      InputValidator.validateAnalyzePatternCompositionArgs({
+        patternIds: ['observer', 'mediator'],
+      })
+    ).toEqual({ patternIds: ['observer', 'mediator'] });
+
+    expect(() =>
+      InputValidator.validateAnalyzePatternCompositionArgs({ patternIds: [] })
+    ).toThrow();
+    expect(() =>
+      InputValidator.validateAnalyzePatternCompositionArgs({ patternIds: ['../etc'] })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * find_pattern_path: shortest and strongest paths over relationship and similarity edges.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PatternPathFinder } from '../../src/services/pattern-path-finder.js';
+import { formatPatternPathResult } from '../../src/mcp/tool-formatters.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import type { GraphVectorService } from '../../src/services/graph-vector-service.js';
+import type { LLMBridgeService } from '../../src/services/llm-bridge.js';
+import type { GraphNode } from '../../src/types/search-strategy.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+function graphServiceWith(edges: Array<[string, string, number]>): GraphVectorService {
+  const graph = new Map<string, GraphNode>();
+  for (const [source, target, weight] of edges) {
+    const node = graph.get(source) ?? { id: source, embedding: [], neighbors: [] };
+    node.neighbors.push({ id: target, distance: 1 - weight, weight });
+    graph.set(source, node);
+  }
+  return { buildKNNGraph: vi.fn(() => Promise.resolve(graph)) } as unknown as GraphVectorService;
+}
+
+describe('PatternPathFinder', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('pattern-path');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+
+    db.execute('CREATE TABLE patterns (id TEXT PRIMARY KEY, name TEXT NOT NULL)');
+    db.execute(`
+      CREATE TABLE pattern_relationships (
+        id TEXT PRIMARY KEY,
+        source_pattern_id TEXT NOT NULL,
+        target_pattern_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        strength REAL DEFAULT 1.0,
+        description TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    db.execute(`
+      INSERT INTO patterns (id, name) VALUES
+        ('adapter', 'Adapter'), ('decorator', 'Decorator'), ('composite', 'Composite'),
+        ('facade', 'Facade'), ('proxy', 'Proxy'), ('singleton', 'Singleton')
+    `);
+    db.execute(`
+      INSERT INTO pattern_relationships
+        (id, source_pattern_id, target_pattern_id, type, strength, description) VALUES
+        ('r1', 'adapter', 'facade', 'related', 0.3, 'Both simplify interfaces'),
+        ('r2', 'adapter', 'decorator', 'complements', 0.9, 'Adapt, then decorate'),
+        ('r3', 'composite', 'decorator', 'complements', 0.8, 'Decorate composite nodes')
+    `);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('finds the shortest and strongest paths with labelled hops', async () => {
+    const finder = new PatternPathFinder(db, graphServiceWith([['composite', 'facade', 0.9]]));
+
+    const result = await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+    });
+
+    expect(result.shortest?.patternIds).toEqual(['adapter', 'facade']);
+    expect(result.shortest?.score).toBeCloseTo(0.3);
+    expect(result.strongest?.patternIds).toEqual(['adapter', 'decorator', 'composite', 'facade']);
+    expect(result.strongest?.score).toBeCloseTo(0.9 * 0.8 * 0.9);
+    expect(result.strongest?.hops).toEqual([
+      expect.objectContaining({ kind: 'relationship', direction: 'forward', strength: 0.9 }),
+      expect.objectContaining({ kind: 'relationship', direction: 'reverse', from: 'decorator' }),
+      { kind: 'similarity', from: 'composite', to: 'facade', score: 0.9 },
+    ]);
+
+    const text = formatPatternPathResult(result);
+    expect(text).toContain('## Path: Adapter → Facade');
+    expect(text).toContain('### Shortest path (1 hop, score 0.30)');
+    expect(text).toContain(
+      '2. **Decorator** [ID: decorator] ←complements (0.80)— **Composite** [ID: composite]'
+    );
+    expect(text).toContain(
+      '3. **Composite** [ID: composite] ~similarity 0.90~ **Facade** [ID: facade]'
+    );
+  });
+
+  it('respects the hop limit and the relationship-only mode', async () => {
+    const finder = new PatternPathFinder(db, graphServiceWith([['composite', 'facade', 0.9]]));
+
+    const limited = await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+      maxHops: 2,
+    });
+    expect(limited.strongest?.patternIds).toEqual(['adapter', 'facade']);
+
+    const relationshipsOnly = await finder.findPaths({
+      sourcePatternId: 'composite',
+      targetPatternId: 'facade',
+      includeSimilarity: false,
+    });
+    expect(relationshipsOnly.strongest?.patternIds).toEqual([
+      'composite',
+      'decorator',
+      'adapter',
+      'facade',
+    ]);
+  });
+
+  it('reports unknown and disconnected patterns', async () => {
+    const finder = new PatternPathFinder(db);
+
+    const unknown = await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'missing',
+    });
+    expect(unknown.unknownIds).toEqual(['missing']);
+    expect(formatPatternPathResult(unknown)).toContain('Unknown pattern IDs: missing');
+
+    const disconnected = await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'singleton',
+    });
+    expect(disconnected.shortest).toBeUndefined();
+    expect(formatPatternPathResult(disconnected)).toContain('No path found');
+  });
+
+  it('asks the LLM to explain the strongest path unless disabled', async () => {
+    const explainPatternRelationships = vi.fn(() => Promise.resolve('They share an interface.'));
+    const llmBridge = { explainPatternRelationships } as unknown as LLMBridgeService;
+    const finder = new PatternPathFinder(db, null, llmBridge);
+
+    const result = await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'composite',
+    });
+    expect(explainPatternRelationships).toHaveBeenCalledWith(
+      'Adapter',
+      'Composite',
+      expect.stringContaining('Adapter complements (0.90) Decorator')
+    );
+    expect(formatPatternPathResult(result)).toContain('### Explanation\nThey share an interface.');
+
+    await finder.findPaths({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'composite',
+      useLLM: false,
+    });
+    expect(explainPatternRelationships).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('InputValidator.validateFindPatternPathArgs', () => {
+  it('applies defaults and rejects identical or malformed IDs', () => {
+    expect(
+      InputValidator.validateFindPatternPathArgs({
+        source_pattern_id: 'adapter',
+        targetPatternId: 'facade',
+      })
+    ).toEqual({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+      maxHops: 4,
+      includeSimilarity: true,
+      useLLM: true,
+    });
+    expect(() =>
+      InputValidator.validateFindPatternPathArgs({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'adapter',
+      })
+    ).toThrow(/must differ/);
+    expect(() =>
+      InputValidator.validateFindPatternPathArgs({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'facade',
+        maxHops: 9,
+      })
+    ).toThrow(/must not exceed 6/);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * plan_refactoring: catalog-based refactoring plans with optional LLM refinement.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { RefactoringPlanner } from '../../src/services/refactoring-planner.js';
+import {
+  DEFAULT_LLM_CONFIG,
+  LLMBridgeService,
+  type LLMRequest,
+  type LLMResponse,
+} from '../../src/services/llm-bridge.js';
+import { formatRefactoringPlan } from '../../src/mcp/tool-formatters.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+import type { DatabaseManager } from '../../src/services/database-manager.js';
+
+const STRATEGY_ROW = {
+  id: 'strategy',
+  name: 'Strategy',
+  category: 'Behavioral',
+  description: 'Define a family of algorithms and make them interchangeable',
+  drawbacks: JSON.stringify(['Clients must know the available strategies']),
+  examples: JSON.stringify({
+    typescript: { language: 'typescript', code: 'interface Strategy { execute(): number }' },
+  }),
+};
+
+const BRANCHING_CODE = `export function shippingCost(method: string, weight: number) {
+  if (method === 'ground') {
+    return weight * 1.5;
+  } else if (method === 'air') {
+    return weight * 3;
+  } else if (method === 'express' && weight < 10) {
+    return 25;
+  }
+  throw new Error('unknown method');
+}`;
+
+function createMockDb(row: object | null = STRATEGY_ROW): DatabaseManager {
+  return {
+    query: vi.fn().mockReturnValue([]),
+    queryOne: vi.fn((sql: string) => (sql.includes('FROM patterns') ? row : null)),
+  } as unknown as DatabaseManager;
+}
+
+class CannedLLMBridgeService extends LLMBridgeService {
+  constructor(private readonly content: string) {
+    super(createMockDb(), DEFAULT_LLM_CONFIG);
+  }
+
+  protected override callLLM(_request: LLMRequest): Promise<LLMResponse> {
+    return Promise.resolve({
+      content: this.content,
+      metadata: { model: 'test', provider: 'local', timestamp: new Date(), processingTime: 0 },
+    } as LLMResponse);
+  }
+}
+
+describe('RefactoringPlanner', () => {
+  it('builds an ordered plan from code metrics and the pattern recipe', async () => {
+    const plan = await new RefactoringPlanner(createMockDb()).plan({
+      code: BRANCHING_CODE,
+      language: 'TypeScript',
+      targetPatternId: 'strategy',
+    });
+
+    expect(plan?.generatedBy).toBe('catalog');
+    expect(plan?.steps.map(step => step.order)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(plan?.steps[0].title).toBe('Pin current behaviour');
+    expect(plan?.steps[1].detail).toContain('`shippingCost`');
+    expect(plan?.affectedSymbols).toEqual([
+      { name: 'shippingCost', kind: 'function', line: 1, reason: 'cyclomatic complexity 5' },
+    ]);
+    expect(plan?.risks).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('Public API changes for `shippingCost`'),
+        'Strategy: Clients must know the available strategies',
+      ])
+    );
+    expect(plan?.testScenarios).toContain(
+      'Each strategy produces the same result as its former branch'
+    );
+    expect(plan?.after).toMatchObject({ language: 'typescript' });
+  });
+
+  it('prefers explicit before/after examples and falls back to generic steps', async () => {
+    const row = {
+      id: 'specification',
+      name: 'Specification',
+      category: 'Enterprise',
+      examples: JSON.stringify({
+        before: { language: 'typescript', code: 'if (a && b) {}' },
+        after: { language: 'typescript', code: 'spec.and(other).isSatisfiedBy(x)' },
+      }),
+    };
+
+    const plan = await new RefactoringPlanner(createMockDb(row)).plan({
+      code: 'class Filter { apply(x: number) { return x > 1; } }',
+      language: 'typescript',
+      targetPatternId: 'specification',
+    });
+
+    expect(plan?.before?.code).toBe('if (a && b) {}');
+    expect(plan?.after?.code).toContain('isSatisfiedBy');
+    expect(plan?.steps[1].title).toBe('Identify the Specification participants');
+    expect(plan?.affectedSymbols.map(symbol => symbol.name)).toEqual(['Filter']);
+  });
+
+  it('returns undefined for unknown patterns', async () => {
+    const planner = new RefactoringPlanner(createMockDb(null));
+
+    await expect(
+      planner.plan({ code: 'x', language: 'typescript', targetPatternId: 'missing' })
+    ).resolves.toBeUndefined();
+  });
+
+  it('uses a well-formed LLM refinement and keeps the catalog plan otherwise', async () => {
+    const refined = JSON.stringify({
+      summary: 'Split shippingCost into carriers',
+      steps: [{ title: 'Add Carrier interface', detail: 'One method per carrier' }],
+      risks: ['Carrier selection moves to callers'],
+      testScenarios: ['Each carrier matches the old branch'],
+    });
+    const request = { code: BRANCHING_CODE, language: 'typescript', targetPatternId: 'strategy' };
+
+    const llmPlan = await new RefactoringPlanner(
+      createMockDb(),
+      new CannedLLMBridgeService(refined)
+    ).plan(request);
+    expect(llmPlan).toMatchObject({
+      generatedBy: 'llm',
+      steps: [{ order: 1, title: 'Add Carrier interface', symbols: [] }],
+      affectedSymbols: [expect.objectContaining({ name: 'shippingCost' })],
+    });
+
+    const fallback = await new RefactoringPlanner(
+      createMockDb(),
+      new CannedLLMBridgeService('not json')
+    ).plan(request);
+    expect(fallback?.generatedBy).toBe('catalog');
+
+    const skipped = await new RefactoringPlanner(
+      createMockDb(),
+      new CannedLLMBridgeService(refined)
+    ).plan({ ...request, useLLM: false });
+    expect(skipped?.generatedBy).toBe('catalog');
+  });
+
+  it('formats the plan with steps, symbols, risks, scenarios and examples', async () => {
+    const plan = await new RefactoringPlanner(createMockDb()).plan({
+      code: BRANCHING_CODE,
+      language: 'typescript',
+      targetPatternId: 'strategy',
+    });
+    expect(plan).toBeDefined();
+    const text = formatRefactoringPlan(plan as NonNullable<typeof plan>);
+
+    expect(text).toContain('## Refactoring Plan: Strategy [ID: strategy]');
+    expect(text).toContain('1. **Pin current behaviour**');
+    expect(text).toContain('- `shippingCost` (function, line 1) — cyclomatic complexity 5');
+    expect(text).toContain('### After (typescript)');
+  });
+});
+
+describe('InputValidator.validatePlanRefactoringArgs', () => {
+  it('requires a well-formed target pattern ID and defaults useLLM to true', () => {
+    expect(
+      InputValidator.validatePlanRefactoringArgs({
+        code: 'x',
+        language: 'Python',
+        targetPatternId: 'strategy',
+      })
+    ).toEqual({ code: 'x', language: 'python', targetPatternId: 'strategy', useLLM: true });
+
+    expect(() =>
+      InputValidator.validatePlanRefactoringArgs({ code: 'x', language: 'python' })
+    ).toThrow();
+    expect(() =>
+      InputValidator.validatePlanRefactoringArgs({
+        code: 'x',
+        language: 'python',
+        targetPatternId: '../etc',
+      })
+    ).toThrow();
+  });
+});
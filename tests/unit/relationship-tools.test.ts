@@ -0,0 +1,189 @@
+/**
+ * Relationship curation tools: write-mode guard, validation and integrity checks.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createRelationshipToolHandlers } from '../../src/mcp/relationship-tools.js';
+import { DatabaseManager } from '../../src/services/database-manager.js';
+import { MCPServerConfigBuilder } from '../../src/core/config-builder.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+import { createTempDatabasePath, cleanupTempDatabase } from '../helpers/test-db.js';
+
+function textOf(result: { content: Array<{ text: string }> }): string {
+  return result.content[0].text;
+}
+
+describe('relationship tools', () => {
+  let db: DatabaseManager;
+  let tempDbPath: string;
+
+  beforeEach(async () => {
+    tempDbPath = createTempDatabasePath('relationship-tools');
+    db = new DatabaseManager({ filename: tempDbPath, options: { readonly: false } });
+    await db.initialize();
+
+    db.execute(`
+      CREATE TABLE patterns (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        description TEXT NOT NULL
+      )
+    `);
+    db.execute(`
+      CREATE TABLE pattern_relationships (
+        id TEXT PRIMARY KEY,
+        source_pattern_id TEXT NOT NULL,
+        target_pattern_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        strength REAL DEFAULT 1.0,
+        description TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    db.execute(`
+      INSERT INTO patterns (id, name, category, description) VALUES
+        ('adapter', 'Adapter', 'Structural', 'Converts interfaces'),
+        ('facade', 'Facade', 'Structural', 'Simplifies a subsystem'),
+        ('singleton', 'Singleton', 'Creational', 'One instance')
+    `);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    cleanupTempDatabase(tempDbPath);
+  });
+
+  it('rejects writes unless write tools are enabled but still allows reads', async () => {
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: false });
+
+    await expect(
+      tools.handleCreateRelationship({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'facade',
+        type: 'complements',
+        description: 'Adapters are often hidden behind a Facade',
+      })
+    ).rejects.toThrow(/create_relationship is disabled/);
+    await expect(tools.handleDeleteRelationship({ relationshipId: 'x' })).rejects.toThrow(
+      /read-only/
+    );
+    expect(textOf(await tools.handleGetRelationships({}))).toContain('No relationships found.');
+  });
+
+  it('creates, lists, updates and deletes relationships with an integrity report', async () => {
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: true });
+
+    const created = textOf(
+      await tools.handleCreateRelationship({
+        source_pattern_id: 'adapter',
+        target_pattern_id: 'facade',
+        type: 'complements',
+        strength: 0.8,
+        description: 'Adapters are often hidden behind a Facade',
+      })
+    );
+    expect(created).toContain('adapter —complements (0.80)→ facade');
+    expect(created).toContain('Integrity check: 1 relationships, 0 broken references');
+
+    const listed = textOf(await tools.handleGetRelationships({ patternId: 'facade' }));
+    expect(listed).toContain('**Adapter** [ID: adapter] —complements (0.80)→ **Facade**');
+    const [, relationshipId] = /Relationship ID: (\S+)/.exec(listed) ?? [];
+
+    const updated = textOf(
+      await tools.handleUpdateRelationship({ relationshipId, type: 'uses', strength: 0.5 })
+    );
+    expect(updated).toContain('adapter —uses (0.50)→ facade');
+
+    const deleted = textOf(
+      await tools.handleDeleteRelationship({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'facade',
+      })
+    );
+    expect(deleted).toContain(`## Deleted relationship ${relationshipId}`);
+    expect(textOf(await tools.handleGetRelationships({}))).toContain('No relationships found.');
+  });
+
+  it('rejects references to unknown patterns and duplicate pairs', async () => {
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: true });
+    const input = {
+      sourcePatternId: 'adapter',
+      targetPatternId: 'facade',
+      type: 'related',
+      description: 'Both wrap other objects',
+    };
+
+    await expect(
+      tools.handleCreateRelationship({ ...input, targetPatternId: 'missing' })
+    ).rejects.toBeInstanceOf(McpError);
+    await tools.handleCreateRelationship(input);
+    await expect(tools.handleCreateRelationship(input)).rejects.toThrow(/already exists/);
+    await expect(
+      tools.handleUpdateRelationship({ relationshipId: 'nope', strength: 0.1 })
+    ).rejects.toThrow(/Relationship not found/);
+  });
+
+  it('rolls back a mutation that leaves a broken reference', async () => {
+    const tools = createRelationshipToolHandlers(db, { enableWriteTools: true });
+    await tools.handleCreateRelationship({
+      sourcePatternId: 'adapter',
+      targetPatternId: 'singleton',
+      type: 'related',
+      strength: 0.4,
+      description: 'Adapters are sometimes shared',
+    });
+    const [row] = db.query<{ id: string }>('SELECT id FROM pattern_relationships');
+    db.execute("DELETE FROM patterns WHERE id = 'singleton'");
+
+    await expect(
+      tools.handleUpdateRelationship({ relationshipId: row.id, strength: 0.9 })
+    ).rejects.toThrow(/Integrity check failed.*rolled back/);
+    expect(
+      db.queryOne<{ strength: number }>('SELECT strength FROM pattern_relationships')?.strength
+    ).toBe(0.4);
+  });
+});
+
+describe('relationship tool arguments', () => {
+  it('validates types, strength, self references and update payloads', () => {
+    expect(() =>
+      InputValidator.validateCreateRelationshipArgs({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'adapter',
+        type: 'related',
+        description: 'Self reference is not allowed',
+      })
+    ).toThrow(/itself/);
+    expect(() =>
+      InputValidator.validateCreateRelationshipArgs({
+        sourcePatternId: 'adapter',
+        targetPatternId: 'facade',
+        type: 'requires',
+        description: 'Unknown relationship type',
+      })
+    ).toThrow(/type must be one of/);
+    expect(() =>
+      InputValidator.validateUpdateRelationshipArgs({ relationshipId: 'r1', strength: 2 })
+    ).toThrow(/must not exceed 1/);
+    expect(() => InputValidator.validateUpdateRelationshipArgs({ relationshipId: 'r1' })).toThrow(
+      /at least one of/
+    );
+    expect(() => InputValidator.validateDeleteRelationshipArgs({ sourcePatternId: 'a' })).toThrow(
+      /relationshipId or both/
+    );
+  });
+
+  it('reads the write mode from ENABLE_WRITE_TOOLS and defaults to read-only', () => {
+    const previous = process.env.ENABLE_WRITE_TOOLS;
+    try {
+      delete process.env.ENABLE_WRITE_TOOLS;
+      expect(MCPServerConfigBuilder.fromEnvironment().build().enableWriteTools).toBe(false);
+      process.env.ENABLE_WRITE_TOOLS = 'true';
+      expect(MCPServerConfigBuilder.fromEnvironment().build().enableWriteTools).toBe(true);
+    } finally {
+      if (previous === undefined) delete process.env.ENABLE_WRITE_TOOLS;
+      else process.env.ENABLE_WRITE_TOOLS = previous;
+    }
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Repository-level (multi-file) code analysis.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RepositoryAnalyzer, languageForFile } from '../../src/services/repository-analyzer.js';
+import { formatRepositoryAnalysisResult } from '../../src/mcp/tool-formatters.js';
+import { InputValidator } from '../../src/utils/input-validation.js';
+
+const FILES: Record<string, string> = {
+  'src/sorting/sort-strategy.ts': `export interface SortStrategy {
+  sort(items: number[]): number[];
+}`,
+  'src/sorting/quick-sort.ts': `import { SortStrategy } from './sort-strategy';
+export class QuickSort implements SortStrategy {
+  sort(items: number[]) { return items; }
+}`,
+  'src/sorting/merge-sort.ts': `import { SortStrategy } from './sort-strategy';
+export class MergeSort implements SortStrategy {
+  sort(items: number[]) { return items; }
+}`,
+  'src/sorting/sorter.ts': `import { SortStrategy } from './sort-strategy';
+export class Sorter {
+  constructor(private strategy: SortStrategy) {}
+  setStrategy(strategy: SortStrategy) { this.strategy = strategy; }
+}`,
+  'src/handlers/router.ts': `export function route(kind: string) {
+  switch (kind) {
+    case 'a': return 1;
+    default: return 0;
+  }
+}`,
+  'legacy/Config.java': `public class Config {
+  private static Config instance;
+  private Config() {}
+  public static Config getInstance() { return instance; }
+}`,
+  'node_modules/dep/index.ts': `export class Ignored {}`,
+  'README.md': '# not code',
+};
+
+let root: string;
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-analysis-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('RepositoryAnalyzer', () => {
+  const analyzer = new RepositoryAnalyzer();
+
+  it('maps file extensions to analyzer languages', () => {
+    expect(languageForFile('a/b.tsx')).toBe('tsx');
+    expect(languageForFile('main.go')).toBe('go');
+    expect(languageForFile('types.d.ts')).toBeUndefined();
+    expect(languageForFile('notes.md')).toBeUndefined();
+  });
+
+  it('detects patterns whose participants span several files', async () => {
+    const result = await analyzer.analyzeRepository({ root });
+
+    const strategy = result.patterns.find(p => p.pattern === 'Strategy');
+    expect(strategy).toMatchObject({
+      file: 'src/sorting/sort-strategy.ts',
+      category: 'Behavioral',
+      location: { line: 1 },
+    });
+    expect(strategy?.indicators.join(' ')).toContain('context Sorter holds a SortStrategy');
+  });
+
+  it('walks the tree skipping ignored directories and non-source files', async () => {
+    const result = await analyzer.analyzeRepository({ root });
+
+    expect(result.filesAnalyzed).toBe(6);
+    expect(result.languages).toEqual({ typescript: 5, java: 1 });
+    expect(result.symbols.map(s => s.name)).not.toContain('Ignored');
+    expect(result.symbols).toContainEqual({
+      name: 'Sorter',
+      kind: 'class',
+      file: 'src/sorting/sorter.ts',
+      line: 2,
+    });
+  });
+
+  it('uses regex detection for non TS/JS files', async () => {
+    const result = await analyzer.analyzeRepository({ root });
+    const java = result.patterns.filter(p => p.file === 'legacy/Config.java');
+    expect(java.map(p => p.pattern)).toContain('Singleton');
+  });
+
+  it('aggregates suggestions per module and skips implemented patterns', async () => {
+    const result = await analyzer.analyzeRepository({ root });
+    const handlers = result.modules.find(m => m.module === 'src/handlers');
+    const sorting = result.modules.find(m => m.module === 'src/sorting');
+
+    expect(handlers?.suggestions.map(s => s.pattern)).toContain('Strategy');
+    expect(sorting?.patterns).toContain('Strategy');
+    expect(sorting?.suggestions.map(s => s.pattern)).not.toContain('Strategy');
+  });
+
+  it('honours explicit file lists and maxFiles', async () => {
+    const result = await analyzer.analyzeRepository({
+      root,
+      files: ['src/sorting/quick-sort.ts', 'README.md', 'missing.ts'],
+    });
+    expect(result.filesAnalyzed).toBe(1);
+    expect(result.filesSkipped).toBe(2);
+
+    const limited = await analyzer.analyzeRepository({ root, maxFiles: 2 });
+    expect(limited.filesAnalyzed).toBe(2);
+  });
+
+  it('only reads inside the allowed roots, following symlinks', async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-outside-'));
+    fs.writeFileSync(path.join(outside, 'secret.ts'), 'export const token = 1;');
+    fs.symlinkSync(path.join(outside, 'secret.ts'), path.join(root, 'src/linked.ts'));
+    try {
+      const scoped = await analyzer.analyzeRepository({ root: 'src', allowedRoots: [root] });
+      expect(scoped.root).toBe(path.join(root, 'src'));
+
+      await expect(
+        analyzer.analyzeRepository({ root: outside, allowedRoots: [root] })
+      ).rejects.toThrow(/outside the configured analysis roots/);
+      await expect(
+        analyzer.analyzeRepository({ root: '..', allowedRoots: [root] })
+      ).rejects.toThrow(/outside the configured analysis roots/);
+      await expect(
+        analyzer.analyzeRepository({ root, files: ['src/linked.ts'], allowedRoots: [root] })
+      ).rejects.toThrow(/linked\.ts is outside the configured analysis roots/);
+      await expect(analyzer.analyzeRepository({ root, allowedRoots: [] })).rejects.toThrow(
+        /analysis is disabled/
+      );
+    } finally {
+      fs.rmSync(path.join(root, 'src/linked.ts'));
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a missing or non-directory path and skips unreadable subdirectories', async () => {
+    await expect(
+      analyzer.analyzeRepository({ root: path.join(root, 'missing') })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: /path not found/ });
+    await expect(
+      analyzer.analyzeRepository({ root: path.join(root, 'README.md') })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: /not a directory/ });
+
+    const readdir = fs.promises.readdir.bind(fs.promises);
+    const spy = vi
+      .spyOn(fs.promises, 'readdir')
+      .mockImplementation(((directory: string, options: { withFileTypes: true }) =>
+        directory.endsWith('legacy')
+          ? Promise.reject(new Error('EACCES'))
+          : readdir(directory, options)) as typeof fs.promises.readdir);
+    try {
+      const result = await analyzer.analyzeRepository({ root });
+      expect(result.languages.java).toBeUndefined();
+      expect(result.filesAnalyzed).toBe(5);
+      expect(result.filesSkipped).toBe(1);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('aggregates anti-pattern counts across files', () => {
+    const nested = `function deep() {${'{'.repeat(6)}${'}'.repeat(6)}}`;
+    const result = analyzer.analyzeSources('/repo', [
+      { path: 'a.js', code: nested, language: 'javascript' },
+      { path: 'lib/b.js', code: nested, language: 'javascript' },
+    ]);
+
+    expect(result.antiPatterns).toEqual([
+      {
+        pattern: 'Spaghetti Code',
+        catalogId: 'spaghetti-code',
+        count: 2,
+        severity: { low: 0, medium: 2, high: 0 },
+        files: ['a.js', 'lib/b.js'],
+      },
+    ]);
+  });
+
+  it('counts a file once per anti-pattern however many findings it has', () => {
+    const godClass = (name: string) =>
+      `class ${name} {\n${Array.from({ length: 25 }, (_, i) => `  m${i}() {}`).join('\n')}\n}`;
+    const twoGodClasses = `${godClass('First')}\n${godClass('Second')}`;
+    const result = analyzer.analyzeSources('/repo', [
+      { path: 'v3/types.js', code: twoGodClasses, language: 'javascript' },
+      { path: 'v3/other.js', code: godClass('Third'), language: 'javascript' },
+    ]);
+
+    const godObject = result.antiPatterns.find(a => a.catalogId === 'god-object');
+    expect(godObject).toMatchObject({ count: 2, files: ['v3/types.js', 'v3/other.js'] });
+    expect(godObject ? Object.values(godObject.severity).reduce((sum, n) => sum + n, 0) : 0).toBe(
+      2
+    );
+  });
+
+  it('reports a Golden Hammer when one pattern dominates several modules', () => {
+    const singleton = (name: string) => `public class ${name} {
+  private static ${name} instance;
+  private ${name}() {}
+  public static ${name} getInstance() { return instance; }
+}`;
+    const sources = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((name, i) => ({
+      path: `module${i % 3}/${name.toUpperCase()}.java`,
+      code: singleton(name.toUpperCase()),
+      language: 'java',
+    }));
+
+    const hammer = analyzer
+      .analyzeSources('/repo', sources)
+      .antiPatterns.find(a => a.catalogId === 'golden-hammer');
+
+    expect(hammer?.files).toHaveLength(8);
+    expect(hammer?.evidence).toEqual(
+      expect.arrayContaining([
+        { metric: 'occurrences', value: 8, threshold: 8, scope: 'Singleton' },
+        { metric: 'modules', value: 3, threshold: 3, scope: 'Singleton' },
+      ])
+    );
+  });
+
+  it('formats file paths and catalog IDs', async () => {
+    const result = await analyzer.analyzeRepository({ root });
+    const text = formatRepositoryAnalysisResult(
+      result,
+      new Map([['Strategy', { id: 'strategy', name: 'Strategy', category: 'Behavioral' }]])
+    );
+
+    expect(text).toContain('## Repository Analysis');
+    expect(text).toContain('src/sorting/sort-strategy.ts:line 1:1');
+    expect(text).toContain('[ID: strategy]');
+    expect(text).toContain('#### src/handlers');
+  });
+});
+
+describe('InputValidator.validateAnalyzeRepositoryArgs', () => {
+  it('requires a path or a file list', () => {
+    expect(() => InputValidator.validateAnalyzeRepositoryArgs({})).toThrow(
+      /either path or files is required/
+    );
+    expect(InputValidator.validateAnalyzeRepositoryArgs({ path: './src' })).toEqual({
+      path: './src',
+      files: undefined,
+      maxFiles: undefined,
+    });
+  });
+
+  it('rejects invalid file entries and limits', () => {
+    expect(() => InputValidator.validateAnalyzeRepositoryArgs({ files: [42] })).toThrow();
+    expect(() =>
+      InputValidator.validateAnalyzeRepositoryArgs({ path: '.', maxFiles: 0 })
+    ).toThrow();
+  });
+});
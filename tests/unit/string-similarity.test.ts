@@ -0,0 +1,29 @@
+/**
+ * Edit-distance helpers used to match mistyped pattern IDs and names.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  editDistance,
+  prefixSimilarity,
+  stringSimilarity,
+} from '../../src/utils/string-similarity.js';
+
+describe('string similarity', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('observer', 'observer')).toBe(0);
+    expect(editDistance('obsrver', 'observer')).toBe(1);
+    expect(editDistance('', 'adapter')).toBe(7);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('normalizes by the longer string', () => {
+    expect(stringSimilarity('', '')).toBe(1);
+    expect(stringSimilarity('obsrver', 'observer')).toBeCloseTo(0.875);
+    expect(stringSimilarity('adapter', 'singleton')).toBeLessThan(0.3);
+  });
+
+  it('compares a partially typed value with the start of a candidate', () => {
+    expect(prefixSimilarity('factry', 'factory-method')).toBeGreaterThan(0.6);
+    expect(stringSimilarity('factry', 'factory-method')).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Structural (AST) pattern detection for TypeScript/JavaScript.
+ */
+import { describe, it, expect } from 'vitest';
+import { TypeScriptPatternDetector } from '../../src/services/pattern-detectors/typescript-detector.js';
+import { PatternAnalyzer } from '../../src/services/pattern-analyzer.js';
+
+const detector = new TypeScriptPatternDetector();
+
+function patternsIn(code: string, language = 'typescript'): string[] {
+  return detector.detect(code, language).map(match => match.pattern);
+}
+
+describe('TypeScriptPatternDetector', () => {
+  it('supports TS/JS language identifiers only', () => {
+    expect(TypeScriptPatternDetector.supports('TypeScript')).toBe(true);
+    expect(TypeScriptPatternDetector.supports('jsx')).toBe(true);
+    expect(TypeScriptPatternDetector.supports('python')).toBe(false);
+  });
+
+  it('detects Singleton with an exact source range', () => {
+    const code = [
+      '// config',
+      'export class Config {',
+      '  private static instance: Config;',
+      '  private constructor() {}',
+      '  static getInstance(): Config {',
+      '    return (Config.instance ??= new Config());',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const [match] = detector.detect(code, 'typescript');
+
+    expect(match.pattern).toBe('Singleton');
+    expect(match.confidence).toBe(1);
+    expect(match.location).toEqual({
+      line: 2,
+      column: 1,
+      endLine: 8,
+      endColumn: 2,
+      snippet: 'export class Config {',
+    });
+  });
+
+  it('detects Singleton in JavaScript without a private constructor', () => {
+    const code = `class Registry {
+      static instance = null;
+      static get() {
+        if (!Registry.instance) Registry.instance = new Registry();
+        return Registry.instance;
+      }
+    }`;
+    expect(patternsIn(code, 'javascript')).toContain('Singleton');
+  });
+
+  it('detects Builder from fluent methods and a build step', () => {
+    const code = `class Query {
+      private parts: string[] = [];
+      select(field: string): this { this.parts.push(field); return this; }
+      where(clause: string) { this.parts.push(clause); return this; }
+      build(): string { return this.parts.join(' '); }
+    }`;
+    expect(patternsIn(code)).toEqual(['Builder']);
+  });
+
+  it('does not treat a stray `return this` as Builder', () => {
+    const code = `class Node {
+      self() { return this; }
+      toString() { return 'node'; }
+    }`;
+    expect(patternsIn(code)).not.toContain('Builder');
+  });
+
+  it('distinguishes Decorator, Proxy and Adapter wrappers', () => {
+    const code = `interface Coffee { cost(): number }
+    interface Logger { log(message: string): void }
+    class LegacyWriter { write(text: string) {} }
+
+    class MilkDecorator implements Coffee {
+      constructor(private readonly inner: Coffee) {}
+      cost() { return this.inner.cost() + 1; }
+    }
+
+    class CachedCoffee implements Coffee {
+      private real?: Coffee;
+      cost() {
+        if (!this.real) { this.real = new Espresso(); }
+        return this.real.cost();
+      }
+    }
+
+    class WriterLogger implements Logger {
+      constructor(private writer: LegacyWriter) {}
+      log(message: string) { this.writer.write(message); }
+    }`;
+
+    const matches = detector.detect(code, 'typescript');
+    const byClass: Record<string, string> = {};
+    for (const match of matches) {
+      byClass[match.location.snippet?.split(' ')[1] ?? ''] = match.pattern;
+    }
+
+    expect(byClass).toEqual({
+      MilkDecorator: 'Decorator',
+      CachedCoffee: 'Proxy',
+      WriterLogger: 'Adapter',
+    });
+  });
+
+  it('detects Strategy only when a context holds the abstraction', () => {
+    const strategies = `interface SortStrategy { sort(items: number[]): number[] }
+    class QuickSort implements SortStrategy { sort(items: number[]) { return items; } }
+    class MergeSort implements SortStrategy { sort(items: number[]) { return items; } }`;
+    const context = `
+    class Sorter {
+      constructor(private strategy: SortStrategy) {}
+      setStrategy(strategy: SortStrategy) { this.strategy = strategy; }
+    }`;
+
+    expect(patternsIn(strategies)).not.toContain('Strategy');
+
+    const [match] = detector.detect(strategies + context, 'typescript');
+    expect(match.pattern).toBe('Strategy');
+    expect(match.confidence).toBe(0.9);
+    expect(match.location.line).toBe(1);
+  });
+
+  it('detects Observer with registration and notification', () => {
+    const code = `class Store {
+      private listeners = new Set<() => void>();
+      subscribe(listener: () => void) { this.listeners.add(listener); }
+      unsubscribe(listener: () => void) { this.listeners.delete(listener); }
+      emit() { this.listeners.forEach(listener => listener()); }
+    }`;
+
+    const [match] = detector.detect(code, 'typescript');
+    expect(match.pattern).toBe('Observer');
+    expect(match.confidence).toBe(0.9);
+  });
+
+  it('detects Factory Method and Template Method in an abstract creator', () => {
+    const code = `abstract class Dialog {
+      abstract createButton(): Button;
+      render() { return this.createButton().paint(); }
+    }
+    class WebDialog extends Dialog {
+      createButton(): Button { return new HtmlButton(); }
+    }`;
+
+    const matches = detector.detect(code, 'typescript');
+    const factory = matches.find(match => match.pattern === 'Factory Method');
+
+    expect(factory?.confidence).toBe(0.9);
+    expect(factory?.location.line).toBe(2);
+    expect(matches.map(match => match.pattern)).toContain('Template Method');
+  });
+
+  it('ignores abstract methods returning generic containers', () => {
+    const code = `abstract class Command {
+      protected abstract run(): Promise<void>;
+    }
+    class Seed extends Command {
+      protected async run(): Promise<void> { await new Seeder().seed(); }
+    }`;
+    expect(patternsIn(code)).not.toContain('Factory Method');
+  });
+
+  it('detects Command, Iterator and Prototype', () => {
+    const code = `interface Command { execute(): void; undo(): void }
+    class Save implements Command { execute() {} undo() {} }
+    class Load implements Command { execute() {} undo() {} }
+    class Range {
+      *[Symbol.iterator]() { yield 1; }
+    }
+    class Shape {
+      clone(): Shape { return new Shape(); }
+    }`;
+
+    expect(patternsIn(code)).toEqual(['Prototype', 'Command', 'Iterator']);
+  });
+});
+
+describe('PatternAnalyzer language routing', () => {
+  const analyzer = new PatternAnalyzer();
+
+  it('ignores keyword-only matches for TypeScript', () => {
+    const code = `function notify(message: string) {
+      const instance = create(message);
+      return instance;
+    }`;
+    expect(analyzer.analyzeCode(code, 'typescript').identifiedPatterns).toEqual([]);
+  });
+
+  it('falls back to regex indicators for languages without a detector plugin', () => {
+    const code = `class Logger {
+      private static Logger instance;
+      private Logger() {}
+      public static Logger getInstance() { return instance; }
+    }`;
+    const result = analyzer.analyzeCode(code, 'kotlin');
+    const singleton = result.identifiedPatterns.find(p => p.pattern === 'Singleton');
+
+    expect(singleton?.category).toBe('Creational');
+    expect(singleton?.location?.endLine).toBeUndefined();
+  });
+});